@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
+import { Wallet } from "ethers";
 import { FlashloanBot, BOT_VERSION } from "../src/index.js";
 import type { BotConfig } from "../src/config/index.js";
 import { DEFAULT_CONFIG } from "../src/config/index.js";
+import { NonceManager } from "../src/nonce/NonceManager.js";
+import { ADDRESSES, makeOpportunity } from "./helpers/FixtureFactory.js";
 
 function makeConfig(overrides: Partial<BotConfig> = {}): BotConfig {
   return {
@@ -117,4 +120,35 @@ describe("FlashloanBot", () => {
       expect(detachSpy).toHaveBeenCalled();
     });
   });
+
+  describe("live execution", () => {
+    it("should never broadcast a loan from a provider the executor cannot use", async () => {
+      vi.spyOn(NonceManager.prototype, "syncWithOnChain").mockResolvedValue();
+      bot = new FlashloanBot(makeConfig(), false, {
+        wallet: Wallet.createRandom(),
+        executorAddress: ADDRESSES.EXECUTOR,
+        adapters: {
+          uniswap_v2: "0x1111111111111111111111111111111111111111",
+          sushiswap: "0x3333333333333333333333333333333333333333",
+        },
+        flashLoanProviders: {
+          aave_v3: ADDRESSES.AAVE_POOL,
+          balancer: "0xBA12222222228d8Ba445958a75a0704d566BF2C8",
+        },
+      });
+      expect(bot.mode).toBe("live");
+      vi.spyOn(bot.nonceManager!, "getNextNonce").mockResolvedValue({ nonce: 0, hadPending: false });
+      vi.spyOn(bot.provider, "getFeeData").mockResolvedValue({ gasPrice: 10n ** 8n } as any);
+      const execute = vi.spyOn(bot.engine!, "executeTransaction").mockResolvedValue({ status: "failed", error: "unexpected" } as any);
+
+      // The executor has no SoloMargin configured
+      const opp = {
+        ...makeOpportunity(),
+        flashLoan: { provider: "dydx" as const, address: "0x1E0447b19BB6EcFdAe1e4AE1694b0C3659614e4e", feeRate: 0, candidates: [] },
+      };
+      await (bot as any).handleOpportunity(opp);
+
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
 });
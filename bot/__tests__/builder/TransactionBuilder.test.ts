@@ -25,8 +25,12 @@ const CAMELOT_V2_ADAPTER = "0x5555555555555555555555555555555555555555";
 const CAMELOT_V3_ADAPTER = "0x6666666666666666666666666666666666666666";
 const RAMSES_V3_ADAPTER = "0x7777777777777777777777777777777777777777";
 const TRADERJOE_LB_ADAPTER = "0x8888888888888888888888888888888888888888";
+const CURVE_ADAPTER = "0x9999999999999999999999999999999999999999";
+const BALANCER_ADAPTER = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const UNI_V4_ADAPTER = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
 const AAVE_V3_POOL = ADDRESSES.AAVE_POOL;
 const BALANCER_VAULT = "0xBA12222222228d8Ba445958a75a0704d566BF2C8";
+const V3_FACTORY = "0x1F98431c8aD98523631AE4a59f267346ea31F984";
 
 const defaultConfig: TransactionBuilderConfig = {
   executorAddress: ADDRESSES.EXECUTOR,
@@ -39,6 +43,9 @@ const defaultConfig: TransactionBuilderConfig = {
     camelot_v3: CAMELOT_V3_ADAPTER,
     ramses_v3: RAMSES_V3_ADAPTER,
     traderjoe_lb: TRADERJOE_LB_ADAPTER,
+    curve_stableswap: CURVE_ADAPTER,
+    balancer_v2: BALANCER_ADAPTER,
+    uniswap_v4: UNI_V4_ADAPTER,
   },
   flashLoanProviders: {
     aave_v3: AAVE_V3_POOL,
@@ -222,6 +229,33 @@ describe("TransactionBuilder", () => {
       expect(decoded[0]).toBe(BALANCER_VAULT);
     });
 
+    it("defaults to the flash loan provider selected for the opportunity", () => {
+      const opp = {
+        ...makeV2Opportunity(),
+        flashLoan: { provider: "balancer" as const, address: BALANCER_VAULT, feeRate: 0, candidates: [] },
+      };
+
+      expect(builder.buildArbitrageTransaction(opp).flashLoanProvider).toBe(BALANCER_VAULT);
+      expect(builder.buildArbitrageTransaction(opp, "aave_v3").flashLoanProvider).toBe(AAVE_V3_POOL);
+    });
+
+    it("borrows a Uniswap V3 loan from the pool selected for the opportunity", () => {
+      const v3Pool = "0x00000000000000000000000000000000000000b5";
+      const v3Builder = new TransactionBuilder({
+        ...defaultConfig,
+        flashLoanProviders: { ...defaultConfig.flashLoanProviders, uniswap_v3: V3_FACTORY },
+      });
+      const opp = {
+        ...makeV2Opportunity(),
+        flashLoan: { provider: "uniswap_v3" as const, address: v3Pool, feeRate: 0.0005, candidates: [] },
+      };
+
+      const tx = v3Builder.buildArbitrageTransaction(opp);
+
+      expect(tx.flashLoanProvider).toBe(v3Pool);
+      expect(iface.decodeFunctionData("executeArbitrage", tx.data)[0]).toBe(v3Pool);
+    });
+
     it("throws if opportunity has no swap steps", () => {
       const opp = makeOpportunity({
         path: makeSwapPath({ steps: [] }),
@@ -427,6 +461,62 @@ describe("TransactionBuilder", () => {
       expect(decoded[0]).toBe(15n);
     });
 
+    it("encodes pool and coin indices for curve_stableswap", () => {
+      const step = makeSwapStep({ dex: "curve_stableswap", coinIndices: [1, 0] });
+      const data = builder.encodeExtraData(step);
+      const decoded = abiCoder.decode(["address", "int128", "int128"], data);
+      expect(decoded[0].toLowerCase()).toBe(step.poolAddress.toLowerCase());
+      expect(decoded[1]).toBe(1n);
+      expect(decoded[2]).toBe(0n);
+    });
+
+    it("throws for curve_stableswap without coin indices", () => {
+      const step = makeSwapStep({ dex: "curve_stableswap" });
+      expect(() => builder.encodeExtraData(step)).toThrow("missing coinIndices");
+    });
+
+    it("encodes the pool ID for balancer_v2", () => {
+      const poolId = "0x64541216bafffeec8ea535bb71fbc927831d0595000100000000000000000002";
+      const step = makeSwapStep({ dex: "balancer_v2", poolId });
+      const data = builder.encodeExtraData(step);
+      expect(abiCoder.decode(["bytes32"], data)[0]).toBe(poolId);
+    });
+
+    it("throws for balancer_v2 without a pool ID", () => {
+      const step = makeSwapStep({ dex: "balancer_v2" });
+      expect(() => builder.encodeExtraData(step)).toThrow("missing poolId");
+    });
+
+    it("encodes a sorted PoolKey for uniswap_v4", () => {
+      const hooks = "0x0000000000000000000000000000000000004444";
+      const step = makeSwapStep({
+        dex: "uniswap_v4",
+        tokenIn: ADDRESSES.USDC,
+        tokenOut: ADDRESSES.WETH,
+        feeTier: 0x800000,
+        tickSpacing: 60,
+        hooks,
+      });
+      const data = builder.encodeExtraData(step);
+      const [key] = abiCoder.decode(
+        ["tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)"],
+        data,
+      );
+      const [currency0, currency1] = [ADDRESSES.USDC, ADDRESSES.WETH].sort((a, b) =>
+        BigInt(a) < BigInt(b) ? -1 : 1,
+      );
+      expect(key.currency0.toLowerCase()).toBe(currency0.toLowerCase());
+      expect(key.currency1.toLowerCase()).toBe(currency1.toLowerCase());
+      expect(key.fee).toBe(0x800000n);
+      expect(key.tickSpacing).toBe(60n);
+      expect(key.hooks.toLowerCase()).toBe(hooks);
+    });
+
+    it("throws for uniswap_v4 without tickSpacing", () => {
+      const step = makeSwapStep({ dex: "uniswap_v4", feeTier: 3000 });
+      expect(() => builder.encodeExtraData(step)).toThrow("missing fee or tickSpacing");
+    });
+
     it("returns 0x for camelot_v2", () => {
       const step = makeSwapStep({ dex: "camelot_v2" });
       expect(builder.encodeExtraData(step)).toBe("0x");
@@ -470,6 +560,46 @@ describe("TransactionBuilder", () => {
       expect(builder.resolveFlashLoanProvider("balancer")).toBe(BALANCER_VAULT);
     });
 
+    it("resolves dydx when SoloMargin is configured", () => {
+      const solo = "0x1E0447b19BB6EcFdAe1e4AE1694b0C3659614e4e";
+      const dydxBuilder = new TransactionBuilder({
+        ...defaultConfig,
+        flashLoanProviders: { ...defaultConfig.flashLoanProviders, dydx: solo },
+      });
+      expect(dydxBuilder.resolveFlashLoanProvider("dydx")).toBe(solo);
+    });
+
+    it("throws for uniswap_v3 without a pool selected for the opportunity", () => {
+      const v3Builder = new TransactionBuilder({
+        ...defaultConfig,
+        flashLoanProviders: { ...defaultConfig.flashLoanProviders, uniswap_v3: V3_FACTORY },
+      });
+      expect(() => v3Builder.resolveFlashLoanProvider("uniswap_v3")).toThrow(
+        "Uniswap V3 flash loans need a pool selected for the opportunity",
+      );
+    });
+
+    it("throws for a selected provider that is not configured", () => {
+      const opp = {
+        ...makeV2Opportunity(),
+        flashLoan: { provider: "uniswap_v3" as const, address: "0x00000000000000000000000000000000000000b5", feeRate: 0.0005, candidates: [] },
+      };
+      expect(() => builder.resolveFlashLoanProvider("uniswap_v3", opp)).toThrow(
+        "No address configured for flash loan provider: uniswap_v3",
+      );
+    });
+
+    it("throws for a selected contract other than the configured one", () => {
+      const other = "0x00000000000000000000000000000000000000c1";
+      const opp = {
+        ...makeV2Opportunity(),
+        flashLoan: { provider: "balancer" as const, address: other, feeRate: 0, candidates: [] },
+      };
+      expect(() => builder.resolveFlashLoanProvider("balancer", opp)).toThrow(
+        `Selected balancer contract ${other} is not the configured ${BALANCER_VAULT}`,
+      );
+    });
+
     it("throws for unknown provider", () => {
       expect(() =>
         builder.resolveFlashLoanProvider("dydx" as FlashLoanProvider),
@@ -64,6 +64,25 @@ describe("parseEnv", () => {
   });
 });
 
+describe("parseEnv fallback endpoints", () => {
+  it("should split comma-separated fallback URLs", () => {
+    const result = parseEnv({
+      RPC_URL: "https://rpc.example.com",
+      FALLBACK_RPC_URL: "https://a.example.com, https://b.example.com,",
+      FALLBACK_WS_URL: "wss://a.example.com",
+      RPC_QUORUM: "2",
+    });
+    expect(result.FALLBACK_RPC_URLS).toEqual(["https://a.example.com", "https://b.example.com"]);
+    expect(result.FALLBACK_WS_URLS).toEqual(["wss://a.example.com"]);
+    expect(result.RPC_QUORUM).toBe(2);
+  });
+
+  it("should throw on invalid RPC_QUORUM", () => {
+    const env = { RPC_URL: "https://rpc.example.com", RPC_QUORUM: "0" };
+    expect(() => parseEnv(env)).toThrow("RPC_QUORUM");
+  });
+});
+
 describe("buildConfig", () => {
   const baseEnv = {
     RPC_URL: "https://rpc.example.com",
@@ -123,6 +142,14 @@ describe("validateConfig", () => {
     expect(() => validateConfig(bad)).toThrow("rpcUrl");
   });
 
+  it("should reject an rpcQuorum above the endpoint count", () => {
+    const bad = {
+      ...valid,
+      network: { ...valid.network, fallbackRpcUrls: ["https://b.example.com"], rpcQuorum: 3 },
+    };
+    expect(() => validateConfig(bad)).toThrow("rpcQuorum");
+  });
+
   it("should reject negative chainId", () => {
     const bad = { ...valid, network: { ...valid.network, chainId: -1 } };
     expect(() => validateConfig(bad)).toThrow("chainId");
@@ -365,7 +365,7 @@ describe("OpportunityDetector", () => {
       expect(slippage).toBeCloseTo(0.09975, 3);
     });
 
-    it("should use pool-aware slippage when V2 reserves are available", () => {
+    it("should model price impact in the output, not as slippage, when V2 reserves are available", () => {
       detector = new OpportunityDetector({ maxSlippage: 0.005 });
 
       // Build a delta with V2 reserve data
@@ -417,14 +417,17 @@ describe("OpportunityDetector", () => {
       // sellStep: tokenIn = WETH (token0), reserveIn = 1000 WETH
       expect(path.steps[1].virtualReserveIn).toBeCloseTo(1000, 0);
 
-      // Pool-aware slippage for 10 USDC input on a 2M USDC pool: nearly zero
-      // vs static 0.5% which gives 0.09975
-      const slippage = detector.estimateSlippage(path, 10);
-      expect(slippage).toBeLessThan(0.01); // Much less than static model
-      expect(slippage).toBeGreaterThan(0);
+      // Price impact is in the gross profit, so no static 0.5% (0.09975) on top
+      expect(detector.estimateSlippage(path, 10)).toBe(0);
+
+      // 10 USDC into a 2M USDC pool: just under the spot round trip
+      const spotGross = 10 * (1 - 0.003) ** 2 * (1 / 2000) * 2020 - 10;
+      const gross = detector.calculateGrossProfit(path, 10);
+      expect(gross).toBeLessThan(spotGross);
+      expect(gross).toBeGreaterThan(spotGross - 0.001);
     });
 
-    it("should show higher slippage for larger trades relative to pool depth", () => {
+    it("should model a worse rate for larger trades relative to pool depth", () => {
       detector = new OpportunityDetector({ maxSlippage: 0.005 });
 
       const buyPool = makePool({ poolAddress: ADDR.POOL_V2 });
@@ -470,11 +473,12 @@ describe("OpportunityDetector", () => {
       const path = detector.buildSwapPath(delta);
 
       // 10,000 USDC into a 20,000 USDC pool: massive ~33% price impact
-      const slippageLarge = detector.estimateSlippage(path, 10_000);
+      const returnLarge = detector.calculateGrossProfit(path, 10_000) / 10_000;
       // 10 USDC into same pool: tiny price impact
-      const slippageSmall = detector.estimateSlippage(path, 10);
+      const returnSmall = detector.calculateGrossProfit(path, 10) / 10;
 
-      expect(slippageLarge).toBeGreaterThan(slippageSmall * 10);
+      expect(returnSmall).toBeGreaterThan(0);
+      expect(returnLarge).toBeLessThan(returnSmall - 0.1);
     });
 
     it("should return full cost estimate", () => {
@@ -489,10 +493,10 @@ describe("OpportunityDetector", () => {
 
       const costs = detector.estimateCosts(path, 10);
       expect(costs.flashLoanFee).toBe(0); // free provider available
-      expect(costs.gasCost).toBeGreaterThan(0);
+      expect(costs.gasCostEth).toBeGreaterThan(0);
       expect(costs.slippageCost).toBeGreaterThan(0);
       expect(costs.totalCost).toBe(
-        costs.flashLoanFee + costs.gasCost + costs.slippageCost,
+        costs.flashLoanFee + costs.gasCostEth + costs.slippageCost,
       );
     });
   });
@@ -632,7 +636,7 @@ describe("OpportunityDetector", () => {
         expect(result.costs.flashLoanFee).toBe(0);
 
         // Gas: (21000 + 300000) * 30 / 1e9 ≈ 0.00963
-        expect(result.costs.gasCost).toBeCloseTo(0.00963, 4);
+        expect(result.costs.gasCostEth).toBeCloseTo(0.00963, 4);
 
         // Slippage: 10 * (1-(0.995)^2) ≈ 0.09975
         expect(result.costs.slippageCost).toBeCloseTo(0.09975, 3);
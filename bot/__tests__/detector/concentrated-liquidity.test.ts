@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { swapExactInput } from "../../src/math/uniswapV3.js";
+import type {
+  InitializedTick,
+  PoolConfig,
+  PriceDelta,
+  PriceSnapshot,
+} from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  TOKEN_A: "0x1000000000000000000000000000000000000001",
+  TOKEN_B: "0x2000000000000000000000000000000000000002",
+  POOL_1: "0x0000000000000000000000000000000000000011",
+  POOL_2: "0x0000000000000000000000000000000000000012",
+};
+
+const E18 = 10n ** 18n;
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "A/B UniV3",
+    dex: "uniswap_v3",
+    poolAddress: ADDR.POOL_1,
+    token0: ADDR.TOKEN_A,
+    token1: ADDR.TOKEN_B,
+    decimals0: 18,
+    decimals1: 18,
+    feeTier: 500,
+    ...overrides,
+  };
+}
+
+function makeV3Snapshot(pool: PoolConfig, tick: number, ticks?: InitializedTick[]): PriceSnapshot {
+  const sqrtPrice = Math.sqrt(1.0001 ** tick);
+  const price = sqrtPrice * sqrtPrice;
+  const compressedWord = Math.floor(Math.floor(tick / 10) / 256);
+  return {
+    pool,
+    price,
+    inversePrice: 1 / price,
+    blockNumber: 1,
+    timestamp: Date.now(),
+    sqrtPriceX96: BigInt(Math.floor(sqrtPrice * 2 ** 96)),
+    liquidity: 1000n * E18,
+    tick,
+    ...(ticks && {
+      tickLiquidity: {
+        tickSpacing: 10,
+        ticks,
+        lowerTick: (compressedWord - 1) * 2560,
+        upperTick: ((compressedWord + 1) * 256 + 255) * 10,
+        blockNumber: 1,
+      },
+    }),
+  };
+}
+
+function makeDelta(buy: PriceSnapshot, sell: PriceSnapshot): PriceDelta {
+  return {
+    pair: `${ADDR.TOKEN_A}/${ADDR.TOKEN_B}`,
+    buyPool: buy,
+    sellPool: sell,
+    deltaPercent: ((sell.price - buy.price) / buy.price) * 100,
+    timestamp: Date.now(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("OpportunityDetector tick-level slippage", () => {
+  const buyPool = makePool();
+  const sellPool = makePool({ label: "A/B SushiV3", dex: "sushiswap_v3", poolAddress: ADDR.POOL_2 });
+
+  it("should attach tick state to steps when the snapshot has a tick window", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(makeDelta(
+      makeV3Snapshot(buyPool, 0, []),
+      makeV3Snapshot(sellPool, 100, []),
+    ));
+
+    // Buy step sells token1 (price moves up), sell step sells token0 (price moves down)
+    expect(path.steps[0].concentratedLiquidity?.zeroForOne).toBe(false);
+    expect(path.steps[1].concentratedLiquidity?.zeroForOne).toBe(true);
+  });
+
+  it("should not attach tick state without a tick window", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(makeDelta(
+      makeV3Snapshot(buyPool, 0),
+      makeV3Snapshot(sellPool, 100),
+    ));
+
+    expect(path.steps[0].concentratedLiquidity).toBeUndefined();
+    expect(path.steps[0].virtualReserveIn).toBeGreaterThan(0);
+  });
+
+  it("should model a worse output when liquidity thins out across ticks", () => {
+    const detector = new OpportunityDetector();
+    const flatPath = detector.buildSwapPath(makeDelta(
+      makeV3Snapshot(buyPool, 0, []),
+      makeV3Snapshot(sellPool, 100, []),
+    ));
+    // Buy pool loses 95% of its liquidity 20 ticks above the current price
+    const thinPath = detector.buildSwapPath(makeDelta(
+      makeV3Snapshot(buyPool, 0, [{ tick: 20, liquidityNet: -950n * E18 }]),
+      makeV3Snapshot(sellPool, 100, []),
+    ));
+
+    // Same prices without tick data: the spot round trip, no price impact
+    const spotPath = {
+      ...flatPath,
+      steps: flatPath.steps.map((step) => ({ ...step, concentratedLiquidity: undefined, virtualReserveIn: undefined })),
+    };
+    const spot = detector.calculateGrossProfit(spotPath, 20);
+    const flat = detector.calculateGrossProfit(flatPath, 20);
+    const thin = detector.calculateGrossProfit(thinPath, 20);
+
+    expect(detector.estimateSlippage(thinPath, 20)).toBe(0);
+    expect(flat).toBeLessThan(spot);
+    expect(spot - thin).toBeGreaterThan((spot - flat) * 2);
+  });
+
+  it("should keep the optimized input within the loaded tick window", () => {
+    const detector = new OpportunityDetector({
+      minProfitThreshold: 0,
+      defaultInputAmount: 10,
+      gasPriceGwei: 0,
+    });
+    // Buy pool: liquidity only between ticks 0 and 30
+    const buy = makeV3Snapshot(buyPool, 0, [{ tick: 30, liquidityNet: -1000n * E18 }]);
+    const sell = makeV3Snapshot(sellPool, 200, []);
+    const path = detector.buildSwapPath(makeDelta(buy, sell));
+    const state = path.steps[0].concentratedLiquidity!;
+    const capacity = Number(swapExactInput(state, state.zeroForOne, 10n ** 30n, 500).amountIn) / 1e18;
+
+    const opportunity = detector.analyzeDelta(makeDelta(buy, sell));
+
+    expect(opportunity).not.toBeNull();
+    expect(opportunity!.inputAmount).toBeLessThanOrEqual(capacity + 1e-9);
+  });
+
+  it("should cap the search at the input the pool's own swap loop can fill", () => {
+    const detector = new OpportunityDetector();
+    // Buy pool loses 95% of its liquidity 20 ticks up, then ends at tick 40
+    const buy = makeV3Snapshot(buyPool, 0, [
+      { tick: 20, liquidityNet: -950n * E18 },
+      { tick: 40, liquidityNet: -50n * E18 },
+    ]);
+    const path = detector.buildSwapPath(makeDelta(buy, makeV3Snapshot(sellPool, 200, [])));
+    const state = path.steps[0].concentratedLiquidity!;
+    const filled = swapExactInput(state, state.zeroForOne, 10n ** 30n, 500).amountIn;
+
+    expect((detector as any).computeReserveCap(path)).toBe(Number(filled) / 1e18);
+  });
+});
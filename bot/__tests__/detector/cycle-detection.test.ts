@@ -0,0 +1,236 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { cycleLabel, findProfitableCycles } from "../../src/detector/cycles.js";
+import { TransactionBuilder } from "../../src/builder/TransactionBuilder.js";
+import { RiskPolicy } from "../../src/policy/RiskPolicy.js";
+import type { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import type { ArbitrageCycle, ArbitrageOpportunity, CycleEdge } from "../../src/detector/types.js";
+import type { PoolConfig, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  ARB: "0x912CE59144191C1204E64559FE8253a0e49E6548",
+  EXECUTOR: "0x00000000000000000000000000000000000000e1",
+  ADAPTER: "0x00000000000000000000000000000000000000a1",
+  VAULT: "0xBA12222222228d8Ba445958a75a0704d566BF2C8",
+};
+
+function makePool(label: string, token0: string, token1: string, address: string, decimals1 = 18): PoolConfig {
+  return { label, dex: "uniswap_v2", poolAddress: address, token0, token1, decimals0: 18, decimals1 };
+}
+
+function makeSnapshot(pool: PoolConfig, price: number, fields: Partial<PriceSnapshot> = {}): PriceSnapshot {
+  return { pool, price, inversePrice: 1 / price, blockNumber: 19_000_000, timestamp: Date.now(), ...fields };
+}
+
+const wethArb = makePool("WETH/ARB UniV2", ADDR.WETH, ADDR.ARB, "0x0000000000000000000000000000000000000061");
+const arbUsdc = makePool("ARB/USDC UniV2", ADDR.ARB, ADDR.USDC, "0x0000000000000000000000000000000000000062", 6);
+const wethUsdc = makePool("WETH/USDC UniV2", ADDR.WETH, ADDR.USDC, "0x0000000000000000000000000000000000000063", 6);
+
+/** WETH → ARB → USDC → WETH, with ARB overpriced in USDC by `arbPremium` */
+function triangle(arbPremium: number): PriceSnapshot[] {
+  return [
+    makeSnapshot(wethArb, 2000),
+    makeSnapshot(arbUsdc, 1 + arbPremium),
+    makeSnapshot(wethUsdc, 2000),
+  ];
+}
+
+function edge(snapshot: PriceSnapshot, tokenIn: string, rate: number): CycleEdge {
+  const pool = snapshot.pool;
+  const tokenOut = tokenIn === pool.token0 ? pool.token1 : pool.token0;
+  return { tokenIn: tokenIn.toLowerCase(), tokenOut: tokenOut.toLowerCase(), snapshot, rate };
+}
+
+/** Detector with no gas, flash loan fee or slippage, so only trading fees count */
+function makeDetector(maxCycleHops = 3, minProfitThreshold = 0.01): OpportunityDetector {
+  return new OpportunityDetector({
+    minProfitThreshold,
+    maxSlippage: 0,
+    defaultInputAmount: 10,
+    gasPriceGwei: 0,
+    flashLoanFees: { aaveV3: 0 },
+    cycleBaseTokens: [ADDR.WETH],
+    maxCycleHops,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("findProfitableCycles", () => {
+  const weth = ADDR.WETH.toLowerCase();
+  const [ab, bc, ca] = triangle(0.03);
+  const edges = [
+    edge(ab, ADDR.WETH, 2000),
+    edge(ab, ADDR.ARB, 1 / 2000),
+    edge(bc, ADDR.ARB, 1.03),
+    edge(bc, ADDR.USDC, 1 / 1.03),
+    edge(ca, ADDR.USDC, 1 / 2000),
+    edge(ca, ADDR.WETH, 2000),
+  ];
+
+  it("should find a three-hop cycle through the base token", () => {
+    const [cycle, ...rest] = findProfitableCycles(edges, [weth], 3);
+
+    expect(rest).toEqual([]);
+    expect(cycle.baseToken).toBe(weth);
+    expect(cycle.rate).toBeCloseTo(1.03, 10);
+    expect(cycle.edges.map((e) => e.snapshot.pool.label)).toEqual(["WETH/ARB UniV2", "ARB/USDC UniV2", "WETH/USDC UniV2"]);
+    for (let i = 1; i < cycle.edges.length; i++) {
+      expect(cycle.edges[i].tokenIn).toBe(cycle.edges[i - 1].tokenOut);
+    }
+  });
+
+  it("should not look past maxHops", () => {
+    expect(findProfitableCycles(edges, [weth], 2)).toEqual([]);
+  });
+
+  it("should find two-hop cycles across pools of one pair but never trade back through the same pool", () => {
+    const cheap = makeSnapshot(wethUsdc, 2000);
+    const dear = makeSnapshot({ ...wethUsdc, label: "WETH/USDC Sushi", poolAddress: "0x0000000000000000000000000000000000000064" }, 2020);
+    const pairEdges = [
+      // A pool quoting more than it should both ways would be a cycle with itself
+      edge(cheap, ADDR.WETH, 2001),
+      edge(cheap, ADDR.USDC, 1 / 1999),
+      edge(dear, ADDR.WETH, 2020),
+      edge(dear, ADDR.USDC, 1 / 2020),
+    ];
+
+    const cycles = findProfitableCycles(pairEdges, [weth], 3);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].edges.map((e) => e.snapshot.pool.label)).toEqual(["WETH/USDC Sushi", "WETH/USDC UniV2"]);
+    expect(cycles[0].rate).toBeCloseTo(2020 / 1999, 10);
+  });
+});
+
+describe("OpportunityDetector cycle search", () => {
+  it("should price trading fees into every hop", () => {
+    const detector = makeDetector();
+
+    // 0.5% premium < three 0.3% fees
+    expect(detector.findCycles(triangle(0.005))).toEqual([]);
+
+    const [cycle] = detector.findCycles(triangle(0.03));
+    expect(cycle.rate).toBeCloseTo(1.03 * 0.997 ** 3, 10);
+  });
+
+  it("should leave pools flagged for manipulation out of the graph", () => {
+    const snapshots = triangle(0.03);
+    snapshots[1] = {
+      ...snapshots[1],
+      suspectedManipulation: { source: "twap", referencePrice: 1, deviationPercent: 3, maxDeviationPercent: 2 },
+    };
+
+    expect(makeDetector().findCycles(snapshots)).toEqual([]);
+  });
+
+  it("should emit a multi-step opportunity the TransactionBuilder can encode", async () => {
+    const detector = makeDetector();
+    const [cycle] = detector.findCycles(triangle(0.03));
+
+    const opportunity = await detector.analyzeCycle(cycle);
+
+    expect(opportunity).not.toBeNull();
+    const { path } = opportunity!;
+    expect(path.baseToken).toBe(ADDR.WETH);
+    expect(path.steps.map((s) => [s.tokenIn, s.tokenOut])).toEqual([
+      [ADDR.WETH, ADDR.ARB],
+      [ADDR.ARB, ADDR.USDC],
+      [ADDR.USDC, ADDR.WETH],
+    ]);
+    expect(opportunity!.grossProfit).toBeCloseTo(10 * (1.03 * 0.997 ** 3 - 1), 10);
+    expect(opportunity!.priceDelta).toBeUndefined();
+
+    const builder = new TransactionBuilder({
+      executorAddress: ADDR.EXECUTOR,
+      adapters: { uniswap_v2: ADDR.ADAPTER },
+      flashLoanProviders: { aave_v3: ADDR.VAULT, balancer: ADDR.VAULT },
+    });
+    const tx = builder.buildArbitrageTransaction(opportunity!, "balancer");
+    expect(tx.flashLoanToken).toBe(ADDR.WETH);
+    expect(tx.steps.map((s) => s.amountIn)).toEqual([10n * 10n ** 18n, 0n, 0n]);
+  });
+
+  it("should search the snapshots of each monitor detection pass, leaving two-hop cycles to pairwise deltas", async () => {
+    const detector = makeDetector();
+    const monitor = new EventEmitter() as unknown as PriceMonitor;
+    detector.attach(monitor);
+    const found: ArbitrageOpportunity[] = [];
+    detector.on("opportunityFound", (opp: ArbitrageOpportunity) => found.push(opp));
+
+    const dearWethUsdc = makeSnapshot({ ...wethUsdc, label: "WETH/USDC Sushi", poolAddress: "0x0000000000000000000000000000000000000064" }, 2100);
+    monitor.emit("snapshotsCompared", [...triangle(0.03), dearWethUsdc]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(found.length).toBeGreaterThan(0);
+    expect(found.every((opp) => opp.cycle!.edges.length === 3)).toBe(true);
+
+    const count = found.length;
+    detector.detach();
+    monitor.emit("snapshotsCompared", triangle(0.03));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(found).toHaveLength(count);
+  });
+
+  describe("rejections", () => {
+    function rejections(detector: OpportunityDetector) {
+      const rejected: Array<[string, ArbitrageCycle | undefined]> = [];
+      detector.on("opportunityRejected", (reason: string, _delta: unknown, cycle?: ArbitrageCycle) => {
+        rejected.push([reason, cycle]);
+      });
+      return rejected;
+    }
+
+    it("should report a cycle below the profit threshold, naming the cycle", async () => {
+      const detector = makeDetector(3, 1);
+      const rejected = rejections(detector);
+      const [cycle] = detector.findCycles(triangle(0.03));
+
+      expect(await detector.analyzeCycle(cycle)).toBeNull();
+
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0][0]).toMatch(/^Net profit 0\.\d{6} below threshold 1\.000000$/);
+      expect(rejected[0][1]).toBe(cycle);
+      expect(cycleLabel(cycle)).toBe("WETH/ARB UniV2 → ARB/USDC UniV2 → WETH/USDC UniV2");
+    });
+
+    it("should report a cycle the risk policy rejects, naming the rule", async () => {
+      const detector = new OpportunityDetector({
+        minProfitThreshold: 0.01,
+        gasPriceGwei: 0,
+        cycleBaseTokens: [ADDR.WETH],
+        policy: new RiskPolicy({ rules: [{ name: "arb ban", kind: "timeBlock", match: { token: ADDR.ARB }, fromHourUtc: 0, toHourUtc: 24 }] }),
+      });
+      const rejected = rejections(detector);
+      const [cycle] = detector.findCycles(triangle(0.03));
+
+      expect(await detector.analyzeCycle(cycle)).toBeNull();
+
+      expect(rejected).toEqual([['Rejected by rule "arb ban": trading blocked 00:00-24:00 UTC', cycle]]);
+    });
+
+    it("should report flash loan and quote failures as the delta path does", async () => {
+      const unfunded = makeDetector();
+      unfunded.setFlashLoanRouter({ select: vi.fn().mockRejectedValue(new Error("no lender")) } as any);
+      const unfundedRejected = rejections(unfunded);
+      const [cycle] = unfunded.findCycles(triangle(0.03));
+      expect(await unfunded.analyzeCycle(cycle)).toBeNull();
+      expect(unfundedRejected.map(([reason]) => reason)).toEqual(["Flash loan unavailable: no lender"]);
+
+      const unquoted = makeDetector();
+      unquoted.setQuoteVerifier({ quotePath: vi.fn().mockRejectedValue(new Error("quoter reverted")) } as any);
+      const unquotedRejected = rejections(unquoted);
+      expect(await unquoted.analyzeCycle(cycle)).toBeNull();
+      expect(unquotedRejected.map(([reason]) => reason)).toEqual(["Quote failed: quoter reverted"]);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from "vitest";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { getAmountOut } from "../../src/math/uniswapV2.js";
+import {
+  computeSwapStep,
+  getAmount1Delta,
+  getSqrtRatioAtTick,
+  swapExactInput,
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  type V3PoolState,
+} from "../../src/math/uniswapV3.js";
+import { getBinAmounts, getPriceFromId, lbSwapExactInput } from "../../src/math/liquidityBook.js";
+import type { PoolConfig, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  POOL: "0x0000000000000000000000000000000000000081",
+};
+
+const Q96 = 2n ** 96n;
+const E18 = 10n ** 18n;
+/** LB bin at which the price is 1 */
+const LB_ID_ONE = 8_388_608;
+
+function isqrt(n: bigint): bigint {
+  if (n < 2n) return n;
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+}
+
+/** sqrt(reserve1 / reserve0) · 2^96, rounded down, as the Uniswap V3 tests encode prices */
+function encodePriceSqrt(reserve1: bigint, reserve0: bigint): bigint {
+  return isqrt((reserve1 << 192n) / reserve0);
+}
+
+/** V3 pool at price 1 (tick 0), tick spacing 60, loaded for one word on each side */
+function makeV3Pool(liquidity: bigint, ticks: V3PoolState["window"]["ticks"] = []): V3PoolState {
+  return {
+    sqrtPriceX96: Q96,
+    liquidity,
+    tick: 0,
+    window: { tickSpacing: 60, ticks, lowerTick: -15_360, upperTick: 15_359, blockNumber: 1 },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("Uniswap V2 getAmountOut", () => {
+  it("should match UniswapV2Library's 997/1000 formula to the wei", () => {
+    const amountIn = 1_234_567_890_123_456_789n;
+    const reserveIn = 987_654_321_987_654_321_987n;
+    const reserveOut = 2_345_678_901_234n;
+
+    const expected = (amountIn * 997n * reserveOut) / (reserveIn * 1000n + amountIn * 997n);
+    expect(getAmountOut(amountIn, reserveIn, reserveOut)).toBe(expected);
+    expect(getAmountOut(0n, reserveIn, reserveOut)).toBe(0n);
+  });
+});
+
+describe("Uniswap V3 math", () => {
+  it("should reproduce TickMath at the bounds and track 1.0001^(tick/2) in between", () => {
+    expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(0)).toBe(Q96);
+
+    for (const tick of [-500_000, -123_456, -1, 1, 60, 76_012, 300_000]) {
+      const ratio = Number(getSqrtRatioAtTick(tick)) / Number(Q96);
+      expect(ratio / Math.sqrt(1.0001 ** tick)).toBeCloseTo(1, 9);
+    }
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow(/out of range/);
+  });
+
+  it("should match the Uniswap V3 SwapMath vectors", () => {
+    const liquidity = 2n * E18;
+    const amount = E18;
+
+    // Capped at the price target, one for zero
+    const capped = computeSwapStep(encodePriceSqrt(1n, 1n), encodePriceSqrt(101n, 100n), liquidity, amount, 600);
+    expect(capped.sqrtRatioNextX96).toBe(encodePriceSqrt(101n, 100n));
+    expect(capped.amountIn).toBe(9_975_124_224_178_055n);
+    expect(capped.feeAmount).toBe(5_988_667_735_148n);
+    expect(capped.amountOut).toBe(9_925_619_580_021_728n);
+
+    // Fully spent before the target, one for zero
+    const spent = computeSwapStep(encodePriceSqrt(1n, 1n), encodePriceSqrt(1000n, 100n), liquidity, amount, 600);
+    expect(spent.amountIn).toBe(999_400_000_000_000_000n);
+    expect(spent.feeAmount).toBe(600_000_000_000_000n);
+    expect(spent.amountOut).toBe(666_399_946_655_997_866n);
+    expect(spent.sqrtRatioNextX96 < encodePriceSqrt(1000n, 100n)).toBe(true);
+  });
+
+  it("should equal a single swap step while the swap stays inside one range", () => {
+    const pool = makeV3Pool(1000n * E18);
+    const amountIn = 3n * E18;
+
+    const result = swapExactInput(pool, true, amountIn, 3000);
+    const step = computeSwapStep(Q96, getSqrtRatioAtTick(-15_360), pool.liquidity, amountIn, 3000);
+
+    expect(result.amountOut).toBe(step.amountOut);
+    expect(result.amountIn).toBe(amountIn);
+    expect(result.exhausted).toBe(false);
+  });
+
+  it("should cross initialized ticks and stop at the edge of the loaded window", () => {
+    // All liquidity ends at tick -60: crossing it downward subtracts liquidityNet
+    const liquidity = 1000n * E18;
+    const pool = makeV3Pool(liquidity, [{ tick: -60, liquidityNet: liquidity }]);
+
+    const result = swapExactInput(pool, true, 1000n * E18, 3000);
+
+    expect(result.exhausted).toBe(true);
+    expect(result.amountOut).toBe(getAmount1Delta(getSqrtRatioAtTick(-60), Q96, liquidity, false));
+    expect(result.amountIn).toBeLessThan(1000n * E18);
+  });
+});
+
+describe("Trader Joe LB math", () => {
+  it("should price bins in 128.128 fixed point", () => {
+    const one = 1n << 128n;
+    expect(getPriceFromId(LB_ID_ONE, 25)).toBe(one);
+    expect(getPriceFromId(LB_ID_ONE + 1, 25)).toBe(one + (25n << 128n) / 10_000n);
+
+    const price = Number(getPriceFromId(LB_ID_ONE - 100, 25)) / Number(one);
+    expect(price / 1.0025 ** -100).toBeCloseTo(1, 12);
+  });
+
+  it("should fill inside the active bin and move on once it is drained", () => {
+    const fee = 10n ** 15n; // 0.1%
+    const bins = [
+      { id: LB_ID_ONE - 1, reserveX: 0n, reserveY: 5n * E18 },
+      { id: LB_ID_ONE, reserveX: 0n, reserveY: 2n * E18 },
+    ];
+
+    // Inside the active bin at price 1: output = input less the fee
+    const small = lbSwapExactInput(bins, LB_ID_ONE, 25, true, E18, fee);
+    expect(small.amountOut).toBe(E18 - getBinAmounts(bins[1], 25, true, E18, fee).fee);
+    expect(small.amountOut).toBe(E18 - 10n ** 15n);
+
+    // Past the active bin: all of its Y, then the lower bin at its own price
+    const large = lbSwapExactInput(bins, LB_ID_ONE, 25, true, 4n * E18, fee);
+    const drained = getBinAmounts(bins[1], 25, true, 4n * E18, fee);
+    const next = getBinAmounts(bins[0], 25, true, 4n * E18 - drained.amountIn, fee);
+    expect(drained.amountOut).toBe(2n * E18);
+    expect(large.amountOut).toBe(drained.amountOut + next.amountOut);
+    expect(large.exhausted).toBe(false);
+
+    const all = lbSwapExactInput(bins, LB_ID_ONE, 25, true, 100n * E18, fee);
+    expect(all.amountOut).toBe(7n * E18);
+    expect(all.exhausted).toBe(true);
+  });
+});
+
+describe("OpportunityDetector exact output simulation", () => {
+  const pool: PoolConfig = {
+    label: "WETH/USDC UniV2",
+    dex: "uniswap_v2",
+    poolAddress: ADDR.POOL,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+  };
+
+  it("should simulate V2 steps with the pair's integer getAmountOut", () => {
+    const reserves: [bigint, bigint] = [1_000n * E18 + 123_456_789n, 2_000_000n * 10n ** 6n + 42n];
+    const snapshot: PriceSnapshot = {
+      pool,
+      price: 2000,
+      inversePrice: 1 / 2000,
+      blockNumber: 1,
+      timestamp: Date.now(),
+      reserves,
+    };
+    const detector = new OpportunityDetector();
+    const step = (detector as any).buildSwapStep(snapshot, ADDR.WETH);
+
+    expect(step.reserves).toEqual(reserves);
+    expect((detector as any).simulateStep(step, 1.5)).toBe(
+      Number(getAmountOut(1_500_000_000_000_000_000n, reserves[0], reserves[1])) / 1e6,
+    );
+  });
+
+  it("should not simulate amounts that are not finite numbers", () => {
+    const snapshot: PriceSnapshot = {
+      pool,
+      price: 2000,
+      inversePrice: 1 / 2000,
+      blockNumber: 1,
+      timestamp: Date.now(),
+      reserves: [1_000n * E18, 2_000_000n * 10n ** 6n],
+    };
+    const detector = new OpportunityDetector();
+    const step = (detector as any).buildSwapStep(snapshot, ADDR.WETH);
+
+    expect((detector as any).simulateStep(step, NaN)).toBeNull();
+    expect((detector as any).simulateStep(step, Infinity)).toBeNull();
+    expect(detector.calculateGrossProfit({ steps: [step], baseToken: ADDR.WETH, label: "test" }, Infinity)).toBe(-Infinity);
+  });
+});
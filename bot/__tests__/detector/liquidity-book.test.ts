@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { lbSwapExactInput } from "../../src/math/liquidityBook.js";
+import type { LBBin, PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  TOKEN_A: "0x1000000000000000000000000000000000000001",
+  TOKEN_B: "0x2000000000000000000000000000000000000002",
+  POOL_1: "0x0000000000000000000000000000000000000011",
+  POOL_2: "0x0000000000000000000000000000000000000012",
+};
+
+const E18 = 10n ** 18n;
+/** Bin at which the price is 1 */
+const ANCHOR = 8_388_608;
+const BIN_STEP = 10;
+/** Price step between adjacent bins */
+const STEP = 1 + BIN_STEP / 10_000;
+
+/** Active bin holding both tokens, `perSide` bins below (Y only) and above (X only) */
+function makeBins(activeId: number, perSide: number, reserve: bigint): LBBin[] {
+  const bins: LBBin[] = [];
+  for (let id = activeId - perSide; id <= activeId + perSide; id++) {
+    bins.push({
+      id,
+      reserveX: id >= activeId ? reserve : 0n,
+      reserveY: id <= activeId ? reserve : 0n,
+    });
+  }
+  return bins;
+}
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "A/B TJ LB",
+    dex: "traderjoe_lb",
+    poolAddress: ADDR.POOL_1,
+    token0: ADDR.TOKEN_A,
+    token1: ADDR.TOKEN_B,
+    decimals0: 18,
+    decimals1: 18,
+    feeTier: BIN_STEP,
+    ...overrides,
+  };
+}
+
+function makeLBSnapshot(pool: PoolConfig, activeId: number, bins?: LBBin[]): PriceSnapshot {
+  const price = STEP ** (activeId - ANCHOR);
+  return {
+    pool,
+    price,
+    inversePrice: 1 / price,
+    blockNumber: 1,
+    timestamp: Date.now(),
+    activeId,
+    ...(bins && { lbBins: { bins, blockNumber: 1 } }),
+  };
+}
+
+function makeDelta(buy: PriceSnapshot, sell: PriceSnapshot): PriceDelta {
+  return {
+    pair: `${ADDR.TOKEN_A}/${ADDR.TOKEN_B}`,
+    buyPool: buy,
+    sellPool: sell,
+    deltaPercent: ((sell.price - buy.price) / buy.price) * 100,
+    timestamp: Date.now(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("OpportunityDetector bin-level slippage", () => {
+  const buyPool = makePool();
+  const sellPool = makePool({ label: "A/B TJ LB 2", poolAddress: ADDR.POOL_2 });
+
+  it("should attach bin state with the swap direction of each step", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(makeDelta(
+      makeLBSnapshot(buyPool, ANCHOR, makeBins(ANCHOR, 1, E18)),
+      makeLBSnapshot(sellPool, ANCHOR + 20, makeBins(ANCHOR + 20, 1, E18)),
+    ));
+
+    // Buy step sells token1 (tokenY), sell step sells token0 (tokenX)
+    expect(path.steps[0].lbBins?.swapForY).toBe(false);
+    expect(path.steps[1].lbBins?.swapForY).toBe(true);
+    expect(path.steps[1].lbBins?.activeId).toBe(ANCHOR + 20);
+    expect(path.steps[1].lbBins?.binStep).toBe(BIN_STEP);
+  });
+
+  it("should treat token1 as tokenX when the pool price is inverted", () => {
+    const detector = new OpportunityDetector();
+    const inverted = makePool({ invertPrice: true });
+    const path = detector.buildSwapPath(makeDelta(
+      makeLBSnapshot(inverted, ANCHOR, makeBins(ANCHOR, 1, E18)),
+      makeLBSnapshot(sellPool, ANCHOR + 20, makeBins(ANCHOR + 20, 1, E18)),
+    ));
+
+    expect(path.steps[0].lbBins?.swapForY).toBe(true);
+  });
+
+  it("should fall back to the per-DEX input cap without bins", () => {
+    const detector = new OpportunityDetector({
+      minProfitThreshold: 0,
+      defaultInputAmount: 10,
+      gasPriceGwei: 0,
+    });
+
+    const opportunity = detector.analyzeDelta(makeDelta(
+      makeLBSnapshot(buyPool, ANCHOR),
+      makeLBSnapshot(sellPool, ANCHOR + 20),
+    ));
+
+    expect(opportunity).not.toBeNull();
+    expect(opportunity!.path.steps[0].lbBins).toBeUndefined();
+    expect(opportunity!.inputAmount).toBe(5);
+  });
+
+  it("should size LB trades from bin depth instead of the per-DEX cap", () => {
+    const detector = new OpportunityDetector({
+      minProfitThreshold: 0,
+      defaultInputAmount: 10,
+      gasPriceGwei: 0,
+    });
+    const buy = makeLBSnapshot(buyPool, ANCHOR, makeBins(ANCHOR, 5, 50n * E18));
+    const sell = makeLBSnapshot(sellPool, ANCHOR + 20, makeBins(ANCHOR + 20, 5, 50n * E18));
+    const delta = makeDelta(buy, sell);
+    const path = detector.buildSwapPath(delta);
+    const { bins, activeId, swapForY } = path.steps[0].lbBins!;
+    const totalFee = BigInt((BIN_STEP / 10_000) * 1.5 * 1e18);
+    const drained = lbSwapExactInput(bins, activeId, BIN_STEP, swapForY, 10n ** 30n, totalFee);
+    const capacity = Number(drained.amountIn) / 1e18;
+
+    const opportunity = detector.analyzeDelta(delta);
+
+    expect(opportunity).not.toBeNull();
+    expect(opportunity!.inputAmount).toBeGreaterThan(5);
+    expect(opportunity!.inputAmount).toBeLessThanOrEqual(capacity + 1e-9);
+  });
+
+  it("should model a worse output on thin bins", () => {
+    const detector = new OpportunityDetector();
+    const deep = detector.buildSwapPath(makeDelta(
+      makeLBSnapshot(buyPool, ANCHOR, makeBins(ANCHOR, 5, 100n * E18)),
+      makeLBSnapshot(sellPool, ANCHOR + 20, makeBins(ANCHOR + 20, 5, 100n * E18)),
+    ));
+    const thin = detector.buildSwapPath(makeDelta(
+      makeLBSnapshot(buyPool, ANCHOR, makeBins(ANCHOR, 5, 2n * E18)),
+      makeLBSnapshot(sellPool, ANCHOR + 20, makeBins(ANCHOR + 20, 5, 100n * E18)),
+    ));
+
+    expect(detector.estimateSlippage(thin, 8)).toBe(0);
+    expect(detector.calculateGrossProfit(thin, 8)).toBeLessThan(detector.calculateGrossProfit(deep, 8));
+  });
+});
@@ -0,0 +1,273 @@
+import { EventEmitter } from "node:events";
+import { describe, it, expect, vi } from "vitest";
+import { Interface } from "ethers";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { QuoteVerifier } from "../../src/detector/QuoteVerifier.js";
+import type { ArbitrageOpportunity, SwapStep } from "../../src/detector/types.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+import type { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  ARB: "0x912CE59144191C1204E64559FE8253a0e49E6548",
+  POOL_V2: "0x0000000000000000000000000000000000000071",
+  POOL_SUSHI: "0x0000000000000000000000000000000000000072",
+  POOL_LB: "0x0000000000000000000000000000000000000073",
+  UNI_ROUTER: "0x00000000000000000000000000000000000000b1",
+  SUSHI_ROUTER: "0x00000000000000000000000000000000000000b2",
+  QUOTER_V2: "0x00000000000000000000000000000000000000b3",
+  ALGEBRA_QUOTER: "0x00000000000000000000000000000000000000b4",
+  LB_QUOTER: "0x00000000000000000000000000000000000000b5",
+};
+
+const BLOCK = 250_000_000;
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+  "function getBlockNumber() view returns (uint256 blockNumber)",
+]);
+const quoterIface = new Interface([
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+  "function quoteExactInputSingle(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  "function findBestPathFromAmountIn(address[] route, uint128 amountIn) view returns (tuple(address[] route, address[] pairs, uint256[] binSteps, uint8[] versions, uint128[] amounts, uint128[] virtualAmountsWithoutSlippage, uint128[] fees) quote)",
+]);
+const algebraIface = new Interface([
+  "function quoteExactInputSingle(address tokenIn, address tokenOut, uint256 amountIn, uint160 limitSqrtPrice) returns (uint256 amountOut, uint16 fee)",
+]);
+
+/** Quoter mock: raw output for a raw input, or null to revert */
+type Quote = (amountIn: bigint) => bigint | null;
+
+/**
+ * Multicall mock answering getAmountsOut on the two V2 routers, QuoterV2,
+ * the Algebra quoter and LBQuoter from `quotes` (keyed by quoter address).
+ * The LB quote routes through `lbPair`.
+ */
+function mockProvider(quotes: Record<string, Quote>, lbPair = ADDR.POOL_LB) {
+  const handle = (target: string, callData: string): [boolean, string] => {
+    if (target.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()) {
+      return [true, mcIface.encodeFunctionResult("getBlockNumber", [BLOCK])];
+    }
+    const quote = quotes[target.toLowerCase()];
+    if (!quote) return [false, "0x"];
+
+    if (target.toLowerCase() === ADDR.ALGEBRA_QUOTER.toLowerCase()) {
+      const [, , amountIn] = algebraIface.decodeFunctionData("quoteExactInputSingle", callData);
+      const out = quote(amountIn as bigint);
+      return out === null ? [false, "0x"] : [true, algebraIface.encodeFunctionResult("quoteExactInputSingle", [out, 100])];
+    }
+    const fn = quoterIface.parseTransaction({ data: callData })!;
+    switch (fn.name) {
+      case "getAmountsOut": {
+        const out = quote(fn.args[0] as bigint);
+        return out === null ? [false, "0x"] : [true, quoterIface.encodeFunctionResult("getAmountsOut", [[fn.args[0], out]])];
+      }
+      case "quoteExactInputSingle": {
+        const out = quote(fn.args[0].amountIn as bigint);
+        return out === null ? [false, "0x"] : [true, quoterIface.encodeFunctionResult("quoteExactInputSingle", [out, 0n, 0, 0n])];
+      }
+      default: {
+        const [route, amountIn] = fn.args as unknown as [string[], bigint];
+        const out = quote(amountIn);
+        return out === null ? [false, "0x"] : [true, quoterIface.encodeFunctionResult("findBestPathFromAmountIn", [
+          [route, [lbPair], [15n], [2], [amountIn, out], [amountIn, out], [0n]],
+        ])];
+      }
+    }
+  };
+
+  const provider = {
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { target: string; callData: string }) => handle(c.target, c.callData));
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+  return provider;
+}
+
+/** Quote at a fixed rate (tokenOut per tokenIn, both 18 decimals) */
+function atRate(rate: number): Quote {
+  return (amountIn) => BigInt(Math.floor(Number(amountIn) * rate));
+}
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "ARB/WETH UniV2",
+    dex: "uniswap_v2",
+    poolAddress: ADDR.POOL_V2,
+    token0: ADDR.ARB,
+    token1: ADDR.WETH,
+    decimals0: 18,
+    decimals1: 18,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(pool: PoolConfig, price: number): PriceSnapshot {
+  return { pool, price, inversePrice: 1 / price, blockNumber: BLOCK - 1, timestamp: Date.now() };
+}
+
+/** Buy ARB on UniV2 at 0.0005 WETH, sell on Sushi at 0.000515 */
+function makeDelta(): PriceDelta {
+  const sushi = makePool({ label: "ARB/WETH Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_SUSHI });
+  return {
+    pair: `${ADDR.ARB}/${ADDR.WETH}`,
+    buyPool: makeSnapshot(makePool(), 0.0005),
+    sellPool: makeSnapshot(sushi, 0.000515),
+    deltaPercent: 3,
+    timestamp: Date.now(),
+  };
+}
+
+/** Detector without gas, flash loan fee or slippage, so only trading fees count */
+function makeDetector(verifier: QuoteVerifier): OpportunityDetector {
+  return new OpportunityDetector({
+    minProfitThreshold: 0.01,
+    maxSlippage: 0,
+    defaultInputAmount: 10,
+    gasPriceGwei: 0,
+    flashLoanFees: { aaveV3: 0 },
+    quoteVerifier: verifier,
+  });
+}
+
+/** Run a delta through an attached detector and collect what it emits */
+async function analyze(detector: OpportunityDetector, delta: PriceDelta) {
+  const monitor = new EventEmitter() as unknown as PriceMonitor;
+  detector.attach(monitor);
+  const found: ArbitrageOpportunity[] = [];
+  const rejected: string[] = [];
+  detector.on("opportunityFound", (opp: ArbitrageOpportunity) => found.push(opp));
+  detector.on("opportunityRejected", (reason: string) => rejected.push(reason));
+
+  monitor.emit("opportunity", delta);
+  await vi.waitFor(() => expect(found.length + rejected.length).toBe(1));
+  detector.detach();
+  return { found, rejected };
+}
+
+function makeStep(overrides: Partial<SwapStep>): SwapStep {
+  return {
+    dex: "uniswap_v3",
+    poolAddress: ADDR.POOL_V2,
+    tokenIn: ADDR.WETH,
+    tokenOut: ADDR.ARB,
+    decimalsIn: 18,
+    decimalsOut: 18,
+    expectedPrice: 2000,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("QuoteVerifier", () => {
+  it("should quote each protocol through its own quoter in one multicall", async () => {
+    const provider = mockProvider({
+      [ADDR.QUOTER_V2.toLowerCase()]: atRate(2000),
+      [ADDR.ALGEBRA_QUOTER.toLowerCase()]: atRate(0.0005),
+      [ADDR.LB_QUOTER.toLowerCase()]: atRate(1),
+    });
+    const verifier = new QuoteVerifier({
+      provider,
+      quoters: { uniswap_v3: ADDR.QUOTER_V2, camelot_v3: ADDR.ALGEBRA_QUOTER, traderjoe_lb: ADDR.LB_QUOTER },
+    });
+
+    const { amountsOut, blockNumber } = await verifier.quotePath(
+      [
+        makeStep({ feeTier: 500 }),
+        makeStep({ dex: "camelot_v3", tokenIn: ADDR.ARB, tokenOut: ADDR.WETH, expectedPrice: 0.0005 }),
+        makeStep({ dex: "traderjoe_lb", poolAddress: ADDR.POOL_LB, feeTier: 15 }),
+        makeStep({ dex: "curve_stableswap" }),
+      ],
+      [1, 2000, 3, 4],
+    );
+
+    expect(provider.call).toHaveBeenCalledOnce();
+    expect(blockNumber).toBe(BLOCK);
+    expect(amountsOut[0]).toBeCloseTo(2000, 9);
+    expect(amountsOut[1]).toBeCloseTo(1, 9);
+    expect(amountsOut[2]).toBeCloseTo(3, 9);
+    expect(amountsOut[3]).toBeUndefined();
+  });
+
+  it("should fail the path when LBQuoter routes through another pair", async () => {
+    const provider = mockProvider({ [ADDR.LB_QUOTER.toLowerCase()]: atRate(1) }, ADDR.POOL_SUSHI);
+    const verifier = new QuoteVerifier({ provider, quoters: { traderjoe_lb: ADDR.LB_QUOTER } });
+
+    await expect(
+      verifier.quotePath([makeStep({ dex: "traderjoe_lb", poolAddress: ADDR.POOL_LB })], [1]),
+    ).rejects.toThrow(/routed step/);
+  });
+});
+
+describe("OpportunityDetector quote verification", () => {
+  const quoters = { uniswap_v2: ADDR.UNI_ROUTER, sushiswap: ADDR.SUSHI_ROUTER };
+
+  it("should attach quoted and modeled output when the quoted round trip clears the threshold", async () => {
+    const provider = mockProvider({
+      // Quoters agree with the model: 0.3% fee at spot
+      [ADDR.UNI_ROUTER.toLowerCase()]: atRate(2000 * 0.997),
+      [ADDR.SUSHI_ROUTER.toLowerCase()]: atRate(0.000515 * 0.997),
+    });
+    const detector = makeDetector(new QuoteVerifier({ provider, quoters }));
+
+    const { found, rejected } = await analyze(detector, makeDelta());
+
+    expect(rejected).toEqual([]);
+    const { quote } = found[0];
+    expect(provider.call).toHaveBeenCalledOnce();
+    expect(quote!.blockNumber).toBe(BLOCK);
+    expect(quote!.steps.map((s) => s.amountIn)).toEqual([10, quote!.steps[0].modeledOut]);
+    expect(quote!.steps[0].quotedOut).toBeCloseTo(10 * 2000 * 0.997, 6);
+    expect(quote!.modeledOutput).toBeCloseTo(10 * 1.03 * 0.997 ** 2, 9);
+    expect(quote!.quotedOutput).toBeCloseTo(quote!.modeledOutput, 9);
+    expect(quote!.quotedNetProfit).toBeCloseTo(found[0].netProfit, 9);
+  });
+
+  it("should reject when the quoted round trip misses the threshold the model cleared", async () => {
+    const provider = mockProvider({
+      [ADDR.UNI_ROUTER.toLowerCase()]: atRate(2000 * 0.997),
+      // The sell side has already moved back to the buy price
+      [ADDR.SUSHI_ROUTER.toLowerCase()]: atRate(0.0005 * 0.997),
+    });
+    const detector = makeDetector(new QuoteVerifier({ provider, quoters }));
+
+    const { found, rejected } = await analyze(detector, makeDelta());
+
+    expect(found).toEqual([]);
+    expect(rejected[0]).toMatch(/^Quoted net profit -0\.\d+ below threshold 0\.010000 \(modeled 0\.\d+\)$/);
+  });
+
+  it("should reject when a quote reverts", async () => {
+    const provider = mockProvider({
+      [ADDR.UNI_ROUTER.toLowerCase()]: atRate(2000 * 0.997),
+      [ADDR.SUSHI_ROUTER.toLowerCase()]: () => null,
+    });
+    const detector = makeDetector(new QuoteVerifier({ provider, quoters }));
+
+    const { found, rejected } = await analyze(detector, makeDelta());
+
+    expect(found).toEqual([]);
+    expect(rejected[0]).toBe(`Quote failed: Quote reverted for step 2 (sushiswap ${ADDR.POOL_SUSHI})`);
+  });
+
+  it("should keep the modeled output for steps without a quoter", async () => {
+    const provider = mockProvider({ [ADDR.UNI_ROUTER.toLowerCase()]: atRate(2000 * 0.997) });
+    const detector = makeDetector(new QuoteVerifier({ provider, quoters: { uniswap_v2: ADDR.UNI_ROUTER } }));
+
+    const { found } = await analyze(detector, makeDelta());
+
+    const { quote } = found[0];
+    expect(quote!.steps[1].quotedOut).toBeUndefined();
+    expect(quote!.quotedOutput).toBeCloseTo(quote!.modeledOutput, 9);
+  });
+});
@@ -0,0 +1,229 @@
+import { EventEmitter } from "node:events";
+import { describe, it, expect } from "vitest";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { TokenValuation, toEth } from "../../src/detector/TokenValuation.js";
+import type { ArbitrageOpportunity } from "../../src/detector/types.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+import type { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  ARB: "0x912CE59144191C1204E64559FE8253a0e49E6548",
+  POOL_A: "0x0000000000000000000000000000000000000091",
+  POOL_B: "0x0000000000000000000000000000000000000092",
+  POOL_C: "0x0000000000000000000000000000000000000093",
+};
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC UniV2",
+    dex: "uniswap_v2",
+    poolAddress: ADDR.POOL_A,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(pool: PoolConfig, price: number): PriceSnapshot {
+  return { pool, price, inversePrice: 1 / price, blockNumber: 1, timestamp: Date.now() };
+}
+
+/** WETH/USDC priced at 2000 on one pool and 2030 on another (USDC per WETH) */
+function makeDelta(): PriceDelta {
+  return {
+    pair: "WETH/USDC",
+    buyPool: makeSnapshot(makePool(), 2000),
+    sellPool: makeSnapshot(makePool({ label: "WETH/USDC Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_B }), 2030),
+    deltaPercent: 1.5,
+    timestamp: Date.now(),
+  };
+}
+
+function makeDetector(valuation: TokenValuation | undefined, pairBaseTokens?: Record<string, string>) {
+  const detector = new OpportunityDetector({
+    minProfitThreshold: 0.01,
+    maxSlippage: 0.001,
+    gasPriceGwei: 30,
+    flashLoanFees: { aaveV3: 0.0005, dydx: 0, balancer: 0 },
+    valuation,
+    pairBaseTokens,
+  });
+  const found: ArbitrageOpportunity[] = [];
+  const rejected: string[] = [];
+  detector.on("opportunityFound", (opp) => found.push(opp));
+  detector.on("opportunityRejected", (reason) => rejected.push(reason));
+  return { detector, found, rejected };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("TokenValuation", () => {
+  it("should price the non-WETH side of WETH pairs in either token order", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH });
+
+    valuation.update(makeSnapshot(makePool(), 2000));
+    valuation.update(makeSnapshot(makePool({ token0: ADDR.ARB, token1: ADDR.WETH, poolAddress: ADDR.POOL_C }), 0.0004));
+
+    expect(valuation.ethPerToken(ADDR.WETH.toLowerCase())).toBe(1);
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeCloseTo(0.0005, 12);
+    expect(valuation.ethPerToken(ADDR.ARB)).toBeCloseTo(0.0004, 12);
+    expect(valuation.toEth(ADDR.USDC, 300)).toBeCloseTo(0.15, 12);
+  });
+
+  it("should skip non-WETH pairs and manipulation-flagged prices", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH });
+
+    valuation.update(makeSnapshot(makePool({ token0: ADDR.ARB, token1: ADDR.USDC }), 0.8));
+    valuation.update({
+      ...makeSnapshot(makePool(), 5000),
+      suspectedManipulation: { source: "twap", referencePrice: 2000, deviationPercent: 150, maxDeviationPercent: 5 },
+    });
+
+    expect(valuation.ethPerToken(ADDR.ARB)).toBeUndefined();
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeUndefined();
+    expect(valuation.toEth(ADDR.USDC, 1)).toBeUndefined();
+  });
+
+  it("should price from the deepest viable WETH pair", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH });
+    const deep = makePool();
+    const thin = makePool({ label: "WETH/USDC Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_B });
+
+    valuation.update({ ...makeSnapshot(deep, 2000), liquidityWeth: 500 });
+    valuation.update({ ...makeSnapshot(thin, 4000), liquidityWeth: 2 });
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeCloseTo(1 / 2000, 12);
+
+    // The deep pool turns non-viable: the thin one is all that is left
+    valuation.setViable(deep, false);
+    valuation.update({ ...makeSnapshot(deep, 2000), liquidityWeth: 500 });
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeCloseTo(1 / 4000, 12);
+
+    valuation.setViable(thin, false);
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeUndefined();
+
+    valuation.setViable(deep, true);
+    valuation.update({ ...makeSnapshot(deep, 2010), liquidityWeth: 500 });
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeCloseTo(1 / 2010, 12);
+  });
+
+  it("should value ETH in USD through the first priced stablecoin", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH, usdTokens: [ADDR.ARB, ADDR.USDC] });
+    expect(valuation.usdPerEth()).toBeUndefined();
+
+    valuation.update(makeSnapshot(makePool(), 2000));
+
+    expect(valuation.usdPerEth()).toBeCloseTo(2000, 9);
+    expect(valuation.toUsd(0.5)).toBeCloseTo(1000, 9);
+  });
+});
+
+describe("OpportunityDetector base-token valuation", () => {
+  it("should size, cost and threshold a USDC-based path in ETH", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH, usdTokens: [ADDR.USDC] });
+    const delta = makeDelta();
+    valuation.update(delta.buyPool);
+    const { detector, found } = makeDetector(valuation);
+
+    const opp = detector.analyzeDelta(delta)!;
+
+    expect(found).toHaveLength(1);
+    expect(opp.path.baseToken).toBe(ADDR.USDC);
+    // Default input is 10 ETH, borrowed as USDC
+    expect(opp.inputAmount).toBeCloseTo(20_000, 6);
+    // Gas is paid in ETH and enters totalCost at 2000 USDC per ETH
+    expect(opp.costs.totalCost).toBeCloseTo(opp.costs.flashLoanFee + opp.costs.slippageCost + opp.costs.gasCostEth * 2000, 6);
+
+    const v = opp.valuation!;
+    expect(v.baseToken).toBe(ADDR.USDC);
+    expect(v.ethPerBase).toBeCloseTo(0.0005, 12);
+    expect(v.inputAmountEth).toBeCloseTo(10, 9);
+    expect(v.netProfitEth).toBeCloseTo(opp.netProfit / 2000, 9);
+    expect(v.netProfitUsd).toBeCloseTo(opp.netProfit, 6);
+    expect(toEth(opp, opp.grossProfit)).toBeCloseTo(v.grossProfitEth, 12);
+  });
+
+  it("should compare the threshold against net profit in ETH", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH });
+    const delta = makeDelta();
+    valuation.update(delta.buyPool);
+    // ~119 USDC net profit is ~0.06 ETH: below a 0.1 ETH threshold even though 119 > 0.1
+    const detector = new OpportunityDetector({ minProfitThreshold: 0.1, maxSlippage: 0.001, valuation });
+    const rejected: string[] = [];
+    detector.on("opportunityRejected", (reason) => rejected.push(reason));
+
+    expect(detector.analyzeDelta(delta)).toBeNull();
+    expect(rejected[0]).toMatch(/^Net profit 0\.0\d+ below threshold 0\.100000/);
+  });
+
+  it("should reject paths whose base token has no ETH price", () => {
+    const { detector, found, rejected } = makeDetector(new TokenValuation({ wethAddress: ADDR.WETH }));
+
+    expect(detector.analyzeDelta(makeDelta())).toBeNull();
+    expect(found).toHaveLength(0);
+    expect(rejected).toEqual([`No ETH price for base token ${ADDR.USDC}`]);
+  });
+
+  it("should start from token0 when pairBaseTokens selects it", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH });
+    const { detector } = makeDetector(valuation, {
+      [`${ADDR.USDC.toLowerCase()}/${ADDR.WETH}`]: ADDR.WETH.toLowerCase(),
+    });
+    const delta = makeDelta();
+
+    const opp = detector.analyzeDelta(delta)!;
+
+    expect(opp.path.baseToken).toBe(ADDR.WETH);
+    expect(opp.path.steps.map((s) => [s.poolAddress, s.tokenIn])).toEqual([
+      [ADDR.POOL_B, ADDR.WETH], // sell WETH where it is dear
+      [ADDR.POOL_A, ADDR.USDC], // buy it back where it is cheap
+    ]);
+    expect(opp.inputAmount).toBe(10);
+    expect(opp.grossProfit).toBeCloseTo(10 * (2030 / 2000) * 0.997 ** 2 - 10, 9);
+    expect(opp.valuation!.ethPerBase).toBe(1);
+    expect(opp.valuation!.netProfitEth).toBe(opp.netProfit);
+  });
+
+  it("should keep the valuation current from the attached monitor's price updates", () => {
+    const valuation = new TokenValuation({ wethAddress: ADDR.WETH });
+    const { detector, found } = makeDetector(valuation);
+    const monitor = new EventEmitter() as unknown as PriceMonitor;
+    detector.attach(monitor);
+
+    const delta = makeDelta();
+    monitor.emit("priceUpdate", delta.buyPool);
+    monitor.emit("opportunity", delta);
+
+    expect(found).toHaveLength(1);
+    expect(found[0].valuation!.ethPerBase).toBeCloseTo(0.0005, 12);
+
+    // A pool the monitor finds non-viable stops pricing the base token
+    monitor.emit("lowLiquidity", { pool: delta.buyPool.pool, liquidityWeth: 1, minLiquidityWeth: 10, blockNumber: 1 });
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeUndefined();
+    monitor.emit("liquidityRestored", { pool: delta.buyPool.pool, liquidityWeth: 20, minLiquidityWeth: 10, blockNumber: 2 });
+    monitor.emit("priceUpdate", delta.buyPool);
+    expect(valuation.ethPerToken(ADDR.USDC)).toBeCloseTo(0.0005, 12);
+
+    detector.detach();
+    expect(monitor.listenerCount("priceUpdate")).toBe(0);
+    expect(monitor.listenerCount("lowLiquidity")).toBe(0);
+  });
+
+  it("should leave opportunities unvalued without a valuation", () => {
+    const { detector } = makeDetector(undefined);
+
+    const opp = detector.analyzeDelta(makeDelta())!;
+
+    expect(opp.valuation).toBeUndefined();
+    expect(toEth(opp, opp.netProfit)).toBe(opp.netProfit);
+  });
+});
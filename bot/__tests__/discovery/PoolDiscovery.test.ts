@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { AbiCoder, Interface, ZeroAddress, getAddress } from "ethers";
+import { PoolDiscovery } from "../../src/discovery/PoolDiscovery.js";
+import type { PoolCandidate } from "../../src/discovery/types.js";
+import type { PoolDefinition } from "../../src/config/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  ARB: "0x912CE59144191C1204E64559FE8253a0e49E6548",
+  UNI_V3_FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  SUSHI_V2_FACTORY: "0xc35DADB65012eC5796536bD9864eD8773aBc74C4",
+  CAMELOT_V3_FACTORY: "0x1a3c9B1d2F0529D97f2afC5136Cc23e58f1FD35B",
+  POOL_WETH_USDC_500: getAddress("0x00000000000000000000000000000000000000a1"),
+  POOL_WETH_USDC_SUSHI: getAddress("0x00000000000000000000000000000000000000a2"),
+  POOL_WETH_ARB_CAMELOT: getAddress("0x00000000000000000000000000000000000000a3"),
+  POOL_THIN: getAddress("0x00000000000000000000000000000000000000a4"),
+  POOL_NEW: getAddress("0x00000000000000000000000000000000000000a5"),
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const coder = AbiCoder.defaultAbiCoder();
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const iface = new Interface([
+  "function getPair(address, address) view returns (address)",
+  "function getPool(address, address, uint24) view returns (address)",
+  "function poolByPair(address, address) view returns (address)",
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address) view returns (uint256)",
+  "event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)",
+  "event PairCreated(address indexed token0, address indexed token1, address pair, uint256)",
+]);
+
+interface MockPool {
+  address: string;
+  token0: string;
+  token1: string;
+  balance0: bigint;
+  balance1: bigint;
+}
+
+const DECIMALS: Record<string, number> = {
+  [ADDR.WETH.toLowerCase()]: 18,
+  [ADDR.USDC.toLowerCase()]: 6,
+  [ADDR.ARB.toLowerCase()]: 18,
+};
+
+/** Sort two addresses the way factories do */
+function sorted(a: string, b: string): [string, string] {
+  return a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+}
+
+function makePool(address: string, a: string, b: string, balA: bigint, balB: bigint): MockPool {
+  const [token0, token1] = sorted(a, b);
+  return token0 === a
+    ? { address, token0, token1, balance0: balA, balance1: balB }
+    : { address, token0, token1, balance0: balB, balance1: balA };
+}
+
+const POOLS = {
+  uniWethUsdc: makePool(ADDR.POOL_WETH_USDC_500, ADDR.WETH, ADDR.USDC, 500n * 10n ** 18n, 1_000_000n * 10n ** 6n),
+  sushiWethUsdc: makePool(ADDR.POOL_WETH_USDC_SUSHI, ADDR.WETH, ADDR.USDC, 50n * 10n ** 18n, 100_000n * 10n ** 6n),
+  camelotWethArb: makePool(ADDR.POOL_WETH_ARB_CAMELOT, ADDR.WETH, ADDR.ARB, 80n * 10n ** 18n, 200_000n * 10n ** 18n),
+  thinUsdcArb: makePool(ADDR.POOL_THIN, ADDR.USDC, ADDR.ARB, 1_000n * 10n ** 6n, 1_000n * 10n ** 18n),
+  thinWethArb: makePool(ADDR.POOL_NEW, ADDR.WETH, ADDR.ARB, 2n * 10n ** 18n, 5_000n * 10n ** 18n),
+};
+
+/**
+ * Mock provider answering factory lookups, pool/token reads through
+ * Multicall3, and eth_getLogs with the given creation logs.
+ */
+function mockProvider(opts: {
+  factoryPools: Record<string, MockPool>; // "factory:tokenA:tokenB[:fee]" (sorted, lowercase) → pool
+  pools: MockPool[];
+  logs?: Array<{ address: string; topics: string[]; data: string; blockNumber: number }>;
+  blockNumber?: number;
+}) {
+  const byAddress = new Map(opts.pools.map((p) => [p.address.toLowerCase(), p]));
+
+  const handle = (target: string, callData: string): string => {
+    const tx = iface.parseTransaction({ data: callData })!;
+    const to = target.toLowerCase();
+    switch (tx.name) {
+      case "getPair":
+      case "poolByPair":
+      case "getPool": {
+        const [a, b] = sorted(String(tx.args[0]), String(tx.args[1])).map((t) => t.toLowerCase());
+        const fee = tx.name === "getPool" ? `:${tx.args[2]}` : "";
+        const pool = opts.factoryPools[`${to}:${a}:${b}${fee}`];
+        return coder.encode(["address"], [pool?.address ?? ZeroAddress]);
+      }
+      case "token0":
+        return coder.encode(["address"], [byAddress.get(to)!.token0]);
+      case "token1":
+        return coder.encode(["address"], [byAddress.get(to)!.token1]);
+      case "decimals":
+        return coder.encode(["uint8"], [DECIMALS[to]]);
+      case "balanceOf": {
+        const pool = byAddress.get(String(tx.args[0]).toLowerCase())!;
+        const balance = pool.token0.toLowerCase() === to ? pool.balance0 : pool.balance1;
+        return coder.encode(["uint256"], [balance]);
+      }
+      default:
+        throw new Error(`Unexpected call ${tx.name}`);
+    }
+  };
+
+  return {
+    getBlockNumber: vi.fn().mockResolvedValue(opts.blockNumber ?? 1_000),
+    getLogs: vi.fn().mockImplementation(async (filter: { fromBlock: number; toBlock: number }) =>
+      (opts.logs ?? []).filter((l) => l.blockNumber >= filter.fromBlock && l.blockNumber <= filter.toBlock),
+    ),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) throw new Error("Expected multicall");
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { target: string; callData: string }) => {
+        try {
+          return [true, handle(c.target, c.callData)];
+        } catch {
+          return [false, "0x"];
+        }
+      });
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+function key(factory: string, a: string, b: string, fee?: number): string {
+  const [t0, t1] = sorted(a, b).map((t) => t.toLowerCase());
+  return `${factory.toLowerCase()}:${t0}:${t1}${fee !== undefined ? `:${fee}` : ""}`;
+}
+
+const DEXES = {
+  uniswapV3: { factory: ADDR.UNI_V3_FACTORY, router: ZeroAddress, quoter: ZeroAddress },
+  sushiswapV2: { factory: ADDR.SUSHI_V2_FACTORY, router: ZeroAddress },
+  camelotV3: { factory: ADDR.CAMELOT_V3_FACTORY },
+};
+
+const TOKENS = { WETH: ADDR.WETH, USDC: ADDR.USDC, ARB: ADDR.ARB };
+
+function poolCreatedLog(blockNumber: number) {
+  const [t0, t1] = sorted(ADDR.WETH, ADDR.ARB);
+  const encoded = iface.encodeEventLog("PoolCreated", [t0, t1, 3000, 60, ADDR.POOL_NEW]);
+  return { address: ADDR.UNI_V3_FACTORY, topics: encoded.topics, data: encoded.data, blockNumber };
+}
+
+function factoryPools(): Record<string, MockPool> {
+  return {
+    [key(ADDR.UNI_V3_FACTORY, ADDR.WETH, ADDR.USDC, 500)]: POOLS.uniWethUsdc,
+    [key(ADDR.SUSHI_V2_FACTORY, ADDR.WETH, ADDR.USDC)]: POOLS.sushiWethUsdc,
+    [key(ADDR.CAMELOT_V3_FACTORY, ADDR.WETH, ADDR.ARB)]: POOLS.camelotWethArb,
+    [key(ADDR.SUSHI_V2_FACTORY, ADDR.USDC, ADDR.ARB)]: POOLS.thinUsdcArb,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("PoolDiscovery", () => {
+  let discovery: PoolDiscovery;
+
+  afterEach(() => {
+    discovery?.stop();
+    vi.useRealTimers();
+  });
+
+  describe("discover", () => {
+    it("should find pools on every factory for every token pair", async () => {
+      const provider = mockProvider({ factoryPools: factoryPools(), pools: Object.values(POOLS) });
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS });
+
+      const pools = await discovery.discover();
+
+      expect(pools.map((p) => p.poolAddress).sort()).toEqual(
+        [ADDR.POOL_WETH_USDC_500, ADDR.POOL_WETH_USDC_SUSHI, ADDR.POOL_WETH_ARB_CAMELOT].sort(),
+      );
+    });
+
+    it("should build definitions with on-chain ordering, decimals and fee tier", async () => {
+      const provider = mockProvider({ factoryPools: factoryPools(), pools: Object.values(POOLS) });
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS });
+
+      const pools = await discovery.discover();
+      const uni = pools.find((p) => p.poolAddress === ADDR.POOL_WETH_USDC_500)!;
+
+      expect(uni).toEqual({
+        label: "WETH/USDC UniV3 (0.05%)",
+        dex: "uniswap_v3",
+        poolAddress: ADDR.POOL_WETH_USDC_500,
+        token0: ADDR.WETH,
+        token1: ADDR.USDC,
+        decimals0: 18,
+        decimals1: 6,
+        feeTier: 500,
+      });
+
+      const camelot = pools.find((p) => p.poolAddress === ADDR.POOL_WETH_ARB_CAMELOT)!;
+      expect(camelot.dex).toBe("camelot_v3");
+      expect(camelot.feeTier).toBeUndefined();
+      // WETH (0x82) sorts before ARB (0x91)
+      expect(camelot.token0).toBe(ADDR.WETH);
+      expect(camelot.label).toBe("WETH/ARB Camelot V3");
+    });
+
+    it("should reject pools below the liquidity floor", async () => {
+      const provider = mockProvider({
+        factoryPools: {
+          ...factoryPools(),
+          [key(ADDR.SUSHI_V2_FACTORY, ADDR.WETH, ADDR.ARB)]: POOLS.thinWethArb,
+        },
+        pools: Object.values(POOLS),
+      });
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS });
+      const rejected: Array<[PoolCandidate, string]> = [];
+      discovery.on("poolRejected", (c: PoolCandidate, reason: string) => rejected.push([c, reason]));
+
+      const pools = await discovery.discover();
+
+      expect(pools.map((p) => p.poolAddress)).not.toContain(ADDR.POOL_NEW);
+      const thin = rejected.find(([c]) => c.poolAddress === ADDR.POOL_NEW)!;
+      expect(thin[1]).toContain("Low liquidity: 2.00 WETH (min: 10)");
+      // USDC/ARB has no configured floor
+      const noFloor = rejected.find(([c]) => c.poolAddress === ADDR.POOL_THIN)!;
+      expect(noFloor[1]).toContain("No liquidity floor");
+    });
+
+    it("should honor a custom liquidity floor", async () => {
+      const provider = mockProvider({ factoryPools: factoryPools(), pools: Object.values(POOLS) });
+      discovery = new PoolDiscovery({
+        provider,
+        dexes: DEXES,
+        tokens: TOKENS,
+        minLiquidity: { [ADDR.WETH]: 100, [ADDR.USDC]: 500 },
+      });
+
+      const pools = await discovery.discover();
+
+      // Camelot WETH/ARB (80 WETH) fails; Sushi passes on its USDC side; USDC/ARB holds 1000 USDC
+      expect(pools.map((p) => p.poolAddress).sort()).toEqual(
+        [ADDR.POOL_WETH_USDC_500, ADDR.POOL_WETH_USDC_SUSHI, ADDR.POOL_THIN].sort(),
+      );
+    });
+
+    it("should skip known pools and not re-emit discovered ones", async () => {
+      const provider = mockProvider({ factoryPools: factoryPools(), pools: Object.values(POOLS) });
+      discovery = new PoolDiscovery({
+        provider,
+        dexes: DEXES,
+        tokens: TOKENS,
+        knownPools: [ADDR.POOL_WETH_USDC_500.toLowerCase()],
+      });
+      const emitted: PoolDefinition[] = [];
+      discovery.on("poolDiscovered", (p: PoolDefinition) => emitted.push(p));
+
+      await discovery.discover();
+      await discovery.discover();
+
+      expect(emitted.map((p) => p.poolAddress).sort()).toEqual(
+        [ADDR.POOL_WETH_USDC_SUSHI, ADDR.POOL_WETH_ARB_CAMELOT].sort(),
+      );
+    });
+  });
+
+  describe("scanLogs", () => {
+    it("should pick up pools from PoolCreated logs", async () => {
+      const rich = { ...POOLS.thinWethArb, balance0: 40n * 10n ** 18n };
+      const provider = mockProvider({ factoryPools: {}, pools: [rich], logs: [poolCreatedLog(900)] });
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS });
+
+      const pools = await discovery.scanLogs(800, 1_000);
+
+      expect(pools).toHaveLength(1);
+      expect(pools[0]).toMatchObject({ dex: "uniswap_v3", poolAddress: ADDR.POOL_NEW, feeTier: 3000 });
+    });
+
+    it("should ignore logs for untracked tokens", async () => {
+      const other = "0x00000000000000000000000000000000000000f1";
+      const encoded = iface.encodeEventLog("PairCreated", [ADDR.WETH, other, ADDR.POOL_NEW, 1]);
+      const provider = mockProvider({
+        factoryPools: {},
+        pools: [],
+        logs: [{ address: ADDR.SUSHI_V2_FACTORY, topics: encoded.topics, data: encoded.data, blockNumber: 900 }],
+      });
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS });
+
+      expect(await discovery.scanLogs(800, 1_000)).toEqual([]);
+    });
+
+    it("should split large block ranges into logBlockRange chunks", async () => {
+      const provider = mockProvider({ factoryPools: {}, pools: [] });
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS, logBlockRange: 100 });
+
+      await discovery.scanLogs(1, 250);
+
+      expect(provider.getLogs).toHaveBeenCalledTimes(3);
+      expect(provider.getLogs.mock.calls[2][0]).toMatchObject({ fromBlock: 201, toBlock: 250 });
+    });
+  });
+
+  describe("lifecycle", () => {
+    it("should run discovery on start and scan new blocks on each interval", async () => {
+      vi.useFakeTimers();
+      const rich = { ...POOLS.thinWethArb, balance0: 40n * 10n ** 18n };
+      const provider = mockProvider({
+        factoryPools: factoryPools(),
+        pools: [...Object.values(POOLS), rich],
+        logs: [poolCreatedLog(1_005)],
+      });
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS, pollIntervalMs: 1_000 });
+      const emitted: PoolDefinition[] = [];
+      discovery.on("poolDiscovered", (p: PoolDefinition) => emitted.push(p));
+
+      await discovery.start();
+      expect(discovery.isRunning).toBe(true);
+      expect(emitted).toHaveLength(3);
+
+      provider.getBlockNumber.mockResolvedValue(1_010);
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect(provider.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 1_001, toBlock: 1_010 }));
+      expect(emitted.map((p) => p.poolAddress)).toContain(ADDR.POOL_NEW);
+
+      discovery.stop();
+      expect(discovery.isRunning).toBe(false);
+    });
+
+    it("should emit error and keep running when discovery fails", async () => {
+      const provider = mockProvider({ factoryPools: {}, pools: [] });
+      provider.call.mockRejectedValue(new Error("RPC down"));
+      discovery = new PoolDiscovery({ provider, dexes: DEXES, tokens: TOKENS });
+      const errors: Error[] = [];
+      discovery.on("error", (e: Error) => errors.push(e));
+
+      await discovery.start();
+
+      expect(errors[0].message).toBe("RPC down");
+      expect(discovery.isRunning).toBe(true);
+    });
+  });
+});
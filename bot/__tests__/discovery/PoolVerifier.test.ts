@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface, getAddress } from "ethers";
+import { PoolVerifier, factoriesFromDexes, formatPoolVerification } from "../../src/discovery/PoolVerifier.js";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import type { PoolVerifierConfig } from "../../src/discovery/types.js";
+import { FlashloanBot } from "../../src/index.js";
+import { DEFAULT_CONFIG, type BotConfig, type PoolDefinition } from "../../src/config/index.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  UNI_V3_FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  SUSHI_V3_FACTORY: "0x1af415a1EbA07a4986a52B6f2e7dE7003D82231e",
+  LB_FACTORY: getAddress("0x00000000000000000000000000000000000000f1"),
+  POOL_V3: getAddress("0x00000000000000000000000000000000000000b1"),
+  POOL_LB: getAddress("0x00000000000000000000000000000000000000b2"),
+  POOL_EMPTY: getAddress("0x00000000000000000000000000000000000000b3"),
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const iface = new Interface([
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function factory() view returns (address)",
+  "function fee() view returns (uint24)",
+  "function getTokenX() view returns (address)",
+  "function getTokenY() view returns (address)",
+  "function getBinStep() view returns (uint16)",
+  "function getFactory() view returns (address)",
+  "function decimals() view returns (uint8)",
+]);
+
+/** On-chain getters by contract address; contracts not listed revert every call */
+const CHAIN: Record<string, Record<string, unknown>> = {
+  [ADDR.POOL_V3.toLowerCase()]: { token0: ADDR.WETH, token1: ADDR.USDC, fee: 500, factory: ADDR.UNI_V3_FACTORY },
+  [ADDR.POOL_LB.toLowerCase()]: { getTokenX: ADDR.USDC, getTokenY: ADDR.WETH, getBinStep: 15, getFactory: ADDR.LB_FACTORY },
+  [ADDR.WETH.toLowerCase()]: { decimals: 18 },
+  [ADDR.USDC.toLowerCase()]: { decimals: 6 },
+};
+
+/** Multicall mock answering every call from CHAIN */
+function mockCall() {
+  return vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+    if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+      throw new Error("Expected multicall");
+    }
+    const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+    const results = batch.map((c: { target: string; callData: string }) => {
+      const fn = iface.parseTransaction({ data: c.callData })!;
+      const value = CHAIN[c.target.toLowerCase()]?.[fn.name];
+      if (value === undefined) return [false, "0x"];
+      return [true, iface.encodeFunctionResult(fn.name, [value])];
+    });
+    return mcIface.encodeFunctionResult("aggregate3", [results]);
+  });
+}
+
+function makeV3Pool(overrides: Partial<PoolDefinition> = {}): PoolDefinition {
+  return {
+    label: "WETH/USDC UniV3 (0.05%)",
+    dex: "uniswap_v3",
+    poolAddress: ADDR.POOL_V3,
+    token0: ADDR.WETH.toLowerCase(),
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    feeTier: 500,
+    ...overrides,
+  };
+}
+
+/** LB pair with tokenX = USDC: hex-sorted token0/token1 need invertPrice */
+function makeLBPool(overrides: Partial<PoolDefinition> = {}): PoolDefinition {
+  return {
+    label: "WETH/USDC Trader Joe LB",
+    dex: "traderjoe_lb",
+    poolAddress: ADDR.POOL_LB,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    feeTier: 15,
+    invertPrice: true,
+    ...overrides,
+  };
+}
+
+function makeVerifier(factories: PoolVerifierConfig["factories"] = { uniswap_v3: ADDR.UNI_V3_FACTORY }): PoolVerifier {
+  return new PoolVerifier({ provider: { call: mockCall() } as any, factories });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("PoolVerifier", () => {
+  it("should pass definitions that match the chain, ignoring address case", async () => {
+    const [v3, lb] = await makeVerifier().verify([makeV3Pool(), makeLBPool()]);
+
+    expect(v3.mismatches).toEqual([]);
+    expect(lb.mismatches).toEqual([]);
+  });
+
+  it("should report a mislabeled fee tier and wrong decimals", async () => {
+    const [result] = await makeVerifier().verify([makeV3Pool({ feeTier: 3000, decimals1: 18 })]);
+
+    expect(result.mismatches).toEqual([
+      { field: "feeTier", expected: "3000", actual: "500" },
+      { field: "decimals1", expected: "18", actual: "6" },
+    ]);
+  });
+
+  it("should report swapped token order", async () => {
+    const [result] = await makeVerifier().verify([makeV3Pool({ token0: ADDR.USDC, token1: ADDR.WETH })]);
+
+    expect(result.mismatches.map((m) => m.field)).toEqual(["token0", "token1", "decimals0", "decimals1"]);
+    expect(result.mismatches[0].actual).toBe(ADDR.WETH);
+  });
+
+  it("should check LB tokenX/tokenY against invertPrice and the bin step against feeTier", async () => {
+    const [result] = await makeVerifier().verify([makeLBPool({ invertPrice: false, feeTier: 25 })]);
+
+    expect(result.mismatches).toEqual([
+      { field: "tokenX", expected: ADDR.WETH, actual: ADDR.USDC },
+      { field: "tokenY", expected: ADDR.USDC, actual: ADDR.WETH },
+      { field: "feeTier", expected: "25", actual: "15" },
+    ]);
+  });
+
+  it("should check the deploying factory only for protocols with one configured", async () => {
+    const sushiLabeled = makeV3Pool({ dex: "sushiswap_v3" });
+    const verifier = makeVerifier({ uniswap_v3: ADDR.UNI_V3_FACTORY, sushiswap_v3: ADDR.SUSHI_V3_FACTORY });
+
+    const [sushi, lb] = await verifier.verify([sushiLabeled, makeLBPool()]);
+
+    expect(sushi.mismatches).toEqual([
+      { field: "factory", expected: ADDR.SUSHI_V3_FACTORY, actual: ADDR.UNI_V3_FACTORY },
+    ]);
+    expect(lb.mismatches).toEqual([]);
+  });
+
+  it("should report reads that revert as unreadable", async () => {
+    const [result] = await makeVerifier().verify([makeV3Pool({ poolAddress: ADDR.POOL_EMPTY })]);
+
+    expect(result.mismatches.map((m) => `${m.field}=${m.actual}`)).toEqual([
+      "token0=unreadable",
+      "token1=unreadable",
+      "feeTier=unreadable",
+      "factory=unreadable",
+    ]);
+  });
+
+  it("should format one line per mismatched field under the pool", async () => {
+    const [result] = await makeVerifier().verify([makeV3Pool({ feeTier: 3000, decimals1: 18 })]);
+
+    expect(formatPoolVerification(result)).toBe(
+      [
+        `WETH/USDC UniV3 (0.05%) (uniswap_v3) @ ${ADDR.POOL_V3}`,
+        "  feeTier    definition 3000, on-chain 500",
+        "  decimals1  definition 18, on-chain 6",
+      ].join("\n"),
+    );
+  });
+
+  it("should map chain config factories to protocols", () => {
+    expect(factoriesFromDexes({
+      uniswapV3: { factory: ADDR.UNI_V3_FACTORY, router: "0x1", quoter: "0x2" },
+      sushiswapV3: { factory: ADDR.SUSHI_V3_FACTORY },
+    })).toEqual({ uniswap_v3: ADDR.UNI_V3_FACTORY, sushiswap_v3: ADDR.SUSHI_V3_FACTORY });
+  });
+});
+
+describe("PriceMonitor.removePools", () => {
+  it("should stop polling removed pools and drop their snapshots", async () => {
+    const monitor = new PriceMonitor({
+      provider: { call: mockCall(), getBlockNumber: vi.fn().mockResolvedValue(1) } as any,
+      pools: [makeV3Pool(), makeLBPool()],
+    });
+    (monitor as any).snapshots.set(ADDR.POOL_V3.toLowerCase(), { pool: makeV3Pool(), price: 1 });
+
+    expect(monitor.removePools([makeV3Pool()])).toHaveLength(1);
+    expect(monitor.pools.map((p) => p.poolAddress)).toEqual([ADDR.POOL_LB]);
+    expect(monitor.getSnapshot(ADDR.POOL_V3)).toBeUndefined();
+    expect(monitor.removePools([makeV3Pool()])).toEqual([]);
+  });
+});
+
+describe("FlashloanBot startup pool verification", () => {
+  let bot: FlashloanBot;
+
+  afterEach(async () => {
+    await bot?.stop();
+  });
+
+  function makeBot(mode: "off" | "disable" | "strict"): FlashloanBot {
+    const config: BotConfig = {
+      ...DEFAULT_CONFIG,
+      network: { rpcUrl: "https://arb-mainnet.example.com", chainId: 42161 },
+      pools: [makeV3Pool({ feeTier: 3000 }), makeLBPool()],
+      logLevel: "error",
+      poolVerification: { mode, factories: { uniswap_v3: ADDR.UNI_V3_FACTORY } },
+    };
+    const created = new FlashloanBot(config);
+    vi.spyOn(created.provider, "call").mockImplementation(mockCall());
+    vi.spyOn(created.monitor, "start").mockImplementation(() => {});
+    return created;
+  }
+
+  it("should stop monitoring mismatched pools in disable mode", async () => {
+    bot = makeBot("disable");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await bot.start();
+
+    expect(bot.status).toBe("running");
+    expect(bot.monitor.pools.map((p) => p.poolAddress)).toEqual([ADDR.POOL_LB]);
+  });
+
+  it("should refuse to start in strict mode", async () => {
+    bot = makeBot("strict");
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(bot.start()).rejects.toThrow("1 pool definition(s) do not match on-chain state");
+    expect(bot.monitor.start).not.toHaveBeenCalled();
+    expect(errors.mock.calls.flat().join("\n")).toContain("feeTier  definition 3000, on-chain 500");
+  });
+
+  it("should not read the chain when off", async () => {
+    bot = makeBot("off");
+
+    await bot.start();
+
+    expect(bot.provider.call).not.toHaveBeenCalled();
+    expect(bot.monitor.pools).toHaveLength(2);
+  });
+});
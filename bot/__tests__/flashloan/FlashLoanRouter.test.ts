@@ -0,0 +1,367 @@
+import { describe, it, expect, vi } from "vitest";
+import { Interface, ZeroAddress } from "ethers";
+import { FlashLoanRouter } from "../../src/flashloan/FlashLoanRouter.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  VAULT: "0xBA12222222228d8Ba445958a75a0704d566BF2C8",
+  FEES_COLLECTOR: "0xce88686553686DA562CE7Cea497CE749DA109f9F",
+  AAVE_POOL: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+  A_WETH: "0xe50fA9b3c56FfB159cB0FCA61F5c9D750e8128c8",
+  POOL_A: "0x00000000000000000000000000000000000000a1",
+  POOL_B: "0x00000000000000000000000000000000000000a2",
+  V3_FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  V3_POOL_100: "0x00000000000000000000000000000000000000b1",
+  V3_POOL_500: "0x00000000000000000000000000000000000000b5",
+  V3_POOL_3000: "0x00000000000000000000000000000000000000b3",
+  SOLO: "0x1E0447b19BB6EcFdAe1e4AE1694b0C3659614e4e",
+  EXECUTOR: "0x00000000000000000000000000000000000000e1",
+};
+
+const E18 = 10n ** 18n;
+
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const iface = new Interface([
+  "function balanceOf(address account) view returns (uint256)",
+  "function getProtocolFeesCollector() view returns (address)",
+  "function getFlashLoanFeePercentage() view returns (uint256)",
+  "function getReserveData(address asset) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))",
+  "function FLASHLOAN_PREMIUM_TOTAL() view returns (uint128)",
+  "function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)",
+  "function getNumMarkets() view returns (uint256)",
+  "function getMarketTokenAddress(uint256 marketId) view returns (address)",
+  "function balancerVault() view returns (address)",
+  "function aavePool() view returns (address)",
+  "function uniswapV3Factory() view returns (address)",
+  "function dydxSoloMargin() view returns (address)",
+]);
+
+/** Active reserve with flash loans enabled */
+const ACTIVE_FLASHABLE = (1n << 56n) | (1n << 63n);
+
+interface ChainState {
+  /** WETH held by the Balancer Vault */
+  vaultBalance: bigint;
+  /** Balancer flash loan fee (1e18 = 100%) */
+  balancerFee: bigint;
+  /** WETH held by the aToken (Aave available liquidity) */
+  aaveBalance: bigint;
+  /** Aave premium in basis points */
+  premium: bigint;
+  /** Aave reserve configuration bitmap */
+  configuration: bigint;
+  /** aToken of WETH (ZeroAddress = not listed) */
+  aToken: string;
+  /** WETH/USDC Uniswap V3 pools by fee tier, with their WETH balance */
+  v3Pools: Record<number, { address: string; balance: bigint }>;
+  /** Tokens of the dYdX markets, by market id */
+  dydxMarkets: string[];
+  /** WETH held by SoloMargin */
+  dydxBalance: bigint;
+  /** Executor getters, by function name (unset = zero address) */
+  executor: Record<string, string>;
+}
+
+function makeState(overrides: Partial<ChainState> = {}): ChainState {
+  return {
+    vaultBalance: 1_000n * E18,
+    balancerFee: 0n,
+    aaveBalance: 5_000n * E18,
+    premium: 5n,
+    configuration: ACTIVE_FLASHABLE,
+    aToken: ADDR.A_WETH,
+    v3Pools: {},
+    dydxMarkets: [ADDR.WETH],
+    dydxBalance: 0n,
+    executor: { balancerVault: ADDR.VAULT, aavePool: ADDR.AAVE_POOL },
+    ...overrides,
+  };
+}
+
+/** Multicall mock answering the Vault, fee collector, Aave Pool, V3 factory, SoloMargin, executor and WETH balanceOf from `state` */
+function mockProvider(state: ChainState) {
+  const handle = (target: string, callData: string): [boolean, string] => {
+    const fn = iface.parseTransaction({ data: callData })!;
+    const to = target.toLowerCase();
+    switch (fn.name) {
+      case "getProtocolFeesCollector":
+        return [true, iface.encodeFunctionResult(fn.name, [ADDR.FEES_COLLECTOR])];
+      case "getFlashLoanFeePercentage":
+        return [true, iface.encodeFunctionResult(fn.name, [state.balancerFee])];
+      case "FLASHLOAN_PREMIUM_TOTAL":
+        return [true, iface.encodeFunctionResult(fn.name, [state.premium])];
+      case "getReserveData":
+        return [true, iface.encodeFunctionResult(fn.name, [[
+          state.configuration, 0n, 0n, 0n, 0n, 0n, 0, 0, state.aToken, ZeroAddress, ZeroAddress, ZeroAddress, 0n, 0n, 0n,
+        ]])];
+      case "getPool":
+        return [true, iface.encodeFunctionResult(fn.name, [state.v3Pools[Number(fn.args[2])]?.address ?? ZeroAddress])];
+      case "getNumMarkets":
+        return [true, iface.encodeFunctionResult(fn.name, [state.dydxMarkets.length])];
+      case "getMarketTokenAddress":
+        return [true, iface.encodeFunctionResult(fn.name, [state.dydxMarkets[Number(fn.args[0])]])];
+      case "balancerVault":
+      case "aavePool":
+      case "uniswapV3Factory":
+      case "dydxSoloMargin":
+        return [true, iface.encodeFunctionResult(fn.name, [state.executor[fn.name] ?? ZeroAddress])];
+      default: {
+        if (to !== ADDR.WETH.toLowerCase()) return [false, "0x"];
+        const holder = (fn.args[0] as string).toLowerCase();
+        const v3Pool = Object.values(state.v3Pools).find((p) => p.address.toLowerCase() === holder);
+        const balance = holder === ADDR.VAULT.toLowerCase() ? state.vaultBalance
+          : holder === ADDR.A_WETH.toLowerCase() ? state.aaveBalance
+          : holder === ADDR.SOLO.toLowerCase() ? state.dydxBalance
+          : v3Pool?.balance ?? 0n;
+        return [true, iface.encodeFunctionResult("balanceOf", [balance])];
+      }
+    }
+  };
+
+  return {
+    call: vi.fn().mockImplementation(async (tx: { data: string }) => {
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { target: string; callData: string }) => handle(c.target, c.callData));
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+function makeRouter(state: ChainState, extra: { uniswapV3?: boolean; dydx?: boolean; executor?: boolean } = {}) {
+  const provider = mockProvider(state);
+  const router = new FlashLoanRouter({
+    provider,
+    providers: {
+      aave_v3: ADDR.AAVE_POOL,
+      balancer: ADDR.VAULT,
+      ...(extra.uniswapV3 && { uniswap_v3: ADDR.V3_FACTORY }),
+      ...(extra.dydx && { dydx: ADDR.SOLO }),
+    },
+    uniswapV3PairTokens: [ADDR.WETH, ADDR.USDC],
+    ...(extra.executor && { executor: ADDR.EXECUTOR }),
+  });
+  return { router, provider };
+}
+
+/** WETH/USDC V3 pools: a shallow 0.01% pool, and deep 0.05% and 0.3% pools */
+const V3_POOLS = {
+  100: { address: ADDR.V3_POOL_100, balance: E18 },
+  500: { address: ADDR.V3_POOL_500, balance: 2_000n * E18 },
+  3000: { address: ADDR.V3_POOL_3000, balance: 2_000n * E18 },
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("FlashLoanRouter", () => {
+  it("should pick the free Balancer loan when the Vault holds enough", async () => {
+    const { router } = makeRouter(makeState());
+
+    const selection = await router.select(ADDR.WETH, 10n * E18);
+
+    expect(selection.provider).toBe("balancer");
+    expect(selection.address).toBe(ADDR.VAULT);
+    expect(selection.feeRate).toBe(0);
+    expect(selection.candidates.map((c) => [c.provider, c.feeRate])).toEqual([["balancer", 0], ["aave_v3", 0.0005]]);
+    expect(selection.candidates[1].available).toBe(5_000n * E18);
+  });
+
+  it("should look up the fee collector and aToken once, then read in one batch", async () => {
+    const { router, provider } = makeRouter(makeState());
+
+    await router.select(ADDR.WETH, E18);
+    expect(provider.call).toHaveBeenCalledTimes(2);
+
+    await router.select(ADDR.WETH, E18);
+    expect(provider.call).toHaveBeenCalledTimes(3);
+  });
+
+  it("should fail over to Aave when the Vault is short", async () => {
+    const { router } = makeRouter(makeState({ vaultBalance: 3n * E18 }));
+
+    const selection = await router.select(ADDR.WETH, 10n * E18);
+
+    expect(selection.provider).toBe("aave_v3");
+    expect(selection.feeRate).toBeCloseTo(0.0005, 12);
+    expect(selection.candidates[1]).toMatchObject({
+      provider: "balancer",
+      unavailableReason: `insufficient balance (${3n * E18} < ${10n * E18})`,
+    });
+  });
+
+  it("should prefer Aave when Balancer charges more", async () => {
+    const { router } = makeRouter(makeState({ balancerFee: 10n ** 15n })); // 0.1%
+
+    expect((await router.select(ADDR.WETH, E18)).provider).toBe("aave_v3");
+  });
+
+  it("should pass over paused, flash-disabled and unlisted Aave reserves", async () => {
+    const short = { vaultBalance: 0n };
+    const reasons = await Promise.all([
+      makeRouter(makeState({ ...short, configuration: ACTIVE_FLASHABLE | (1n << 60n) })).router.quote(ADDR.WETH, E18),
+      makeRouter(makeState({ ...short, configuration: 1n << 56n })).router.quote(ADDR.WETH, E18),
+      makeRouter(makeState({ ...short, aToken: ZeroAddress })).router.quote(ADDR.WETH, E18),
+    ]);
+
+    expect(reasons.map((quotes) => quotes.find((q) => q.provider === "aave_v3")!.unavailableReason)).toEqual([
+      "reserve paused",
+      "flash loans disabled",
+      "token not listed",
+    ]);
+  });
+
+  it("should throw with every provider's reason when none can fund the loan", async () => {
+    const { router } = makeRouter(makeState({ vaultBalance: 0n, aaveBalance: E18 }));
+
+    await expect(router.select(ADDR.WETH, 2n * E18)).rejects.toThrow(
+      /No provider can lend .* \(balancer: insufficient balance .*; aave_v3: insufficient liquidity .*\)/,
+    );
+  });
+
+  it("should borrow from the cheapest Uniswap V3 pool that holds enough", async () => {
+    const { router } = makeRouter(makeState({ vaultBalance: 0n, aaveBalance: 0n, v3Pools: V3_POOLS }), { uniswapV3: true });
+
+    const selection = await router.select(ADDR.WETH, 10n * E18);
+
+    expect(selection.provider).toBe("uniswap_v3");
+    expect(selection.address).toBe(ADDR.V3_POOL_500);
+    expect(selection.feeRate).toBeCloseTo(0.0005, 12);
+  });
+
+  it("should never borrow from a Uniswap V3 pool on the arbitrage path", async () => {
+    const { router } = makeRouter(makeState({ vaultBalance: 0n, aaveBalance: 0n, v3Pools: V3_POOLS }), { uniswapV3: true });
+
+    const selection = await router.select(ADDR.WETH, 10n * E18, [ADDR.V3_POOL_500]);
+    expect(selection.address).toBe(ADDR.V3_POOL_3000);
+    expect(selection.feeRate).toBeCloseTo(0.003, 12);
+
+    const quotes = await router.quote(ADDR.WETH, 10n * E18, [ADDR.V3_POOL_100, ADDR.V3_POOL_500, ADDR.V3_POOL_3000]);
+    expect(quotes.find((q) => q.provider === "uniswap_v3")!.unavailableReason).toBe("no pool outside the arbitrage path");
+  });
+
+  it("should take a dYdX loan at its 2 wei fee where SoloMargin lists the token", async () => {
+    const { router } = makeRouter(makeState({ vaultBalance: 0n, dydxBalance: 100n * E18 }), { dydx: true });
+
+    const selection = await router.select(ADDR.WETH, 10n * E18);
+
+    expect(selection.provider).toBe("dydx");
+    expect(selection.address).toBe(ADDR.SOLO);
+    expect(selection.feeRate).toBe(2 / 1e19);
+  });
+
+  it("should pass over dYdX for tokens without a market", async () => {
+    const { router } = makeRouter(makeState({ dydxMarkets: [ADDR.USDC], dydxBalance: 100n * E18 }), { dydx: true });
+
+    const quotes = await router.quote(ADDR.WETH, E18);
+
+    expect(quotes.find((q) => q.provider === "dydx")!.unavailableReason).toBe("token not listed");
+  });
+
+  it("should never select a provider the executor cannot borrow from", async () => {
+    // dYdX is cheapest but the executor has no SoloMargin set
+    const { router } = makeRouter(
+      makeState({ balancerFee: 10n ** 15n, dydxBalance: 100n * E18 }),
+      { dydx: true, executor: true },
+    );
+
+    const selection = await router.select(ADDR.WETH, 10n * E18);
+
+    expect(selection.provider).toBe("aave_v3");
+    expect(selection.candidates.find((c) => c.provider === "dydx")).toMatchObject({
+      address: ADDR.SOLO,
+      unavailableReason: "not supported by the executor",
+    });
+  });
+
+  it("should pass over a provider configured at another contract than the executor's", async () => {
+    const { router, provider } = makeRouter(
+      makeState({ executor: { balancerVault: ADDR.POOL_A, aavePool: ADDR.AAVE_POOL } }),
+      { executor: true },
+    );
+
+    const selection = await router.select(ADDR.WETH, E18);
+    expect(selection.provider).toBe("aave_v3");
+    expect(selection.candidates[1]).toMatchObject({ provider: "balancer", unavailableReason: "not supported by the executor" });
+
+    // The executor's providers are read once
+    const calls = provider.call.mock.calls.length;
+    await router.select(ADDR.WETH, E18);
+    expect(provider.call).toHaveBeenCalledTimes(calls + 1);
+  });
+});
+
+describe("OpportunityDetector flash loan routing", () => {
+  function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+    return {
+      label: "USDC/WETH UniV2",
+      dex: "uniswap_v2",
+      poolAddress: ADDR.POOL_A,
+      token0: ADDR.USDC,
+      token1: ADDR.WETH,
+      decimals0: 6,
+      decimals1: 18,
+      ...overrides,
+    };
+  }
+
+  function makeSnapshot(pool: PoolConfig, price: number): PriceSnapshot {
+    return { pool, price, inversePrice: 1 / price, blockNumber: 1, timestamp: Date.now() };
+  }
+
+  /** USDC priced in WETH 1.5% apart: the path borrows WETH (token1) */
+  const delta: PriceDelta = {
+    pair: "USDC/WETH",
+    buyPool: makeSnapshot(makePool(), 0.0005),
+    sellPool: makeSnapshot(makePool({ label: "USDC/WETH Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_B }), 0.0005075),
+    deltaPercent: 1.5,
+    timestamp: Date.now(),
+  };
+
+  function makeDetector(router: FlashLoanRouter) {
+    const detector = new OpportunityDetector({ minProfitThreshold: 0.01, maxSlippage: 0.001, flashLoanRouter: router });
+    const rejected: string[] = [];
+    detector.on("opportunityRejected", (reason) => rejected.push(reason));
+    return { detector, rejected };
+  }
+
+  it("should record the selected provider and cost the loan at its fee", async () => {
+    const { router } = makeRouter(makeState({ vaultBalance: 0n }));
+    const { detector } = makeDetector(router);
+
+    const opp = await (detector as any).analyzeDeltaAsync(delta);
+
+    expect(opp.flashLoan.provider).toBe("aave_v3");
+    expect(opp.costs.flashLoanFee).toBeCloseTo(opp.inputAmount * 0.0005, 12);
+  });
+
+  it("should reject opportunities no provider can fund", async () => {
+    const { router } = makeRouter(makeState({ vaultBalance: 0n, aaveBalance: 0n }));
+    const { detector, rejected } = makeDetector(router);
+
+    expect(await (detector as any).analyzeDeltaAsync(delta)).toBeNull();
+    expect(rejected[0]).toMatch(/^Flash loan unavailable: No provider can lend 10000000000000000000 of/);
+  });
+
+  it("should not borrow from the path's own pools", async () => {
+    const state = makeState({
+      vaultBalance: 0n,
+      aaveBalance: 0n,
+      v3Pools: { 500: { address: ADDR.POOL_A, balance: 2_000n * E18 } },
+    });
+    const { router } = makeRouter(state, { uniswapV3: true });
+    const { detector, rejected } = makeDetector(router);
+
+    expect(await (detector as any).analyzeDeltaAsync(delta)).toBeNull();
+    expect(rejected[0]).toContain("uniswap_v3: no pool outside the arbitrage path");
+  });
+});
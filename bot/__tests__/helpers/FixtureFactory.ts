@@ -216,12 +216,12 @@ export function makeCostEstimate(
   overrides: Partial<CostEstimate> = {},
 ): CostEstimate {
   const flashLoanFee = overrides.flashLoanFee ?? 0.005; // 0.05% of 10 ETH
-  const gasCost = overrides.gasCost ?? 0.01;
+  const gasCostEth = overrides.gasCostEth ?? 0.01;
   const slippageCost = overrides.slippageCost ?? 0.05;
   const totalCost =
-    overrides.totalCost ?? flashLoanFee + gasCost + slippageCost;
+    overrides.totalCost ?? flashLoanFee + gasCostEth + slippageCost;
 
-  return { flashLoanFee, gasCost, slippageCost, totalCost };
+  return { flashLoanFee, gasCostEth, slippageCost, totalCost };
 }
 
 export function makeOpportunity(
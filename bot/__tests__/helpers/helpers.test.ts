@@ -182,7 +182,7 @@ describe("FixtureFactory", () => {
     it("should compute totalCost from components", () => {
       const costs = makeCostEstimate({
         flashLoanFee: 0.01,
-        gasCost: 0.02,
+        gasCostEth: 0.02,
         slippageCost: 0.03,
       });
       expect(costs.totalCost).toBeCloseTo(0.06, 10);
@@ -91,7 +91,7 @@ describe("Shadow Mode & Staleness Guard", () => {
         grossProfit: 0.05,
         costs: {
           flashLoanFee: 0.005,
-          gasCost: 0.01,
+          gasCostEth: 0.01,
           slippageCost: 0.001,
           totalCost: 0.016,
         },
@@ -130,7 +130,7 @@ describe("Shadow Mode & Staleness Guard", () => {
         grossProfit: 0.05,
         costs: {
           flashLoanFee: 0.005,
-          gasCost: 0.01,
+          gasCostEth: 0.01,
           slippageCost: 0.001,
           totalCost: 0.016,
         },
@@ -169,7 +169,7 @@ describe("Shadow Mode & Staleness Guard", () => {
         grossProfit: 0.05,
         costs: {
           flashLoanFee: 0.005,
-          gasCost: 0.01,
+          gasCostEth: 0.01,
           slippageCost: 0.001,
           totalCost: 0.016,
         },
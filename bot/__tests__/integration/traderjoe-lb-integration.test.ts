@@ -3,6 +3,8 @@ import { JsonRpcProvider } from "ethers";
 import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
 import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
 import type { ArbitrageOpportunity } from "../../src/detector/types.js";
+import { RiskPolicy } from "../../src/policy/RiskPolicy.js";
+import { ARBITRUM_CONFIG } from "../../src/config/chains/arbitrum.js";
 import { ARBITRUM_MAINNET_POOLS } from "../../src/config/chains/pools/arbitrum-mainnet.js";
 
 describe.skipIf(!process.env.ARBITRUM_MAINNET_RPC_URL)("Trader Joe LB Integration", () => {
@@ -27,7 +29,8 @@ describe.skipIf(!process.env.ARBITRUM_MAINNET_RPC_URL)("Trader Joe LB Integratio
     });
 
     detector = new OpportunityDetector({
-      minProfitThreshold: 0.006, // 0.6% base (will be 0.8% for LB opportunities)
+      minProfitThreshold: 0.006, // 0.6% base (0.8% for LB opportunities under the Arbitrum rules)
+      policy: new RiskPolicy({ rules: ARBITRUM_CONFIG.detector.riskRules }),
     });
 
     detector.attach(monitor);
@@ -104,7 +107,7 @@ describe.skipIf(!process.env.ARBITRUM_MAINNET_RPC_URL)("Trader Joe LB Integratio
     expect(grossProfitLB).toBeCloseTo(expectedLBGross, 2);
   });
 
-  it("should apply higher profit threshold (1.33x) for LB opportunities", () => {
+  it("should apply the Arbitrum rules' higher profit threshold (1.33x) for LB opportunities", () => {
     const mockLBDelta = {
       token0: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
       token1: "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8",
@@ -1120,6 +1120,33 @@ describe("PriceMonitor", () => {
       vi.useRealTimers();
     });
 
+    it("should rotate to the next WebSocket URL on each reconnect", async () => {
+      vi.useFakeTimers();
+      const provider = mockProvider({});
+      monitor = new PriceMonitor({ provider, pools: [makePool()] });
+
+      const providers = [createMockWsProvider(), createMockWsProvider(), createMockWsProvider()];
+      const createSpy = vi.spyOn(monitor as any, "_createWebSocketProvider")
+        .mockReturnValueOnce(providers[0])
+        .mockReturnValueOnce(providers[1])
+        .mockReturnValueOnce(providers[2]);
+
+      monitor.startWebSocket(["wss://primary.example.com", "wss://backup.example.com"]);
+      providers[0].websocket.onclose?.();
+      await vi.advanceTimersByTimeAsync(1_100);
+      providers[1].websocket.onclose?.();
+      await vi.advanceTimersByTimeAsync(2_100);
+
+      expect(createSpy.mock.calls.map((call) => call[0])).toEqual([
+        "wss://primary.example.com",
+        "wss://backup.example.com",
+        "wss://primary.example.com",
+      ]);
+
+      monitor.stopWebSocket();
+      vi.useRealTimers();
+    });
+
     it("should use exponential backoff for reconnection (1s, 2s, 4s, 8s, max 30s)", async () => {
       vi.useFakeTimers();
       const provider = mockProvider({});
@@ -1253,3 +1280,61 @@ describe("PriceMonitor", () => {
     });
   });
 });
+
+describe("PriceMonitor.addPools", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should add new pools and include them in the next poll", async () => {
+    const provider = mockProvider({});
+    monitor = new PriceMonitor({ provider, pools: [makePool()], useMulticall: false });
+
+    const sushi = makePool({ label: "WETH/USDC Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_SUSHI });
+    const added = monitor.addPools([sushi]);
+    await monitor.poll();
+
+    expect(added).toEqual([sushi]);
+    expect(monitor.pools).toHaveLength(2);
+    expect(monitor.getSnapshot(ADDR.POOL_SUSHI)).toBeDefined();
+  });
+
+  it("should ignore pools that are already monitored", () => {
+    const provider = mockProvider({});
+    monitor = new PriceMonitor({ provider, pools: [makePool()] });
+
+    const added = monitor.addPools([makePool({ poolAddress: ADDR.POOL_V2.toUpperCase().replace("0X", "0x") })]);
+
+    expect(added).toEqual([]);
+    expect(monitor.pools).toHaveLength(1);
+  });
+
+  it("should not mutate the caller's pool array", () => {
+    const provider = mockProvider({});
+    const pools = [makePool()];
+    monitor = new PriceMonitor({ provider, pools });
+
+    monitor.addPools([makePool({ poolAddress: ADDR.POOL_SUSHI })]);
+
+    expect(pools).toHaveLength(1);
+  });
+
+  it("should resubscribe pool logs when event-driven WebSocket is active", () => {
+    const provider = mockProvider({});
+    monitor = new PriceMonitor({ provider, pools: [makePool()], eventDriven: true });
+    const ws = createMockWsProvider();
+    vi.spyOn(monitor as any, "_createWebSocketProvider").mockReturnValue(ws);
+    vi.spyOn(monitor, "poll").mockResolvedValue();
+    monitor.startWebSocket("wss://arb-mainnet.example.com/ws");
+
+    monitor.addPools([makePool({ poolAddress: ADDR.POOL_SUSHI })]);
+
+    expect(ws.off).toHaveBeenCalledTimes(1);
+    const filters = ws.on.mock.calls.filter((call: any[]) => typeof call[0] === "object");
+    expect(filters).toHaveLength(2);
+    expect(filters[1][0].address).toEqual([ADDR.POOL_V2, ADDR.POOL_SUSHI]);
+    monitor.stopWebSocket();
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import {
+  balancerAmountOut,
+  balancerSpotPrice,
+  weightedOutGivenIn,
+  type BalancerPoolState,
+} from "../../src/math/balancer.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+  VAULT: "0xBA12222222228d8Ba445958a75a0704d566BF2C8",
+  WEIGHTED: "0x64541216bAFFFEec8ea535BB71Fbc927831d0595",
+  STABLE: "0x1533A3278f3F9141d5F820A184EA4B017fce2382",
+  UNI_V2: "0x0000000000000000000000000000000000000002",
+};
+
+const WEIGHTED_ID = "0x64541216bafffeec8ea535bb71fbc927831d0595000100000000000000000002";
+const STABLE_ID = "0x1533a3278f3f9141d5f820a184ea4b017fce2382000000000000000000000016";
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const vaultIface = new Interface([
+  "function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)",
+]);
+const poolIface = new Interface([
+  "function getSwapFeePercentage() view returns (uint256)",
+  "function getNormalizedWeights() view returns (uint256[])",
+  "function getAmplificationParameter() view returns (uint256 value, bool isUpdating, uint256 precision)",
+  "function getScalingFactors() view returns (uint256[])",
+]);
+
+const E18 = 10n ** 18n;
+const USD = 10n ** 6n;
+
+/** 80/20 WETH/USDC weighted pool: 800 WETH vs 400k USDC → 2000 USDC per WETH */
+const weightedState: BalancerPoolState = {
+  tokens: [ADDR.WETH, ADDR.USDC],
+  balances: [800n * E18, 400_000n * USD],
+  swapFee: 3n * 10n ** 15n, // 0.3%
+  weights: [8n * 10n ** 17n, 2n * 10n ** 17n],
+};
+
+/** Composable stable USDC/USDT pool — the Vault also lists the pool's own BPT first */
+const stableState: BalancerPoolState = {
+  tokens: [ADDR.USDC, ADDR.USDT],
+  balances: [1_000_000n * USD, 1_200_000n * USD],
+  swapFee: 10n ** 14n, // 1 bp
+  amp: 200_000n,
+  ampPrecision: 1_000n,
+  scalingFactors: [10n ** 30n, 10n ** 30n],
+};
+
+function makeWeightedPool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC Balancer 80/20",
+    dex: "balancer_v2",
+    poolAddress: ADDR.WEIGHTED,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    poolId: WEIGHTED_ID,
+    ...overrides,
+  };
+}
+
+function makeStablePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "USDT/USDC Balancer stable",
+    dex: "balancer_v2",
+    poolAddress: ADDR.STABLE,
+    token0: ADDR.USDT,
+    token1: ADDR.USDC,
+    decimals0: 6,
+    decimals1: 6,
+    poolId: STABLE_ID,
+    balancerPoolType: "stable",
+    ...overrides,
+  };
+}
+
+/** Answer Vault and pool reads for the weighted and stable pools above */
+function answerCall(to: string, data: string): string {
+  if (to.toLowerCase() === ADDR.VAULT.toLowerCase()) {
+    const [poolId] = vaultIface.decodeFunctionData("getPoolTokens", data);
+    if (poolId === WEIGHTED_ID) {
+      return vaultIface.encodeFunctionResult("getPoolTokens", [weightedState.tokens, weightedState.balances, 90]);
+    }
+    return vaultIface.encodeFunctionResult("getPoolTokens", [
+      [ADDR.STABLE, ...stableState.tokens],
+      [2n ** 111n, ...stableState.balances],
+      90,
+    ]);
+  }
+  const state = to.toLowerCase() === ADDR.WEIGHTED.toLowerCase() ? weightedState : stableState;
+  const call = poolIface.parseTransaction({ data })!;
+  switch (call.name) {
+    case "getSwapFeePercentage":
+      return poolIface.encodeFunctionResult(call.name, [state.swapFee]);
+    case "getNormalizedWeights":
+      return poolIface.encodeFunctionResult(call.name, [state.weights]);
+    case "getAmplificationParameter":
+      return poolIface.encodeFunctionResult(call.name, [state.amp, false, state.ampPrecision]);
+    default:
+      return poolIface.encodeFunctionResult(call.name, [[E18, ...state.scalingFactors!]]);
+  }
+}
+
+/** Provider serving both pools over Multicall3 and direct eth_call */
+function mockProvider() {
+  return {
+    getBlockNumber: vi.fn(async () => 100),
+    call: vi.fn(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        return answerCall(tx.to!, tx.data);
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { target: string; callData: string }) => [true, answerCall(c.target, c.callData)]);
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+// ---------------------------------------------------------------------------
+// Balancer math
+// ---------------------------------------------------------------------------
+
+describe("Balancer math", () => {
+  it("should reduce to constant product for 50/50 weights", () => {
+    const out = weightedOutGivenIn(1_000, 0.5, 2_000, 0.5, 100);
+    expect(out).toBeCloseTo((2_000 * 100) / (1_000 + 100), 9);
+  });
+
+  it("should price weighted pools by balance over weight", () => {
+    expect(balancerSpotPrice(weightedState, 0, 1, 18, 6)).toBeCloseTo(2_000, 9);
+    expect(balancerSpotPrice(weightedState, 1, 0, 6, 18)).toBeCloseTo(1 / 2_000, 12);
+  });
+
+  it("should take the swap fee from the input", () => {
+    const noFee = balancerAmountOut({ ...weightedState, swapFee: 0n }, 0, 1, E18);
+    const withFee = balancerAmountOut(weightedState, 0, 1, E18);
+    const afterFeeInput = balancerAmountOut({ ...weightedState, swapFee: 0n }, 0, 1, E18 - 3n * 10n ** 15n);
+    expect(withFee).toBeLessThan(noFee);
+    expect(withFee).toBe(afterFeeInput);
+  });
+
+  it("should swap stable coins near 1:1 with scaled balances", () => {
+    const out = balancerAmountOut({ ...stableState, balances: [1_000_000n * USD, 1_000_000n * USD] }, 0, 1, 1_000n * USD);
+    // 1 bp fee, negligible price impact
+    expect(Number(out) / 1e6).toBeCloseTo(999.9, 1);
+  });
+
+  it("should price the scarcer stable coin above 1", () => {
+    expect(balancerSpotPrice(stableState, 0, 1, 6, 6)).toBeGreaterThan(1);
+    expect(balancerSpotPrice(stableState, 1, 0, 6, 6)).toBeLessThan(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PriceMonitor
+// ---------------------------------------------------------------------------
+
+describe("PriceMonitor Balancer reads", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should read tokens from the Vault and weights from a weighted pool", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeWeightedPool()] });
+
+    await monitor.poll();
+
+    const batch = mcIface.decodeFunctionData("aggregate3", provider.call.mock.calls[0][0].data)[0];
+    expect(batch.map((c: { target: string }) => c.target.toLowerCase())).toEqual([
+      ADDR.VAULT.toLowerCase(),
+      ADDR.WEIGHTED.toLowerCase(),
+      ADDR.WEIGHTED.toLowerCase(),
+    ]);
+
+    const snapshot = monitor.getSnapshot(ADDR.WEIGHTED)!;
+    expect(snapshot.balancer).toEqual(weightedState);
+    expect(snapshot.price).toBeCloseTo(2_000, 6);
+  });
+
+  it("should read amp and scaling factors and drop the BPT of a composable stable pool", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeStablePool()] });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(ADDR.STABLE)!;
+    expect(snapshot.balancer).toEqual(stableState);
+    // token0 is USDT, the more abundant coin
+    expect(snapshot.price).toBeLessThan(1);
+    expect(snapshot.price).toBeGreaterThan(0.99);
+  });
+
+  it("should read the same state through individual calls", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeWeightedPool(), makeStablePool()], useMulticall: false });
+
+    await monitor.poll();
+
+    expect(monitor.getSnapshot(ADDR.WEIGHTED)!.balancer).toEqual(weightedState);
+    expect(monitor.getSnapshot(ADDR.STABLE)!.balancer).toEqual(stableState);
+  });
+
+  it("should report pools configured without a poolId", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeWeightedPool({ poolId: undefined })], useMulticall: false });
+    const onError = vi.fn();
+    monitor.on("error", onError);
+
+    await monitor.poll();
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining("missing poolId") }),
+      expect.anything(),
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpportunityDetector
+// ---------------------------------------------------------------------------
+
+describe("OpportunityDetector Balancer simulation", () => {
+  function weightedSnapshot(balancer: BalancerPoolState = weightedState): PriceSnapshot {
+    const price = balancerSpotPrice(balancer, 0, 1, 18, 6);
+    return {
+      pool: makeWeightedPool(),
+      price,
+      inversePrice: 1 / price,
+      blockNumber: 100,
+      timestamp: Date.now(),
+      balancer,
+    };
+  }
+
+  function v2Snapshot(price: number): PriceSnapshot {
+    const reserve0 = 10_000n * E18;
+    return {
+      pool: { ...makeWeightedPool(), label: "WETH/USDC UniV2", dex: "uniswap_v2", poolAddress: ADDR.UNI_V2, poolId: undefined },
+      price,
+      inversePrice: 1 / price,
+      blockNumber: 100,
+      timestamp: Date.now(),
+      reserves: [reserve0, BigInt(Math.round(10_000 * price)) * USD],
+    };
+  }
+
+  function delta(buyPool: PriceSnapshot, sellPool: PriceSnapshot): PriceDelta {
+    return { pair: "weth/usdc", buyPool, sellPool, deltaPercent: 0.5, timestamp: Date.now() };
+  }
+
+  it("should carry the pool ID and token indices in the swap direction of each step", () => {
+    const detector = new OpportunityDetector();
+    const snap = weightedSnapshot();
+
+    // Buy step sells token1 (USDC, index 1) for token0 (WETH, index 0)
+    const buyPath = detector.buildSwapPath(delta(snap, v2Snapshot(2_010)));
+    expect(buyPath.steps[0].poolId).toBe(WEIGHTED_ID);
+    expect(buyPath.steps[0].coinIndices).toEqual([1, 0]);
+    expect(buyPath.steps[0].balancer).toBe(snap.balancer);
+    expect(buyPath.steps[0].virtualReserveIn).toBe(400_000);
+
+    const sellPath = detector.buildSwapPath(delta(v2Snapshot(1_990), snap));
+    expect(sellPath.steps[1].coinIndices).toEqual([0, 1]);
+  });
+
+  it("should charge the live swap fee", () => {
+    const detector = new OpportunityDetector();
+    const snap = weightedSnapshot({ ...weightedState, swapFee: 10n ** 15n }); // 0.1%
+    const path = detector.buildSwapPath(delta(snap, v2Snapshot(2_000)));
+
+    // 0.1% on Balancer + 0.3% on V2, same price on both; 10 USDC barely moves either pool
+    expect(detector.calculateGrossProfit(path, 10)).toBeCloseTo(10 * (0.999 * 0.997 - 1), 3);
+  });
+
+  it("should model price impact with weighted math", () => {
+    const detector = new OpportunityDetector();
+    const snap = weightedSnapshot();
+    const path = detector.buildSwapPath(delta(snap, v2Snapshot(2_000)));
+    const input = 40_000; // 10% of the USDC balance
+
+    const balancerOnly = { ...path, steps: [path.steps[0]] };
+    const output = input + detector.calculateGrossProfit(balancerOnly, input);
+
+    // USDC carries only 20% of the weight, so selling 10% of its balance costs
+    // ~6% rather than the ~9% a constant-product pool would
+    const afterFee = input * 0.997;
+    const expectedOut = weightedOutGivenIn(400_000, 0.2, 800, 0.8, afterFee);
+    expect(output).toBeCloseTo(expectedOut, 6);
+    expect(detector.estimateSlippage(balancerOnly, input)).toBe(0);
+    expect(1 - output / (afterFee / 2_000)).toBeLessThan(0.07);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { camelotAmountOut, camelotSpotPrice, type CamelotPairState } from "../../src/math/camelotV2.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+  POOL_CAMELOT: "0x0000000000000000000000000000000000000009",
+  POOL_V2: "0x0000000000000000000000000000000000000008",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const pairIface = new Interface([
+  "function getReserves() view returns (uint112, uint112, uint32)",
+  "function token0FeePercent() view returns (uint16)",
+  "function token1FeePercent() view returns (uint16)",
+  "function stableSwap() view returns (bool)",
+]);
+
+const E6 = 10n ** 6n;
+/** 1M USDC / 1M USDT */
+const RESERVES: [bigint, bigint] = [1_000_000n * E6, 1_000_000n * E6];
+
+function makePair(overrides: Partial<CamelotPairState> = {}): CamelotPairState {
+  return {
+    token0FeePercent: 300,
+    token1FeePercent: 300,
+    stableSwap: false,
+    reserves: RESERVES,
+    decimals: [6, 6],
+    ...overrides,
+  };
+}
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "USDC/USDT Camelot",
+    dex: "camelot_v2",
+    poolAddress: ADDR.POOL_CAMELOT,
+    token0: ADDR.USDC,
+    token1: ADDR.USDT,
+    decimals0: 6,
+    decimals1: 6,
+    ...overrides,
+  };
+}
+
+/** Multicall mock for a Camelot pair; `fees` undefined makes the settings reads fail */
+function camelotMockProvider(reserves: [bigint, bigint], fees?: { fee0: number; fee1: number; stable: boolean }) {
+  const handle = (callData: string): [boolean, string] => {
+    const fn = pairIface.parseTransaction({ data: callData })!;
+    if (fn.name === "getReserves") {
+      return [true, pairIface.encodeFunctionResult("getReserves", [reserves[0], reserves[1], 0])];
+    }
+    if (!fees) return [false, "0x"];
+    switch (fn.name) {
+      case "token0FeePercent":
+        return [true, pairIface.encodeFunctionResult("token0FeePercent", [fees.fee0])];
+      case "token1FeePercent":
+        return [true, pairIface.encodeFunctionResult("token1FeePercent", [fees.fee1])];
+      case "stableSwap":
+        return [true, pairIface.encodeFunctionResult("stableSwap", [fees.stable])];
+      default:
+        throw new Error(`Unexpected call ${fn.name}`);
+    }
+  };
+
+  return {
+    getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        throw new Error("Expected multicall");
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => handle(c.callData));
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("camelotAmountOut", () => {
+  it("should match constant product with the input token's fee on volatile pairs", () => {
+    const pair = makePair({ token0FeePercent: 200, token1FeePercent: 500 });
+    const amountIn = 10_000n * E6;
+    const constantProduct = (feePercent: bigint) => {
+      const withFee = amountIn * (100_000n - feePercent);
+      return (withFee * RESERVES[1]) / (RESERVES[0] * 100_000n + withFee);
+    };
+
+    expect(camelotAmountOut(pair, true, amountIn)).toBe(constantProduct(200n));
+    expect(camelotAmountOut(pair, false, amountIn)).toBe(constantProduct(500n));
+  });
+
+  it("should give near-1:1 output on balanced stable pairs", () => {
+    const stable = makePair({ stableSwap: true, token0FeePercent: 40, token1FeePercent: 40 });
+    const volatile = makePair({ token0FeePercent: 40, token1FeePercent: 40 });
+    const amountIn = 10_000n * E6;
+
+    const stableOut = camelotAmountOut(stable, true, amountIn);
+    // 0.04% fee, then almost no curve impact near the peg
+    expect(Number(stableOut) / 1e6).toBeGreaterThan(9_995);
+    expect(Number(stableOut) / 1e6).toBeLessThan(9_996);
+    expect(stableOut).toBeGreaterThan(camelotAmountOut(volatile, true, amountIn));
+  });
+
+  it("should normalize stable reserves by token decimals", () => {
+    const pair = makePair({
+      stableSwap: true,
+      reserves: [1_000_000n * E6, 1_000_000n * 10n ** 18n],
+      decimals: [6, 18],
+    });
+
+    const out = camelotAmountOut(pair, true, 1_000n * E6);
+    expect(Number(out) / 1e18).toBeCloseTo(1_000 * 0.997, 0);
+  });
+});
+
+describe("camelotSpotPrice", () => {
+  it("should price volatile pairs by the reserve ratio", () => {
+    expect(camelotSpotPrice(makePair({ reserves: [1_000n * E6, 2_000n * E6] }))).toBeCloseTo(2, 12);
+  });
+
+  it("should price stable pairs on the x³y + xy³ curve", () => {
+    const pair = makePair({ stableSwap: true, reserves: [1_000n * E6, 2_000n * E6] });
+    // (3x²y + y³) / (x³ + 3xy²) with x = 1, y = 2
+    expect(camelotSpotPrice(pair)).toBeCloseTo(14 / 13, 12);
+    expect(camelotSpotPrice(makePair({ stableSwap: true }))).toBeCloseTo(1, 12);
+  });
+});
+
+describe("PriceMonitor Camelot V2 pairs", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should read directional fees and the stable flag with the reserves", async () => {
+    const reserves: [bigint, bigint] = [1_000n * E6, 2_000n * E6];
+    monitor = new PriceMonitor({
+      provider: camelotMockProvider(reserves, { fee0: 40, fee1: 60, stable: true }),
+      pools: [makePool()],
+    });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(ADDR.POOL_CAMELOT)!;
+    expect(snapshot.camelotV2).toEqual({ token0FeePercent: 40, token1FeePercent: 60, stableSwap: true });
+    expect(snapshot.reserves).toEqual(reserves);
+    expect(snapshot.price).toBeCloseTo(14 / 13, 12);
+  });
+
+  it("should fall back to the reserve ratio when the pair settings cannot be read", async () => {
+    monitor = new PriceMonitor({
+      provider: camelotMockProvider([1_000n * E6, 2_000n * E6]),
+      pools: [makePool()],
+    });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(ADDR.POOL_CAMELOT)!;
+    expect(snapshot.camelotV2).toBeUndefined();
+    expect(snapshot.price).toBeCloseTo(2, 12);
+  });
+});
+
+describe("OpportunityDetector Camelot V2 pairs", () => {
+  const camelotPool = makePool();
+  const v2Pool = makePool({ label: "USDC/USDT V2", dex: "uniswap_v2", poolAddress: ADDR.POOL_V2 });
+
+  function makeDelta(camelotV2?: PriceSnapshot["camelotV2"]): PriceDelta {
+    const buy: PriceSnapshot = {
+      pool: camelotPool, price: 1, inversePrice: 1, blockNumber: 1, timestamp: Date.now(),
+      reserves: RESERVES,
+      ...(camelotV2 && { camelotV2 }),
+    };
+    const sell: PriceSnapshot = {
+      pool: v2Pool, price: 1.01, inversePrice: 1 / 1.01, blockNumber: 1, timestamp: Date.now(),
+      reserves: RESERVES,
+    };
+    return { pair: "USDC/USDT", buyPool: buy, sellPool: sell, deltaPercent: 1, timestamp: Date.now() };
+  }
+
+  it("should charge the fee of the token sold into the pair", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(makeDelta({ token0FeePercent: 40, token1FeePercent: 150, stableSwap: false }));
+
+    // Buy step sells token1 into the Camelot pair
+    expect(path.steps[0].camelotV2?.zeroForOne).toBe(false);
+    expect((detector as any).getSwapFeeRate(path.steps[0])).toBeCloseTo(0.0015, 12);
+    expect(path.steps[1].camelotV2).toBeUndefined();
+  });
+
+  it("should fall back to 0.3% without live pair settings", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(makeDelta());
+
+    expect(path.steps[0].camelotV2).toBeUndefined();
+    expect((detector as any).getSwapFeeRate(path.steps[0])).toBeCloseTo(0.003, 12);
+  });
+
+  it("should model less price impact on a stable pair than on a volatile one", () => {
+    const detector = new OpportunityDetector();
+    const stable = detector.buildSwapPath(makeDelta({ token0FeePercent: 40, token1FeePercent: 40, stableSwap: true }));
+    const volatile = detector.buildSwapPath(makeDelta({ token0FeePercent: 40, token1FeePercent: 40, stableSwap: false }));
+
+    expect(detector.calculateGrossProfit(stable, 50_000)).toBeGreaterThan(detector.calculateGrossProfit(volatile, 50_000));
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { getD, getDy, stableSwapSpotPrice, type StableSwapCurve } from "../../src/math/stableSwap.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  USDT: "0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9",
+  USDCE: "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8",
+  CURVE: "0x7f90122BF0700F9E7e1F688fe926940E8839F353",
+  UNI_V2: "0x0000000000000000000000000000000000000002",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const curveIface = new Interface([
+  "function A() view returns (uint256)",
+  "function fee() view returns (uint256)",
+  "function balances(uint256 i) view returns (uint256)",
+]);
+
+const USD = 10n ** 6n;
+
+/** Curve 2pool: coin 0 = USDC.e, coin 1 = USDT — so token0 (USDT) is coin 1 */
+function makeCurvePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "USDT/USDC.e Curve 2pool",
+    dex: "curve_stableswap",
+    poolAddress: ADDR.CURVE,
+    token0: ADDR.USDT,
+    token1: ADDR.USDCE,
+    decimals0: 6,
+    decimals1: 6,
+    coinIndices: [1, 0],
+    ...overrides,
+  };
+}
+
+function curve(balances: bigint[], overrides: Partial<StableSwapCurve> = {}): StableSwapCurve {
+  return { balances, decimals: balances.map(() => 6), amp: 400n, fee: 4_000_000n, ...overrides };
+}
+
+/** Answer A(), fee() and balances(k) for a Curve pool */
+function answerCurveCall(state: StableSwapCurve, data: string): string {
+  const call = curveIface.parseTransaction({ data })!;
+  if (call.name === "A") return curveIface.encodeFunctionResult("A", [state.amp]);
+  if (call.name === "fee") return curveIface.encodeFunctionResult("fee", [state.fee]);
+  return curveIface.encodeFunctionResult("balances", [state.balances[Number(call.args[0])]]);
+}
+
+/** Provider serving one Curve pool over Multicall3 and direct eth_call */
+function mockProvider(state: StableSwapCurve) {
+  return {
+    getBlockNumber: vi.fn(async () => 100),
+    call: vi.fn(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        return answerCurveCall(state, tx.data);
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => [true, answerCurveCall(state, c.callData)]);
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+// ---------------------------------------------------------------------------
+// StableSwap math
+// ---------------------------------------------------------------------------
+
+describe("StableSwap math", () => {
+  it("should return the balance sum as D for a balanced pool", () => {
+    const xp = [1_000_000n * 10n ** 18n, 1_000_000n * 10n ** 18n];
+    expect(getD(xp, 400n * 100n)).toBe(2_000_000n * 10n ** 18n);
+  });
+
+  it("should swap near 1:1 minus the fee in a balanced pool", () => {
+    const state = curve([10_000_000n * USD, 10_000_000n * USD]);
+    const dy = getDy(state, 0, 1, 1_000n * USD);
+
+    // 4 bps fee, negligible price impact
+    expect(Number(dy) / 1e6).toBeCloseTo(999.6, 1);
+  });
+
+  it("should give far less price impact than constant product", () => {
+    const state = curve([1_000_000n * USD, 1_000_000n * USD], { fee: 0n });
+    const dx = 100_000n * USD;
+    const stable = Number(getDy(state, 0, 1, dx)) / 1e6;
+    const constantProduct = (1_000_000 * 100_000) / (1_000_000 + 100_000);
+
+    expect(stable).toBeGreaterThan(99_000);
+    expect(stable).toBeGreaterThan(constantProduct);
+  });
+
+  it("should move further from 1:1 with a lower amplification", () => {
+    const dx = 200_000n * USD;
+    const high = getDy(curve([1_000_000n * USD, 1_000_000n * USD], { amp: 2_000n }), 0, 1, dx);
+    const low = getDy(curve([1_000_000n * USD, 1_000_000n * USD], { amp: 10n }), 0, 1, dx);
+    expect(low).toBeLessThan(high);
+  });
+
+  it("should normalize coins with different decimals", () => {
+    const state = curve([1_000_000n * USD, 1_000_000n * 10n ** 18n], { decimals: [6, 18], fee: 0n });
+    const dy = getDy(state, 0, 1, 100n * USD);
+    expect(Number(dy) / 1e18).toBeCloseTo(100, 2);
+  });
+
+  it("should price the scarcer coin above 1", () => {
+    const state = curve([800_000n * USD, 1_200_000n * USD]);
+    expect(stableSwapSpotPrice(state, 0, 1)).toBeGreaterThan(1);
+    expect(stableSwapSpotPrice(state, 1, 0)).toBeLessThan(1);
+  });
+
+  it("should solve three-coin pools", () => {
+    const state = curve([1_000_000n * USD, 1_000_000n * USD, 1_000_000n * 10n ** 18n], {
+      decimals: [6, 6, 18],
+    });
+    expect(Number(getDy(state, 2, 0, 1_000n * 10n ** 18n)) / 1e6).toBeCloseTo(999.6, 1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PriceMonitor
+// ---------------------------------------------------------------------------
+
+describe("PriceMonitor Curve StableSwap reads", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  // USDT (coin 1) is the more abundant coin, so it trades below 1 USDC.e
+  const state = curve([1_000_000n * USD, 1_100_000n * USD]);
+
+  it("should read A, fee and every balance in the multicall batch", async () => {
+    const provider = mockProvider(state);
+    monitor = new PriceMonitor({ provider, pools: [makeCurvePool()] });
+
+    await monitor.poll();
+
+    const batch = mcIface.decodeFunctionData("aggregate3", provider.call.mock.calls[0][0].data)[0];
+    const names = batch.map((c: { callData: string }) => curveIface.parseTransaction({ data: c.callData })!.name);
+    expect(names).toEqual(["A", "fee", "balances", "balances"]);
+
+    const snapshot = monitor.getSnapshot(ADDR.CURVE)!;
+    expect(snapshot.stableSwap).toEqual({ ...state, decimals: [6, 6] });
+    expect(snapshot.price).toBeLessThan(1);
+    expect(snapshot.price).toBeGreaterThan(0.99);
+  });
+
+  it("should price token0 against token1 using the configured coin indices", async () => {
+    const provider = mockProvider(state);
+    monitor = new PriceMonitor({ provider, pools: [makeCurvePool()] });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(ADDR.CURVE)!;
+    expect(snapshot.price).toBeCloseTo(stableSwapSpotPrice(snapshot.stableSwap!, 1, 0), 10);
+  });
+
+  it("should read the same state through individual calls", async () => {
+    const provider = mockProvider(state);
+    monitor = new PriceMonitor({ provider, pools: [makeCurvePool()], useMulticall: false });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(ADDR.CURVE)!;
+    expect(snapshot.stableSwap!.balances).toEqual(state.balances);
+    expect(snapshot.stableSwap!.fee).toBe(state.fee);
+    expect(snapshot.price).toBeLessThan(1);
+  });
+
+  it("should require coinDecimals for coin indices beyond a two-coin pool", async () => {
+    const provider = mockProvider(state);
+    monitor = new PriceMonitor({ provider, pools: [makeCurvePool({ coinIndices: [0, 2] })] });
+    const onError = vi.fn();
+    monitor.on("error", onError);
+
+    await monitor.poll();
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining("needs coinDecimals") }),
+      expect.anything(),
+    );
+  });
+
+  it("should ignore Curve pool logs in event-driven mode", async () => {
+    const provider = mockProvider(state);
+    monitor = new PriceMonitor({ provider, pools: [makeCurvePool()], eventDriven: true });
+    await monitor.poll();
+    const onUpdate = vi.fn();
+    monitor.on("priceUpdate", onUpdate);
+
+    monitor.applyPoolLog({ address: ADDR.CURVE, topics: ["0x00"], data: "0x", blockNumber: 101 });
+    (monitor as any)._advanceSnapshots(102);
+
+    expect(onUpdate).not.toHaveBeenCalled();
+    // Curve state is only known at the block it was read at
+    expect(monitor.getSnapshot(ADDR.CURVE)!.blockNumber).toBe(100);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpportunityDetector
+// ---------------------------------------------------------------------------
+
+describe("OpportunityDetector Curve StableSwap simulation", () => {
+  function curveSnapshot(stableSwap: StableSwapCurve): PriceSnapshot {
+    const pool = makeCurvePool();
+    const price = stableSwapSpotPrice(stableSwap, 1, 0);
+    return { pool, price, inversePrice: 1 / price, blockNumber: 100, timestamp: Date.now(), stableSwap };
+  }
+
+  function v2Snapshot(price: number): PriceSnapshot {
+    const reserve0 = 1_000_000n * USD;
+    return {
+      pool: { ...makeCurvePool(), label: "USDT/USDC.e UniV2", dex: "uniswap_v2", poolAddress: ADDR.UNI_V2, coinIndices: undefined },
+      price,
+      inversePrice: 1 / price,
+      blockNumber: 100,
+      timestamp: Date.now(),
+      reserves: [reserve0, BigInt(Math.round(Number(reserve0) * price))],
+    };
+  }
+
+  function delta(buyPool: PriceSnapshot, sellPool: PriceSnapshot): PriceDelta {
+    return { pair: "usdt/usdce", buyPool, sellPool, deltaPercent: 0.5, timestamp: Date.now() };
+  }
+
+  it("should carry coin indices in the swap direction of each step", () => {
+    const detector = new OpportunityDetector();
+    const snap = curveSnapshot(curve([1_000_000n * USD, 1_000_000n * USD]));
+
+    // Buy step sells token1 (USDC.e, coin 0) for token0 (USDT, coin 1)
+    const buyPath = detector.buildSwapPath(delta(snap, v2Snapshot(1.005)));
+    expect(buyPath.steps[0].coinIndices).toEqual([0, 1]);
+    expect(buyPath.steps[0].stableSwap).toBe(snap.stableSwap);
+
+    const sellPath = detector.buildSwapPath(delta(v2Snapshot(0.995), snap));
+    expect(sellPath.steps[1].coinIndices).toEqual([1, 0]);
+    expect(sellPath.steps[1].virtualReserveIn).toBe(1_000_000);
+  });
+
+  it("should charge the live pool fee", () => {
+    const detector = new OpportunityDetector();
+    const snap = curveSnapshot(curve([1_000_000n * USD, 1_000_000n * USD], { fee: 1_000_000n })); // 1 bp
+    const path = detector.buildSwapPath(delta(snap, v2Snapshot(1)));
+
+    // 1 bp on Curve + 0.3% on V2, prices 1:1; 10 USDC barely moves either pool
+    expect(detector.calculateGrossProfit(path, 10)).toBeCloseTo(10 * (0.9999 * 0.997 - 1), 3);
+  });
+
+  it("should model Curve price impact from the invariant rather than constant product", () => {
+    const detector = new OpportunityDetector();
+    const snap = curveSnapshot(curve([1_000_000n * USD, 1_000_000n * USD]));
+    const path = detector.buildSwapPath(delta(snap, v2Snapshot(1)));
+    const input = 100_000;
+
+    // Only the Curve step in isolation: a V2 pool of the same depth would lose ~9%
+    const curveOnly = { ...path, steps: [path.steps[0]] };
+    const spotOutput = input * (1 - Number(curveOnly.steps[0].stableSwap!.fee) / 1e10) * curveOnly.steps[0].expectedPrice;
+    const impact = spotOutput - (input + detector.calculateGrossProfit(curveOnly, input));
+    expect(detector.estimateSlippage(curveOnly, input)).toBe(0);
+    expect(impact).toBeGreaterThan(0);
+    expect(impact / input).toBeLessThan(0.01);
+  });
+});
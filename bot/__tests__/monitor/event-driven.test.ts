@@ -0,0 +1,459 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { AbiCoder, Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import {
+  LB_SWAP_TOPIC,
+  POOL_EVENT_TOPICS,
+  SYNC_TOPIC,
+  V3_SWAP_TOPIC,
+  decodePoolEvent,
+  type PoolLog,
+} from "../../src/monitor/poolEvents.js";
+import type { GapEvent, PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+  POOL_V2: "0x0000000000000000000000000000000000000001",
+  POOL_V3: "0x0000000000000000000000000000000000000002",
+  POOL_SUSHI: "0x0000000000000000000000000000000000000003",
+  POOL_LB: "0x0000000000000000000000000000000000000004",
+  SENDER: "0x00000000000000000000000000000000000000aa",
+};
+
+// sqrtPriceX96 for ~2000 USDC/WETH
+const SQRT_PRICE_2000 = BigInt("3543191142285914000000000");
+
+const coder = AbiCoder.defaultAbiCoder();
+const reservesIface = new Interface([
+  "function getReserves() view returns (uint112, uint112, uint32)",
+  "function slot0() view returns (uint160, int24, uint16, uint16, uint16, uint8, bool)",
+]);
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC UniV2",
+    dex: "uniswap_v2",
+    poolAddress: ADDR.POOL_V2,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    ...overrides,
+  };
+}
+
+/** Provider answering getReserves / slot0 / getActiveId for the baseline poll */
+function mockProvider(blockNumber = 19_000_000) {
+  return {
+    getBlockNumber: vi.fn().mockResolvedValue(blockNumber),
+    call: vi.fn().mockImplementation(async (tx: { data: string }) => {
+      const selector = tx.data.slice(0, 10);
+      if (selector === reservesIface.getFunction("getReserves")!.selector) {
+        return reservesIface.encodeFunctionResult("getReserves", [
+          1000n * 10n ** 18n, // 1000 WETH
+          2_000_000n * 10n ** 6n, // 2,000,000 USDC
+          0,
+        ]);
+      }
+      if (selector === reservesIface.getFunction("slot0")!.selector) {
+        return reservesIface.encodeFunctionResult("slot0", [SQRT_PRICE_2000, 0, 0, 0, 0, 0, true]);
+      }
+      // getActiveId() -> 8388608 (price 1 before decimals)
+      return coder.encode(["uint24"], [8_388_608]);
+    }),
+  } as any;
+}
+
+function createMockWsProvider() {
+  return {
+    on: vi.fn(),
+    off: vi.fn(),
+    removeAllListeners: vi.fn(),
+    destroy: vi.fn(),
+    websocket: {
+      onclose: null as null | ((...args: any[]) => void),
+      onerror: null as null | ((...args: any[]) => void),
+      readyState: 1,
+    },
+  };
+}
+
+function syncLog(address: string, reserve0: bigint, reserve1: bigint, blockNumber: number): PoolLog {
+  return {
+    address,
+    topics: [SYNC_TOPIC],
+    data: coder.encode(["uint112", "uint112"], [reserve0, reserve1]),
+    blockNumber,
+  };
+}
+
+function v3SwapLog(address: string, sqrtPriceX96: bigint, liquidity: bigint, blockNumber: number): PoolLog {
+  const indexed = coder.encode(["address"], [ADDR.SENDER]);
+  return {
+    address,
+    topics: [V3_SWAP_TOPIC, indexed, indexed],
+    data: coder.encode(
+      ["int256", "int256", "uint160", "uint128", "int24"],
+      [-1n, 1n, sqrtPriceX96, liquidity, 10],
+    ),
+    blockNumber,
+  };
+}
+
+function lbSwapLog(address: string, activeId: number, blockNumber: number): PoolLog {
+  const indexed = coder.encode(["address"], [ADDR.SENDER]);
+  const zero = "0x" + "00".repeat(32);
+  return {
+    address,
+    topics: [LB_SWAP_TOPIC, indexed, indexed],
+    data: coder.encode(
+      ["uint24", "bytes32", "bytes32", "uint24", "bytes32", "bytes32"],
+      [activeId, zero, zero, 0, zero, zero],
+    ),
+    blockNumber,
+  };
+}
+
+/** Let the setImmediate-coalesced detection run */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("decodePoolEvent", () => {
+  it("should decode V2 Sync reserves", () => {
+    const update = decodePoolEvent(makePool(), syncLog(ADDR.POOL_V2, 5n, 7n, 1));
+    expect(update).toEqual({ reserves: [5n, 7n] });
+  });
+
+  it("should decode V3 Swap price, liquidity and tick", () => {
+    const pool = makePool({ dex: "uniswap_v3", poolAddress: ADDR.POOL_V3 });
+    const update = decodePoolEvent(pool, v3SwapLog(ADDR.POOL_V3, SQRT_PRICE_2000, 123n, 1));
+    expect(update).toEqual({ sqrtPriceX96: SQRT_PRICE_2000, liquidity: 123n, tick: 10 });
+  });
+
+  it("should decode the Algebra Swap event for Camelot V3 pools", () => {
+    const pool = makePool({ dex: "camelot_v3", poolAddress: ADDR.POOL_V3 });
+    const update = decodePoolEvent(pool, v3SwapLog(ADDR.POOL_V3, SQRT_PRICE_2000, 1n, 1));
+    expect(update?.sqrtPriceX96).toBe(SQRT_PRICE_2000);
+  });
+
+  it("should decode the active bin from a Trader Joe LB Swap", () => {
+    const pool = makePool({ dex: "traderjoe_lb", poolAddress: ADDR.POOL_LB, feeTier: 15 });
+    expect(decodePoolEvent(pool, lbSwapLog(ADDR.POOL_LB, 8_388_700, 1))).toEqual({ activeId: 8_388_700 });
+  });
+
+  it("should return null for a topic that belongs to another protocol", () => {
+    const pool = makePool({ dex: "uniswap_v3", poolAddress: ADDR.POOL_V3 });
+    expect(decodePoolEvent(pool, syncLog(ADDR.POOL_V3, 1n, 1n, 1))).toBeNull();
+  });
+
+  it("should export one topic per supported event", () => {
+    expect(POOL_EVENT_TOPICS).toEqual([SYNC_TOPIC, V3_SWAP_TOPIC, LB_SWAP_TOPIC]);
+  });
+});
+
+describe("PriceMonitor event-driven mode", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+    vi.useRealTimers();
+  });
+
+  function createMonitor(pools: PoolConfig[], overrides: Record<string, unknown> = {}) {
+    monitor = new PriceMonitor({
+      provider: mockProvider(),
+      pools,
+      useMulticall: false,
+      deltaThresholdPercent: 0.5,
+      ...overrides,
+    });
+    return monitor;
+  }
+
+  describe("applyPoolLog", () => {
+    it("should update a V2 snapshot from a Sync log", async () => {
+      createMonitor([makePool()]);
+      await monitor.poll();
+
+      const updates: PriceSnapshot[] = [];
+      monitor.on("priceUpdate", (s: PriceSnapshot) => updates.push(s));
+
+      // 1000 WETH / 2,200,000 USDC -> 2200
+      monitor.applyPoolLog(syncLog(ADDR.POOL_V2, 1000n * 10n ** 18n, 2_200_000n * 10n ** 6n, 19_000_005));
+
+      const snapshot = monitor.getSnapshot(ADDR.POOL_V2)!;
+      expect(snapshot.price).toBeCloseTo(2200, 6);
+      expect(snapshot.blockNumber).toBe(19_000_005);
+      expect(snapshot.reserves).toEqual([1000n * 10n ** 18n, 2_200_000n * 10n ** 6n]);
+      expect(updates).toHaveLength(1);
+    });
+
+    it("should update a V3 snapshot from a Swap log", async () => {
+      const pool = makePool({ label: "WETH/USDC UniV3", dex: "uniswap_v3", poolAddress: ADDR.POOL_V3, feeTier: 500 });
+      createMonitor([pool]);
+      await monitor.poll();
+
+      const newSqrt = (SQRT_PRICE_2000 * 105n) / 100n;
+      monitor.applyPoolLog(v3SwapLog(ADDR.POOL_V3, newSqrt, 42n, 19_000_001));
+
+      const snapshot = monitor.getSnapshot(ADDR.POOL_V3)!;
+      expect(snapshot.sqrtPriceX96).toBe(newSqrt);
+      expect(snapshot.liquidity).toBe(42n);
+      expect(snapshot.price).toBeCloseTo(monitor.calculateV3Price(newSqrt, 18, 6), 6);
+    });
+
+    it("should update a Trader Joe LB snapshot from a Swap log", async () => {
+      const pool = makePool({ label: "WETH/USDC LB", dex: "traderjoe_lb", poolAddress: ADDR.POOL_LB, feeTier: 15 });
+      createMonitor([pool]);
+      await monitor.poll();
+
+      monitor.applyPoolLog(lbSwapLog(ADDR.POOL_LB, 8_388_708, 19_000_001));
+
+      const snapshot = monitor.getSnapshot(ADDR.POOL_LB)!;
+      expect(snapshot.activeId).toBe(8_388_708);
+      expect(snapshot.price).toBeCloseTo(monitor.calculateLBPrice(8_388_708, 15, 18, 6), 10);
+    });
+
+    it("should ignore logs for pools without a baseline snapshot", () => {
+      createMonitor([makePool()]);
+      monitor.applyPoolLog(syncLog(ADDR.POOL_V2, 1n, 1n, 19_000_001));
+      expect(monitor.getSnapshot(ADDR.POOL_V2)).toBeUndefined();
+    });
+
+    it("should ignore logs older than the current snapshot", async () => {
+      createMonitor([makePool()]);
+      await monitor.poll();
+      const before = monitor.getSnapshot(ADDR.POOL_V2)!;
+
+      monitor.applyPoolLog(syncLog(ADDR.POOL_V2, 1000n * 10n ** 18n, 1_000_000n * 10n ** 6n, 18_999_999));
+
+      expect(monitor.getSnapshot(ADDR.POOL_V2)).toEqual(before);
+    });
+
+    it("should ignore logs from unknown addresses", async () => {
+      createMonitor([makePool()]);
+      await monitor.poll();
+      const spy = vi.fn();
+      monitor.on("priceUpdate", spy);
+
+      monitor.applyPoolLog(syncLog("0x00000000000000000000000000000000000000ff", 1n, 1n, 19_000_001));
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it("should mark the pool non-viable when a Sync leaves it below the liquidity floor", async () => {
+      createMonitor([makePool()], { minReserveWeth: 10, wethAddress: ADDR.WETH });
+      await monitor.poll();
+      const errors: Error[] = [];
+      const lowLiquidity = vi.fn();
+      monitor.on("error", (e: Error) => errors.push(e));
+      monitor.on("lowLiquidity", lowLiquidity);
+
+      monitor.applyPoolLog(syncLog(ADDR.POOL_V2, 10n ** 18n, 2000n * 10n ** 6n, 19_000_001));
+
+      expect(errors).toHaveLength(0);
+      expect(lowLiquidity).toHaveBeenCalledWith(expect.objectContaining({ liquidityWeth: 1, minLiquidityWeth: 10 }));
+      expect(monitor.getSnapshot(ADDR.POOL_V2)!.blockNumber).toBe(19_000_001);
+    });
+
+    it("should run detection once for a burst of logs", async () => {
+      const sushi = makePool({ label: "WETH/USDC Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_SUSHI });
+      createMonitor([makePool(), sushi]);
+      await monitor.poll();
+
+      const deltas: PriceDelta[] = [];
+      monitor.on("opportunity", (d: PriceDelta) => deltas.push(d));
+
+      // Intermediate state (2% delta) is overwritten by the final state (1% delta) in the same block
+      monitor.applyPoolLog(syncLog(ADDR.POOL_SUSHI, 1000n * 10n ** 18n, 2_040_000n * 10n ** 6n, 19_000_001));
+      monitor.applyPoolLog(syncLog(ADDR.POOL_SUSHI, 1000n * 10n ** 18n, 2_020_000n * 10n ** 6n, 19_000_001));
+      await flush();
+
+      expect(deltas).toHaveLength(1);
+      expect(deltas[0].deltaPercent).toBeCloseTo(1, 6);
+    });
+
+    it("should stamp deltas with the detection pass's block, not each pool's", async () => {
+      const sushi = makePool({ label: "WETH/USDC Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_SUSHI });
+      createMonitor([makePool(), sushi]);
+      await monitor.poll();
+
+      const deltas: PriceDelta[] = [];
+      monitor.on("opportunity", (d: PriceDelta) => deltas.push(d));
+
+      // Only Sushi moves: the V2 snapshot stays at the baseline poll's block
+      monitor.applyPoolLog(syncLog(ADDR.POOL_SUSHI, 1000n * 10n ** 18n, 2_020_000n * 10n ** 6n, 19_000_003));
+      await flush();
+
+      expect(deltas[0].buyPool.blockNumber).toBe(19_000_000);
+      expect(deltas[0].detectionBlock).toBe(19_000_003);
+    });
+  });
+
+  describe("WebSocket subscription", () => {
+    it("should subscribe to pool logs and reconcile with a full poll", () => {
+      vi.useFakeTimers();
+      createMonitor([makePool()], { eventDriven: true, reconcileIntervalMs: 30_000 });
+      const ws = createMockWsProvider();
+      vi.spyOn(monitor as any, "_createWebSocketProvider").mockReturnValue(ws);
+      const pollSpy = vi.spyOn(monitor, "poll").mockResolvedValue();
+
+      monitor.startWebSocket("wss://arb-mainnet.example.com/ws");
+
+      const filterCall = ws.on.mock.calls.find((call: any[]) => typeof call[0] === "object");
+      expect(filterCall![0]).toEqual({ address: [ADDR.POOL_V2], topics: [POOL_EVENT_TOPICS] });
+      // Baseline poll on subscribe
+      expect(pollSpy).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(30_000);
+      expect(pollSpy).toHaveBeenCalledTimes(2);
+
+      monitor.stopWebSocket();
+      vi.advanceTimersByTime(60_000);
+      expect(pollSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("should advance snapshots on new blocks instead of polling", async () => {
+      createMonitor([makePool()], { eventDriven: true });
+      await monitor.poll();
+
+      const ws = createMockWsProvider();
+      vi.spyOn(monitor as any, "_createWebSocketProvider").mockReturnValue(ws);
+      const pollSpy = vi.spyOn(monitor, "poll").mockResolvedValue();
+      monitor.startWebSocket("wss://arb-mainnet.example.com/ws");
+      pollSpy.mockClear();
+
+      const blockHandler = ws.on.mock.calls.find((call: any[]) => call[0] === "block")![1] as (n: number) => void;
+      blockHandler(19_000_010);
+
+      expect(pollSpy).not.toHaveBeenCalled();
+      expect(monitor.getSnapshot(ADDR.POOL_V2)!.blockNumber).toBe(19_000_010);
+
+      monitor.stopWebSocket();
+    });
+
+    it("should not subscribe to logs when eventDriven is off", () => {
+      createMonitor([makePool()]);
+      const ws = createMockWsProvider();
+      vi.spyOn(monitor as any, "_createWebSocketProvider").mockReturnValue(ws);
+      vi.spyOn(monitor, "poll").mockResolvedValue();
+
+      monitor.startWebSocket("wss://arb-mainnet.example.com/ws");
+
+      expect(ws.on.mock.calls.every((call: any[]) => call[0] === "block")).toBe(true);
+      monitor.stopWebSocket();
+    });
+  });
+
+  describe("WebSocket gap backfill", () => {
+    const sushi = makePool({ label: "WETH/USDC Sushi", dex: "sushiswap", poolAddress: ADDR.POOL_SUSHI });
+
+    /** Connect, see block 19_000_001, drop the socket and reconnect; returns the new block handler */
+    function reconnect(): (n: number) => void {
+      const first = createMockWsProvider();
+      const second = createMockWsProvider();
+      vi.spyOn(monitor as any, "_createWebSocketProvider").mockReturnValueOnce(first).mockReturnValueOnce(second);
+      monitor.startWebSocket("wss://arb-mainnet.example.com/ws");
+      const blockHandler = (ws: ReturnType<typeof createMockWsProvider>) =>
+        ws.on.mock.calls.find((call: any[]) => call[0] === "block")![1] as (n: number) => void;
+
+      blockHandler(first)(19_000_001);
+      first.websocket.onclose!();
+      vi.advanceTimersByTime(1_000);
+      return blockHandler(second);
+    }
+
+    it("should replay pool logs over the gap before advancing snapshots", async () => {
+      vi.useFakeTimers();
+      const provider = mockProvider();
+      let resolveLogs!: (logs: unknown[]) => void;
+      provider.getLogs = vi.fn().mockReturnValue(new Promise((resolve) => { resolveLogs = resolve; }));
+      createMonitor([makePool(), sushi], { eventDriven: true, provider });
+      await monitor.poll();
+      vi.spyOn(monitor, "poll").mockResolvedValue();
+      const gap = new Promise<GapEvent>((resolve) => monitor.once("gap", resolve));
+
+      const onBlock = reconnect();
+      onBlock(19_000_010);
+      onBlock(19_000_011);
+
+      // Snapshots from before the gap are neither advanced nor compared while catching up
+      expect(monitor.getSnapshot(ADDR.POOL_V2)!.blockNumber).toBe(19_000_001);
+      expect((monitor as any)._eventSyncedPools().size).toBe(0);
+
+      resolveLogs([
+        { ...syncLog(ADDR.POOL_SUSHI, 1000n * 10n ** 18n, 2_020_000n * 10n ** 6n, 19_000_006), index: 3 },
+        { ...syncLog(ADDR.POOL_SUSHI, 1000n * 10n ** 18n, 2_040_000n * 10n ** 6n, 19_000_004), index: 0 },
+      ]);
+      const event = await gap;
+
+      expect(provider.getLogs).toHaveBeenCalledWith({
+        address: [ADDR.POOL_V2, ADDR.POOL_SUSHI],
+        topics: [POOL_EVENT_TOPICS],
+        fromBlock: 19_000_002,
+        toBlock: 19_000_010,
+      });
+      expect(event).toMatchObject({ fromBlock: 19_000_002, toBlock: 19_000_010, backfill: "logs" });
+      // Logs applied in chain order; every snapshot is current as of the end of the gap
+      expect(monitor.getSnapshot(ADDR.POOL_SUSHI)!.price).toBeCloseTo(2020, 6);
+      expect(monitor.getSnapshot(ADDR.POOL_SUSHI)!.blockNumber).toBe(19_000_010);
+      expect(monitor.getSnapshot(ADDR.POOL_V2)!.blockNumber).toBe(19_000_010);
+    });
+
+    it("should drop snapshots from before the gap and re-read every pool when logs can't be fetched", async () => {
+      vi.useFakeTimers();
+      const provider = mockProvider();
+      provider.getLogs = vi.fn().mockRejectedValue(new Error("query exceeds max block range"));
+      createMonitor([makePool(), sushi], { eventDriven: true, provider });
+      await monitor.poll();
+      const pollSpy = vi.spyOn(monitor, "poll").mockResolvedValue();
+      const gap = new Promise<GapEvent>((resolve) => monitor.once("gap", resolve));
+
+      reconnect()(19_000_010);
+      const event = await gap;
+
+      expect(event.backfill).toBe("poll");
+      expect(pollSpy).toHaveBeenLastCalledWith(19_000_010);
+      expect(monitor.getAllSnapshots()).toHaveLength(0);
+    });
+
+    it("should re-read every pool at the new head after a gap when polling per block", async () => {
+      vi.useFakeTimers();
+      const provider = mockProvider();
+      provider.getLogs = vi.fn();
+      createMonitor([makePool(), sushi], { provider });
+      await monitor.poll();
+      const pollSpy = vi.spyOn(monitor, "poll").mockResolvedValue();
+      const gap = new Promise<GapEvent>((resolve) => monitor.once("gap", resolve));
+
+      reconnect()(19_000_010);
+      const event = await gap;
+
+      expect(provider.getLogs).not.toHaveBeenCalled();
+      expect(event).toMatchObject({ fromBlock: 19_000_002, toBlock: 19_000_010, backfill: "poll" });
+      expect(pollSpy.mock.calls.filter(([block]) => block === 19_000_010)).toHaveLength(1);
+      expect(monitor.getAllSnapshots()).toHaveLength(0);
+    });
+
+    it("should resume without a catch-up when no block was missed", () => {
+      vi.useFakeTimers();
+      createMonitor([makePool()]);
+      const pollSpy = vi.spyOn(monitor, "poll").mockResolvedValue();
+      const gap = vi.fn();
+      monitor.on("gap", gap);
+
+      reconnect()(19_000_002);
+
+      expect(gap).not.toHaveBeenCalled();
+      expect(pollSpy).toHaveBeenLastCalledWith(19_000_002);
+    });
+  });
+});
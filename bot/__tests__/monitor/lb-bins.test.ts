@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import type { PoolConfig } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  POOL_LB: "0x0000000000000000000000000000000000000007",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const lbIface = new Interface([
+  "function getActiveId() view returns (uint24)",
+  "function getBin(uint24 id) view returns (uint128 binReserveX, uint128 binReserveY)",
+  "function getNextNonEmptyBin(bool swapForY, uint24 id) view returns (uint24)",
+]);
+
+const ACTIVE_ID = 8_388_608 - 5_000;
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC TJ LB",
+    dex: "traderjoe_lb",
+    poolAddress: ADDR.POOL_LB,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    feeTier: 15,
+    ...overrides,
+  };
+}
+
+/**
+ * Multicall mock for an LB pool holding the given non-empty bins
+ * (id → [reserveX, reserveY]). Records every inner call by function name.
+ */
+function lbMockProvider(opts: {
+  bins: Record<number, [bigint, bigint]>;
+  failGetBin?: boolean;
+}) {
+  const calls: string[] = [];
+  const ids = Object.keys(opts.bins).map(Number).sort((a, b) => a - b);
+
+  const handle = (callData: string): [boolean, string] => {
+    const fn = lbIface.parseTransaction({ data: callData });
+    // Fee parameter reads are not under test here
+    if (!fn) return [false, "0x"];
+    calls.push(fn.name);
+    switch (fn.name) {
+      case "getActiveId":
+        return [true, lbIface.encodeFunctionResult("getActiveId", [ACTIVE_ID])];
+      case "getNextNonEmptyBin": {
+        const [swapForY, from] = [fn.args[0] as boolean, Number(fn.args[1])];
+        const next = swapForY
+          ? [...ids].reverse().find((id) => id < from) ?? 0xffffff
+          : ids.find((id) => id > from) ?? 0;
+        return [true, lbIface.encodeFunctionResult("getNextNonEmptyBin", [next])];
+      }
+      case "getBin": {
+        if (opts.failGetBin) return [false, "0x"];
+        const [x, y] = opts.bins[Number(fn.args[0])] ?? [0n, 0n];
+        return [true, lbIface.encodeFunctionResult("getBin", [x, y])];
+      }
+      default:
+        throw new Error(`Unexpected call ${fn.name}`);
+    }
+  };
+
+  const provider = {
+    getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        throw new Error("Expected multicall");
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => handle(c.callData));
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+
+  return { provider, calls };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("PriceMonitor LB bin liquidity", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  const BINS: Record<number, [bigint, bigint]> = {
+    [ACTIVE_ID - 40]: [0n, 300n],
+    [ACTIVE_ID - 3]: [0n, 200n],
+    [ACTIVE_ID]: [10n, 100n],
+    [ACTIVE_ID + 1]: [20n, 0n],
+    [ACTIVE_ID + 7]: [30n, 0n],
+    [ACTIVE_ID + 9]: [40n, 0n],
+  };
+
+  it("should not read bins when lbBinsPerSide is 0 (default)", async () => {
+    const { provider, calls } = lbMockProvider({ bins: BINS });
+    monitor = new PriceMonitor({ provider, pools: [makePool()] });
+
+    await monitor.poll();
+
+    expect(calls).not.toContain("getBin");
+    expect(monitor.getSnapshot(ADDR.POOL_LB)!.lbBins).toBeUndefined();
+    expect(monitor.getSnapshot(ADDR.POOL_LB)!.activeId).toBe(ACTIVE_ID);
+  });
+
+  it("should attach the active bin and the nearest non-empty bins on each side", async () => {
+    const { provider } = lbMockProvider({ bins: BINS });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], lbBinsPerSide: 2 });
+
+    await monitor.poll();
+
+    const lbBins = monitor.getSnapshot(ADDR.POOL_LB)!.lbBins!;
+    expect(lbBins.bins.map((b) => b.id - ACTIVE_ID)).toEqual([-40, -3, 0, 1, 7]);
+    expect(lbBins.bins[2]).toEqual({ id: ACTIVE_ID, reserveX: 10n, reserveY: 100n });
+    expect(lbBins.blockNumber).toBe(19_000_000);
+  });
+
+  it("should stop walking a side when no bins are left", async () => {
+    const { provider, calls } = lbMockProvider({ bins: BINS });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], lbBinsPerSide: 5 });
+
+    await monitor.poll();
+
+    const ids = monitor.getSnapshot(ADDR.POOL_LB)!.lbBins!.bins.map((b) => b.id - ACTIVE_ID);
+    expect(ids).toEqual([-40, -3, 0, 1, 7, 9]);
+    // Below: 2 bins + end; above: 3 bins + end — no calls past either end
+    expect(calls.filter((c) => c === "getNextNonEmptyBin")).toHaveLength(7);
+  });
+
+  it("should still emit the price snapshot when bin reads fail", async () => {
+    const { provider } = lbMockProvider({ bins: BINS, failGetBin: true });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], lbBinsPerSide: 2 });
+    const updates: unknown[] = [];
+    monitor.on("priceUpdate", (s) => updates.push(s));
+
+    await monitor.poll();
+
+    expect(updates).toHaveLength(1);
+    expect(monitor.getSnapshot(ADDR.POOL_LB)!.lbBins).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { lbTotalFee, lbVolatilityAccumulator, type LBFeeParameters } from "../../src/math/lbFees.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  POOL_LB: "0x0000000000000000000000000000000000000007",
+  POOL_V2: "0x0000000000000000000000000000000000000008",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const lbIface = new Interface([
+  "function getActiveId() view returns (uint24)",
+  "function getStaticFeeParameters() view returns (uint16, uint16, uint16, uint16, uint24, uint16, uint24)",
+  "function getVariableFeeParameters() view returns (uint24, uint24, uint24, uint40)",
+]);
+
+const ACTIVE_ID = 8_388_608 - 5_000;
+const BIN_STEP = 25;
+const NOW = 1_700_000_000;
+
+/** Arbitrum WETH/USDC 25bp pair-style parameters, last swapped 5s before NOW */
+function makeParams(overrides: Partial<LBFeeParameters> = {}): LBFeeParameters {
+  return {
+    baseFactor: 5_000,
+    filterPeriod: 30,
+    decayPeriod: 600,
+    reductionFactor: 5_000,
+    variableFeeControl: 40_000,
+    maxVolatilityAccumulator: 350_000,
+    volatilityAccumulator: 60_000,
+    volatilityReference: 20_000,
+    idReference: ACTIVE_ID - 3,
+    timeOfLastUpdate: NOW - 5,
+    ...overrides,
+  };
+}
+
+/** baseFactor · binStep · 1e10 */
+const BASE_FEE = 5_000n * 25n * 10n ** 10n;
+
+/** ceil((acc · binStep)² · vfc / 100) */
+function variableFee(acc: number, vfc = 40_000): bigint {
+  const prod = BigInt(acc) * BigInt(BIN_STEP);
+  return (prod * prod * BigInt(vfc) + 99n) / 100n;
+}
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC TJ LB",
+    dex: "traderjoe_lb",
+    poolAddress: ADDR.POOL_LB,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    feeTier: BIN_STEP,
+    ...overrides,
+  };
+}
+
+/** Multicall mock for an LB pool with the given fee parameters */
+function lbMockProvider(params: LBFeeParameters, opts: { failFees?: boolean } = {}) {
+  const handle = (callData: string): [boolean, string] => {
+    const fn = lbIface.parseTransaction({ data: callData })!;
+    switch (fn.name) {
+      case "getActiveId":
+        return [true, lbIface.encodeFunctionResult("getActiveId", [ACTIVE_ID])];
+      case "getStaticFeeParameters":
+        if (opts.failFees) return [false, "0x"];
+        return [true, lbIface.encodeFunctionResult("getStaticFeeParameters", [
+          params.baseFactor, params.filterPeriod, params.decayPeriod, params.reductionFactor,
+          params.variableFeeControl, 1_000, params.maxVolatilityAccumulator,
+        ])];
+      case "getVariableFeeParameters":
+        return [true, lbIface.encodeFunctionResult("getVariableFeeParameters", [
+          params.volatilityAccumulator, params.volatilityReference, params.idReference, params.timeOfLastUpdate,
+        ])];
+      default:
+        throw new Error(`Unexpected call ${fn.name}`);
+    }
+  };
+
+  return {
+    getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        throw new Error("Expected multicall");
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => handle(c.callData));
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("lbTotalFee", () => {
+  it("should charge only the base fee when the variable fee is disabled", () => {
+    expect(lbTotalFee(makeParams({ variableFeeControl: 0 }), BIN_STEP, ACTIVE_ID, NOW)).toBe(BASE_FEE);
+  });
+
+  it("should keep the references within the filter period", () => {
+    // reference 20_000 + 3 bins from idReference
+    expect(lbVolatilityAccumulator(makeParams(), ACTIVE_ID, NOW)).toBe(50_000);
+    expect(lbTotalFee(makeParams(), BIN_STEP, ACTIVE_ID, NOW)).toBe(BASE_FEE + variableFee(50_000));
+  });
+
+  it("should decay the reference between the filter and decay periods", () => {
+    const params = makeParams({ timeOfLastUpdate: NOW - 120 });
+    // 60_000 · 50% — idReference moves to the active bin
+    expect(lbVolatilityAccumulator(params, ACTIVE_ID, NOW)).toBe(30_000);
+    expect(lbTotalFee(params, BIN_STEP, ACTIVE_ID, NOW)).toBe(BASE_FEE + variableFee(30_000));
+  });
+
+  it("should reset the reference after the decay period", () => {
+    const params = makeParams({ timeOfLastUpdate: NOW - 600 });
+    expect(lbVolatilityAccumulator(params, ACTIVE_ID, NOW)).toBe(0);
+    expect(lbTotalFee(params, BIN_STEP, ACTIVE_ID, NOW)).toBe(BASE_FEE);
+  });
+
+  it("should cap the accumulator at maxVolatilityAccumulator", () => {
+    const params = makeParams({ idReference: ACTIVE_ID - 100 });
+    expect(lbVolatilityAccumulator(params, ACTIVE_ID, NOW)).toBe(350_000);
+  });
+});
+
+describe("PriceMonitor LB fees", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+    vi.useRealTimers();
+  });
+
+  it("should attach the live fee read with the active bin", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW * 1000);
+    monitor = new PriceMonitor({ provider: lbMockProvider(makeParams()), pools: [makePool()] });
+
+    await monitor.poll();
+
+    expect(monitor.getSnapshot(ADDR.POOL_LB)!.lbFee).toBe(BASE_FEE + variableFee(50_000));
+  });
+
+  it("should still emit the snapshot without a fee when fee reads fail", async () => {
+    monitor = new PriceMonitor({
+      provider: lbMockProvider(makeParams(), { failFees: true }),
+      pools: [makePool()],
+    });
+    const updates: PriceSnapshot[] = [];
+    monitor.on("priceUpdate", (s) => updates.push(s));
+
+    await monitor.poll();
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].activeId).toBe(ACTIVE_ID);
+    expect(updates[0].lbFee).toBeUndefined();
+  });
+});
+
+describe("OpportunityDetector LB fees", () => {
+  const lbPool = makePool();
+  const v2Pool = makePool({ label: "WETH/USDC V2", dex: "uniswap_v2", poolAddress: ADDR.POOL_V2, feeTier: undefined });
+
+  function makeDelta(lbFee?: bigint): PriceDelta {
+    const buy: PriceSnapshot = {
+      pool: lbPool, price: 2000, inversePrice: 1 / 2000, blockNumber: 1, timestamp: Date.now(),
+      activeId: ACTIVE_ID,
+      ...(lbFee !== undefined && { lbFee }),
+    };
+    const sell: PriceSnapshot = {
+      pool: v2Pool, price: 2020, inversePrice: 1 / 2020, blockNumber: 1, timestamp: Date.now(),
+    };
+    return { pair: "WETH/USDC", buyPool: buy, sellPool: sell, deltaPercent: 1, timestamp: Date.now() };
+  }
+
+  it("should use the live fee instead of the buffered binStep estimate", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(makeDelta(BASE_FEE));
+
+    expect(path.steps[0].lbFee).toBe(BASE_FEE);
+    expect((detector as any).getSwapFeeRate(path.steps[0])).toBeCloseTo(0.00125, 10);
+  });
+
+  it("should fall back to binStep plus a 50% buffer without a live fee", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(makeDelta());
+
+    expect(path.steps[0].lbFee).toBeUndefined();
+    expect((detector as any).getSwapFeeRate(path.steps[0])).toBeCloseTo(0.00375, 10);
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface, ZeroAddress } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { LiquidityGuard, type LiquidityGuardConfig } from "../../src/monitor/LiquidityGuard.js";
+import type { LiquidityViability, PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  ARB: "0x912CE59144191C1204E64559FE8253a0e49E6548",
+  POOL_V2: "0x0000000000000000000000000000000000000051",
+  POOL_V3: "0x0000000000000000000000000000000000000052",
+  POOL_LB: "0x0000000000000000000000000000000000000053",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const poolIface = new Interface([
+  "function getReserves() view returns (uint112, uint112, uint32)",
+  "function slot0() view returns (uint160, int24, uint16, uint16, uint16, uint8, bool)",
+  "function liquidity() view returns (uint128)",
+  "function getActiveId() view returns (uint24)",
+  "function getBin(uint24 id) view returns (uint128 binReserveX, uint128 binReserveY)",
+]);
+
+const E18 = 10n ** 18n;
+const Q96 = 2n ** 96n;
+/** LB active id at which the raw bin price is 1 */
+const LB_ID_ONE = 8_388_608;
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/ARB UniV2",
+    dex: "uniswap_v2",
+    poolAddress: ADDR.POOL_V2,
+    token0: ADDR.WETH,
+    token1: ADDR.ARB,
+    decimals0: 18,
+    decimals1: 18,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(pool: PoolConfig, fields: Partial<PriceSnapshot> = {}): PriceSnapshot {
+  return { pool, price: 1, inversePrice: 1, blockNumber: 1, timestamp: Date.now(), ...fields };
+}
+
+function makeGuard(overrides: Partial<LiquidityGuardConfig> = {}): LiquidityGuard {
+  return new LiquidityGuard({ wethAddress: ADDR.WETH, minReserveWeth: 5, dexMinReserveWeth: {}, ...overrides });
+}
+
+/**
+ * Multicall mock: a V2 pair holding 1000 WETH and 1010 ARB, a V3 pool at
+ * price 1 whose in-range liquidity is `state.v3Liquidity`, and an LB pair
+ * at price 1 whose active bin holds `state.lbBin`.
+ */
+function mockProvider(state: { v3Liquidity: bigint; lbBin: [bigint, bigint] }) {
+  const calls: string[] = [];
+  const handle = (callData: string): [boolean, string] => {
+    const fn = poolIface.parseTransaction({ data: callData });
+    if (!fn) return [false, "0x"];
+    calls.push(fn.name);
+    switch (fn.name) {
+      case "getReserves":
+        return [true, poolIface.encodeFunctionResult("getReserves", [1000n * E18, 1010n * E18, 0])];
+      case "slot0":
+        return [true, poolIface.encodeFunctionResult("slot0", [Q96, 0, 0, 0, 0, 0, true])];
+      case "liquidity":
+        return [true, poolIface.encodeFunctionResult("liquidity", [state.v3Liquidity])];
+      case "getActiveId":
+        return [true, poolIface.encodeFunctionResult("getActiveId", [LB_ID_ONE])];
+      case "getBin":
+        return [true, poolIface.encodeFunctionResult("getBin", state.lbBin)];
+      default:
+        return [false, "0x"];
+    }
+  };
+
+  const provider = {
+    getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        throw new Error("Expected multicall");
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => handle(c.callData));
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+  return { provider, calls };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("LiquidityGuard", () => {
+  it("should measure V2 pairs by their WETH reserve", () => {
+    const snapshot = makeSnapshot(makePool({ token0: ADDR.ARB, token1: ADDR.WETH }), {
+      reserves: [50n * E18, 3n * E18],
+    });
+
+    expect(makeGuard().measure(snapshot)).toBe(3);
+  });
+
+  it("should measure V3 pools by the in-range virtual WETH reserve", () => {
+    const pool = makePool({ dex: "uniswap_v3" });
+    // √P = 2 → x = L / √P, y = L · √P
+    const snapshot = makeSnapshot(pool, { liquidity: 10n * E18, sqrtPriceX96: 2n * Q96 });
+
+    expect(makeGuard().measure(snapshot)).toBeCloseTo(5, 12);
+    expect(makeGuard().measure({ ...snapshot, pool: { ...pool, token0: ADDR.ARB, token1: ADDR.WETH } })).toBeCloseTo(20, 12);
+  });
+
+  it("should value both sides of the active LB bin in WETH, honoring invertPrice", () => {
+    // token0 = WETH, token1 = USDC at 2000 USDC per WETH; tokenX = USDC when inverted
+    const pool = makePool({ dex: "traderjoe_lb", token1: ADDR.USDC, decimals1: 6, invertPrice: true });
+    const snapshot = makeSnapshot(pool, { price: 2000, activeId: LB_ID_ONE });
+    const bin = { id: LB_ID_ONE, reserveX: 4_000n * 10n ** 6n, reserveY: E18 };
+
+    expect(makeGuard().measure(snapshot, bin)).toBeCloseTo(3, 12);
+    // Without a bin (an LB swap log) there is nothing to measure
+    expect(makeGuard().measure(snapshot)).toBeUndefined();
+  });
+
+  it("should count native ETH as WETH on Uniswap V4 and skip pairs without WETH", () => {
+    const v4 = makeSnapshot(makePool({ dex: "uniswap_v4", token0: ZeroAddress }), { liquidity: 7n * E18, sqrtPriceX96: Q96 });
+    const noWeth = makeSnapshot(makePool({ token0: ADDR.USDC }), { reserves: [1n, 1n] });
+
+    expect(makeGuard().measure(v4)).toBeCloseTo(7, 12);
+    expect(makeGuard().measure(noWeth)).toBeUndefined();
+  });
+
+  it("should report each transition once and recover when liquidity returns", () => {
+    const guard = makeGuard();
+    const pool = makePool();
+    const at = (weth: bigint) => makeSnapshot(pool, { reserves: [weth * E18, 1000n * E18] });
+
+    expect(guard.assess(at(10n)).transition).toBeUndefined();
+    expect(guard.assess(at(2n)).transition?.event).toBe("lowLiquidity");
+    expect(guard.assess(at(1n)).transition).toBeUndefined();
+    expect(guard.isViable(ADDR.POOL_V2)).toBe(false);
+
+    const restored = guard.assess(at(6n));
+    expect(restored.transition?.event).toBe("liquidityRestored");
+    expect(restored.snapshot.liquidityWeth).toBe(6);
+    expect(guard.isViable(ADDR.POOL_V2)).toBe(true);
+  });
+
+  it("should apply per-protocol floors over minReserveWeth", () => {
+    const guard = makeGuard({ dexMinReserveWeth: { uniswap_v3: 50 } });
+    const snapshot = makeSnapshot(makePool({ dex: "uniswap_v3" }), { liquidity: 20n * E18, sqrtPriceX96: Q96 });
+
+    expect(guard.assess(snapshot).transition?.viability).toMatchObject({ liquidityWeth: 20, minLiquidityWeth: 50 });
+    expect(makeGuard().assess(snapshot).transition).toBeUndefined();
+  });
+});
+
+describe("PriceMonitor liquidity viability", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  const v2 = makePool();
+  const v3 = makePool({ label: "WETH/ARB UniV3", dex: "uniswap_v3", poolAddress: ADDR.POOL_V3, feeTier: 500 });
+
+  it("should leave a thin V3 pool out of detection until its liquidity returns", async () => {
+    const state = { v3Liquidity: E18, lbBin: [0n, 0n] as [bigint, bigint] };
+    const { provider } = mockProvider(state);
+    monitor = new PriceMonitor({
+      provider,
+      pools: [v2, v3],
+      deltaThresholdPercent: 0.1,
+      minReserveWeth: 5,
+      wethAddress: ADDR.WETH,
+    });
+    const events: Array<[string, LiquidityViability]> = [];
+    monitor.on("lowLiquidity", (v: LiquidityViability) => events.push(["low", v]));
+    monitor.on("liquidityRestored", (v: LiquidityViability) => events.push(["restored", v]));
+    const deltas: PriceDelta[] = [];
+    monitor.on("opportunity", (d: PriceDelta) => deltas.push(d));
+
+    await monitor.poll();
+    expect(deltas).toHaveLength(0);
+    expect(events.map(([e, v]) => `${e}:${v.pool.label}`)).toEqual(["low:WETH/ARB UniV3"]);
+    expect(monitor.getSnapshot(ADDR.POOL_V3)!.liquidityWeth).toBeCloseTo(1, 12);
+
+    state.v3Liquidity = 100n * E18;
+    await monitor.poll();
+    expect(events.map(([e]) => e)).toEqual(["low", "restored"]);
+    expect(deltas).toHaveLength(1);
+  });
+
+  it("should read the active LB bin when no bin walk is configured", async () => {
+    const lb = makePool({ label: "WETH/ARB LB", dex: "traderjoe_lb", poolAddress: ADDR.POOL_LB, feeTier: 10 });
+    const { provider, calls } = mockProvider({ v3Liquidity: 0n, lbBin: [E18, 2n * E18] });
+    monitor = new PriceMonitor({ provider, pools: [lb], minReserveWeth: 5, wethAddress: ADDR.WETH });
+    const low = vi.fn();
+    monitor.on("lowLiquidity", low);
+
+    await monitor.poll();
+
+    expect(calls).toContain("getBin");
+    // 1 WETH + 2 ARB at price 1
+    expect(monitor.getSnapshot(ADDR.POOL_LB)!.liquidityWeth).toBeCloseTo(3, 12);
+    expect(low).toHaveBeenCalledOnce();
+  });
+
+  it("should not read bins or measure anything with the floor disabled", async () => {
+    const lb = makePool({ label: "WETH/ARB LB", dex: "traderjoe_lb", poolAddress: ADDR.POOL_LB, feeTier: 10 });
+    const { provider, calls } = mockProvider({ v3Liquidity: 0n, lbBin: [0n, 0n] });
+    monitor = new PriceMonitor({ provider, pools: [lb] });
+
+    await monitor.poll();
+
+    expect(calls).not.toContain("getBin");
+    expect(monitor.getSnapshot(ADDR.POOL_LB)!.liquidityWeth).toBeUndefined();
+  });
+});
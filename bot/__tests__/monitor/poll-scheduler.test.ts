@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { PollScheduler, type PollSchedulerConfig } from "../../src/monitor/PollScheduler.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  TOKEN_A: "0x1000000000000000000000000000000000000001",
+  TOKEN_B: "0x2000000000000000000000000000000000000002",
+  POOL_HOT: "0x0000000000000000000000000000000000000041",
+  POOL_COLD: "0x0000000000000000000000000000000000000042",
+  POOL_OTHER: "0x0000000000000000000000000000000000000043",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const v2Iface = new Interface([
+  "function getReserves() view returns (uint112, uint112, uint32)",
+]);
+
+const E18 = 10n ** 18n;
+
+function makePool(address: string, overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: `A/B ${address.slice(-2)}`,
+    dex: "uniswap_v2",
+    poolAddress: address,
+    token0: ADDR.TOKEN_A,
+    token1: ADDR.TOKEN_B,
+    decimals0: 18,
+    decimals1: 18,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(pool: PoolConfig, price: number): PriceSnapshot {
+  return { pool, price, inversePrice: 1 / price, blockNumber: 1, timestamp: Date.now() };
+}
+
+function makeScheduler(overrides: Partial<PollSchedulerConfig> = {}): PollScheduler {
+  return new PollScheduler({ maxPollInterval: 8, rpcBudgetPerSecond: 0, promotionPolls: 3, ...overrides });
+}
+
+/** Run `polls` selections, recording an unchanged read of every selected pool; returns the polls each pool was read on */
+function runQuiet(scheduler: PollScheduler, pools: PoolConfig[], polls: number): Map<string, number[]> {
+  const reads = new Map<string, number[]>(pools.map((p) => [p.poolAddress, []]));
+  const last = new Map<string, PriceSnapshot>();
+  for (let n = 1; n <= polls; n++) {
+    for (const pool of scheduler.select(pools, () => 1)) {
+      const snapshot = makeSnapshot(pool, 1);
+      scheduler.recordRead(snapshot, last.get(pool.poolAddress));
+      last.set(pool.poolAddress, snapshot);
+      reads.get(pool.poolAddress)!.push(n);
+    }
+  }
+  return reads;
+}
+
+/**
+ * Multicall mock for V2 pairs. The hot pool's reserve1 grows by 1 wei on
+ * every read; `prices` sets each pool's reserve1 (reserve0 = 1000).
+ */
+function v2MockProvider(prices: Record<string, number>) {
+  const reads: string[] = [];
+  let hotReads = 0n;
+  const provider = {
+    getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        throw new Error("Expected multicall");
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { target: string }) => {
+        const target = c.target.toLowerCase();
+        reads.push(target);
+        const drift = target === ADDR.POOL_HOT ? ++hotReads : 0n;
+        const reserve1 = BigInt(Math.round(prices[target] * 1000)) * E18 + drift;
+        return [true, v2Iface.encodeFunctionResult("getReserves", [1000n * E18, reserve1, 0])];
+      });
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+  return { provider, reads };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("PollScheduler", () => {
+  const pools = [makePool(ADDR.POOL_HOT), makePool(ADDR.POOL_COLD)];
+
+  it("should read every pool every poll when disabled", () => {
+    const reads = runQuiet(makeScheduler({ maxPollInterval: 1 }), pools, 5);
+
+    expect(reads.get(ADDR.POOL_COLD)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should double the interval of a pool that does not move, up to the maximum", () => {
+    const reads = runQuiet(makeScheduler({ maxPollInterval: 4 }), pools, 16);
+
+    // Intervals 1, 2, 4, 4, ...
+    expect(reads.get(ADDR.POOL_COLD)).toEqual([1, 2, 4, 8, 12, 16]);
+  });
+
+  it("should read a pool every poll again once it moves", () => {
+    const scheduler = makeScheduler({ maxPollInterval: 4 });
+    const pool = pools[0];
+    runQuiet(scheduler, [pool], 8);
+
+    // Next read (poll 12) finds a new price
+    for (let n = 9; n <= 12; n++) {
+      for (const p of scheduler.select([pool], () => 1)) {
+        scheduler.recordRead(makeSnapshot(p, 2), makeSnapshot(p, 1));
+      }
+    }
+
+    expect(scheduler.select([pool], () => 1)).toEqual([pool]);
+  });
+
+  it("should read a pool every poll again after activity seen in its logs", () => {
+    const scheduler = makeScheduler({ maxPollInterval: 4 });
+    runQuiet(scheduler, pools, 8);
+
+    scheduler.recordActivity(pools[1]);
+
+    expect(scheduler.select(pools, () => 1)).toContain(pools[1]);
+  });
+
+  it("should read promoted pools every poll for promotionPolls polls", () => {
+    const scheduler = makeScheduler({ maxPollInterval: 8, promotionPolls: 3 });
+    const pool = pools[1];
+    runQuiet(scheduler, [pool], 4);
+
+    scheduler.promote([pool]);
+    const reads: boolean[] = [];
+    for (let n = 0; n < 5; n++) {
+      const selected = scheduler.select([pool], () => 1);
+      for (const p of selected) scheduler.recordRead(makeSnapshot(p, 1), makeSnapshot(p, 1));
+      reads.push(selected.length === 1);
+    }
+
+    expect(reads).toEqual([true, true, true, false, false]);
+  });
+
+  it("should spend no more than the budget accrued since the last poll", () => {
+    const scheduler = makeScheduler({ maxPollInterval: 1, rpcBudgetPerSecond: 2 });
+    const three = [...pools, makePool(ADDR.POOL_OTHER)];
+
+    // The first poll reads every pool
+    expect(scheduler.select(three, () => 2, 0)).toHaveLength(3);
+    // 1s accrues 2 calls: one pool
+    expect(scheduler.select(three, () => 2, 1_000)).toHaveLength(1);
+    // Unspent budget carries over: 0.5s + 0.5s
+    expect(scheduler.select(three, () => 2, 1_500)).toHaveLength(0);
+    expect(scheduler.select(three, () => 2, 2_000)).toHaveLength(1);
+  });
+
+  it("should give the budget to promoted and most overdue pools first", () => {
+    const scheduler = makeScheduler({ maxPollInterval: 1, rpcBudgetPerSecond: 1, promotionPolls: 1 });
+    for (const pool of scheduler.select(pools, () => 1, 0)) {
+      scheduler.recordRead(makeSnapshot(pool, 1), undefined);
+    }
+    scheduler.promote([pools[1]]);
+
+    expect(scheduler.select(pools, () => 1, 1_000)).toEqual([pools[1]]);
+    // The pool held back is now the most overdue
+    expect(scheduler.select(pools, () => 1, 2_000)).toEqual([pools[0]]);
+  });
+
+  it("should count skipped pools as current only within their interval", () => {
+    const scheduler = makeScheduler({ maxPollInterval: 4 });
+    runQuiet(scheduler, pools, 4);
+
+    scheduler.select(pools, () => 1);
+    expect(scheduler.isCurrent(pools[1])).toBe(true);
+
+    scheduler.forget(ADDR.POOL_COLD);
+    expect(scheduler.isCurrent(pools[1])).toBe(false);
+    expect(scheduler.select(pools, () => 1)).toContain(pools[1]);
+  });
+});
+
+describe("PriceMonitor poll scheduling", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should read a quiet pool less often than a busy one", async () => {
+    const { provider, reads } = v2MockProvider({ [ADDR.POOL_HOT]: 1, [ADDR.POOL_COLD]: 1 });
+    monitor = new PriceMonitor({
+      provider,
+      pools: [makePool(ADDR.POOL_HOT), makePool(ADDR.POOL_COLD)],
+      maxPollInterval: 4,
+    });
+
+    for (let n = 0; n < 8; n++) await monitor.poll();
+
+    expect(reads.filter((a) => a === ADDR.POOL_HOT)).toHaveLength(8);
+    // Polls 1, 2, 4, 8
+    expect(reads.filter((a) => a === ADDR.POOL_COLD)).toHaveLength(4);
+  });
+
+  it("should still compare against quiet pools on polls that skip them", async () => {
+    const prices = { [ADDR.POOL_HOT]: 1, [ADDR.POOL_COLD]: 1 };
+    const { provider, reads } = v2MockProvider(prices);
+    monitor = new PriceMonitor({
+      provider,
+      pools: [makePool(ADDR.POOL_HOT), makePool(ADDR.POOL_COLD)],
+      deltaThresholdPercent: 1,
+      maxPollInterval: 4,
+    });
+    const deltas: PriceDelta[] = [];
+    monitor.on("opportunity", (d) => deltas.push(d));
+
+    // The quiet pool is read on polls 1, 2 and 4, next on poll 8
+    for (let n = 0; n < 4; n++) await monitor.poll();
+    prices[ADDR.POOL_HOT] = 1.05;
+    await monitor.poll();
+
+    expect(reads.slice(-1)).toEqual([ADDR.POOL_HOT]);
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0].buyPool.pool.poolAddress).toBe(ADDR.POOL_COLD);
+    expect(deltas[0].sellPool.pool.poolAddress).toBe(ADDR.POOL_HOT);
+  });
+
+  it("should promote both pools of a spread near the threshold to every poll", async () => {
+    const { provider, reads } = v2MockProvider({ [ADDR.POOL_HOT]: 1, [ADDR.POOL_COLD]: 1.006 });
+    monitor = new PriceMonitor({
+      provider,
+      pools: [makePool(ADDR.POOL_HOT), makePool(ADDR.POOL_COLD)],
+      deltaThresholdPercent: 1,
+      maxPollInterval: 4,
+    });
+
+    for (let n = 0; n < 8; n++) await monitor.poll();
+
+    expect(reads.filter((a) => a === ADDR.POOL_COLD)).toHaveLength(8);
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { PriceSanityGuard, type PriceSanityGuardConfig } from "../../src/monitor/PriceSanityGuard.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  TOKEN_A: "0x1000000000000000000000000000000000000001",
+  TOKEN_B: "0x2000000000000000000000000000000000000002",
+  POOL_V3: "0x0000000000000000000000000000000000000031",
+  POOL_ALGEBRA: "0x0000000000000000000000000000000000000032",
+  POOL_V2: "0x0000000000000000000000000000000000000033",
+  FEED: "0x00000000000000000000000000000000000000f1",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const poolIface = new Interface([
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
+  "function liquidity() view returns (uint128)",
+  "function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)",
+  "function getTimepoints(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulatives, uint112[] volatilityCumulatives, uint256[] volumePerAvgLiquiditys)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  "function decimals() view returns (uint8)",
+]);
+
+const WINDOW = 600;
+const NOW = 1_700_000_000;
+/** sqrtPriceX96 of price 1 (tick 0) */
+const Q96 = 2n ** 96n;
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "A/B UniV3",
+    dex: "uniswap_v3",
+    poolAddress: ADDR.POOL_V3,
+    token0: ADDR.TOKEN_A,
+    token1: ADDR.TOKEN_B,
+    decimals0: 18,
+    decimals1: 18,
+    feeTier: 500,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(pool: PoolConfig, price: number): PriceSnapshot {
+  return { pool, price, inversePrice: 1 / price, blockNumber: 1, timestamp: Date.now() };
+}
+
+/**
+ * Multicall mock: every V3/Algebra pool trades at tick 0 with a TWAP mean tick
+ * of `twapTick`; the feed answers `oracleAnswer` (8 decimals) updated at `updatedAt`.
+ */
+function mockProvider(opts: {
+  twapTick?: number;
+  failTwap?: boolean;
+  oracleAnswer?: bigint;
+  updatedAt?: number;
+}) {
+  const calls: string[] = [];
+  const cumulatives = (): [bigint[], bigint[]] => [[0n, BigInt((opts.twapTick ?? 0) * WINDOW)], [0n, 0n]];
+
+  const handle = (callData: string): [boolean, string] => {
+    const fn = poolIface.parseTransaction({ data: callData })!;
+    calls.push(fn.name);
+    switch (fn.name) {
+      case "slot0":
+        return [true, poolIface.encodeFunctionResult("slot0", [Q96, 0, 0, 1, 1, 0, true])];
+      case "liquidity":
+        return [true, poolIface.encodeFunctionResult("liquidity", [10n ** 24n])];
+      case "observe":
+        if (opts.failTwap) return [false, "0x"];
+        return [true, poolIface.encodeFunctionResult("observe", cumulatives())];
+      case "getTimepoints": {
+        const [ticks] = cumulatives();
+        return [true, poolIface.encodeFunctionResult("getTimepoints", [ticks, [0n, 0n], [0n, 0n], [0n, 0n]])];
+      }
+      case "latestRoundData":
+        return [true, poolIface.encodeFunctionResult("latestRoundData", [
+          1n, opts.oracleAnswer ?? 100_000_000n, 0n, BigInt(opts.updatedAt ?? NOW), 1n,
+        ])];
+      case "decimals":
+        return [true, poolIface.encodeFunctionResult("decimals", [8])];
+      default:
+        throw new Error(`Unexpected call ${fn.name}`);
+    }
+  };
+
+  const provider = {
+    getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        throw new Error("Expected multicall");
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => handle(c.callData));
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+
+  return { provider, calls };
+}
+
+function makeGuard(provider: any, overrides: Partial<PriceSanityGuardConfig> = {}): PriceSanityGuard {
+  return new PriceSanityGuard({
+    provider,
+    twapWindowSeconds: WINDOW,
+    oracleFeeds: [],
+    maxOracleAgeSeconds: 3_600,
+    maxDeviationPercent: 5,
+    pairDeviationPercent: {},
+    ...overrides,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("PriceSanityGuard", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should flag a spot price outside the band around the pool's TWAP", async () => {
+    const pool = makePool();
+    const guard = makeGuard(mockProvider({ twapTick: -1_000 }).provider);
+
+    await guard.refresh([pool]);
+    const flag = guard.check(makeSnapshot(pool, 1));
+
+    expect(flag).toBeDefined();
+    expect(flag!.source).toBe("twap");
+    expect(flag!.referencePrice).toBeCloseTo(1.0001 ** -1_000, 10);
+    expect(flag!.deviationPercent).toBeCloseTo((1 / 1.0001 ** -1_000 - 1) * 100, 6);
+    expect(flag!.maxDeviationPercent).toBe(5);
+  });
+
+  it("should pass a spot price within the band", async () => {
+    const pool = makePool();
+    const guard = makeGuard(mockProvider({ twapTick: -100 }).provider);
+
+    await guard.refresh([pool]);
+
+    expect(guard.check(makeSnapshot(pool, 1))).toBeUndefined();
+  });
+
+  it("should round the mean tick toward negative infinity", async () => {
+    const pool = makePool();
+    const { provider } = mockProvider({});
+    // Cumulative delta of -1 over the window: mean tick -1, not 0
+    provider.call.mockImplementation(async (tx: { data: string }) => {
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      return mcIface.encodeFunctionResult("aggregate3", [
+        batch.map(() => [true, poolIface.encodeFunctionResult("observe", [[0n, -1n], [0n, 0n]])]),
+      ]);
+    });
+    const guard = makeGuard(provider, { maxDeviationPercent: 0 });
+
+    await guard.refresh([pool]);
+
+    expect(guard.check(makeSnapshot(pool, 1))!.referencePrice).toBeCloseTo(1 / 1.0001, 12);
+  });
+
+  it("should read Algebra pools through getTimepoints", async () => {
+    const pool = makePool({ dex: "camelot_v3", poolAddress: ADDR.POOL_ALGEBRA, feeTier: undefined });
+    const { provider, calls } = mockProvider({ twapTick: -1_000 });
+    const guard = makeGuard(provider);
+
+    await guard.refresh([pool]);
+
+    expect(calls).toEqual(["getTimepoints"]);
+    expect(guard.check(makeSnapshot(pool, 1))?.source).toBe("twap");
+  });
+
+  it("should apply per-pair bands keyed in either token order", async () => {
+    const pool = makePool();
+    const guard = makeGuard(mockProvider({ twapTick: -1_000 }).provider, {
+      pairDeviationPercent: { [`${ADDR.TOKEN_B.toUpperCase()}/${ADDR.TOKEN_A}`]: 15 },
+    });
+
+    await guard.refresh([pool]);
+
+    expect(guard.bandFor(pool)).toBe(15);
+    expect(guard.check(makeSnapshot(pool, 1))).toBeUndefined();
+  });
+
+  it("should drop the TWAP reference when observe fails", async () => {
+    const pool = makePool();
+    const opts = { twapTick: -1_000, failTwap: false };
+    const guard = makeGuard(mockProvider(opts).provider);
+    await guard.refresh([pool]);
+    expect(guard.check(makeSnapshot(pool, 1))).toBeDefined();
+
+    opts.failTwap = true;
+    await guard.refresh([pool]);
+
+    expect(guard.check(makeSnapshot(pool, 1))).toBeUndefined();
+  });
+
+  it("should check every pool of a pair against its oracle feed, in either orientation", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW * 1000);
+    const v2Pool = makePool({ dex: "uniswap_v2", poolAddress: ADDR.POOL_V2, feeTier: undefined });
+    const guard = makeGuard(mockProvider({ oracleAnswer: 200_000_000n }).provider, {
+      twapWindowSeconds: 0,
+      oracleFeeds: [{ feed: ADDR.FEED, base: ADDR.TOKEN_B, quote: ADDR.TOKEN_A }],
+    });
+
+    await guard.refresh([v2Pool]);
+
+    // Feed prices B at 2 A, so A is worth 0.5 B
+    expect(guard.check(makeSnapshot(v2Pool, 0.5))).toBeUndefined();
+    const flag = guard.check(makeSnapshot(v2Pool, 0.6));
+    expect(flag?.source).toBe("oracle");
+    expect(flag?.referencePrice).toBeCloseTo(0.5, 12);
+  });
+
+  it("should ignore stale oracle answers", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW * 1000);
+    const pool = makePool();
+    const guard = makeGuard(mockProvider({ updatedAt: NOW - 7_200 }).provider, {
+      twapWindowSeconds: 0,
+      oracleFeeds: [{ feed: ADDR.FEED, base: ADDR.TOKEN_A, quote: ADDR.TOKEN_B }],
+    });
+
+    await guard.refresh([pool]);
+
+    expect(guard.check(makeSnapshot(pool, 5))).toBeUndefined();
+  });
+});
+
+describe("PriceMonitor price sanity", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should not read references when no TWAP window or feed is configured", async () => {
+    const { provider, calls } = mockProvider({ twapTick: -1_000 });
+    monitor = new PriceMonitor({ provider, pools: [makePool()] });
+
+    await monitor.poll();
+
+    expect(calls).not.toContain("observe");
+    expect(monitor.getSnapshot(ADDR.POOL_V3)!.suspectedManipulation).toBeUndefined();
+  });
+
+  it("should flag snapshots that stray from their TWAP and still emit them", async () => {
+    const { provider } = mockProvider({ twapTick: -1_000 });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], twapWindowSeconds: WINDOW });
+    const updates: PriceSnapshot[] = [];
+    monitor.on("priceUpdate", (s) => updates.push(s));
+
+    await monitor.poll();
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].suspectedManipulation?.source).toBe("twap");
+  });
+
+  it("should ignore spreads above maxSpreadPercent", async () => {
+    const cheap = makeSnapshot(makePool(), 1);
+    const dear = makeSnapshot(makePool({ label: "A/B V2", dex: "uniswap_v2", poolAddress: ADDR.POOL_V2 }), 1.1);
+    const emitted = (maxSpreadPercent?: number): number => {
+      monitor = new PriceMonitor({ provider: mockProvider({}).provider, pools: [], maxSpreadPercent });
+      const deltas: PriceDelta[] = [];
+      monitor.on("opportunity", (d) => deltas.push(d));
+      (monitor as any).snapshots.set(ADDR.POOL_V3, cheap);
+      (monitor as any).snapshots.set(ADDR.POOL_V2, dear);
+      (monitor as any).detectOpportunities(new Set([ADDR.POOL_V3, ADDR.POOL_V2]));
+      return deltas.length;
+    };
+
+    expect(emitted()).toBe(1);
+    expect(emitted(5)).toBe(0);
+  });
+});
+
+describe("OpportunityDetector price sanity", () => {
+  it("should reject deltas built on a flagged snapshot", () => {
+    const detector = new OpportunityDetector({ minProfitThreshold: 0, gasPriceGwei: 0 });
+    const rejections: string[] = [];
+    detector.on("opportunityRejected", (reason: string) => rejections.push(reason));
+    const buy: PriceSnapshot = {
+      ...makeSnapshot(makePool(), 1),
+      suspectedManipulation: { source: "twap", referencePrice: 1.05, deviationPercent: 4.76, maxDeviationPercent: 3 },
+    };
+    const sell = makeSnapshot(makePool({ label: "A/B V2", dex: "uniswap_v2", poolAddress: ADDR.POOL_V2 }), 1.05);
+
+    const result = detector.analyzeDelta({ pair: "A/B", buyPool: buy, sellPool: sell, deltaPercent: 5, timestamp: Date.now() });
+
+    expect(result).toBeNull();
+    expect(rejections).toHaveLength(1);
+    expect(rejections[0]).toMatch(/^Price manipulation suspected: A\/B UniV3/);
+    expect(rejections[0]).toContain("twap");
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
 import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
 import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
@@ -120,22 +120,30 @@ describe("Ramses V3 Price Reading", () => {
   });
 });
 
-describe("Ramses Profit Threshold", () => {
-  let detector: OpportunityDetector;
-
-  beforeEach(() => {
-    detector = new OpportunityDetector({ minProfitThreshold: 0.01 });
-  });
-
+describe("Ramses and Camelot V3 live fees", () => {
   const WETH = "0x82af49447d8a07e3bd95bd0d56f35241523fbab1";
   const USDC = "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8";
-
-  function makeSnapshot(dex: "ramses_v3" | "uniswap_v3", price: number): PriceSnapshot {
+  const RAMSES_POOL = "0x1111000000000000000000000000000000000000";
+  const CAMELOT_POOL = "0x3333000000000000000000000000000000000000";
+  const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+  const mcIface = new Interface([
+    "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+  ]);
+  const poolIface = new Interface([
+    "function slot0() view returns (uint160, int24, uint16, uint16, uint16, uint8, bool)",
+    "function globalState() view returns (uint160, int24, uint16, uint16, uint16, uint8, uint8)",
+    "function liquidity() view returns (uint128)",
+    "function fee() view returns (uint24)",
+  ]);
+  const SQRT_PRICE_2000 = BigInt("3543191142285914000000000");
+
+  function makeSnapshot(dex: "ramses_v3" | "camelot_v3" | "uniswap_v3", price: number, extra: Partial<PriceSnapshot> = {}): PriceSnapshot {
     return {
       pool: {
         label: `WETH/USDC ${dex}`,
         dex,
-        poolAddress: `0x${dex === "ramses_v3" ? "1111" : "2222"}000000000000000000000000000000000000`,
+        poolAddress: dex === "ramses_v3" ? RAMSES_POOL : dex === "camelot_v3" ? CAMELOT_POOL : "0x2222000000000000000000000000000000000000",
         token0: WETH,
         token1: USDC,
         decimals0: 18,
@@ -146,91 +154,111 @@ describe("Ramses Profit Threshold", () => {
       inversePrice: 1 / price,
       blockNumber: 19_000_000,
       timestamp: Date.now(),
+      ...extra,
     };
   }
 
-  describe("involvesRamses helper", () => {
-    it("should detect Ramses on buy side", () => {
-      const delta: PriceDelta = {
-        pair: "weth/usdc",
-        buyPool: makeSnapshot("ramses_v3", 2000),
-        sellPool: makeSnapshot("uniswap_v3", 2020),
-        deltaPercent: 1.0,
-        timestamp: Date.now(),
-      };
-
-      const result = (detector as any).involvesRamses(delta);
-      expect(result).toBe(true);
-    });
+  /** Multicall mock answering slot0/globalState/liquidity/fee; fee() reverts when ramsesFee is undefined */
+  function multicallProvider(ramsesFee?: number) {
+    const handle = (callData: string): [boolean, string] => {
+      const fn = poolIface.parseTransaction({ data: callData })!;
+      switch (fn.name) {
+        case "slot0":
+          return [true, poolIface.encodeFunctionResult("slot0", [SQRT_PRICE_2000, -200_311, 0, 0, 0, 0, true])];
+        case "globalState":
+          return [true, poolIface.encodeFunctionResult("globalState", [SQRT_PRICE_2000, -200_311, 150, 900, 0, 0, 0])];
+        case "liquidity":
+          return [true, poolIface.encodeFunctionResult("liquidity", [10n ** 18n])];
+        case "fee":
+          if (ramsesFee === undefined) return [false, "0x"];
+          return [true, poolIface.encodeFunctionResult("fee", [ramsesFee])];
+        default:
+          throw new Error(`Unexpected call ${fn.name}`);
+      }
+    };
+    return {
+      getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+      call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+        if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) throw new Error("Expected multicall");
+        const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+        return mcIface.encodeFunctionResult("aggregate3", [batch.map((c: { callData: string }) => handle(c.callData))]);
+      }),
+    } as any;
+  }
 
-    it("should detect Ramses on sell side", () => {
-      const delta: PriceDelta = {
-        pair: "weth/usdc",
-        buyPool: makeSnapshot("uniswap_v3", 2000),
-        sellPool: makeSnapshot("ramses_v3", 2020),
-        deltaPercent: 1.0,
-        timestamp: Date.now(),
-      };
-
-      const result = (detector as any).involvesRamses(delta);
-      expect(result).toBe(true);
-    });
+  it("should read the current Ramses fee and Algebra directional fees", async () => {
+    const ramses = makeSnapshot("ramses_v3", 2000).pool;
+    const camelot = makeSnapshot("camelot_v3", 2000).pool;
+    const monitor = new PriceMonitor({ provider: multicallProvider(2_500), pools: [ramses, camelot] });
 
-    it("should return false when no Ramses pools involved", () => {
-      const delta: PriceDelta = {
-        pair: "weth/usdc",
-        buyPool: makeSnapshot("uniswap_v3", 2000),
-        sellPool: makeSnapshot("uniswap_v3", 2020),
-        deltaPercent: 1.0,
-        timestamp: Date.now(),
-      };
-
-      const result = (detector as any).involvesRamses(delta);
-      expect(result).toBe(false);
-    });
+    await monitor.poll();
+
+    expect(monitor.getSnapshot(RAMSES_POOL)!.lpFee).toBe(2_500);
+    expect(monitor.getSnapshot(CAMELOT_POOL)!.algebraFees).toEqual({ zeroForOne: 150, oneForZero: 900 });
   });
 
-  describe("2x threshold application", () => {
-    it("should apply 2x threshold for opportunities involving Ramses", () => {
-      const delta: PriceDelta = {
-        pair: "weth/usdc",
-        buyPool: makeSnapshot("ramses_v3", 2000),
-        sellPool: makeSnapshot("uniswap_v3", 2020),
-        deltaPercent: 1.0,
-        timestamp: Date.now(),
-      };
-
-      const rejected: string[] = [];
-      detector.on("opportunityRejected", (msg) => rejected.push(msg));
-
-      const result = detector.analyzeDelta(delta);
-
-      // With 2x threshold (0.02 instead of 0.01), a 1% spread is likely to be rejected
-      // because of fees, slippage, and gas costs. Verify the rejection message.
-      if (result === null) {
-        expect(rejected.length).toBeGreaterThan(0);
-        expect(rejected[0]).toContain("2x for Ramses");
-      }
-    });
+  it("should keep the Ramses snapshot without a fee when fee() fails", async () => {
+    const ramses = makeSnapshot("ramses_v3", 2000).pool;
+    const monitor = new PriceMonitor({ provider: multicallProvider(), pools: [ramses] });
+
+    await monitor.poll();
 
-    it("should use standard threshold for non-Ramses opportunities", () => {
-      const delta: PriceDelta = {
-        pair: "weth/usdc",
-        buyPool: makeSnapshot("uniswap_v3", 2000),
-        sellPool: makeSnapshot("uniswap_v3", 2020),
-        deltaPercent: 1.0,
-        timestamp: Date.now(),
-      };
+    expect(monitor.getSnapshot(RAMSES_POOL)!.price).toBeGreaterThan(1900);
+    expect(monitor.getSnapshot(RAMSES_POOL)!.lpFee).toBeUndefined();
+  });
 
-      const rejected: string[] = [];
-      detector.on("opportunityRejected", (msg) => rejected.push(msg));
+  it("should charge the direction-appropriate Algebra fee", () => {
+    const detector = new OpportunityDetector();
+    const algebraFees = { zeroForOne: 150, oneForZero: 900 };
+    const delta: PriceDelta = {
+      pair: "weth/usdc",
+      buyPool: makeSnapshot("camelot_v3", 2000, { algebraFees }),
+      sellPool: makeSnapshot("camelot_v3", 2020, { algebraFees }),
+      deltaPercent: 1.0,
+      timestamp: Date.now(),
+    };
 
-      detector.analyzeDelta(delta);
+    const path = detector.buildSwapPath(delta);
 
-      // Verify rejection message does NOT contain "2x for Ramses"
-      if (rejected.length > 0) {
-        expect(rejected[0]).not.toContain("2x for Ramses");
-      }
-    });
+    // Buy step sells token1 (oneForZero), sell step sells token0 (zeroForOne)
+    expect(path.steps[0].lpFee).toBe(900);
+    expect(path.steps[1].lpFee).toBe(150);
+    expect((detector as any).getSwapFeeRate(path.steps[0])).toBeCloseTo(0.0009, 10);
+  });
+
+  it("should use the live Ramses fee instead of feeTier", () => {
+    const detector = new OpportunityDetector();
+    const delta: PriceDelta = {
+      pair: "weth/usdc",
+      buyPool: makeSnapshot("ramses_v3", 2000, { lpFee: 10_000 }),
+      sellPool: makeSnapshot("uniswap_v3", 2020),
+      deltaPercent: 1.0,
+      timestamp: Date.now(),
+    };
+
+    const path = detector.buildSwapPath(delta);
+
+    expect((detector as any).getSwapFeeRate(path.steps[0])).toBeCloseTo(0.01, 10);
+    expect((detector as any).getSwapFeeRate(path.steps[1])).toBeCloseTo(0.0005, 10);
+  });
+
+  it("should apply the standard threshold to Ramses opportunities", () => {
+    const detector = new OpportunityDetector({ minProfitThreshold: 0.01 });
+    const delta: PriceDelta = {
+      pair: "weth/usdc",
+      buyPool: makeSnapshot("ramses_v3", 2000, { lpFee: 500 }),
+      sellPool: makeSnapshot("uniswap_v3", 2020),
+      deltaPercent: 1.0,
+      timestamp: Date.now(),
+    };
+
+    const rejected: string[] = [];
+    detector.on("opportunityRejected", (msg) => rejected.push(msg));
+
+    detector.analyzeDelta(delta);
+
+    for (const msg of rejected) {
+      expect(msg).not.toContain("Ramses");
+    }
   });
 });
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { BlockHashTracker } from "../../src/monitor/BlockHashTracker.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import type { PoolConfig, PriceSnapshot, ReorgEvent } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+  POOL_V2: "0x0000000000000000000000000000000000000001",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const pairIface = new Interface(["function getReserves() view returns (uint112, uint112, uint32)"]);
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC UniV2",
+    dex: "uniswap_v2",
+    poolAddress: ADDR.POOL_V2,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    ...overrides,
+  };
+}
+
+/** Deterministic fake block hash for a block on a given fork */
+function hashOf(fork: string, n: number): string {
+  return "0x" + Buffer.from(`${fork}:${n}`).toString("hex").padEnd(64, "0");
+}
+
+/**
+ * A chain whose blocks up to `forkAt` are shared and whose later blocks
+ * belong to the currently selected fork ("a" or "b").
+ */
+function mockChain() {
+  const chain = { fork: "a", forkAt: Infinity, head: 100 };
+  const hashAt = (n: number) => hashOf(n > chain.forkAt ? chain.fork : "a", n);
+  const getBlock = vi.fn(async (n: number) =>
+    n > chain.head ? null : { number: n, hash: hashAt(n), parentHash: hashAt(n - 1) },
+  );
+  return { chain, getBlock, hashAt };
+}
+
+/** Multicall provider for a single V2 pool on top of a mock chain */
+function mockProvider(chain: ReturnType<typeof mockChain>) {
+  return {
+    getBlockNumber: vi.fn(async () => chain.chain.head),
+    getBlock: chain.getBlock,
+    call: vi.fn(async (tx: { to?: string; data: string; blockTag?: number }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) throw new Error("Expected multicall");
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map(() => [
+        true,
+        pairIface.encodeFunctionResult("getReserves", [1000n * 10n ** 18n, 2_000_000n * 10n ** 6n, 0]),
+      ]);
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+function snapshotAt(blockNumber: number, timestamp: number): PriceSnapshot {
+  return { pool: makePool(), price: 2000, inversePrice: 1 / 2000, blockNumber, timestamp };
+}
+
+// ---------------------------------------------------------------------------
+// BlockHashTracker
+// ---------------------------------------------------------------------------
+
+describe("BlockHashTracker", () => {
+  it("should report no reorg while the chain only extends", async () => {
+    const chain = mockChain();
+    const tracker = new BlockHashTracker({ provider: { getBlock: chain.getBlock } as any, depth: 64 });
+
+    for (let n = 98; n <= 100; n++) {
+      chain.chain.head = n;
+      expect((await tracker.observe(n))!.orphaned).toBeNull();
+    }
+    expect(tracker.get(100)).toBe(chain.hashAt(100));
+  });
+
+  it("should detect a different hash at an already observed height", async () => {
+    const chain = mockChain();
+    const tracker = new BlockHashTracker({ provider: { getBlock: chain.getBlock } as any, depth: 64 });
+    await tracker.observe(99);
+    await tracker.observe(100);
+
+    chain.chain.fork = "b";
+    chain.chain.forkAt = 99;
+    const observation = await tracker.observe(100);
+
+    expect(observation!.orphaned).toEqual({ fromBlock: 100, toBlock: 100 });
+    expect(tracker.get(100)).toBe(hashOf("b", 100));
+  });
+
+  it("should walk back to the fork point when the parent hash mismatches", async () => {
+    const chain = mockChain();
+    const tracker = new BlockHashTracker({ provider: { getBlock: chain.getBlock } as any, depth: 64 });
+    for (let n = 100; n <= 103; n++) {
+      chain.chain.head = n;
+      await tracker.observe(n);
+    }
+
+    // New fork diverges after block 100
+    chain.chain.fork = "b";
+    chain.chain.forkAt = 100;
+    chain.chain.head = 104;
+    const observation = await tracker.observe(104);
+
+    expect(observation!.orphaned).toEqual({ fromBlock: 101, toBlock: 103 });
+    expect(tracker.get(100)).toBe(hashOf("a", 100));
+    expect(tracker.get(102)).toBe(hashOf("b", 102));
+  });
+
+  it("should orphan tracked blocks above a replaced lower block", async () => {
+    const chain = mockChain();
+    const tracker = new BlockHashTracker({ provider: { getBlock: chain.getBlock } as any, depth: 64 });
+    for (let n = 100; n <= 102; n++) {
+      chain.chain.head = n;
+      await tracker.observe(n);
+    }
+
+    // Lagging read of block 101 on a fork that replaced it
+    chain.chain.fork = "b";
+    chain.chain.forkAt = 100;
+    const observation = await tracker.observe(101);
+
+    expect(observation!.orphaned).toEqual({ fromBlock: 101, toBlock: 102 });
+    expect(tracker.get(102)).toBeUndefined();
+  });
+
+  it("should only keep hashes within the configured depth", async () => {
+    const chain = mockChain();
+    const tracker = new BlockHashTracker({ provider: { getBlock: chain.getBlock } as any, depth: 2 });
+    for (let n = 98; n <= 100; n++) {
+      chain.chain.head = n;
+      await tracker.observe(n);
+    }
+
+    expect(tracker.get(98)).toBeUndefined();
+    expect(tracker.get(99)).toBeDefined();
+  });
+
+  it("should return null when the node does not have the block", async () => {
+    const chain = mockChain();
+    const tracker = new BlockHashTracker({ provider: { getBlock: chain.getBlock } as any, depth: 64 });
+    expect(await tracker.observe(101)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PriceMonitor
+// ---------------------------------------------------------------------------
+
+describe("PriceMonitor reorg detection", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should not read block headers when reorgDepth is 0 (default)", async () => {
+    const chain = mockChain();
+    const provider = mockProvider(chain);
+    monitor = new PriceMonitor({ provider, pools: [makePool()] });
+
+    await monitor.poll();
+
+    expect(chain.getBlock).not.toHaveBeenCalled();
+    expect(monitor.getSnapshot(ADDR.POOL_V2)!.blockHash).toBeUndefined();
+  });
+
+  it("should record the block hash and pin reads to the polled block", async () => {
+    const chain = mockChain();
+    const provider = mockProvider(chain);
+    monitor = new PriceMonitor({ provider, pools: [makePool()], reorgDepth: 16 });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(ADDR.POOL_V2)!;
+    expect(snapshot.blockHash).toBe(chain.hashAt(100));
+    expect(provider.call.mock.calls[0][0].blockTag).toBe(100);
+  });
+
+  it("should emit reorg and drop orphaned snapshots before re-reading", async () => {
+    const chain = mockChain();
+    const provider = mockProvider(chain);
+    monitor = new PriceMonitor({ provider, pools: [makePool()], reorgDepth: 16 });
+    await monitor.poll();
+
+    const reorgs: ReorgEvent[] = [];
+    let snapshotDuringReorg: PriceSnapshot | undefined = undefined;
+    monitor.on("reorg", (reorg: ReorgEvent) => {
+      reorgs.push(reorg);
+      snapshotDuringReorg = monitor.getSnapshot(ADDR.POOL_V2);
+    });
+
+    chain.chain.fork = "b";
+    chain.chain.forkAt = 99;
+    chain.chain.head = 101;
+    await monitor.poll();
+
+    expect(reorgs).toHaveLength(1);
+    expect(reorgs[0]).toMatchObject({ fromBlock: 100, toBlock: 100 });
+    expect(snapshotDuringReorg).toBeUndefined();
+    // Re-read at the new head on the new fork
+    expect(monitor.getSnapshot(ADDR.POOL_V2)!.blockHash).toBe(hashOf("b", 101));
+  });
+
+  it("should not emit reorg while polls follow one chain", async () => {
+    const chain = mockChain();
+    const provider = mockProvider(chain);
+    monitor = new PriceMonitor({ provider, pools: [makePool()], reorgDepth: 16 });
+    const onReorg = vi.fn();
+    monitor.on("reorg", onReorg);
+
+    await monitor.poll();
+    chain.chain.head = 101;
+    await monitor.poll();
+
+    expect(onReorg).not.toHaveBeenCalled();
+    expect(monitor.getSnapshot(ADDR.POOL_V2)!.blockNumber).toBe(101);
+  });
+
+  it("should treat retracted logs as a reorg and re-read every pool", async () => {
+    const chain = mockChain();
+    const provider = mockProvider(chain);
+    monitor = new PriceMonitor({ provider, pools: [makePool()] });
+    await monitor.poll();
+    const pollSpy = vi.spyOn(monitor, "poll");
+
+    const reorgs: ReorgEvent[] = [];
+    monitor.on("reorg", (reorg: ReorgEvent) => reorgs.push(reorg));
+
+    const retracted = { address: ADDR.POOL_V2, topics: [], data: "0x", removed: true };
+    monitor.applyPoolLog({ ...retracted, blockNumber: 100 });
+    monitor.applyPoolLog({ ...retracted, blockNumber: 99 });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(reorgs).toHaveLength(1);
+    expect(reorgs[0]).toMatchObject({ fromBlock: 99, toBlock: 100 });
+    expect(pollSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpportunityDetector
+// ---------------------------------------------------------------------------
+
+describe("OpportunityDetector orphan checks", () => {
+  function opportunityAt(buyBlock: number, sellBlock: number, timestamp: number) {
+    return {
+      priceDelta: { buyPool: snapshotAt(buyBlock, timestamp), sellPool: snapshotAt(sellBlock, timestamp) },
+    } as any;
+  }
+
+  function attachedDetector() {
+    const monitor = new PriceMonitor({ provider: {} as any, pools: [] });
+    const detector = new OpportunityDetector();
+    detector.attach(monitor);
+    return { monitor, detector };
+  }
+
+  it("should flag opportunities built on orphaned blocks before the reorg", () => {
+    const { monitor, detector } = attachedDetector();
+    monitor.emit("reorg", { fromBlock: 100, toBlock: 101, timestamp: 2_000 });
+
+    expect(detector.isOrphaned(opportunityAt(99, 100, 1_000))).toBe(true);
+    expect(detector.isOrphaned(opportunityAt(99, 99, 1_000))).toBe(false);
+  });
+
+  it("should not flag state read after the reorg was detected", () => {
+    const { monitor, detector } = attachedDetector();
+    monitor.emit("reorg", { fromBlock: 100, toBlock: 101, timestamp: 2_000 });
+
+    expect(detector.isOrphaned(opportunityAt(101, 101, 3_000))).toBe(false);
+  });
+
+  it("should forget reorgs after detaching", () => {
+    const { monitor, detector } = attachedDetector();
+    monitor.emit("reorg", { fromBlock: 100, toBlock: 101, timestamp: 2_000 });
+    detector.detach();
+
+    expect(detector.isOrphaned(opportunityAt(100, 100, 1_000))).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import type { PoolConfig } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+  POOL_V3: "0x0000000000000000000000000000000000000002",
+  POOL_CAMELOT_V3: "0x0000000000000000000000000000000000000005",
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const poolIface = new Interface([
+  "function slot0() view returns (uint160, int24, uint16, uint16, uint16, uint8, bool)",
+  "function globalState() view returns (uint160, int24, uint16, uint16, uint16, uint8, uint8)",
+  "function liquidity() view returns (uint128)",
+  "function tickSpacing() view returns (int24)",
+  "function tickBitmap(int16) view returns (uint256)",
+  "function tickTable(int16) view returns (uint256)",
+  "function ticks(int24) view returns (uint128, int128, uint256, uint256, int56, uint160, uint32, bool)",
+]);
+
+const SQRT_PRICE_2000 = BigInt("3543191142285914000000000");
+// Tick of the ~2000 USDC/WETH price above (token0 = WETH 18d, token1 = USDC 6d)
+const CURRENT_TICK = -200_311;
+const TICK_SPACING = 10;
+
+function makePool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC UniV3",
+    dex: "uniswap_v3",
+    poolAddress: ADDR.POOL_V3,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    feeTier: 500,
+    ...overrides,
+  };
+}
+
+/**
+ * Multicall mock for a V3 pool with initialized ticks at the given
+ * (spaced) ticks. Records every inner call by function name.
+ */
+function tickMockProvider(opts: {
+  initialized: Record<number, bigint>;
+  tick?: () => number;
+}) {
+  const calls: string[] = [];
+
+  const handle = (callData: string): string => {
+    const fn = poolIface.parseTransaction({ data: callData })!;
+    calls.push(fn.name);
+    switch (fn.name) {
+      case "slot0":
+        return poolIface.encodeFunctionResult("slot0", [SQRT_PRICE_2000, opts.tick?.() ?? CURRENT_TICK, 0, 0, 0, 0, true]);
+      case "globalState":
+        return poolIface.encodeFunctionResult("globalState", [SQRT_PRICE_2000, opts.tick?.() ?? CURRENT_TICK, 100, 100, 0, 0, 0]);
+      case "liquidity":
+        return poolIface.encodeFunctionResult("liquidity", [10n ** 18n]);
+      case "tickSpacing":
+        return poolIface.encodeFunctionResult("tickSpacing", [TICK_SPACING]);
+      case "tickBitmap":
+      case "tickTable": {
+        const word = Number(fn.args[0]);
+        let bitmap = 0n;
+        for (const t of Object.keys(opts.initialized).map(Number)) {
+          const compressed = Math.floor(t / TICK_SPACING);
+          if (Math.floor(compressed / 256) === word) {
+            bitmap |= 1n << BigInt(((compressed % 256) + 256) % 256);
+          }
+        }
+        return poolIface.encodeFunctionResult(fn.name, [bitmap]);
+      }
+      case "ticks": {
+        const net = opts.initialized[Number(fn.args[0])] ?? 0n;
+        return poolIface.encodeFunctionResult("ticks", [0n, net, 0n, 0n, 0n, 0n, 0, true]);
+      }
+      default:
+        throw new Error(`Unexpected call ${fn.name}`);
+    }
+  };
+
+  const provider = {
+    getBlockNumber: vi.fn().mockResolvedValue(19_000_000),
+    call: vi.fn().mockImplementation(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        throw new Error("Expected multicall");
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => [true, handle(c.callData)]);
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+
+  return { provider, calls };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("PriceMonitor tick-level liquidity", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should not read ticks when tickBitmapWords is 0 (default)", async () => {
+    const { provider, calls } = tickMockProvider({ initialized: { [-200_320]: 5n } });
+    monitor = new PriceMonitor({ provider, pools: [makePool()] });
+
+    await monitor.poll();
+
+    expect(calls).not.toContain("tickBitmap");
+    expect(monitor.getSnapshot(ADDR.POOL_V3)!.tickLiquidity).toBeUndefined();
+    expect(monitor.getSnapshot(ADDR.POOL_V3)!.tick).toBe(CURRENT_TICK);
+  });
+
+  it("should attach initialized ticks around the current tick", async () => {
+    const { provider } = tickMockProvider({
+      initialized: { [-200_320]: 5n, [-200_000]: -7n, [-195_000]: 1n },
+    });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], tickBitmapWords: 1 });
+
+    await monitor.poll();
+
+    const window = monitor.getSnapshot(ADDR.POOL_V3)!.tickLiquidity!;
+    expect(window.tickSpacing).toBe(TICK_SPACING);
+    // compressed -20032 → word -79; window covers words -80..-78
+    expect(window.lowerTick).toBe(-80 * 256 * TICK_SPACING);
+    expect(window.upperTick).toBe((-78 * 256 + 255) * TICK_SPACING);
+    // -195000 lies outside the ±1 word window
+    expect(window.ticks).toEqual([
+      { tick: -200_320, liquidityNet: 5n },
+      { tick: -200_000, liquidityNet: -7n },
+    ]);
+    expect(window.blockNumber).toBe(19_000_000);
+  });
+
+  it("should reuse the cached window while the tick stays in the same word", async () => {
+    const { provider, calls } = tickMockProvider({ initialized: { [-200_320]: 5n } });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], tickBitmapWords: 1 });
+
+    await monitor.poll();
+    await monitor.poll();
+
+    expect(calls.filter((c) => c === "tickSpacing")).toHaveLength(1);
+    expect(calls.filter((c) => c === "tickBitmap")).toHaveLength(3);
+    expect(monitor.getSnapshot(ADDR.POOL_V3)!.tickLiquidity).toBeDefined();
+  });
+
+  it("should re-read the window when the tick moves to another word", async () => {
+    let tick = CURRENT_TICK;
+    const { provider, calls } = tickMockProvider({ initialized: { [-200_320]: 5n }, tick: () => tick });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], tickBitmapWords: 1 });
+
+    await monitor.poll();
+    tick = CURRENT_TICK + 2_560; // one word up
+    await monitor.poll();
+
+    expect(calls.filter((c) => c === "tickBitmap")).toHaveLength(6);
+    expect(calls.filter((c) => c === "tickSpacing")).toHaveLength(1);
+  });
+
+  it("should re-read the window after tickRefreshMs", async () => {
+    const { provider, calls } = tickMockProvider({ initialized: {} });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], tickBitmapWords: 1, tickRefreshMs: 0 });
+
+    await monitor.poll();
+    await monitor.poll();
+
+    expect(calls.filter((c) => c === "tickBitmap")).toHaveLength(6);
+  });
+
+  it("should read the Algebra tickTable for Camelot V3 pools", async () => {
+    const { provider, calls } = tickMockProvider({ initialized: { [-200_320]: 5n } });
+    const pool = makePool({ label: "WETH/USDC CamelotV3", dex: "camelot_v3", poolAddress: ADDR.POOL_CAMELOT_V3 });
+    monitor = new PriceMonitor({ provider, pools: [pool], tickBitmapWords: 1 });
+
+    await monitor.poll();
+
+    expect(calls).toContain("tickTable");
+    expect(calls).not.toContain("tickBitmap");
+    expect(monitor.getSnapshot(ADDR.POOL_CAMELOT_V3)!.tickLiquidity!.ticks).toHaveLength(1);
+  });
+
+  it("should still emit the price snapshot when tick reads fail", async () => {
+    const { provider } = tickMockProvider({ initialized: {} });
+    const inner = provider.call.getMockImplementation();
+    let round = 0;
+    provider.call.mockImplementation(async (tx: { to?: string; data: string }) => {
+      round++;
+      if (round > 1) throw new Error("rate limited");
+      return inner(tx);
+    });
+    monitor = new PriceMonitor({ provider, pools: [makePool()], tickBitmapWords: 1 });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(ADDR.POOL_V3)!;
+    expect(snapshot.sqrtPriceX96).toBe(SQRT_PRICE_2000);
+    expect(snapshot.tickLiquidity).toBeUndefined();
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { PriceMonitor } from "../../src/monitor/PriceMonitor.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import { hasHooks, poolStateKey } from "../../src/monitor/poolEvents.js";
+import type { PoolConfig, PriceDelta, PriceSnapshot } from "../../src/monitor/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ADDR = {
+  WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+  STATE_VIEW: "0x76Fd297e2D437cd7f76d50F01AfE6160f86e9990",
+  HOOKS: "0x0000000000000000000000000000000000004444",
+  UNI_V2: "0x0000000000000000000000000000000000000002",
+};
+
+const POOL_ID_STATIC = "0x864abca0a6202dba5b8868772308da953ff125b0f95015adbf89aaf579e903a8";
+const POOL_ID_DYNAMIC = "0x4a3c1ae0b31ae13a9a3b9e4f5d2c1b7a6e8f9d0c1b2a3948576a5b4c3d2e1f00";
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const mcIface = new Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+]);
+const stateViewIface = new Interface([
+  "function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)",
+  "function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)",
+]);
+
+/** sqrtPriceX96 for 2000 USDC per WETH (18 vs 6 decimals) */
+const SQRT_PRICE_2000 = BigInt(Math.floor(Math.sqrt(2000 * 1e-12) * 2 ** 96));
+
+const poolState: Record<string, { sqrtPriceX96: bigint; tick: number; lpFee: number; liquidity: bigint }> = {
+  [POOL_ID_STATIC]: { sqrtPriceX96: SQRT_PRICE_2000, tick: -200311, lpFee: 3000, liquidity: 10n ** 18n },
+  [POOL_ID_DYNAMIC]: { sqrtPriceX96: SQRT_PRICE_2000, tick: -200311, lpFee: 1200, liquidity: 2n * 10n ** 18n },
+};
+
+function makeV4Pool(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    label: "WETH/USDC UniV4 0.3%",
+    dex: "uniswap_v4",
+    poolAddress: ADDR.STATE_VIEW,
+    token0: ADDR.WETH,
+    token1: ADDR.USDC,
+    decimals0: 18,
+    decimals1: 6,
+    poolId: POOL_ID_STATIC,
+    feeTier: 3000,
+    tickSpacing: 60,
+    ...overrides,
+  };
+}
+
+const dynamicPool = makeV4Pool({
+  label: "WETH/USDC UniV4 dynamic",
+  poolId: POOL_ID_DYNAMIC,
+  feeTier: 0x800000,
+  hooks: ADDR.HOOKS,
+});
+
+/** Answer StateView getSlot0 / getLiquidity by PoolId */
+function answerStateView(data: string): string {
+  const call = stateViewIface.parseTransaction({ data })!;
+  const state = poolState[call.args[0]];
+  if (call.name === "getLiquidity") return stateViewIface.encodeFunctionResult("getLiquidity", [state.liquidity]);
+  return stateViewIface.encodeFunctionResult("getSlot0", [state.sqrtPriceX96, state.tick, 0, state.lpFee]);
+}
+
+/** Provider serving V4 pools over Multicall3 and direct eth_call */
+function mockProvider() {
+  return {
+    getBlockNumber: vi.fn(async () => 100),
+    call: vi.fn(async (tx: { to?: string; data: string }) => {
+      if (tx.to?.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        return answerStateView(tx.data);
+      }
+      const batch = mcIface.decodeFunctionData("aggregate3", tx.data)[0];
+      const results = batch.map((c: { callData: string }) => [true, answerStateView(c.callData)]);
+      return mcIface.encodeFunctionResult("aggregate3", [results]);
+    }),
+  } as any;
+}
+
+// ---------------------------------------------------------------------------
+// Pool identity
+// ---------------------------------------------------------------------------
+
+describe("Uniswap V4 pool identity", () => {
+  it("should key V4 pools by PoolId and other pools by address", () => {
+    expect(poolStateKey(makeV4Pool())).toBe(POOL_ID_STATIC);
+    expect(poolStateKey({ ...makeV4Pool(), dex: "uniswap_v3" })).toBe(ADDR.STATE_VIEW.toLowerCase());
+  });
+
+  it("should flag only V4 pools with a non-zero hooks contract", () => {
+    expect(hasHooks(dynamicPool)).toBe(true);
+    expect(hasHooks(makeV4Pool())).toBe(false);
+    expect(hasHooks(makeV4Pool({ hooks: "0x0000000000000000000000000000000000000000" }))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PriceMonitor
+// ---------------------------------------------------------------------------
+
+describe("PriceMonitor Uniswap V4 reads", () => {
+  let monitor: PriceMonitor;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it("should read slot0 and liquidity through StateView by PoolId", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeV4Pool()] });
+
+    await monitor.poll();
+
+    const batch = mcIface.decodeFunctionData("aggregate3", provider.call.mock.calls[0][0].data)[0];
+    const calls = batch.map((c: { target: string; callData: string }) => {
+      const parsed = stateViewIface.parseTransaction({ data: c.callData })!;
+      return [c.target.toLowerCase(), parsed.name, parsed.args[0]];
+    });
+    expect(calls).toEqual([
+      [ADDR.STATE_VIEW.toLowerCase(), "getSlot0", POOL_ID_STATIC],
+      [ADDR.STATE_VIEW.toLowerCase(), "getLiquidity", POOL_ID_STATIC],
+    ]);
+
+    const snapshot = monitor.getSnapshot(POOL_ID_STATIC)!;
+    expect(snapshot.price).toBeCloseTo(2000, 4);
+    expect(snapshot.liquidity).toBe(10n ** 18n);
+    expect(snapshot.tick).toBe(-200311);
+    expect(snapshot.lpFee).toBe(3000);
+  });
+
+  it("should keep separate snapshots for pools sharing the StateView", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeV4Pool(), dynamicPool] });
+
+    await monitor.poll();
+
+    expect(monitor.getSnapshot(POOL_ID_STATIC)!.lpFee).toBe(3000);
+    expect(monitor.getSnapshot(POOL_ID_DYNAMIC)!.lpFee).toBe(1200);
+    expect(monitor.getSnapshot(POOL_ID_DYNAMIC)!.liquidity).toBe(2n * 10n ** 18n);
+    expect(monitor.getAllSnapshots()).toHaveLength(2);
+  });
+
+  it("should read the same state through individual calls", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeV4Pool(), dynamicPool], useMulticall: false });
+
+    await monitor.poll();
+
+    const snapshot = monitor.getSnapshot(POOL_ID_DYNAMIC)!;
+    expect(snapshot.price).toBeCloseTo(2000, 4);
+    expect(snapshot.lpFee).toBe(1200);
+    expect(snapshot.liquidity).toBe(2n * 10n ** 18n);
+  });
+
+  it("should report V4 pools configured without a poolId", async () => {
+    const provider = mockProvider();
+    monitor = new PriceMonitor({ provider, pools: [makeV4Pool({ poolId: undefined })], useMulticall: false });
+    const onError = vi.fn();
+    monitor.on("error", onError);
+
+    await monitor.poll();
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining("missing poolId") }),
+      expect.anything(),
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpportunityDetector
+// ---------------------------------------------------------------------------
+
+describe("OpportunityDetector Uniswap V4 steps", () => {
+  function v4Snapshot(pool: PoolConfig, price: number): PriceSnapshot {
+    const state = poolState[pool.poolId!];
+    return {
+      pool,
+      price,
+      inversePrice: 1 / price,
+      blockNumber: 100,
+      timestamp: Date.now(),
+      sqrtPriceX96: state.sqrtPriceX96,
+      liquidity: state.liquidity,
+      tick: state.tick,
+      lpFee: state.lpFee,
+    };
+  }
+
+  function v2Snapshot(price: number): PriceSnapshot {
+    return {
+      pool: { ...makeV4Pool(), label: "WETH/USDC UniV2", dex: "uniswap_v2", poolAddress: ADDR.UNI_V2, poolId: undefined },
+      price,
+      inversePrice: 1 / price,
+      blockNumber: 100,
+      timestamp: Date.now(),
+    };
+  }
+
+  function delta(buyPool: PriceSnapshot, sellPool: PriceSnapshot): PriceDelta {
+    return {
+      pair: "weth/usdc",
+      buyPool,
+      sellPool,
+      deltaPercent: ((sellPool.price - buyPool.price) / buyPool.price) * 100,
+      timestamp: Date.now(),
+    };
+  }
+
+  it("should carry the PoolKey parts and the live fee on V4 steps", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(delta(v4Snapshot(dynamicPool, 2000), v2Snapshot(2010)));
+
+    expect(path.steps[0]).toMatchObject({
+      dex: "uniswap_v4",
+      poolId: POOL_ID_DYNAMIC,
+      feeTier: 0x800000,
+      tickSpacing: 60,
+      hooks: ADDR.HOOKS,
+      lpFee: 1200,
+    });
+    expect(path.steps[0].virtualReserveIn).toBeGreaterThan(0);
+  });
+
+  it("should charge the live LP fee of dynamic-fee pools", () => {
+    const detector = new OpportunityDetector();
+    const path = detector.buildSwapPath(delta(v4Snapshot(dynamicPool, 2000), v2Snapshot(2000)));
+
+    // 0.12% live fee on V4 + 0.3% on V2, same price on both; 1 ETH barely moves either pool
+    expect(detector.calculateGrossProfit(path, 1)).toBeCloseTo(0.9988 * 0.997 - 1, 7);
+  });
+
+  it("should fall back to 0.3% for a dynamic-fee pool without a live fee", () => {
+    const detector = new OpportunityDetector();
+    const { lpFee: _lpFee, ...snapshot } = v4Snapshot(dynamicPool, 2000);
+    const path = detector.buildSwapPath(delta(snapshot, v2Snapshot(2000)));
+
+    expect(detector.calculateGrossProfit(path, 1)).toBeCloseTo(0.997 * 0.997 - 1, 7);
+  });
+
+  it("should reject hooked pools by default", () => {
+    const detector = new OpportunityDetector({ minProfitThreshold: 0 });
+    const onRejected = vi.fn();
+    detector.on("opportunityRejected", onRejected);
+
+    const result = detector.analyzeDelta(delta(v4Snapshot(dynamicPool, 2000), v2Snapshot(2100)));
+
+    expect(result).toBeNull();
+    expect(onRejected).toHaveBeenCalledWith("Pool has hooks", expect.anything());
+  });
+
+  it("should double the profit threshold for hooked pools when they are allowed", () => {
+    const detector = new OpportunityDetector({ excludeHookedPools: false, minProfitThreshold: 1_000 });
+    const onRejected = vi.fn();
+    detector.on("opportunityRejected", onRejected);
+
+    detector.analyzeDelta(delta(v4Snapshot(dynamicPool, 2000), v2Snapshot(2100)));
+
+    expect(onRejected).toHaveBeenCalledWith(expect.stringContaining("(2x for hooked pool)"), expect.anything());
+  });
+
+  it("should not treat hook-free V4 pools as hooked", () => {
+    const detector = new OpportunityDetector({ minProfitThreshold: 1_000 });
+    const onRejected = vi.fn();
+    detector.on("opportunityRejected", onRejected);
+
+    detector.analyzeDelta(delta(v4Snapshot(makeV4Pool(), 2000), v2Snapshot(2100)));
+
+    expect(onRejected).toHaveBeenCalledTimes(1);
+    expect(onRejected.mock.calls[0][0]).not.toContain("hook");
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi } from "vitest";
+import { RiskPolicy } from "../../src/policy/RiskPolicy.js";
+import type { PolicyRule } from "../../src/policy/types.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import {
+  ADDRESSES,
+  makeProfitableDelta,
+  makeSnapshot,
+  makeSwapPath,
+  makeSwapStep,
+} from "../helpers/FixtureFactory.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const LB_POOL = "0x00000000000000000000000000000000000000b1";
+const HOOKS = "0x0000000000000000000000000000000000004444";
+
+/** WETH → USDC on Uniswap V2, USDC → WETH on Sushi */
+const path = makeSwapPath({
+  steps: [
+    makeSwapStep({ tokenIn: ADDRESSES.WETH, tokenOut: ADDRESSES.USDC, virtualReserveIn: 50 }),
+    makeSwapStep({ dex: "sushiswap", poolAddress: ADDRESSES.POOL_SUSHI, tokenIn: ADDRESSES.USDC, tokenOut: ADDRESSES.WETH }),
+  ],
+  baseToken: ADDRESSES.WETH,
+});
+
+/** Same path, but selling back into a Trader Joe LB pool */
+const lbPath = makeSwapPath({
+  steps: [
+    path.steps[0],
+    makeSwapStep({ dex: "traderjoe_lb", poolAddress: LB_POOL, tokenIn: ADDRESSES.USDC, tokenOut: ADDRESSES.WETH }),
+  ],
+  baseToken: ADDRESSES.WETH,
+});
+
+/** Same LB sale, bought on a hooked Uniswap V4 pool */
+const hookedPath = makeSwapPath({
+  steps: [lbPath.steps[1], makeSwapStep({ dex: "uniswap_v4", hooks: HOOKS, tokenIn: ADDRESSES.WETH, tokenOut: ADDRESSES.USDC })],
+  baseToken: ADDRESSES.WETH,
+});
+
+/** Noon on Wednesday 2026-01-07 (UTC) */
+const NOON = new Date("2026-01-07T12:00:00Z");
+
+function lbSnapshot(activeId: number, timestamp: number) {
+  return { ...makeSnapshot({ pool: { label: "WETH/USDC LB", dex: "traderjoe_lb", poolAddress: LB_POOL } }), activeId, timestamp };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("RiskPolicy", () => {
+  describe("profit multipliers", () => {
+    it("should raise the threshold 2x for hooked pools by default, and nothing else", () => {
+      const policy = new RiskPolicy();
+
+      expect(policy.screen(path, 1).profitMultiplier).toBe(1);
+      expect(policy.screen(lbPath, 1).profitMultiplier).toBe(1);
+      expect(policy.screen(hookedPath, 1)).toMatchObject({ profitMultiplier: 2, profitMultiplierRule: "hooked pool" });
+    });
+
+    it("should let configured rules replace a default by name and match pools, tokens and pairs", () => {
+      const policy = new RiskPolicy({
+        rules: [
+          { name: "hooked pool", kind: "profitMultiplier", match: { hooked: true }, multiplier: 1.1 },
+          { name: "Trader Joe LB", kind: "profitMultiplier", match: { dex: "traderjoe_lb" }, multiplier: 1.1 },
+          { name: "sushi pool", kind: "profitMultiplier", match: { pool: ADDRESSES.POOL_SUSHI }, multiplier: 1.5 },
+          { name: "usdc", kind: "profitMultiplier", match: { token: ADDRESSES.USDC.toLowerCase() }, multiplier: 1.2 },
+          { name: "weth/dai", kind: "profitMultiplier", match: { pair: `${ADDRESSES.DAI}/${ADDRESSES.WETH}` }, multiplier: 3 },
+        ],
+      });
+
+      const screen = policy.screen(lbPath, 1);
+      expect(screen).toMatchObject({ profitMultiplier: 1.2, profitMultiplierRule: "usdc" });
+      expect(screen.verdicts.map((v) => v.rule)).toEqual(["Trader Joe LB", "usdc"]);
+      expect(policy.screen(path, 1)).toMatchObject({ profitMultiplier: 1.5, profitMultiplierRule: "sushi pool" });
+      expect(policy.screen(hookedPath, 1).verdicts[0]).toMatchObject({ rule: "hooked pool", detail: "profit threshold 1.1x" });
+    });
+  });
+
+  it("should apply the smallest matching input cap", () => {
+    const policy = new RiskPolicy({
+      rules: [
+        { name: "lb size", kind: "maxInput", match: { dex: "traderjoe_lb" }, maxInputEth: 3 },
+        { name: "global size", kind: "maxInput", maxInputEth: 20 },
+      ],
+    });
+
+    expect(policy.screen(path, 1).maxInputEth).toBe(20);
+    expect(policy.screen(lbPath, 1).maxInputEth).toBe(3);
+  });
+
+  it("should reject pools below a liquidity floor, from observed or virtual reserves", () => {
+    const policy = new RiskPolicy({
+      rules: [{ name: "thin pools", kind: "minLiquidity", minLiquidityEth: 100 }],
+    });
+
+    // Step 0 sells 50 WETH of virtual reserve
+    expect(policy.screen(path, 1).rejection).toEqual({
+      rule: "thin pools",
+      kind: "minLiquidity",
+      outcome: "rejected",
+      detail: `pool ${ADDRESSES.POOL_UNI_V2} holds 50.0000 ETH (min 100 ETH)`,
+    });
+
+    // The monitor's viability measure wins over the virtual reserve
+    policy.observe({ ...makeSnapshot(), liquidityWeth: 500 });
+    expect(policy.screen(path, 1).rejection).toBeUndefined();
+    expect(policy.screen(path, 1).verdicts[0].outcome).toBe("accepted");
+  });
+
+  it("should keep each Uniswap V4 pool's liquidity apart and match V4 pools by PoolId", () => {
+    const stateView = "0x76fd297e2d437cd7f76d50f01afe6160f86e9990";
+    const [deepId, thinId] = ["0x" + "11".repeat(32), "0x" + "22".repeat(32)];
+    const v4Path = (poolId: string) => makeSwapPath({
+      steps: [
+        makeSwapStep({ dex: "uniswap_v4", poolAddress: stateView, poolId, tokenIn: ADDRESSES.WETH, tokenOut: ADDRESSES.USDC }),
+        path.steps[1],
+      ],
+      baseToken: ADDRESSES.WETH,
+    });
+    const v4Snapshot = (poolId: string, liquidityWeth: number) => ({
+      ...makeSnapshot({ pool: { dex: "uniswap_v4", poolAddress: stateView, poolId } }),
+      liquidityWeth,
+    });
+    const policy = new RiskPolicy({
+      rules: [
+        { name: "thin pools", kind: "minLiquidity", minLiquidityEth: 100 },
+        { name: "deep pool", kind: "profitMultiplier", match: { pool: deepId }, multiplier: 1.5 },
+      ],
+    });
+
+    policy.observe(v4Snapshot(deepId, 500));
+    policy.observe(v4Snapshot(thinId, 20));
+
+    const deep = policy.screen(v4Path(deepId), 1);
+    expect(deep.rejection).toBeUndefined();
+    expect(deep).toMatchObject({ profitMultiplier: 1.5, profitMultiplierRule: "deep pool" });
+    expect(policy.screen(v4Path(thinId), 1)).toMatchObject({
+      rejection: { rule: "thin pools", detail: `pool ${thinId} holds 20.0000 ETH (min 100 ETH)` },
+      profitMultiplier: 1,
+    });
+  });
+
+  it("should block trading inside a time window, including windows across midnight", () => {
+    const rules: PolicyRule[] = [
+      { name: "night", kind: "timeBlock", fromHourUtc: 22, toHourUtc: 2 },
+      { name: "weekday lunch", kind: "timeBlock", fromHourUtc: 12, toHourUtc: 13, days: [1, 2, 3, 4, 5] },
+    ];
+    const policy = new RiskPolicy({ rules });
+
+    expect(policy.screen(path, 1, NOON).rejection).toMatchObject({
+      rule: "weekday lunch",
+      detail: "trading blocked 12:00-13:00 UTC",
+    });
+    expect(policy.screen(path, 1, new Date("2026-01-07T23:30:00Z")).rejection?.rule).toBe("night");
+    expect(policy.screen(path, 1, new Date("2026-01-07T01:00:00Z")).rejection?.rule).toBe("night");
+    expect(policy.screen(path, 1, new Date("2026-01-10T12:00:00Z")).rejection).toBeUndefined(); // Saturday
+  });
+
+  it("should flag and reject LB pools whose active bin stops moving for long enough", () => {
+    const policy = new RiskPolicy({
+      rules: [{ name: "stale LB bin", kind: "staleBin", match: { dex: "traderjoe_lb" }, maxUnchangedSeconds: 60 }],
+    });
+    const onStale = vi.fn();
+    policy.on("staleBin", onStale);
+    const t0 = NOON.getTime();
+
+    // A pool read every 250ms block holding one bin for 30s is not stale
+    for (let t = t0; t <= t0 + 30_000; t += 250) policy.observe(lbSnapshot(8_388_608, t));
+    expect(onStale).not.toHaveBeenCalled();
+    expect(policy.screen(lbPath, 1).rejection).toBeUndefined();
+
+    policy.observe(lbSnapshot(8_388_608, t0 + 60_000));
+    policy.observe(lbSnapshot(8_388_608, t0 + 61_000));
+    expect(onStale).toHaveBeenCalledOnce();
+    expect(onStale).toHaveBeenCalledWith(LB_POOL, "WETH/USDC LB", 8_388_608, 60, "stale LB bin");
+    expect(policy.screen(lbPath, 1).rejection?.detail).toBe("WETH/USDC LB bin 8388608 unchanged for 61s");
+
+    policy.observe(lbSnapshot(8_388_609, t0 + 62_000));
+    expect(policy.screen(lbPath, 1).rejection).toBeUndefined();
+  });
+});
+
+describe("OpportunityDetector risk policy", () => {
+  function makeDetector(rules: PolicyRule[]) {
+    const detector = new OpportunityDetector({
+      minProfitThreshold: 0.01,
+      gasPriceGwei: 1,
+      policy: new RiskPolicy({ rules }),
+    });
+    const rejected: string[] = [];
+    detector.on("opportunityRejected", (reason) => rejected.push(reason));
+    return { detector, rejected };
+  }
+
+  it("should name the rule that rejected an opportunity", () => {
+    const { detector, rejected } = makeDetector([
+      { name: "always closed", kind: "timeBlock", fromHourUtc: 0, toHourUtc: 24 },
+    ]);
+
+    expect(detector.analyzeDelta(makeProfitableDelta())).toBeNull();
+    expect(rejected).toEqual(['Rejected by rule "always closed": trading blocked 00:00-24:00 UTC']);
+  });
+
+  it("should name the multiplier rule in threshold rejections", () => {
+    const { detector, rejected } = makeDetector([
+      { name: "usdc risk", kind: "profitMultiplier", match: { token: ADDRESSES.USDC }, multiplier: 1_000 },
+    ]);
+
+    expect(detector.analyzeDelta(makeProfitableDelta())).toBeNull();
+    expect(rejected[0]).toMatch(/below threshold 10\.000000 \(1000x for usdc risk\)$/);
+  });
+
+  it("should cap the input and record every rule's verdict on the opportunity", () => {
+    const { detector } = makeDetector([
+      { name: "small trades", kind: "maxInput", maxInputEth: 2 },
+    ]);
+
+    const opp = detector.analyzeDelta(makeProfitableDelta(300))!;
+
+    expect(opp.inputAmount).toBe(2);
+    expect(opp.policy).toEqual([
+      { rule: "small trades", kind: "maxInput", outcome: "accepted", detail: "input capped at 2 ETH" },
+    ]);
+  });
+});
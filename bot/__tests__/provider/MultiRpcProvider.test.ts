@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { makeError } from "ethers";
+import { MultiRpcProvider } from "../../src/provider/index.js";
+import type { MultiRpcProviderConfig } from "../../src/provider/index.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const URLS = {
+  PRIMARY: "https://primary.example.com/v2/SECRET_KEY",
+  BACKUP: "https://backup.example.com",
+  THIRD: "https://third.example.com",
+};
+
+const TX = { to: "0x0000000000000000000000000000000000000001", data: "0x" };
+
+type Handler = (req: { method: string }) => Promise<unknown>;
+
+/**
+ * Build a MultiRpcProvider whose endpoints are mocks driven by `handlers`
+ * (keyed by URL). Each mock records the methods it was asked for.
+ */
+function createProvider(
+  handlers: Record<string, Handler>,
+  config: Partial<MultiRpcProviderConfig> = {},
+) {
+  const calls: Record<string, string[]> = {};
+  vi.spyOn(MultiRpcProvider.prototype as any, "_createEndpointProvider").mockImplementation(
+    (url: unknown) => {
+      const key = url as string;
+      calls[key] = [];
+      return {
+        _perform: vi.fn(async (req: { method: string }) => {
+          calls[key].push(req.method);
+          return handlers[key](req);
+        }),
+        destroy: vi.fn(),
+      };
+    },
+  );
+  const provider = new MultiRpcProvider({ urls: Object.keys(handlers), chainId: 42161, ...config });
+  return { provider, calls };
+}
+
+/** Endpoint that answers eth_blockNumber with `head` and eth_call with `result` */
+function healthy(head: number, result = "0x01"): Handler {
+  return async (req) => (req.method === "getBlockNumber" ? head : result);
+}
+
+function failing(message = "ECONNRESET"): Handler {
+  return async () => {
+    throw new Error(message);
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("MultiRpcProvider", () => {
+  let provider: MultiRpcProvider | undefined;
+
+  afterEach(() => {
+    provider?.destroy();
+    provider = undefined;
+    vi.restoreAllMocks();
+  });
+
+  describe("construction", () => {
+    it("should require at least one URL", () => {
+      expect(() => new MultiRpcProvider({ urls: [] })).toThrow("at least one RPC URL");
+    });
+
+    it("should reject a quorum larger than the endpoint count", () => {
+      expect(() => createProvider({ [URLS.PRIMARY]: healthy(1) }, { quorum: 2 })).toThrow("RPC quorum");
+    });
+
+    it("should report endpoint hosts without the URL path", () => {
+      ({ provider } = createProvider({ [URLS.PRIMARY]: healthy(1), [URLS.BACKUP]: healthy(1) }));
+      const hosts = provider.getEndpointHealth().map((h) => h.host);
+      expect(hosts).toEqual(["primary.example.com", "backup.example.com"]);
+    });
+  });
+
+  describe("routing and failover", () => {
+    it("should send reads to the primary endpoint when all are healthy", async () => {
+      const { provider: p, calls } = createProvider({
+        [URLS.PRIMARY]: healthy(100, "0xaa"),
+        [URLS.BACKUP]: healthy(100, "0xbb"),
+      });
+      provider = p;
+
+      expect(await provider.call(TX)).toBe("0xaa");
+      expect(calls[URLS.BACKUP]).toEqual([]);
+    });
+
+    it("should fail over to the next endpoint on a transport error", async () => {
+      const { provider: p, calls } = createProvider({
+        [URLS.PRIMARY]: failing(),
+        [URLS.BACKUP]: healthy(100, "0xbb"),
+      });
+      provider = p;
+
+      expect(await provider.call(TX)).toBe("0xbb");
+      expect(calls[URLS.PRIMARY]).toEqual(["call"]);
+      expect(provider.getEndpointHealth()[0].consecutiveFailures).toBe(1);
+    });
+
+    it("should not fail over on a revert", async () => {
+      const { provider: p, calls } = createProvider({
+        [URLS.PRIMARY]: async () => {
+          throw makeError("execution reverted", "CALL_EXCEPTION", { action: "call", data: null, reason: null, transaction: TX, invocation: null, revert: null });
+        },
+        [URLS.BACKUP]: healthy(100),
+      });
+      provider = p;
+
+      await expect(provider.call(TX)).rejects.toMatchObject({ code: "CALL_EXCEPTION" });
+      expect(calls[URLS.BACKUP]).toEqual([]);
+      // A revert is a valid answer — the endpoint stays healthy
+      expect(provider.getEndpointHealth()[0].errorRate).toBe(0);
+    });
+
+    it("should throw the last error when every endpoint fails", async () => {
+      ({ provider } = createProvider({ [URLS.PRIMARY]: failing("first"), [URLS.BACKUP]: failing("second") }));
+      await expect(provider.call(TX)).rejects.toThrow("second");
+    });
+
+    it("should fail over when an endpoint does not answer in time", async () => {
+      ({ provider } = createProvider(
+        {
+          [URLS.PRIMARY]: () => new Promise(() => {}),
+          [URLS.BACKUP]: healthy(100, "0xbb"),
+        },
+        { requestTimeoutMs: 20 },
+      ));
+
+      expect(await provider.call(TX)).toBe("0xbb");
+    });
+
+    it("should bench an endpoint after repeated failures", async () => {
+      const { provider: p, calls } = createProvider(
+        { [URLS.PRIMARY]: failing(), [URLS.BACKUP]: healthy(100, "0xbb") },
+        { maxConsecutiveFailures: 2 },
+      );
+      provider = p;
+
+      // eth_blockNumber fans out to every endpoint that is not benched
+      // (_perform directly — the public getter caches identical requests)
+      for (let i = 0; i < 3; i++) {
+        await provider._perform({ method: "getBlockNumber" });
+      }
+
+      expect(calls[URLS.PRIMARY]).toHaveLength(2);
+      expect(calls[URLS.BACKUP]).toHaveLength(3);
+      expect(provider.getEndpointHealth()[0].benched).toBe(true);
+    });
+
+    it("should prefer the faster endpoint once latency is known", async () => {
+      const { provider: p, calls } = createProvider({
+        [URLS.PRIMARY]: async (req) => {
+          await delay(40);
+          return req.method === "getBlockNumber" ? 100 : "0xaa";
+        },
+        [URLS.BACKUP]: healthy(100, "0xbb"),
+      });
+      provider = p;
+
+      await provider.getBlockNumber(); // samples both endpoints
+
+      expect(await provider.call(TX)).toBe("0xbb");
+      expect(calls[URLS.PRIMARY]).toEqual(["getBlockNumber"]);
+    });
+
+    it("should route around an endpoint whose head lags behind", async () => {
+      const { provider: p } = createProvider(
+        { [URLS.PRIMARY]: healthy(90, "0xaa"), [URLS.BACKUP]: healthy(100, "0xbb") },
+        { maxHeadLag: 3 },
+      );
+      provider = p;
+
+      await provider.getBlockNumber();
+
+      expect(provider.getEndpointHealth()[0].headLag).toBe(10);
+      expect(await provider.call(TX)).toBe("0xbb");
+    });
+  });
+
+  describe("block number quorum", () => {
+    it("should return the highest head with a quorum of 1", async () => {
+      ({ provider } = createProvider({
+        [URLS.PRIMARY]: healthy(99),
+        [URLS.BACKUP]: healthy(101),
+        [URLS.THIRD]: healthy(100),
+      }));
+      expect(await provider.getBlockNumber()).toBe(101);
+    });
+
+    it("should return the highest block reached by quorum endpoints", async () => {
+      ({ provider } = createProvider(
+        { [URLS.PRIMARY]: healthy(99), [URLS.BACKUP]: healthy(101), [URLS.THIRD]: healthy(100) },
+        { quorum: 2 },
+      ));
+      expect(await provider.getBlockNumber()).toBe(100);
+    });
+
+    it("should reject when fewer than quorum endpoints respond", async () => {
+      ({ provider } = createProvider(
+        { [URLS.PRIMARY]: healthy(100), [URLS.BACKUP]: failing(), [URLS.THIRD]: failing() },
+        { quorum: 2 },
+      ));
+      await expect(provider.getBlockNumber()).rejects.toThrow("RPC quorum not reached: 1/2");
+    });
+  });
+});
@@ -46,7 +46,7 @@ function makeTestOpportunity(
     grossProfit: 0.1,
     costs: {
       flashLoanFee: 0,
-      gasCost: 0.0096,
+      gasCostEth: 0.0096,
       slippageCost: 0.0997,
       totalCost: 0.1093,
     },
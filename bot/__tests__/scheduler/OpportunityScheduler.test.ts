@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { OpportunityScheduler } from "../../src/scheduler/OpportunityScheduler.js";
+import { OpportunityDetector } from "../../src/detector/OpportunityDetector.js";
+import type { ArbitrageOpportunity } from "../../src/detector/types.js";
+import { ADDRESSES, makeOpportunity, makeSwapPath, makeSwapStep } from "../helpers/FixtureFactory.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const POOL = {
+  A: "0x00000000000000000000000000000000000000a1",
+  B: "0x00000000000000000000000000000000000000a2",
+  C: "0x00000000000000000000000000000000000000a3",
+  D: "0x00000000000000000000000000000000000000a4",
+  E: "0x00000000000000000000000000000000000000a5",
+  F: "0x00000000000000000000000000000000000000a6",
+};
+const ARB = "0x912CE59144191C1204E64559FE8253a0e49E6548";
+
+/** WETH → token on one pool, token → WETH on another */
+function trade(
+  id: string,
+  netProfit: number,
+  pools: [string, string],
+  token: string = ADDRESSES.USDC,
+  overrides: Partial<ArbitrageOpportunity> = {},
+): ArbitrageOpportunity {
+  const opportunity = makeOpportunity({
+    id,
+    netProfit,
+    path: makeSwapPath({
+      steps: [
+        makeSwapStep({ poolAddress: pools[0], tokenIn: ADDRESSES.WETH, tokenOut: token }),
+        makeSwapStep({ poolAddress: pools[1], tokenIn: token, tokenOut: ADDRESSES.WETH }),
+      ],
+      baseToken: ADDRESSES.WETH,
+    }),
+    blockNumber: overrides.blockNumber,
+  });
+  return { ...opportunity, ...overrides };
+}
+
+function makeScheduler(execute = vi.fn().mockResolvedValue(undefined), sharedTokens = [ADDRESSES.WETH]) {
+  const scheduler = new OpportunityScheduler(execute, { sharedTokens });
+  const dropped: Array<[string, string]> = [];
+  scheduler.on("dropped", (opp: ArbitrageOpportunity, reason: string) => dropped.push([opp.id, reason]));
+  return { scheduler, execute, dropped };
+}
+
+const ids = (opps: ArbitrageOpportunity[]) => opps.map((o) => o.id);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("OpportunityScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("schedule", () => {
+    it("should schedule opportunities that share only a shared token", () => {
+      const { scheduler } = makeScheduler();
+
+      const result = scheduler.schedule([
+        trade("usdc", 0.02, [POOL.A, POOL.B]),
+        trade("arb", 0.05, [POOL.C, POOL.D], ARB),
+      ]);
+
+      expect(ids(result.scheduled)).toEqual(["arb", "usdc"]);
+      expect(result.dropped).toEqual([]);
+      expect(result.totalProfitEth).toBeCloseTo(0.07, 12);
+    });
+
+    it("should drop the less profitable of two opportunities through the same pool", () => {
+      const { scheduler } = makeScheduler();
+
+      const result = scheduler.schedule([
+        trade("small", 0.02, [POOL.A, POOL.B]),
+        trade("big", 0.05, [POOL.B, POOL.C], ARB),
+      ]);
+
+      expect(ids(result.scheduled)).toEqual(["big"]);
+      expect(result.dropped).toHaveLength(1);
+      expect(result.dropped[0].opportunity.id).toBe("small");
+      expect(result.dropped[0].reason).toBe(
+        `Conflicts with big (shared pool ${POOL.B}), which is part of a more profitable schedule`,
+      );
+    });
+
+    it("should tell Uniswap V4 pools apart by PoolId, not the shared StateView address", () => {
+      const { scheduler } = makeScheduler();
+      const stateView = "0x76fd297e2d437cd7f76d50f01afe6160f86e9990";
+      const poolIds = ["0x" + "11".repeat(32), "0x" + "22".repeat(32)];
+      const v4 = (opportunity: ArbitrageOpportunity, poolId: string): ArbitrageOpportunity => ({
+        ...opportunity,
+        path: {
+          ...opportunity.path,
+          steps: [{ ...opportunity.path.steps[0], dex: "uniswap_v4", poolAddress: stateView, poolId }, opportunity.path.steps[1]],
+        },
+      });
+
+      const distinct = scheduler.schedule([
+        v4(trade("usdc", 0.02, [POOL.A, POOL.B]), poolIds[0]),
+        v4(trade("arb", 0.05, [POOL.C, POOL.D], ARB), poolIds[1]),
+      ]);
+      expect(ids(distinct.scheduled)).toEqual(["arb", "usdc"]);
+      expect(distinct.dropped).toEqual([]);
+
+      const same = scheduler.schedule([
+        v4(trade("usdc", 0.02, [POOL.A, POOL.B]), poolIds[1]),
+        v4(trade("arb", 0.05, [POOL.C, POOL.D], ARB), poolIds[1]),
+      ]);
+      expect(ids(same.scheduled)).toEqual(["arb"]);
+      expect(same.dropped[0].reason).toBe(
+        `Conflicts with arb (shared pool ${poolIds[1]}), which is part of a more profitable schedule`,
+      );
+    });
+
+    it("should treat a token traded by both as a conflict unless it is shared", () => {
+      const batch = [
+        trade("one", 0.02, [POOL.A, POOL.B]),
+        trade("two", 0.03, [POOL.C, POOL.D]),
+      ];
+
+      const strict = makeScheduler().scheduler.schedule(batch);
+      expect(ids(strict.scheduled)).toEqual(["two"]);
+      expect(strict.dropped[0].reason).toContain(`shared token ${ADDRESSES.USDC.toLowerCase()}`);
+
+      const relaxed = makeScheduler(undefined, [ADDRESSES.WETH, ADDRESSES.USDC]).scheduler.schedule(batch);
+      expect(ids(relaxed.scheduled)).toEqual(["two", "one"]);
+    });
+
+    it("should pick the subset with the highest total profit, not the single best", () => {
+      const { scheduler } = makeScheduler();
+
+      // "hub" touches both pools the two others use; together they earn more
+      const result = scheduler.schedule([
+        trade("hub", 0.05, [POOL.A, POOL.C], ARB),
+        trade("left", 0.03, [POOL.A, POOL.B]),
+        trade("right", 0.03, [POOL.C, POOL.D], ADDRESSES.DAI),
+      ]);
+
+      expect(ids(result.scheduled)).toEqual(["left", "right"]);
+      expect(result.totalProfitEth).toBeCloseTo(0.06, 12);
+      expect(result.dropped.map((d) => d.opportunity.id)).toEqual(["hub"]);
+    });
+
+    it("should weigh profits in ETH when the base token is not ETH", () => {
+      const { scheduler } = makeScheduler();
+      const valuation = (ethPerBase: number) => ({
+        baseToken: ADDRESSES.USDC, ethPerBase, inputAmountEth: 0, grossProfitEth: 0, netProfitEth: 0,
+      });
+
+      // 30 USDC at 0.0005 ETH is 0.015 ETH: less than 0.02 ETH
+      const result = scheduler.schedule([
+        trade("weth", 0.02, [POOL.A, POOL.B]),
+        trade("usdc", 30, [POOL.B, POOL.C], ARB, { valuation: valuation(0.0005) }),
+      ]);
+
+      expect(ids(result.scheduled)).toEqual(["weth"]);
+      expect(result.dropped[0].opportunity.id).toBe("usdc");
+    });
+
+    it("should fall back to greedy selection above maxExactBatch", () => {
+      const scheduler = new OpportunityScheduler(vi.fn(), { sharedTokens: [ADDRESSES.WETH], maxExactBatch: 2 });
+
+      const result = scheduler.schedule([
+        trade("hub", 0.05, [POOL.A, POOL.C], ARB),
+        trade("left", 0.03, [POOL.A, POOL.B]),
+        trade("right", 0.03, [POOL.C, POOL.D], ADDRESSES.DAI),
+      ]);
+
+      expect(ids(result.scheduled)).toEqual(["hub"]);
+    });
+  });
+
+  describe("submit", () => {
+    it("should collect a block for the collection window, then execute the schedule", async () => {
+      vi.useFakeTimers();
+      const { scheduler, execute, dropped } = makeScheduler();
+
+      scheduler.submit(trade("small", 0.02, [POOL.A, POOL.B], ADDRESSES.USDC, { blockNumber: 100 }));
+      scheduler.submit(trade("big", 0.05, [POOL.B, POOL.C], ARB, { blockNumber: 100 }));
+      expect(execute).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(100);
+      await scheduler.whenIdle();
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(execute.mock.calls[0][0].id).toBe("big");
+      expect(dropped.map(([id]) => id)).toEqual(["small"]);
+    });
+
+    it("should schedule a block as soon as a newer one arrives and drop late arrivals", async () => {
+      const { scheduler, execute, dropped } = makeScheduler();
+
+      scheduler.submit(trade("b100", 0.02, [POOL.A, POOL.B], ADDRESSES.USDC, { blockNumber: 100 }));
+      scheduler.submit(trade("b101", 0.02, [POOL.A, POOL.B], ADDRESSES.USDC, { blockNumber: 101 }));
+      scheduler.submit(trade("late", 0.09, [POOL.C, POOL.D], ARB, { blockNumber: 100 }));
+      scheduler.flush();
+      await scheduler.whenIdle();
+
+      expect(execute.mock.calls.map(([opp]) => opp.id)).toEqual(["b100", "b101"]);
+      expect(dropped).toEqual([["late", "Late: block 100 was already scheduled"]]);
+    });
+
+    it("should batch one detection pass together whatever block each pool's snapshot was read at", async () => {
+      const { scheduler, execute, dropped } = makeScheduler();
+
+      // One pass at block 101: the second pair's pools were last read at block 99
+      scheduler.submit(trade("fresh", 0.02, [POOL.A, POOL.B], ADDRESSES.USDC, { blockNumber: 101, detectionBlock: 101 }));
+      scheduler.submit(trade("older", 0.03, [POOL.C, POOL.D], ARB, { blockNumber: 99, detectionBlock: 101 }));
+      scheduler.submit(trade("rival", 0.01, [POOL.C, POOL.E], ARB, { blockNumber: 99, detectionBlock: 101 }));
+      const result = scheduler.flush()!;
+      await scheduler.whenIdle();
+
+      expect(result.blockNumber).toBe(101);
+      expect(execute.mock.calls.map(([opp]) => opp.id)).toEqual(["older", "fresh"]);
+      expect(dropped).toEqual([["rival", expect.stringMatching(/^Conflicts with older \(shared pool/)]]);
+    });
+
+    it("should run queued opportunities one at a time, most profitable first", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const order: string[] = [];
+      const execute = vi.fn().mockImplementation(async (opp: ArbitrageOpportunity) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push(opp.id);
+        running--;
+      });
+      const { scheduler } = makeScheduler(execute);
+
+      scheduler.submit(trade("usdc", 0.02, [POOL.A, POOL.B], ADDRESSES.USDC, { blockNumber: 100 }));
+      scheduler.submit(trade("arb", 0.05, [POOL.C, POOL.D], ARB, { blockNumber: 100 }));
+      scheduler.submit(trade("dai", 0.03, [POOL.E, POOL.F], ADDRESSES.DAI, { blockNumber: 100 }));
+      scheduler.flush();
+      await scheduler.whenIdle();
+
+      expect(order).toEqual(["arb", "dai", "usdc"]);
+      expect(maxRunning).toBe(1);
+    });
+
+    it("should keep the collection window, but not the queue wait, out of the staleness check", async () => {
+      vi.useFakeTimers();
+      const detector = new OpportunityDetector();
+      const staleness: Array<[string, boolean, number]> = [];
+      const execute = vi.fn().mockImplementation(async (opp: ArbitrageOpportunity) => {
+        const { fresh, latencyMs } = detector.checkStaleness(opp);
+        staleness.push([opp.id, fresh, latencyMs]);
+        await new Promise((resolve) => setTimeout(resolve, 200)); // simulate, submit, await receipt
+      });
+      const { scheduler } = makeScheduler(execute);
+
+      // Detected 50ms before submission; the second then waits 200ms behind the first
+      const detectedAt = Date.now() - 50;
+      scheduler.submit(trade("first", 0.05, [POOL.A, POOL.B], ADDRESSES.USDC, { blockNumber: 100, timestamp: detectedAt }));
+      scheduler.submit(trade("second", 0.02, [POOL.C, POOL.D], ARB, { blockNumber: 100, timestamp: detectedAt }));
+      await vi.advanceTimersByTimeAsync(100 + 2 * 200);
+      await scheduler.whenIdle();
+
+      expect(execute.mock.calls.map(([opp]) => opp.scheduleWaitMs)).toEqual([100, 100]);
+      expect(staleness).toEqual([["first", true, 50], ["second", false, 250]]);
+    });
+
+    it("should report executor failures and carry on with the queue", async () => {
+      const execute = vi.fn()
+        .mockRejectedValueOnce(new Error("nonce too low"))
+        .mockResolvedValue(undefined);
+      const { scheduler } = makeScheduler(execute);
+      const errors: string[] = [];
+      scheduler.on("error", (err: Error, opp: ArbitrageOpportunity) => errors.push(`${opp.id}: ${err.message}`));
+
+      scheduler.submit(trade("first", 0.05, [POOL.A, POOL.B], ADDRESSES.USDC, { blockNumber: 100 }));
+      scheduler.submit(trade("second", 0.02, [POOL.C, POOL.D], ARB, { blockNumber: 100 }));
+      scheduler.flush();
+      await scheduler.whenIdle();
+
+      expect(errors).toEqual(["first: nonce too low"]);
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { AbiCoder, Interface, parseUnits } from "ethers";
+import { AbiCoder, Interface, ZeroAddress, parseUnits } from "ethers";
 import type { ArbitrageOpportunity, SwapStep } from "../detector/types.js";
 import type { DEXProtocol } from "../monitor/types.js";
 import type {
@@ -48,12 +48,13 @@ export class TransactionBuilder {
    * Build an arbitrage transaction from an opportunity.
    *
    * @param opportunity - The detected arbitrage opportunity
-   * @param flashLoanProvider - Which flash loan provider to use (default: "aave_v3")
+   * @param flashLoanProvider - Which flash loan provider to use (default: the one the
+   *   detector selected for the opportunity, else "aave_v3")
    * @returns Encoded transaction ready for gas estimation and signing
    */
   buildArbitrageTransaction(
     opportunity: ArbitrageOpportunity,
-    flashLoanProvider: FlashLoanProvider = "aave_v3",
+    flashLoanProvider: FlashLoanProvider = opportunity.flashLoan?.provider ?? "aave_v3",
   ): ArbitrageTransaction {
     if (!opportunity.path.steps.length) {
       throw new Error("Opportunity has no swap steps");
@@ -65,7 +66,7 @@ export class TransactionBuilder {
     const baseToken = opportunity.path.baseToken;
     const baseDecimals = this.resolveBaseDecimals(opportunity);
     const flashLoanAmount = this.toWei(opportunity.inputAmount, baseDecimals);
-    const providerAddress = this.resolveFlashLoanProvider(flashLoanProvider);
+    const providerAddress = this.resolveFlashLoanProvider(flashLoanProvider, opportunity);
 
     const contractSteps = this.encodeSwapSteps(
       opportunity.path.steps,
@@ -197,12 +198,27 @@ export class TransactionBuilder {
 
   /**
    * Resolve a flash loan provider to its on-chain address.
+   *
+   * Only configured providers are used, at their configured address: the
+   * executor reverts on any other. A Uniswap V3 loan has no fixed address:
+   * it is borrowed from whichever pool was selected for the opportunity
+   * (the executor checks the pool against its factory).
    */
-  resolveFlashLoanProvider(provider: FlashLoanProvider): string {
+  resolveFlashLoanProvider(provider: FlashLoanProvider, opportunity?: ArbitrageOpportunity): string {
     const address = this.config.flashLoanProviders[provider];
     if (!address) {
       throw new Error(`No address configured for flash loan provider: ${provider}`);
     }
+    const selected = opportunity?.flashLoan;
+    if (provider === "uniswap_v3") {
+      if (selected?.provider !== provider) {
+        throw new Error("Uniswap V3 flash loans need a pool selected for the opportunity");
+      }
+      return selected.address;
+    }
+    if (selected?.provider === provider && selected.address.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`Selected ${provider} contract ${selected.address} is not the configured ${address}`);
+    }
     return address;
   }
 
@@ -212,6 +228,9 @@ export class TransactionBuilder {
    * - uniswap_v2 / sushiswap / camelot_v2: empty bytes (direct swap)
    * - uniswap_v3 / sushiswap_v3 / camelot_v3 / ramses_v3: abi.encode(uint24 feeTier)
    * - traderjoe_lb: abi.encode(uint24 binStep)
+   * - curve_stableswap: abi.encode(address pool, int128 i, int128 j)
+   * - balancer_v2: abi.encode(bytes32 poolId)
+   * - uniswap_v4: abi.encode(PoolKey(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks))
    */
   encodeExtraData(step: SwapStep): string {
     if (
@@ -227,6 +246,34 @@ export class TransactionBuilder {
       const binStep = step.feeTier ?? 15;
       return abiCoder.encode(["uint24"], [binStep]);
     }
+    if (step.dex === "curve_stableswap") {
+      // Curve pools are called directly — the adapter needs the pool and coin indices
+      if (!step.coinIndices) {
+        throw new Error(`Curve swap step on ${step.poolAddress} missing coinIndices`);
+      }
+      const [i, j] = step.coinIndices;
+      return abiCoder.encode(["address", "int128", "int128"], [step.poolAddress, i, j]);
+    }
+    if (step.dex === "balancer_v2") {
+      // Balancer swaps go through the Vault, which identifies the pool by its ID
+      if (!step.poolId) {
+        throw new Error(`Balancer swap step on ${step.poolAddress} missing poolId`);
+      }
+      return abiCoder.encode(["bytes32"], [step.poolId]);
+    }
+    if (step.dex === "uniswap_v4") {
+      // The PoolManager identifies a pool by its full PoolKey, with currencies sorted
+      if (step.feeTier === undefined || step.tickSpacing === undefined) {
+        throw new Error(`Uniswap V4 swap step on ${step.poolId ?? step.poolAddress} missing fee or tickSpacing`);
+      }
+      const [currency0, currency1] = BigInt(step.tokenIn) < BigInt(step.tokenOut)
+        ? [step.tokenIn, step.tokenOut]
+        : [step.tokenOut, step.tokenIn];
+      return abiCoder.encode(
+        ["tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)"],
+        [[currency0, currency1, step.feeTier, step.tickSpacing, step.hooks ?? ZeroAddress]],
+      );
+    }
     // V2-style DEXes (uniswap_v2, sushiswap, camelot_v2) use empty extra data
     return "0x";
   }
@@ -1,7 +1,7 @@
 import type { DEXProtocol } from "../monitor/types.js";
 
 /** Supported flash loan providers */
-export type FlashLoanProvider = "aave_v3" | "balancer";
+export type FlashLoanProvider = "aave_v3" | "balancer" | "uniswap_v3" | "dydx";
 
 /** Maps DEX protocol identifiers to deployed adapter contract addresses */
 export type AdapterMap = Record<DEXProtocol, string>;
@@ -71,6 +71,11 @@ export interface TransactionBuilderConfig {
   flashLoanProviders: {
     aave_v3: string;
     balancer: string;
+    /** Uniswap V3 factory. The loan itself comes from a pool the FlashLoanRouter
+     *  picks per opportunity, so transactions take the pool from `opportunity.flashLoan` */
+    uniswap_v3?: string;
+    /** dYdX SoloMargin, on chains where it is deployed */
+    dydx?: string;
   };
   /** Chain ID (default: 1 for mainnet) */
   chainId?: number;
@@ -40,9 +40,18 @@ export const ARBITRUM_CONFIG: ChainConfig = {
     },
     sushiswapV3: {
       factory: "0x1af415a1EbA07a4986a52B6f2e7dE7003D82231e",
+      quoter: "0x0524E833cCD057e4d7A296e3aaAb9f7675964Ce1", // QuoterV2
+    },
+    camelot: {
+      router: "0xc873fEcbd354f5A56E00E710B90EF4201db2448d",
+      factory: "0x6EcCab422D763aC031210895C81787E87B43A652",
     },
     camelotV3: {
       factory: "0x1a3c9B1d2F0529D97f2afC5136Cc23e58f1FD35B",
+      quoter: "0x0Fc73040b26E9bC8514fA028D998E73A254Fa76E", // Algebra Quoter
+    },
+    traderjoeLB: {
+      quoter: "0xd76019A16606FDa4651f636D9751f500Ed776250", // LBQuoter (v2.1)
     },
   },
 
@@ -74,8 +83,28 @@ export const ARBITRUM_CONFIG: ChainConfig = {
     deltaThresholdPercent: 0.2, // Lowered from 0.3 — catches WETH/USDT at ~0.27% and ARB/WETH when spread narrows
     pollIntervalMs: 6_000, // 6s polling — reduced from 3s to stay under Alchemy CU/s limit
     maxRetries: 3,
-    minReserveWeth: 5.0, // Skip V2 pools with < 5 WETH reserve (prevents thin-pool false positives)
+    minReserveWeth: 5.0, // Skip pools with < 5 WETH of reserve / in-range depth (prevents thin-pool false positives)
+    dexMinReserveWeth: { traderjoe_lb: 1 }, // LB is measured on the active bin alone — a slice of the pool's depth
     wethAddress: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+    tickBitmapWords: 1, // ±1 bitmap word of V3 ticks for multi-tick slippage simulation
+    lbBinsPerSide: 5, // 5 non-empty LB bins each way — sizes LB trades from depth instead of the 5 ETH cap
+    reorgDepth: 64, // ~16s of Arbitrum blocks — sequencer reorgs are rare and shallow
+    twapWindowSeconds: 600, // 10 min TWAP — too long to move within one block, short enough to track trends
+    maxPriceDeviationPercent: 3,
+    maxPollInterval: 8, // Quiet pools (e.g. Ramses) read every 8th poll until they move
+    oracleFeeds: [
+      // Chainlink ETH/USD, checked against both WETH/USDC flavours
+      {
+        feed: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+        base: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+        quote: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      },
+      {
+        feed: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+        base: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+        quote: "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8",
+      },
+    ],
   },
 
   // Detector configuration (Arbitrum thresholds — tuned from v1 dry-run analysis)
@@ -86,6 +115,15 @@ export const ARBITRUM_CONFIG: ChainConfig = {
     defaultInputAmount: 5, // 5 ETH flash loan (minimum viable for SPELL/WETH profitability)
     gasPriceGwei: 0.1, // Arbitrum typical gas price (L2 only; L1 via gasEstimatorFn)
     gasPerSwap: 150_000,
+    cycleBaseTokens: ["0x82af49447d8a07e3bd95bd0d56f35241523fbab1"], // WETH — cycles like WETH→ARB→USDC→WETH
+    maxCycleHops: 3,
+    usdTokens: ["0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8", "0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9"], // USDC, USDT — USD profit values
+    riskRules: [
+      // LB swaps are priced at the live variable fee, but it can still rise with volatility before inclusion
+      { name: "Trader Joe LB", kind: "profitMultiplier", match: { dex: "traderjoe_lb" }, multiplier: 1.33 },
+      // An LB active bin that has not moved for 30 minutes is likely a dead pool quoting a stale price
+      { name: "stale LB bin", kind: "staleBin", match: { dex: "traderjoe_lb" }, maxUnchangedSeconds: 1_800 },
+    ],
   },
 
   // MEV protection (none - FCFS sequencer, no Flashbots on Arbitrum)
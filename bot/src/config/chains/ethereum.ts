@@ -25,6 +25,7 @@ export const ETHEREUM_CONFIG: ChainConfig = {
   protocols: {
     aaveV3Pool: "0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2",
     balancerVault: "0xBA12222222228d8Ba445958a75a0704d566BF2C8",
+    dydxSoloMargin: "0x1E0447b19BB6EcFdAe1e4AE1694b0C3659614e4e",
   },
 
   // DEX router and factory addresses
@@ -17,7 +17,7 @@ export interface ChainConfig {
 
   /** Primary RPC URL (loaded from env at runtime) */
   rpcUrl: string;
-  /** Optional fallback RPC URL */
+  /** Optional fallback RPC URL(s), comma-separated */
   fallbackRpcUrl?: string;
 
   // ──── Protocol Addresses ───────────────────────────────────────
@@ -28,6 +28,8 @@ export interface ChainConfig {
     aaveV3Pool: string;
     /** Balancer Vault address (for zero-fee flash loans) */
     balancerVault: string;
+    /** dYdX SoloMargin address (free flash loans; Ethereum mainnet only) */
+    dydxSoloMargin?: string;
   };
 
   // ──── DEX Configuration ────────────────────────────────────────
@@ -49,6 +51,7 @@ export interface ChainConfig {
     };
     sushiswapV3?: {
       factory: string;
+      quoter?: string;
     };
     camelot?: {
       router: string;
@@ -56,6 +59,10 @@ export interface ChainConfig {
     };
     camelotV3?: {
       factory: string;
+      quoter?: string;
+    };
+    traderjoeLB?: {
+      quoter: string;
     };
   };
 
@@ -1,6 +1,6 @@
-export type { BotConfig, NetworkConfig, PoolDefinition, MonitorConfig, DetectorConfig, EnvVars } from "./types.js";
+export type { BotConfig, NetworkConfig, PoolDefinition, PoolVerificationConfig, MonitorConfig, DetectorConfig, EnvVars } from "./types.js";
 export { DEFAULT_CONFIG, DEFAULT_MONITOR, DEFAULT_DETECTOR, DEFAULT_MEV_CONFIG, MAINNET_MEV_CONFIG, MEV_BLOCKER_CONFIG, MAINNET_TOKENS, SEPOLIA_TOKENS, SEPOLIA_MONITOR, SEPOLIA_DETECTOR } from "./defaults.js";
-export { parseEnv, buildConfig, validateConfig, ConfigError } from "./validate.js";
+export { parseEnv, parseUrlList, buildConfig, validateConfig, ConfigError } from "./validate.js";
 export { MAINNET_POOLS } from "./pools.js";
 
 // ──── Chain Config System (Multi-chain Support) ────────────────────
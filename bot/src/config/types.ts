@@ -1,4 +1,6 @@
-import type { DEXProtocol } from "../monitor/types.js";
+import type { DEXProtocol, OracleFeedConfig } from "../monitor/types.js";
+import type { OpportunitySchedulerConfig } from "../scheduler/types.js";
+import type { PolicyRule } from "../policy/types.js";
 
 /** Top-level bot configuration */
 export interface BotConfig {
@@ -12,6 +14,18 @@ export interface BotConfig {
   detector: DetectorConfig;
   /** Logging level */
   logLevel: "debug" | "info" | "warn" | "error";
+  /** Check pool definitions against on-chain metadata at startup. Default: off */
+  poolVerification?: PoolVerificationConfig;
+  /** Scheduling of same-block opportunities. Default: 100ms collection window, WETH shared */
+  scheduler?: OpportunitySchedulerConfig;
+}
+
+/** Startup verification of pool definitions */
+export interface PoolVerificationConfig {
+  /** "strict" refuses to start on any mismatch, "disable" stops monitoring mismatched pools, "off" skips the check */
+  mode: "off" | "disable" | "strict";
+  /** Factory expected to have deployed each DEX's pools. DEXes without one are not factory-checked */
+  factories?: Partial<Record<DEXProtocol, string>>;
 }
 
 /** Network connection settings */
@@ -20,6 +34,12 @@ export interface NetworkConfig {
   rpcUrl: string;
   /** WebSocket URL (optional, enables real-time events) */
   wsUrl?: string;
+  /** Additional HTTP endpoints for failover and block-number quorum */
+  fallbackRpcUrls?: string[];
+  /** Additional WebSocket endpoints, tried in turn when the connection drops */
+  fallbackWsUrls?: string[];
+  /** Endpoints that must agree on the block number before acting. Default: 1 */
+  rpcQuorum?: number;
   /** Chain ID (1 = mainnet, 42161 = Arbitrum, etc.) */
   chainId: number;
 }
@@ -36,6 +56,18 @@ export interface PoolDefinition {
   feeTier?: number;
   /** Invert raw on-chain price (for TJ LB pools where tokenX/tokenY != hex sort order) */
   invertPrice?: boolean;
+  /** Curve coin indices of token0 and token1 (curve_stableswap only, default [0, 1]) */
+  coinIndices?: [number, number];
+  /** Decimals of every coin in Curve coin order (curve_stableswap pools with 3+ coins) */
+  coinDecimals?: number[];
+  /** Pool ID: Vault pool ID (balancer_v2) or PoolId (uniswap_v4) */
+  poolId?: string;
+  /** Balancer V2 pool math (balancer_v2 only, default "weighted") */
+  balancerPoolType?: "weighted" | "stable";
+  /** Uniswap V4 PoolKey tick spacing (uniswap_v4 only) */
+  tickSpacing?: number;
+  /** Uniswap V4 PoolKey hooks contract (uniswap_v4 only) */
+  hooks?: string;
 }
 
 /** PriceMonitor configuration subset */
@@ -46,10 +78,44 @@ export interface MonitorConfig {
   pollIntervalMs: number;
   /** Max consecutive fetch failures before stale. Default: 3 */
   maxRetries: number;
-  /** Minimum WETH reserve for V2 pools to be viable (ETH). Default: 0 (disabled) */
+  /** Minimum WETH-side liquidity for any pool to be viable (ETH). Default: 0 (disabled) */
   minReserveWeth?: number;
+  /** Per-protocol overrides of minReserveWeth (ETH) */
+  dexMinReserveWeth?: Partial<Record<DEXProtocol, number>>;
   /** WETH address for liquidity checks */
   wethAddress?: string;
+  /** Update pool state from Sync/Swap logs over WebSocket. Default: false (poll every block) */
+  eventDriven?: boolean;
+  /** Full Multicall reconciliation interval in event-driven mode (ms). Default: 60000 */
+  reconcileIntervalMs?: number;
+  /** Longest WebSocket gap (blocks) replayed from pool logs on reconnect in event-driven mode. Default: 1000 */
+  maxGapReplayBlocks?: number;
+  /** V3 tick bitmap words to load on each side of the current tick. Default: 0 (disabled) */
+  tickBitmapWords?: number;
+  /** Max age of cached V3 tick liquidity (ms). Default: 60000 */
+  tickRefreshMs?: number;
+  /** Non-empty Trader Joe LB bins to read on each side of the active bin. Default: 0 (disabled) */
+  lbBinsPerSide?: number;
+  /** Recent block hashes to track for reorg detection. Default: 0 (disabled) */
+  reorgDepth?: number;
+  /** TWAP window (s) for the V3/Algebra spot price check. Default: 0 (disabled) */
+  twapWindowSeconds?: number;
+  /** Chainlink feeds to check matching pairs' spot prices against. Default: none */
+  oracleFeeds?: OracleFeedConfig[];
+  /** Max age (s) of a usable oracle answer. Default: 86400 */
+  maxOracleAgeSeconds?: number;
+  /** Allowed spot deviation (%) from TWAP/oracle before a price is flagged. Default: 5 */
+  maxPriceDeviationPercent?: number;
+  /** Per-pair deviation bands (%), keyed "tokenA/tokenB". Default: none */
+  pairPriceDeviationPercent?: Record<string, number>;
+  /** Spreads (%) above this are ignored as phantom. Default: 20 */
+  maxSpreadPercent?: number;
+  /** Longest gap (polls) between reads of a quiet pool. Default: 1 (every pool every poll) */
+  maxPollInterval?: number;
+  /** Pool reads per second polls may spend. Default: 0 (unlimited) */
+  rpcBudgetPerSecond?: number;
+  /** Polls a pool in a near-threshold spread is read every poll. Default: 20 */
+  promotionPolls?: number;
 }
 
 /** OpportunityDetector configuration subset */
@@ -64,12 +130,25 @@ export interface DetectorConfig {
   gasPriceGwei: number;
   /** Gas per swap step. Default: 150000 */
   gasPerSwap: number;
+  /** Tokens multi-hop cycles may start and end in (e.g. WETH). Default: none (cycle search off) */
+  cycleBaseTokens?: string[];
+  /** Most trades in a cycle. Default: 3 */
+  maxCycleHops?: number;
+  /** USD stablecoins, in order of preference, for USD profit values. Default: none */
+  usdTokens?: string[];
+  /** Token pairwise paths start from, per pair ("tokenA/tokenB"). Default: token1 of the cheaper pool */
+  pairBaseTokens?: Record<string, string>;
+  /** Risk policy rules, added to the defaults (a rule named like a default replaces it). Default: none */
+  riskRules?: PolicyRule[];
 }
 
 /** Validated environment variables */
 export interface EnvVars {
   RPC_URL: string;
   WS_URL?: string;
+  FALLBACK_RPC_URLS?: string[];
+  FALLBACK_WS_URLS?: string[];
+  RPC_QUORUM?: number;
   CHAIN_ID: number;
   LOG_LEVEL: BotConfig["logLevel"];
   MIN_PROFIT_THRESHOLD?: number;
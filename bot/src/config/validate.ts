@@ -12,6 +12,12 @@ export class ConfigError extends Error {
   }
 }
 
+/** Split a comma-separated URL list (e.g. FALLBACK_RPC_URL) into trimmed, non-empty URLs */
+export function parseUrlList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(",").map((url) => url.trim()).filter((url) => url.length > 0);
+}
+
 /** Parse and validate environment variables into EnvVars */
 export function parseEnv(env: Record<string, string | undefined>): EnvVars {
   const rpcUrl = env.RPC_URL ?? env.MAINNET_RPC_URL;
@@ -35,9 +41,17 @@ export function parseEnv(env: Record<string, string | undefined>): EnvVars {
     );
   }
 
+  const rpcQuorum = env.RPC_QUORUM ? parseInt(env.RPC_QUORUM, 10) : undefined;
+  if (rpcQuorum !== undefined && (isNaN(rpcQuorum) || rpcQuorum <= 0)) {
+    throw new ConfigError("RPC_QUORUM must be a positive integer", "RPC_QUORUM");
+  }
+
   return {
     RPC_URL: rpcUrl,
     WS_URL: env.WS_URL,
+    FALLBACK_RPC_URLS: parseUrlList(env.FALLBACK_RPC_URL),
+    FALLBACK_WS_URLS: parseUrlList(env.FALLBACK_WS_URL),
+    RPC_QUORUM: rpcQuorum,
     CHAIN_ID: chainId,
     LOG_LEVEL: logLevel,
     MIN_PROFIT_THRESHOLD: env.MIN_PROFIT_THRESHOLD
@@ -63,6 +77,9 @@ export function buildConfig(
     network: {
       rpcUrl: envVars.RPC_URL,
       wsUrl: envVars.WS_URL,
+      fallbackRpcUrls: envVars.FALLBACK_RPC_URLS,
+      fallbackWsUrls: envVars.FALLBACK_WS_URLS,
+      rpcQuorum: envVars.RPC_QUORUM,
       chainId: envVars.CHAIN_ID,
       ...overrides.network,
     },
@@ -96,6 +113,15 @@ export function validateConfig(config: BotConfig): void {
     throw new ConfigError("rpcUrl is required", "network.rpcUrl");
   }
 
+  const endpointCount = 1 + (config.network.fallbackRpcUrls?.length ?? 0);
+  const rpcQuorum = config.network.rpcQuorum ?? 1;
+  if (rpcQuorum < 1 || rpcQuorum > endpointCount) {
+    throw new ConfigError(
+      `rpcQuorum must be between 1 and the number of RPC URLs (${endpointCount})`,
+      "network.rpcQuorum",
+    );
+  }
+
   if (config.network.chainId <= 0) {
     throw new ConfigError(
       "chainId must be positive",
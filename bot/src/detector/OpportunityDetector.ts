@@ -1,17 +1,37 @@
 import { EventEmitter } from "node:events";
 import { randomUUID } from "node:crypto";
-import type { DEXProtocol, PriceDelta, PriceSnapshot } from "../monitor/types.js";
+import type { DEXProtocol, LiquidityViability, PoolConfig, PriceDelta, PriceSnapshot, ReorgEvent } from "../monitor/types.js";
 import type { PriceMonitor } from "../monitor/PriceMonitor.js";
 import type {
+  ArbitrageCycle,
   ArbitrageOpportunity,
+  ConcentratedLiquidityState,
   CostEstimate,
+  CycleEdge,
   FlashLoanFees,
   OpportunityDetectorConfig,
+  OpportunityValuation,
+  QuoteVerification,
+  StepQuote,
   SwapPath,
   SwapStep,
 } from "./types.js";
 import { InputOptimizer } from "../optimizer/InputOptimizer.js";
+import { cycleLabel, findProfitableCycles } from "./cycles.js";
+import { getDy } from "../math/stableSwap.js";
+import { balancerAmountOut } from "../math/balancer.js";
+import { camelotAmountOut, CAMELOT_FEE_DENOMINATOR } from "../math/camelotV2.js";
+import { getAmountOut } from "../math/uniswapV2.js";
+import { swapExactInput } from "../math/uniswapV3.js";
+import { lbSwapExactInput } from "../math/liquidityBook.js";
+import { hasHooks, poolStateKey } from "../monitor/poolEvents.js";
 import type { OptimizationResult } from "../optimizer/types.js";
+import type { QuoteVerifier } from "./QuoteVerifier.js";
+import type { TokenValuation } from "./TokenValuation.js";
+import type { FlashLoanRouter } from "../flashloan/FlashLoanRouter.js";
+import type { FlashLoanSelection } from "../flashloan/types.js";
+import { RiskPolicy } from "../policy/RiskPolicy.js";
+import type { PolicyScreen, PolicyVerdict } from "../policy/types.js";
 
 /** Safely coerce an unknown caught value to an Error */
 function toError(err: unknown): Error {
@@ -22,10 +42,37 @@ function toError(err: unknown): Error {
 /** Maximum allowed detection-to-execution latency in milliseconds */
 const MAX_STALENESS_MS = 200;
 
+/** Recent reorgs kept for orphan checks on in-flight opportunities */
+const MAX_TRACKED_REORGS = 16;
+
+/** Cycles returning more than this (fraction) at spot are treated as phantom, like the monitor's maxSpreadPercent */
+const MAX_CYCLE_PROFIT = 0.2;
+
+/** Best cycles analyzed per detection pass */
+const MAX_CYCLES_PER_PASS = 5;
+
+/** Input beyond any loaded tick window or bin range: exact swaps fill what they can and stop */
+const UNBOUNDED_INPUT = 2n ** 255n;
+
+/** Uniswap V4 PoolKey fee marking a pool whose hook sets the LP fee */
+const V4_DYNAMIC_FEE_FLAG = 0x800000;
+
+/** Canonical key for a token pair, regardless of order (the monitor's PriceDelta.pair) */
+function pairKey(tokenA: string, tokenB: string): string {
+  const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+  return `${a}/${b}`;
+}
+
+/** Rejection reason naming the policy rule that rejected a path */
+function policyRejection(verdict: PolicyVerdict): string {
+  return `Rejected by rule "${verdict.rule}": ${verdict.detail}`;
+}
+
 const DEFAULT_FLASH_LOAN_FEES: FlashLoanFees = {
   aaveV3: 0.0005, // 0.05%
   dydx: 0,
   balancer: 0,
+  uniswapV3: 0.0005, // 0.05% fee tier pool
 };
 
 /**
@@ -34,13 +81,19 @@ const DEFAULT_FLASH_LOAN_FEES: FlashLoanFees = {
  * gas costs, and slippage.
  */
 export class OpportunityDetector extends EventEmitter {
-  private readonly config: Required<Omit<OpportunityDetectorConfig, "flashLoanFees" | "gasEstimatorFn" | "maxInputByDex">> & {
+  private readonly config: Required<Omit<OpportunityDetectorConfig, "flashLoanFees" | "gasEstimatorFn" | "maxInputByDex" | "quoteVerifier" | "valuation" | "flashLoanRouter" | "policy">> & {
     flashLoanFees: FlashLoanFees;
   };
   private readonly maxInputByDex: Partial<Record<DEXProtocol, number>>;
   private gasEstimatorFn: ((numSwaps: number) => Promise<{ gasCost: number; l1DataFee?: number }>) | undefined;
+  private quoteVerifier: QuoteVerifier | undefined;
+  private readonly valuation: TokenValuation | undefined;
+  private flashLoanRouter: FlashLoanRouter | undefined;
+  /** Risk rules every path is screened against */
+  readonly policy: RiskPolicy;
   private monitor: PriceMonitor | null = null;
   private stalePools = new Set<string>();
+  private recentReorgs: ReorgEvent[] = [];
   private optimizer: InputOptimizer;
 
   constructor(config: OpportunityDetectorConfig = {}) {
@@ -51,12 +104,25 @@ export class OpportunityDetector extends EventEmitter {
       defaultInputAmount: config.defaultInputAmount ?? 10,
       gasPriceGwei: config.gasPriceGwei ?? 30,
       gasPerSwap: config.gasPerSwap ?? 150_000,
+      excludeHookedPools: config.excludeHookedPools ?? true,
+      cycleBaseTokens: (config.cycleBaseTokens ?? []).map((t) => t.toLowerCase()),
+      maxCycleHops: config.maxCycleHops ?? 3,
+      pairBaseTokens: Object.fromEntries(
+        Object.entries(config.pairBaseTokens ?? {}).map(([pair, token]) => {
+          const [tokenA, tokenB] = pair.split("/");
+          return [pairKey(tokenA, tokenB), token.toLowerCase()];
+        }),
+      ),
       flashLoanFees: {
         ...DEFAULT_FLASH_LOAN_FEES,
         ...config.flashLoanFees,
       },
     };
     this.gasEstimatorFn = config.gasEstimatorFn;
+    this.quoteVerifier = config.quoteVerifier;
+    this.valuation = config.valuation;
+    this.flashLoanRouter = config.flashLoanRouter;
+    this.policy = config.policy ?? new RiskPolicy();
     this.maxInputByDex = {
       traderjoe_lb: 5, // Conservative: LB bins typically hold 2-20 ETH depth
       ...config.maxInputByDex,
@@ -82,22 +148,55 @@ export class OpportunityDetector extends EventEmitter {
     this.gasEstimatorFn = fn;
   }
 
+  /**
+   * Set or clear the on-chain quote verifier. When set, every opportunity
+   * the detector would emit from the monitor (pairwise deltas and cycles)
+   * is first quoted on-chain, and only emitted if the quoted round trip
+   * still clears the profit threshold. The synchronous analyzeDelta does
+   * not verify.
+   */
+  public setQuoteVerifier(verifier: QuoteVerifier | undefined): void {
+    this.quoteVerifier = verifier;
+  }
+
+  /**
+   * Set or clear the flash loan router. When set, every opportunity the
+   * detector would emit from the monitor is funded from the cheapest
+   * provider that can lend its input right now, and costed at that
+   * provider's fee; opportunities no provider can fund are rejected. The
+   * synchronous analyzeDelta does not route.
+   */
+  public setFlashLoanRouter(router: FlashLoanRouter | undefined): void {
+    this.flashLoanRouter = router;
+  }
+
   /** Attach to a PriceMonitor and start listening for opportunities */
   attach(monitor: PriceMonitor): void {
     this.detach();
     this.monitor = monitor;
     monitor.on("opportunity", this.handleDelta);
+    monitor.on("priceUpdate", this.handlePriceUpdate);
     monitor.on("stale", this.handleStale);
+    monitor.on("reorg", this.handleReorg);
+    monitor.on("snapshotsCompared", this.handleSnapshots);
+    monitor.on("lowLiquidity", this.handleLowLiquidity);
+    monitor.on("liquidityRestored", this.handleLiquidityRestored);
   }
 
   /** Detach from the current PriceMonitor */
   detach(): void {
     if (this.monitor) {
       this.monitor.off("opportunity", this.handleDelta);
+      this.monitor.off("priceUpdate", this.handlePriceUpdate);
       this.monitor.off("stale", this.handleStale);
+      this.monitor.off("reorg", this.handleReorg);
+      this.monitor.off("snapshotsCompared", this.handleSnapshots);
+      this.monitor.off("lowLiquidity", this.handleLowLiquidity);
+      this.monitor.off("liquidityRestored", this.handleLiquidityRestored);
       this.monitor = null;
     }
     this.stalePools.clear();
+    this.recentReorgs = [];
   }
 
   /** Whether the detector is attached to a PriceMonitor */
@@ -106,24 +205,36 @@ export class OpportunityDetector extends EventEmitter {
   }
 
   /**
-   * Check if an opportunity is too stale to execute.
+   * Check if an opportunity is too stale to execute. Time the scheduler held
+   * it to collect its batch (`scheduleWaitMs`) does not count against it.
    *
    * @param opportunity - The opportunity to check
    * @returns { fresh: boolean; latencyMs: number } - Fresh if latency <= 200ms
    */
   checkStaleness(opportunity: ArbitrageOpportunity): { fresh: boolean; latencyMs: number } {
     const now = Date.now();
-    const latencyMs = now - opportunity.timestamp;
+    const latencyMs = now - opportunity.timestamp - (opportunity.scheduleWaitMs ?? 0);
     return {
       fresh: latencyMs <= MAX_STALENESS_MS,
       latencyMs,
     };
   }
 
+  /**
+   * Check if an opportunity was built on state from a block that has since
+   * been reorged out. Such opportunities must not be executed or recorded.
+   */
+  isOrphaned(opportunity: ArbitrageOpportunity): boolean {
+    const snapshots = opportunity.priceDelta
+      ? [opportunity.priceDelta.buyPool, opportunity.priceDelta.sellPool]
+      : opportunity.cycle?.edges.map((e) => e.snapshot) ?? [];
+    return this.isStateOrphaned(snapshots);
+  }
+
   /** Handle a price delta event from PriceMonitor */
   private handleDelta = (delta: PriceDelta): void => {
-    if (this.gasEstimatorFn) {
-      // Async path: use gas estimator for L1+L2 cost breakdown
+    if (this.gasEstimatorFn || this.quoteVerifier || this.flashLoanRouter) {
+      // Async path: use gas estimator for L1+L2 cost breakdown, quote and route the loan on-chain
       void this.analyzeDeltaAsync(delta).catch((err) => {
         this.emit("error", toError(err));
       });
@@ -136,25 +247,92 @@ export class OpportunityDetector extends EventEmitter {
     }
   };
 
+  /**
+   * Handle the snapshots of a PriceMonitor detection pass: search them for
+   * multi-hop cycles. Two-hop cycles are left out — they are the monitor's
+   * pairwise deltas, already analyzed through `opportunity`.
+   */
+  private handleSnapshots = (snapshots: PriceSnapshot[]): void => {
+    if (this.config.cycleBaseTokens.length === 0) return;
+    const cycles = this.findCycles(snapshots)
+      .filter((cycle) => cycle.edges.length > 2)
+      .slice(0, MAX_CYCLES_PER_PASS);
+    // The pass's block, as the monitor stamps on its deltas
+    const detectionBlock = snapshots.reduce((max, s) => Math.max(max, s.blockNumber), 0);
+    for (const cycle of cycles) {
+      void this.analyzeCycle(cycle, detectionBlock).catch((err) => {
+        this.emit("error", toError(err));
+      });
+    }
+  };
+
+  /** Handle a price update from PriceMonitor: keep the token valuation current */
+  private handlePriceUpdate = (snapshot: PriceSnapshot): void => {
+    this.valuation?.update(snapshot);
+    this.policy.observe(snapshot);
+  };
+
+  /** Handle a pool turning non-viable: its price no longer values tokens */
+  private handleLowLiquidity = (viability: LiquidityViability): void => {
+    this.valuation?.setViable(viability.pool, false);
+  };
+
+  /** Handle a non-viable pool recovering */
+  private handleLiquidityRestored = (viability: LiquidityViability): void => {
+    this.valuation?.setViable(viability.pool, true);
+  };
+
+  /** Handle a reorg event from PriceMonitor */
+  private handleReorg = (reorg: ReorgEvent): void => {
+    this.recentReorgs.push(reorg);
+    if (this.recentReorgs.length > MAX_TRACKED_REORGS) this.recentReorgs.shift();
+  };
+
   /** Handle a stale pool event from PriceMonitor */
-  private handleStale = (pool: { poolAddress: string }): void => {
-    this.stalePools.add(pool.poolAddress.toLowerCase());
+  private handleStale = (pool: PoolConfig): void => {
+    this.stalePools.add(poolStateKey(pool));
   };
 
   /**
-   * Check if a price delta involves a Ramses pool (either buy or sell side).
-   * Returns true if either pool.dex is "ramses_v3".
+   * Check if a price delta involves a Uniswap V4 pool with hooks, which can
+   * change fees or amounts around the swap in ways the monitor cannot see.
    */
-  private involvesRamses(delta: PriceDelta): boolean {
-    return delta.buyPool.pool.dex === "ramses_v3" || delta.sellPool.pool.dex === "ramses_v3";
+  private involvesHookedPool(delta: PriceDelta): boolean {
+    return hasHooks(delta.buyPool.pool) || hasHooks(delta.sellPool.pool);
   }
 
   /**
-   * Check if a swap path includes any Trader Joe LB steps.
-   * Used to apply higher profit threshold for LB opportunities.
+   * Rejection reason when either side of a delta was priced off a spot price
+   * the monitor flagged as straying from its TWAP or oracle reference.
    */
-  private usesTraderJoeLB(path: SwapPath): boolean {
-    return path.steps.some((step) => step.dex === "traderjoe_lb");
+  private suspectedManipulation(delta: PriceDelta): string | undefined {
+    for (const snapshot of [delta.buyPool, delta.sellPool]) {
+      const flag = snapshot.suspectedManipulation;
+      if (!flag) continue;
+      return `Price manipulation suspected: ${snapshot.pool.label} spot ${snapshot.price.toPrecision(6)} ` +
+        `is ${flag.deviationPercent.toFixed(2)}% from ${flag.source} ${flag.referencePrice.toPrecision(6)} ` +
+        `(max ${flag.maxDeviationPercent}%)`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Rejection reason when a net profit (ETH) falls short of minProfitThreshold
+   * raised by the policy's profit multiplier, naming the rule that raised it
+   *
+   * @param kind - What the profit is, leading the reason (modeled or quoted)
+   */
+  private belowThreshold(netProfitEth: number, screen: PolicyScreen, kind = "Net profit"): string | undefined {
+    const threshold = this.config.minProfitThreshold * screen.profitMultiplier;
+    if (netProfitEth >= threshold) return undefined;
+    const label = screen.profitMultiplierRule ? ` (${screen.profitMultiplier}x for ${screen.profitMultiplierRule})` : "";
+    return `${kind} ${netProfitEth.toFixed(6)} below threshold ${threshold.toFixed(6)}${label}`;
+  }
+
+  /** Input amount capped at the policy's maxInput (ETH, converted to the base token) */
+  private applyPolicyCap(inputAmount: number, screen: PolicyScreen, ethPerBase: number): number {
+    if (screen.maxInputEth === undefined) return inputAmount;
+    return Math.min(inputAmount, screen.maxInputEth / ethPerBase);
   }
 
   /**
@@ -172,22 +350,39 @@ export class OpportunityDetector extends EventEmitter {
       return null;
     }
 
+    const suspect = this.suspectedManipulation(delta);
+    if (suspect) {
+      this.emit("opportunityRejected", suspect, delta);
+      return null;
+    }
+
+    if (this.config.excludeHookedPools && this.involvesHookedPool(delta)) {
+      this.emit("opportunityRejected", "Pool has hooks", delta);
+      return null;
+    }
+
     const path = this.buildSwapPath(delta);
+    const ethPerBase = this.ethPerBase(path);
+    if (ethPerBase === undefined) {
+      this.emit("opportunityRejected", `No ETH price for base token ${path.baseToken}`, delta);
+      return null;
+    }
+
+    const screen = this.policy.screen(path, ethPerBase);
+    if (screen.rejection) {
+      this.emit("opportunityRejected", policyRejection(screen.rejection), delta);
+      return null;
+    }
 
     // Optimize input amount based on pool depth
     let inputAmount: number;
     let optimizationResult: OptimizationResult | undefined;
 
     // Check if we have reserve data for optimization
-    const hasReserveData = path.steps.some(
-      (s) => s.virtualReserveIn !== undefined && s.virtualReserveIn > 0,
-    );
+    const hasReserveData = this.hasDepthData(path);
 
     if (hasReserveData) {
-      const profitFn = this.buildProfitFunction(path);
-      // Cap search range to 30% of buy pool depth to avoid testing absurd sizes
-      const reserveCap = this.computeReserveCap(path);
-      optimizationResult = this.optimizer.optimize(path, profitFn, reserveCap);
+      optimizationResult = this.optimizeInput(path, ethPerBase);
       inputAmount = optimizationResult.optimalAmount;
 
       // Optimizer exhausted search range without finding any profitable size — skip early.
@@ -199,43 +394,29 @@ export class OpportunityDetector extends EventEmitter {
       }
     } else {
       // No reserve data: fall back to fixed amount
-      inputAmount = this.config.defaultInputAmount;
+      inputAmount = this.config.defaultInputAmount / ethPerBase;
     }
 
-    // Apply per-DEX max input cap (for pools without reserve data like TJ LB)
-    const dexCap = this.getDexInputCap(path);
+    // Apply per-DEX max input cap (for pools without reserve data, e.g. TJ LB without bins)
+    const dexCap = this.getDexInputCap(path, ethPerBase);
     if (dexCap !== undefined && inputAmount > dexCap) {
       inputAmount = dexCap;
     }
+    inputAmount = this.applyPolicyCap(inputAmount, screen, ethPerBase);
 
     const grossProfit = this.calculateGrossProfit(path, inputAmount);
-    const costs = this.estimateCosts(path, inputAmount);
+    const costs = this.estimateCosts(path, inputAmount, ethPerBase);
     const netProfit = grossProfit - costs.totalCost;
+    const netProfitEth = netProfit * ethPerBase;
     const netProfitPercent = (netProfit / inputAmount) * 100;
 
-    // Apply higher thresholds for risky DEXes
-    // Ramses: 2x threshold (fee manipulation risk)
-    // Trader Joe LB: 1.33x threshold (fee volatility)
-    let effectiveThreshold = this.config.minProfitThreshold;
-    let thresholdLabel = "";
-
-    if (this.involvesRamses(delta)) {
-      effectiveThreshold = this.config.minProfitThreshold * 2;
-      thresholdLabel = " (2x for Ramses)";
-    } else if (this.usesTraderJoeLB(path)) {
-      effectiveThreshold = this.config.minProfitThreshold * 1.33;
-      thresholdLabel = " (1.33x for Trader Joe LB)";
-    }
-
-    if (netProfit < effectiveThreshold) {
-      this.emit(
-        "opportunityRejected",
-        `Net profit ${netProfit.toFixed(6)} below threshold ${effectiveThreshold.toFixed(6)}${thresholdLabel}`,
-        delta,
-      );
+    const shortfall = this.belowThreshold(netProfitEth, screen);
+    if (shortfall) {
+      this.emit("opportunityRejected", shortfall, delta);
       return null;
     }
 
+    const valuation = this.valueOpportunity(path, ethPerBase, inputAmount, grossProfit, netProfit);
     const opportunity: ArbitrageOpportunity = {
       id: randomUUID(),
       path,
@@ -246,7 +427,10 @@ export class OpportunityDetector extends EventEmitter {
       netProfit,
       netProfitPercent,
       priceDelta: delta,
+      ...(valuation && { valuation }),
+      ...(screen.verdicts.length > 0 && { policy: screen.verdicts }),
       blockNumber: delta.buyPool.blockNumber,
+      ...(delta.detectionBlock !== undefined && { detectionBlock: delta.detectionBlock }),
       timestamp: Date.now(),
     };
 
@@ -257,33 +441,43 @@ export class OpportunityDetector extends EventEmitter {
   /**
    * Estimate costs for a path, calling the async gas estimator when available.
    * Falls back to synchronous estimateCosts() if no gas estimator is set.
+   *
+   * @param ethPerBase - ETH per base token, to bring the ETH gas costs into totalCost
+   * @param flashLoanFeeRate - Fee of the provider funding the loan (default: cheapest configured)
    */
-  async estimateCostsWithL1(path: SwapPath, inputAmount: number): Promise<CostEstimate> {
+  async estimateCostsWithL1(
+    path: SwapPath,
+    inputAmount: number,
+    ethPerBase = 1,
+    flashLoanFeeRate?: number,
+  ): Promise<CostEstimate> {
     if (!this.gasEstimatorFn) {
-      return this.estimateCosts(path, inputAmount);
+      return this.estimateCosts(path, inputAmount, ethPerBase, flashLoanFeeRate);
     }
 
-    const flashLoanFee = this.estimateFlashLoanFee(inputAmount);
+    const flashLoanFee = this.estimateFlashLoanFee(inputAmount, flashLoanFeeRate);
     const slippageCost = this.estimateSlippage(path, inputAmount);
 
     const gasResult = await this.gasEstimatorFn(path.steps.length);
-    const gasCost = gasResult.gasCost;
-    const l1DataFee = gasResult.l1DataFee;
+    const gasCostEth = gasResult.gasCost;
+    const l1DataFeeEth = gasResult.l1DataFee;
 
-    const totalCost = flashLoanFee + gasCost + (l1DataFee ?? 0) + slippageCost;
+    const totalCost = flashLoanFee + (gasCostEth + (l1DataFeeEth ?? 0)) / ethPerBase + slippageCost;
 
     return {
       flashLoanFee,
-      gasCost,
-      l1DataFee,
+      gasCostEth,
+      l1DataFeeEth,
       slippageCost,
       totalCost,
     };
   }
 
   /**
-   * Async version of analyzeDelta — used when gasEstimatorFn is set.
-   * Mirrors analyzeDelta but awaits the gas estimate for L1+L2 breakdown.
+   * Async version of analyzeDelta — used when gasEstimatorFn, a quote
+   * verifier or a flash loan router is set. Mirrors analyzeDelta but awaits
+   * the gas estimate for L1+L2 breakdown, the flash loan provider and the
+   * on-chain quotes.
    */
   private async analyzeDeltaAsync(delta: PriceDelta): Promise<ArbitrageOpportunity | null> {
     // Skip if either pool is stale
@@ -296,22 +490,39 @@ export class OpportunityDetector extends EventEmitter {
       return null;
     }
 
+    const suspect = this.suspectedManipulation(delta);
+    if (suspect) {
+      this.emit("opportunityRejected", suspect, delta);
+      return null;
+    }
+
+    if (this.config.excludeHookedPools && this.involvesHookedPool(delta)) {
+      this.emit("opportunityRejected", "Pool has hooks", delta);
+      return null;
+    }
+
     const path = this.buildSwapPath(delta);
+    const ethPerBase = this.ethPerBase(path);
+    if (ethPerBase === undefined) {
+      this.emit("opportunityRejected", `No ETH price for base token ${path.baseToken}`, delta);
+      return null;
+    }
+
+    const screen = this.policy.screen(path, ethPerBase);
+    if (screen.rejection) {
+      this.emit("opportunityRejected", policyRejection(screen.rejection), delta);
+      return null;
+    }
 
     // Optimize input amount based on pool depth
     let inputAmount: number;
     let optimizationResult: OptimizationResult | undefined;
 
     // Check if we have reserve data for optimization
-    const hasReserveData = path.steps.some(
-      (s) => s.virtualReserveIn !== undefined && s.virtualReserveIn > 0,
-    );
+    const hasReserveData = this.hasDepthData(path);
 
     if (hasReserveData) {
-      const profitFn = this.buildProfitFunction(path);
-      // Cap search range to 30% of buy pool depth to avoid testing absurd sizes
-      const reserveCap = this.computeReserveCap(path);
-      optimizationResult = this.optimizer.optimize(path, profitFn, reserveCap);
+      optimizationResult = this.optimizeInput(path, ethPerBase);
       inputAmount = optimizationResult.optimalAmount;
 
       // Optimizer exhausted search range without finding any profitable size — skip early.
@@ -321,43 +532,60 @@ export class OpportunityDetector extends EventEmitter {
       }
     } else {
       // No reserve data: fall back to fixed amount
-      inputAmount = this.config.defaultInputAmount;
+      inputAmount = this.config.defaultInputAmount / ethPerBase;
     }
 
-    // Apply per-DEX max input cap (for pools without reserve data like TJ LB)
-    const dexCap = this.getDexInputCap(path);
+    // Apply per-DEX max input cap (for pools without reserve data, e.g. TJ LB without bins)
+    const dexCap = this.getDexInputCap(path, ethPerBase);
     if (dexCap !== undefined && inputAmount > dexCap) {
       inputAmount = dexCap;
     }
+    inputAmount = this.applyPolicyCap(inputAmount, screen, ethPerBase);
+
+    let flashLoan: FlashLoanSelection | undefined;
+    if (this.flashLoanRouter) {
+      try {
+        flashLoan = await this.selectFlashLoan(this.flashLoanRouter, path, inputAmount);
+      } catch (err) {
+        this.emit("opportunityRejected", `Flash loan unavailable: ${toError(err).message}`, delta);
+        return null;
+      }
+    }
 
     const grossProfit = this.calculateGrossProfit(path, inputAmount);
-    const costs = await this.estimateCostsWithL1(path, inputAmount);
+    const costs = await this.estimateCostsWithL1(path, inputAmount, ethPerBase, flashLoan?.feeRate);
     const netProfit = grossProfit - costs.totalCost;
+    const netProfitEth = netProfit * ethPerBase;
     const netProfitPercent = (netProfit / inputAmount) * 100;
 
-    // Apply higher thresholds for risky DEXes
-    // Ramses: 2x threshold (fee manipulation risk)
-    // Trader Joe LB: 1.33x threshold (fee volatility)
-    let effectiveThreshold = this.config.minProfitThreshold;
-    let thresholdLabel = "";
+    const shortfall = this.belowThreshold(netProfitEth, screen);
+    if (shortfall) {
+      this.emit("opportunityRejected", shortfall, delta);
+      return null;
+    }
 
-    if (this.involvesRamses(delta)) {
-      effectiveThreshold = this.config.minProfitThreshold * 2;
-      thresholdLabel = " (2x for Ramses)";
-    } else if (this.usesTraderJoeLB(path)) {
-      effectiveThreshold = this.config.minProfitThreshold * 1.33;
-      thresholdLabel = " (1.33x for Trader Joe LB)";
+    let quote: QuoteVerification | undefined;
+    if (this.quoteVerifier) {
+      try {
+        quote = await this.verifyQuote(this.quoteVerifier, path, inputAmount, costs);
+      } catch (err) {
+        this.emit("opportunityRejected", `Quote failed: ${toError(err).message}`, delta);
+        return null;
+      }
+      const quotedShortfall = this.belowThreshold(quote.quotedNetProfit * ethPerBase, screen, "Quoted net profit");
+      if (quotedShortfall) {
+        this.emit("opportunityRejected", `${quotedShortfall} (modeled ${netProfitEth.toFixed(6)})`, delta);
+        return null;
+      }
     }
 
-    if (netProfit < effectiveThreshold) {
-      this.emit(
-        "opportunityRejected",
-        `Net profit ${netProfit.toFixed(6)} below threshold ${effectiveThreshold.toFixed(6)}${thresholdLabel}`,
-        delta,
-      );
+    // A reorg may have landed while the gas estimate or quotes were in flight
+    if (this.isDeltaOrphaned(delta)) {
+      this.emit("opportunityRejected", "Price state orphaned by reorg", delta);
       return null;
     }
 
+    const valuation = this.valueOpportunity(path, ethPerBase, inputAmount, grossProfit, netProfit);
     const opportunity: ArbitrageOpportunity = {
       id: randomUUID(),
       path,
@@ -368,7 +596,12 @@ export class OpportunityDetector extends EventEmitter {
       netProfit,
       netProfitPercent,
       priceDelta: delta,
+      ...(quote && { quote }),
+      ...(valuation && { valuation }),
+      ...(screen.verdicts.length > 0 && { policy: screen.verdicts }),
+      ...(flashLoan && { flashLoan }),
       blockNumber: delta.buyPool.blockNumber,
+      ...(delta.detectionBlock !== undefined && { detectionBlock: delta.detectionBlock }),
       timestamp: Date.now(),
     };
 
@@ -376,42 +609,214 @@ export class OpportunityDetector extends EventEmitter {
     return opportunity;
   }
 
+  /**
+   * Quote a sized path on-chain. Each step is quoted at its modeled input
+   * (the modeled output of the step before), and the quoted round trip
+   * chains the per-step quoted rates, so one step's error does not hide
+   * behind another's. Steps without a quoter keep their modeled output.
+   * The quoted net profit swaps the modeled gross profit and slippage for
+   * the quoted output; flash loan and gas costs are unchanged.
+   */
+  private async verifyQuote(
+    verifier: QuoteVerifier,
+    path: SwapPath,
+    inputAmount: number,
+    costs: CostEstimate,
+  ): Promise<QuoteVerification> {
+    const amountsIn: number[] = [];
+    const modeledOuts: number[] = [];
+    let amount = inputAmount;
+    for (const [i, step] of path.steps.entries()) {
+      amountsIn.push(amount);
+      const out = this.simulateStep(step, amount);
+      if (out === null) throw new Error(`step ${i} cannot be modeled at input ${amount}`);
+      amount = out;
+      modeledOuts.push(amount);
+    }
+
+    const { amountsOut, blockNumber } = await verifier.quotePath(path.steps, amountsIn);
+    const steps: StepQuote[] = path.steps.map((_, i) => ({
+      amountIn: amountsIn[i],
+      modeledOut: modeledOuts[i],
+      ...(amountsOut[i] !== undefined && { quotedOut: amountsOut[i] }),
+    }));
+
+    let quotedOutput = inputAmount;
+    for (const step of steps) {
+      quotedOutput = step.amountIn > 0 ? quotedOutput * ((step.quotedOut ?? step.modeledOut) / step.amountIn) : 0;
+    }
+    const modeledOutput = amount - costs.slippageCost;
+
+    return {
+      steps,
+      modeledOutput,
+      quotedOutput,
+      quotedNetProfit: quotedOutput - inputAmount - (costs.totalCost - costs.slippageCost),
+      blockNumber,
+    };
+  }
+
+  /**
+   * Search snapshots for cycles from the configured base tokens that are
+   * profitable at spot prices after trading fees, best rate first. Every
+   * pool is a pair of directed edges (token0 → token1 and back); stale,
+   * manipulation-flagged and (when excluded) hooked pools are left out.
+   */
+  findCycles(snapshots: PriceSnapshot[]): ArbitrageCycle[] {
+    const edges: CycleEdge[] = [];
+    for (const snapshot of snapshots) {
+      if (this.isPoolStale(snapshot) || snapshot.suspectedManipulation) continue;
+      if (this.config.excludeHookedPools && hasHooks(snapshot.pool)) continue;
+      for (const tokenIn of [snapshot.pool.token0, snapshot.pool.token1]) {
+        const step = this.buildSwapStep(snapshot, tokenIn);
+        let feeRate: number;
+        try {
+          feeRate = this.getSwapFeeRate(step);
+        } catch {
+          continue; // e.g. an LB pool without its bin step
+        }
+        const rate = step.expectedPrice * (1 - feeRate);
+        if (!Number.isFinite(rate) || rate <= 0) continue;
+        edges.push({ tokenIn: step.tokenIn.toLowerCase(), tokenOut: step.tokenOut.toLowerCase(), snapshot, rate });
+      }
+    }
+    return findProfitableCycles(edges, this.config.cycleBaseTokens, this.config.maxCycleHops)
+      .filter((cycle) => cycle.rate - 1 <= MAX_CYCLE_PROFIT);
+  }
+
+  /**
+   * Size and cost a cycle found by findCycles and emit an opportunity if it
+   * clears the profit threshold. Mirrors analyzeDeltaAsync, and reports the
+   * same rejections through `opportunityRejected`, with the cycle in place
+   * of the delta.
+   *
+   * @param detectionBlock - Block of the detection pass the cycle was found in
+   */
+  async analyzeCycle(cycle: ArbitrageCycle, detectionBlock?: number): Promise<ArbitrageOpportunity | null> {
+    const snapshots = cycle.edges.map((e) => e.snapshot);
+    const path = this.buildCyclePath(cycle);
+    const ethPerBase = this.ethPerBase(path);
+    if (ethPerBase === undefined) {
+      return this.rejectCycle(cycle, `No ETH price for base token ${path.baseToken}`);
+    }
+    const screen = this.policy.screen(path, ethPerBase);
+    if (screen.rejection) return this.rejectCycle(cycle, policyRejection(screen.rejection));
+
+    let inputAmount = this.config.defaultInputAmount / ethPerBase;
+    let optimizationResult: OptimizationResult | undefined;
+    if (this.hasDepthData(path)) {
+      optimizationResult = this.optimizeInput(path, ethPerBase);
+      if (optimizationResult.fallbackReason === "no_profitable_size") {
+        return this.rejectCycle(cycle, "No profitable input size found");
+      }
+      inputAmount = optimizationResult.optimalAmount;
+    }
+
+    const dexCap = this.getDexInputCap(path, ethPerBase);
+    if (dexCap !== undefined && inputAmount > dexCap) {
+      inputAmount = dexCap;
+    }
+    inputAmount = this.applyPolicyCap(inputAmount, screen, ethPerBase);
+
+    let flashLoan: FlashLoanSelection | undefined;
+    if (this.flashLoanRouter) {
+      try {
+        flashLoan = await this.selectFlashLoan(this.flashLoanRouter, path, inputAmount);
+      } catch (err) {
+        return this.rejectCycle(cycle, `Flash loan unavailable: ${toError(err).message}`);
+      }
+    }
+
+    const grossProfit = this.calculateGrossProfit(path, inputAmount);
+    const costs = await this.estimateCostsWithL1(path, inputAmount, ethPerBase, flashLoan?.feeRate);
+    const netProfit = grossProfit - costs.totalCost;
+    const netProfitEth = netProfit * ethPerBase;
+
+    const shortfall = this.belowThreshold(netProfitEth, screen);
+    if (shortfall) return this.rejectCycle(cycle, shortfall);
+
+    let quote: QuoteVerification | undefined;
+    if (this.quoteVerifier) {
+      try {
+        quote = await this.verifyQuote(this.quoteVerifier, path, inputAmount, costs);
+      } catch (err) {
+        return this.rejectCycle(cycle, `Quote failed: ${toError(err).message}`);
+      }
+      const quotedShortfall = this.belowThreshold(quote.quotedNetProfit * ethPerBase, screen, "Quoted net profit");
+      if (quotedShortfall) return this.rejectCycle(cycle, `${quotedShortfall} (modeled ${netProfitEth.toFixed(6)})`);
+    }
+    if (this.isStateOrphaned(snapshots)) return this.rejectCycle(cycle, "Price state orphaned by reorg");
+
+    const valuation = this.valueOpportunity(path, ethPerBase, inputAmount, grossProfit, netProfit);
+    const opportunity: ArbitrageOpportunity = {
+      id: randomUUID(),
+      path,
+      inputAmount,
+      optimizationResult,
+      grossProfit,
+      costs,
+      netProfit,
+      netProfitPercent: (netProfit / inputAmount) * 100,
+      cycle,
+      ...(quote && { quote }),
+      ...(valuation && { valuation }),
+      ...(screen.verdicts.length > 0 && { policy: screen.verdicts }),
+      ...(flashLoan && { flashLoan }),
+      blockNumber: Math.min(...snapshots.map((s) => s.blockNumber)),
+      ...(detectionBlock !== undefined && { detectionBlock }),
+      timestamp: Date.now(),
+    };
+
+    this.emit("opportunityFound", opportunity);
+    return opportunity;
+  }
+
+  /** Report a cycle that was not taken */
+  private rejectCycle(cycle: ArbitrageCycle, reason: string): null {
+    this.emit("opportunityRejected", reason, undefined, cycle);
+    return null;
+  }
+
+  /** Build the swap path that trades around a cycle, borrowing its base token */
+  buildCyclePath(cycle: ArbitrageCycle): SwapPath {
+    const steps = cycle.edges.map((edge) => this.buildSwapStep(edge.snapshot, edge.tokenIn));
+    return {
+      steps,
+      baseToken: steps[0].tokenIn,
+      label: cycleLabel(cycle),
+    };
+  }
+
   /**
    * Build a swap path from a price delta.
    * For a simple 2-pool delta: buy on cheap DEX, sell on expensive DEX.
+   * Starts from token1 unless pairBaseTokens selects token0 for the pair,
+   * in which case token0 is sold on the expensive pool and bought back on
+   * the cheap one.
    */
   buildSwapPath(delta: PriceDelta): SwapPath {
     const { buyPool, sellPool } = delta;
+    const { token0, token1 } = buyPool.pool;
+
+    if (this.config.pairBaseTokens[pairKey(token0, token1)] === token0.toLowerCase()) {
+      // Step 1: Sell token0 on the expensive pool (swap token0 → token1)
+      const sellStep = this.buildSwapStep(sellPool, sellPool.pool.token0);
+
+      // Step 2: Buy token0 back on the cheap pool (swap token1 → token0)
+      const buyStep = this.buildSwapStep(buyPool, buyPool.pool.token1);
+
+      return {
+        steps: [sellStep, buyStep],
+        baseToken: token0,
+        label: `${sellPool.pool.label} → ${buyPool.pool.label}`,
+      };
+    }
 
     // Step 1: Buy token0 on the cheap pool (swap token1 → token0)
-    const buyStep: SwapStep = {
-      dex: buyPool.pool.dex,
-      poolAddress: buyPool.pool.poolAddress,
-      tokenIn: buyPool.pool.token1,
-      tokenOut: buyPool.pool.token0,
-      decimalsIn: buyPool.pool.decimals1,
-      decimalsOut: buyPool.pool.decimals0,
-      expectedPrice: buyPool.inversePrice,
-      feeTier: buyPool.pool.feeTier,
-      virtualReserveIn: this.computeVirtualReserveIn(
-        delta.buyPool, buyPool.pool.token1, buyPool.pool.decimals1,
-      ),
-    };
+    const buyStep = this.buildSwapStep(buyPool, buyPool.pool.token1);
 
     // Step 2: Sell token0 on the expensive pool (swap token0 → token1)
-    const sellStep: SwapStep = {
-      dex: sellPool.pool.dex,
-      poolAddress: sellPool.pool.poolAddress,
-      tokenIn: sellPool.pool.token0,
-      tokenOut: sellPool.pool.token1,
-      decimalsIn: sellPool.pool.decimals0,
-      decimalsOut: sellPool.pool.decimals1,
-      expectedPrice: sellPool.price,
-      feeTier: sellPool.pool.feeTier,
-      virtualReserveIn: this.computeVirtualReserveIn(
-        delta.sellPool, sellPool.pool.token0, sellPool.pool.decimals0,
-      ),
-    };
+    const sellStep = this.buildSwapStep(sellPool, sellPool.pool.token0);
 
     return {
       steps: [buyStep, sellStep],
@@ -420,6 +825,29 @@ export class OpportunityDetector extends EventEmitter {
     };
   }
 
+  /**
+   * Build the step that sells `tokenIn` (token0 or token1) through a pool,
+   * with the depth and protocol state the slippage model needs.
+   */
+  private buildSwapStep(snapshot: PriceSnapshot, tokenIn: string): SwapStep {
+    const pool = snapshot.pool;
+    const sellsToken0 = tokenIn.toLowerCase() === pool.token0.toLowerCase();
+    const decimalsIn = sellsToken0 ? pool.decimals0 : pool.decimals1;
+    return {
+      dex: pool.dex,
+      poolAddress: pool.poolAddress,
+      tokenIn: sellsToken0 ? pool.token0 : pool.token1,
+      tokenOut: sellsToken0 ? pool.token1 : pool.token0,
+      decimalsIn,
+      decimalsOut: sellsToken0 ? pool.decimals1 : pool.decimals0,
+      expectedPrice: sellsToken0 ? snapshot.price : snapshot.inversePrice,
+      feeTier: pool.feeTier,
+      virtualReserveIn: this.computeVirtualReserveIn(snapshot, tokenIn, decimalsIn),
+      concentratedLiquidity: this.buildConcentratedState(snapshot, tokenIn),
+      ...this.buildPoolStateFields(snapshot, tokenIn),
+    };
+  }
+
   /**
    * Build a triangular arbitrage path: A → B → C → A.
    * Takes three price snapshots forming a triangle.
@@ -438,6 +866,7 @@ export class OpportunityDetector extends EventEmitter {
       decimalsOut: snapAB.pool.decimals1,
       expectedPrice: snapAB.price,
       feeTier: snapAB.pool.feeTier,
+      ...this.buildPoolStateFields(snapAB, snapAB.pool.token0),
     };
 
     const stepBC: SwapStep = {
@@ -449,6 +878,7 @@ export class OpportunityDetector extends EventEmitter {
       decimalsOut: snapBC.pool.decimals1,
       expectedPrice: snapBC.price,
       feeTier: snapBC.pool.feeTier,
+      ...this.buildPoolStateFields(snapBC, snapBC.pool.token0),
     };
 
     const stepCA: SwapStep = {
@@ -460,6 +890,7 @@ export class OpportunityDetector extends EventEmitter {
       decimalsOut: snapCA.pool.decimals1,
       expectedPrice: snapCA.price,
       feeTier: snapCA.pool.feeTier,
+      ...this.buildPoolStateFields(snapCA, snapCA.pool.token0),
     };
 
     return {
@@ -470,34 +901,63 @@ export class OpportunityDetector extends EventEmitter {
   }
 
   /**
-   * Calculate gross profit for a swap path (before non-trading costs).
-   * Deducts DEX trading fees from each swap step, since fees reduce actual output.
-   *
-   * For a 2-step path (buy low, sell high):
+   * Calculate gross profit for a swap path (before non-trading costs): the
+   * output of chaining simulateStep through the path, minus the input.
+   * Steps with pool state swap through the pool's own math, so fees and
+   * price impact are part of the output. Steps without it fall back to spot
+   * price after fees; for a 2-step path of such steps:
    *   output = input * (1 - fee1) * price1 * (1 - fee2) * price2
    *   gross = output - input
+   * -Infinity when an amount along the path cannot be modeled.
    */
   calculateGrossProfit(path: SwapPath, inputAmount: number): number {
-    // Chain prices through the path, deducting DEX trading fees at each step
     let amount = inputAmount;
     for (const step of path.steps) {
-      const feeRate = this.getSwapFeeRate(step);
-      amount = amount * (1 - feeRate) * step.expectedPrice;
+      const out = this.simulateStep(step, amount);
+      // An amount the models cannot size is never worth trading
+      if (out === null) return -Infinity;
+      amount = out;
     }
-
-    // Gross profit = final amount - initial amount
     return amount - inputAmount;
   }
 
   /**
    * Get the trading fee rate for a swap step.
    * V3 pools: feeTier is in hundredths of a bip (500 = 0.05%, 3000 = 0.3%, 10000 = 1%)
-   * V2/Camelot V2 pools: standard 0.3% fee
-   * Trader Joe LB: feeTier is binStep in basis points (15 = 0.15%, 25 = 0.25%)
-   *   PLUS 50% buffer to account for volatility accumulator
+   * Camelot V3 / Ramses V3: live fee read by the monitor when present (Algebra
+   *   feeZto/feeOtz for the swap direction, Ramses fee()), in the same units
+   * Camelot V2: live token0FeePercent/token1FeePercent for the input token (100000 = 100%)
+   * V2 pools (and Camelot V2 without live fees): standard 0.3% fee
+   * Trader Joe LB: live base + variable fee read by the monitor (1e18 = 100%), else
+   *   feeTier (binStep in basis points) PLUS 50% buffer for the volatility accumulator
+   * Curve StableSwap: live fee() read by the monitor (1e10 = 100%)
+   * Balancer V2: live getSwapFeePercentage() read by the monitor (1e18 = 100%)
+   * Uniswap V4: live lpFee from slot0, else the PoolKey fee (0.3% for dynamic-fee pools)
    */
   private getSwapFeeRate(step: SwapStep): number {
+    if (step.dex === "curve_stableswap") {
+      if (step.stableSwap) return Number(step.stableSwap.fee) / 1e10;
+      return 0.0004; // Curve stable pools commonly charge 4 bps
+    }
+
+    if (step.dex === "balancer_v2") {
+      if (step.balancer) return Number(step.balancer.swapFee) / 1e18;
+      return 0.003;
+    }
+
+    if (step.dex === "uniswap_v4") {
+      if (step.lpFee !== undefined) return step.lpFee / 1_000_000;
+      if (step.feeTier === undefined || step.feeTier === V4_DYNAMIC_FEE_FLAG) return 0.003;
+      return step.feeTier / 1_000_000;
+    }
+
+    if (step.dex === "camelot_v2" && step.camelotV2) {
+      const { pair, zeroForOne } = step.camelotV2;
+      return (zeroForOne ? pair.token0FeePercent : pair.token1FeePercent) / CAMELOT_FEE_DENOMINATOR;
+    }
+
     if (step.dex === "traderjoe_lb") {
+      if (step.lbFee !== undefined) return Number(step.lbFee) / 1e18;
       // LB: feeTier is binStep in basis points
       // Apply 50% buffer: effective fee = base fee * 1.5
       if (step.feeTier === undefined) {
@@ -507,8 +967,13 @@ export class OpportunityDetector extends EventEmitter {
       return baseFee * 1.5; // 50% buffer
     }
 
+    if (step.lpFee !== undefined) {
+      // CamelotV3/RamsesV3: live fee in hundredths of a bip
+      return step.lpFee / 1_000_000;
+    }
+
     if (step.feeTier !== undefined) {
-      // UniV3/SushiV3/CamelotV3: feeTier in hundredths of a bip
+      // UniV3/SushiV3/CamelotV3/RamsesV3: feeTier in hundredths of a bip
       return step.feeTier / 1_000_000;
     }
     // V2-style pools (SushiSwap V2, Camelot V2, Uniswap V2): standard 0.3%
@@ -517,28 +982,34 @@ export class OpportunityDetector extends EventEmitter {
 
   /**
    * Estimate all costs for executing an arbitrage path.
+   *
+   * @param ethPerBase - ETH per base token, to bring the ETH gas cost into totalCost
+   * @param flashLoanFeeRate - Fee of the provider funding the loan (default: cheapest configured)
    */
-  estimateCosts(path: SwapPath, inputAmount: number): CostEstimate {
-    const flashLoanFee = this.estimateFlashLoanFee(inputAmount);
-    const gasCost = this.estimateGasCost(path.steps.length);
+  estimateCosts(path: SwapPath, inputAmount: number, ethPerBase = 1, flashLoanFeeRate?: number): CostEstimate {
+    const flashLoanFee = this.estimateFlashLoanFee(inputAmount, flashLoanFeeRate);
+    const gasCostEth = this.estimateGasCost(path.steps.length);
     const slippageCost = this.estimateSlippage(path, inputAmount);
 
     return {
       flashLoanFee,
-      gasCost,
+      gasCostEth,
       slippageCost,
-      totalCost: flashLoanFee + gasCost + slippageCost,
+      totalCost: flashLoanFee + gasCostEth / ethPerBase + slippageCost,
     };
   }
 
   /**
    * Estimate flash loan fee.
-   * Uses the cheapest available provider (dYdX/Balancer = 0, Aave = 0.05%).
+   * Uses `feeRate` when the funding provider is known, else the cheapest
+   * configured provider (dYdX/Balancer = 0, Aave = 0.05%, Uniswap V3 = the
+   * lending pool's fee tier).
    */
-  estimateFlashLoanFee(inputAmount: number): number {
+  estimateFlashLoanFee(inputAmount: number, feeRate?: number): number {
+    if (feeRate !== undefined) return inputAmount * feeRate;
     const fees = this.config.flashLoanFees;
     // Pick the cheapest provider
-    const minFeeRate = Math.min(fees.aaveV3, fees.dydx, fees.balancer);
+    const minFeeRate = Math.min(fees.aaveV3, fees.dydx, fees.balancer, fees.uniswapV3);
     return inputAmount * minFeeRate;
   }
 
@@ -553,59 +1024,102 @@ export class OpportunityDetector extends EventEmitter {
   }
 
   /**
-   * Estimate slippage cost using pool-aware AMM simulation when reserve data
-   * is available, otherwise falls back to the static maxSlippage model.
-   *
-   * Pool-aware mode compares spot output (no price impact) vs AMM-simulated
-   * output (with constant-product price impact). The difference is the slippage cost.
-   *
-   * For V2 pools: uses actual reserves from getReserves()
-   * For V3 pools: uses virtual reserves computed from liquidity L and sqrtPriceX96
+   * Estimate slippage cost not already in the modeled output. When any step
+   * has depth data, calculateGrossProfit's output carries the price impact
+   * and this is 0; otherwise it is the static maxSlippage model.
    */
   estimateSlippage(path: SwapPath, inputAmount: number): number {
-    const hasReserveData = path.steps.some(
-      (s) => s.virtualReserveIn !== undefined && s.virtualReserveIn > 0,
-    );
-
-    if (!hasReserveData) {
-      // Fallback: static slippage model (compound across steps)
-      const slippageMultiplier =
-        1 - (1 - this.config.maxSlippage) ** path.steps.length;
-      return inputAmount * slippageMultiplier;
-    }
+    if (this.hasDepthData(path)) return 0;
 
-    // Pool-aware: simulate AMM output and compare to spot output
-    const grossProfit = this.calculateGrossProfit(path, inputAmount);
-    const spotOutput = inputAmount + grossProfit;
+    // Static slippage model (compound across steps)
+    const slippageMultiplier =
+      1 - (1 - this.config.maxSlippage) ** path.steps.length;
+    return inputAmount * slippageMultiplier;
+  }
 
-    // Trace through each step with AMM price impact
-    let amount = inputAmount;
-    for (const step of path.steps) {
-      const feeRate = this.getSwapFeeRate(step);
-      const amountAfterFee = amount * (1 - feeRate);
-
-      if (step.virtualReserveIn !== undefined && step.virtualReserveIn > 0) {
-        // AMM constant-product impact: actual output < spot output
-        // impact = amountIn / (reserveIn + amountIn)
-        const impact = amountAfterFee / (step.virtualReserveIn + amountAfterFee);
-        amount = amountAfterFee * (1 - impact) * step.expectedPrice;
-      } else {
-        // No reserve data for this step: assume no additional impact
-        amount = amountAfterFee * step.expectedPrice;
-      }
+  /**
+   * Output of one step for `amount` of its tokenIn. Null when `amount` is
+   * not a finite number, which has no raw token amount to swap.
+   *
+   * For Uniswap V2 / SushiSwap pairs: integer getAmountOut on the getReserves() reserves
+   * For V3 pools with tick data: replays the pool's swap loop in integer
+   *   TickMath/SqrtPriceMath/SwapMath (input beyond the loaded window yields no output)
+   * For other V3 pools: constant-product impact on virtual reserves from liquidity L and sqrtPriceX96
+   * For Curve pools: solves the StableSwap invariant (fee taken from the output, as on-chain)
+   * For Balancer pools: weighted or stable math on Vault balances (fee taken from the input)
+   * For Trader Joe LB pools with bin data: replays the pair's integer bin math
+   *   bin by bin (input beyond the loaded bins yields no output)
+   * For Camelot V2 pairs with live settings: the pair's own getAmountOut
+   *   (directional fee from the input; x³y + xy³ invariant for stable pairs)
+   * Steps without depth data: spot price after fees
+   */
+  private simulateStep(step: SwapStep, amount: number): number | null {
+    if (!Number.isFinite(amount)) return null;
+    const feeRate = this.getSwapFeeRate(step);
+    const amountAfterFee = amount * (1 - feeRate);
+
+    if (step.stableSwap && step.coinIndices) {
+      const [i, j] = step.coinIndices;
+      const dx = BigInt(Math.floor(amount * 10 ** step.decimalsIn));
+      return Number(getDy(step.stableSwap, i, j, dx)) / 10 ** step.decimalsOut;
+    }
+    if (step.balancer && step.coinIndices) {
+      const [i, j] = step.coinIndices;
+      const amountIn = BigInt(Math.floor(amount * 10 ** step.decimalsIn));
+      return Number(balancerAmountOut(step.balancer, i, j, amountIn)) / 10 ** step.decimalsOut;
+    }
+    if (step.concentratedLiquidity) {
+      // Pool's own swap loop in integer math, fee charged per tick range
+      const amountIn = BigInt(Math.floor(amount * 10 ** step.decimalsIn));
+      const feePips = Math.round(feeRate * 1_000_000);
+      const result = swapExactInput(step.concentratedLiquidity, step.concentratedLiquidity.zeroForOne, amountIn, feePips);
+      return Number(result.amountOut) / 10 ** step.decimalsOut;
+    }
+    if (step.lbBins) {
+      // Pair's own bin math, fee charged per bin
+      const { bins, activeId, binStep, swapForY } = step.lbBins;
+      const amountIn = BigInt(Math.floor(amount * 10 ** step.decimalsIn));
+      const totalFee = step.lbFee ?? BigInt(Math.round(feeRate * 1e18));
+      const result = lbSwapExactInput(bins, activeId, binStep, swapForY, amountIn, totalFee);
+      return Number(result.amountOut) / 10 ** step.decimalsOut;
+    }
+    if (step.camelotV2) {
+      const { pair, zeroForOne } = step.camelotV2;
+      const amountIn = BigInt(Math.floor(amount * 10 ** step.decimalsIn));
+      return Number(camelotAmountOut(pair, zeroForOne, amountIn)) / 10 ** step.decimalsOut;
     }
+    if (step.reserves) {
+      const [reserveIn, reserveOut] = step.reserves;
+      const amountIn = BigInt(Math.floor(amount * 10 ** step.decimalsIn));
+      return Number(getAmountOut(amountIn, reserveIn, reserveOut, Math.round(feeRate * 1_000_000))) / 10 ** step.decimalsOut;
+    }
+    if (step.virtualReserveIn !== undefined && step.virtualReserveIn > 0) {
+      // AMM constant-product impact: actual output < spot output
+      // impact = amountIn / (reserveIn + amountIn)
+      const impact = amountAfterFee / (step.virtualReserveIn + amountAfterFee);
+      return amountAfterFee * (1 - impact) * step.expectedPrice;
+    }
+    // No reserve data for this step: assume no additional impact
+    return amountAfterFee * step.expectedPrice;
+  }
 
-    const slippageCost = spotOutput - amount;
-    return Math.max(0, slippageCost);
+  /** Whether any step has depth data that simulateStep can model price impact from */
+  private hasDepthData(path: SwapPath): boolean {
+    return path.steps.some(
+      (s) => (s.virtualReserveIn !== undefined && s.virtualReserveIn > 0) || s.lbBins !== undefined,
+    );
   }
 
   /**
-   * Get the minimum per-DEX input cap across all steps in a path.
+   * Get the minimum per-DEX input cap across all steps in a path, in base
+   * token units (caps are configured in ETH).
+   * Steps simulated from loaded LB bins are sized by their depth instead.
    * Returns undefined if no step's DEX has a cap configured.
    */
-  private getDexInputCap(path: SwapPath): number | undefined {
+  private getDexInputCap(path: SwapPath, ethPerBase = 1): number | undefined {
     let minCap: number | undefined;
     for (const step of path.steps) {
+      if (step.lbBins) continue;
       const cap = this.maxInputByDex[step.dex];
       if (cap !== undefined) {
         if (minCap === undefined || cap < minCap) {
@@ -613,64 +1127,262 @@ export class OpportunityDetector extends EventEmitter {
         }
       }
     }
-    return minCap;
+    return minCap === undefined ? undefined : minCap / ethPerBase;
   }
 
   /**
    * Compute a reserve-based cap for the optimizer search range.
-   * Returns the minimum virtual reserve across all steps (scaled to 30% of depth),
-   * or undefined if no reserve data is available.
+   * Returns the smallest per-step cap, or undefined if no reserve data is available:
+   * - V3 steps with tick data: the input that moves the price to the edge of the
+   *   loaded tick window, converted back to base token units
+   * - LB steps with bin data: the input that drains the loaded bins, likewise
+   * - Other steps: 30% of the virtual reserve
    *
    * Prevents the optimizer from testing absurd input sizes on thin pools
    * (e.g., 500 ETH on a pool with only 8.3 WETH liquidity).
    */
-  private computeReserveCap(path: SwapPath): number | undefined {
-    let minReserve: number | undefined;
+  private computeReserveCap(path: SwapPath, ethPerBase = 1): number | undefined {
+    let minCap: number | undefined;
     let hasUnknownStep = false;
+    let baseToStepIn = 1; // Spot conversion from base token to this step's tokenIn
 
     for (const step of path.steps) {
-      if (step.virtualReserveIn !== undefined && step.virtualReserveIn > 0) {
-        if (minReserve === undefined || step.virtualReserveIn < minReserve) {
-          minReserve = step.virtualReserveIn;
-        }
+      let cap: number | undefined;
+      if (step.concentratedLiquidity) {
+        // Input the pool's swap loop consumes before leaving the window, fees included
+        const state = step.concentratedLiquidity;
+        const feePips = Math.round(this.getSwapFeeRate(step) * 1_000_000);
+        const { amountIn } = swapExactInput(state, state.zeroForOne, UNBOUNDED_INPUT, feePips);
+        cap = Number(amountIn) / 10 ** step.decimalsIn / baseToStepIn;
+      } else if (step.lbBins) {
+        const { bins, activeId, binStep, swapForY } = step.lbBins;
+        const totalFee = step.lbFee ?? BigInt(Math.round(this.getSwapFeeRate(step) * 1e18));
+        const { amountIn } = lbSwapExactInput(bins, activeId, binStep, swapForY, UNBOUNDED_INPUT, totalFee);
+        cap = Number(amountIn) / 10 ** step.decimalsIn / baseToStepIn;
+      } else if (step.virtualReserveIn !== undefined && step.virtualReserveIn > 0) {
+        cap = step.virtualReserveIn * 0.3;
       } else {
         hasUnknownStep = true;
       }
+      if (cap !== undefined && (minCap === undefined || cap < minCap)) {
+        minCap = cap;
+      }
+      baseToStepIn *= step.expectedPrice;
     }
 
     // If any step lacks reserve data, apply per-DEX cap as conservative bound
     if (hasUnknownStep) {
-      const dexCap = this.getDexInputCap(path);
-      if (dexCap !== undefined) {
-        if (minReserve === undefined || dexCap < minReserve * 0.3) {
-          return dexCap;
-        }
+      const dexCap = this.getDexInputCap(path, ethPerBase);
+      if (dexCap !== undefined && (minCap === undefined || dexCap < minCap)) {
+        return dexCap;
       }
-      // If no per-DEX cap and no reserve data at all, return undefined (fallback to default)
-      if (minReserve === undefined) return undefined;
     }
 
-    // Cap at 30% of the shallowest pool's depth
-    return minReserve! * 0.3;
+    // Undefined when no step has reserve data (fallback to default)
+    return minCap;
   }
 
   /** Check if a pool is marked as stale */
   private isPoolStale(snapshot: PriceSnapshot): boolean {
-    return this.stalePools.has(snapshot.pool.poolAddress.toLowerCase());
+    return this.stalePools.has(poolStateKey(snapshot.pool));
+  }
+
+  /** Check if either side of a delta was read at a block orphaned by a later reorg */
+  private isDeltaOrphaned(delta: PriceDelta): boolean {
+    return this.isStateOrphaned([delta.buyPool, delta.sellPool]);
+  }
+
+  /** Check if any snapshot was read at a block orphaned by a later reorg */
+  private isStateOrphaned(snapshots: PriceSnapshot[]): boolean {
+    return this.recentReorgs.some((reorg) =>
+      snapshots.some(
+        (snapshot) => snapshot.blockNumber >= reorg.fromBlock && snapshot.timestamp < reorg.timestamp,
+      ),
+    );
   }
 
   /**
    * Build a profit function for input optimization.
    * Wraps existing cost estimation logic to compute net profit for any input amount.
    */
-  private buildProfitFunction(path: SwapPath): (inputAmount: number) => number {
+  private buildProfitFunction(path: SwapPath, ethPerBase = 1): (inputAmount: number) => number {
     return (inputAmount: number) => {
       const grossProfit = this.calculateGrossProfit(path, inputAmount);
-      const costs = this.estimateCosts(path, inputAmount);
+      const costs = this.estimateCosts(path, inputAmount, ethPerBase);
       return grossProfit - costs.totalCost;
     };
   }
 
+  /**
+   * Size a path's input with the optimizer. Its search range is configured
+   * in ETH, so the search runs over ETH-valued input and profit; the result
+   * is converted back to base token units.
+   */
+  private optimizeInput(path: SwapPath, ethPerBase: number): OptimizationResult {
+    const profitFn = this.buildProfitFunction(path, ethPerBase);
+    // Cap search range to 30% of buy pool depth to avoid testing absurd sizes
+    const reserveCap = this.computeReserveCap(path, ethPerBase);
+    const result = this.optimizer.optimize(
+      path,
+      (inputEth) => profitFn(inputEth / ethPerBase) * ethPerBase,
+      reserveCap === undefined ? undefined : reserveCap * ethPerBase,
+    );
+    return {
+      ...result,
+      optimalAmount: result.optimalAmount / ethPerBase,
+      expectedProfit: result.expectedProfit / ethPerBase,
+    };
+  }
+
+  /**
+   * Pick the provider to borrow a path's input from (amount in the base
+   * token's raw units). The path's own pools are never borrowed from.
+   */
+  private selectFlashLoan(router: FlashLoanRouter, path: SwapPath, inputAmount: number): Promise<FlashLoanSelection> {
+    const amount = BigInt(Math.floor(inputAmount * 10 ** path.steps[0].decimalsIn));
+    return router.select(path.baseToken, amount, path.steps.map((s) => s.poolAddress));
+  }
+
+  /** ETH per unit of a path's base token: 1 without a valuation, undefined when it has no price */
+  private ethPerBase(path: SwapPath): number | undefined {
+    return this.valuation ? this.valuation.ethPerToken(path.baseToken) : 1;
+  }
+
+  /** ETH and USD values of an opportunity's amounts, when a valuation is configured */
+  private valueOpportunity(
+    path: SwapPath,
+    ethPerBase: number,
+    inputAmount: number,
+    grossProfit: number,
+    netProfit: number,
+  ): OpportunityValuation | undefined {
+    if (!this.valuation) return undefined;
+    const netProfitEth = netProfit * ethPerBase;
+    const usdPerEth = this.valuation.usdPerEth();
+    return {
+      baseToken: path.baseToken,
+      ethPerBase,
+      inputAmountEth: inputAmount * ethPerBase,
+      grossProfitEth: grossProfit * ethPerBase,
+      netProfitEth,
+      ...(usdPerEth !== undefined && { usdPerEth, netProfitUsd: netProfitEth * usdPerEth }),
+    };
+  }
+
+  /**
+   * Build the tick-by-tick simulation state for a V3 swap step.
+   * Returns undefined unless the snapshot carries a loaded tick window.
+   */
+  private buildConcentratedState(
+    snapshot: PriceSnapshot,
+    tokenIn: string,
+  ): ConcentratedLiquidityState | undefined {
+    const { sqrtPriceX96, liquidity, tick, tickLiquidity } = snapshot;
+    if (sqrtPriceX96 === undefined || liquidity === undefined || tick === undefined || !tickLiquidity) {
+      return undefined;
+    }
+    return {
+      sqrtPriceX96,
+      liquidity,
+      tick,
+      window: tickLiquidity,
+      zeroForOne: tokenIn.toLowerCase() === snapshot.pool.token0.toLowerCase(),
+    };
+  }
+
+  /**
+   * Protocol-specific fields for a swap step selling `tokenIn`: coin indices
+   * and invariant state for Curve and Balancer, the PoolKey parts and live fee
+   * for Uniswap V4, loaded bins and live fee for Trader Joe LB, the live fee for
+   * Camelot V3 and Ramses V3, reserves and pair settings for Camelot V2, raw
+   * reserves for Uniswap V2 and SushiSwap. Empty for every other protocol.
+   */
+  private buildPoolStateFields(
+    snapshot: PriceSnapshot,
+    tokenIn: string,
+  ): Pick<
+    SwapStep,
+    "coinIndices" | "stableSwap" | "poolId" | "balancer" | "tickSpacing" | "hooks" | "lpFee" | "lbBins" | "lbFee" | "camelotV2" | "reserves"
+  > {
+    const pool = snapshot.pool;
+    const sellsToken0 = tokenIn.toLowerCase() === pool.token0.toLowerCase();
+
+    if ((pool.dex === "uniswap_v2" || pool.dex === "sushiswap") && snapshot.reserves) {
+      const [reserve0, reserve1] = snapshot.reserves;
+      return { reserves: sellsToken0 ? [reserve0, reserve1] : [reserve1, reserve0] };
+    }
+
+    if (pool.dex === "camelot_v2") {
+      if (!snapshot.camelotV2 || !snapshot.reserves) return {};
+      return {
+        camelotV2: {
+          pair: {
+            ...snapshot.camelotV2,
+            reserves: snapshot.reserves,
+            decimals: [pool.decimals0, pool.decimals1],
+          },
+          zeroForOne: sellsToken0,
+        },
+      };
+    }
+
+    if (pool.dex === "camelot_v3") {
+      if (!snapshot.algebraFees) return {};
+      return { lpFee: sellsToken0 ? snapshot.algebraFees.zeroForOne : snapshot.algebraFees.oneForZero };
+    }
+
+    if (pool.dex === "ramses_v3") {
+      return snapshot.lpFee !== undefined ? { lpFee: snapshot.lpFee } : {};
+    }
+
+    if (pool.dex === "traderjoe_lb") {
+      const fields: Pick<SwapStep, "lbBins" | "lbFee"> = {
+        ...(snapshot.lbFee !== undefined && { lbFee: snapshot.lbFee }),
+      };
+      if (snapshot.lbBins && snapshot.activeId !== undefined && pool.feeTier) {
+        // invertPrice marks pools whose tokenX is token1
+        const tokenX = pool.invertPrice ? pool.token1 : pool.token0;
+        fields.lbBins = {
+          activeId: snapshot.activeId,
+          binStep: pool.feeTier,
+          bins: snapshot.lbBins.bins,
+          swapForY: tokenIn.toLowerCase() === tokenX.toLowerCase(),
+        };
+      }
+      return fields;
+    }
+
+    if (pool.dex === "uniswap_v4") {
+      return {
+        poolId: pool.poolId,
+        tickSpacing: pool.tickSpacing,
+        ...(pool.hooks && { hooks: pool.hooks }),
+        ...(snapshot.lpFee !== undefined && { lpFee: snapshot.lpFee }),
+      };
+    }
+
+    if (pool.dex === "balancer_v2") {
+      const fields: Pick<SwapStep, "coinIndices" | "poolId" | "balancer"> = { poolId: pool.poolId };
+      if (snapshot.balancer) {
+        const tokens = snapshot.balancer.tokens.map((t) => t.toLowerCase());
+        const i0 = tokens.indexOf(pool.token0.toLowerCase());
+        const i1 = tokens.indexOf(pool.token1.toLowerCase());
+        if (i0 >= 0 && i1 >= 0) {
+          fields.coinIndices = sellsToken0 ? [i0, i1] : [i1, i0];
+          fields.balancer = snapshot.balancer;
+        }
+      }
+      return fields;
+    }
+
+    if (pool.dex !== "curve_stableswap") return {};
+    const [i0, i1] = pool.coinIndices ?? [0, 1];
+    return {
+      coinIndices: sellsToken0 ? [i0, i1] : [i1, i0],
+      ...(snapshot.stableSwap && { stableSwap: snapshot.stableSwap }),
+    };
+  }
+
   /**
    * Compute the virtual reserve of the input token for slippage estimation.
    *
@@ -678,6 +1390,7 @@ export class OpportunityDetector extends EventEmitter {
    * V3 pools: computes virtual reserves from in-range liquidity L and sqrtPriceX96
    *   - token0 virtual reserve = L / sqrt(P)
    *   - token1 virtual reserve = L * sqrt(P)
+   * Curve / Balancer pools: the pool's balance of the input coin
    *
    * Returns undefined when reserve data is not available (falls back to static slippage).
    */
@@ -695,6 +1408,20 @@ export class OpportunityDetector extends EventEmitter {
       return Number(reserveRaw) / 10 ** decimalsIn;
     }
 
+    // Curve: balance of the input coin
+    if (snapshot.stableSwap) {
+      const [i0, i1] = pool.coinIndices ?? [0, 1];
+      const isToken0 = tokenIn.toLowerCase() === pool.token0.toLowerCase();
+      return Number(snapshot.stableSwap.balances[isToken0 ? i0 : i1]) / 10 ** decimalsIn;
+    }
+
+    // Balancer: Vault balance of the input token
+    if (snapshot.balancer) {
+      const k = snapshot.balancer.tokens.findIndex((t) => t.toLowerCase() === tokenIn.toLowerCase());
+      if (k < 0) return undefined;
+      return Number(snapshot.balancer.balances[k]) / 10 ** decimalsIn;
+    }
+
     // V3: compute virtual reserves from L and sqrtPriceX96
     if (snapshot.liquidity !== undefined && snapshot.sqrtPriceX96 !== undefined) {
       const L = Number(snapshot.liquidity);
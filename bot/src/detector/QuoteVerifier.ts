@@ -0,0 +1,164 @@
+import { Interface } from "ethers";
+import type { ChainConfig } from "../config/chains/types.js";
+import type { DEXProtocol } from "../monitor/types.js";
+import { aggregate3, MULTICALL3_ADDRESS, type MulticallRequest } from "../monitor/multicall.js";
+import type { QuoteVerifierConfig, SwapStep } from "./types.js";
+
+// Uniswap V3 / SushiSwap V3 QuoterV2
+const QUOTER_V2_ABI = [
+  "function quoteExactInputSingle(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+];
+
+// Uniswap V2 / SushiSwap / Camelot V2 routers
+const V2_ROUTER_ABI = [
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+];
+
+// Trader Joe LBQuoter
+const LB_QUOTER_ABI = [
+  "function findBestPathFromAmountIn(address[] route, uint128 amountIn) view returns (tuple(address[] route, address[] pairs, uint256[] binSteps, uint8[] versions, uint128[] amounts, uint128[] virtualAmountsWithoutSlippage, uint128[] fees) quote)",
+];
+
+// Algebra (Camelot V3) quoter
+const ALGEBRA_QUOTER_ABI = [
+  "function quoteExactInputSingle(address tokenIn, address tokenOut, uint256 amountIn, uint160 limitSqrtPrice) returns (uint256 amountOut, uint16 fee)",
+];
+
+const MULTICALL3_BLOCK_ABI = ["function getBlockNumber() view returns (uint256 blockNumber)"];
+
+const quoterV2Iface = new Interface(QUOTER_V2_ABI);
+const v2RouterIface = new Interface(V2_ROUTER_ABI);
+const lbQuoterIface = new Interface(LB_QUOTER_ABI);
+const algebraQuoterIface = new Interface(ALGEBRA_QUOTER_ABI);
+const multicallBlockIface = new Interface(MULTICALL3_BLOCK_ABI);
+
+/** Protocols whose quoter speaks each ABI */
+const QUOTER_V2_DEXES: DEXProtocol[] = ["uniswap_v3", "sushiswap_v3"];
+const V2_ROUTER_DEXES: DEXProtocol[] = ["uniswap_v2", "sushiswap", "camelot_v2"];
+
+/** Quoters for the protocols a chain config lists */
+export function quotersFromDexes(dexes: ChainConfig["dexes"]): Partial<Record<DEXProtocol, string>> {
+  const quoters: Partial<Record<DEXProtocol, string>> = {};
+  if (dexes.uniswapV3?.quoter) quoters.uniswap_v3 = dexes.uniswapV3.quoter;
+  if (dexes.sushiswapV3?.quoter) quoters.sushiswap_v3 = dexes.sushiswapV3.quoter;
+  if (dexes.camelotV3?.quoter) quoters.camelot_v3 = dexes.camelotV3.quoter;
+  if (dexes.uniswapV2?.router) quoters.uniswap_v2 = dexes.uniswapV2.router;
+  if (dexes.sushiswapV2?.router) quoters.sushiswap = dexes.sushiswapV2.router;
+  if (dexes.camelot?.router) quoters.camelot_v2 = dexes.camelot.router;
+  if (dexes.traderjoeLB?.quoter) quoters.traderjoe_lb = dexes.traderjoeLB.quoter;
+  return quoters;
+}
+
+/** Quoted outputs of a path, one per step (undefined where the step's protocol has no quoter) */
+export interface PathQuote {
+  amountsOut: Array<number | undefined>;
+  blockNumber: number;
+}
+
+/**
+ * Quotes swap steps through each protocol's own on-chain quoter at the
+ * latest block: QuoterV2 for Uniswap/SushiSwap V3, the router's
+ * getAmountsOut for V2 forks, LBQuoter for Trader Joe LB and the Algebra
+ * quoter for Camelot V3. All quotes of a path, plus the block number they
+ * were read at, go out in a single Multicall3 batch.
+ *
+ * Steps are quoted independently, each at the input the caller passes for
+ * it, since a quoter cannot see the previous step's output. A step whose
+ * quoter reverts, or an LB quote routed through a different pair than the
+ * step's, fails the whole path.
+ */
+export class QuoteVerifier {
+  private readonly config: QuoteVerifierConfig;
+
+  constructor(config: QuoteVerifierConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Quote each step at `amountsIn[i]` (tokenIn units). Outputs are in
+   * tokenOut units. Throws when a quote fails.
+   */
+  async quotePath(steps: SwapStep[], amountsIn: number[]): Promise<PathQuote> {
+    const rawIn = steps.map((step, i) => BigInt(Math.floor(amountsIn[i] * 10 ** step.decimalsIn)));
+    const quoted = steps.map((step, i) => ({ step, index: i, call: this.quoteCall(step, rawIn[i]) }))
+      .filter((q) => q.call !== undefined);
+
+    const calls: MulticallRequest[] = [
+      {
+        target: MULTICALL3_ADDRESS,
+        allowFailure: false,
+        callData: multicallBlockIface.encodeFunctionData("getBlockNumber"),
+      },
+      ...quoted.map((q) => ({ target: q.call!.target, allowFailure: true, callData: q.call!.callData })),
+    ];
+    const [blockResult, ...results] = await aggregate3(this.config.provider, calls);
+
+    const amountsOut: Array<number | undefined> = steps.map(() => undefined);
+    quoted.forEach(({ step, index }, i) => {
+      const result = results[i];
+      if (!result.success || result.returnData === "0x") {
+        throw new Error(`Quote reverted for step ${index + 1} (${step.dex} ${step.poolAddress})`);
+      }
+      amountsOut[index] = Number(this.decodeAmountOut(step, result.returnData)) / 10 ** step.decimalsOut;
+    });
+
+    const blockNumber = Number(multicallBlockIface.decodeFunctionResult("getBlockNumber", blockResult.returnData)[0]);
+    return { amountsOut, blockNumber };
+  }
+
+  /** The quoter call for a step, or undefined when its protocol has no quoter */
+  private quoteCall(step: SwapStep, amountIn: bigint): { target: string; callData: string } | undefined {
+    const target = this.config.quoters[step.dex];
+    if (!target) return undefined;
+
+    if (QUOTER_V2_DEXES.includes(step.dex)) {
+      if (step.feeTier === undefined) return undefined;
+      return {
+        target,
+        callData: quoterV2Iface.encodeFunctionData("quoteExactInputSingle", [
+          { tokenIn: step.tokenIn, tokenOut: step.tokenOut, amountIn, fee: step.feeTier, sqrtPriceLimitX96: 0n },
+        ]),
+      };
+    }
+    if (V2_ROUTER_DEXES.includes(step.dex)) {
+      return {
+        target,
+        callData: v2RouterIface.encodeFunctionData("getAmountsOut", [amountIn, [step.tokenIn, step.tokenOut]]),
+      };
+    }
+    if (step.dex === "traderjoe_lb") {
+      return {
+        target,
+        callData: lbQuoterIface.encodeFunctionData("findBestPathFromAmountIn", [[step.tokenIn, step.tokenOut], amountIn]),
+      };
+    }
+    if (step.dex === "camelot_v3") {
+      return {
+        target,
+        callData: algebraQuoterIface.encodeFunctionData("quoteExactInputSingle", [step.tokenIn, step.tokenOut, amountIn, 0n]),
+      };
+    }
+    return undefined;
+  }
+
+  /** Raw tokenOut amount from a quoter's return data */
+  private decodeAmountOut(step: SwapStep, returnData: string): bigint {
+    if (QUOTER_V2_DEXES.includes(step.dex)) {
+      return quoterV2Iface.decodeFunctionResult("quoteExactInputSingle", returnData)[0] as bigint;
+    }
+    if (V2_ROUTER_DEXES.includes(step.dex)) {
+      const amounts = v2RouterIface.decodeFunctionResult("getAmountsOut", returnData)[0] as bigint[];
+      return amounts[amounts.length - 1];
+    }
+    if (step.dex === "traderjoe_lb") {
+      const quote = lbQuoterIface.decodeFunctionResult("findBestPathFromAmountIn", returnData)[0];
+      const pair = (quote.pairs as string[])[0];
+      if (pair?.toLowerCase() !== step.poolAddress.toLowerCase()) {
+        throw new Error(`LBQuoter routed step through ${pair} instead of ${step.poolAddress}`);
+      }
+      const amounts = quote.amounts as bigint[];
+      return amounts[amounts.length - 1];
+    }
+    return algebraQuoterIface.decodeFunctionResult("quoteExactInputSingle", returnData)[0] as bigint;
+  }
+}
@@ -0,0 +1,118 @@
+import type { PoolConfig, PriceSnapshot } from "../monitor/types.js";
+import { poolStateKey } from "../monitor/poolEvents.js";
+import type { ArbitrageOpportunity, TokenValuationConfig } from "./types.js";
+
+/** A WETH pair's latest price for its other token */
+interface PairPrice {
+  ethPerToken: number;
+  /** WETH-side liquidity the monitor measured (0 when unmeasured) */
+  liquidityWeth: number;
+}
+
+/**
+ * Values tokens in ETH from the prices of monitored WETH pairs.
+ *
+ * Every snapshot of a pool with WETH on one side prices the other token
+ * in ETH. A token priced by several pairs takes the price of the deepest
+ * one by measured WETH liquidity (the latest snapshot among unmeasured
+ * pairs); pools the monitor found non-viable do not price anything until
+ * they recover. Tokens only traded against non-WETH tokens have no price.
+ * USD values go through the first configured stablecoin with a price,
+ * taken at $1.
+ */
+export class TokenValuation {
+  private readonly weth: string;
+  private readonly usdTokens: string[];
+  /** Token → pool key → that pool's price, in update order */
+  private readonly pairPrices = new Map<string, Map<string, PairPrice>>();
+  private readonly nonViable = new Set<string>();
+
+  constructor(config: TokenValuationConfig) {
+    this.weth = config.wethAddress.toLowerCase();
+    this.usdTokens = (config.usdTokens ?? []).map((t) => t.toLowerCase());
+  }
+
+  /** Record the ETH price of the non-WETH side of a WETH pair */
+  update(snapshot: PriceSnapshot): void {
+    if (snapshot.suspectedManipulation) return;
+    const poolKey = poolStateKey(snapshot.pool);
+    if (this.nonViable.has(poolKey)) return;
+    const token0 = snapshot.pool.token0.toLowerCase();
+    const token1 = snapshot.pool.token1.toLowerCase();
+
+    // price is token1 per token0
+    let token: string;
+    let ethPerToken: number;
+    if (token0 === this.weth) {
+      token = token1;
+      ethPerToken = snapshot.inversePrice;
+    } else if (token1 === this.weth) {
+      token = token0;
+      ethPerToken = snapshot.price;
+    } else {
+      return;
+    }
+    if (!Number.isFinite(ethPerToken) || ethPerToken <= 0) return;
+
+    const prices = this.pairPrices.get(token) ?? new Map<string, PairPrice>();
+    // Re-insert so iteration order is update order
+    prices.delete(poolKey);
+    prices.set(poolKey, { ethPerToken, liquidityWeth: snapshot.liquidityWeth ?? 0 });
+    this.pairPrices.set(token, prices);
+  }
+
+  /**
+   * Stop pricing from a pool the monitor found non-viable (`lowLiquidity`),
+   * or resume once it recovers (`liquidityRestored`).
+   */
+  setViable(pool: PoolConfig, viable: boolean): void {
+    const poolKey = poolStateKey(pool);
+    if (viable) {
+      this.nonViable.delete(poolKey);
+      return;
+    }
+    this.nonViable.add(poolKey);
+    for (const prices of this.pairPrices.values()) prices.delete(poolKey);
+  }
+
+  /** ETH per unit of `token`: 1 for WETH, undefined when no WETH pair has priced it */
+  ethPerToken(token: string): number | undefined {
+    const key = token.toLowerCase();
+    if (key === this.weth) return 1;
+    let deepest: PairPrice | undefined;
+    for (const price of this.pairPrices.get(key)?.values() ?? []) {
+      if (!deepest || price.liquidityWeth >= deepest.liquidityWeth) deepest = price;
+    }
+    return deepest?.ethPerToken;
+  }
+
+  /** USD per ETH, from the first configured stablecoin with a price */
+  usdPerEth(): number | undefined {
+    for (const token of this.usdTokens) {
+      const ethPerUsd = this.ethPerToken(token);
+      if (ethPerUsd !== undefined) return 1 / ethPerUsd;
+    }
+    return undefined;
+  }
+
+  /** Value `amount` of `token` in ETH; undefined when the token has no price */
+  toEth(token: string, amount: number): number | undefined {
+    const ethPerToken = this.ethPerToken(token);
+    return ethPerToken === undefined ? undefined : amount * ethPerToken;
+  }
+
+  /** Value an ETH amount in USD; undefined when no stablecoin has a price */
+  toUsd(amountEth: number): number | undefined {
+    const usdPerEth = this.usdPerEth();
+    return usdPerEth === undefined ? undefined : amountEth * usdPerEth;
+  }
+}
+
+/**
+ * Value an opportunity amount in its base token (input, profit, cost) in
+ * ETH. Opportunities detected without a valuation are taken to be in ETH
+ * already.
+ */
+export function toEth(opportunity: ArbitrageOpportunity, amount: number): number {
+  return amount * (opportunity.valuation?.ethPerBase ?? 1);
+}
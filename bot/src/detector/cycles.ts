@@ -0,0 +1,93 @@
+import { poolStateKey } from "../monitor/poolEvents.js";
+import type { ArbitrageCycle, CycleEdge } from "./types.js";
+
+/** Best way found to reach a token from the base token, as a chain back to the base */
+interface Reach {
+  /** Sum of -ln(rate) over the chain — lower is better, below 0 is profitable */
+  cost: number;
+  /** Edge the token was reached through (null at the base token) */
+  edge: CycleEdge | null;
+  /** Reach of the edge's tokenIn */
+  prev: Reach | null;
+}
+
+/** Edges of a reach chain, first trade first */
+function unwind(reach: Reach): CycleEdge[] {
+  const edges: CycleEdge[] = [];
+  for (let r: Reach | null = reach; r?.edge; r = r.prev) {
+    edges.push(r.edge);
+  }
+  return edges.reverse();
+}
+
+/** Whether extending a chain through `edge` would reuse a pool or revisit a token other than the base */
+function revisits(reach: Reach, edge: CycleEdge, baseToken: string): boolean {
+  const pool = poolStateKey(edge.snapshot.pool);
+  for (let r: Reach | null = reach; r?.edge; r = r.prev) {
+    if (poolStateKey(r.edge.snapshot.pool) === pool) return true;
+    if (r.edge.tokenIn === edge.tokenOut && edge.tokenOut !== baseToken) return true;
+  }
+  return false;
+}
+
+/** The pools a cycle trades through, in order */
+export function cycleLabel(cycle: ArbitrageCycle): string {
+  return cycle.edges.map((edge) => edge.snapshot.pool.label).join(" → ");
+}
+
+/**
+ * Find cycles of 2 to `maxHops` trades that start and end in a base token and
+ * return more than they take in at spot prices, after trading fees.
+ *
+ * Each edge weighs -ln(rate), so a profitable cycle is a negative-weight
+ * cycle through the base token. From each base token a hop-bounded
+ * Bellman-Ford relaxation keeps, per hop count, the cheapest simple chain
+ * to every token; every edge that leads such a chain back to the base closes
+ * a candidate cycle. Keeping one chain per token and hop count makes this a
+ * search for the best cycles, not an enumeration of all of them.
+ *
+ * Tokens in `edges` and `baseTokens` must be lowercase. The same cycle found
+ * from a later base token (a rotation of an earlier one) is dropped. Results
+ * are sorted by rate, best first.
+ */
+export function findProfitableCycles(edges: CycleEdge[], baseTokens: string[], maxHops: number): ArbitrageCycle[] {
+  const outgoing = new Map<string, CycleEdge[]>();
+  for (const edge of edges) {
+    const list = outgoing.get(edge.tokenIn) ?? [];
+    list.push(edge);
+    outgoing.set(edge.tokenIn, list);
+  }
+
+  const found = new Map<string, ArbitrageCycle>();
+  for (const baseToken of baseTokens) {
+    let layer = new Map<string, Reach>([[baseToken, { cost: 0, edge: null, prev: null }]]);
+
+    for (let hop = 1; hop <= maxHops && layer.size > 0; hop++) {
+      const next = new Map<string, Reach>();
+      for (const [token, reach] of layer) {
+        for (const edge of outgoing.get(token) ?? []) {
+          if (revisits(reach, edge, baseToken)) continue;
+          const cost = reach.cost - Math.log(edge.rate);
+
+          if (edge.tokenOut === baseToken) {
+            if (hop < 2 || cost >= 0) continue;
+            const cycleEdges = [...unwind(reach), edge];
+            const key = cycleEdges.map((e) => `${poolStateKey(e.snapshot.pool)}:${e.tokenIn}`).sort().join(",");
+            if (!found.has(key)) {
+              found.set(key, { baseToken, edges: cycleEdges, rate: Math.exp(-cost) });
+            }
+            continue;
+          }
+
+          const best = next.get(edge.tokenOut);
+          if (!best || cost < best.cost) {
+            next.set(edge.tokenOut, { cost, edge, prev: reach });
+          }
+        }
+      }
+      layer = next;
+    }
+  }
+
+  return [...found.values()].sort((a, b) => b.rate - a.rate);
+}
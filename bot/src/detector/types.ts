@@ -1,5 +1,15 @@
-import type { DEXProtocol, PriceDelta } from "../monitor/types.js";
+import type { DEXProtocol, LBBin, PriceDelta, PriceSnapshot, TickLiquidity } from "../monitor/types.js";
 import type { OptimizationResult } from "../optimizer/types.js";
+import type { StableSwapCurve } from "../math/stableSwap.js";
+import type { BalancerPoolState } from "../math/balancer.js";
+import type { CamelotPairState } from "../math/camelotV2.js";
+import type { Provider } from "ethers";
+import type { QuoteVerifier } from "./QuoteVerifier.js";
+import type { TokenValuation } from "./TokenValuation.js";
+import type { FlashLoanRouter } from "../flashloan/FlashLoanRouter.js";
+import type { FlashLoanSelection } from "../flashloan/types.js";
+import type { RiskPolicy } from "../policy/RiskPolicy.js";
+import type { PolicyVerdict } from "../policy/types.js";
 
 /** A single swap step in an arbitrage path */
 export interface SwapStep {
@@ -17,11 +27,72 @@ export interface SwapStep {
   decimalsOut: number;
   /** Expected price (tokenOut per tokenIn) */
   expectedPrice: number;
-  /** Uniswap V3 fee tier (bps) — only for uniswap_v3 */
+  /** Uniswap V3 fee tier (bps) — only for uniswap_v3. For uniswap_v4, the PoolKey fee */
   feeTier?: number;
   /** Virtual reserve of tokenIn for slippage estimation (human-readable units).
    *  V2: actual reserve. V3: computed from L and sqrtPriceX96. */
   virtualReserveIn?: number;
+  /** V3: pool state for tick-by-tick swap simulation. Present when the monitor
+   *  loaded initialized ticks around the current price. */
+  concentratedLiquidity?: ConcentratedLiquidityState;
+  /** Curve / Balancer: coin indices of [tokenIn, tokenOut] in the pool */
+  coinIndices?: [number, number];
+  /** Curve: pool state for StableSwap invariant simulation */
+  stableSwap?: StableSwapCurve;
+  /** Balancer V2: pool ID passed to the Vault. Uniswap V4: PoolId */
+  poolId?: string;
+  /** Balancer V2: pool state for weighted / stable math simulation */
+  balancer?: BalancerPoolState;
+  /** Uniswap V4: PoolKey tick spacing */
+  tickSpacing?: number;
+  /** Uniswap V4: PoolKey hooks contract (unset = no hooks) */
+  hooks?: string;
+  /** Uniswap V4, Ramses V3: live LP fee. Camelot V3: live fee for this swap direction.
+   *  In hundredths of a bip (overrides feeTier for fee estimates) */
+  lpFee?: number;
+  /** Trader Joe LB: bin reserves for bin-by-bin swap simulation. Present when the
+   *  monitor loaded bins around the active bin. */
+  lbBins?: LBBinState;
+  /** Trader Joe LB: live base + variable fee (1e18 = 100%, overrides the binStep estimate) */
+  lbFee?: bigint;
+  /** Camelot V2: pair reserves, directional fees and curve for exact output simulation */
+  camelotV2?: CamelotV2SwapState;
+  /** Uniswap V2 / SushiSwap: raw [reserveIn, reserveOut] for exact getAmountOut */
+  reserves?: [bigint, bigint];
+}
+
+/** V3 pool state needed to simulate a swap across initialized ticks */
+export interface ConcentratedLiquidityState {
+  /** Current sqrtPriceX96 */
+  sqrtPriceX96: bigint;
+  /** In-range liquidity at the current price */
+  liquidity: bigint;
+  /** Current tick */
+  tick: number;
+  /** Initialized ticks around the current tick */
+  window: TickLiquidity;
+  /** True when tokenIn is token0 (price moves down) */
+  zeroForOne: boolean;
+}
+
+/** Trader Joe LB pool state needed to simulate a swap across bins */
+export interface LBBinState {
+  /** Active bin ID */
+  activeId: number;
+  /** Bin step (basis points) */
+  binStep: number;
+  /** Active bin and the non-empty bins around it, sorted by id ascending */
+  bins: LBBin[];
+  /** True when tokenIn is tokenX (price and active bin move down) */
+  swapForY: boolean;
+}
+
+/** Camelot V2 pair state needed to quote a swap in one direction */
+export interface CamelotV2SwapState {
+  /** Reserves, fees and stable flag of the pair */
+  pair: CamelotPairState;
+  /** True when tokenIn is token0 */
+  zeroForOne: boolean;
 }
 
 /** A complete arbitrage path (sequence of swaps) */
@@ -34,17 +105,42 @@ export interface SwapPath {
   label: string;
 }
 
+/** A directed trade through one pool: sell tokenIn for tokenOut */
+export interface CycleEdge {
+  /** Token sold (lowercase) */
+  tokenIn: string;
+  /** Token received (lowercase) */
+  tokenOut: string;
+  /** State of the pool traded through */
+  snapshot: PriceSnapshot;
+  /** tokenOut received per tokenIn at the spot price, after the pool's trading fee */
+  rate: number;
+}
+
+/** A closed sequence of trades that starts and ends in a flash-loanable token */
+export interface ArbitrageCycle {
+  /** Token borrowed and repaid (lowercase) */
+  baseToken: string;
+  /** Trades in order; each edge's tokenOut is the next edge's tokenIn */
+  edges: CycleEdge[];
+  /** Product of the edge rates — above 1 the cycle is profitable before non-trading costs */
+  rate: number;
+}
+
 /** Cost breakdown for an arbitrage opportunity */
 export interface CostEstimate {
-  /** Flash loan fee in base token units (e.g. 0.05% of borrow) */
+  /** Flash loan fee in base token units (e.g. 0.05% of borrow) — the selected provider's
+   *  fee when a FlashLoanRouter is configured, else the cheapest configured fee */
   flashLoanFee: number;
-  /** Estimated gas cost in base token units (ETH) — L2 execution cost only */
-  gasCost: number;
-  /** Arbitrum L1 data posting cost in base token units (ETH). Only present on L2 chains. */
-  l1DataFee?: number;
-  /** Expected slippage loss in base token units */
+  /** Estimated gas cost in ETH (not base token) — L2 execution cost only */
+  gasCostEth: number;
+  /** Arbitrum L1 data posting cost in ETH (not base token). Only present on L2 chains. */
+  l1DataFeeEth?: number;
+  /** Expected slippage loss in base token units beyond the modeled output: the static
+   *  maxSlippage allowance for paths without depth data, else 0 (grossProfit already
+   *  carries the price impact) */
   slippageCost: number;
-  /** Total costs (includes l1DataFee when present) */
+  /** Total costs in base token units, gas and l1DataFee converted at the base token's ETH price */
   totalCost: number;
 }
 
@@ -58,7 +154,7 @@ export interface ArbitrageOpportunity {
   inputAmount: number;
   /** Optimization result for input amount sizing. Undefined when using fixed defaultInputAmount. */
   optimizationResult?: OptimizationResult;
-  /** Expected gross revenue (before costs) in base token */
+  /** Expected gross revenue (before costs) in base token: modeled output minus input */
   grossProfit: number;
   /** Cost breakdown */
   costs: CostEstimate;
@@ -66,37 +162,115 @@ export interface ArbitrageOpportunity {
   netProfit: number;
   /** Net profit as percentage of input */
   netProfitPercent: number;
-  /** The price delta that triggered this opportunity */
-  priceDelta: PriceDelta;
+  /** The price delta that triggered this opportunity. Unset for cycles found by the graph search */
+  priceDelta?: PriceDelta;
+  /** The cycle that triggered this opportunity, when found by the graph search */
+  cycle?: ArbitrageCycle;
+  /** On-chain quotes of the path. Only set when a QuoteVerifier is configured */
+  quote?: QuoteVerification;
+  /** ETH (and USD) value of the base-token amounts. Only set when a TokenValuation is configured */
+  valuation?: OpportunityValuation;
+  /** Provider chosen to fund the flash loan. Only set when a FlashLoanRouter is configured */
+  flashLoan?: FlashLoanSelection;
+  /** Verdicts of the risk policy rules that applied to the path. Unset when none applied */
+  policy?: PolicyVerdict[];
   /** Block number at time of detection */
   blockNumber: number;
+  /** Block of the PriceMonitor detection pass that found the opportunity (see
+   *  PriceDelta.detectionBlock). Unset when analyzed outside a PriceMonitor */
+  detectionBlock?: number;
   /** Timestamp (ms) of detection */
   timestamp: number;
+  /** Time (ms) the OpportunityScheduler held the opportunity to collect its block's batch,
+   *  at most `collectionWindowMs`. Not counted as staleness; time spent queued behind
+   *  earlier executions is. Unset when not scheduled */
+  scheduleWaitMs?: number;
+}
+
+/** An opportunity's base-token amounts valued in ETH and USD */
+export interface OpportunityValuation {
+  /** Token the input, profits and totalCost are denominated in (path.baseToken) */
+  baseToken: string;
+  /** ETH per base token at detection (1 for WETH) */
+  ethPerBase: number;
+  /** Input amount in ETH */
+  inputAmountEth: number;
+  /** Gross profit in ETH */
+  grossProfitEth: number;
+  /** Net profit in ETH — the amount compared against minProfitThreshold */
+  netProfitEth: number;
+  /** USD per ETH at detection. Unset when no stablecoin has been priced */
+  usdPerEth?: number;
+  /** Net profit in USD. Unset when no stablecoin has been priced */
+  netProfitUsd?: number;
+}
+
+/** Configuration for TokenValuation */
+export interface TokenValuationConfig {
+  /** WETH address: tokens are priced from the pools that pair them with it */
+  wethAddress: string;
+  /** USD stablecoins, in order of preference, for USD values (each taken at $1). Default: none */
+  usdTokens?: string[];
+}
+
+/** One swap step quoted on-chain next to the detector's model of it */
+export interface StepQuote {
+  /** Input quoted (tokenIn units): the modeled output of the previous step */
+  amountIn: number;
+  /** Output the slippage model expects (tokenOut units) */
+  modeledOut: number;
+  /** Output the protocol's quoter returned. Unset when the protocol has no quoter configured */
+  quotedOut?: number;
+}
+
+/** Quoted vs modeled round trip of an opportunity's path */
+export interface QuoteVerification {
+  /** Per-step quotes, in path order */
+  steps: StepQuote[];
+  /** Base token out of the last step, per the model */
+  modeledOutput: number;
+  /** Base token out of the last step, chaining each step's quoted rate */
+  quotedOutput: number;
+  /** Net profit with the quoted output in place of modeled gross profit and slippage */
+  quotedNetProfit: number;
+  /** Block the quotes were read at */
+  blockNumber: number;
+}
+
+/** Configuration for the QuoteVerifier */
+export interface QuoteVerifierConfig {
+  /** Ethers.js provider for quoter calls */
+  provider: Provider;
+  /** Quoter per protocol: QuoterV2 (Uniswap/SushiSwap V3), router (V2 forks, getAmountsOut),
+   *  LBQuoter (Trader Joe LB), Algebra quoter (Camelot V3). Steps on other protocols are not quoted */
+  quoters: Partial<Record<DEXProtocol, string>>;
 }
 
 /** Flash loan provider fee schedules */
 export interface FlashLoanFees {
   /** Aave V3 fee as decimal (0.0005 = 0.05%) */
   aaveV3: number;
-  /** dYdX fee (0 = free) */
+  /** dYdX fee (0 = free; the 2 wei repayment surplus is negligible) */
   dydx: number;
   /** Balancer fee (0 = free) */
   balancer: number;
+  /** Uniswap V3 flash fee as decimal: the lending pool's fee tier (0.0005 = 0.05% pool) */
+  uniswapV3: number;
 }
 
 /** Configuration for the OpportunityDetector */
 export interface OpportunityDetectorConfig {
-  /** Minimum net profit in base token to emit an opportunity. Default: 0.01 (ETH) */
+  /** Minimum net profit in ETH to emit an opportunity. Default: 0.01 */
   minProfitThreshold?: number;
   /** Maximum slippage tolerance as decimal (0.005 = 0.5%). Default: 0.005 */
   maxSlippage?: number;
-  /** Default input amount in base token for profit estimation. Default: 10 */
+  /** Default input amount in ETH for profit estimation (converted to the base token). Default: 10 */
   defaultInputAmount?: number;
   /** Gas price in gwei. Default: 30 */
   gasPriceGwei?: number;
   /** Estimated gas per swap step. Default: 150000 */
   gasPerSwap?: number;
-  /** Flash loan fee config. Defaults to Aave V3 rates */
+  /** Flash loan fee config, used when no flashLoanRouter is set (cheapest fee taken). Defaults to Aave V3 rates */
   flashLoanFees?: Partial<FlashLoanFees>;
   /** Optional async gas estimator. When provided, overrides the simple gasPriceGwei formula.
    *  Returns the total gas cost in ETH including L1 data fees (for L2 chains like Arbitrum).
@@ -104,13 +278,38 @@ export interface OpportunityDetectorConfig {
   gasEstimatorFn?: (numSwaps: number) => Promise<{ gasCost: number; l1DataFee?: number }>;
   /** Per-DEX maximum input amount overrides. Used to cap pools that lack reserve data
    *  (e.g., Trader Joe LB uses bin-based liquidity with no reserve/depth info).
-   *  Key: DEXProtocol string, Value: max input in base token units. */
+   *  Key: DEXProtocol string, Value: max input in ETH (converted to the base token). */
   maxInputByDex?: Partial<Record<DEXProtocol, number>>;
+  /** Reject opportunities through Uniswap V4 pools with hooks. When false, they are
+   *  accepted at the "hooked pool" policy rule's threshold (2x by default). Default: true */
+  excludeHookedPools?: boolean;
+  /** Tokens multi-hop cycles may start and end in (flash-loanable, e.g. WETH; tokens other than
+   *  WETH need a valuation to be priced in ETH). Default: none (cycle search disabled) */
+  cycleBaseTokens?: string[];
+  /** Most trades in a cycle. Default: 3 */
+  maxCycleHops?: number;
+  /** Quote each path on-chain before emitting it; opportunities whose quoted round
+   *  trip misses the profit threshold are rejected. Default: none (model only) */
+  quoteVerifier?: QuoteVerifier;
+  /** Value base tokens in ETH, so paths that start from a non-WETH token (e.g. USDC) are sized,
+   *  costed and thresholded in ETH. Fed from the attached monitor's price updates; paths whose
+   *  base token has no ETH price are rejected. Default: none (every base token taken as ETH) */
+  valuation?: TokenValuation;
+  /** Token pairwise paths start and end in, per pair ("tokenA/tokenB", either order). Pairs not
+   *  listed start from token1 of the cheaper pool. Default: none */
+  pairBaseTokens?: Record<string, string>;
+  /** Check on-chain which provider can fund each loan, and cost it at that provider's fee; opportunities
+   *  no provider can fund are rejected. Default: none (the cheapest flashLoanFees rate is assumed) */
+  flashLoanRouter?: FlashLoanRouter;
+  /** Risk rules: profit multipliers, input caps, liquidity floors, time-of-day blocks and stale
+   *  LB bins. Fed from the attached monitor's price updates. Default: the default rules only */
+  policy?: RiskPolicy;
 }
 
 /** Events emitted by OpportunityDetector */
 export interface OpportunityDetectorEvents {
   opportunityFound: (opportunity: ArbitrageOpportunity) => void;
-  opportunityRejected: (reason: string, delta: PriceDelta) => void;
+  /** `delta` is the rejected pairwise delta; a rejected multi-hop cycle comes as `cycle` instead */
+  opportunityRejected: (reason: string, delta: PriceDelta | undefined, cycle?: ArbitrageCycle) => void;
   error: (error: Error) => void;
 }
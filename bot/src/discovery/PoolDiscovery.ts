@@ -0,0 +1,429 @@
+import { EventEmitter } from "node:events";
+import { AbiCoder, Interface, ZeroAddress, type Log } from "ethers";
+import type { ChainConfig } from "../config/chains/types.js";
+import type { PoolDefinition } from "../config/types.js";
+import type { DEXProtocol } from "../monitor/types.js";
+import { aggregate3, type MulticallRequest, type MulticallResult } from "../monitor/multicall.js";
+import type { PoolCandidate, PoolDiscoveryConfig } from "./types.js";
+
+/** Safely coerce an unknown caught value to an Error */
+function toError(err: unknown): Error {
+  if (err instanceof Error) return err;
+  return new Error(String(err));
+}
+
+const FACTORY_ABI = [
+  // Uniswap V2 / SushiSwap V2 / Camelot V2
+  "function getPair(address tokenA, address tokenB) view returns (address pair)",
+  "event PairCreated(address indexed token0, address indexed token1, address pair, uint256)",
+  // Uniswap V3 / SushiSwap V3
+  "function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)",
+  "event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)",
+  // Algebra (Camelot V3)
+  "function poolByPair(address tokenA, address tokenB) view returns (address pool)",
+  "event Pool(address indexed token0, address indexed token1, address pool)",
+];
+
+const POOL_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+];
+
+const ERC20_ABI = [
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+const factoryIface = new Interface(FACTORY_ABI);
+const poolIface = new Interface(POOL_ABI);
+const erc20Iface = new Interface(ERC20_ABI);
+
+const PAIR_CREATED_TOPIC = factoryIface.getEvent("PairCreated")!.topicHash;
+const POOL_CREATED_TOPIC = factoryIface.getEvent("PoolCreated")!.topicHash;
+const ALGEBRA_POOL_TOPIC = factoryIface.getEvent("Pool")!.topicHash;
+
+/** Max calls per aggregate3() batch to stay under RPC gas/response limits */
+const MULTICALL_BATCH_SIZE = 500;
+
+type FactoryKind = "v2" | "v3" | "algebra";
+
+interface FactorySpec {
+  key: Exclude<keyof ChainConfig["dexes"], "traderjoeLB">;
+  dex: DEXProtocol;
+  kind: FactoryKind;
+  /** Label suffix matching the hand-maintained pool lists */
+  label: string;
+}
+
+const FACTORY_SPECS: FactorySpec[] = [
+  { key: "uniswapV2", dex: "uniswap_v2", kind: "v2", label: "UniV2" },
+  { key: "sushiswapV2", dex: "sushiswap", kind: "v2", label: "SushiV2" },
+  { key: "camelot", dex: "camelot_v2", kind: "v2", label: "Camelot V2" },
+  { key: "uniswapV3", dex: "uniswap_v3", kind: "v3", label: "UniV3" },
+  { key: "sushiswapV3", dex: "sushiswap_v3", kind: "v3", label: "SushiV3" },
+  { key: "camelotV3", dex: "camelot_v3", kind: "algebra", label: "Camelot V3" },
+];
+
+interface Factory {
+  spec: FactorySpec;
+  address: string;
+}
+
+/**
+ * Discovers pools for the configured tokens directly from DEX factories.
+ *
+ * On start, every token pair in `tokens` is looked up on every factory in
+ * `dexes` (getPair / getPool per fee tier / poolByPair). Afterwards the
+ * factories' PairCreated / PoolCreated logs are scanned on an interval so
+ * newly created pools are picked up at runtime.
+ *
+ * Each candidate is validated on-chain — token ordering from token0()/token1(),
+ * decimals from the tokens, and the pool's balance against the liquidity
+ * floor — before a `poolDiscovered` event is emitted with a ready-to-monitor
+ * PoolDefinition.
+ */
+export class PoolDiscovery extends EventEmitter {
+  private readonly config: Required<Omit<PoolDiscoveryConfig, "knownPools">>;
+  private readonly factories: Factory[];
+  private readonly tokenSymbols = new Map<string, string>();
+  private readonly minLiquidity = new Map<string, number>();
+  private readonly decimalsCache = new Map<string, number>();
+  private readonly known = new Set<string>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private lastScannedBlock: number | null = null;
+  private scanInProgress = false;
+
+  constructor(config: PoolDiscoveryConfig) {
+    super();
+    const weth = config.tokens.WETH;
+    this.config = {
+      provider: config.provider,
+      dexes: config.dexes,
+      tokens: config.tokens,
+      minLiquidity: config.minLiquidity ?? (weth ? { [weth]: 10 } : {}),
+      feeTiers: config.feeTiers ?? [100, 500, 3000, 10000],
+      pollIntervalMs: config.pollIntervalMs ?? 60_000,
+      logBlockRange: config.logBlockRange ?? 10_000,
+    };
+
+    this.factories = FACTORY_SPECS.flatMap((spec) => {
+      const dex = config.dexes[spec.key];
+      return dex ? [{ spec, address: dex.factory }] : [];
+    });
+    for (const [symbol, address] of Object.entries(config.tokens)) {
+      this.tokenSymbols.set(address.toLowerCase(), symbol);
+    }
+    for (const [token, floor] of Object.entries(this.config.minLiquidity)) {
+      this.minLiquidity.set(token.toLowerCase(), floor);
+    }
+    for (const address of config.knownPools ?? []) {
+      this.known.add(address.toLowerCase());
+    }
+  }
+
+  /** Whether the log scanner is running */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Addresses of all pools known so far (configured + discovered) */
+  get knownPools(): string[] {
+    return [...this.known];
+  }
+
+  /**
+   * Run a full factory enumeration, then scan creation logs every
+   * `pollIntervalMs` from the current head onward.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.discover();
+      this.lastScannedBlock = await this.config.provider.getBlockNumber();
+    } catch (err) {
+      this.emit("error", toError(err));
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.pollLogs();
+    }, this.config.pollIntervalMs);
+  }
+
+  /** Stop the log scanner */
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Look up every token pair on every factory and return the newly
+   * discovered pools that pass validation.
+   */
+  async discover(): Promise<PoolDefinition[]> {
+    const tokens = [...new Set(Object.values(this.config.tokens).map((t) => t.toLowerCase()))];
+    const lookups: Array<{ factory: Factory; feeTier?: number; call: MulticallRequest }> = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      for (let j = i + 1; j < tokens.length; j++) {
+        const [a, b] = [tokens[i], tokens[j]];
+        for (const factory of this.factories) {
+          if (factory.spec.kind === "v3") {
+            for (const fee of this.config.feeTiers) {
+              lookups.push({
+                factory,
+                feeTier: fee,
+                call: this.call(factory.address, factoryIface.encodeFunctionData("getPool", [a, b, fee])),
+              });
+            }
+          } else {
+            const fn = factory.spec.kind === "algebra" ? "poolByPair" : "getPair";
+            lookups.push({
+              factory,
+              call: this.call(factory.address, factoryIface.encodeFunctionData(fn, [a, b])),
+            });
+          }
+        }
+      }
+    }
+
+    const results = await this.multicall(lookups.map((l) => l.call));
+    const candidates: PoolCandidate[] = [];
+    for (let i = 0; i < lookups.length; i++) {
+      const result = results[i];
+      if (!result?.success || result.returnData === "0x") continue;
+      const [address] = AbiCoder.defaultAbiCoder().decode(["address"], result.returnData);
+      const { factory, feeTier } = lookups[i];
+      if (address === ZeroAddress) continue;
+      candidates.push({
+        dex: factory.spec.dex,
+        poolAddress: address,
+        ...(feeTier !== undefined && { feeTier }),
+      });
+    }
+
+    return this.validate(candidates);
+  }
+
+  /**
+   * Scan factory creation logs in [fromBlock, toBlock] for pools between
+   * tracked tokens and return the newly discovered pools that pass validation.
+   */
+  async scanLogs(fromBlock: number, toBlock: number): Promise<PoolDefinition[]> {
+    if (this.factories.length === 0 || fromBlock > toBlock) return [];
+
+    const byAddress = new Map(this.factories.map((f) => [f.address.toLowerCase(), f]));
+    const candidates: PoolCandidate[] = [];
+
+    for (let start = fromBlock; start <= toBlock; start += this.config.logBlockRange) {
+      const end = Math.min(toBlock, start + this.config.logBlockRange - 1);
+      const logs = await this.config.provider.getLogs({
+        address: this.factories.map((f) => f.address),
+        topics: [[PAIR_CREATED_TOPIC, POOL_CREATED_TOPIC, ALGEBRA_POOL_TOPIC]],
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      for (const log of logs) {
+        const factory = byAddress.get(log.address.toLowerCase());
+        if (!factory) continue;
+        const candidate = this.decodeCreationLog(factory, log);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+
+    return this.validate(candidates);
+  }
+
+  /** Internal: scan logs from the last scanned block to the current head */
+  private async pollLogs(): Promise<void> {
+    if (!this.running || this.scanInProgress) return;
+    this.scanInProgress = true;
+    try {
+      const head = await this.config.provider.getBlockNumber();
+      const from = (this.lastScannedBlock ?? head - 1) + 1;
+      await this.scanLogs(from, head);
+      this.lastScannedBlock = head;
+    } catch (err) {
+      this.emit("error", toError(err));
+    } finally {
+      this.scanInProgress = false;
+    }
+  }
+
+  /** Decode a factory creation log into a candidate (null for untracked tokens) */
+  private decodeCreationLog(factory: Factory, log: Log): PoolCandidate | null {
+    const parsed = factoryIface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) return null;
+
+    const token0 = String(parsed.args.token0).toLowerCase();
+    const token1 = String(parsed.args.token1).toLowerCase();
+    if (!this.tokenSymbols.has(token0) || !this.tokenSymbols.has(token1)) return null;
+
+    switch (parsed.name) {
+      case "PairCreated":
+        if (factory.spec.kind !== "v2") return null;
+        return { dex: factory.spec.dex, poolAddress: parsed.args.pair };
+      case "PoolCreated":
+        if (factory.spec.kind !== "v3") return null;
+        return { dex: factory.spec.dex, poolAddress: parsed.args.pool, feeTier: Number(parsed.args.fee) };
+      case "Pool":
+        if (factory.spec.kind !== "algebra") return null;
+        return { dex: factory.spec.dex, poolAddress: parsed.args.pool };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Validate candidates on-chain and emit the ones that pass.
+   * Reads token0()/token1() for on-chain ordering, then token decimals and
+   * the pool's token balances for the liquidity floor.
+   */
+  private async validate(candidates: PoolCandidate[]): Promise<PoolDefinition[]> {
+    const fresh = new Map<string, PoolCandidate>();
+    for (const c of candidates) {
+      const key = c.poolAddress.toLowerCase();
+      if (!this.known.has(key)) fresh.set(key, c);
+    }
+    const pending = [...fresh.values()];
+    if (pending.length === 0) return [];
+
+    // Round 1: on-chain token ordering
+    const tokenResults = await this.multicall(pending.flatMap((c) => [
+      this.call(c.poolAddress, poolIface.encodeFunctionData("token0")),
+      this.call(c.poolAddress, poolIface.encodeFunctionData("token1")),
+    ]));
+
+    const ordered: Array<{ candidate: PoolCandidate; token0: string; token1: string }> = [];
+    for (let i = 0; i < pending.length; i++) {
+      const r0 = tokenResults[2 * i];
+      const r1 = tokenResults[2 * i + 1];
+      if (!r0?.success || !r1?.success) {
+        this.emit("poolRejected", pending[i], "token0()/token1() call failed");
+        continue;
+      }
+      ordered.push({
+        candidate: pending[i],
+        token0: String(poolIface.decodeFunctionResult("token0", r0.returnData)[0]),
+        token1: String(poolIface.decodeFunctionResult("token1", r1.returnData)[0]),
+      });
+    }
+
+    // Round 2: decimals (uncached tokens) + pool balances
+    const tokensNeedingDecimals = [...new Set(
+      ordered.flatMap((o) => [o.token0.toLowerCase(), o.token1.toLowerCase()]),
+    )].filter((t) => !this.decimalsCache.has(t));
+
+    const round2 = await this.multicall([
+      ...tokensNeedingDecimals.map((t) => this.call(t, erc20Iface.encodeFunctionData("decimals"))),
+      ...ordered.flatMap((o) => [
+        this.call(o.token0, erc20Iface.encodeFunctionData("balanceOf", [o.candidate.poolAddress])),
+        this.call(o.token1, erc20Iface.encodeFunctionData("balanceOf", [o.candidate.poolAddress])),
+      ]),
+    ]);
+
+    for (let i = 0; i < tokensNeedingDecimals.length; i++) {
+      const r = round2[i];
+      if (r?.success) {
+        this.decimalsCache.set(
+          tokensNeedingDecimals[i],
+          Number(erc20Iface.decodeFunctionResult("decimals", r.returnData)[0]),
+        );
+      }
+    }
+
+    const discovered: PoolDefinition[] = [];
+    const offset = tokensNeedingDecimals.length;
+    for (let i = 0; i < ordered.length; i++) {
+      const { candidate, token0, token1 } = ordered[i];
+      const decimals0 = this.decimalsCache.get(token0.toLowerCase());
+      const decimals1 = this.decimalsCache.get(token1.toLowerCase());
+      const b0 = round2[offset + 2 * i];
+      const b1 = round2[offset + 2 * i + 1];
+      if (decimals0 === undefined || decimals1 === undefined || !b0?.success || !b1?.success) {
+        this.emit("poolRejected", candidate, "Token decimals or balance unavailable");
+        continue;
+      }
+
+      const balance0 = Number(BigInt(b0.returnData)) / 10 ** decimals0;
+      const balance1 = Number(BigInt(b1.returnData)) / 10 ** decimals1;
+      const reason = this.checkLiquidityFloor(token0, balance0, token1, balance1);
+      if (reason) {
+        this.emit("poolRejected", candidate, reason);
+        continue;
+      }
+
+      const pool: PoolDefinition = {
+        label: this.buildLabel(candidate, token0, token1),
+        dex: candidate.dex,
+        poolAddress: candidate.poolAddress,
+        token0,
+        token1,
+        decimals0,
+        decimals1,
+        // Camelot V3 (Algebra) uses dynamic fees — no fixed tier, as in the static pool list
+        ...(candidate.feeTier !== undefined && { feeTier: candidate.feeTier }),
+      };
+      this.known.add(candidate.poolAddress.toLowerCase());
+      discovered.push(pool);
+      this.emit("poolDiscovered", pool);
+    }
+
+    return discovered;
+  }
+
+  /**
+   * Check the pool's balances against the liquidity floor.
+   * Returns a rejection reason, or null when the pool passes.
+   */
+  private checkLiquidityFloor(
+    token0: string,
+    balance0: number,
+    token1: string,
+    balance1: number,
+  ): string | null {
+    const floor0 = this.minLiquidity.get(token0.toLowerCase());
+    const floor1 = this.minLiquidity.get(token1.toLowerCase());
+    if (floor0 === undefined && floor1 === undefined) {
+      return "No liquidity floor configured for either token";
+    }
+    if ((floor0 !== undefined && balance0 >= floor0) || (floor1 !== undefined && balance1 >= floor1)) {
+      return null;
+    }
+    const [symbol, balance, floor] = floor0 !== undefined
+      ? [this.symbol(token0), balance0, floor0]
+      : [this.symbol(token1), balance1, floor1!];
+    return `Low liquidity: ${balance.toFixed(2)} ${symbol} (min: ${floor})`;
+  }
+
+  /** Build a label in the style of the static pool lists, e.g. "WETH/USDC UniV3 (0.05%)" */
+  private buildLabel(candidate: PoolCandidate, token0: string, token1: string): string {
+    const spec = FACTORY_SPECS.find((s) => s.dex === candidate.dex)!;
+    const fee = candidate.feeTier !== undefined ? ` (${candidate.feeTier / 10_000}%)` : "";
+    return `${this.symbol(token0)}/${this.symbol(token1)} ${spec.label}${fee}`;
+  }
+
+  /** Symbol from ChainConfig.tokens, or a shortened address */
+  private symbol(token: string): string {
+    return this.tokenSymbols.get(token.toLowerCase()) ?? `${token.slice(0, 6)}…${token.slice(-4)}`;
+  }
+
+  private call(target: string, callData: string): MulticallRequest {
+    return { target, allowFailure: true, callData };
+  }
+
+  /** Run calls through Multicall3 in batches of MULTICALL_BATCH_SIZE */
+  private async multicall(calls: MulticallRequest[]): Promise<MulticallResult[]> {
+    const results: MulticallResult[] = [];
+    for (let i = 0; i < calls.length; i += MULTICALL_BATCH_SIZE) {
+      results.push(...await aggregate3(this.config.provider, calls.slice(i, i + MULTICALL_BATCH_SIZE)));
+    }
+    return results;
+  }
+}
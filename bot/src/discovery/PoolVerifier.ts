@@ -0,0 +1,209 @@
+import { Interface, ZeroAddress } from "ethers";
+import type { ChainConfig } from "../config/chains/types.js";
+import type { PoolDefinition } from "../config/types.js";
+import type { DEXProtocol } from "../monitor/types.js";
+import { aggregate3, type MulticallRequest, type MulticallResult } from "../monitor/multicall.js";
+import type { PoolFieldMismatch, PoolVerification, PoolVerifierConfig } from "./types.js";
+
+// Uniswap V2/V3, SushiSwap, Camelot V2, Algebra (Camelot V3) and Ramses V3 pools
+const POOL_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function factory() view returns (address)",
+  "function fee() view returns (uint24)",
+];
+
+const LB_PAIR_ABI = [
+  "function getTokenX() view returns (address)",
+  "function getTokenY() view returns (address)",
+  "function getBinStep() view returns (uint16)",
+  "function getFactory() view returns (address)",
+];
+
+const CURVE_POOL_ABI = ["function coins(uint256 i) view returns (address)"];
+
+const BALANCER_POOL_ABI = ["function getPoolId() view returns (bytes32)"];
+
+const ERC20_ABI = ["function decimals() view returns (uint8)"];
+
+const poolIface = new Interface(POOL_ABI);
+const lbPairIface = new Interface(LB_PAIR_ABI);
+const curvePoolIface = new Interface(CURVE_POOL_ABI);
+const balancerPoolIface = new Interface(BALANCER_POOL_ABI);
+const erc20Iface = new Interface(ERC20_ABI);
+
+/** Max calls per aggregate3() batch, as in PoolDiscovery */
+const MULTICALL_BATCH_SIZE = 500;
+
+/** ChainConfig.dexes key of the factory that deploys each protocol's pools */
+const FACTORY_KEYS: Array<[Exclude<keyof ChainConfig["dexes"], "traderjoeLB">, DEXProtocol]> = [
+  ["uniswapV2", "uniswap_v2"],
+  ["sushiswapV2", "sushiswap"],
+  ["camelot", "camelot_v2"],
+  ["uniswapV3", "uniswap_v3"],
+  ["sushiswapV3", "sushiswap_v3"],
+  ["camelotV3", "camelot_v3"],
+];
+
+/** A single on-chain read compared against one definition field */
+interface FieldCheck {
+  field: string;
+  expected: string;
+  target: string;
+  iface: Interface;
+  fn: string;
+  args?: unknown[];
+}
+
+/** Expected factories for the protocols a chain config lists */
+export function factoriesFromDexes(dexes: ChainConfig["dexes"]): Partial<Record<DEXProtocol, string>> {
+  const factories: Partial<Record<DEXProtocol, string>> = {};
+  for (const [key, dex] of FACTORY_KEYS) {
+    const factory = dexes[key]?.factory;
+    if (factory) factories[dex] = factory;
+  }
+  return factories;
+}
+
+/** Readable per-pool diff: one line per mismatched field */
+export function formatPoolVerification(result: PoolVerification): string {
+  const { pool, mismatches } = result;
+  const width = Math.max(...mismatches.map((m) => m.field.length));
+  const lines = mismatches.map(
+    (m) => `  ${m.field.padEnd(width)}  definition ${m.expected}, on-chain ${m.actual}`,
+  );
+  return [`${pool.label} (${pool.dex}) @ ${pool.poolAddress}`, ...lines].join("\n");
+}
+
+/**
+ * Checks hand-written pool definitions against the chain before they are
+ * monitored.
+ *
+ * For each pool it reads the token ordering (token0()/token1(), or
+ * getTokenX()/getTokenY() for Trader Joe LB, whose order `invertPrice`
+ * encodes), both tokens' decimals(), the fee tier (fee() on fixed-fee V3
+ * pools, getBinStep() on LB pairs) and the factory that deployed the pool.
+ * Fields the definition leaves out (feeTier, poolId) and protocols without
+ * a configured factory are not checked. Every read goes through Multicall3
+ * with allowFailure, so a reverting getter shows up as "unreadable" rather
+ * than failing the whole pass.
+ */
+export class PoolVerifier {
+  private readonly config: PoolVerifierConfig;
+
+  constructor(config: PoolVerifierConfig) {
+    this.config = config;
+  }
+
+  /** Verify every pool; results are in `pools` order */
+  async verify(pools: PoolDefinition[]): Promise<PoolVerification[]> {
+    const checks = pools.map((pool) => this.checksFor(pool));
+    const calls: MulticallRequest[] = checks.flat().map((check) => ({
+      target: check.target,
+      allowFailure: true,
+      callData: check.iface.encodeFunctionData(check.fn, check.args ?? []),
+    }));
+
+    const results: MulticallResult[] = [];
+    for (let i = 0; i < calls.length; i += MULTICALL_BATCH_SIZE) {
+      results.push(...await aggregate3(
+        this.config.provider,
+        calls.slice(i, i + MULTICALL_BATCH_SIZE),
+        this.config.blockTag,
+      ));
+    }
+
+    let offset = 0;
+    return pools.map((pool, i) => {
+      const mismatches: PoolFieldMismatch[] = [];
+      for (const check of checks[i]) {
+        const actual = decodeValue(check, results[offset++]);
+        if (actual === undefined) {
+          mismatches.push({ field: check.field, expected: check.expected, actual: "unreadable" });
+        } else if (actual.toLowerCase() !== check.expected.toLowerCase()) {
+          mismatches.push({ field: check.field, expected: check.expected, actual });
+        }
+      }
+      return { pool, mismatches };
+    });
+  }
+
+  /** The reads that cover a pool's definition */
+  private checksFor(pool: PoolDefinition): FieldCheck[] {
+    const at = pool.poolAddress;
+    const checks: FieldCheck[] = [];
+    const factory = this.config.factories?.[pool.dex];
+
+    switch (pool.dex) {
+      case "uniswap_v2":
+      case "sushiswap":
+      case "camelot_v2":
+      case "uniswap_v3":
+      case "sushiswap_v3":
+      case "ramses_v3":
+      case "camelot_v3":
+        checks.push(
+          { field: "token0", expected: pool.token0, target: at, iface: poolIface, fn: "token0" },
+          { field: "token1", expected: pool.token1, target: at, iface: poolIface, fn: "token1" },
+        );
+        // Ramses V3 fees move with governance and Algebra fees are dynamic — no fixed tier to check
+        if ((pool.dex === "uniswap_v3" || pool.dex === "sushiswap_v3") && pool.feeTier !== undefined) {
+          checks.push({ field: "feeTier", expected: String(pool.feeTier), target: at, iface: poolIface, fn: "fee" });
+        }
+        if (factory) {
+          checks.push({ field: "factory", expected: factory, target: at, iface: poolIface, fn: "factory" });
+        }
+        break;
+      case "traderjoe_lb": {
+        // tokenX/tokenY are token0/token1 unless the definition inverts the LB price
+        const [tokenX, tokenY] = pool.invertPrice ? [pool.token1, pool.token0] : [pool.token0, pool.token1];
+        checks.push(
+          { field: "tokenX", expected: tokenX, target: at, iface: lbPairIface, fn: "getTokenX" },
+          { field: "tokenY", expected: tokenY, target: at, iface: lbPairIface, fn: "getTokenY" },
+        );
+        if (pool.feeTier !== undefined) {
+          checks.push({ field: "feeTier", expected: String(pool.feeTier), target: at, iface: lbPairIface, fn: "getBinStep" });
+        }
+        if (factory) {
+          checks.push({ field: "factory", expected: factory, target: at, iface: lbPairIface, fn: "getFactory" });
+        }
+        break;
+      }
+      case "curve_stableswap": {
+        const [i0, i1] = pool.coinIndices ?? [0, 1];
+        checks.push(
+          { field: "token0", expected: pool.token0, target: at, iface: curvePoolIface, fn: "coins", args: [i0] },
+          { field: "token1", expected: pool.token1, target: at, iface: curvePoolIface, fn: "coins", args: [i1] },
+        );
+        break;
+      }
+      case "balancer_v2":
+        if (pool.poolId) {
+          checks.push({ field: "poolId", expected: pool.poolId, target: at, iface: balancerPoolIface, fn: "getPoolId" });
+        }
+        break;
+      // Uniswap V4 pools live inside the PoolManager (poolAddress is the StateView lens) — only decimals
+      case "uniswap_v4":
+        break;
+    }
+
+    // Native ETH (V4 currency 0x0) has no decimals() to read
+    if (pool.token0 !== ZeroAddress) {
+      checks.push({ field: "decimals0", expected: String(pool.decimals0), target: pool.token0, iface: erc20Iface, fn: "decimals" });
+    }
+    if (pool.token1 !== ZeroAddress) {
+      checks.push({ field: "decimals1", expected: String(pool.decimals1), target: pool.token1, iface: erc20Iface, fn: "decimals" });
+    }
+    return checks;
+  }
+}
+
+/** Decode a read as a string, or undefined when it failed or cannot be decoded */
+function decodeValue(check: FieldCheck, result: MulticallResult | undefined): string | undefined {
+  if (!result?.success || result.returnData === "0x") return undefined;
+  try {
+    return String(check.iface.decodeFunctionResult(check.fn, result.returnData)[0]);
+  } catch {
+    return undefined;
+  }
+}
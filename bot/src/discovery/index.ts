@@ -0,0 +1,10 @@
+export { PoolDiscovery } from "./PoolDiscovery.js";
+export { PoolVerifier, factoriesFromDexes, formatPoolVerification } from "./PoolVerifier.js";
+export type {
+  PoolCandidate,
+  PoolDiscoveryConfig,
+  PoolDiscoveryEvents,
+  PoolFieldMismatch,
+  PoolVerification,
+  PoolVerifierConfig,
+} from "./types.js";
@@ -0,0 +1,64 @@
+import type { Provider } from "ethers";
+import type { ChainConfig } from "../config/chains/types.js";
+import type { PoolDefinition } from "../config/types.js";
+
+/** Configuration for the PoolDiscovery */
+export interface PoolDiscoveryConfig {
+  /** Ethers.js provider for factory and pool reads */
+  provider: Provider;
+  /** DEX factories to enumerate (from ChainConfig.dexes) */
+  dexes: ChainConfig["dexes"];
+  /** Tokens to pair up (from ChainConfig.tokens) — symbol → address */
+  tokens: Record<string, string>;
+  /** Liquidity floor: token address → minimum balance the pool must hold (human units).
+   *  Pools holding none of these tokens are skipped. Default: 10 WETH when tokens.WETH is set */
+  minLiquidity?: Record<string, number>;
+  /** V3 fee tiers to probe with getPool(). Default: [100, 500, 3000, 10000] */
+  feeTiers?: number[];
+  /** Pool addresses already monitored — never re-emitted */
+  knownPools?: string[];
+  /** How often to scan factory creation logs for new pools (ms). Default: 60000 */
+  pollIntervalMs?: number;
+  /** Maximum block range per eth_getLogs request. Default: 10000 */
+  logBlockRange?: number;
+}
+
+/** A factory pool that has not yet been validated on-chain */
+export interface PoolCandidate {
+  dex: PoolDefinition["dex"];
+  poolAddress: string;
+  feeTier?: number;
+}
+
+/** Events emitted by PoolDiscovery */
+export interface PoolDiscoveryEvents {
+  poolDiscovered: (pool: PoolDefinition) => void;
+  poolRejected: (candidate: PoolCandidate, reason: string) => void;
+  error: (error: Error) => void;
+}
+
+/** Configuration for the PoolVerifier */
+export interface PoolVerifierConfig {
+  /** Ethers.js provider for pool and token reads */
+  provider: Provider;
+  /** Factory expected to have deployed each DEX's pools. DEXes without one are not factory-checked */
+  factories?: Partial<Record<PoolDefinition["dex"], string>>;
+  /** Read state at this block instead of the latest */
+  blockTag?: number;
+}
+
+/** One definition field that disagrees with the chain */
+export interface PoolFieldMismatch {
+  /** Definition field (or on-chain getter for fields the definition implies) */
+  field: string;
+  expected: string;
+  /** On-chain value, or "unreadable" when the call reverted or returned garbage */
+  actual: string;
+}
+
+/** Outcome of verifying one pool definition */
+export interface PoolVerification {
+  pool: PoolDefinition;
+  /** Empty when every checked field matches */
+  mismatches: PoolFieldMismatch[];
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { JsonRpcProvider } from "ethers";
+import { loadChainConfig } from "../config/index.js";
+import { PoolVerifier, factoriesFromDexes, formatPoolVerification } from "./PoolVerifier.js";
+
+// ANSI colors (same helpers as run-arb-mainnet.ts)
+const c = {
+  green: (s: string) => `\x1b[32m${s}\x1b[0m`,
+  red: (s: string) => `\x1b[31m${s}\x1b[0m`,
+  yellow: (s: string) => `\x1b[33m${s}\x1b[0m`,
+  cyan: (s: string) => `\x1b[36m${s}\x1b[0m`,
+  dim: (s: string) => `\x1b[2m${s}\x1b[0m`,
+  bold: (s: string) => `\x1b[1m${s}\x1b[0m`,
+};
+
+async function main(): Promise<void> {
+  // Parse CLI args
+  const args = process.argv.slice(2);
+  let chainId: number | undefined; // Default: CHAIN_ID env var
+  let blockTag: number | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if ((args[i] === "--chain" || args[i] === "--block") && args[i + 1]) {
+      const value = parseInt(args[i + 1], 10);
+      if (isNaN(value) || value < 1) {
+        console.error(c.red(`[ERROR] ${args[i]} must be a positive integer`));
+        process.exit(1);
+      }
+      if (args[i] === "--chain") chainId = value;
+      else blockTag = value;
+      i++; // Skip next arg (already consumed)
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      console.log(`
+${c.bold("Flashloan Bot — Pool Verification CLI")}
+
+Checks every configured pool definition (tokens, decimals, fee tier / bin
+step, factory) against the chain at RPC_URL. Exits 1 on any mismatch, so it
+can gate CI against a fork (e.g. anvil --fork-url <arbitrum rpc>).
+
+Usage:
+  pnpm verify-pools [--chain ID] [--block N]
+
+Options:
+  --chain ID  Chain config to verify (default: CHAIN_ID env var)
+  --block N   Read state at block N instead of the latest
+  --help      Show this help message
+
+Examples:
+  RPC_URL=http://127.0.0.1:8545 pnpm verify-pools --chain 42161
+`);
+      process.exit(0);
+    } else {
+      console.error(c.red(`[ERROR] Unknown argument: ${args[i]}`));
+      console.error(c.dim(`Run with --help for usage info`));
+      process.exit(1);
+    }
+  }
+
+  const chain = loadChainConfig(chainId);
+  if (!chain.rpcUrl) {
+    console.error(c.red(`[ERROR] RPC_URL environment variable is not set.`));
+    process.exit(1);
+  }
+
+  const provider = new JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+  const verifier = new PoolVerifier({ provider, factories: factoriesFromDexes(chain.dexes), blockTag });
+
+  console.log(c.bold(`\n========================================`));
+  console.log(c.bold(`  Flashloan Bot — Pool Verification`));
+  console.log(c.bold(`========================================\n`));
+  console.log(c.cyan(`Chain:    ${chain.chainName} (chainId ${chain.chainId})`));
+  console.log(c.cyan(`Block:    ${blockTag ?? "latest"}`));
+  console.log(c.cyan(`Pools:    ${chain.pools.length}\n`));
+
+  const results = await verifier.verify(chain.pools);
+  const failed = results.filter((r) => r.mismatches.length > 0);
+
+  for (const result of results) {
+    if (result.mismatches.length === 0) {
+      console.log(c.green(`  OK    ${result.pool.label}`));
+    }
+  }
+  for (const result of failed) {
+    console.log(c.red(`\nMISMATCH ${formatPoolVerification(result)}`));
+  }
+
+  provider.destroy();
+
+  if (failed.length > 0) {
+    console.log(c.red(`\n${failed.length} of ${results.length} pool definition(s) do not match on-chain state\n`));
+    process.exit(1);
+  }
+  console.log(c.green(`\nAll ${results.length} pool definitions match on-chain state\n`));
+}
+
+main().catch((err) => {
+  console.error(c.red(`[ERROR] ${err instanceof Error ? err.message : String(err)}`));
+  process.exit(1);
+});
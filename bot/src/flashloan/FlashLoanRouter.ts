@@ -0,0 +1,438 @@
+import { Interface, ZeroAddress } from "ethers";
+import type { FlashLoanProvider } from "../builder/types.js";
+import { aggregate3, type MulticallRequest, type MulticallResult } from "../monitor/multicall.js";
+import type { FlashLoanQuote, FlashLoanRouterConfig, FlashLoanSelection } from "./types.js";
+
+const ERC20_ABI = ["function balanceOf(address account) view returns (uint256)"];
+
+// Balancer V2 Vault and its ProtocolFeesCollector (flash loan fee: 1e18 = 100%)
+const BALANCER_VAULT_ABI = ["function getProtocolFeesCollector() view returns (address)"];
+const BALANCER_FEES_COLLECTOR_ABI = ["function getFlashLoanFeePercentage() view returns (uint256)"];
+
+// Aave V3 Pool (flash loan premium in basis points)
+const AAVE_V3_POOL_ABI = [
+  "function getReserveData(address asset) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))",
+  "function FLASHLOAN_PREMIUM_TOTAL() view returns (uint128)",
+];
+
+// Uniswap V3 factory (pool lookup); pools lend both their tokens for their swap fee
+const UNISWAP_V3_FACTORY_ABI = ["function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)"];
+
+// dYdX SoloMargin (flash loans are free apart from a 2 wei deposit surplus)
+const DYDX_SOLO_MARGIN_ABI = [
+  "function getNumMarkets() view returns (uint256)",
+  "function getMarketTokenAddress(uint256 marketId) view returns (address)",
+];
+
+// FlashloanExecutor: the provider contracts it dispatches flash loans to (zero = disabled)
+const EXECUTOR_ABI = [
+  "function balancerVault() view returns (address)",
+  "function aavePool() view returns (address)",
+  "function uniswapV3Factory() view returns (address)",
+  "function dydxSoloMargin() view returns (address)",
+];
+
+/** Executor getter naming the contract it borrows from, per provider */
+const EXECUTOR_PROVIDER_GETTERS: Record<FlashLoanProvider, string> = {
+  balancer: "balancerVault",
+  aave_v3: "aavePool",
+  uniswap_v3: "uniswapV3Factory",
+  dydx: "dydxSoloMargin",
+};
+
+const erc20Iface = new Interface(ERC20_ABI);
+const balancerVaultIface = new Interface(BALANCER_VAULT_ABI);
+const balancerFeesIface = new Interface(BALANCER_FEES_COLLECTOR_ABI);
+const aavePoolIface = new Interface(AAVE_V3_POOL_ABI);
+const v3FactoryIface = new Interface(UNISWAP_V3_FACTORY_ABI);
+const soloMarginIface = new Interface(DYDX_SOLO_MARGIN_ABI);
+const executorIface = new Interface(EXECUTOR_ABI);
+
+/** Aave V3 ReserveConfiguration bits */
+const AAVE_ACTIVE_BIT = 56n;
+const AAVE_PAUSED_BIT = 60n;
+const AAVE_FLASHLOAN_ENABLED_BIT = 63n;
+
+/** Providers in order of preference when their fees tie */
+const PROVIDER_ORDER: FlashLoanProvider[] = ["balancer", "dydx", "aave_v3", "uniswap_v3"];
+
+const DEFAULT_V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+/** Surplus SoloMargin requires on repayment of a dYdX flash loan */
+const DYDX_FLASH_FEE_WEI = 2n;
+
+/** A Uniswap V3 pool holding a token, and its fee tier (hundredths of a bip) */
+interface V3Pool {
+  address: string;
+  fee: number;
+}
+
+/** Calls reading one provider, and how to turn their results into a quote */
+interface ProviderRead {
+  calls: MulticallRequest[];
+  parse: (results: MulticallResult[]) => FlashLoanQuote;
+}
+
+function isSet(configuration: bigint, bit: bigint): boolean {
+  return ((configuration >> bit) & 1n) === 1n;
+}
+
+/**
+ * Picks the flash loan provider for a loan by reading, per token and
+ * amount, what each configured provider can lend right now: the Balancer
+ * Vault's token balance and its ProtocolFeesCollector fee, the Aave V3
+ * reserve's state, aToken balance (available liquidity) and premium, the
+ * dYdX SoloMargin's token balance, and the token balance of each Uniswap V3
+ * pool holding the token.
+ *
+ * A Uniswap V3 loan is borrowed from a pool outside the arbitrage path (a
+ * pool cannot lend while it is being swapped through): the lowest fee tier
+ * pool that holds enough is picked, and its fee tier is the loan's fee.
+ *
+ * The cheapest provider that can fund the loan is selected; a provider
+ * that is short of liquidity, paused, has flash loans disabled or whose
+ * state cannot be read is passed over for the next cheapest. With an
+ * executor configured, so is a provider the executor cannot borrow from:
+ * one whose contract differs from the executor's own (read from its
+ * getters). The executor's providers, fee collector, aToken, dYdX market
+ * and Uniswap V3 pool addresses are looked up once and cached; balances
+ * and fees are read fresh for every loan, in a single Multicall3 batch.
+ */
+export class FlashLoanRouter {
+  private readonly config: FlashLoanRouterConfig;
+  /** Aave V3 aToken per token (lowercase); ZeroAddress when the token is not listed */
+  private readonly aTokens = new Map<string, string>();
+  private feesCollector: string | undefined;
+  /** Uniswap V3 pools per token (lowercase) across the configured pair tokens and fee tiers */
+  private readonly v3Pools = new Map<string, V3Pool[]>();
+  /** Tokens (lowercase) with a dYdX market; undefined until the market list has been read */
+  private dydxTokens: Set<string> | undefined;
+  /** Providers (lowercase contract addresses) the executor borrows from; undefined until read */
+  private executorProviders: Partial<Record<FlashLoanProvider, string>> | undefined;
+
+  constructor(config: FlashLoanRouterConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Select the cheapest provider able to lend `amount` (raw units) of
+   * `token`, never borrowing from one of `excludePools` (the arbitrage
+   * path's pools). Throws, naming each provider's shortfall, when none can.
+   */
+  async select(token: string, amount: bigint, excludePools: string[] = []): Promise<FlashLoanSelection> {
+    const candidates = await this.quote(token, amount, excludePools);
+    const chosen = candidates.find((c) => c.unavailableReason === undefined);
+    if (!chosen) {
+      const reasons = candidates.map((c) => `${c.provider}: ${c.unavailableReason}`).join("; ");
+      throw new Error(`No provider can lend ${amount} of ${token}${reasons ? ` (${reasons})` : ""}`);
+    }
+    return { provider: chosen.provider, address: chosen.address, feeRate: chosen.feeRate, candidates };
+  }
+
+  /** Read what every configured provider can lend of `token`: those that can fund `amount` first, cheapest first */
+  async quote(token: string, amount: bigint, excludePools: string[] = []): Promise<FlashLoanQuote[]> {
+    await this.resolveAddresses(token);
+
+    const reads: ProviderRead[] = [];
+    for (const provider of PROVIDER_ORDER) {
+      const address = this.config.providers[provider];
+      if (!address) continue;
+      if (!this.executorSupports(provider, address)) {
+        reads.push(this.unsupportedRead(provider, address));
+        continue;
+      }
+      switch (provider) {
+        case "balancer":
+          reads.push(this.balancerRead(address, token, amount));
+          break;
+        case "aave_v3":
+          reads.push(this.aaveRead(address, token, amount));
+          break;
+        case "dydx":
+          reads.push(this.dydxRead(address, token, amount));
+          break;
+        case "uniswap_v3":
+          reads.push(this.uniswapV3Read(address, token, amount, excludePools));
+          break;
+      }
+    }
+
+    const calls = reads.flatMap((r) => r.calls);
+    const results = calls.length > 0 ? await aggregate3(this.config.provider, calls) : [];
+    let offset = 0;
+    const quotes = reads.map((read) => {
+      const slice = results.slice(offset, offset + read.calls.length);
+      offset += read.calls.length;
+      return read.parse(slice);
+    });
+
+    // Stable sort: ties keep PROVIDER_ORDER
+    const unavailable = (q: FlashLoanQuote) => Number(q.unavailableReason !== undefined);
+    return quotes.sort((a, b) => unavailable(a) - unavailable(b) || a.feeRate - b.feeRate);
+  }
+
+  /** Whether the executor borrows from `address` for `provider` (always, when no executor is configured) */
+  private executorSupports(provider: FlashLoanProvider, address: string): boolean {
+    if (!this.config.executor) return true;
+    return this.executorProviders?.[provider] === address.toLowerCase();
+  }
+
+  /** Quote for a provider the executor cannot borrow from */
+  private unsupportedRead(provider: FlashLoanProvider, address: string): ProviderRead {
+    return {
+      calls: [],
+      parse: () => ({ provider, address, available: 0n, feeRate: 0, unavailableReason: "not supported by the executor" }),
+    };
+  }
+
+  /**
+   * Read (once) the provider contracts the executor dispatches to. A getter
+   * that reverts (an executor predating the provider) or returns the zero
+   * address leaves its provider unsupported.
+   */
+  private async resolveExecutorProviders(executor: string): Promise<void> {
+    const providers = Object.keys(EXECUTOR_PROVIDER_GETTERS) as FlashLoanProvider[];
+    const results = await aggregate3(this.config.provider, providers.map((provider) => ({
+      target: executor,
+      allowFailure: true,
+      callData: executorIface.encodeFunctionData(EXECUTOR_PROVIDER_GETTERS[provider]),
+    })));
+
+    const supported: Partial<Record<FlashLoanProvider, string>> = {};
+    providers.forEach((provider, i) => {
+      if (!results[i].success || results[i].returnData === "0x") return;
+      const address = executorIface.decodeFunctionResult(EXECUTOR_PROVIDER_GETTERS[provider], results[i].returnData)[0] as string;
+      if (address !== ZeroAddress) supported[provider] = address.toLowerCase();
+    });
+    this.executorProviders = supported;
+  }
+
+  /** Look up (once) the executor's providers, the Balancer fee collector, the token's Aave aToken, its Uniswap V3 pools and the dYdX markets */
+  private async resolveAddresses(token: string): Promise<void> {
+    const vault = this.config.providers.balancer;
+    const pool = this.config.providers.aave_v3;
+    const factory = this.config.providers.uniswap_v3;
+    const soloMargin = this.config.providers.dydx;
+    const key = token.toLowerCase();
+
+    if (this.config.executor && this.executorProviders === undefined) {
+      await this.resolveExecutorProviders(this.config.executor);
+    }
+    if (soloMargin && this.dydxTokens === undefined) await this.resolveDydxMarkets(soloMargin);
+
+    const lookups: Array<{ call: MulticallRequest; apply: (returnData: string) => void }> = [];
+    if (vault && this.feesCollector === undefined) {
+      lookups.push({
+        call: { target: vault, allowFailure: true, callData: balancerVaultIface.encodeFunctionData("getProtocolFeesCollector") },
+        apply: (data) => {
+          this.feesCollector = balancerVaultIface.decodeFunctionResult("getProtocolFeesCollector", data)[0] as string;
+        },
+      });
+    }
+    if (pool && !this.aTokens.has(key)) {
+      lookups.push({
+        call: { target: pool, allowFailure: true, callData: aavePoolIface.encodeFunctionData("getReserveData", [token]) },
+        apply: (data) => {
+          const reserve = aavePoolIface.decodeFunctionResult("getReserveData", data)[0];
+          this.aTokens.set(key, reserve.aTokenAddress as string);
+        },
+      });
+    }
+    // A token's pools are cached only once every getPool lookup succeeded
+    const pairTokens = (this.config.uniswapV3PairTokens ?? []).filter((t) => t.toLowerCase() !== key);
+    const tiers = this.config.uniswapV3FeeTiers ?? DEFAULT_V3_FEE_TIERS;
+    const v3Lookup = factory && !this.v3Pools.has(key)
+      ? { pools: [] as V3Pool[], pending: pairTokens.length * tiers.length }
+      : undefined;
+    if (factory && v3Lookup) {
+      for (const pairToken of pairTokens) {
+        for (const fee of tiers) {
+          lookups.push({
+            call: { target: factory, allowFailure: true, callData: v3FactoryIface.encodeFunctionData("getPool", [token, pairToken, fee]) },
+            apply: (data) => {
+              const address = v3FactoryIface.decodeFunctionResult("getPool", data)[0] as string;
+              if (address !== ZeroAddress) v3Lookup.pools.push({ address, fee });
+              v3Lookup.pending--;
+            },
+          });
+        }
+      }
+    }
+
+    if (lookups.length > 0) {
+      // Failed lookups stay unresolved and are retried with the next loan
+      const results = await aggregate3(this.config.provider, lookups.map((l) => l.call));
+      lookups.forEach((lookup, i) => {
+        if (results[i].success && results[i].returnData !== "0x") lookup.apply(results[i].returnData);
+      });
+    }
+    if (v3Lookup && v3Lookup.pending === 0) {
+      this.v3Pools.set(key, v3Lookup.pools.sort((a, b) => a.fee - b.fee));
+    }
+  }
+
+  /** Read the token of every dYdX market: the market count, then each market's token */
+  private async resolveDydxMarkets(soloMargin: string): Promise<void> {
+    const [count] = await aggregate3(this.config.provider, [
+      { target: soloMargin, allowFailure: true, callData: soloMarginIface.encodeFunctionData("getNumMarkets") },
+    ]);
+    if (!count.success || count.returnData === "0x") return;
+    const numMarkets = Number(soloMarginIface.decodeFunctionResult("getNumMarkets", count.returnData)[0]);
+
+    const calls = Array.from({ length: numMarkets }, (_, marketId) => ({
+      target: soloMargin,
+      allowFailure: true,
+      callData: soloMarginIface.encodeFunctionData("getMarketTokenAddress", [marketId]),
+    }));
+    const results = numMarkets > 0 ? await aggregate3(this.config.provider, calls) : [];
+    if (results.some((r) => !r.success || r.returnData === "0x")) return;
+
+    this.dydxTokens = new Set(results.map((r) =>
+      (soloMarginIface.decodeFunctionResult("getMarketTokenAddress", r.returnData)[0] as string).toLowerCase()));
+  }
+
+  /** Vault balance of the token and the collector's flash loan fee */
+  private balancerRead(vault: string, token: string, amount: bigint): ProviderRead {
+    const collector = this.feesCollector;
+    const unavailable = (reason: string): FlashLoanQuote => ({
+      provider: "balancer", address: vault, available: 0n, feeRate: 0, unavailableReason: reason,
+    });
+    if (!collector) {
+      return { calls: [], parse: () => unavailable("fee collector unreadable") };
+    }
+
+    return {
+      calls: [
+        { target: token, allowFailure: true, callData: erc20Iface.encodeFunctionData("balanceOf", [vault]) },
+        { target: collector, allowFailure: true, callData: balancerFeesIface.encodeFunctionData("getFlashLoanFeePercentage") },
+      ],
+      parse: ([balance, fee]) => {
+        if (!balance.success || !fee.success) return unavailable("balance or fee unreadable");
+        const available = erc20Iface.decodeFunctionResult("balanceOf", balance.returnData)[0] as bigint;
+        const feeRate = Number(balancerFeesIface.decodeFunctionResult("getFlashLoanFeePercentage", fee.returnData)[0]) / 1e18;
+        return {
+          provider: "balancer",
+          address: vault,
+          available,
+          feeRate,
+          ...(available < amount && { unavailableReason: `insufficient balance (${available} < ${amount})` }),
+        };
+      },
+    };
+  }
+
+  /** Reserve state, premium and available liquidity (the aToken's underlying balance) */
+  private aaveRead(pool: string, token: string, amount: bigint): ProviderRead {
+    const aToken = this.aTokens.get(token.toLowerCase());
+    const unavailable = (reason: string): FlashLoanQuote => ({
+      provider: "aave_v3", address: pool, available: 0n, feeRate: 0, unavailableReason: reason,
+    });
+    if (aToken === undefined) {
+      return { calls: [], parse: () => unavailable("reserve data unreadable") };
+    }
+    if (aToken === ZeroAddress) {
+      return { calls: [], parse: () => unavailable("token not listed") };
+    }
+
+    return {
+      calls: [
+        { target: pool, allowFailure: true, callData: aavePoolIface.encodeFunctionData("getReserveData", [token]) },
+        { target: pool, allowFailure: true, callData: aavePoolIface.encodeFunctionData("FLASHLOAN_PREMIUM_TOTAL") },
+        { target: token, allowFailure: true, callData: erc20Iface.encodeFunctionData("balanceOf", [aToken]) },
+      ],
+      parse: ([reserve, premium, balance]) => {
+        if (!reserve.success || !premium.success || !balance.success) {
+          return unavailable("reserve state unreadable");
+        }
+        const configuration = aavePoolIface.decodeFunctionResult("getReserveData", reserve.returnData)[0].configuration as bigint;
+        const feeRate = Number(aavePoolIface.decodeFunctionResult("FLASHLOAN_PREMIUM_TOTAL", premium.returnData)[0]) / 10_000;
+        const available = erc20Iface.decodeFunctionResult("balanceOf", balance.returnData)[0] as bigint;
+
+        let unavailableReason: string | undefined;
+        if (!isSet(configuration, AAVE_ACTIVE_BIT)) unavailableReason = "reserve inactive";
+        else if (isSet(configuration, AAVE_PAUSED_BIT)) unavailableReason = "reserve paused";
+        else if (!isSet(configuration, AAVE_FLASHLOAN_ENABLED_BIT)) unavailableReason = "flash loans disabled";
+        else if (available < amount) unavailableReason = `insufficient liquidity (${available} < ${amount})`;
+
+        return {
+          provider: "aave_v3",
+          address: pool,
+          available,
+          feeRate,
+          ...(unavailableReason && { unavailableReason }),
+        };
+      },
+    };
+  }
+
+  /** SoloMargin's balance of the token; the fee is the 2 wei repayment surplus */
+  private dydxRead(soloMargin: string, token: string, amount: bigint): ProviderRead {
+    const unavailable = (reason: string): FlashLoanQuote => ({
+      provider: "dydx", address: soloMargin, available: 0n, feeRate: 0, unavailableReason: reason,
+    });
+    if (this.dydxTokens === undefined) {
+      return { calls: [], parse: () => unavailable("markets unreadable") };
+    }
+    if (!this.dydxTokens.has(token.toLowerCase())) {
+      return { calls: [], parse: () => unavailable("token not listed") };
+    }
+
+    return {
+      calls: [
+        { target: token, allowFailure: true, callData: erc20Iface.encodeFunctionData("balanceOf", [soloMargin]) },
+      ],
+      parse: ([balance]) => {
+        if (!balance.success) return unavailable("balance unreadable");
+        const available = erc20Iface.decodeFunctionResult("balanceOf", balance.returnData)[0] as bigint;
+        return {
+          provider: "dydx",
+          address: soloMargin,
+          available,
+          feeRate: amount > 0n ? Number(DYDX_FLASH_FEE_WEI) / Number(amount) : 0,
+          ...(available < amount && { unavailableReason: `insufficient balance (${available} < ${amount})` }),
+        };
+      },
+    };
+  }
+
+  /**
+   * Token balances of the token's Uniswap V3 pools outside `excludePools`.
+   * The quote is for the lowest fee tier pool holding enough, else for the
+   * pool holding the most.
+   */
+  private uniswapV3Read(factory: string, token: string, amount: bigint, excludePools: string[]): ProviderRead {
+    const unavailable = (reason: string): FlashLoanQuote => ({
+      provider: "uniswap_v3", address: factory, available: 0n, feeRate: 0, unavailableReason: reason,
+    });
+    const known = this.v3Pools.get(token.toLowerCase());
+    if (known === undefined) {
+      return { calls: [], parse: () => unavailable("pool lookup failed") };
+    }
+    const excluded = new Set(excludePools.map((p) => p.toLowerCase()));
+    const pools = known.filter((p) => !excluded.has(p.address.toLowerCase()));
+    if (pools.length === 0) {
+      return { calls: [], parse: () => unavailable(known.length > 0 ? "no pool outside the arbitrage path" : "no pool") };
+    }
+
+    return {
+      calls: pools.map((p) => ({
+        target: token, allowFailure: true, callData: erc20Iface.encodeFunctionData("balanceOf", [p.address]),
+      })),
+      parse: (results) => {
+        let best: FlashLoanQuote | undefined;
+        let largest: FlashLoanQuote | undefined;
+        pools.forEach((pool, i) => {
+          if (!results[i].success) return;
+          const available = erc20Iface.decodeFunctionResult("balanceOf", results[i].returnData)[0] as bigint;
+          const quote: FlashLoanQuote = { provider: "uniswap_v3", address: pool.address, available, feeRate: pool.fee / 1e6 };
+          // Pools are sorted by fee tier, so the first that can fund the loan is the cheapest
+          if (!best && available >= amount) best = quote;
+          if (!largest || available > largest.available) largest = quote;
+        });
+        if (best) return best;
+        if (!largest) return unavailable("pool balances unreadable");
+        return { ...largest, unavailableReason: `insufficient liquidity (${largest.available} < ${amount})` };
+      },
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export { FlashLoanRouter } from "./FlashLoanRouter.js";
+export type {
+  FlashLoanQuote,
+  FlashLoanRouterConfig,
+  FlashLoanSelection,
+} from "./types.js";
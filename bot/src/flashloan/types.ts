@@ -0,0 +1,45 @@
+import type { Provider } from "ethers";
+import type { FlashLoanProvider } from "../builder/types.js";
+
+/** What one flash loan provider can lend of a token, read on-chain */
+export interface FlashLoanQuote {
+  /** Provider */
+  provider: FlashLoanProvider;
+  /** Contract the loan is taken from (Balancer Vault, Aave V3 Pool, Uniswap V3 pool, dYdX SoloMargin) */
+  address: string;
+  /** Amount the provider can lend right now (raw token units) */
+  available: bigint;
+  /** Fee as decimal (0.0005 = 0.05%) */
+  feeRate: number;
+  /** Why the provider cannot fund the loan. Unset when it can */
+  unavailableReason?: string;
+}
+
+/** Flash loan provider chosen to fund an opportunity */
+export interface FlashLoanSelection {
+  /** Cheapest provider able to fund the loan */
+  provider: FlashLoanProvider;
+  /** Contract the loan is taken from (for Uniswap V3, the pool picked for this loan) */
+  address: string;
+  /** Fee as decimal (0.0005 = 0.05%) */
+  feeRate: number;
+  /** Every provider checked, fundable ones cheapest first, with why the others were passed over */
+  candidates: FlashLoanQuote[];
+}
+
+/** Configuration for the FlashLoanRouter */
+export interface FlashLoanRouterConfig {
+  /** Ethers.js provider for on-chain reads */
+  provider: Provider;
+  /** Provider contract addresses (as in TransactionBuilderConfig.flashLoanProviders;
+   *  the Uniswap V3 factory for uniswap_v3). Providers without one are never selected */
+  providers: Partial<Record<FlashLoanProvider, string>>;
+  /** FlashloanExecutor the loans are taken through. When set, providers whose contract
+   *  differs from the executor's own are never selected */
+  executor?: string;
+  /** Tokens a loaned token is paired with when looking for Uniswap V3 pools to borrow from.
+   *  Default: none (no Uniswap V3 loans) */
+  uniswapV3PairTokens?: string[];
+  /** Uniswap V3 fee tiers to look for pools in (hundredths of a bip). Default: 100, 500, 3000, 10000 */
+  uniswapV3FeeTiers?: number[];
+}
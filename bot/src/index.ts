@@ -1,10 +1,18 @@
 import "dotenv/config";
-import { JsonRpcProvider, type Wallet } from "ethers";
+import type { Wallet } from "ethers";
 import { PriceMonitor } from "./monitor/PriceMonitor.js";
 import { OpportunityDetector } from "./detector/OpportunityDetector.js";
+import { TokenValuation, toEth } from "./detector/TokenValuation.js";
+import { cycleLabel } from "./detector/cycles.js";
+import { FlashLoanRouter } from "./flashloan/FlashLoanRouter.js";
+import { RiskPolicy } from "./policy/RiskPolicy.js";
 import { ExecutionEngine } from "./engine/ExecutionEngine.js";
 import { TransactionBuilder } from "./builder/TransactionBuilder.js";
+import type { TransactionBuilderConfig } from "./builder/types.js";
 import { NonceManager } from "./nonce/NonceManager.js";
+import { OpportunityScheduler } from "./scheduler/OpportunityScheduler.js";
+import { MultiRpcProvider } from "./provider/index.js";
+import { PoolVerifier, formatPoolVerification, type PoolVerification } from "./discovery/index.js";
 import {
   parseEnv,
   buildConfig,
@@ -19,6 +27,7 @@ import {
   formatScanSummary,
   type ScanStats,
 } from "./reporting.js";
+import type { ArbitrageOpportunity } from "./detector/types.js";
 import type { TradeStore } from "./dashboard/TradeStore.js";
 import type { TradeOutcome } from "./dashboard/types.js";
 
@@ -40,8 +49,11 @@ export type BotStatus = "idle" | "starting" | "running" | "stopping" | "stopped"
  */
 export class FlashloanBot {
   readonly config: BotConfig;
+  /** Shared RPC layer — monitor, engine, nonce manager and gas reads all go through it */
+  readonly provider: MultiRpcProvider;
   readonly monitor: PriceMonitor;
   readonly detector: OpportunityDetector;
+  readonly scheduler: OpportunityScheduler;
   readonly dryRun: boolean;
   readonly mode: "dry-run" | "shadow" | "live";
   readonly engine?: ExecutionEngine;
@@ -67,7 +79,7 @@ export class FlashloanBot {
       wallet?: Wallet;
       executorAddress?: string;
       adapters?: Record<string, string>; // Partial adapter map (only configured DEXs)
-      flashLoanProviders?: { aave_v3: string; balancer: string };
+      flashLoanProviders?: TransactionBuilderConfig["flashLoanProviders"];
     },
     tradeStore?: TradeStore,
   ) {
@@ -90,18 +102,42 @@ export class FlashloanBot {
       startTime: Date.now(),
     };
 
-    const provider = new JsonRpcProvider(config.network.rpcUrl);
+    this.provider = new MultiRpcProvider({
+      urls: [config.network.rpcUrl, ...(config.network.fallbackRpcUrls ?? [])],
+      wsUrls: config.network.wsUrl
+        ? [config.network.wsUrl, ...(config.network.fallbackWsUrls ?? [])]
+        : [],
+      chainId: config.network.chainId,
+      quorum: config.network.rpcQuorum,
+    });
 
     const pools: PoolDefinition[] = config.pools;
 
     this.monitor = new PriceMonitor({
-      provider,
+      provider: this.provider,
       pools,
       deltaThresholdPercent: config.monitor.deltaThresholdPercent,
       pollIntervalMs: config.monitor.pollIntervalMs,
       maxRetries: config.monitor.maxRetries,
       minReserveWeth: config.monitor.minReserveWeth,
+      dexMinReserveWeth: config.monitor.dexMinReserveWeth,
       wethAddress: config.monitor.wethAddress,
+      eventDriven: config.monitor.eventDriven,
+      reconcileIntervalMs: config.monitor.reconcileIntervalMs,
+      maxGapReplayBlocks: config.monitor.maxGapReplayBlocks,
+      tickBitmapWords: config.monitor.tickBitmapWords,
+      tickRefreshMs: config.monitor.tickRefreshMs,
+      lbBinsPerSide: config.monitor.lbBinsPerSide,
+      reorgDepth: config.monitor.reorgDepth,
+      twapWindowSeconds: config.monitor.twapWindowSeconds,
+      oracleFeeds: config.monitor.oracleFeeds,
+      maxOracleAgeSeconds: config.monitor.maxOracleAgeSeconds,
+      maxPriceDeviationPercent: config.monitor.maxPriceDeviationPercent,
+      pairPriceDeviationPercent: config.monitor.pairPriceDeviationPercent,
+      maxSpreadPercent: config.monitor.maxSpreadPercent,
+      maxPollInterval: config.monitor.maxPollInterval,
+      rpcBudgetPerSecond: config.monitor.rpcBudgetPerSecond,
+      promotionPolls: config.monitor.promotionPolls,
     });
 
     this.detector = new OpportunityDetector({
@@ -110,6 +146,14 @@ export class FlashloanBot {
       defaultInputAmount: config.detector.defaultInputAmount,
       gasPriceGwei: config.detector.gasPriceGwei,
       gasPerSwap: config.detector.gasPerSwap,
+      cycleBaseTokens: config.detector.cycleBaseTokens,
+      maxCycleHops: config.detector.maxCycleHops,
+      pairBaseTokens: config.detector.pairBaseTokens,
+      // Base tokens other than WETH are valued from the monitored WETH pairs
+      valuation: config.monitor.wethAddress
+        ? new TokenValuation({ wethAddress: config.monitor.wethAddress, usdTokens: config.detector.usdTokens })
+        : undefined,
+      policy: new RiskPolicy({ rules: config.detector.riskRules }),
     });
 
     // Initialize execution components in SHADOW or LIVE mode
@@ -141,6 +185,9 @@ export class FlashloanBot {
         camelot_v3: executionConfig.adapters.camelot_v3 ?? "0x0000000000000000000000000000000000000000",
         ramses_v3: executionConfig.adapters.ramses_v3 ?? "0x0000000000000000000000000000000000000000",
         traderjoe_lb: executionConfig.adapters.traderjoe_lb ?? "0x0000000000000000000000000000000000000000",
+        curve_stableswap: executionConfig.adapters.curve_stableswap ?? "0x0000000000000000000000000000000000000000",
+        balancer_v2: executionConfig.adapters.balancer_v2 ?? "0x0000000000000000000000000000000000000000",
+        uniswap_v4: executionConfig.adapters.uniswap_v4 ?? "0x0000000000000000000000000000000000000000",
       };
 
       this.builder = new TransactionBuilder({
@@ -150,7 +197,17 @@ export class FlashloanBot {
         chainId: config.network.chainId,
       });
 
-      this.engine = new ExecutionEngine(executionConfig.wallet, {
+      // Fund each loan from the cheapest provider the executor can borrow from
+      // that can lend it right now, looking for Uniswap V3 pools against every
+      // monitored token
+      this.detector.setFlashLoanRouter(new FlashLoanRouter({
+        provider: this.provider,
+        providers: executionConfig.flashLoanProviders,
+        executor: executionConfig.executorAddress,
+        uniswapV3PairTokens: [...new Set(config.pools.flatMap((p) => [p.token0.toLowerCase(), p.token1.toLowerCase()]))],
+      }));
+
+      this.engine = new ExecutionEngine(executionConfig.wallet.connect(this.provider), {
         confirmations: 1,
         confirmationTimeoutMs: 120_000,
         maxConsecutiveFailures: 5,
@@ -158,7 +215,7 @@ export class FlashloanBot {
       });
 
       this.nonceManager = new NonceManager({
-        provider: new JsonRpcProvider(config.network.rpcUrl),
+        provider: this.provider,
         address: executionConfig.wallet.address,
         statePath: ".data/nonce.json",
         pendingTimeoutMs: 300_000, // 5 minutes
@@ -175,6 +232,14 @@ export class FlashloanBot {
       });
     }
 
+    // Same-block opportunities are scheduled together so they don't collide;
+    // paths may all share WETH, but never a pool or another token
+    this.scheduler = new OpportunityScheduler((opp) => this.handleOpportunity(opp), {
+      ...config.scheduler,
+      sharedTokens: config.scheduler?.sharedTokens
+        ?? (config.monitor.wethAddress ? [config.monitor.wethAddress] : []),
+    });
+
     this.wireEvents();
   }
 
@@ -215,11 +280,25 @@ export class FlashloanBot {
 
     this.log("info", `Flashloan Bot v${BOT_VERSION} starting...`);
     this.log("info", `Chain ID: ${this.config.network.chainId}`);
+    if (this.provider.endpointCount > 1) {
+      this.log(
+        "info",
+        `RPC endpoints: ${this.provider.endpointCount} (block quorum ${this.provider.quorum})`,
+      );
+    }
     this.log("info", `Monitoring ${this.config.pools.length} pools`);
     this.log("info", `Mode: ${this.mode.toUpperCase()}`);
 
+    // 0. Check pool definitions against the chain
+    try {
+      await this.verifyPools();
+    } catch (err) {
+      this._status = "idle";
+      throw err;
+    }
+
     // List monitored pools
-    for (const pool of this.config.pools) {
+    for (const pool of this.monitor.pools) {
       this.log("info", `  Pool: ${pool.label} (${pool.dex}) @ ${pool.poolAddress}`);
     }
 
@@ -241,7 +320,7 @@ export class FlashloanBot {
       this.monitor.on("ws:reconnecting", () => {
         this.log("info", "WebSocket reconnecting...");
       });
-      this.monitor.startWebSocket(this.config.network.wsUrl);
+      this.monitor.startWebSocket(this.provider.wsUrls);
     }
 
     // 3. Register graceful shutdown
@@ -261,6 +340,7 @@ export class FlashloanBot {
     // Stop in reverse order
     this.monitor.stop();
     this.detector.detach();
+    this.scheduler.stop();
 
     this.removeShutdownHandlers();
 
@@ -291,6 +371,22 @@ export class FlashloanBot {
       this.log("warn", `Pool stale: ${pool.label}`);
     });
 
+    this.monitor.on("reorg", (reorg) => {
+      this.log("warn", `Reorg detected: blocks ${reorg.fromBlock}-${reorg.toBlock} orphaned, snapshots dropped`);
+    });
+
+    this.monitor.on("gap", (gap) => {
+      this.log("warn", `WebSocket gap: caught up on blocks ${gap.fromBlock}-${gap.toBlock} (${gap.backfill === "logs" ? "replayed pool logs" : "re-read all pools"})`);
+    });
+
+    this.monitor.on("lowLiquidity", (v) => {
+      this.log("warn", `Pool non-viable: ${v.pool.label} has ${v.liquidityWeth.toFixed(2)} WETH (min: ${v.minLiquidityWeth})`);
+    });
+
+    this.monitor.on("liquidityRestored", (v) => {
+      this.log("info", `Pool viable again: ${v.pool.label} has ${v.liquidityWeth.toFixed(2)} WETH`);
+    });
+
     // Track poll cycles via monitoring price updates grouped
     this.monitor.on("opportunity", () => {
       this.stats.pollCount++;
@@ -302,182 +398,243 @@ export class FlashloanBot {
       this.log("error", `Detector error: ${err instanceof Error ? err.message : String(err)}`);
     });
 
-    this.detector.on("opportunityFound", async (opp) => {
+    this.detector.on("opportunityFound", (opp) => {
       this.stats.opportunitiesFound++;
+      this.scheduler.submit(opp);
+    });
+
+    // Scheduler events — same-block opportunities that would collide
+    this.scheduler.on("dropped", (opp, reason) => {
+      this.log("info", `[SCHEDULER] Dropped ${opp.id}: ${reason}`);
+    });
+
+    this.scheduler.on("error", (err, opp) => {
+      this.stats.errors++;
+      this.log("error", `Execution error for ${opp.id}: ${err.message}`);
+    });
 
-      // DRY_RUN mode: just report
-      if (this.mode === "dry-run") {
-        console.log(formatOpportunityReport(opp, true));
+    this.detector.on("opportunityRejected", (reason, delta, cycle) => {
+      this.stats.opportunitiesRejected++;
+      const pair = delta?.pair ?? (cycle ? cycleLabel(cycle) : "unknown");
+      this.log("debug", formatRejectionReport(reason, pair));
+    });
+  }
+
+  /** Report, simulate or execute one opportunity the scheduler queued, depending on the mode */
+  private async handleOpportunity(opp: ArbitrageOpportunity): Promise<void> {
+    // DRY_RUN mode: just report
+    if (this.mode === "dry-run") {
+      console.log(formatOpportunityReport(opp, true));
+      return;
+    }
+
+    // SHADOW mode: simulate via eth_call, log estimated vs simulated
+    if (this.mode === "shadow") {
+      console.log(formatOpportunityReport(opp, true));
+
+      if (this.detector.isOrphaned(opp)) {
+        this.log("warn", `[SHADOW] Skipping ${opp.id} — built on a block orphaned by a reorg`);
         return;
       }
 
-      // SHADOW mode: simulate via eth_call, log estimated vs simulated
-      if (this.mode === "shadow") {
-        console.log(formatOpportunityReport(opp, true));
+      if (!this.builder || !this.engine) {
+        this.log("error", "[SHADOW] Builder or engine not initialized");
+        return;
+      }
 
-        if (!this.builder || !this.engine) {
-          this.log("error", "[SHADOW] Builder or engine not initialized");
-          return;
-        }
+      // Build the transaction
+      const tx = this.builder.buildArbitrageTransaction(opp, opp.flashLoan?.provider ?? "balancer");
 
-        // Build the transaction
-        const tx = this.builder.buildArbitrageTransaction(opp, "balancer");
+      // Simulate via eth_call (free, no gas cost)
+      const simResult = await this.engine.simulateTransaction({
+        ...tx,
+        gas: { maxFeePerGas: 0n, maxPriorityFeePerGas: 0n, gasLimit: 500_000n },
+        nonce: 0,
+      });
 
-        // Simulate via eth_call (free, no gas cost)
-        const simResult = await this.engine.simulateTransaction({
-          ...tx,
-          gas: { maxFeePerGas: 0n, maxPriorityFeePerGas: 0n, gasLimit: 500_000n },
-          nonce: 0,
+      const ts = new Date().toISOString();
+      if (simResult.success) {
+        console.log(`\x1b[32m[${ts}] [SHADOW] ✓ Simulation succeeded for ${opp.id}\x1b[0m`);
+        console.log(`\x1b[32m[${ts}] [SHADOW]   Estimated profit: ${toEth(opp, opp.netProfit).toFixed(8)} ETH\x1b[0m`);
+        console.log(`\x1b[32m[${ts}] [SHADOW]   Would broadcast in live mode\x1b[0m`);
+      } else {
+        console.log(`\x1b[33m[${ts}] [SHADOW] ✗ Simulation failed: ${simResult.reason}\x1b[0m`);
+        console.log(`\x1b[33m[${ts}] [SHADOW]   Estimated profit was ${toEth(opp, opp.netProfit).toFixed(8)} ETH, but would revert on-chain\x1b[0m`);
+
+        // Record simulation revert in trade store
+        this.tradeStore?.append({
+          txHash: `sim-${opp.id}`,
+          timestamp: Date.now(),
+          blockNumber: opp.blockNumber,
+          path: opp.path.label,
+          inputAmount: toEth(opp, opp.inputAmount),
+          grossProfit: 0,
+          gasCost: 0,
+          l1DataFee: 0,
+          revertCost: 0,
+          netProfit: 0,
+          status: "simulation_revert",
         });
+      }
+      return;
+    }
 
-        const ts = new Date().toISOString();
-        if (simResult.success) {
-          console.log(`\x1b[32m[${ts}] [SHADOW] ✓ Simulation succeeded for ${opp.id}\x1b[0m`);
-          console.log(`\x1b[32m[${ts}] [SHADOW]   Estimated profit: ${opp.netProfit.toFixed(8)} ETH\x1b[0m`);
-          console.log(`\x1b[32m[${ts}] [SHADOW]   Would broadcast in live mode\x1b[0m`);
-        } else {
-          console.log(`\x1b[33m[${ts}] [SHADOW] ✗ Simulation failed: ${simResult.reason}\x1b[0m`);
-          console.log(`\x1b[33m[${ts}] [SHADOW]   Estimated profit was ${opp.netProfit.toFixed(8)} ETH, but would revert on-chain\x1b[0m`);
+    // LIVE mode: check staleness, cooldowns, and execute
+    if (this.mode === "live") {
+      const staleness = this.detector.checkStaleness(opp);
+      if (!staleness.fresh) {
+        this.log("warn", `[STALE] Opportunity ${opp.id} is too stale (${staleness.latencyMs}ms > 200ms). Aborting.`);
+        return;
+      }
 
-          // Record simulation revert in trade store
-          this.tradeStore?.append({
-            txHash: `sim-${opp.id}`,
-            timestamp: Date.now(),
-            blockNumber: opp.blockNumber,
-            path: opp.path.label,
-            inputAmount: opp.inputAmount,
-            grossProfit: 0,
-            gasCost: 0,
-            l1DataFee: 0,
-            revertCost: 0,
-            netProfit: 0,
-            status: "simulation_revert",
-          });
-        }
+      // Fix #3: Check per-pair submission cooldown
+      // Cycles span several pairs — their pools, in order, stand in for the pair
+      const pairKey = opp.priceDelta?.pair ?? opp.path.label;
+      const lastSubmission = this._pairCooldowns.get(pairKey);
+      if (lastSubmission && Date.now() - lastSubmission < this.SUBMISSION_COOLDOWN_MS) {
+        const remaining = Math.ceil((this.SUBMISSION_COOLDOWN_MS - (Date.now() - lastSubmission)) / 1000);
+        this.log("warn", `[COOLDOWN] Skipping ${pairKey} — submitted ${remaining}s ago, waiting for cooldown`);
         return;
       }
 
-      // LIVE mode: check staleness, cooldowns, and execute
-      if (this.mode === "live") {
-        const staleness = this.detector.checkStaleness(opp);
-        if (!staleness.fresh) {
-          this.log("warn", `[STALE] Opportunity ${opp.id} is too stale (${staleness.latencyMs}ms > 200ms). Aborting.`);
-          return;
-        }
+      // Fix #4: Check if this pair recently reverted
+      const revertInfo = this._revertedPairs.get(pairKey);
+      if (revertInfo && Date.now() - revertInfo.timestamp < this.REVERT_COOLDOWN_MS) {
+        const remaining = Math.ceil((this.REVERT_COOLDOWN_MS - (Date.now() - revertInfo.timestamp)) / 1000);
+        this.log("warn", `[REVERT-SKIP] Skipping ${pairKey} — reverted at block ${revertInfo.blockNumber}, cooldown ${remaining}s remaining`);
+        return;
+      }
 
-        // Fix #3: Check per-pair submission cooldown
-        const pairKey = opp.priceDelta.pair;
-        const lastSubmission = this._pairCooldowns.get(pairKey);
-        if (lastSubmission && Date.now() - lastSubmission < this.SUBMISSION_COOLDOWN_MS) {
-          const remaining = Math.ceil((this.SUBMISSION_COOLDOWN_MS - (Date.now() - lastSubmission)) / 1000);
-          this.log("warn", `[COOLDOWN] Skipping ${pairKey} — submitted ${remaining}s ago, waiting for cooldown`);
-          return;
-        }
+      console.log(formatOpportunityReport(opp, false));
+      this.log("info", `[LIVE] Latency: ${staleness.latencyMs}ms (fresh)`);
 
-        // Fix #4: Check if this pair recently reverted
-        const revertInfo = this._revertedPairs.get(pairKey);
-        if (revertInfo && Date.now() - revertInfo.timestamp < this.REVERT_COOLDOWN_MS) {
-          const remaining = Math.ceil((this.REVERT_COOLDOWN_MS - (Date.now() - revertInfo.timestamp)) / 1000);
-          this.log("warn", `[REVERT-SKIP] Skipping ${pairKey} — reverted at block ${revertInfo.blockNumber}, cooldown ${remaining}s remaining`);
-          return;
+      if (!this.builder || !this.engine || !this.nonceManager) {
+        this.log("error", "[LIVE] Builder, engine, or nonce manager not initialized");
+        return;
+      }
+
+      try {
+        // Get next nonce (waits for pending transactions if any)
+        const nonceResult = await this.nonceManager.getNextNonce();
+        if (nonceResult.hadPending) {
+          this.log("info", `[LIVE] Resolved pending transaction (status: ${nonceResult.pendingStatus})`);
         }
 
-        console.log(formatOpportunityReport(opp, false));
-        this.log("info", `[LIVE] Latency: ${staleness.latencyMs}ms (fresh)`);
+        // Build transaction
+        const tx = this.builder.buildArbitrageTransaction(opp, opp.flashLoan?.provider ?? "balancer");
+
+        // Get current gas parameters from provider
+        const feeData = await this.provider.getFeeData();
+        const baseFeeGwei = Number(feeData.gasPrice ?? 0n) / 1e9;
+        const priorityFeeGwei = 0.01; // 0.01 gwei tip on Arbitrum
+
+        // Calculate gas settings
+        const gasSettings = this.builder.calculateGasSettings(
+          baseFeeGwei,
+          priorityFeeGwei,
+          500_000, // Conservative gas limit
+        );
 
-        if (!this.builder || !this.engine || !this.nonceManager) {
-          this.log("error", "[LIVE] Builder, engine, or nonce manager not initialized");
+        // Prepare transaction with gas and nonce
+        const preparedTx = this.builder.prepareTransaction(tx, gasSettings, nonceResult.nonce);
+
+        // Last check before broadcasting — a reorg may have landed during the awaits above
+        if (this.detector.isOrphaned(opp)) {
+          this.log("warn", `[REORG] Aborting ${opp.id} — built on block ${opp.blockNumber}, which was reorged out`);
           return;
         }
 
-        try {
-          // Get next nonce (waits for pending transactions if any)
-          const nonceResult = await this.nonceManager.getNextNonce();
-          if (nonceResult.hadPending) {
-            this.log("info", `[LIVE] Resolved pending transaction (status: ${nonceResult.pendingStatus})`);
-          }
-
-          // Build transaction
-          const tx = this.builder.buildArbitrageTransaction(opp, "balancer");
-
-          // Get current gas parameters from provider
-          const provider = new JsonRpcProvider(this.config.network.rpcUrl);
-          const feeData = await provider.getFeeData();
-          const baseFeeGwei = Number(feeData.gasPrice ?? 0n) / 1e9;
-          const priorityFeeGwei = 0.01; // 0.01 gwei tip on Arbitrum
-
-          // Calculate gas settings
-          const gasSettings = this.builder.calculateGasSettings(
-            baseFeeGwei,
-            priorityFeeGwei,
-            500_000, // Conservative gas limit
-          );
-
-          // Prepare transaction with gas and nonce
-          const preparedTx = this.builder.prepareTransaction(tx, gasSettings, nonceResult.nonce);
-
-          // Submit transaction — record cooldown immediately
-          this.log("info", `[LIVE] Submitting transaction for ${opp.id}...`);
-          this._pairCooldowns.set(pairKey, Date.now());
-          const result = await this.engine.executeTransaction(preparedTx);
-
-          if (result.status === "confirmed") {
-            this.log("info", `[LIVE] ✓ Transaction confirmed: ${result.txHash}`);
-            this.log("info", `[LIVE] Gas used: ${result.gasUsed?.toString() ?? "unknown"}`);
-            this.nonceManager.markConfirmed(result.txHash!);
-
-            // Record successful trade
-            const gasUsedEth = result.gasUsed ? Number(result.gasUsed) * Number(feeData.gasPrice ?? 0n) / 1e18 : opp.costs.gasCost;
-            this.tradeStore?.append({
-              txHash: result.txHash!,
-              timestamp: Date.now(),
-              blockNumber: opp.blockNumber,
-              path: opp.path.label,
-              inputAmount: opp.inputAmount,
-              grossProfit: opp.grossProfit,
-              gasCost: gasUsedEth,
-              l1DataFee: opp.costs.l1DataFee ?? 0,
-              revertCost: 0,
-              netProfit: opp.grossProfit - gasUsedEth - (opp.costs.l1DataFee ?? 0),
-              status: "success",
-            });
-          } else if (result.status === "reverted") {
-            this.log("warn", `[LIVE] ✗ Transaction reverted: ${result.txHash}`);
-            this.log("warn", `[LIVE] Revert reason: ${result.revertReason ?? "unknown"}`);
-            this.nonceManager.markConfirmed(result.txHash!); // Still increment nonce
-
-            // Fix #4: Track reverted pair for cooldown
-            this._revertedPairs.set(pairKey, { timestamp: Date.now(), blockNumber: opp.blockNumber });
-
-            // Record reverted trade (gas burned)
-            const revertGasEth = result.gasUsed ? Number(result.gasUsed) * Number(feeData.gasPrice ?? 0n) / 1e18 : opp.costs.gasCost;
-            this.tradeStore?.append({
-              txHash: result.txHash!,
-              timestamp: Date.now(),
-              blockNumber: opp.blockNumber,
-              path: opp.path.label,
-              inputAmount: opp.inputAmount,
-              grossProfit: 0,
-              gasCost: 0,
-              l1DataFee: 0,
-              revertCost: revertGasEth + (opp.costs.l1DataFee ?? 0),
-              netProfit: -(revertGasEth + (opp.costs.l1DataFee ?? 0)),
-              status: "revert",
-            });
-          } else {
-            this.log("error", `[LIVE] ✗ Transaction failed: ${result.error}`);
-          }
-        } catch (err) {
-          this.log("error", `[LIVE] Execution error: ${err instanceof Error ? err.message : String(err)}`);
+        // Submit transaction — record cooldown immediately
+        this.log("info", `[LIVE] Submitting transaction for ${opp.id}...`);
+        this._pairCooldowns.set(pairKey, Date.now());
+        const result = await this.engine.executeTransaction(preparedTx);
+
+        if (result.status === "confirmed") {
+          this.log("info", `[LIVE] ✓ Transaction confirmed: ${result.txHash}`);
+          this.log("info", `[LIVE] Gas used: ${result.gasUsed?.toString() ?? "unknown"}`);
+          this.nonceManager.markConfirmed(result.txHash!);
+
+          // Record successful trade
+          const gasUsedEth = result.gasUsed ? Number(result.gasUsed) * Number(feeData.gasPrice ?? 0n) / 1e18 : opp.costs.gasCostEth;
+          this.tradeStore?.append({
+            txHash: result.txHash!,
+            timestamp: Date.now(),
+            blockNumber: opp.blockNumber,
+            path: opp.path.label,
+            inputAmount: toEth(opp, opp.inputAmount),
+            grossProfit: toEth(opp, opp.grossProfit),
+            gasCost: gasUsedEth,
+            l1DataFee: opp.costs.l1DataFeeEth ?? 0,
+            revertCost: 0,
+            netProfit: toEth(opp, opp.grossProfit) - gasUsedEth - (opp.costs.l1DataFeeEth ?? 0),
+            status: "success",
+          });
+        } else if (result.status === "reverted") {
+          this.log("warn", `[LIVE] ✗ Transaction reverted: ${result.txHash}`);
+          this.log("warn", `[LIVE] Revert reason: ${result.revertReason ?? "unknown"}`);
+          this.nonceManager.markConfirmed(result.txHash!); // Still increment nonce
+
+          // Fix #4: Track reverted pair for cooldown
+          this._revertedPairs.set(pairKey, { timestamp: Date.now(), blockNumber: opp.blockNumber });
+
+          // Record reverted trade (gas burned)
+          const revertGasEth = result.gasUsed ? Number(result.gasUsed) * Number(feeData.gasPrice ?? 0n) / 1e18 : opp.costs.gasCostEth;
+          this.tradeStore?.append({
+            txHash: result.txHash!,
+            timestamp: Date.now(),
+            blockNumber: opp.blockNumber,
+            path: opp.path.label,
+            inputAmount: toEth(opp, opp.inputAmount),
+            grossProfit: 0,
+            gasCost: 0,
+            l1DataFee: 0,
+            revertCost: revertGasEth + (opp.costs.l1DataFeeEth ?? 0),
+            netProfit: -(revertGasEth + (opp.costs.l1DataFeeEth ?? 0)),
+            status: "revert",
+          });
+        } else {
+          this.log("error", `[LIVE] ✗ Transaction failed: ${result.error}`);
         }
+      } catch (err) {
+        this.log("error", `[LIVE] Execution error: ${err instanceof Error ? err.message : String(err)}`);
       }
-    });
+    }
+  }
 
-    this.detector.on("opportunityRejected", (reason, delta) => {
-      this.stats.opportunitiesRejected++;
-      const pair = delta?.pair ?? "unknown";
-      this.log("debug", formatRejectionReport(reason, pair));
-    });
+  /**
+   * Check pool definitions against on-chain metadata (config.poolVerification).
+   * Each mismatched pool is logged with a per-field diff, then either dropped
+   * from monitoring ("disable") or startup is refused ("strict").
+   */
+  private async verifyPools(): Promise<void> {
+    const verification = this.config.poolVerification;
+    if (!verification || verification.mode === "off") return;
+    const strict = verification.mode === "strict";
+
+    const verifier = new PoolVerifier({ provider: this.provider, factories: verification.factories });
+    let results: PoolVerification[];
+    try {
+      results = await verifier.verify([...this.monitor.pools]);
+    } catch (err) {
+      if (strict) throw err;
+      this.log("warn", `Pool verification skipped: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    const failed = results.filter((r) => r.mismatches.length > 0);
+    if (failed.length === 0) {
+      this.log("info", `Verified ${results.length} pool definitions on-chain`);
+      return;
+    }
+    for (const result of failed) {
+      this.log(strict ? "error" : "warn", `Pool definition mismatch:\n${formatPoolVerification(result)}`);
+    }
+    if (strict) {
+      throw new Error(`${failed.length} pool definition(s) do not match on-chain state`);
+    }
+
+    this.monitor.removePools(failed.map((r) => r.pool));
+    this.log("warn", `Disabled ${failed.length} mismatched pool(s) — monitoring ${this.monitor.pools.length}`);
   }
 
   /** Register process signal handlers for graceful shutdown */
@@ -0,0 +1,104 @@
+import { getY } from "./stableSwap.js";
+
+/** 1e18 fixed point used for Balancer fees, weights and scaling factors */
+const ONE = 10n ** 18n;
+
+/** Balancer V2 pool state, in Vault token order with the pool's own BPT removed */
+export interface BalancerPoolState {
+  /** Pool token addresses */
+  tokens: string[];
+  /** Raw balances held by the Vault */
+  balances: bigint[];
+  /** Swap fee as returned by getSwapFeePercentage() (1e18 = 100%) */
+  swapFee: bigint;
+  /** Weighted pools: normalized weights (1e18 = 100%) */
+  weights?: bigint[];
+  /** Stable pools: amplification parameter scaled by ampPrecision */
+  amp?: bigint;
+  /** Stable pools: precision of amp as returned by getAmplificationParameter() */
+  ampPrecision?: bigint;
+  /** Stable pools: scaling factors (token decimals and rate providers), 1e18-based */
+  scalingFactors?: bigint[];
+}
+
+/**
+ * Weighted-math output for an exact-input swap, fee already deducted from `amountIn`:
+ *   out = Bout · (1 − (Bin / (Bin + in))^(Win / Wout))
+ * Balances and amounts are in raw units of their own token.
+ */
+export function weightedOutGivenIn(
+  balanceIn: number,
+  weightIn: number,
+  balanceOut: number,
+  weightOut: number,
+  amountIn: number,
+): number {
+  if (amountIn <= 0 || balanceIn <= 0) return 0;
+  const base = balanceIn / (balanceIn + amountIn);
+  return balanceOut * (1 - base ** (weightIn / weightOut));
+}
+
+/**
+ * Stable-math output for an exact-input swap, fee already deducted from `amountIn`.
+ * Balances are scaled to 18 decimals (and token rates) by the pool's scaling
+ * factors before solving the invariant, as the pool does on-chain.
+ */
+function stableOutGivenIn(state: BalancerPoolState, i: number, j: number, amountIn: bigint): bigint {
+  const { amp, ampPrecision, scalingFactors } = state;
+  if (amp === undefined || ampPrecision === undefined || !scalingFactors) {
+    throw new Error("Balancer stable pool state missing amplification or scaling factors");
+  }
+  const xp = state.balances.map((b, k) => (b * scalingFactors[k]) / ONE);
+  const y = getY(i, j, xp[i] + (amountIn * scalingFactors[i]) / ONE, xp, amp, ampPrecision);
+  const out = xp[j] - y - 1n;
+  return out > 0n ? (out * ONE) / scalingFactors[j] : 0n;
+}
+
+/**
+ * Output of swapping `amountIn` raw units of token i for token j, after the
+ * swap fee (taken from the input, as the Vault does). Uses weighted math when
+ * the state carries weights, stable math otherwise.
+ */
+export function balancerAmountOut(state: BalancerPoolState, i: number, j: number, amountIn: bigint): bigint {
+  if (amountIn <= 0n) return 0n;
+  const afterFee = amountIn - (amountIn * state.swapFee) / ONE;
+
+  if (state.weights) {
+    const out = weightedOutGivenIn(
+      Number(state.balances[i]),
+      Number(state.weights[i]),
+      Number(state.balances[j]),
+      Number(state.weights[j]),
+      Number(afterFee),
+    );
+    return BigInt(Math.floor(out));
+  }
+  return stableOutGivenIn(state, i, j, afterFee);
+}
+
+/**
+ * Marginal price of token i in units of token j (decimal-adjusted, before fee).
+ *
+ * Weighted pools: (Bj / Wj) / (Bi / Wi).
+ * Stable pools: measured with a trade of one millionth of token i's balance.
+ */
+export function balancerSpotPrice(
+  state: BalancerPoolState,
+  i: number,
+  j: number,
+  decimalsI: number,
+  decimalsJ: number,
+): number {
+  const balanceI = Number(state.balances[i]) / 10 ** decimalsI;
+  const balanceJ = Number(state.balances[j]) / 10 ** decimalsJ;
+  if (balanceI === 0) return 0;
+
+  if (state.weights) {
+    return (balanceJ / Number(state.weights[j])) / (balanceI / Number(state.weights[i]));
+  }
+
+  const dx = state.balances[i] / 1_000_000n;
+  if (dx === 0n) return 0;
+  const dy = stableOutGivenIn(state, i, j, dx);
+  return (Number(dy) / 10 ** decimalsJ) / (Number(dx) / 10 ** decimalsI);
+}
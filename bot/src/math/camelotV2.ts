@@ -0,0 +1,97 @@
+/** Camelot V2 fees are expressed over 100000 (300 = 0.3%) */
+export const CAMELOT_FEE_DENOMINATOR = 100_000;
+
+const ONE = 10n ** 18n;
+
+/** Camelot V2 pair settings read alongside the reserves */
+export interface CamelotPairFees {
+  /** Fee charged when token0 is the input, over CAMELOT_FEE_DENOMINATOR */
+  token0FeePercent: number;
+  /** Fee charged when token1 is the input, over CAMELOT_FEE_DENOMINATOR */
+  token1FeePercent: number;
+  /** Stable pair: Solidly x³y + xy³ invariant instead of constant product */
+  stableSwap: boolean;
+}
+
+/** Camelot V2 pair state needed to quote a swap */
+export interface CamelotPairState extends CamelotPairFees {
+  /** Raw reserves [reserve0, reserve1] */
+  reserves: [bigint, bigint];
+  /** Token decimals [decimals0, decimals1] (stable pairs normalize by them) */
+  decimals: [number, number];
+}
+
+/** k(x, y) = x³y + xy³ on 18-decimal normalized reserves */
+function f(x0: bigint, y: bigint): bigint {
+  return (x0 * ((((y * y) / ONE) * y) / ONE)) / ONE + (((((x0 * x0) / ONE) * x0) / ONE) * y) / ONE;
+}
+
+/** ∂k/∂y */
+function d(x0: bigint, y: bigint): bigint {
+  return (3n * x0 * ((y * y) / ONE)) / ONE + (((x0 * x0) / ONE) * x0) / ONE;
+}
+
+/** Newton's method for y with k(x0, y) = xy, as in the pair's _get_y */
+function getY(x0: bigint, xy: bigint, y: bigint): bigint {
+  for (let i = 0; i < 255; i++) {
+    const yPrev = y;
+    const k = f(x0, y);
+    const dk = d(x0, y);
+    if (dk === 0n) return y;
+    if (k < xy) {
+      y += ((xy - k) * ONE) / dk;
+    } else {
+      y -= ((k - xy) * ONE) / dk;
+    }
+    const diff = y > yPrev ? y - yPrev : yPrev - y;
+    if (diff <= 1n) return y;
+  }
+  return y;
+}
+
+/**
+ * Output of swapping `amountIn` raw units through a Camelot V2 pair, after the
+ * input token's fee (taken from the input, as the pair does). Mirrors the
+ * pair's _getAmountOut: constant product for volatile pairs, the Solidly
+ * invariant on 18-decimal normalized reserves for stable pairs.
+ */
+export function camelotAmountOut(state: CamelotPairState, zeroForOne: boolean, amountIn: bigint): bigint {
+  if (amountIn <= 0n) return 0n;
+  const feePercent = BigInt(zeroForOne ? state.token0FeePercent : state.token1FeePercent);
+  const denominator = BigInt(CAMELOT_FEE_DENOMINATOR);
+  const [reserve0, reserve1] = state.reserves;
+  const [reserveIn, reserveOut] = zeroForOne ? [reserve0, reserve1] : [reserve1, reserve0];
+
+  if (!state.stableSwap) {
+    const amountInWithFee = amountIn * (denominator - feePercent);
+    return (amountInWithFee * reserveOut) / (reserveIn * denominator + amountInWithFee);
+  }
+
+  const precision0 = 10n ** BigInt(state.decimals[0]);
+  const precision1 = 10n ** BigInt(state.decimals[1]);
+  const [precisionIn, precisionOut] = zeroForOne ? [precision0, precision1] : [precision1, precision0];
+
+  const x = (reserve0 * ONE) / precision0;
+  const y = (reserve1 * ONE) / precision1;
+  const xy = (((x * y) / ONE) * ((x * x) / ONE + (y * y) / ONE)) / ONE;
+
+  const normalizedIn = ((amountIn - (amountIn * feePercent) / denominator) * ONE) / precisionIn;
+  const normalizedReserveIn = (reserveIn * ONE) / precisionIn;
+  const normalizedReserveOut = (reserveOut * ONE) / precisionOut;
+  const out = normalizedReserveOut - getY(normalizedIn + normalizedReserveIn, xy, normalizedReserveOut);
+  return out > 0n ? (out * precisionOut) / ONE : 0n;
+}
+
+/**
+ * Marginal price of token0 in token1 (decimal-adjusted, before fee).
+ *
+ * Volatile pairs: reserve1 / reserve0.
+ * Stable pairs: −dy/dx of x³y + xy³ = (3x²y + y³) / (x³ + 3xy²).
+ */
+export function camelotSpotPrice(state: CamelotPairState): number {
+  const x = Number(state.reserves[0]) / 10 ** state.decimals[0];
+  const y = Number(state.reserves[1]) / 10 ** state.decimals[1];
+  if (x === 0) return 0;
+  if (!state.stableSwap) return y / x;
+  return (3 * x * x * y + y ** 3) / (x ** 3 + 3 * x * y * y);
+}
@@ -0,0 +1,75 @@
+/** Trader Joe LB fee parameters as returned by getStaticFeeParameters() and getVariableFeeParameters() */
+export interface LBFeeParameters {
+  /** Base fee multiplier: baseFee = baseFactor · binStep · 1e10 */
+  baseFactor: number;
+  /** Seconds after a swap during which the volatility reference is kept */
+  filterPeriod: number;
+  /** Seconds after a swap after which the volatility reference resets to 0 */
+  decayPeriod: number;
+  /** Share of the accumulator kept as reference between filterPeriod and decayPeriod (basis points) */
+  reductionFactor: number;
+  /** Variable fee multiplier */
+  variableFeeControl: number;
+  /** Cap on the volatility accumulator */
+  maxVolatilityAccumulator: number;
+  /** Accumulator left by the last swap */
+  volatilityAccumulator: number;
+  /** Volatility reference set by the last swap */
+  volatilityReference: number;
+  /** Bin the accumulator is measured from */
+  idReference: number;
+  /** Timestamp (s) of the last swap */
+  timeOfLastUpdate: number;
+}
+
+/** 1e18 = 100%, the precision of LB fees */
+const PRECISION = 10n ** 18n;
+const BASIS_POINT_MAX = 10_000;
+
+/**
+ * Volatility accumulator a swap starting in `activeId` at `timestamp` would use,
+ * replaying the pair's updateReferences / updateVolatilityAccumulator:
+ *   - within filterPeriod of the last swap the references are kept
+ *   - before decayPeriod the reference decays to accumulator · reductionFactor
+ *   - after decayPeriod it resets to 0
+ * then accumulator = reference + |activeId − idReference| · 10000, capped.
+ */
+export function lbVolatilityAccumulator(params: LBFeeParameters, activeId: number, timestamp: number): number {
+  let { volatilityReference, idReference } = params;
+  const elapsed = timestamp - params.timeOfLastUpdate;
+
+  if (elapsed >= params.filterPeriod) {
+    idReference = activeId;
+    volatilityReference = elapsed < params.decayPeriod
+      ? Math.floor((params.volatilityAccumulator * params.reductionFactor) / BASIS_POINT_MAX)
+      : 0;
+  }
+
+  const accumulator = volatilityReference + Math.abs(activeId - idReference) * BASIS_POINT_MAX;
+  return Math.min(accumulator, params.maxVolatilityAccumulator);
+}
+
+/**
+ * Total fee (base + variable, 1e18 = 100%) charged on a swap in the active bin:
+ *   baseFee     = baseFactor · binStep · 1e10
+ *   variableFee = ceil((accumulator · binStep)² · variableFeeControl / 100)
+ * The variable fee grows again with every bin the swap crosses; this is the
+ * fee of the first bin.
+ */
+export function lbTotalFee(
+  params: LBFeeParameters,
+  binStep: number,
+  activeId: number,
+  timestamp: number,
+): bigint {
+  const baseFee = BigInt(params.baseFactor) * BigInt(binStep) * 10n ** 10n;
+
+  let variableFee = 0n;
+  if (params.variableFeeControl !== 0) {
+    const prod = BigInt(lbVolatilityAccumulator(params, activeId, timestamp)) * BigInt(binStep);
+    variableFee = (prod * prod * BigInt(params.variableFeeControl) + 99n) / 100n;
+  }
+
+  const total = baseFee + variableFee;
+  return total < PRECISION ? total : PRECISION;
+}
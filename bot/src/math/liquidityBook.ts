@@ -0,0 +1,133 @@
+import type { LBBin } from "../monitor/types.js";
+
+/** 128.128 fixed-point one */
+const SCALE_OFFSET = 128n;
+const SCALE = 1n << SCALE_OFFSET;
+const MAX_UINT128 = (1n << 128n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+/** Bin ID at which the LB price is 1 (2^23) */
+const REAL_ID_SHIFT = 8_388_608;
+const BASIS_POINT_MAX = 10_000n;
+/** 1e18 = 100%, the precision of LB fees */
+const PRECISION = 10n ** 18n;
+
+/** Result of an exact-input LB swap (raw token units) */
+export interface LBExactSwapResult {
+  /** Input consumed, fees included */
+  amountIn: bigint;
+  /** Output received */
+  amountOut: bigint;
+  /** True when the input ran past the loaded bins and was only partly filled */
+  exhausted: boolean;
+}
+
+/** Uint128x128Math.pow: x^y in 128.128 fixed point, for |y| < 2^20 */
+function pow(x: bigint, y: number): bigint {
+  if (y === 0) return SCALE;
+  let invert = y < 0;
+  const absY = Math.abs(y);
+  if (absY >= 0x100000) throw new Error(`LB price exponent ${y} out of range`);
+
+  let squared = x;
+  if (x > MAX_UINT128) {
+    squared = MAX_UINT256 / squared;
+    invert = !invert;
+  }
+  let result = SCALE;
+  for (let bit = 0; bit < 20; bit++) {
+    if (absY & (1 << bit)) result = (result * squared) >> SCALE_OFFSET;
+    squared = (squared * squared) >> SCALE_OFFSET;
+  }
+  if (result === 0n) throw new Error(`LB price underflow at exponent ${y}`);
+  return invert ? MAX_UINT256 / result : result;
+}
+
+/**
+ * PriceHelper.getPriceFromId: price of a bin in raw tokenY per raw tokenX,
+ * (1 + binStep/10000)^(id − 2^23), in 128.128 fixed point.
+ */
+export function getPriceFromId(id: number, binStep: number): bigint {
+  const base = SCALE + (BigInt(binStep) << SCALE_OFFSET) / BASIS_POINT_MAX;
+  return pow(base, id - REAL_ID_SHIFT);
+}
+
+/** FeeHelper.getFeeAmountFrom: fee included in `amountWithFees`, rounded up */
+export function getFeeAmountFrom(amountWithFees: bigint, totalFee: bigint): bigint {
+  return (amountWithFees * totalFee + PRECISION - 1n) / PRECISION;
+}
+
+/** FeeHelper.getFeeAmount: fee to add on top of `amount`, rounded up */
+export function getFeeAmount(amount: bigint, totalFee: bigint): bigint {
+  const denominator = PRECISION - totalFee;
+  return (amount * totalFee + denominator - 1n) / denominator;
+}
+
+/**
+ * BinHelper.getAmounts: input (fees included) and output of swapping through
+ * a single bin at its fixed price, capped by the bin's output reserve.
+ */
+export function getBinAmounts(
+  bin: LBBin,
+  binStep: number,
+  swapForY: boolean,
+  amountInLeft: bigint,
+  totalFee: bigint,
+): { amountIn: bigint; amountOut: bigint; fee: bigint } {
+  const price = getPriceFromId(bin.id, binStep);
+  const binReserveOut = swapForY ? bin.reserveY : bin.reserveX;
+
+  // Input that drains the bin, rounded up
+  const drain = swapForY ? (binReserveOut << SCALE_OFFSET) : binReserveOut * price;
+  const divisor = swapForY ? price : SCALE;
+  let maxAmountIn = drain / divisor + (drain % divisor > 0n ? 1n : 0n);
+  const maxFee = getFeeAmount(maxAmountIn, totalFee);
+  maxAmountIn += maxFee;
+
+  if (amountInLeft >= maxAmountIn) {
+    return { amountIn: maxAmountIn, amountOut: binReserveOut, fee: maxFee };
+  }
+
+  const fee = getFeeAmountFrom(amountInLeft, totalFee);
+  const amountIn = amountInLeft - fee;
+  let amountOut = swapForY ? (amountIn * price) >> SCALE_OFFSET : (amountIn << SCALE_OFFSET) / price;
+  if (amountOut > binReserveOut) amountOut = binReserveOut;
+  return { amountIn: amountInLeft, amountOut, fee };
+}
+
+/**
+ * Exact-input swap through a Trader Joe LB pair, replaying LBPair.swap bin by
+ * bin from the active bin (down for swapForY, up otherwise), skipping empty
+ * bins. `totalFee` (base + variable, 1e18 = 100%) is charged in every bin;
+ * on-chain the variable part grows with each bin crossed, so swaps that
+ * leave the active bin are modeled slightly cheap.
+ *
+ * The swap stops after the last loaded bin; liquidity beyond it is unknown,
+ * so any remaining input is reported as unfilled (`exhausted`).
+ *
+ * @param bins - Loaded bins, sorted by id ascending
+ * @param amountIn - Input amount in raw token units, fee included
+ */
+export function lbSwapExactInput(
+  bins: LBBin[],
+  activeId: number,
+  binStep: number,
+  swapForY: boolean,
+  amountIn: bigint,
+  totalFee: bigint,
+): LBExactSwapResult {
+  const path = swapForY
+    ? bins.filter((b) => b.id <= activeId).reverse()
+    : bins.filter((b) => b.id >= activeId);
+
+  let remaining = amountIn;
+  let amountOut = 0n;
+  for (const bin of path) {
+    if (remaining <= 0n) break;
+    if ((swapForY ? bin.reserveY : bin.reserveX) <= 0n) continue;
+    const amounts = getBinAmounts(bin, binStep, swapForY, remaining, totalFee);
+    remaining -= amounts.amountIn;
+    amountOut += amounts.amountOut;
+  }
+
+  return { amountIn: amountIn - remaining, amountOut, exhausted: remaining > 0n };
+}
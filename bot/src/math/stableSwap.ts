@@ -0,0 +1,121 @@
+/** Precision Curve stores A with internally (A() returns A / A_PRECISION) */
+const A_PRECISION = 100n;
+/** fee() denominator: 1e10 = 100% */
+const FEE_DENOMINATOR = 10n ** 10n;
+/** Newton iterations before giving up, as in the Vyper contracts */
+const MAX_ITERATIONS = 255;
+
+/** Curve StableSwap pool state, in Curve coin order */
+export interface StableSwapCurve {
+  /** Raw balances of every coin */
+  balances: bigint[];
+  /** Decimals of every coin */
+  decimals: number[];
+  /** Amplification coefficient as returned by A() */
+  amp: bigint;
+  /** Swap fee as returned by fee() (1e10 = 100%) */
+  fee: bigint;
+}
+
+/** Scale raw balances to 18 decimals, as Curve does with its `rates` */
+function normalize(curve: StableSwapCurve): bigint[] {
+  return curve.balances.map((balance, k) => balance * 10n ** BigInt(18 - curve.decimals[k]));
+}
+
+/**
+ * Solve the StableSwap invariant for D by Newton's method:
+ *   A·nⁿ·Σx + D = A·nⁿ·D + Dⁿ⁺¹ / (nⁿ·Πx)
+ *
+ * @param xp - Balances normalized to 18 decimals
+ * @param amp - A·aPrecision
+ * @param aPrecision - Precision amp is scaled by (Curve: 100, Balancer: 1000)
+ */
+export function getD(xp: bigint[], amp: bigint, aPrecision = A_PRECISION): bigint {
+  const n = BigInt(xp.length);
+  const sum = xp.reduce((acc, x) => acc + x, 0n);
+  if (sum === 0n) return 0n;
+  if (xp.some((x) => x === 0n)) {
+    throw new Error("StableSwap pool has an empty coin balance");
+  }
+
+  const ann = amp * n;
+  let d = sum;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let dP = d;
+    for (const x of xp) dP = (dP * d) / (x * n);
+    const prev = d;
+    d = ((ann * sum) / aPrecision + dP * n) * d /
+      (((ann - aPrecision) * d) / aPrecision + (n + 1n) * dP);
+    if (d > prev ? d - prev <= 1n : prev - d <= 1n) return d;
+  }
+  throw new Error("StableSwap D did not converge");
+}
+
+/**
+ * Balance of coin j that keeps D unchanged once coin i's balance becomes x.
+ *
+ * @param xp - Balances normalized to 18 decimals
+ * @param amp - A·aPrecision
+ * @param aPrecision - Precision amp is scaled by (Curve: 100, Balancer: 1000)
+ */
+export function getY(
+  i: number,
+  j: number,
+  x: bigint,
+  xp: bigint[],
+  amp: bigint,
+  aPrecision = A_PRECISION,
+): bigint {
+  const n = BigInt(xp.length);
+  const d = getD(xp, amp, aPrecision);
+  const ann = amp * n;
+
+  let c = d;
+  let sum = 0n;
+  for (let k = 0; k < xp.length; k++) {
+    if (k === j) continue;
+    const xk = k === i ? x : xp[k];
+    sum += xk;
+    c = (c * d) / (xk * n);
+  }
+  c = (c * d * aPrecision) / (ann * n);
+  const b = sum + (d * aPrecision) / ann;
+
+  let y = d;
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const prev = y;
+    y = (y * y + c) / (2n * y + b - d);
+    if (y > prev ? y - prev <= 1n : prev - y <= 1n) return y;
+  }
+  throw new Error("StableSwap y did not converge");
+}
+
+/**
+ * Output of swapping `dx` raw units of coin i for coin j, after the pool fee.
+ * Mirrors `get_dy` of a plain Curve pool.
+ */
+export function getDy(curve: StableSwapCurve, i: number, j: number, dx: bigint): bigint {
+  if (dx <= 0n) return 0n;
+  const xp = normalize(curve);
+  const amp = curve.amp * A_PRECISION;
+  const rateI = 10n ** BigInt(18 - curve.decimals[i]);
+  const rateJ = 10n ** BigInt(18 - curve.decimals[j]);
+
+  const y = getY(i, j, xp[i] + dx * rateI, xp, amp);
+  const dy = xp[j] - y - 1n;
+  if (dy <= 0n) return 0n;
+  const fee = (dy * curve.fee) / FEE_DENOMINATOR;
+  return (dy - fee) / rateJ;
+}
+
+/**
+ * Marginal price of coin i in units of coin j (decimal-adjusted, before fee),
+ * measured with a trade of one millionth of coin i's balance.
+ */
+export function stableSwapSpotPrice(curve: StableSwapCurve, i: number, j: number): number {
+  const xp = normalize(curve);
+  const dx = xp[i] / 1_000_000n;
+  if (dx === 0n) return 0;
+  const y = getY(i, j, xp[i] + dx, xp, curve.amp * A_PRECISION);
+  return Number(xp[j] - y) / Number(dx);
+}
@@ -0,0 +1,14 @@
+/** V2 fees are expressed in hundredths of a bip, like V3 fee tiers (3000 = 0.3%) */
+const FEE_DENOMINATOR = 1_000_000n;
+
+/**
+ * Output of swapping `amountIn` raw units through a constant-product pair,
+ * as UniswapV2Library.getAmountOut computes it: the fee comes off the input,
+ * the output rounds down. `feePips` = 3000 reproduces the 997/1000 of
+ * Uniswap V2 and SushiSwap exactly.
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feePips = 3000): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(feePips));
+  return (amountInWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+}
@@ -0,0 +1,239 @@
+import type { InitializedTick, TickLiquidity } from "../monitor/types.js";
+
+export const MIN_TICK = -887_272;
+export const MAX_TICK = 887_272;
+export const MIN_SQRT_RATIO = 4_295_128_739n;
+export const MAX_SQRT_RATIO = 1_461_446_703_485_210_103_287_273_052_203_988_822_378_723_970_342n;
+
+const Q96 = 1n << 96n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+/** TickMath multipliers: 2^128 / sqrt(1.0001^(2^i)) for bit i of |tick| (from bit 1) */
+const TICK_RATIOS: bigint[] = [
+  0xfff97272373d413259a46990580e213an,
+  0xfff2e50f5f656932ef12357cf3c7fdccn,
+  0xffe5caca7e10e4e61c3624eaa0941cd0n,
+  0xffcb9843d60f6159c9db58835c926644n,
+  0xff973b41fa98c081472e6896dfb254c0n,
+  0xff2ea16466c96a3843ec78b326b52861n,
+  0xfe5dee046a99a2a811c461f1969c3053n,
+  0xfcbe86c7900a88aedcffc83b479aa3a4n,
+  0xf987a7253ac413176f2b074cf7815e54n,
+  0xf3392b0822b70005940c7a398e4b70f3n,
+  0xe7159475a2c29b7443b29c7fa6e889d9n,
+  0xd097f3bdfd2022b8845ad8f792aa5825n,
+  0xa9f746462d870fdf8a65dc1f90e061e5n,
+  0x70d869a156d2a1b890bb3df62baf32f7n,
+  0x31be135f97d08fd981231505542fcfa6n,
+  0x9aa508b5b7a84e1c677de54f3e99bc9n,
+  0x5d6af8dedb81196699c329225ee604n,
+  0x2216e584f5fa1ea926041bedfe98n,
+  0x48a170391f7dc42444e8fa2n,
+];
+
+/** V3 pool state a swap starts from */
+export interface V3PoolState {
+  /** Current sqrtPriceX96 */
+  sqrtPriceX96: bigint;
+  /** In-range liquidity at the current price */
+  liquidity: bigint;
+  /** Current tick */
+  tick: number;
+  /** Initialized ticks around the current tick */
+  window: TickLiquidity;
+}
+
+/** Result of an exact-input V3 swap (raw token units) */
+export interface V3SwapResult {
+  /** Input consumed, fees included */
+  amountIn: bigint;
+  /** Output received */
+  amountOut: bigint;
+  /** True when the input ran past the loaded tick window and was only partly filled */
+  exhausted: boolean;
+}
+
+/** One SwapMath.computeSwapStep */
+export interface SwapStepResult {
+  sqrtRatioNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+/** FullMath.mulDiv: floor(a·b / denominator) */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+/** FullMath.mulDivRoundingUp: ceil(a·b / denominator) */
+export function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator > 0n ? result + 1n : result;
+}
+
+/** UnsafeMath.divRoundingUp: ceil(x / y) */
+function divRoundingUp(x: bigint, y: bigint): bigint {
+  return x / y + (x % y > 0n ? 1n : 0n);
+}
+
+/** TickMath.getSqrtRatioAtTick: sqrt(1.0001^tick) · 2^96, rounded up */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 0x1 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 0x100000000000000000000000000000000n;
+  for (let bit = 1; bit < 20; bit++) {
+    if (absTick & (1 << bit)) ratio = (ratio * TICK_RATIOS[bit - 1]) >> 128n;
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/** SqrtPriceMath.getAmount0Delta: L · (√B − √A) / (√A · √B) */
+export function getAmount0Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96 ? [sqrtRatioBX96, sqrtRatioAX96] : [sqrtRatioAX96, sqrtRatioBX96];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+/** SqrtPriceMath.getAmount1Delta: L · (√B − √A) */
+export function getAmount1Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96 ? [sqrtRatioBX96, sqrtRatioAX96] : [sqrtRatioAX96, sqrtRatioBX96];
+  return roundUp ? mulDivRoundingUp(liquidity, upper - lower, Q96) : mulDiv(liquidity, upper - lower, Q96);
+}
+
+/**
+ * SqrtPriceMath.getNextSqrtPriceFromInput: the price after adding `amountIn`
+ * of token0 (zeroForOne, rounded up) or token1 (rounded down). Includes the
+ * contract's fallback formula for products that overflow 256 bits.
+ */
+export function getNextSqrtPriceFromInput(sqrtPX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  if (amountIn === 0n) return sqrtPX96;
+  if (!zeroForOne) {
+    return sqrtPX96 + (amountIn * Q96) / liquidity;
+  }
+  const numerator1 = liquidity << 96n;
+  const product = amountIn * sqrtPX96;
+  if (product <= MAX_UINT256) {
+    const denominator = numerator1 + product;
+    if (denominator <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtPX96, denominator);
+    }
+  }
+  return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amountIn);
+}
+
+/**
+ * SwapMath.computeSwapStep for an exact-input swap: how far `amountRemaining`
+ * (fees included) moves the price toward `sqrtRatioTargetX96`, and the input,
+ * output and fee of that move.
+ */
+export function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number,
+): SwapStepResult {
+  const fee = BigInt(feePips);
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+
+  const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - fee, FEE_DENOMINATOR);
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+    : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+  const sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+    ? sqrtRatioTargetX96
+    : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+
+  const max = sqrtRatioNextX96 === sqrtRatioTargetX96;
+  if (!max) {
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+  }
+  const amountOut = zeroForOne
+    ? getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false)
+    : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+  const feeAmount = max
+    ? mulDivRoundingUp(amountIn, fee, FEE_DENOMINATOR - fee)
+    : amountRemaining - amountIn;
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * TickBitmap.nextInitializedTickWithinOneWord over the loaded initialized
+ * ticks: the next initialized tick at or below `tick` (lte) or above it,
+ * without leaving the current 256-tick bitmap word; the word boundary
+ * (uninitialized) when the word has none.
+ */
+function nextInitializedTickWithinOneWord(
+  ticks: InitializedTick[],
+  tick: number,
+  tickSpacing: number,
+  lte: boolean,
+): { next: number; initialized: InitializedTick | undefined } {
+  const compressed = Math.floor(tick / tickSpacing);
+  if (lte) {
+    const wordStart = compressed - (((compressed % 256) + 256) % 256);
+    const initialized = [...ticks].reverse()
+      .find((t) => t.tick <= compressed * tickSpacing && t.tick >= wordStart * tickSpacing);
+    return { next: initialized?.tick ?? wordStart * tickSpacing, initialized };
+  }
+  const start = compressed + 1;
+  const wordEnd = start + 255 - (((start % 256) + 256) % 256);
+  const initialized = ticks.find((t) => t.tick >= start * tickSpacing && t.tick <= wordEnd * tickSpacing);
+  return { next: initialized?.tick ?? wordEnd * tickSpacing, initialized };
+}
+
+/**
+ * Exact-input swap through a V3 pool, replaying UniswapV3Pool.swap: one
+ * computeSwapStep per initialized tick or bitmap word boundary, crossing
+ * initialized ticks' liquidityNet on the way. Amounts match the pool's to
+ * the wei as long as the loaded window holds every initialized tick the
+ * swap reaches.
+ *
+ * The swap stops at the edge of the loaded window; liquidity beyond it is
+ * unknown, so any remaining input is reported as unfilled (`exhausted`).
+ *
+ * @param amountIn - Input amount in raw token units, fee included
+ * @param feePips - Fee in hundredths of a bip (3000 = 0.3%)
+ */
+export function swapExactInput(pool: V3PoolState, zeroForOne: boolean, amountIn: bigint, feePips: number): V3SwapResult {
+  const { window } = pool;
+  const edge = zeroForOne ? Math.max(window.lowerTick, MIN_TICK) : Math.min(window.upperTick, MAX_TICK);
+  let sqrtPriceX96 = pool.sqrtPriceX96;
+  let liquidity = pool.liquidity;
+  let tick = pool.tick;
+  let remaining = amountIn;
+  let amountOut = 0n;
+
+  while (remaining > 0n) {
+    const step = nextInitializedTickWithinOneWord(window.ticks, tick, window.tickSpacing, zeroForOne);
+    const atEdge = zeroForOne ? step.next <= edge : step.next >= edge;
+    const tickNext = atEdge ? edge : step.next;
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+
+    const result = computeSwapStep(sqrtPriceX96, sqrtPriceNextX96, liquidity, remaining, feePips);
+    sqrtPriceX96 = result.sqrtRatioNextX96;
+    remaining -= result.amountIn + result.feeAmount;
+    amountOut += result.amountOut;
+
+    if (sqrtPriceX96 !== sqrtPriceNextX96 || atEdge) break;
+    if (step.initialized) {
+      const net = step.initialized.liquidityNet;
+      liquidity = zeroForOne ? liquidity - net : liquidity + net;
+    }
+    tick = zeroForOne ? tickNext - 1 : tickNext;
+  }
+
+  return { amountIn: amountIn - remaining, amountOut, exhausted: remaining > 0n };
+}
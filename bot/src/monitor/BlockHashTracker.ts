@@ -0,0 +1,108 @@
+import type { Provider } from "ethers";
+
+/** Configuration for the BlockHashTracker */
+export interface BlockHashTrackerConfig {
+  provider: Provider;
+  /** Number of recent blocks whose hashes are kept */
+  depth: number;
+}
+
+/** Orphaned block range found by BlockHashTracker.observe() */
+export interface OrphanedRange {
+  /** First tracked block that is no longer canonical */
+  fromBlock: number;
+  /** Last tracked block that is no longer canonical */
+  toBlock: number;
+}
+
+/** Result of observing a block */
+export interface BlockObservation {
+  /** Canonical hash of the observed block */
+  hash: string;
+  /** Blocks orphaned since they were last observed, or null if the chain only extended */
+  orphaned: OrphanedRange | null;
+}
+
+/**
+ * Keeps the hashes of the most recent blocks the monitor read state at and
+ * detects when the chain has reorganized underneath them.
+ *
+ * Each observed block is checked against what was tracked before: a different
+ * hash at the same height, or a parent hash that does not match the tracked
+ * parent, means a reorg. The tracker then walks back through canonical
+ * parents until it finds a tracked block that is still canonical — the blocks
+ * after it are the orphaned range.
+ */
+export class BlockHashTracker {
+  private readonly config: BlockHashTrackerConfig;
+  private readonly hashes = new Map<number, string>();
+
+  constructor(config: BlockHashTrackerConfig) {
+    this.config = config;
+  }
+
+  /** Tracked hash of a block, if it is within the tracked window */
+  get(blockNumber: number): string | undefined {
+    return this.hashes.get(blockNumber);
+  }
+
+  /**
+   * Record the canonical hash of `blockNumber` and check the tracked chain
+   * against it. Returns null when the node does not have the block yet.
+   */
+  async observe(blockNumber: number): Promise<BlockObservation | null> {
+    const block = await this.config.provider.getBlock(blockNumber);
+    if (!block?.hash) return null;
+
+    const orphaned: number[] = [];
+    const tracked = this.hashes.get(blockNumber);
+    if (tracked !== undefined && tracked !== block.hash) {
+      orphaned.push(blockNumber);
+    }
+
+    // Walk back through canonical parents while the tracked hash disagrees
+    let cursor = blockNumber - 1;
+    let expected = block.parentHash;
+    const canonical = new Map<number, string>([[blockNumber, block.hash]]);
+    while (this.hashes.has(cursor) && this.hashes.get(cursor) !== expected) {
+      orphaned.push(cursor);
+      canonical.set(cursor, expected);
+      if (!this.hashes.has(cursor - 1)) break;
+      const parent = await this.config.provider.getBlock(cursor);
+      if (!parent) break;
+      expected = parent.parentHash;
+      cursor--;
+    }
+
+    if (orphaned.length > 0) {
+      // Anything tracked above a non-canonical block descends from it
+      for (const n of this.hashes.keys()) {
+        if (n > blockNumber) orphaned.push(n);
+      }
+      for (const n of orphaned) this.hashes.delete(n);
+    }
+
+    for (const [n, hash] of canonical) this.hashes.set(n, hash);
+    this.prune();
+
+    return {
+      hash: block.hash,
+      orphaned: orphaned.length > 0
+        ? { fromBlock: Math.min(...orphaned), toBlock: Math.max(...orphaned) }
+        : null,
+    };
+  }
+
+  /** Forget all tracked hashes */
+  clear(): void {
+    this.hashes.clear();
+  }
+
+  /** Drop hashes that fell out of the tracked window */
+  private prune(): void {
+    const head = Math.max(...this.hashes.keys());
+    for (const n of this.hashes.keys()) {
+      if (n <= head - this.config.depth) this.hashes.delete(n);
+    }
+  }
+}
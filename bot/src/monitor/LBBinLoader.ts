@@ -0,0 +1,161 @@
+import { Interface, type Provider } from "ethers";
+import { aggregate3, type MulticallRequest } from "./multicall.js";
+import type { LBBin, LBBinLiquidity, PoolConfig } from "./types.js";
+
+const LB_BIN_ABI = [
+  "function getBin(uint24 id) view returns (uint128 binReserveX, uint128 binReserveY)",
+  "function getNextNonEmptyBin(bool swapForY, uint24 id) view returns (uint24 nextId)",
+];
+
+const lbBinIface = new Interface(LB_BIN_ABI);
+
+/** getNextNonEmptyBin returns 0 (upward) or type(uint24).max (downward) when no bin is left */
+const NO_BIN_LOW = 0;
+const NO_BIN_HIGH = 0xffffff;
+
+/** Configuration for the LBBinLoader */
+export interface LBBinLoaderConfig {
+  provider: Provider;
+  /** Non-empty bins to walk on each side of the active bin */
+  binsPerSide: number;
+}
+
+interface BinWalk {
+  pool: PoolConfig;
+  ids: number[];
+  /** Last bin reached below the active bin (swapForY direction), null once the walk ends */
+  below: number | null;
+  /** Last bin reached above the active bin, null once the walk ends */
+  above: number | null;
+}
+
+/**
+ * Reads the reserves of the active bin and the nearest non-empty bins on each
+ * side of it for Trader Joe LB pools, so swaps can be simulated bin by bin.
+ *
+ * Bins behind the active bin are emptied by every swap that crosses them, so
+ * nothing is cached: each load walks getNextNonEmptyBin outward from the active
+ * bin (one Multicall3 round per bin, all pools and both sides batched), then
+ * reads every bin found with getBin in a final round.
+ */
+export class LBBinLoader {
+  private readonly config: LBBinLoaderConfig;
+
+  constructor(config: LBBinLoaderConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Load bins around each pool's active bin. Keyed by lowercased pool address.
+   * A pool whose getBin reads fail is left out; a failed walk step only
+   * shortens that side.
+   */
+  async load(
+    entries: Array<{ pool: PoolConfig; activeId: number }>,
+    blockNumber: number,
+    blockTag?: number,
+  ): Promise<Map<string, LBBinLiquidity>> {
+    const loaded = new Map<string, LBBinLiquidity>();
+    if (entries.length === 0 || this.config.binsPerSide <= 0) return loaded;
+
+    const walks: BinWalk[] = entries.map(({ pool, activeId }) => ({
+      pool,
+      ids: [activeId],
+      below: activeId,
+      above: activeId,
+    }));
+
+    for (let round = 0; round < this.config.binsPerSide; round++) {
+      const steps: Array<{ walk: BinWalk; swapForY: boolean }> = [];
+      const calls: MulticallRequest[] = [];
+      for (const walk of walks) {
+        for (const swapForY of [true, false]) {
+          const from = swapForY ? walk.below : walk.above;
+          if (from === null) continue;
+          steps.push({ walk, swapForY });
+          calls.push({
+            target: walk.pool.poolAddress,
+            allowFailure: true,
+            callData: lbBinIface.encodeFunctionData("getNextNonEmptyBin", [swapForY, from]),
+          });
+        }
+      }
+      if (calls.length === 0) break;
+
+      const results = await aggregate3(this.config.provider, calls, blockTag);
+      for (let i = 0; i < steps.length; i++) {
+        const { walk, swapForY } = steps[i];
+        const result = results[i];
+        let next: number | null = null;
+        if (result?.success) {
+          const id = Number(lbBinIface.decodeFunctionResult("getNextNonEmptyBin", result.returnData)[0]);
+          if (id !== NO_BIN_LOW && id !== NO_BIN_HIGH) next = id;
+        }
+        if (next !== null) walk.ids.push(next);
+        if (swapForY) walk.below = next;
+        else walk.above = next;
+      }
+    }
+
+    const binCalls: MulticallRequest[] = walks.flatMap((walk) =>
+      walk.ids.map((id) => ({
+        target: walk.pool.poolAddress,
+        allowFailure: true,
+        callData: lbBinIface.encodeFunctionData("getBin", [id]),
+      })),
+    );
+    const binResults = await aggregate3(this.config.provider, binCalls, blockTag);
+
+    let offset = 0;
+    for (const walk of walks) {
+      const bins: LBBin[] = [];
+      let failed = false;
+      for (let j = 0; j < walk.ids.length; j++) {
+        const result = binResults[offset + j];
+        if (!result?.success) {
+          failed = true;
+          break;
+        }
+        const decoded = lbBinIface.decodeFunctionResult("getBin", result.returnData);
+        bins.push({ id: walk.ids[j], reserveX: BigInt(decoded[0]), reserveY: BigInt(decoded[1]) });
+      }
+      offset += walk.ids.length;
+      if (failed) continue;
+
+      loaded.set(walk.pool.poolAddress.toLowerCase(), {
+        bins: bins.sort((a, b) => a.id - b.id),
+        blockNumber,
+      });
+    }
+    return loaded;
+  }
+
+  /**
+   * Read only the active bin of each pool, in one Multicall3 round. Keyed by
+   * lowercased pool address; pools whose getBin read fails are left out.
+   */
+  async loadActive(
+    entries: Array<{ pool: PoolConfig; activeId: number }>,
+    blockTag?: number,
+  ): Promise<Map<string, LBBin>> {
+    const loaded = new Map<string, LBBin>();
+    if (entries.length === 0) return loaded;
+
+    const results = await aggregate3(
+      this.config.provider,
+      entries.map(({ pool, activeId }) => ({
+        target: pool.poolAddress,
+        allowFailure: true,
+        callData: lbBinIface.encodeFunctionData("getBin", [activeId]),
+      })),
+      blockTag,
+    );
+    entries.forEach(({ pool, activeId }, i) => {
+      const result = results[i];
+      if (!result?.success) return;
+      const decoded = lbBinIface.decodeFunctionResult("getBin", result.returnData);
+      loaded.set(pool.poolAddress.toLowerCase(), { id: activeId, reserveX: BigInt(decoded[0]), reserveY: BigInt(decoded[1]) });
+    });
+    return loaded;
+  }
+}
@@ -0,0 +1,157 @@
+import { ZeroAddress } from "ethers";
+import { poolStateKey } from "./poolEvents.js";
+import type { DEXProtocol, LBBin, LiquidityViability, PoolConfig, PriceSnapshot } from "./types.js";
+
+const Q96 = 2 ** 96;
+
+/** Configuration for the LiquidityGuard */
+export interface LiquidityGuardConfig {
+  /** WETH address; pools without WETH (or native ETH) on either side are not checked */
+  wethAddress: string;
+  /** Floor (WETH) for every protocol; 0 disables the check */
+  minReserveWeth: number;
+  /** Per-protocol floors overriding minReserveWeth */
+  dexMinReserveWeth: Partial<Record<DEXProtocol, number>>;
+}
+
+/** A viability change, for PriceMonitor to emit */
+export interface ViabilityTransition {
+  event: "lowLiquidity" | "liquidityRestored";
+  viability: LiquidityViability;
+}
+
+/**
+ * Decides whether a pool holds enough WETH-side liquidity for its price to
+ * be worth trading against, using the same floor for every protocol:
+ *
+ * - V2 pairs, Curve and Balancer: the WETH reserve / balance.
+ * - V3, Algebra, Ramses and V4: the in-range virtual WETH reserve at the
+ *   current price (L / √P or L·√P), i.e. the depth the next swap actually sees.
+ * - Trader Joe LB: the active bin's reserves, both sides valued in WETH.
+ *
+ * A pool below its floor is non-viable until a later read finds it back
+ * above. Reads that carry no measurable state (an LB swap log before the
+ * next bin read) leave the pool's status as it was.
+ */
+export class LiquidityGuard {
+  private readonly config: LiquidityGuardConfig;
+  private readonly weth: string;
+  private readonly nonViable = new Map<string, LiquidityViability>();
+
+  constructor(config: LiquidityGuardConfig) {
+    this.config = config;
+    this.weth = config.wethAddress.toLowerCase();
+  }
+
+  /** Whether any floor is configured */
+  get enabled(): boolean {
+    return this.weth !== "" && (
+      this.config.minReserveWeth > 0 ||
+      Object.values(this.config.dexMinReserveWeth).some((floor) => floor !== undefined && floor > 0)
+    );
+  }
+
+  /** Floor (WETH) for a pool's protocol */
+  floorFor(pool: PoolConfig): number {
+    return this.config.dexMinReserveWeth[pool.dex] ?? this.config.minReserveWeth;
+  }
+
+  /** Whether the pool's last measured liquidity was above its floor (unmeasured pools are viable) */
+  isViable(key: string): boolean {
+    return !this.nonViable.has(key);
+  }
+
+  /** Drop a pool's status (it was removed) */
+  forget(key: string): void {
+    this.nonViable.delete(key);
+  }
+
+  /**
+   * WETH-equivalent liquidity of a snapshot, or undefined when the pool is
+   * not a WETH pair or its state does not carry what the model needs.
+   * `activeBin` is the LB pair's active bin when it was read separately.
+   */
+  measure(snapshot: PriceSnapshot, activeBin?: LBBin): number | undefined {
+    const pool = snapshot.pool;
+    const side = this.wethSide(pool);
+    if (side === undefined) return undefined;
+
+    if (snapshot.balancer) {
+      const index = snapshot.balancer.tokens.findIndex((t) => t.toLowerCase() === this.weth);
+      return index >= 0 ? Number(snapshot.balancer.balances[index]) / 1e18 : undefined;
+    }
+    if (snapshot.stableSwap) {
+      const [i0, i1] = pool.coinIndices ?? [0, 1];
+      return Number(snapshot.stableSwap.balances[side === 0 ? i0 : i1]) / 1e18;
+    }
+    if (snapshot.reserves && snapshot.liquidity === undefined) {
+      return Number(snapshot.reserves[side]) / 1e18;
+    }
+    if (snapshot.liquidity !== undefined && snapshot.sqrtPriceX96 !== undefined && snapshot.sqrtPriceX96 > 0n) {
+      const sqrtPrice = Number(snapshot.sqrtPriceX96) / Q96;
+      const liquidity = Number(snapshot.liquidity);
+      return (side === 0 ? liquidity / sqrtPrice : liquidity * sqrtPrice) / 1e18;
+    }
+    if (snapshot.activeId !== undefined) {
+      const bin = activeBin ?? snapshot.lbBins?.bins.find((b) => b.id === snapshot.activeId);
+      return bin ? this.lbBinWeth(snapshot, bin, side) : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Measure a snapshot against its floor. Returns the snapshot with
+   * `liquidityWeth` set, plus the transition when the pool's status changed.
+   */
+  assess(snapshot: PriceSnapshot, activeBin?: LBBin): { snapshot: PriceSnapshot; transition?: ViabilityTransition } {
+    if (!this.enabled) return { snapshot };
+    const liquidityWeth = this.measure(snapshot, activeBin);
+    const floor = this.floorFor(snapshot.pool);
+    if (liquidityWeth === undefined || floor <= 0) {
+      return { snapshot: { ...snapshot, liquidityWeth: undefined } };
+    }
+
+    const measured = { ...snapshot, liquidityWeth };
+    const key = poolStateKey(snapshot.pool);
+    const viability: LiquidityViability = {
+      pool: snapshot.pool,
+      liquidityWeth,
+      minLiquidityWeth: floor,
+      blockNumber: snapshot.blockNumber,
+    };
+    const wasViable = this.isViable(key);
+
+    if (liquidityWeth < floor) {
+      this.nonViable.set(key, viability);
+      return wasViable ? { snapshot: measured, transition: { event: "lowLiquidity", viability } } : { snapshot: measured };
+    }
+    if (!wasViable) {
+      this.nonViable.delete(key);
+      return { snapshot: measured, transition: { event: "liquidityRestored", viability } };
+    }
+    return { snapshot: measured };
+  }
+
+  /** 0 when WETH (or native ETH) is token0, 1 when token1, undefined otherwise */
+  private wethSide(pool: PoolConfig): 0 | 1 | undefined {
+    const isWeth = (token: string): boolean => {
+      const t = token.toLowerCase();
+      return t === this.weth || (pool.dex === "uniswap_v4" && t === ZeroAddress);
+    };
+    if (isWeth(pool.token0)) return 0;
+    if (isWeth(pool.token1)) return 1;
+    return undefined;
+  }
+
+  /** Both reserves of an LB bin, valued in WETH at the snapshot price */
+  private lbBinWeth(snapshot: PriceSnapshot, bin: LBBin, side: 0 | 1): number {
+    const pool = snapshot.pool;
+    // tokenX/tokenY are token0/token1 unless the LB price is inverted
+    const [raw0, raw1] = pool.invertPrice ? [bin.reserveY, bin.reserveX] : [bin.reserveX, bin.reserveY];
+    const amount0 = Number(raw0) / 10 ** pool.decimals0;
+    const amount1 = Number(raw1) / 10 ** pool.decimals1;
+    if (!(snapshot.price > 0)) return side === 0 ? amount0 : amount1;
+    // price = token1 per token0
+    return side === 0 ? amount0 + amount1 / snapshot.price : amount1 + amount0 * snapshot.price;
+  }
+}
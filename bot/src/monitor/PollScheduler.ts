@@ -0,0 +1,154 @@
+import { poolStateKey } from "./poolEvents.js";
+import type { PoolConfig, PriceSnapshot } from "./types.js";
+
+/** Configuration for the PollScheduler */
+export interface PollSchedulerConfig {
+  /** Longest gap, in polls, between reads of a pool that is not moving (1 = read every pool every poll) */
+  maxPollInterval: number;
+  /** Pool reads per second the scheduler may spend, counting every call in a batch (0 = unlimited) */
+  rpcBudgetPerSecond: number;
+  /** Polls a promoted pool is read on every poll */
+  promotionPolls: number;
+}
+
+interface PoolSchedule {
+  /** Polls between reads; 1 while the pool moves, doubling while it doesn't */
+  interval: number;
+  /** Poll sequence number of the last read */
+  lastPolled: number;
+  /** Read on every poll up to this sequence number */
+  promotedUntil: number;
+}
+
+/**
+ * Decides which pools each poll reads, so quiet pools stop costing as much
+ * RPC budget as busy ones.
+ *
+ * A pool whose state moved since its last read (price, reserves, tick or
+ * active bin) is read every poll. Each read that finds it unchanged doubles
+ * its interval, up to maxPollInterval. Pools in an interesting spread are
+ * promoted to every poll for promotionPolls polls.
+ *
+ * The budget accrues continuously and unspent budget carries over, up to the
+ * cost of reading every pool once (the first poll always reads every pool).
+ * When the due pools cost more than is available, promoted and never-read
+ * pools go first, then the most overdue; the rest stay due for the next poll.
+ */
+export class PollScheduler {
+  private readonly config: PollSchedulerConfig;
+  private readonly schedules = new Map<string, PoolSchedule>();
+  private sequence = 0;
+  private lastSelectAt: number | null = null;
+  /** Unspent budget, in calls */
+  private allowance = 0;
+
+  constructor(config: PollSchedulerConfig) {
+    this.config = config;
+  }
+
+  /** Whether the scheduler ever skips a pool */
+  get enabled(): boolean {
+    return this.config.maxPollInterval > 1 || this.config.rpcBudgetPerSecond > 0;
+  }
+
+  /**
+   * Pick the pools to read on this poll. `cost` is the number of calls a
+   * pool's read takes. Pools never read (or forgotten) are always due.
+   */
+  select(pools: readonly PoolConfig[], cost: (pool: PoolConfig) => number, now = Date.now()): PoolConfig[] {
+    this.sequence++;
+    if (!this.enabled) return [...pools];
+
+    const due = pools
+      .map((pool) => ({ pool, priority: this.priority(pool) }))
+      .filter((entry) => entry.priority > 0)
+      .sort((a, b) => b.priority - a.priority);
+
+    if (this.config.rpcBudgetPerSecond <= 0) return due.map((entry) => entry.pool);
+
+    const fullRead = pools.reduce((sum, pool) => sum + cost(pool), 0);
+    const accrued = this.lastSelectAt === null
+      ? fullRead
+      : (this.config.rpcBudgetPerSecond * (now - this.lastSelectAt)) / 1000;
+    this.lastSelectAt = now;
+    this.allowance = Math.min(fullRead, this.allowance + accrued);
+
+    const selected: PoolConfig[] = [];
+    for (const { pool } of due) {
+      const calls = cost(pool);
+      if (calls > this.allowance) continue;
+      this.allowance -= calls;
+      selected.push(pool);
+    }
+    return selected;
+  }
+
+  /**
+   * Record a successful read. `previous` is the snapshot before it; a pool
+   * whose state moved is read every poll until it settles again.
+   */
+  recordRead(snapshot: PriceSnapshot, previous: PriceSnapshot | undefined): void {
+    const key = poolStateKey(snapshot.pool);
+    const schedule = this.schedules.get(key);
+    const moved = !previous || hasMoved(previous, snapshot);
+    this.schedules.set(key, {
+      interval: moved || !schedule ? 1 : Math.min(schedule.interval * 2, this.config.maxPollInterval),
+      lastPolled: this.sequence,
+      promotedUntil: schedule?.promotedUntil ?? 0,
+    });
+  }
+
+  /**
+   * Record a state change seen outside a poll (a pool log): the pool is read
+   * every poll again.
+   */
+  recordActivity(pool: PoolConfig): void {
+    const schedule = this.schedules.get(poolStateKey(pool));
+    if (schedule) schedule.interval = 1;
+  }
+
+  /** Read these pools on every poll for the next promotionPolls polls */
+  promote(pools: PoolConfig[]): void {
+    for (const pool of pools) {
+      const schedule = this.schedules.get(poolStateKey(pool));
+      if (!schedule) continue;
+      schedule.interval = 1;
+      schedule.promotedUntil = this.sequence + this.config.promotionPolls;
+    }
+  }
+
+  /** Drop a pool's schedule so it is read on the next poll */
+  forget(key: string): void {
+    this.schedules.delete(key);
+  }
+
+  /**
+   * Whether a pool not read on this poll still counts as current: its last
+   * read succeeded and it is within its interval, not held back by the budget.
+   */
+  isCurrent(pool: PoolConfig): boolean {
+    const schedule = this.schedules.get(poolStateKey(pool));
+    return schedule !== undefined && this.sequence - schedule.lastPolled < schedule.interval;
+  }
+
+  /** 0 when not due; otherwise higher for promoted, unread and more overdue pools */
+  private priority(pool: PoolConfig): number {
+    const schedule = this.schedules.get(poolStateKey(pool));
+    if (!schedule) return Number.MAX_SAFE_INTEGER;
+    if (schedule.promotedUntil >= this.sequence) return Number.MAX_SAFE_INTEGER - 1;
+    const overdue = (this.sequence - schedule.lastPolled) / schedule.interval;
+    return overdue >= 1 ? overdue : 0;
+  }
+}
+
+/** Whether any state the monitor prices from changed between two reads */
+function hasMoved(previous: PriceSnapshot, next: PriceSnapshot): boolean {
+  return (
+    previous.price !== next.price ||
+    previous.activeId !== next.activeId ||
+    previous.tick !== next.tick ||
+    previous.sqrtPriceX96 !== next.sqrtPriceX96 ||
+    previous.reserves?.[0] !== next.reserves?.[0] ||
+    previous.reserves?.[1] !== next.reserves?.[1]
+  );
+}
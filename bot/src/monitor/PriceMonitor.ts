@@ -1,12 +1,35 @@
 import { EventEmitter } from "node:events";
 import { Contract, Interface, WebSocketLike, WebSocketProvider } from "ethers";
 import type {
+  GapEvent,
+  LBBin,
+  LBBinLiquidity,
   PoolConfig,
   PriceDelta,
   PriceMonitorConfig,
   PriceMonitorEvents,
   PriceSnapshot,
+  ReorgEvent,
 } from "./types.js";
+import {
+  POOL_EVENT_TOPICS,
+  decodePoolEvent,
+  emitsPoolState,
+  isV3Protocol,
+  poolStateKey,
+  type PoolLog,
+} from "./poolEvents.js";
+import { aggregate3, type MulticallResult } from "./multicall.js";
+import { TickLiquidityLoader } from "./TickLiquidityLoader.js";
+import { PriceSanityGuard } from "./PriceSanityGuard.js";
+import { LiquidityGuard } from "./LiquidityGuard.js";
+import { PollScheduler } from "./PollScheduler.js";
+import { LBBinLoader } from "./LBBinLoader.js";
+import { BlockHashTracker, type OrphanedRange } from "./BlockHashTracker.js";
+import { stableSwapSpotPrice, type StableSwapCurve } from "../math/stableSwap.js";
+import { balancerSpotPrice, type BalancerPoolState } from "../math/balancer.js";
+import { lbTotalFee, type LBFeeParameters } from "../math/lbFees.js";
+import { camelotSpotPrice, type CamelotPairFees } from "../math/camelotV2.js";
 
 /** Safely coerce an unknown caught value to an Error */
 function toError(err: unknown): Error {
@@ -19,6 +42,13 @@ const UNISWAP_V2_PAIR_ABI = [
   "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
 ];
 
+// Camelot V2 pairs add per-direction fees and a stable (Solidly invariant) mode
+const CAMELOT_V2_PAIR_ABI = [
+  "function token0FeePercent() view returns (uint16)",
+  "function token1FeePercent() view returns (uint16)",
+  "function stableSwap() view returns (bool)",
+];
+
 const UNISWAP_V3_POOL_ABI = [
   "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
 ];
@@ -29,6 +59,39 @@ const ALGEBRA_V3_POOL_ABI = [
 
 const TRADER_JOE_LB_PAIR_ABI = [
   "function getActiveId() view returns (uint24 activeId)",
+  "function getStaticFeeParameters() view returns (uint16 baseFactor, uint16 filterPeriod, uint16 decayPeriod, uint16 reductionFactor, uint24 variableFeeControl, uint16 protocolShare, uint24 maxVolatilityAccumulator)",
+  "function getVariableFeeParameters() view returns (uint24 volatilityAccumulator, uint24 volatilityReference, uint24 idReference, uint40 timeOfLastUpdate)",
+];
+
+const CURVE_STABLESWAP_ABI = [
+  "function A() view returns (uint256)",
+  "function fee() view returns (uint256)",
+  "function balances(uint256 i) view returns (uint256)",
+];
+
+const BALANCER_VAULT_ABI = [
+  "function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)",
+];
+
+const BALANCER_POOL_ABI = [
+  "function getSwapFeePercentage() view returns (uint256)",
+  "function getNormalizedWeights() view returns (uint256[])",
+  "function getAmplificationParameter() view returns (uint256 value, bool isUpdating, uint256 precision)",
+  "function getScalingFactors() view returns (uint256[])",
+];
+
+/** Balancer V2 Vault — deployed at the same address on every chain */
+const BALANCER_VAULT_ADDRESS = "0xBA12222222228d8Ba445958a75a0704d566BF2C8";
+
+// Uniswap V4 StateView: reads PoolManager storage via extsload, keyed by PoolId
+const V4_STATE_VIEW_ABI = [
+  "function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)",
+  "function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)",
+];
+
+// Ramses V3 fees can be changed by the protocol at any time; fee() is the current one
+const RAMSES_V3_POOL_ABI = [
+  "function fee() view returns (uint24)",
 ];
 
 const LIQUIDITY_ABI = [
@@ -37,18 +100,17 @@ const LIQUIDITY_ABI = [
 
 // Pre-built Interface instances for encoding/decoding call data
 const v2Iface = new Interface(UNISWAP_V2_PAIR_ABI);
+const camelotPairIface = new Interface(CAMELOT_V2_PAIR_ABI);
 const v3Iface = new Interface(UNISWAP_V3_POOL_ABI);
 const algebraIface = new Interface(ALGEBRA_V3_POOL_ABI);
 const lbPairIface = new Interface(TRADER_JOE_LB_PAIR_ABI);
+const curveIface = new Interface(CURVE_STABLESWAP_ABI);
+const balancerVaultIface = new Interface(BALANCER_VAULT_ABI);
+const balancerPoolIface = new Interface(BALANCER_POOL_ABI);
+const stateViewIface = new Interface(V4_STATE_VIEW_ABI);
+const ramsesIface = new Interface(RAMSES_V3_POOL_ABI);
 const liquidityIface = new Interface(LIQUIDITY_ABI);
 
-// Multicall3 — deployed at same address on all EVM chains
-const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
-const MULTICALL3_ABI = [
-  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
-];
-const multicallIface = new Interface(MULTICALL3_ABI);
-
 /**
  * Monitors DEX pool prices and detects cross-DEX arbitrage opportunities.
  *
@@ -60,31 +122,93 @@ export class PriceMonitor extends EventEmitter {
   private readonly config: Required<PriceMonitorConfig>;
   private readonly snapshots = new Map<string, PriceSnapshot>();
   private readonly consecutiveErrors = new Map<string, number>();
+  private readonly tickLoader: TickLiquidityLoader;
+  private readonly binLoader: LBBinLoader;
+  private readonly sanityGuard: PriceSanityGuard;
+  private readonly liquidityGuard: LiquidityGuard;
+  private readonly scheduler: PollScheduler;
+  private readonly blockTracker: BlockHashTracker | null;
   private pollTimer: ReturnType<typeof setInterval> | null = null;
   private running = false;
 
   // ---- WebSocket state ----
   private _wsProvider: WebSocketProvider | null = null;
   private _wsUrl: string | null = null;
+  private _wsUrls: string[] = []; // Rotated on reconnect when several are configured
   private _wsActive = false;
   private _wsReconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private _wsReconnectDelay = 1_000; // Start at 1s, exponential backoff
   private static readonly WS_MAX_RECONNECT_DELAY = 30_000; // Cap at 30s
   private _lastPolledBlock: number | null = null; // Deduplicate block events
-  private _pollInProgress = false; // Prevent concurrent polls
+  private _pollInFlight: Promise<void> | null = null; // Prevent concurrent polls
+  private _wsResumeBlock: number | null = null; // Last block seen before a disconnect, to find the gap on reconnect
+  private _gap: OrphanedRange | null = null; // Blocks being caught up on after a reconnect
+
+  // ---- Event-driven state ----
+  private _reconcileTimer: ReturnType<typeof setInterval> | null = null;
+  private _poolLogFilter: { address: string[]; topics: string[][] } | null = null;
+  private _eventFlushPending = false; // Coalesce detection across logs of one block
+  private _removedLogRange: OrphanedRange | null = null; // Coalesce retracted logs into one reorg
 
   constructor(config: PriceMonitorConfig) {
     super();
     this.config = {
       provider: config.provider,
-      pools: config.pools,
+      pools: [...config.pools],
       deltaThresholdPercent: config.deltaThresholdPercent ?? 0.5,
       pollIntervalMs: config.pollIntervalMs ?? 12_000,
       maxRetries: config.maxRetries ?? 3,
       useMulticall: config.useMulticall ?? true,
       minReserveWeth: config.minReserveWeth ?? 0,
+      dexMinReserveWeth: { ...config.dexMinReserveWeth },
       wethAddress: config.wethAddress ?? "",
+      eventDriven: config.eventDriven ?? false,
+      reconcileIntervalMs: config.reconcileIntervalMs ?? 60_000,
+      maxGapReplayBlocks: config.maxGapReplayBlocks ?? 1_000,
+      tickBitmapWords: config.tickBitmapWords ?? 0,
+      tickRefreshMs: config.tickRefreshMs ?? 60_000,
+      lbBinsPerSide: config.lbBinsPerSide ?? 0,
+      reorgDepth: config.reorgDepth ?? 0,
+      twapWindowSeconds: config.twapWindowSeconds ?? 0,
+      oracleFeeds: [...(config.oracleFeeds ?? [])],
+      maxOracleAgeSeconds: config.maxOracleAgeSeconds ?? 86_400,
+      maxPriceDeviationPercent: config.maxPriceDeviationPercent ?? 5,
+      pairPriceDeviationPercent: { ...config.pairPriceDeviationPercent },
+      maxSpreadPercent: config.maxSpreadPercent ?? 20,
+      maxPollInterval: config.maxPollInterval ?? 1,
+      rpcBudgetPerSecond: config.rpcBudgetPerSecond ?? 0,
+      promotionPolls: config.promotionPolls ?? 20,
     };
+    this.tickLoader = new TickLiquidityLoader({
+      provider: this.config.provider,
+      words: this.config.tickBitmapWords,
+      refreshMs: this.config.tickRefreshMs,
+    });
+    this.binLoader = new LBBinLoader({
+      provider: this.config.provider,
+      binsPerSide: this.config.lbBinsPerSide,
+    });
+    this.sanityGuard = new PriceSanityGuard({
+      provider: this.config.provider,
+      twapWindowSeconds: this.config.twapWindowSeconds,
+      oracleFeeds: this.config.oracleFeeds,
+      maxOracleAgeSeconds: this.config.maxOracleAgeSeconds,
+      maxDeviationPercent: this.config.maxPriceDeviationPercent,
+      pairDeviationPercent: this.config.pairPriceDeviationPercent,
+    });
+    this.liquidityGuard = new LiquidityGuard({
+      wethAddress: this.config.wethAddress,
+      minReserveWeth: this.config.minReserveWeth,
+      dexMinReserveWeth: this.config.dexMinReserveWeth,
+    });
+    this.scheduler = new PollScheduler({
+      maxPollInterval: this.config.maxPollInterval,
+      rpcBudgetPerSecond: this.config.rpcBudgetPerSecond,
+      promotionPolls: this.config.promotionPolls,
+    });
+    this.blockTracker = this.config.reorgDepth > 0
+      ? new BlockHashTracker({ provider: this.config.provider, depth: this.config.reorgDepth })
+      : null;
   }
 
   /** Start the polling loop */
@@ -124,12 +248,25 @@ export class PriceMonitor extends EventEmitter {
    * double-polling. If the WebSocket disconnects, falls back to interval
    * polling and attempts reconnection with exponential backoff.
    *
-   * @param wsUrl - WebSocket RPC endpoint (e.g., "wss://arb-mainnet.g.alchemy.com/v2/KEY")
+   * With `eventDriven` enabled, new blocks no longer trigger a full poll.
+   * Instead the monitor subscribes to Sync/Swap logs of the configured pools
+   * and updates snapshots straight from the decoded events, with a full
+   * Multicall reconciliation every `reconcileIntervalMs` as a safety net.
+   *
+   * Given several endpoints, each reconnection attempt moves on to the next
+   * one, so a dead primary does not hold the monitor on HTTP polling.
+   *
+   * Blocks that went by while disconnected are caught up on before the
+   * monitor resumes (see `_catchUpGap`), then a `gap` event is emitted.
+   *
+   * @param wsUrl - WebSocket RPC endpoint(s) (e.g., "wss://arb-mainnet.g.alchemy.com/v2/KEY"), primary first
    */
-  startWebSocket(wsUrl: string): void {
+  startWebSocket(wsUrl: string | string[]): void {
     if (this._wsActive) return;
 
-    this._wsUrl = wsUrl;
+    this._wsUrls = Array.isArray(wsUrl) ? [...wsUrl] : [wsUrl];
+    if (this._wsUrls.length === 0) return;
+    this._wsUrl = this._wsUrls[0];
     this._wsReconnectDelay = 1_000; // Reset backoff on fresh start
     this._connectWebSocket();
   }
@@ -138,6 +275,8 @@ export class PriceMonitor extends EventEmitter {
   stopWebSocket(): void {
     this._wsActive = false;
     this._wsUrl = null;
+    this._wsResumeBlock = null;
+    this._stopReconciliation();
 
     if (this._wsReconnectTimer) {
       clearTimeout(this._wsReconnectTimer);
@@ -152,6 +291,7 @@ export class PriceMonitor extends EventEmitter {
         // Ignore errors during cleanup
       }
       this._wsProvider = null;
+      this._poolLogFilter = null;
     }
   }
 
@@ -189,10 +329,28 @@ export class PriceMonitor extends EventEmitter {
       this._lastPolledBlock = blockNumber;
       // Reset backoff on successful block receipt (connection is healthy)
       this._wsReconnectDelay = 1_000;
+      const resumeBlock = this._wsResumeBlock;
+      this._wsResumeBlock = null;
+      if (resumeBlock !== null && blockNumber > resumeBlock + 1) {
+        void this._catchUpGap({ fromBlock: resumeBlock + 1, toBlock: blockNumber });
+        return;
+      }
+      // Blocks seen while catching up are covered once it finishes
+      if (this._gap) return;
+      if (this.config.eventDriven) {
+        // Pools without a log in this block kept their state — only the block moves
+        this._advanceSnapshots(blockNumber);
+        return;
+      }
       // Pass the authoritative WS block number to avoid a redundant HTTP getBlockNumber() call
       void this.poll(blockNumber);
     });
 
+    if (this.config.eventDriven) {
+      this._subscribePoolLogs();
+      this._startReconciliation();
+    }
+
     // Handle WebSocket-level disconnect
     // WebSocketLike defines onerror but not onclose — extend with intersection type
     if (this._wsProvider.websocket) {
@@ -215,6 +373,9 @@ export class PriceMonitor extends EventEmitter {
     if (!this._wsActive && !this._wsUrl) return; // Already stopped intentionally
 
     this._wsActive = false;
+    this._stopReconciliation();
+    // Kept across failed reconnection attempts: the gap starts at the first drop
+    this._wsResumeBlock ??= this._lastPolledBlock;
 
     // Clean up old provider
     if (this._wsProvider) {
@@ -225,6 +386,7 @@ export class PriceMonitor extends EventEmitter {
         // Ignore errors during cleanup
       }
       this._wsProvider = null;
+      this._poolLogFilter = null;
     }
 
     this.emit("ws:disconnected");
@@ -248,6 +410,10 @@ export class PriceMonitor extends EventEmitter {
       this._wsReconnectTimer = null;
       if (!this._wsUrl) return; // Cancelled during the wait
 
+      // Rotate to the next endpoint — the one that just dropped may be down
+      const next = (this._wsUrls.indexOf(this._wsUrl) + 1) % this._wsUrls.length;
+      this._wsUrl = this._wsUrls[next];
+
       this.emit("ws:reconnecting");
       this._connectWebSocket();
     }, delay);
@@ -259,9 +425,336 @@ export class PriceMonitor extends EventEmitter {
     );
   }
 
-  /** Get the latest price snapshot for a pool */
-  getSnapshot(poolAddress: string): PriceSnapshot | undefined {
-    return this.snapshots.get(poolAddress.toLowerCase());
+  /** Internal: (re)subscribe to Sync/Swap logs of every monitored pool */
+  private _subscribePoolLogs(): void {
+    if (!this._wsProvider) return;
+    if (this._poolLogFilter) {
+      void this._wsProvider.off(this._poolLogFilter);
+    }
+    this._poolLogFilter = {
+      address: this.config.pools.map((p) => p.poolAddress),
+      topics: [POOL_EVENT_TOPICS],
+    };
+    this._wsProvider.on(this._poolLogFilter, (log: PoolLog) => {
+      this.applyPoolLog(log);
+    });
+  }
+
+  /**
+   * Internal: baseline every pool with a full poll, then keep reconciling on
+   * an interval so a missed or mis-decoded log can't leave a pool drifting.
+   */
+  private _startReconciliation(): void {
+    this._stopReconciliation();
+    void this.poll();
+    this._reconcileTimer = setInterval(() => void this.poll(), this.config.reconcileIntervalMs);
+  }
+
+  /** Internal: stop the event-driven reconciliation timer */
+  private _stopReconciliation(): void {
+    if (this._reconcileTimer) {
+      clearInterval(this._reconcileTimer);
+      this._reconcileTimer = null;
+    }
+  }
+
+  /**
+   * Internal: catch up on the blocks the WebSocket missed while it was down.
+   *
+   * In event-driven mode the pools' logs over the gap are replayed, so every
+   * snapshot is current as of `gap.toBlock`. Otherwise — or when the gap is
+   * too long or the logs can't be fetched — snapshots read before the gap
+   * are dropped and every pool is re-read at `gap.toBlock`. Until the
+   * catch-up finishes, snapshots from before the gap take no part in delta
+   * detection and are not advanced to new blocks.
+   */
+  private async _catchUpGap(gap: OrphanedRange): Promise<void> {
+    this._gap = gap;
+    let backfill: GapEvent["backfill"] = "poll";
+    try {
+      const replayable = this.config.eventDriven && gap.toBlock - gap.fromBlock < this.config.maxGapReplayBlocks;
+      if (replayable && await this._replayPoolLogs(gap)) {
+        backfill = "logs";
+      } else {
+        await this._repollAfterGap(gap);
+      }
+    } finally {
+      this._gap = null;
+    }
+
+    if (backfill === "logs") {
+      // Pools without a log in the gap kept their state through it
+      this._advanceSnapshots(gap.toBlock);
+      this._scheduleEventDetection();
+    }
+    const event: GapEvent = { ...gap, backfill, timestamp: Date.now() };
+    this.emit("gap", event);
+  }
+
+  /** Internal: apply every pool log in the gap, in chain order. False when the logs can't be fetched. */
+  private async _replayPoolLogs(gap: OrphanedRange): Promise<boolean> {
+    let logs: Array<PoolLog & { index: number }>;
+    try {
+      logs = await this.config.provider.getLogs({
+        address: this.config.pools.map((p) => p.poolAddress),
+        topics: [POOL_EVENT_TOPICS],
+        fromBlock: gap.fromBlock,
+        toBlock: gap.toBlock,
+      });
+    } catch {
+      return false;
+    }
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of logs) {
+      this.applyPoolLog(log);
+    }
+    return true;
+  }
+
+  /** Internal: drop snapshots read before the gap and re-read every pool at its end */
+  private async _repollAfterGap(gap: OrphanedRange): Promise<void> {
+    for (const [key, snapshot] of this.snapshots) {
+      if (snapshot.blockNumber < gap.fromBlock) {
+        this.snapshots.delete(key);
+        this.scheduler.forget(key);
+      }
+    }
+    // A poll already in flight chose its pools before the gap was found
+    if (this._pollInFlight) await this._pollInFlight;
+    await this.poll(gap.toBlock);
+  }
+
+  /** Internal: whether a snapshot was read before the blocks being caught up on */
+  private _predatesGap(snapshot: PriceSnapshot): boolean {
+    return this._gap !== null && snapshot.blockNumber < this._gap.fromBlock;
+  }
+
+  /**
+   * Apply a Sync/Swap log to the matching pool's snapshot.
+   *
+   * Only pools that already have a snapshot from a Multicall read are updated,
+   * so event-driven state always starts from a full on-chain baseline. Logs
+   * older than the current snapshot are ignored (e.g. replayed subscriptions).
+   */
+  applyPoolLog(log: PoolLog): void {
+    if (log.removed) {
+      this._scheduleRemovedLogReorg(log.blockNumber);
+      return;
+    }
+
+    const address = log.address.toLowerCase();
+    const pool = this.config.pools.find((p) => p.poolAddress.toLowerCase() === address);
+    if (!pool) return;
+
+    const previous = this.snapshots.get(address);
+    if (!previous || log.blockNumber < previous.blockNumber) return;
+
+    let snapshot: PriceSnapshot;
+    try {
+      const update = decodePoolEvent(pool, log);
+      if (!update) return;
+
+      let price: number;
+      if (update.activeId !== undefined) {
+        if (!pool.feeTier) {
+          throw new Error(`Trader Joe LB pool ${pool.label} missing feeTier (binStep)`);
+        }
+        price = this.calculateLBPrice(update.activeId, pool.feeTier, pool.decimals0, pool.decimals1);
+        if (pool.invertPrice) {
+          price = price > 0 ? 1 / price : 0;
+        }
+      } else if (update.sqrtPriceX96 !== undefined) {
+        price = this.calculateV3Price(update.sqrtPriceX96, pool.decimals0, pool.decimals1);
+      } else {
+        const [reserve0, reserve1] = update.reserves!;
+        price = previous.camelotV2
+          ? this.calculateCamelotV2Price(pool, [reserve0, reserve1], previous.camelotV2)
+          : this.calculateV2Price(reserve0, reserve1, pool.decimals0, pool.decimals1);
+      }
+
+      snapshot = this.checkLiquidity(this.checkPriceSanity({
+        ...previous,
+        price,
+        inversePrice: 1 / price,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: Date.now(),
+        ...(update.reserves && { reserves: update.reserves }),
+        ...(update.liquidity !== undefined && { liquidity: update.liquidity }),
+        ...(update.sqrtPriceX96 !== undefined && { sqrtPriceX96: update.sqrtPriceX96 }),
+        ...(update.tick !== undefined && {
+          tick: update.tick,
+          tickLiquidity: this.tickLoader.get(address, update.tick),
+        }),
+        // Bins and fee read before the swap no longer describe the pool
+        ...(update.activeId !== undefined && { activeId: update.activeId, lbBins: undefined, lbFee: undefined }),
+      }));
+    } catch (err) {
+      const errCount = (this.consecutiveErrors.get(address) ?? 0) + 1;
+      this.consecutiveErrors.set(address, errCount);
+      this.emit("error", toError(err), pool);
+      if (errCount >= this.config.maxRetries) {
+        this.emit("stale", pool);
+      }
+      return;
+    }
+
+    this.consecutiveErrors.set(address, 0);
+    this.snapshots.set(address, snapshot);
+    this.scheduler.recordActivity(pool);
+    this.emit("priceUpdate", snapshot);
+    this._scheduleEventDetection();
+  }
+
+  /**
+   * Internal: run opportunity detection once per burst of logs.
+   * A block usually carries several logs; comparing after each one would
+   * emit deltas for intermediate states that no longer exist.
+   */
+  private _scheduleEventDetection(): void {
+    if (this._eventFlushPending) return;
+    this._eventFlushPending = true;
+    setImmediate(() => {
+      this._eventFlushPending = false;
+      this.detectOpportunities(this._eventSyncedPools());
+    });
+  }
+
+  /** Internal: pools whose snapshot is currently kept in sync by events */
+  private _eventSyncedPools(): Set<string> {
+    const synced = new Set<string>();
+    for (const [key, snapshot] of this.snapshots) {
+      // Curve and Balancer pools are only refreshed by polls — their logs carry no state
+      if (!emitsPoolState(snapshot.pool) || this._predatesGap(snapshot)) continue;
+      if ((this.consecutiveErrors.get(key) ?? 0) === 0) synced.add(key);
+    }
+    return synced;
+  }
+
+  /** Internal: move event-synced snapshots to the latest block they are known valid at */
+  private _advanceSnapshots(blockNumber: number): void {
+    for (const key of this._eventSyncedPools()) {
+      const snapshot = this.snapshots.get(key)!;
+      if (snapshot.blockNumber < blockNumber) {
+        // The hash belonged to the block the state was read at, not the new one
+        this.snapshots.set(key, { ...snapshot, blockNumber, blockHash: undefined });
+      }
+    }
+  }
+
+  /**
+   * Internal: the node retracted a log because its block was reorged out.
+   * Retractions arrive one log at a time — collect them and handle the
+   * whole range once, then re-read every pool at the new head.
+   */
+  private _scheduleRemovedLogReorg(blockNumber: number): void {
+    const pending = this._removedLogRange;
+    this._removedLogRange = {
+      fromBlock: Math.min(pending?.fromBlock ?? blockNumber, blockNumber),
+      toBlock: Math.max(pending?.toBlock ?? blockNumber, blockNumber),
+    };
+    if (pending) return;
+    setImmediate(() => {
+      const range = this._removedLogRange!;
+      this._removedLogRange = null;
+      this._handleReorg(range);
+      void this.poll();
+    });
+  }
+
+  /**
+   * Internal: drop every snapshot read at or after the first orphaned block
+   * and emit `reorg`. The dropped pools are re-read on the next poll; until
+   * then they take no part in delta detection.
+   */
+  private _handleReorg(range: OrphanedRange): void {
+    for (const [key, snapshot] of this.snapshots) {
+      if (snapshot.blockNumber >= range.fromBlock) {
+        this.snapshots.delete(key);
+        this.scheduler.forget(key);
+      }
+    }
+    // Tick windows may have been read at an orphaned block too
+    this.tickLoader.invalidateFrom(range.fromBlock);
+    this._lastPolledBlock = null;
+
+    const reorg: ReorgEvent = { ...range, timestamp: Date.now() };
+    this.emit("reorg", reorg);
+  }
+
+  /**
+   * Internal: record the polled block's hash and handle a reorg if the
+   * tracked chain no longer matches. Tracking failures are non-critical —
+   * the poll goes ahead without a block hash.
+   */
+  private async _observeBlock(blockNumber: number): Promise<string | undefined> {
+    if (!this.blockTracker) return undefined;
+    try {
+      const observation = await this.blockTracker.observe(blockNumber);
+      if (!observation) return undefined;
+      if (observation.orphaned) this._handleReorg(observation.orphaned);
+      return observation.hash;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Start monitoring additional pools at runtime (e.g. from PoolDiscovery).
+   * Pools that are already monitored are ignored; new pools are read on the
+   * next poll. Returns the pools that were actually added.
+   */
+  addPools(pools: PoolConfig[]): PoolConfig[] {
+    const known = new Set(this.config.pools.map((p) => poolStateKey(p)));
+    const added: PoolConfig[] = [];
+    for (const pool of pools) {
+      const key = poolStateKey(pool);
+      if (known.has(key)) continue;
+      known.add(key);
+      added.push(pool);
+    }
+    if (added.length === 0) return added;
+
+    this.config.pools.push(...added);
+    if (this._wsActive && this.config.eventDriven) {
+      this._subscribePoolLogs();
+    }
+    return added;
+  }
+
+  /**
+   * Stop monitoring pools (e.g. ones that failed startup verification).
+   * Their snapshots are dropped so they take no further part in delta
+   * detection. Returns the pools that were actually removed.
+   */
+  removePools(pools: PoolConfig[]): PoolConfig[] {
+    const keys = new Set(pools.map((p) => poolStateKey(p)));
+    const removed = this.config.pools.filter((p) => keys.has(poolStateKey(p)));
+    if (removed.length === 0) return removed;
+
+    const kept = this.config.pools.filter((p) => !keys.has(poolStateKey(p)));
+    this.config.pools.splice(0, this.config.pools.length, ...kept);
+    for (const pool of removed) {
+      const key = poolStateKey(pool);
+      this.snapshots.delete(key);
+      this.consecutiveErrors.delete(key);
+      this.scheduler.forget(key);
+      this.liquidityGuard.forget(key);
+    }
+    if (this._wsActive && this.config.eventDriven) {
+      this._subscribePoolLogs();
+    }
+    return removed;
+  }
+
+  /** Pools currently being monitored */
+  get pools(): readonly PoolConfig[] {
+    return this.config.pools;
+  }
+
+  /** Get the latest price snapshot for a pool, by address (Uniswap V4: by PoolId) */
+  getSnapshot(key: string): PriceSnapshot | undefined {
+    return this.snapshots.get(key.toLowerCase());
   }
 
   /** Get all current snapshots */
@@ -273,32 +766,39 @@ export class PriceMonitor extends EventEmitter {
    * @param blockNumber - authoritative block number from WS event (skips HTTP getBlockNumber call)
    */
   async poll(blockNumber?: number): Promise<void> {
-    if (this._pollInProgress) return;
-    this._pollInProgress = true;
+    if (this._pollInFlight) return;
+    this._pollInFlight = this._pollScheduledPools(blockNumber);
     try {
-      if (this.config.useMulticall) {
-        try {
-          await this.pollMulticall(blockNumber);
-          return;
-        } catch {
-          // Multicall failed entirely — fall back to individual calls
-        }
-      }
-      await this.pollIndividual();
+      await this._pollInFlight;
     } finally {
-      this._pollInProgress = false;
+      this._pollInFlight = null;
+    }
+  }
+
+  /** Internal: one poll cycle over the pools the scheduler picks */
+  private async _pollScheduledPools(blockNumber?: number): Promise<void> {
+    const pools = this.scheduler.select(this.config.pools, (pool) => this.callCountForPool(pool));
+    if (this.config.useMulticall) {
+      try {
+        await this.pollMulticall(pools, blockNumber);
+        return;
+      } catch {
+        // Multicall failed entirely — fall back to individual calls
+      }
     }
+    await this.pollIndividual(pools);
   }
 
-  /** Fetch all pools with individual RPC calls (fallback path) */
-  private async pollIndividual(): Promise<void> {
+  /** Fetch the scheduled pools with individual RPC calls (fallback path) */
+  private async pollIndividual(pools: PoolConfig[]): Promise<void> {
     const freshPools = new Set<string>();
 
     await Promise.all(
-      this.config.pools.map(async (pool) => {
-        const key = pool.poolAddress.toLowerCase();
+      pools.map(async (pool) => {
+        const key = poolStateKey(pool);
         try {
-          const snapshot = await this.fetchPrice(pool);
+          const snapshot = this.checkLiquidity(this.checkPriceSanity(await this.fetchPrice(pool)));
+          this.scheduler.recordRead(snapshot, this.snapshots.get(key));
           this.consecutiveErrors.set(key, 0);
           this.snapshots.set(key, snapshot);
           freshPools.add(key);
@@ -315,61 +815,80 @@ export class PriceMonitor extends EventEmitter {
       }),
     );
 
-    this.detectOpportunities(freshPools);
+    this.detectOpportunities(this.withScheduledPools(freshPools));
   }
 
-  /** Batch all pool reads into a single Multicall3 aggregate3() call */
-  private async pollMulticall(knownBlock?: number): Promise<void> {
+  /** Batch the scheduled pools' reads into a single Multicall3 aggregate3() call */
+  private async pollMulticall(pools: PoolConfig[], knownBlock?: number): Promise<void> {
     const blockNumber = knownBlock ?? await this.config.provider.getBlockNumber();
+    const blockHash = await this._observeBlock(blockNumber);
     const freshPools = new Set<string>();
 
     // Build multicall: price calls (1 per pool) + liquidity calls (1 per V3 pool)
-    const priceCalls = this.config.pools.map((pool) => ({
-      target: pool.poolAddress,
+    const priceCalls = pools.map((pool) => ({
+      target: this.getCallTargetForPool(pool),
       allowFailure: true,
       callData: this.getCallDataForPool(pool),
     }));
 
     const v3PoolIndices: number[] = [];
     const liquidityCalls: Array<{ target: string; allowFailure: boolean; callData: string }> = [];
-    for (let i = 0; i < this.config.pools.length; i++) {
-      if (this.isV3Pool(this.config.pools[i])) {
+    for (let i = 0; i < pools.length; i++) {
+      const pool = pools[i];
+      if (this.isV3Pool(pool) || pool.dex === "uniswap_v4") {
         v3PoolIndices.push(i);
         liquidityCalls.push({
-          target: this.config.pools[i].poolAddress,
+          target: pool.poolAddress,
           allowFailure: true,
-          callData: liquidityIface.encodeFunctionData("liquidity"),
+          callData: pool.dex === "uniswap_v4"
+            ? stateViewIface.encodeFunctionData("getLiquidity", [this.v4PoolId(pool)])
+            : liquidityIface.encodeFunctionData("liquidity"),
         });
       }
     }
 
-    const allCalls = [...priceCalls, ...liquidityCalls];
-    const calldata = multicallIface.encodeFunctionData("aggregate3", [allCalls]);
-    const rawResult = await this.config.provider.call({
-      to: MULTICALL3_ADDRESS,
-      data: calldata,
-    });
-
-    if (!rawResult || rawResult === "0x") {
-      throw new Error("Multicall3 returned empty result");
+    // Curve and Balancer pools: the rest of their state, read from the pool itself
+    const extraRanges = new Map<number, { start: number; end: number }>();
+    const extraCalls: Array<{ target: string; allowFailure: boolean; callData: string }> = [];
+    let nextIndex = priceCalls.length + liquidityCalls.length;
+    for (let i = 0; i < pools.length; i++) {
+      const pool = pools[i];
+      const callData = this.getExtraCallDataForPool(pool);
+      if (callData.length === 0) continue;
+      for (const data of callData) {
+        extraCalls.push({ target: pool.poolAddress, allowFailure: true, callData: data });
+      }
+      extraRanges.set(i, { start: nextIndex, end: nextIndex + callData.length });
+      nextIndex += callData.length;
     }
 
-    const decoded = multicallIface.decodeFunctionResult("aggregate3", rawResult);
-    const results = decoded[0];
+    // Pin reads to the observed block so the snapshot state matches its hash
+    const results = await aggregate3(
+      this.config.provider,
+      [...priceCalls, ...liquidityCalls, ...extraCalls],
+      blockHash !== undefined ? blockNumber : undefined,
+    );
 
     // Process price results (indices 0..N-1)
-    const N = this.config.pools.length;
+    const N = pools.length;
     const poolData = new Map<number, {
       price: number;
       reserves?: [bigint, bigint];
+      camelotV2?: CamelotPairFees;
       sqrtPriceX96?: bigint;
       liquidity?: bigint;
+      tick?: number;
       activeId?: number;
+      lbFee?: bigint;
+      lpFee?: number;
+      algebraFees?: { zeroForOne: number; oneForZero: number };
+      stableSwap?: StableSwapCurve;
+      balancer?: BalancerPoolState;
     }>();
 
     for (let i = 0; i < N; i++) {
-      const pool = this.config.pools[i];
-      const key = pool.poolAddress.toLowerCase();
+      const pool = pools[i];
+      const key = poolStateKey(pool);
       const result = results[i];
 
       if (!result.success) {
@@ -387,7 +906,12 @@ export class PriceMonitor extends EventEmitter {
       }
 
       try {
-        const priceData = this.decodePriceFromResult(pool, result.returnData);
+        const range = extraRanges.get(i);
+        const priceData = this.decodePriceFromResult(
+          pool,
+          result.returnData,
+          range && results.slice(range.start, range.end),
+        );
         poolData.set(i, priceData);
       } catch (err) {
         const errCount = (this.consecutiveErrors.get(key) ?? 0) + 1;
@@ -399,13 +923,15 @@ export class PriceMonitor extends EventEmitter {
       }
     }
 
-    // Process liquidity results (indices N..N+M-1, one per V3 pool)
+    // Process liquidity results (indices N..N+M-1, one per V3/V4 pool)
     for (let j = 0; j < v3PoolIndices.length; j++) {
       const poolIndex = v3PoolIndices[j];
       const result = results[N + j];
       if (result?.success) {
         try {
-          const liqDecoded = liquidityIface.decodeFunctionResult("liquidity", result.returnData);
+          const liqDecoded = pools[poolIndex].dex === "uniswap_v4"
+            ? stateViewIface.decodeFunctionResult("getLiquidity", result.returnData)
+            : liquidityIface.decodeFunctionResult("liquidity", result.returnData);
           const data = poolData.get(poolIndex);
           if (data) {
             data.liquidity = BigInt(liqDecoded[0]);
@@ -416,30 +942,190 @@ export class PriceMonitor extends EventEmitter {
       }
     }
 
+    await this.refreshTickLiquidity(pools, poolData, blockNumber);
+    const lbBins = await this.loadLBBins(pools, poolData, blockNumber, blockHash !== undefined ? blockNumber : undefined);
+    const activeBins = await this.loadActiveLBBins(pools, poolData, lbBins, blockHash !== undefined ? blockNumber : undefined);
+    await this.refreshPriceReferences(pools, blockHash !== undefined ? blockNumber : undefined);
+
     // Build and emit enriched snapshots
     for (const [poolIndex, data] of poolData) {
-      const pool = this.config.pools[poolIndex];
-      const key = pool.poolAddress.toLowerCase();
+      const pool = pools[poolIndex];
+      const key = poolStateKey(pool);
+      const tickLiquidity = data.tick !== undefined ? this.tickLoader.get(key, data.tick) : undefined;
+      const bins = lbBins.get(key);
 
-      const snapshot: PriceSnapshot = {
+      const snapshot = this.checkLiquidity(this.checkPriceSanity({
         pool,
         price: data.price,
         inversePrice: 1 / data.price,
         blockNumber,
+        ...(blockHash !== undefined && { blockHash }),
         timestamp: Date.now(),
         ...(data.reserves && { reserves: data.reserves }),
+        ...(data.camelotV2 && { camelotV2: data.camelotV2 }),
         ...(data.liquidity !== undefined && { liquidity: data.liquidity }),
         ...(data.sqrtPriceX96 !== undefined && { sqrtPriceX96: data.sqrtPriceX96 }),
+        ...(data.tick !== undefined && { tick: data.tick }),
+        ...(tickLiquidity && { tickLiquidity }),
         ...(data.activeId !== undefined && { activeId: data.activeId }),
-      };
-
+        ...(bins && { lbBins: bins }),
+        ...(data.lbFee !== undefined && { lbFee: data.lbFee }),
+        ...(data.lpFee !== undefined && { lpFee: data.lpFee }),
+        ...(data.algebraFees && { algebraFees: data.algebraFees }),
+        ...(data.stableSwap && { stableSwap: data.stableSwap }),
+        ...(data.balancer && { balancer: data.balancer }),
+      }), activeBins.get(key));
+
+      this.scheduler.recordRead(snapshot, this.snapshots.get(key));
       this.consecutiveErrors.set(key, 0);
       this.snapshots.set(key, snapshot);
       freshPools.add(key);
       this.emit("priceUpdate", snapshot);
     }
 
-    this.detectOpportunities(freshPools);
+    this.detectOpportunities(this.withScheduledPools(freshPools));
+  }
+
+  /**
+   * Re-read tick bitmap windows for V3 pools whose cached window is missing,
+   * expired, or no longer centered on the current tick. Non-critical: on
+   * failure slippage falls back to the in-range liquidity model.
+   */
+  private async refreshTickLiquidity(
+    pools: PoolConfig[],
+    poolData: Map<number, { tick?: number }>,
+    blockNumber: number,
+  ): Promise<void> {
+    if (this.config.tickBitmapWords <= 0) return;
+
+    const stale: Array<{ pool: PoolConfig; tick: number }> = [];
+    for (const [poolIndex, data] of poolData) {
+      const pool = pools[poolIndex];
+      // V4 tick bitmaps live in the PoolManager — V4 pools use the in-range liquidity model
+      if (!this.isV3Pool(pool)) continue;
+      if (data.tick !== undefined && this.tickLoader.needsRefresh(pool, data.tick)) {
+        stale.push({ pool, tick: data.tick });
+      }
+    }
+
+    try {
+      await this.tickLoader.refresh(stale, blockNumber);
+    } catch {
+      // Keep previously cached windows
+    }
+  }
+
+  /**
+   * Read bin reserves around the active bin of every LB pool in this poll.
+   * Non-critical: on failure LB slippage falls back to the static model and
+   * the per-DEX input cap.
+   */
+  private async loadLBBins(
+    pools: PoolConfig[],
+    poolData: Map<number, { activeId?: number }>,
+    blockNumber: number,
+    blockTag?: number,
+  ): Promise<Map<string, LBBinLiquidity>> {
+    if (this.config.lbBinsPerSide <= 0) return new Map();
+
+    const entries: Array<{ pool: PoolConfig; activeId: number }> = [];
+    for (const [poolIndex, data] of poolData) {
+      if (data.activeId !== undefined) {
+        entries.push({ pool: pools[poolIndex], activeId: data.activeId });
+      }
+    }
+
+    try {
+      return await this.binLoader.load(entries, blockNumber, blockTag);
+    } catch {
+      return new Map();
+    }
+  }
+
+  /**
+   * Read the active bin of LB pools the liquidity floor applies to but whose
+   * bins were not walked this poll. Non-critical: on failure the pool's
+   * viability is left as it was.
+   */
+  private async loadActiveLBBins(
+    pools: PoolConfig[],
+    poolData: Map<number, { activeId?: number }>,
+    walked: Map<string, LBBinLiquidity>,
+    blockTag?: number,
+  ): Promise<Map<string, LBBin>> {
+    if (!this.liquidityGuard.enabled) return new Map();
+
+    const entries: Array<{ pool: PoolConfig; activeId: number }> = [];
+    for (const [poolIndex, data] of poolData) {
+      const pool = pools[poolIndex];
+      if (data.activeId === undefined || walked.has(poolStateKey(pool))) continue;
+      if (this.liquidityGuard.floorFor(pool) > 0) entries.push({ pool, activeId: data.activeId });
+    }
+
+    try {
+      return await this.binLoader.loadActive(entries, blockTag);
+    } catch {
+      return new Map();
+    }
+  }
+
+  /**
+   * Add the pools the scheduler skipped this poll whose last read is still
+   * current, so spreads against quiet pools are still detected. Pools held
+   * back by the RPC budget or failing reads are left out.
+   */
+  private withScheduledPools(freshPools: Set<string>): Set<string> {
+    for (const [key, snapshot] of this.snapshots) {
+      if (freshPools.has(key) || this._predatesGap(snapshot)) continue;
+      if ((this.consecutiveErrors.get(key) ?? 0) > 0) continue;
+      if (this.scheduler.isCurrent(snapshot.pool)) freshPools.add(key);
+    }
+    return freshPools;
+  }
+
+  /** Calls one pool's read takes in a Multicall3 batch, for the RPC budget */
+  private callCountForPool(pool: PoolConfig): number {
+    const liquidity = this.isV3Pool(pool) || pool.dex === "uniswap_v4" ? 1 : 0;
+    return 1 + liquidity + this.getExtraCallDataForPool(pool).length;
+  }
+
+  /**
+   * Re-read the TWAP and oracle prices spot prices are checked against.
+   * Non-critical: on failure snapshots are checked against the last references read.
+   */
+  private async refreshPriceReferences(pools: PoolConfig[], blockTag?: number): Promise<void> {
+    try {
+      await this.sanityGuard.refresh(pools, blockTag);
+    } catch {
+      // Keep previously read references
+    }
+  }
+
+  /**
+   * Flag a snapshot whose spot price strays from its references beyond the
+   * pair's band. Clears a flag carried over from the previous snapshot.
+   */
+  private checkPriceSanity(snapshot: PriceSnapshot): PriceSnapshot {
+    const flag = this.sanityGuard.check(snapshot);
+    if (flag) return { ...snapshot, suspectedManipulation: flag };
+    if (snapshot.suspectedManipulation === undefined) return snapshot;
+    return { ...snapshot, suspectedManipulation: undefined };
+  }
+
+  /**
+   * Measure a snapshot's WETH-side liquidity against its floor and emit
+   * `lowLiquidity` / `liquidityRestored` when the pool's viability changes.
+   * Non-viable pools keep their snapshots but take no part in detection.
+   */
+  private checkLiquidity(snapshot: PriceSnapshot, activeBin?: LBBin): PriceSnapshot {
+    const { snapshot: measured, transition } = this.liquidityGuard.assess(snapshot, activeBin);
+    if (transition) this.emit(transition.event, transition.viability);
+    return measured;
+  }
+
+  /** Get the contract the price call for a pool is sent to (Balancer balances live in the Vault) */
+  private getCallTargetForPool(pool: PoolConfig): string {
+    return pool.dex === "balancer_v2" ? BALANCER_VAULT_ADDRESS : pool.poolAddress;
   }
 
   /** Get the encoded call data for reading price from a pool */
@@ -453,15 +1139,82 @@ export class PriceMonitor extends EventEmitter {
     if (pool.dex === "uniswap_v3" || pool.dex === "sushiswap_v3" || pool.dex === "ramses_v3") {
       return v3Iface.encodeFunctionData("slot0");
     }
+    if (pool.dex === "curve_stableswap") {
+      return curveIface.encodeFunctionData("A");
+    }
+    if (pool.dex === "balancer_v2") {
+      return balancerVaultIface.encodeFunctionData("getPoolTokens", [this.balancerPoolId(pool)]);
+    }
+    if (pool.dex === "uniswap_v4") {
+      return stateViewIface.encodeFunctionData("getSlot0", [this.v4PoolId(pool)]);
+    }
     return v2Iface.encodeFunctionData("getReserves");
   }
 
-  /** Decode price and liquidity data from raw return data based on pool's DEX type */
-  private decodePriceFromResult(pool: PoolConfig, returnData: string): {
+  /**
+   * Get the encoded calls, sent to the pool itself, that complete the state
+   * behind the price call:
+   * - Curve: fee() + balances(k) for every coin
+   * - Balancer weighted: getSwapFeePercentage() + getNormalizedWeights()
+   * - Balancer stable: getSwapFeePercentage() + getAmplificationParameter() + getScalingFactors()
+   * - Trader Joe LB: getStaticFeeParameters() + getVariableFeeParameters()
+   * - Ramses V3: fee()
+   * - Camelot V2: token0FeePercent() + token1FeePercent() + stableSwap()
+   */
+  private getExtraCallDataForPool(pool: PoolConfig): string[] {
+    if (pool.dex === "camelot_v2") {
+      return [
+        camelotPairIface.encodeFunctionData("token0FeePercent"),
+        camelotPairIface.encodeFunctionData("token1FeePercent"),
+        camelotPairIface.encodeFunctionData("stableSwap"),
+      ];
+    }
+    if (pool.dex === "ramses_v3") {
+      return [ramsesIface.encodeFunctionData("fee")];
+    }
+    if (pool.dex === "traderjoe_lb") {
+      return [
+        lbPairIface.encodeFunctionData("getStaticFeeParameters"),
+        lbPairIface.encodeFunctionData("getVariableFeeParameters"),
+      ];
+    }
+    if (pool.dex === "curve_stableswap") {
+      return [
+        curveIface.encodeFunctionData("fee"),
+        ...this.stableSwapDecimals(pool).map((_, k) => curveIface.encodeFunctionData("balances", [k])),
+      ];
+    }
+    if (pool.dex === "balancer_v2") {
+      const fee = balancerPoolIface.encodeFunctionData("getSwapFeePercentage");
+      if (pool.balancerPoolType === "stable") {
+        return [
+          fee,
+          balancerPoolIface.encodeFunctionData("getAmplificationParameter"),
+          balancerPoolIface.encodeFunctionData("getScalingFactors"),
+        ];
+      }
+      return [fee, balancerPoolIface.encodeFunctionData("getNormalizedWeights")];
+    }
+    return [];
+  }
+
+  /**
+   * Decode price and liquidity data from raw return data based on pool's DEX type.
+   * Curve and Balancer pools also need the results of their extra calls (`extraResults`);
+   * for Trader Joe LB, Ramses V3 and Camelot V2 pools they are optional fee reads.
+   */
+  private decodePriceFromResult(pool: PoolConfig, returnData: string, extraResults?: MulticallResult[]): {
     price: number;
     reserves?: [bigint, bigint];
+    camelotV2?: CamelotPairFees;
     sqrtPriceX96?: bigint;
+    tick?: number;
     activeId?: number;
+    lbFee?: bigint;
+    lpFee?: number;
+    algebraFees?: { zeroForOne: number; oneForZero: number };
+    stableSwap?: StableSwapCurve;
+    balancer?: BalancerPoolState;
   } {
     if (pool.dex === "traderjoe_lb") {
       const decoded = lbPairIface.decodeFunctionResult("getActiveId", returnData);
@@ -473,7 +1226,16 @@ export class PriceMonitor extends EventEmitter {
       if (pool.invertPrice) {
         price = price > 0 ? 1 / price : 0;
       }
-      return { price, activeId };
+      // Fee parameters are non-critical: without them the detector uses its buffered estimate
+      if (!extraResults || extraResults.some((r) => !r.success)) {
+        return { price, activeId };
+      }
+      const [staticResult, variableResult] = extraResults;
+      const feeParams = this.toLBFeeParameters(
+        lbPairIface.decodeFunctionResult("getStaticFeeParameters", staticResult.returnData),
+        lbPairIface.decodeFunctionResult("getVariableFeeParameters", variableResult.returnData),
+      );
+      return { price, activeId, lbFee: lbTotalFee(feeParams, pool.feeTier, activeId, Math.floor(Date.now() / 1000)) };
     }
     if (pool.dex === "camelot_v3") {
       const decoded = algebraIface.decodeFunctionResult(
@@ -484,20 +1246,89 @@ export class PriceMonitor extends EventEmitter {
       return {
         price: this.calculateV3Price(sqrtPriceX96, pool.decimals0, pool.decimals1),
         sqrtPriceX96,
+        tick: Number(decoded[1]),
+        algebraFees: { zeroForOne: Number(decoded[2]), oneForZero: Number(decoded[3]) },
       };
     }
     if (pool.dex === "uniswap_v3" || pool.dex === "sushiswap_v3" || pool.dex === "ramses_v3") {
       const decoded = v3Iface.decodeFunctionResult("slot0", returnData);
       const sqrtPriceX96 = BigInt(decoded[0]);
+      // Ramses fee() is non-critical: without it the detector uses feeTier
+      const feeResult = pool.dex === "ramses_v3" ? extraResults?.[0] : undefined;
+      return {
+        price: this.calculateV3Price(sqrtPriceX96, pool.decimals0, pool.decimals1),
+        sqrtPriceX96,
+        tick: Number(decoded[1]),
+        ...(feeResult?.success && {
+          lpFee: Number(ramsesIface.decodeFunctionResult("fee", feeResult.returnData)[0]),
+        }),
+      };
+    }
+    if (pool.dex === "uniswap_v4") {
+      const decoded = stateViewIface.decodeFunctionResult("getSlot0", returnData);
+      const sqrtPriceX96 = BigInt(decoded[0]);
       return {
         price: this.calculateV3Price(sqrtPriceX96, pool.decimals0, pool.decimals1),
         sqrtPriceX96,
+        tick: Number(decoded[1]),
+        lpFee: Number(decoded[3]),
       };
     }
+    if (pool.dex === "curve_stableswap") {
+      if (!extraResults || extraResults.some((r) => !r.success)) {
+        throw new Error(`Multicall failed for ${pool.label} fee/balances`);
+      }
+      const [feeResult, ...balanceResults] = extraResults;
+      const stableSwap: StableSwapCurve = {
+        balances: balanceResults.map((r) => BigInt(curveIface.decodeFunctionResult("balances", r.returnData)[0])),
+        decimals: this.stableSwapDecimals(pool),
+        amp: BigInt(curveIface.decodeFunctionResult("A", returnData)[0]),
+        fee: BigInt(curveIface.decodeFunctionResult("fee", feeResult.returnData)[0]),
+      };
+      return { price: this.calculateStableSwapPrice(pool, stableSwap), stableSwap };
+    }
+    if (pool.dex === "balancer_v2") {
+      if (!extraResults || extraResults.some((r) => !r.success)) {
+        throw new Error(`Multicall failed for ${pool.label} pool parameters`);
+      }
+      const [tokens, balances] = balancerVaultIface.decodeFunctionResult("getPoolTokens", returnData);
+      const [feeResult, ...paramResults] = extraResults;
+      const swapFee = BigInt(balancerPoolIface.decodeFunctionResult("getSwapFeePercentage", feeResult.returnData)[0]);
+      let balancer: BalancerPoolState;
+      if (pool.balancerPoolType === "stable") {
+        const [ampResult, scalingResult] = paramResults;
+        const amp = balancerPoolIface.decodeFunctionResult("getAmplificationParameter", ampResult.returnData);
+        const scalingFactors = balancerPoolIface.decodeFunctionResult("getScalingFactors", scalingResult.returnData)[0];
+        balancer = this.toBalancerState(pool, tokens, balances, swapFee, {
+          amp: BigInt(amp[0]),
+          ampPrecision: BigInt(amp[2]),
+          scalingFactors: Array.from(scalingFactors, (f: bigint) => BigInt(f)),
+        });
+      } else {
+        const weights = balancerPoolIface.decodeFunctionResult("getNormalizedWeights", paramResults[0].returnData)[0];
+        balancer = this.toBalancerState(pool, tokens, balances, swapFee, {
+          weights: Array.from(weights, (w: bigint) => BigInt(w)),
+        });
+      }
+      return { price: this.calculateBalancerPrice(pool, balancer), balancer };
+    }
     const decoded = v2Iface.decodeFunctionResult("getReserves", returnData);
     const reserve0 = BigInt(decoded[0]);
     const reserve1 = BigInt(decoded[1]);
-    this.checkV2Liquidity(pool, reserve0, reserve1);
+    // Camelot pair settings are non-critical: without them the pair is priced as a 0.3% volatile pair
+    if (pool.dex === "camelot_v2" && extraResults && extraResults.every((r) => r.success)) {
+      const [fee0Result, fee1Result, stableResult] = extraResults;
+      const camelotV2: CamelotPairFees = {
+        token0FeePercent: Number(camelotPairIface.decodeFunctionResult("token0FeePercent", fee0Result.returnData)[0]),
+        token1FeePercent: Number(camelotPairIface.decodeFunctionResult("token1FeePercent", fee1Result.returnData)[0]),
+        stableSwap: Boolean(camelotPairIface.decodeFunctionResult("stableSwap", stableResult.returnData)[0]),
+      };
+      return {
+        price: this.calculateCamelotV2Price(pool, [reserve0, reserve1], camelotV2),
+        reserves: [reserve0, reserve1],
+        camelotV2,
+      };
+    }
     return {
       price: this.calculateV2Price(reserve0, reserve1, pool.decimals0, pool.decimals1),
       reserves: [reserve0, reserve1],
@@ -506,7 +1337,7 @@ export class PriceMonitor extends EventEmitter {
 
   /** Check if a pool uses V3-style concentrated liquidity */
   private isV3Pool(pool: PoolConfig): boolean {
-    return pool.dex === "uniswap_v3" || pool.dex === "sushiswap_v3" || pool.dex === "camelot_v3" || pool.dex === "ramses_v3";
+    return isV3Protocol(pool);
   }
 
   /** Fetch the current price from a single pool */
@@ -519,6 +1350,7 @@ export class PriceMonitor extends EventEmitter {
         pool, price: data.price, inversePrice: 1 / data.price,
         blockNumber, timestamp: Date.now(),
         activeId: data.activeId,
+        ...(data.lbFee !== undefined && { lbFee: data.lbFee }),
       };
     }
 
@@ -528,6 +1360,8 @@ export class PriceMonitor extends EventEmitter {
         pool, price: data.price, inversePrice: 1 / data.price,
         blockNumber, timestamp: Date.now(),
         sqrtPriceX96: data.sqrtPriceX96, liquidity: data.liquidity,
+        tick: data.tick, tickLiquidity: this.tickLoader.get(pool.poolAddress, data.tick),
+        algebraFees: data.algebraFees,
       };
     }
 
@@ -537,6 +1371,38 @@ export class PriceMonitor extends EventEmitter {
         pool, price: data.price, inversePrice: 1 / data.price,
         blockNumber, timestamp: Date.now(),
         sqrtPriceX96: data.sqrtPriceX96, liquidity: data.liquidity,
+        tick: data.tick, tickLiquidity: this.tickLoader.get(pool.poolAddress, data.tick),
+        ...(data.lpFee !== undefined && { lpFee: data.lpFee }),
+      };
+    }
+
+    if (pool.dex === "uniswap_v4") {
+      const data = await this.fetchV4Price(pool);
+      return {
+        pool, price: data.price, inversePrice: 1 / data.price,
+        blockNumber, timestamp: Date.now(),
+        sqrtPriceX96: data.sqrtPriceX96, liquidity: data.liquidity,
+        tick: data.tick, lpFee: data.lpFee,
+      };
+    }
+
+    if (pool.dex === "curve_stableswap") {
+      const stableSwap = await this.fetchStableSwapState(pool);
+      const price = this.calculateStableSwapPrice(pool, stableSwap);
+      return {
+        pool, price, inversePrice: 1 / price,
+        blockNumber, timestamp: Date.now(),
+        stableSwap,
+      };
+    }
+
+    if (pool.dex === "balancer_v2") {
+      const balancer = await this.fetchBalancerState(pool);
+      const price = this.calculateBalancerPrice(pool, balancer);
+      return {
+        pool, price, inversePrice: 1 / price,
+        blockNumber, timestamp: Date.now(),
+        balancer,
       };
     }
 
@@ -546,11 +1412,16 @@ export class PriceMonitor extends EventEmitter {
       pool, price: data.price, inversePrice: 1 / data.price,
       blockNumber, timestamp: Date.now(),
       reserves: data.reserves,
+      ...(data.camelotV2 && { camelotV2: data.camelotV2 }),
     };
   }
 
-  /** Read reserves from a Uniswap V2-style pair */
-  private async fetchV2Price(pool: PoolConfig): Promise<{ price: number; reserves: [bigint, bigint] }> {
+  /** Read reserves from a Uniswap V2-style pair, plus fees and curve for Camelot V2 */
+  private async fetchV2Price(pool: PoolConfig): Promise<{
+    price: number;
+    reserves: [bigint, bigint];
+    camelotV2?: CamelotPairFees;
+  }> {
     const contract = new Contract(
       pool.poolAddress,
       UNISWAP_V2_PAIR_ABI,
@@ -559,7 +1430,26 @@ export class PriceMonitor extends EventEmitter {
     const [reserve0, reserve1] = await contract.getReserves();
     const r0 = BigInt(reserve0);
     const r1 = BigInt(reserve1);
-    this.checkV2Liquidity(pool, r0, r1);
+
+    if (pool.dex === "camelot_v2") {
+      try {
+        const pair = new Contract(pool.poolAddress, CAMELOT_V2_PAIR_ABI, this.config.provider);
+        const [fee0, fee1, stable] = await Promise.all([
+          pair.token0FeePercent(),
+          pair.token1FeePercent(),
+          pair.stableSwap(),
+        ]);
+        const camelotV2: CamelotPairFees = {
+          token0FeePercent: Number(fee0),
+          token1FeePercent: Number(fee1),
+          stableSwap: Boolean(stable),
+        };
+        return { price: this.calculateCamelotV2Price(pool, [r0, r1], camelotV2), reserves: [r0, r1], camelotV2 };
+      } catch {
+        // Non-critical — priced as a 0.3% volatile pair
+      }
+    }
+
     return {
       price: this.calculateV2Price(r0, r1, pool.decimals0, pool.decimals1),
       reserves: [r0, r1],
@@ -567,32 +1457,56 @@ export class PriceMonitor extends EventEmitter {
   }
 
   /** Read sqrtPriceX96 from a Uniswap V3-style pool */
-  private async fetchV3Price(pool: PoolConfig): Promise<{ price: number; sqrtPriceX96: bigint; liquidity?: bigint }> {
+  private async fetchV3Price(pool: PoolConfig): Promise<{
+    price: number;
+    sqrtPriceX96: bigint;
+    tick: number;
+    liquidity?: bigint;
+    lpFee?: number;
+  }> {
     const contract = new Contract(
       pool.poolAddress,
       UNISWAP_V3_POOL_ABI,
       this.config.provider,
     );
-    const [sqrtPriceX96Raw] = await contract.slot0();
+    const [sqrtPriceX96Raw, tick] = await contract.slot0();
     const sqrtPriceX96 = BigInt(sqrtPriceX96Raw);
 
     const liquidity = await this.fetchLiquidity(pool);
 
+    let lpFee: number | undefined;
+    if (pool.dex === "ramses_v3") {
+      try {
+        const ramses = new Contract(pool.poolAddress, RAMSES_V3_POOL_ABI, this.config.provider);
+        lpFee = Number(await ramses.fee());
+      } catch {
+        // Non-critical — the detector falls back to feeTier
+      }
+    }
+
     return {
       price: this.calculateV3Price(sqrtPriceX96, pool.decimals0, pool.decimals1),
       sqrtPriceX96,
+      tick: Number(tick),
       liquidity,
+      lpFee,
     };
   }
 
-  /** Read sqrtPriceX96 from an Algebra V3-style pool (Camelot V3) */
-  private async fetchAlgebraPrice(pool: PoolConfig): Promise<{ price: number; sqrtPriceX96: bigint; liquidity?: bigint }> {
+  /** Read sqrtPriceX96 and directional fees from an Algebra V3-style pool (Camelot V3) */
+  private async fetchAlgebraPrice(pool: PoolConfig): Promise<{
+    price: number;
+    sqrtPriceX96: bigint;
+    tick: number;
+    liquidity?: bigint;
+    algebraFees: { zeroForOne: number; oneForZero: number };
+  }> {
     const contract = new Contract(
       pool.poolAddress,
       ALGEBRA_V3_POOL_ABI,
       this.config.provider,
     );
-    const [sqrtPriceX96Raw] = await contract.globalState();
+    const [sqrtPriceX96Raw, tick, feeZto, feeOtz] = await contract.globalState();
     const sqrtPriceX96 = BigInt(sqrtPriceX96Raw);
 
     const liquidity = await this.fetchLiquidity(pool);
@@ -600,12 +1514,55 @@ export class PriceMonitor extends EventEmitter {
     return {
       price: this.calculateV3Price(sqrtPriceX96, pool.decimals0, pool.decimals1),
       sqrtPriceX96,
+      tick: Number(tick),
+      liquidity,
+      algebraFees: { zeroForOne: Number(feeZto), oneForZero: Number(feeOtz) },
+    };
+  }
+
+  /** Read slot0 and in-range liquidity of a Uniswap V4 pool through StateView */
+  private async fetchV4Price(pool: PoolConfig): Promise<{
+    price: number;
+    sqrtPriceX96: bigint;
+    tick: number;
+    lpFee: number;
+    liquidity?: bigint;
+  }> {
+    const contract = new Contract(
+      pool.poolAddress,
+      V4_STATE_VIEW_ABI,
+      this.config.provider,
+    );
+    const poolId = this.v4PoolId(pool);
+    const [sqrtPriceX96Raw, tick, , lpFee] = await contract.getSlot0(poolId);
+    const sqrtPriceX96 = BigInt(sqrtPriceX96Raw);
+
+    let liquidity: bigint | undefined;
+    try {
+      liquidity = BigInt(await contract.getLiquidity(poolId));
+    } catch {
+      // Non-critical — slippage estimation falls back to static model
+    }
+
+    return {
+      price: this.calculateV3Price(sqrtPriceX96, pool.decimals0, pool.decimals1),
+      sqrtPriceX96,
+      tick: Number(tick),
+      lpFee: Number(lpFee),
       liquidity,
     };
   }
 
-  /** Read active bin ID from a Trader Joe LB pair */
-  private async fetchLBPrice(pool: PoolConfig): Promise<{ price: number; activeId: number }> {
+  /** The PoolId of a Uniswap V4 pool */
+  private v4PoolId(pool: PoolConfig): string {
+    if (!pool.poolId) {
+      throw new Error(`Uniswap V4 pool ${pool.label} missing poolId`);
+    }
+    return pool.poolId;
+  }
+
+  /** Read active bin ID and fee parameters from a Trader Joe LB pair */
+  private async fetchLBPrice(pool: PoolConfig): Promise<{ price: number; activeId: number; lbFee?: bigint }> {
     const contract = new Contract(
       pool.poolAddress,
       TRADER_JOE_LB_PAIR_ABI,
@@ -627,7 +1584,139 @@ export class PriceMonitor extends EventEmitter {
       price = price > 0 ? 1 / price : 0;
     }
 
-    return { price, activeId: activeIdNum };
+    // Fee parameters are non-critical: without them the detector uses its buffered estimate
+    let lbFee: bigint | undefined;
+    try {
+      const [staticParams, variableParams] = await Promise.all([
+        contract.getStaticFeeParameters(),
+        contract.getVariableFeeParameters(),
+      ]);
+      const feeParams = this.toLBFeeParameters(staticParams, variableParams);
+      lbFee = lbTotalFee(feeParams, pool.feeTier, activeIdNum, Math.floor(Date.now() / 1000));
+    } catch {
+      // Keep the estimate
+    }
+
+    return { price, activeId: activeIdNum, lbFee };
+  }
+
+  /** Combine decoded getStaticFeeParameters() and getVariableFeeParameters() results */
+  private toLBFeeParameters(
+    staticParams: ArrayLike<bigint | number>,
+    variableParams: ArrayLike<bigint | number>,
+  ): LBFeeParameters {
+    return {
+      baseFactor: Number(staticParams[0]),
+      filterPeriod: Number(staticParams[1]),
+      decayPeriod: Number(staticParams[2]),
+      reductionFactor: Number(staticParams[3]),
+      variableFeeControl: Number(staticParams[4]),
+      maxVolatilityAccumulator: Number(staticParams[6]),
+      volatilityAccumulator: Number(variableParams[0]),
+      volatilityReference: Number(variableParams[1]),
+      idReference: Number(variableParams[2]),
+      timeOfLastUpdate: Number(variableParams[3]),
+    };
+  }
+
+  /** Read balances, A and fee from a Curve StableSwap pool */
+  private async fetchStableSwapState(pool: PoolConfig): Promise<StableSwapCurve> {
+    const contract = new Contract(
+      pool.poolAddress,
+      CURVE_STABLESWAP_ABI,
+      this.config.provider,
+    );
+    const decimals = this.stableSwapDecimals(pool);
+    const [amp, fee, ...balances] = await Promise.all([
+      contract.A(),
+      contract.fee(),
+      ...decimals.map((_, k) => contract.balances(k)),
+    ]);
+    return {
+      balances: balances.map((b) => BigInt(b)),
+      decimals,
+      amp: BigInt(amp),
+      fee: BigInt(fee),
+    };
+  }
+
+  /**
+   * Decimals of every coin of a Curve pool, in Curve coin order.
+   * Two-coin pools are described by token0/token1 and `coinIndices`;
+   * larger pools must list `coinDecimals`.
+   */
+  private stableSwapDecimals(pool: PoolConfig): number[] {
+    if (pool.coinDecimals) return pool.coinDecimals;
+    const [i, j] = pool.coinIndices ?? [0, 1];
+    if (!((i === 0 && j === 1) || (i === 1 && j === 0))) {
+      throw new Error(`Curve pool ${pool.label} needs coinDecimals for coin indices ${i}/${j}`);
+    }
+    const decimals: number[] = [];
+    decimals[i] = pool.decimals0;
+    decimals[j] = pool.decimals1;
+    return decimals;
+  }
+
+  /** Read tokens and balances from the Balancer Vault plus fee and weights or amp from the pool */
+  private async fetchBalancerState(pool: PoolConfig): Promise<BalancerPoolState> {
+    const vault = new Contract(BALANCER_VAULT_ADDRESS, BALANCER_VAULT_ABI, this.config.provider);
+    const contract = new Contract(pool.poolAddress, BALANCER_POOL_ABI, this.config.provider);
+    const [[tokens, balances], swapFee] = await Promise.all([
+      vault.getPoolTokens(this.balancerPoolId(pool)),
+      contract.getSwapFeePercentage(),
+    ]);
+
+    if (pool.balancerPoolType === "stable") {
+      const [amp, scalingFactors] = await Promise.all([
+        contract.getAmplificationParameter(),
+        contract.getScalingFactors(),
+      ]);
+      return this.toBalancerState(pool, tokens, balances, BigInt(swapFee), {
+        amp: BigInt(amp[0]),
+        ampPrecision: BigInt(amp[2]),
+        scalingFactors: Array.from(scalingFactors, (f: bigint) => BigInt(f)),
+      });
+    }
+    const weights = await contract.getNormalizedWeights();
+    return this.toBalancerState(pool, tokens, balances, BigInt(swapFee), {
+      weights: Array.from(weights, (w: bigint) => BigInt(w)),
+    });
+  }
+
+  /** The Vault pool ID of a Balancer pool */
+  private balancerPoolId(pool: PoolConfig): string {
+    if (!pool.poolId) {
+      throw new Error(`Balancer pool ${pool.label} missing poolId`);
+    }
+    return pool.poolId;
+  }
+
+  /**
+   * Assemble Balancer pool state from Vault and pool reads. Composable stable
+   * pools list their own BPT among the Vault tokens (and scaling factors);
+   * it is dropped so indices refer to swappable tokens only.
+   */
+  private toBalancerState(
+    pool: PoolConfig,
+    tokens: readonly string[],
+    balances: readonly bigint[],
+    swapFee: bigint,
+    params: Pick<BalancerPoolState, "weights" | "amp" | "ampPrecision" | "scalingFactors">,
+  ): BalancerPoolState {
+    const bpt = pool.poolAddress.toLowerCase();
+    const keep = tokens.map((t) => t.toLowerCase() !== bpt);
+    const state: BalancerPoolState = {
+      tokens: tokens.filter((_, k) => keep[k]),
+      balances: balances.filter((_, k) => keep[k]).map((b) => BigInt(b)),
+      swapFee,
+    };
+    if (params.weights) state.weights = params.weights;
+    if (params.amp !== undefined) {
+      state.amp = params.amp;
+      state.ampPrecision = params.ampPrecision;
+      state.scalingFactors = params.scalingFactors?.filter((_, k) => keep[k]);
+    }
+    return state;
   }
 
   /** Fetch in-range liquidity from a V3 pool (non-critical, returns undefined on failure) */
@@ -713,48 +1802,61 @@ export class PriceMonitor extends EventEmitter {
   }
 
   /**
-   * Check that a V2 pool has sufficient WETH liquidity for viable arbitrage.
-   * Throws if the WETH-side reserve is below the configured minimum,
-   * preventing thin pools from generating false positive opportunities.
+   * Calculate price from Curve StableSwap state: the marginal rate of token0
+   * in token1 on the invariant curve, before the swap fee.
    */
-  private checkV2Liquidity(pool: PoolConfig, reserve0: bigint, reserve1: bigint): void {
-    const minReserve = this.config.minReserveWeth;
-    const wethAddr = this.config.wethAddress?.toLowerCase();
-    if (!minReserve || !wethAddr) return;
-
-    let wethReserve: number;
-    if (pool.token0.toLowerCase() === wethAddr) {
-      wethReserve = Number(reserve0) / 1e18;
-    } else if (pool.token1.toLowerCase() === wethAddr) {
-      wethReserve = Number(reserve1) / 1e18;
-    } else {
-      return; // Not a WETH pair, skip check
-    }
-
-    if (wethReserve < minReserve) {
-      throw new Error(
-        `Low liquidity: ${pool.label} has ${wethReserve.toFixed(2)} WETH (min: ${minReserve})`,
-      );
+  calculateStableSwapPrice(pool: PoolConfig, stableSwap: StableSwapCurve): number {
+    const [i, j] = pool.coinIndices ?? [0, 1];
+    return stableSwapSpotPrice(stableSwap, i, j);
+  }
+
+  /**
+   * Calculate price from Balancer pool state: the marginal rate of token0 in
+   * token1 under weighted or stable math, before the swap fee.
+   */
+  calculateBalancerPrice(pool: PoolConfig, balancer: BalancerPoolState): number {
+    const tokens = balancer.tokens.map((t) => t.toLowerCase());
+    const i = tokens.indexOf(pool.token0.toLowerCase());
+    const j = tokens.indexOf(pool.token1.toLowerCase());
+    if (i < 0 || j < 0) {
+      throw new Error(`Balancer pool ${pool.label} does not hold ${i < 0 ? pool.token0 : pool.token1}`);
     }
+    return balancerSpotPrice(balancer, i, j, pool.decimals0, pool.decimals1);
+  }
+
+  /**
+   * Calculate a Camelot V2 pair's price: the reserve ratio for volatile pairs,
+   * the marginal price of the x³y + xy³ invariant for stable pairs.
+   */
+  calculateCamelotV2Price(pool: PoolConfig, reserves: [bigint, bigint], fees: CamelotPairFees): number {
+    return camelotSpotPrice({ ...fees, reserves, decimals: [pool.decimals0, pool.decimals1] });
   }
 
   /**
    * Compare all pools with the same token pair and emit opportunity events.
    * Only considers pools that were successfully refreshed this cycle to
    * avoid phantom spreads from stale cached prices after RPC errors.
+   * The compared snapshots are emitted as `snapshotsCompared` for searches
+   * that span pairs (e.g. the detector's cycle search).
    */
   private detectOpportunities(freshPools: Set<string>): void {
     // Group snapshots by token pair, only including pools refreshed this cycle
     const pairGroups = new Map<string, PriceSnapshot[]>();
+    const compared: PriceSnapshot[] = [];
 
     for (const snapshot of this.snapshots.values()) {
-      if (!freshPools.has(snapshot.pool.poolAddress.toLowerCase())) continue;
+      const poolKey = poolStateKey(snapshot.pool);
+      if (!freshPools.has(poolKey) || !this.liquidityGuard.isViable(poolKey)) continue;
+      compared.push(snapshot);
       const key = this.pairKey(snapshot.pool);
       const group = pairGroups.get(key) ?? [];
       group.push(snapshot);
       pairGroups.set(key, group);
     }
 
+    // Every delta of the pass carries its block, however old each pool's own snapshot
+    const detectionBlock = compared.reduce((max, s) => Math.max(max, s.blockNumber), 0);
+
     // For each pair with 2+ pools, find max delta
     for (const [pair, snapshots] of pairGroups) {
       if (snapshots.length < 2) continue;
@@ -772,10 +1874,15 @@ export class PriceMonitor extends EventEmitter {
       const deltaPercent =
         ((maxSnap.price - minSnap.price) / minSnap.price) * 100;
 
-      // Sanity check: spreads > 20% are almost certainly phantom (stale pool,
+      // Sanity check: very wide spreads are almost certainly phantom (stale pool,
       // misconfigured oracle, zero liquidity). Skip to prevent false execution.
-      const MAX_SANE_SPREAD = 20;
-      if (deltaPercent > MAX_SANE_SPREAD) continue;
+      // Narrower manipulated prices are flagged per snapshot by the sanity guard.
+      if (deltaPercent > this.config.maxSpreadPercent) continue;
+
+      // Spreads within reach of the threshold are read every poll while they last
+      if (deltaPercent >= this.config.deltaThresholdPercent / 2) {
+        this.scheduler.promote([minSnap.pool, maxSnap.pool]);
+      }
 
       if (deltaPercent >= this.config.deltaThresholdPercent) {
         const delta: PriceDelta = {
@@ -783,11 +1890,16 @@ export class PriceMonitor extends EventEmitter {
           buyPool: minSnap,
           sellPool: maxSnap,
           deltaPercent,
+          detectionBlock,
           timestamp: Date.now(),
         };
         this.emit("opportunity", delta);
       }
     }
+
+    if (compared.length > 0) {
+      this.emit("snapshotsCompared", compared);
+    }
   }
 
   /** Create a canonical key for a token pair, regardless of order */
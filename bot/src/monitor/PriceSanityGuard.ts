@@ -0,0 +1,213 @@
+import { Interface, type Provider } from "ethers";
+import { aggregate3, type MulticallRequest, type MulticallResult } from "./multicall.js";
+import { poolStateKey } from "./poolEvents.js";
+import type { OracleFeedConfig, PoolConfig, PriceSanityFlag, PriceSnapshot } from "./types.js";
+
+// Uniswap V3, SushiSwap V3 and Ramses V3 expose the Uniswap oracle
+const V3_ORACLE_ABI = [
+  "function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)",
+];
+
+// Algebra (Camelot V3) names it getTimepoints and returns more series
+const ALGEBRA_ORACLE_ABI = [
+  "function getTimepoints(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulatives, uint112[] volatilityCumulatives, uint256[] volumePerAvgLiquiditys)",
+];
+
+const CHAINLINK_AGGREGATOR_ABI = [
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  "function decimals() view returns (uint8)",
+];
+
+const v3OracleIface = new Interface(V3_ORACLE_ABI);
+const algebraOracleIface = new Interface(ALGEBRA_ORACLE_ABI);
+const aggregatorIface = new Interface(CHAINLINK_AGGREGATOR_ABI);
+
+/** Configuration for the PriceSanityGuard */
+export interface PriceSanityGuardConfig {
+  provider: Provider;
+  /** TWAP window (s); 0 disables the TWAP check */
+  twapWindowSeconds: number;
+  /** Chainlink feeds to check matching pairs against */
+  oracleFeeds: OracleFeedConfig[];
+  /** Oracle answers older than this (s) are ignored */
+  maxOracleAgeSeconds: number;
+  /** Allowed spot deviation (%) from a reference price */
+  maxDeviationPercent: number;
+  /** Per-pair overrides keyed "tokenA/tokenB" in any order and case */
+  pairDeviationPercent: Record<string, number>;
+}
+
+/** Oracle answer as a price of `base` in `quote` */
+interface OraclePrice {
+  base: string;
+  quote: string;
+  price: number;
+}
+
+/** Canonical pair key — the one PriceMonitor groups pools and names deltas by */
+function sanityPairKey(tokenA: string, tokenB: string): string {
+  const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+  return `${a}/${b}`;
+}
+
+/**
+ * Checks spot prices against references that a single transaction cannot move:
+ * each V3/Algebra pool's own TWAP and, where a feed is configured, the pair's
+ * Chainlink price.
+ *
+ * References are re-read by `refresh()` (one Multicall3 round per poll) and
+ * cached, so snapshots updated from pool logs between polls are checked
+ * against the last known references. A reference that cannot be read (short
+ * observation history, stale or failing feed) is dropped, never guessed.
+ */
+export class PriceSanityGuard {
+  private readonly config: PriceSanityGuardConfig;
+  private readonly pairBands = new Map<string, number>();
+  private readonly twapPrices = new Map<string, number>();
+  private readonly oraclePrices = new Map<number, OraclePrice>();
+
+  constructor(config: PriceSanityGuardConfig) {
+    this.config = config;
+    for (const [pair, band] of Object.entries(config.pairDeviationPercent)) {
+      const [a, b] = pair.split("/");
+      this.pairBands.set(sanityPairKey(a, b), band);
+    }
+  }
+
+  /** Whether any reference source is configured */
+  get enabled(): boolean {
+    return this.config.twapWindowSeconds > 0 || this.config.oracleFeeds.length > 0;
+  }
+
+  /** Allowed deviation (%) for a pool's pair */
+  bandFor(pool: PoolConfig): number {
+    return this.pairBands.get(sanityPairKey(pool.token0, pool.token1)) ?? this.config.maxDeviationPercent;
+  }
+
+  /**
+   * Re-read the TWAP of every V3/Algebra pool in `pools` and every oracle feed.
+   * Throws only if the multicall itself fails; cached references are kept then.
+   */
+  async refresh(pools: PoolConfig[], blockTag?: number): Promise<void> {
+    if (!this.enabled) return;
+
+    const twapPools = this.config.twapWindowSeconds > 0 ? pools.filter(hasTwap) : [];
+    const calls: MulticallRequest[] = twapPools.map((pool) => ({
+      target: pool.poolAddress,
+      allowFailure: true,
+      callData: this.encodeTwapCall(pool),
+    }));
+    for (const { feed } of this.config.oracleFeeds) {
+      calls.push(
+        { target: feed, allowFailure: true, callData: aggregatorIface.encodeFunctionData("latestRoundData") },
+        { target: feed, allowFailure: true, callData: aggregatorIface.encodeFunctionData("decimals") },
+      );
+    }
+    if (calls.length === 0) return;
+
+    const results = await aggregate3(this.config.provider, calls, blockTag);
+
+    twapPools.forEach((pool, i) => {
+      const key = poolStateKey(pool);
+      const price = this.decodeTwapPrice(pool, results[i]);
+      if (price !== undefined) this.twapPrices.set(key, price);
+      else this.twapPrices.delete(key);
+    });
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    this.config.oracleFeeds.forEach((feed, k) => {
+      const offset = twapPools.length + k * 2;
+      const price = this.decodeOraclePrice(results[offset], results[offset + 1], nowSeconds);
+      if (price !== undefined) this.oraclePrices.set(k, { base: feed.base, quote: feed.quote, price });
+      else this.oraclePrices.delete(k);
+    });
+  }
+
+  /**
+   * Compare a snapshot's spot price with its cached references. Returns the
+   * largest deviation beyond the pair's band, or undefined when the price is
+   * within band of every reference (or no reference is known).
+   */
+  check(snapshot: PriceSnapshot): PriceSanityFlag | undefined {
+    const pool = snapshot.pool;
+    const maxDeviationPercent = this.bandFor(pool);
+    let flag: PriceSanityFlag | undefined;
+
+    const consider = (source: PriceSanityFlag["source"], referencePrice: number): void => {
+      if (!(referencePrice > 0) || !Number.isFinite(referencePrice)) return;
+      const deviationPercent = (Math.abs(snapshot.price - referencePrice) / referencePrice) * 100;
+      if (deviationPercent <= maxDeviationPercent) return;
+      if (!flag || deviationPercent > flag.deviationPercent) {
+        flag = { source, referencePrice, deviationPercent, maxDeviationPercent };
+      }
+    };
+
+    const twap = this.twapPrices.get(poolStateKey(pool));
+    if (twap !== undefined) consider("twap", twap);
+
+    const token0 = pool.token0.toLowerCase();
+    const token1 = pool.token1.toLowerCase();
+    for (const oracle of this.oraclePrices.values()) {
+      const base = oracle.base.toLowerCase();
+      const quote = oracle.quote.toLowerCase();
+      if (base === token0 && quote === token1) consider("oracle", oracle.price);
+      else if (base === token1 && quote === token0) consider("oracle", 1 / oracle.price);
+    }
+
+    return flag;
+  }
+
+  /** observe / getTimepoints for [window, 0] seconds ago */
+  private encodeTwapCall(pool: PoolConfig): string {
+    const secondsAgos = [this.config.twapWindowSeconds, 0];
+    return pool.dex === "camelot_v3"
+      ? algebraOracleIface.encodeFunctionData("getTimepoints", [secondsAgos])
+      : v3OracleIface.encodeFunctionData("observe", [secondsAgos]);
+  }
+
+  /**
+   * Arithmetic mean tick over the window, rounded toward negative infinity
+   * like OracleLibrary.consult, as a decimal-adjusted token1-per-token0 price.
+   */
+  private decodeTwapPrice(pool: PoolConfig, result: MulticallResult): number | undefined {
+    if (!result.success) return undefined;
+    try {
+      const decoded = pool.dex === "camelot_v3"
+        ? algebraOracleIface.decodeFunctionResult("getTimepoints", result.returnData)
+        : v3OracleIface.decodeFunctionResult("observe", result.returnData);
+      const [older, newer] = (decoded[0] as bigint[]).map(BigInt);
+      const window = BigInt(this.config.twapWindowSeconds);
+      const delta = newer - older;
+      let meanTick = delta / window;
+      if (delta < 0n && delta % window !== 0n) meanTick--;
+      return 1.0001 ** Number(meanTick) * 10 ** (pool.decimals0 - pool.decimals1);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Positive, fresh, complete-round answers only */
+  private decodeOraclePrice(
+    roundResult: MulticallResult,
+    decimalsResult: MulticallResult,
+    nowSeconds: number,
+  ): number | undefined {
+    if (!roundResult.success || !decimalsResult.success) return undefined;
+    try {
+      const round = aggregatorIface.decodeFunctionResult("latestRoundData", roundResult.returnData);
+      const decimals = Number(aggregatorIface.decodeFunctionResult("decimals", decimalsResult.returnData)[0]);
+      const answer = BigInt(round[1]);
+      const updatedAt = Number(round[3]);
+      if (answer <= 0n || updatedAt === 0) return undefined;
+      if (nowSeconds - updatedAt > this.config.maxOracleAgeSeconds) return undefined;
+      return Number(answer) / 10 ** decimals;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/** Pools with an on-chain tick oracle */
+function hasTwap(pool: PoolConfig): boolean {
+  return pool.dex === "uniswap_v3" || pool.dex === "sushiswap_v3" || pool.dex === "ramses_v3" || pool.dex === "camelot_v3";
+}
@@ -0,0 +1,225 @@
+import { Interface, type Provider } from "ethers";
+import { aggregate3, type MulticallRequest } from "./multicall.js";
+import type { InitializedTick, PoolConfig, TickLiquidity } from "./types.js";
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+
+// Uniswap V3, SushiSwap V3 and Ramses V3 share the Uniswap tick layout.
+// ticks() returns more fields, but only the first two are needed and are
+// identical across forks (Algebra: liquidityTotal, liquidityDelta).
+const V3_TICK_ABI = [
+  "function tickSpacing() view returns (int24)",
+  "function tickBitmap(int16 wordPosition) view returns (uint256)",
+  "function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet)",
+];
+
+// Algebra (Camelot V3) names the bitmap tickTable
+const ALGEBRA_TICK_ABI = [
+  "function tickTable(int16 wordPosition) view returns (uint256)",
+];
+
+const v3TickIface = new Interface(V3_TICK_ABI);
+const algebraTickIface = new Interface(ALGEBRA_TICK_ABI);
+
+/** Configuration for the TickLiquidityLoader */
+export interface TickLiquidityLoaderConfig {
+  provider: Provider;
+  /** Bitmap words to load on each side of the current tick's word */
+  words: number;
+  /** Maximum age (ms) of a cached window before it is re-read */
+  refreshMs: number;
+}
+
+interface CachedWindow {
+  liquidity: TickLiquidity;
+  /** Word position of the tick the window was centered on */
+  centerWord: number;
+  fetchedAt: number;
+}
+
+/**
+ * Loads and caches initialized V3 ticks (tick bitmap + liquidityNet) around
+ * each pool's current tick, so swaps can be simulated across tick boundaries.
+ *
+ * Reads are batched through Multicall3 in three rounds: tickSpacing (once per
+ * pool), bitmap words, then ticks() for every initialized tick found.
+ */
+export class TickLiquidityLoader {
+  private readonly config: TickLiquidityLoaderConfig;
+  private readonly tickSpacings = new Map<string, number>();
+  private readonly windows = new Map<string, CachedWindow>();
+
+  constructor(config: TickLiquidityLoaderConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get the cached window for a pool if it still covers the given tick.
+   * Returns undefined when nothing is cached or the price has left the window.
+   */
+  get(poolAddress: string, tick: number): TickLiquidity | undefined {
+    const cached = this.windows.get(poolAddress.toLowerCase());
+    if (!cached) return undefined;
+    const { liquidity } = cached;
+    if (tick < liquidity.lowerTick || tick > liquidity.upperTick) return undefined;
+    return liquidity;
+  }
+
+  /** Whether the pool's window is missing, expired, or no longer centered on the tick */
+  needsRefresh(pool: PoolConfig, tick: number): boolean {
+    const key = pool.poolAddress.toLowerCase();
+    const cached = this.windows.get(key);
+    if (!cached) return true;
+    if (Date.now() - cached.fetchedAt >= this.config.refreshMs) return true;
+    const spacing = this.tickSpacings.get(key)!;
+    return wordPosition(tick, spacing) !== cached.centerWord;
+  }
+
+  /**
+   * Re-read the tick windows of the given pools. Failures are non-critical:
+   * a pool whose reads fail keeps its previous window (if any).
+   */
+  async refresh(entries: Array<{ pool: PoolConfig; tick: number }>, blockNumber: number): Promise<void> {
+    if (entries.length === 0 || this.config.words <= 0) return;
+
+    await this.loadTickSpacings(entries.map((e) => e.pool));
+
+    // Round 2: bitmap words around each pool's current tick
+    const plans: Array<{ pool: PoolConfig; spacing: number; centerWord: number; words: number[] }> = [];
+    const bitmapCalls: MulticallRequest[] = [];
+    for (const { pool, tick } of entries) {
+      const spacing = this.tickSpacings.get(pool.poolAddress.toLowerCase());
+      if (!spacing) continue;
+      const centerWord = wordPosition(tick, spacing);
+      const words: number[] = [];
+      for (let w = centerWord - this.config.words; w <= centerWord + this.config.words; w++) {
+        words.push(w);
+        bitmapCalls.push({
+          target: pool.poolAddress,
+          allowFailure: true,
+          callData: pool.dex === "camelot_v3"
+            ? algebraTickIface.encodeFunctionData("tickTable", [w])
+            : v3TickIface.encodeFunctionData("tickBitmap", [w]),
+        });
+      }
+      plans.push({ pool, spacing, centerWord, words });
+    }
+    if (bitmapCalls.length === 0) return;
+
+    const bitmapResults = await aggregate3(this.config.provider, bitmapCalls);
+
+    // Round 3: ticks() for every initialized tick found
+    const tickCalls: MulticallRequest[] = [];
+    const tickPlans: Array<{ planIndex: number; ticks: number[] }> = [];
+    let offset = 0;
+    for (let i = 0; i < plans.length; i++) {
+      const plan = plans[i];
+      const found: number[] = [];
+      let failed = false;
+      for (let j = 0; j < plan.words.length; j++) {
+        const result = bitmapResults[offset + j];
+        if (!result?.success) {
+          failed = true;
+          continue;
+        }
+        const bitmap = BigInt(result.returnData);
+        for (let bit = 0; bit < 256; bit++) {
+          if ((bitmap >> BigInt(bit)) & 1n) {
+            found.push((plan.words[j] * 256 + bit) * plan.spacing);
+          }
+        }
+      }
+      offset += plan.words.length;
+      if (failed) continue;
+
+      for (const tick of found) {
+        tickCalls.push({
+          target: plan.pool.poolAddress,
+          allowFailure: true,
+          callData: v3TickIface.encodeFunctionData("ticks", [tick]),
+        });
+      }
+      tickPlans.push({ planIndex: i, ticks: found });
+    }
+
+    const tickResults = tickCalls.length > 0
+      ? await aggregate3(this.config.provider, tickCalls)
+      : [];
+
+    offset = 0;
+    for (const { planIndex, ticks } of tickPlans) {
+      const plan = plans[planIndex];
+      const initialized: InitializedTick[] = [];
+      let failed = false;
+      for (let j = 0; j < ticks.length; j++) {
+        const result = tickResults[offset + j];
+        if (!result?.success) {
+          failed = true;
+          break;
+        }
+        const decoded = v3TickIface.decodeFunctionResult("ticks", result.returnData);
+        initialized.push({ tick: ticks[j], liquidityNet: BigInt(decoded[1]) });
+      }
+      offset += ticks.length;
+      if (failed) continue;
+
+      const firstWord = plan.words[0];
+      const lastWord = plan.words[plan.words.length - 1];
+      this.windows.set(plan.pool.poolAddress.toLowerCase(), {
+        liquidity: {
+          tickSpacing: plan.spacing,
+          ticks: initialized.sort((a, b) => a.tick - b.tick),
+          lowerTick: Math.max(MIN_TICK, firstWord * 256 * plan.spacing),
+          upperTick: Math.min(MAX_TICK, (lastWord * 256 + 255) * plan.spacing),
+          blockNumber,
+        },
+        centerWord: plan.centerWord,
+        fetchedAt: Date.now(),
+      });
+    }
+  }
+
+  /** Forget a pool's cached window and tick spacing */
+  clear(poolAddress: string): void {
+    const key = poolAddress.toLowerCase();
+    this.windows.delete(key);
+    this.tickSpacings.delete(key);
+  }
+
+  /** Forget every cached window read at or after a block (e.g. after a reorg) */
+  invalidateFrom(blockNumber: number): void {
+    for (const [key, cached] of this.windows) {
+      if (cached.liquidity.blockNumber >= blockNumber) this.windows.delete(key);
+    }
+  }
+
+  /** Round 1: tickSpacing is immutable, so it is read once per pool */
+  private async loadTickSpacings(pools: PoolConfig[]): Promise<void> {
+    const missing = pools.filter((p) => !this.tickSpacings.has(p.poolAddress.toLowerCase()));
+    if (missing.length === 0) return;
+
+    const results = await aggregate3(
+      this.config.provider,
+      missing.map((pool) => ({
+        target: pool.poolAddress,
+        allowFailure: true,
+        callData: v3TickIface.encodeFunctionData("tickSpacing"),
+      })),
+    );
+
+    for (let i = 0; i < missing.length; i++) {
+      const result = results[i];
+      if (!result?.success) continue;
+      const spacing = Number(v3TickIface.decodeFunctionResult("tickSpacing", result.returnData)[0]);
+      if (spacing > 0) {
+        this.tickSpacings.set(missing[i].poolAddress.toLowerCase(), spacing);
+      }
+    }
+  }
+}
+
+/** Bitmap word holding the given tick (ticks are compressed by spacing, rounding toward -inf) */
+function wordPosition(tick: number, tickSpacing: number): number {
+  return Math.floor(Math.floor(tick / tickSpacing) / 256);
+}
@@ -0,0 +1,50 @@
+import { Interface, type Provider } from "ethers";
+
+// Multicall3 — deployed at same address on all EVM chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[])",
+];
+const multicallIface = new Interface(MULTICALL3_ABI);
+
+/** A single call inside an aggregate3() batch */
+export interface MulticallRequest {
+  target: string;
+  allowFailure: boolean;
+  callData: string;
+}
+
+/** Per-call result of an aggregate3() batch */
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Batch calls into a single Multicall3 aggregate3() eth_call.
+ * Throws if the multicall itself fails or returns no data; individual
+ * call failures are reported through `success` when `allowFailure` is set.
+ * Pass `blockTag` to read state at a specific block instead of the latest.
+ */
+export async function aggregate3(
+  provider: Provider,
+  calls: MulticallRequest[],
+  blockTag?: number,
+): Promise<MulticallResult[]> {
+  const calldata = multicallIface.encodeFunctionData("aggregate3", [calls]);
+  const rawResult = await provider.call({
+    to: MULTICALL3_ADDRESS,
+    data: calldata,
+    ...(blockTag !== undefined && { blockTag }),
+  });
+
+  if (!rawResult || rawResult === "0x") {
+    throw new Error("Multicall3 returned empty result");
+  }
+
+  const decoded = multicallIface.decodeFunctionResult("aggregate3", rawResult);
+  return (decoded[0] as Array<{ success: boolean; returnData: string }>).map((r) => ({
+    success: r.success,
+    returnData: r.returnData,
+  }));
+}
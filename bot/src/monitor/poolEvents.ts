@@ -0,0 +1,116 @@
+import { Interface } from "ethers";
+import type { PoolConfig } from "./types.js";
+
+// Pool events that carry the full post-trade pool state. Algebra (Camelot V3)
+// and Ramses V3 emit a Swap event with the exact same signature as Uniswap V3.
+const POOL_EVENTS_ABI = [
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+];
+
+const LB_PAIR_EVENTS_ABI = [
+  "event Swap(address indexed sender, address indexed to, uint24 id, bytes32 amountsIn, bytes32 amountsOut, uint24 volatilityAccumulator, bytes32 totalFees, bytes32 protocolFees)",
+];
+
+const poolEventsIface = new Interface(POOL_EVENTS_ABI);
+const lbEventsIface = new Interface(LB_PAIR_EVENTS_ABI);
+
+/** keccak256 topic of the V2 `Sync` event */
+export const SYNC_TOPIC = poolEventsIface.getEvent("Sync")!.topicHash;
+/** keccak256 topic of the V3 / Algebra / Ramses `Swap` event */
+export const V3_SWAP_TOPIC = poolEventsIface.getEvent("Swap")!.topicHash;
+/** keccak256 topic of the Trader Joe LB `Swap` event */
+export const LB_SWAP_TOPIC = lbEventsIface.getEvent("Swap")!.topicHash;
+
+/** All topics needed to keep every supported pool type in sync */
+export const POOL_EVENT_TOPICS = [SYNC_TOPIC, V3_SWAP_TOPIC, LB_SWAP_TOPIC];
+
+/** Minimal log shape shared by ethers `Log` and raw eth_subscription payloads */
+export interface PoolLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  blockHash?: string;
+  /** Set on logs the node retracts because their block was reorged out */
+  removed?: boolean;
+}
+
+/** Pool state carried by a decoded event */
+export interface PoolEventUpdate {
+  /** V2: reserves after the trade */
+  reserves?: [bigint, bigint];
+  /** V3: sqrtPriceX96 after the swap */
+  sqrtPriceX96?: bigint;
+  /** V3: in-range liquidity after the swap */
+  liquidity?: bigint;
+  /** V3: current tick after the swap */
+  tick?: number;
+  /** Trader Joe LB: active bin after the swap */
+  activeId?: number;
+}
+
+/** Check if a pool uses V3-style concentrated liquidity (including Algebra and Ramses) */
+export function isV3Protocol(pool: PoolConfig): boolean {
+  return pool.dex === "uniswap_v3" || pool.dex === "sushiswap_v3" || pool.dex === "camelot_v3" || pool.dex === "ramses_v3";
+}
+
+/**
+ * Key that identifies a pool's state across the monitor and detector. Every
+ * Uniswap V4 pool lives in the PoolManager and is read through the same
+ * StateView, so V4 pools are keyed by PoolId; all others by pool address.
+ * Also takes a swap step, which carries the same three fields.
+ */
+export function poolStateKey(pool: Pick<PoolConfig, "dex" | "poolAddress" | "poolId">): string {
+  if (pool.dex === "uniswap_v4" && pool.poolId) return pool.poolId.toLowerCase();
+  return pool.poolAddress.toLowerCase();
+}
+
+/** Check if a pool runs hook contracts around its swaps (Uniswap V4 only) */
+export function hasHooks(pool: PoolConfig): boolean {
+  return pool.dex === "uniswap_v4" && pool.hooks !== undefined && BigInt(pool.hooks) !== 0n;
+}
+
+/**
+ * Check if a pool's events carry its full post-trade state. Curve's
+ * TokenExchange only reports traded amounts, and Balancer and Uniswap V4
+ * swaps are logged by the Vault / PoolManager rather than the address the
+ * pool is read from, so these are kept current by polling (and event-driven
+ * reconciliation) instead.
+ */
+export function emitsPoolState(pool: PoolConfig): boolean {
+  return pool.dex !== "curve_stableswap" && pool.dex !== "balancer_v2" && pool.dex !== "uniswap_v4";
+}
+
+/**
+ * Decode a pool log into the state it carries.
+ *
+ * Returns null when the log's topic doesn't belong to the pool's protocol
+ * (e.g. a V2 `Swap` event, which carries amounts but not reserves).
+ */
+export function decodePoolEvent(pool: PoolConfig, log: PoolLog): PoolEventUpdate | null {
+  if (!emitsPoolState(pool)) return null;
+
+  const topic = log.topics[0];
+
+  if (pool.dex === "traderjoe_lb") {
+    if (topic !== LB_SWAP_TOPIC) return null;
+    const decoded = lbEventsIface.decodeEventLog("Swap", log.data, log.topics);
+    return { activeId: Number(decoded.id) };
+  }
+
+  if (isV3Protocol(pool)) {
+    if (topic !== V3_SWAP_TOPIC) return null;
+    const decoded = poolEventsIface.decodeEventLog("Swap", log.data, log.topics);
+    return {
+      sqrtPriceX96: BigInt(decoded.sqrtPriceX96),
+      liquidity: BigInt(decoded.liquidity),
+      tick: Number(decoded.tick),
+    };
+  }
+
+  // uniswap_v2, sushiswap, and camelot_v2 emit Sync after every reserve change
+  if (topic !== SYNC_TOPIC) return null;
+  const decoded = poolEventsIface.decodeEventLog("Sync", log.data, log.topics);
+  return { reserves: [BigInt(decoded.reserve0), BigInt(decoded.reserve1)] };
+}
@@ -1,7 +1,10 @@
 import type { Provider } from "ethers";
+import type { StableSwapCurve } from "../math/stableSwap.js";
+import type { BalancerPoolState } from "../math/balancer.js";
+import type { CamelotPairFees } from "../math/camelotV2.js";
 
 /** Supported DEX protocols */
-export type DEXProtocol = "uniswap_v2" | "uniswap_v3" | "sushiswap" | "sushiswap_v3" | "camelot_v2" | "camelot_v3" | "ramses_v3" | "traderjoe_lb";
+export type DEXProtocol = "uniswap_v2" | "uniswap_v3" | "sushiswap" | "sushiswap_v3" | "camelot_v2" | "camelot_v3" | "ramses_v3" | "traderjoe_lb" | "curve_stableswap" | "balancer_v2" | "uniswap_v4";
 
 /** A token pair on a specific DEX */
 export interface PoolConfig {
@@ -9,7 +12,7 @@ export interface PoolConfig {
   label: string;
   /** DEX protocol identifier */
   dex: DEXProtocol;
-  /** Pool/pair contract address */
+  /** Pool/pair contract address (uniswap_v4: the StateView lens every pool is read through) */
   poolAddress: string;
   /** Token A address */
   token0: string;
@@ -19,11 +22,61 @@ export interface PoolConfig {
   decimals0: number;
   /** Token B decimals */
   decimals1: number;
-  /** Uniswap V3 fee tier (bps) — only for uniswap_v3 */
+  /** Uniswap V3 fee tier (bps) — only for uniswap_v3. For uniswap_v4, the PoolKey fee
+   *  (0x800000 marks a dynamic-fee pool) */
   feeTier?: number;
   /** Invert the raw on-chain price. Used when Trader Joe LB tokenX/tokenY ordering
    *  doesn't match the hex-sorted token0/token1 convention. */
   invertPrice?: boolean;
+  /** Curve coin indices of token0 and token1 — only for curve_stableswap (default [0, 1]) */
+  coinIndices?: [number, number];
+  /** Decimals of every coin in Curve coin order — only for curve_stableswap pools
+   *  with more than two coins (default: the two-coin pool of token0/token1) */
+  coinDecimals?: number[];
+  /** Pool ID (bytes32) — the Vault pool ID for balancer_v2, the PoolId for uniswap_v4.
+   *  Identifies uniswap_v4 pools, which all share the PoolManager. */
+  poolId?: string;
+  /** Balancer V2 pool math — only for balancer_v2 (default "weighted") */
+  balancerPoolType?: "weighted" | "stable";
+  /** Uniswap V4 PoolKey tick spacing — only for uniswap_v4 */
+  tickSpacing?: number;
+  /** Uniswap V4 PoolKey hooks contract — only for uniswap_v4 (unset or zero = no hooks) */
+  hooks?: string;
+}
+
+/** An initialized V3 tick and the liquidity change applied when crossing it upward */
+export interface InitializedTick {
+  tick: number;
+  liquidityNet: bigint;
+}
+
+/** Initialized ticks in a window of the V3 tick bitmap around the current tick */
+export interface TickLiquidity {
+  /** Pool tick spacing */
+  tickSpacing: number;
+  /** Initialized ticks inside [lowerTick, upperTick], sorted ascending */
+  ticks: InitializedTick[];
+  /** Lowest tick covered by the loaded bitmap words */
+  lowerTick: number;
+  /** Highest tick covered by the loaded bitmap words */
+  upperTick: number;
+  /** Block number the bitmap and ticks were read at */
+  blockNumber: number;
+}
+
+/** A Trader Joe LB bin and its reserves (raw units) */
+export interface LBBin {
+  id: number;
+  reserveX: bigint;
+  reserveY: bigint;
+}
+
+/** Non-empty Trader Joe LB bins around the active bin */
+export interface LBBinLiquidity {
+  /** The active bin and the non-empty bins walked on each side, sorted by id ascending */
+  bins: LBBin[];
+  /** Block number the bins were read at */
+  blockNumber: number;
 }
 
 /** A snapshot of a pool's price at a point in time */
@@ -35,16 +88,98 @@ export interface PriceSnapshot {
   inversePrice: number;
   /** Block number when this price was observed */
   blockNumber: number;
+  /** Hash of the block the state was read at (set when reorg tracking is enabled) */
+  blockHash?: string;
   /** Timestamp (ms) when this snapshot was taken */
   timestamp: number;
   /** V2: Raw reserves [reserve0, reserve1] for price impact estimation */
   reserves?: [bigint, bigint];
+  /** Camelot V2: per-direction fees and the stable-pair flag */
+  camelotV2?: CamelotPairFees;
   /** V3: In-range liquidity (L) for virtual reserve computation */
   liquidity?: bigint;
   /** V3: sqrtPriceX96 for virtual reserve computation */
   sqrtPriceX96?: bigint;
+  /** V3: Current tick */
+  tick?: number;
+  /** V3: Initialized ticks around the current tick for multi-tick swap simulation */
+  tickLiquidity?: TickLiquidity;
   /** Trader Joe LB: Active bin ID */
   activeId?: number;
+  /** Trader Joe LB: bin reserves around the active bin for bin-by-bin swap simulation */
+  lbBins?: LBBinLiquidity;
+  /** Trader Joe LB: base + variable fee of a swap starting in the active bin (1e18 = 100%) */
+  lbFee?: bigint;
+  /** Curve StableSwap: balances, A and fee read at blockNumber */
+  stableSwap?: StableSwapCurve;
+  /** Uniswap V4: LP fee from slot0 (the live fee of dynamic-fee pools). Ramses V3: current fee().
+   *  In hundredths of a bip */
+  lpFee?: number;
+  /** Camelot V3 (Algebra): directional fees from globalState (feeZto / feeOtz), in hundredths of a bip */
+  algebraFees?: { zeroForOne: number; oneForZero: number };
+  /** Balancer V2: Vault balances plus weights or amp read at blockNumber */
+  balancer?: BalancerPoolState;
+  /** Set when the spot price strays from the pool's TWAP or the pair's oracle
+   *  price by more than the pair's band. The detector rejects deltas built on it. */
+  suspectedManipulation?: PriceSanityFlag;
+  /** WETH-side liquidity (WETH) the viability check measured: reserve, in-range virtual
+   *  reserve or active LB bin. Unset for non-WETH pairs or when the floor is disabled */
+  liquidityWeth?: number;
+}
+
+/** A pool's liquidity against its floor, emitted when it becomes non-viable or recovers */
+export interface LiquidityViability {
+  pool: PoolConfig;
+  /** Measured WETH-side liquidity (WETH) */
+  liquidityWeth: number;
+  /** Floor for the pool's protocol (WETH) */
+  minLiquidityWeth: number;
+  /** Block the measured state was read at */
+  blockNumber: number;
+}
+
+/** A spot price that deviates too far from a reference price */
+export interface PriceSanityFlag {
+  /** Reference the spot price was checked against */
+  source: "twap" | "oracle";
+  /** Reference price (token1 per token0, like `PriceSnapshot.price`) */
+  referencePrice: number;
+  /** |spot − reference| / reference, in percent */
+  deviationPercent: number;
+  /** Allowed deviation for the pair, in percent */
+  maxDeviationPercent: number;
+}
+
+/** A Chainlink aggregator pricing one token of a monitored pair in the other */
+export interface OracleFeedConfig {
+  /** Aggregator (proxy) address */
+  feed: string;
+  /** Token the feed prices (e.g. WETH for ETH/USD) */
+  base: string;
+  /** Token the answer is taken to be denominated in (e.g. USDC for ETH/USD) */
+  quote: string;
+}
+
+/** Emitted when blocks the monitor read state at are no longer canonical */
+export interface ReorgEvent {
+  /** First orphaned block */
+  fromBlock: number;
+  /** Last orphaned block */
+  toBlock: number;
+  /** Timestamp (ms) when the reorg was detected — state observed before it at or above fromBlock is invalid */
+  timestamp: number;
+}
+
+/** Emitted once the monitor has caught up on blocks its WebSocket missed */
+export interface GapEvent {
+  /** First block missed while disconnected */
+  fromBlock: number;
+  /** First block seen after reconnecting — every snapshot is current as of it */
+  toBlock: number;
+  /** How the missed state was recovered: pool logs replayed over the range, or a full re-read at toBlock */
+  backfill: "logs" | "poll";
+  /** Timestamp (ms) when the catch-up finished */
+  timestamp: number;
 }
 
 /** Emitted when a price delta exceeds the configured threshold */
@@ -57,6 +192,9 @@ export interface PriceDelta {
   sellPool: PriceSnapshot;
   /** Percentage price difference (0-100) */
   deltaPercent: number;
+  /** Block of the detection pass that found the delta: the newest block among the
+   *  snapshots it compared. Pools' own snapshots may be older. Unset outside a PriceMonitor */
+  detectionBlock?: number;
   /** Timestamp (ms) */
   timestamp: number;
 }
@@ -75,16 +213,67 @@ export interface PriceMonitorConfig {
   maxRetries?: number;
   /** Use Multicall3 to batch all pool reads into a single RPC call. Default: true */
   useMulticall?: boolean;
-  /** Minimum WETH reserve (in ETH) for V2 pools to be considered viable. Default: 5.0 */
+  /** Minimum WETH-side liquidity (in ETH) for a pool to be considered viable: V2/Curve/Balancer
+   *  WETH reserve, V3/Algebra/V4 in-range virtual reserve, LB active-bin reserves. Pools below it
+   *  take no part in delta detection until they recover. Default: 0 (disabled) */
   minReserveWeth?: number;
+  /** Per-protocol overrides of minReserveWeth. Default: none */
+  dexMinReserveWeth?: Partial<Record<DEXProtocol, number>>;
   /** WETH address for liquidity checks. Required when minReserveWeth is set. */
   wethAddress?: string;
+  /** Update snapshots from pool Sync/Swap logs while the WebSocket is active,
+   *  instead of re-reading every pool on each block. Default: false */
+  eventDriven?: boolean;
+  /** Full Multicall reconciliation interval (ms) in event-driven mode. Default: 60000 */
+  reconcileIntervalMs?: number;
+  /** Longest WebSocket gap (blocks) whose pool logs are replayed on reconnect in event-driven
+   *  mode; longer gaps re-read every pool instead. Default: 1000 */
+  maxGapReplayBlocks?: number;
+  /** Tick bitmap words (256 spaced ticks each) to load on each side of the current
+   *  tick for V3 pools. Requires useMulticall. Default: 0 (tick-level liquidity disabled) */
+  tickBitmapWords?: number;
+  /** Maximum age (ms) of cached tick liquidity before it is re-read. Default: 60000 */
+  tickRefreshMs?: number;
+  /** Non-empty bins to read on each side of the active bin for Trader Joe LB pools.
+   *  Requires useMulticall. Default: 0 (bin-level liquidity disabled) */
+  lbBinsPerSide?: number;
+  /** Recent block hashes to track for reorg detection. Multicall reads are pinned
+   *  to the polled block while enabled. Default: 0 (disabled) */
+  reorgDepth?: number;
+  /** TWAP window (s) V3 and Algebra spot prices are checked against.
+   *  Requires useMulticall. Default: 0 (TWAP check disabled) */
+  twapWindowSeconds?: number;
+  /** Chainlink feeds spot prices of matching pairs are checked against. Default: none */
+  oracleFeeds?: OracleFeedConfig[];
+  /** Oracle answers older than this (s) are not used. Default: 86400 */
+  maxOracleAgeSeconds?: number;
+  /** Allowed spot deviation (%) from the TWAP or oracle price. Default: 5 */
+  maxPriceDeviationPercent?: number;
+  /** Per-pair overrides of maxPriceDeviationPercent, keyed "tokenA/tokenB" (any order). Default: none */
+  pairPriceDeviationPercent?: Record<string, number>;
+  /** Spreads (%) above this are treated as phantom and never emitted. Default: 20 */
+  maxSpreadPercent?: number;
+  /** Longest gap, in polls, between reads of a pool whose state is not changing.
+   *  Moving pools are read every poll. Default: 1 (every pool every poll) */
+  maxPollInterval?: number;
+  /** Pool reads per second polls may spend, counting each call in a Multicall3
+   *  batch. Default: 0 (unlimited) */
+  rpcBudgetPerSecond?: number;
+  /** Polls both pools of a spread at half the delta threshold or more are read on
+   *  every poll. Default: 20 */
+  promotionPolls?: number;
 }
 
 /** Events emitted by PriceMonitor */
 export interface PriceMonitorEvents {
   priceUpdate: (snapshot: PriceSnapshot) => void;
   opportunity: (delta: PriceDelta) => void;
+  /** Fresh, viable snapshots compared by one detection pass (for multi-pool searches) */
+  snapshotsCompared: (snapshots: PriceSnapshot[]) => void;
   error: (error: Error, pool: PoolConfig) => void;
   stale: (pool: PoolConfig) => void;
+  reorg: (reorg: ReorgEvent) => void;
+  gap: (gap: GapEvent) => void;
+  lowLiquidity: (viability: LiquidityViability) => void;
+  liquidityRestored: (viability: LiquidityViability) => void;
 }
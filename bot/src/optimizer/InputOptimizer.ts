@@ -4,7 +4,9 @@ import type { InputOptimizerConfig, OptimizationResult } from "./types.js";
 
 /**
  * Computes optimal trade size per opportunity using ternary search over pool liquidity depth.
- * Uses constant-product formula for V2 pools and virtual reserve approximation for V3 pools.
+ * Each candidate size is priced by the caller's profit function; the detector's runs the
+ * integer AMM math in src/math (V2 getAmountOut, V3 swap steps, LB bins), so the search
+ * sees the outputs the pools would return rather than float price chaining.
  * Completes within 100ms or falls back to conservative fixed size.
  */
 export class InputOptimizer {
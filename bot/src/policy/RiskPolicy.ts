@@ -0,0 +1,219 @@
+import { EventEmitter } from "node:events";
+import type { SwapPath, SwapStep } from "../detector/types.js";
+import { poolStateKey } from "../monitor/poolEvents.js";
+import type { PriceSnapshot } from "../monitor/types.js";
+import type {
+  PolicyMatch,
+  PolicyRule,
+  PolicyScreen,
+  PolicyVerdict,
+  RiskPolicyConfig,
+} from "./types.js";
+
+/**
+ * Rules every policy starts from: hook logic runs around Uniswap V4 hooked
+ * swaps, which the detector cannot model, so they need more profit headroom.
+ */
+export const DEFAULT_RISK_RULES: readonly PolicyRule[] = [
+  { name: "hooked pool", kind: "profitMultiplier", match: { hooked: true }, multiplier: 2 },
+];
+
+/** The step fields rules match on */
+type MatchTarget = Pick<SwapStep, "dex" | "poolAddress" | "poolId" | "tokenIn" | "tokenOut" | "hooks">;
+
+/** Active bin of a Trader Joe LB pool, and the updates (timestamps, ms) it was first and last seen in */
+interface BinState {
+  label: string;
+  activeId: number;
+  since: number;
+  lastSeen: number;
+}
+
+/** Seconds a bin has gone unchanged across the updates that saw it */
+function unchangedSeconds(bin: BinState): number {
+  return (bin.lastSeen - bin.since) / 1000;
+}
+
+function isHooked(target: MatchTarget): boolean {
+  return target.dex === "uniswap_v4" && target.hooks !== undefined && BigInt(target.hooks) !== 0n;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function matches(match: PolicyMatch | undefined, target: MatchTarget): boolean {
+  if (!match) return true;
+  if (match.dex !== undefined && match.dex !== target.dex) return false;
+  if (match.pool !== undefined && !sameAddress(match.pool, poolStateKey(target))) return false;
+  if (match.token !== undefined
+    && !sameAddress(match.token, target.tokenIn) && !sameAddress(match.token, target.tokenOut)) return false;
+  if (match.pair !== undefined) {
+    const [a, b] = match.pair.split("/");
+    const forward = sameAddress(a, target.tokenIn) && sameAddress(b, target.tokenOut);
+    const backward = sameAddress(a, target.tokenOut) && sameAddress(b, target.tokenIn);
+    if (!forward && !backward) return false;
+  }
+  if (match.hooked !== undefined && match.hooked !== isHooked(target)) return false;
+  return true;
+}
+
+function hour(h: number): string {
+  return `${String(h).padStart(2, "0")}:00`;
+}
+
+/**
+ * Declarative risk rules for opportunities: per-DEX, per-pool, per-token
+ * and per-pair profit multipliers, input caps, liquidity floors,
+ * time-of-day blocks and stale Trader Joe LB bins.
+ *
+ * `screen` runs every rule that applies to a path and reports each one's
+ * verdict, so a rejection (and every raised threshold or capped input)
+ * names the rule behind it. Liquidity and bin movement come from the
+ * price updates passed to `observe`.
+ */
+export class RiskPolicy extends EventEmitter {
+  readonly rules: readonly PolicyRule[];
+  /** Latest WETH-side liquidity per pool (poolStateKey), from the monitor's viability check */
+  private readonly liquidity = new Map<string, number>();
+  /** Active bin per Trader Joe LB pool (poolStateKey) */
+  private readonly bins = new Map<string, BinState>();
+
+  constructor(config: RiskPolicyConfig = {}) {
+    super();
+    const overrides = new Map((config.rules ?? []).map((r) => [r.name, r]));
+    this.rules = [
+      ...DEFAULT_RISK_RULES.filter((r) => !overrides.has(r.name)),
+      ...overrides.values(),
+    ];
+  }
+
+  /** Record a price update's liquidity and active bin */
+  observe(snapshot: PriceSnapshot): void {
+    const { pool } = snapshot;
+    const key = poolStateKey(pool);
+    if (snapshot.liquidityWeth !== undefined) this.liquidity.set(key, snapshot.liquidityWeth);
+    if (snapshot.activeId === undefined) return;
+
+    const prev = this.bins.get(key);
+    if (!prev || prev.activeId !== snapshot.activeId) {
+      this.bins.set(key, { label: pool.label, activeId: snapshot.activeId, since: snapshot.timestamp, lastSeen: snapshot.timestamp });
+      return;
+    }
+    const before = unchangedSeconds(prev);
+    prev.lastSeen = Math.max(prev.lastSeen, snapshot.timestamp);
+    const after = unchangedSeconds(prev);
+
+    const target: MatchTarget = { dex: pool.dex, poolAddress: pool.poolAddress, poolId: pool.poolId, tokenIn: pool.token0, tokenOut: pool.token1, hooks: pool.hooks };
+    for (const rule of this.rules) {
+      if (rule.kind === "staleBin" && before < rule.maxUnchangedSeconds && after >= rule.maxUnchangedSeconds
+        && matches(rule.match, target)) {
+        this.emit("staleBin", key, pool.label, prev.activeId, after, rule.name);
+      }
+    }
+  }
+
+  /**
+   * Run every rule that applies to `path`.
+   *
+   * @param ethPerBase - ETH per unit of the path's base token, to value virtual reserves
+   * @param now - Time checked against timeBlock rules
+   */
+  screen(path: SwapPath, ethPerBase: number, now: Date = new Date()): PolicyScreen {
+    const result: PolicyScreen = { verdicts: [], profitMultiplier: 1 };
+
+    for (const rule of this.rules) {
+      const steps = path.steps.filter((s) => matches(rule.match, s));
+      if (steps.length === 0) continue;
+
+      const verdict = this.evaluate(rule, steps, path, ethPerBase, now);
+      if (!verdict) continue;
+      result.verdicts.push(verdict);
+      if (verdict.outcome === "rejected") {
+        result.rejection ??= verdict;
+        continue;
+      }
+
+      if (rule.kind === "profitMultiplier" && rule.multiplier > result.profitMultiplier) {
+        result.profitMultiplier = rule.multiplier;
+        result.profitMultiplierRule = rule.name;
+      } else if (rule.kind === "maxInput" && (result.maxInputEth === undefined || rule.maxInputEth < result.maxInputEth)) {
+        result.maxInputEth = rule.maxInputEth;
+      }
+    }
+
+    return result;
+  }
+
+  /** One rule's verdict on the steps it applies to; undefined when it has nothing to say */
+  private evaluate(
+    rule: PolicyRule,
+    steps: SwapStep[],
+    path: SwapPath,
+    ethPerBase: number,
+    now: Date,
+  ): PolicyVerdict | undefined {
+    const verdict = (outcome: PolicyVerdict["outcome"], detail: string): PolicyVerdict => ({
+      rule: rule.name, kind: rule.kind, outcome, detail,
+    });
+
+    switch (rule.kind) {
+      case "profitMultiplier":
+        return verdict("accepted", `profit threshold ${rule.multiplier}x`);
+
+      case "maxInput":
+        return verdict("accepted", `input capped at ${rule.maxInputEth} ETH`);
+
+      case "minLiquidity": {
+        let measured = false;
+        for (const step of steps) {
+          const liquidity = this.liquidityEth(step, path, ethPerBase);
+          if (liquidity === undefined) continue;
+          measured = true;
+          if (liquidity < rule.minLiquidityEth) {
+            return verdict(
+              "rejected",
+              `pool ${poolStateKey(step)} holds ${liquidity.toFixed(4)} ETH (min ${rule.minLiquidityEth} ETH)`,
+            );
+          }
+        }
+        return verdict("accepted", measured ? `liquidity at least ${rule.minLiquidityEth} ETH` : "liquidity not measured");
+      }
+
+      case "timeBlock": {
+        const h = now.getUTCHours();
+        const inWindow = rule.fromHourUtc <= rule.toHourUtc
+          ? h >= rule.fromHourUtc && h < rule.toHourUtc
+          : h >= rule.fromHourUtc || h < rule.toHourUtc;
+        const onDay = rule.days === undefined || rule.days.includes(now.getUTCDay());
+        const window = `${hour(rule.fromHourUtc)}-${hour(rule.toHourUtc)} UTC`;
+        return inWindow && onDay
+          ? verdict("rejected", `trading blocked ${window}`)
+          : verdict("accepted", `outside ${window}`);
+      }
+
+      case "staleBin": {
+        const binSteps = steps.filter((s) => this.bins.has(poolStateKey(s)));
+        if (binSteps.length === 0) return undefined;
+        for (const step of binSteps) {
+          const bin = this.bins.get(poolStateKey(step))!;
+          const seconds = unchangedSeconds(bin);
+          if (seconds >= rule.maxUnchangedSeconds) {
+            return verdict("rejected", `${bin.label} bin ${bin.activeId} unchanged for ${seconds.toFixed(0)}s`);
+          }
+        }
+        return verdict("accepted", `bins moved within ${rule.maxUnchangedSeconds}s`);
+      }
+    }
+  }
+
+  /** WETH-side liquidity of a step's pool in ETH, when known */
+  private liquidityEth(step: SwapStep, path: SwapPath, ethPerBase: number): number | undefined {
+    const observed = this.liquidity.get(poolStateKey(step));
+    if (observed !== undefined) return observed;
+    if (step.virtualReserveIn !== undefined && sameAddress(step.tokenIn, path.baseToken)) {
+      return step.virtualReserveIn * ethPerBase;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,14 @@
+export { RiskPolicy, DEFAULT_RISK_RULES } from "./RiskPolicy.js";
+export type {
+  MaxInputRule,
+  MinLiquidityRule,
+  PolicyMatch,
+  PolicyRule,
+  PolicyScreen,
+  PolicyVerdict,
+  ProfitMultiplierRule,
+  RiskPolicyConfig,
+  RiskPolicyEvents,
+  StaleBinRule,
+  TimeBlockRule,
+} from "./types.js";
@@ -0,0 +1,116 @@
+import type { DEXProtocol } from "../monitor/types.js";
+
+/**
+ * Which swap steps a rule applies to. A step matches when every field set
+ * matches it; a rule applies to an opportunity when any of its steps
+ * matches. A rule without `match` applies to every opportunity.
+ */
+export interface PolicyMatch {
+  /** DEX the step swaps on */
+  dex?: DEXProtocol;
+  /** Pool the step swaps through: its address, or its PoolId for Uniswap V4 */
+  pool?: string;
+  /** Token the step sells or buys */
+  token?: string;
+  /** Pair the step trades, "tokenA/tokenB" in either order */
+  pair?: string;
+  /** The step's pool is a Uniswap V4 pool with hooks */
+  hooked?: boolean;
+}
+
+interface PolicyRuleBase {
+  /** Name reported in verdicts and rejection reasons. Rules given to RiskPolicy
+   *  replace the default rule of the same name */
+  name: string;
+  /** Steps the rule applies to. Default: all */
+  match?: PolicyMatch;
+}
+
+/** Raise the profit threshold. Of several matching rules, the largest multiplier applies */
+export interface ProfitMultiplierRule extends PolicyRuleBase {
+  kind: "profitMultiplier";
+  /** Multiplier on minProfitThreshold (2 = twice the threshold) */
+  multiplier: number;
+}
+
+/** Cap the input size. Of several matching rules, the smallest cap applies */
+export interface MaxInputRule extends PolicyRuleBase {
+  kind: "maxInput";
+  /** Largest input, in ETH */
+  maxInputEth: number;
+}
+
+/** Reject opportunities through a matching pool holding less than a floor */
+export interface MinLiquidityRule extends PolicyRuleBase {
+  kind: "minLiquidity";
+  /** Smallest WETH-side liquidity, in ETH: the monitor's viability measure when it
+   *  reports one, else the step's virtual input reserve when it sells the base token */
+  minLiquidityEth: number;
+}
+
+/** Reject opportunities during a daily window */
+export interface TimeBlockRule extends PolicyRuleBase {
+  kind: "timeBlock";
+  /** First blocked hour (UTC, 0-23) */
+  fromHourUtc: number;
+  /** Hour the block ends (UTC, exclusive). Below fromHourUtc for windows spanning midnight */
+  toHourUtc: number;
+  /** Days the window applies on (0 = Sunday). Default: every day */
+  days?: number[];
+}
+
+/** Reject opportunities through a Trader Joe LB pool whose active bin has stopped moving */
+export interface StaleBinRule extends PolicyRuleBase {
+  kind: "staleBin";
+  /** Seconds the active bin may go unchanged across price updates before the pool is
+   *  stale. Measured in time, not updates: a pool polled every block would otherwise
+   *  go stale in seconds whenever its price holds within one bin */
+  maxUnchangedSeconds: number;
+}
+
+/** A declarative risk rule */
+export type PolicyRule =
+  | ProfitMultiplierRule
+  | MaxInputRule
+  | MinLiquidityRule
+  | TimeBlockRule
+  | StaleBinRule;
+
+/** What one rule decided about an opportunity */
+export interface PolicyVerdict {
+  /** Rule name */
+  rule: string;
+  /** Rule kind */
+  kind: PolicyRule["kind"];
+  /** Whether the rule let the opportunity through */
+  outcome: "accepted" | "rejected";
+  /** What the rule checked or changed (e.g. "input capped at 5 ETH") */
+  detail: string;
+}
+
+/** Every applicable rule's verdict on a path, and the limits they set */
+export interface PolicyScreen {
+  /** Verdicts of the rules that apply to the path, in rule order */
+  verdicts: PolicyVerdict[];
+  /** First rule that rejected the path */
+  rejection?: PolicyVerdict;
+  /** Smallest maxInput cap, in ETH */
+  maxInputEth?: number;
+  /** Multiplier on minProfitThreshold (1 when no profitMultiplier rule applies) */
+  profitMultiplier: number;
+  /** Rule that set profitMultiplier */
+  profitMultiplierRule?: string;
+}
+
+/** Configuration for RiskPolicy */
+export interface RiskPolicyConfig {
+  /** Rules added to the defaults (a hooked-pool 2x profit multiplier); a rule named
+   *  like a default replaces it. Default: none */
+  rules?: PolicyRule[];
+}
+
+/** Events emitted by RiskPolicy */
+export interface RiskPolicyEvents {
+  /** A pool's active bin reached a staleBin rule's limit */
+  staleBin: (pool: string, label: string, activeId: number, unchangedSeconds: number, rule: string) => void;
+}
@@ -0,0 +1,273 @@
+import {
+  AbstractProvider,
+  JsonRpcProvider,
+  Network,
+  getBigInt,
+  getNumber,
+  type PerformActionRequest,
+} from "ethers";
+import type { EndpointHealth, MultiRpcProviderConfig } from "./types.js";
+
+/** Weight of the newest sample in the latency and error-rate averages */
+const EWMA_ALPHA = 0.2;
+/** Score penalty (ms-equivalent) for an endpoint that always fails */
+const ERROR_PENALTY_MS = 2_000;
+/** Score penalty (ms-equivalent) per block behind the best known head */
+const LAG_PENALTY_MS = 250;
+
+/**
+ * Errors that are the chain's answer rather than an endpoint fault — a revert,
+ * an underfunded or stale-nonce transaction. Another endpoint would say the
+ * same, so they are returned as-is instead of triggering failover.
+ */
+const DETERMINISTIC_ERRORS = new Set([
+  "CALL_EXCEPTION",
+  "INSUFFICIENT_FUNDS",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+  "TRANSACTION_REPLACED",
+  "INVALID_ARGUMENT",
+]);
+
+interface Endpoint {
+  url: string;
+  host: string;
+  provider: AbstractProvider;
+  latencyMs: number;
+  errorRate: number;
+  headBlock: number;
+  consecutiveFailures: number;
+  benchedUntil: number;
+}
+
+function isDeterministic(err: unknown): boolean {
+  const code = (err as { code?: unknown })?.code;
+  return typeof code === "string" && DETERMINISTIC_ERRORS.has(code);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Ethers provider backed by several JSON-RPC endpoints.
+ *
+ * Every request goes to the healthiest endpoint, ranked by response latency,
+ * recent error rate and how far its head block trails the others. Transport
+ * failures and timeouts fail over to the next endpoint; endpoints that fail
+ * `maxConsecutiveFailures` times in a row are benched for `cooldownMs`.
+ *
+ * `getBlockNumber()` asks every available endpoint, which keeps head-lag
+ * figures current, and resolves to the highest block that at least `quorum`
+ * endpoints have reached. With `quorum > 1` the bot never acts on a block a
+ * single (possibly forked or misbehaving) endpoint claims to have seen.
+ *
+ * As an AbstractProvider it drops in anywhere a Provider is expected —
+ * PriceMonitor, Wallet, NonceManager, the gas estimator — so the whole bot
+ * shares one set of endpoints and one view of their health.
+ */
+export class MultiRpcProvider extends AbstractProvider {
+  /** WebSocket endpoints, primary first */
+  readonly wsUrls: string[];
+  readonly quorum: number;
+  private readonly endpoints: Endpoint[];
+  private readonly chainId: number | undefined;
+  private readonly requestTimeoutMs: number;
+  private readonly maxConsecutiveFailures: number;
+  private readonly cooldownMs: number;
+  private readonly maxHeadLag: number;
+
+  constructor(config: MultiRpcProviderConfig) {
+    if (config.urls.length === 0) {
+      throw new Error("MultiRpcProvider requires at least one RPC URL");
+    }
+    const quorum = config.quorum ?? 1;
+    if (quorum < 1 || quorum > config.urls.length) {
+      throw new Error(`RPC quorum must be between 1 and ${config.urls.length}, got ${quorum}`);
+    }
+
+    super(config.chainId);
+
+    this.wsUrls = [...(config.wsUrls ?? [])];
+    this.quorum = quorum;
+    this.chainId = config.chainId;
+    this.requestTimeoutMs = config.requestTimeoutMs ?? 10_000;
+    this.maxConsecutiveFailures = config.maxConsecutiveFailures ?? 3;
+    this.cooldownMs = config.cooldownMs ?? 30_000;
+    this.maxHeadLag = config.maxHeadLag ?? 3;
+    this.endpoints = config.urls.map((url) => ({
+      url,
+      host: hostOf(url),
+      provider: this._createEndpointProvider(url),
+      latencyMs: 0,
+      errorRate: 0,
+      headBlock: -1,
+      consecutiveFailures: 0,
+      benchedUntil: 0,
+    }));
+  }
+
+  /** Number of configured HTTP endpoints */
+  get endpointCount(): number {
+    return this.endpoints.length;
+  }
+
+  /** Health of every endpoint, in configuration order */
+  getEndpointHealth(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((ep) => ({
+      host: ep.host,
+      latencyMs: ep.latencyMs,
+      errorRate: ep.errorRate,
+      headBlock: ep.headBlock,
+      headLag: this._headLag(ep),
+      consecutiveFailures: ep.consecutiveFailures,
+      benched: ep.benchedUntil > now,
+      score: this._score(ep),
+    }));
+  }
+
+  /**
+   * Internal: create the provider for one endpoint.
+   * Extracted as a method so tests can mock/spy on it.
+   */
+  protected _createEndpointProvider(url: string): AbstractProvider {
+    if (this.chainId === undefined) return new JsonRpcProvider(url);
+    const network = Network.from(this.chainId);
+    return new JsonRpcProvider(url, network, { staticNetwork: network });
+  }
+
+  async _detectNetwork(): Promise<Network> {
+    if (this.chainId !== undefined) return Network.from(this.chainId);
+    return Network.from(getBigInt(await this._perform({ method: "chainId" })));
+  }
+
+  async _perform<T = unknown>(req: PerformActionRequest): Promise<T> {
+    if (req.method === "getBlockNumber") {
+      return (await this._quorumBlockNumber()) as T;
+    }
+
+    let lastError: unknown;
+    for (const ep of this._rank()) {
+      try {
+        return await this._send<T>(ep, req);
+      } catch (err) {
+        if (isDeterministic(err)) throw err;
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+
+  destroy(): void {
+    for (const ep of this.endpoints) {
+      ep.provider.destroy();
+    }
+    super.destroy();
+  }
+
+  /**
+   * Internal: fan eth_blockNumber out to every available endpoint and return
+   * the highest block reported by at least `quorum` of them.
+   */
+  private async _quorumBlockNumber(): Promise<number> {
+    const now = Date.now();
+    const available = this.endpoints.filter((ep) => ep.benchedUntil <= now);
+    const targets = available.length > 0 ? available : this.endpoints;
+
+    const results = await Promise.allSettled(
+      targets.map(async (ep) => {
+        const block = getNumber(await this._send(ep, { method: "getBlockNumber" }));
+        ep.headBlock = Math.max(ep.headBlock, block);
+        return block;
+      }),
+    );
+
+    const heads = results
+      .filter((r): r is PromiseFulfilledResult<number> => r.status === "fulfilled")
+      .map((r) => r.value)
+      .sort((a, b) => b - a);
+
+    if (heads.length < this.quorum) {
+      const firstError = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+      if (heads.length === 0 && firstError) throw firstError.reason;
+      throw new Error(
+        `RPC quorum not reached: ${heads.length}/${this.quorum} endpoints reported a block number`,
+      );
+    }
+    return heads[this.quorum - 1];
+  }
+
+  /** Internal: send one request to one endpoint and record the outcome */
+  private async _send<T>(ep: Endpoint, req: PerformActionRequest): Promise<T> {
+    const start = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const result = await Promise.race([
+        ep.provider._perform<T>(req),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`RPC request ${req.method} to ${ep.host} timed out after ${this.requestTimeoutMs}ms`)),
+            this.requestTimeoutMs,
+          );
+        }),
+      ]);
+      this._recordSuccess(ep, Date.now() - start);
+      return result;
+    } catch (err) {
+      // The endpoint answered — the request itself was bad
+      if (isDeterministic(err)) {
+        this._recordSuccess(ep, Date.now() - start);
+      } else {
+        this._recordFailure(ep);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private _recordSuccess(ep: Endpoint, latencyMs: number): void {
+    ep.latencyMs = ep.latencyMs === 0
+      ? latencyMs
+      : ep.latencyMs + EWMA_ALPHA * (latencyMs - ep.latencyMs);
+    ep.errorRate *= 1 - EWMA_ALPHA;
+    ep.consecutiveFailures = 0;
+    ep.benchedUntil = 0;
+  }
+
+  private _recordFailure(ep: Endpoint): void {
+    ep.errorRate += EWMA_ALPHA * (1 - ep.errorRate);
+    ep.consecutiveFailures++;
+    if (ep.consecutiveFailures >= this.maxConsecutiveFailures) {
+      ep.benchedUntil = Date.now() + this.cooldownMs;
+    }
+  }
+
+  private _headLag(ep: Endpoint): number {
+    if (ep.headBlock < 0) return 0;
+    const best = Math.max(...this.endpoints.map((e) => e.headBlock));
+    return best - ep.headBlock;
+  }
+
+  private _score(ep: Endpoint): number {
+    return ep.latencyMs + ep.errorRate * ERROR_PENALTY_MS + this._headLag(ep) * LAG_PENALTY_MS;
+  }
+
+  /**
+   * Internal: endpoints in routing order — in-sync endpoints by score, then
+   * lagging ones, then benched ones as a last resort.
+   */
+  private _rank(): Endpoint[] {
+    const now = Date.now();
+    const tier = (ep: Endpoint): number => {
+      if (ep.benchedUntil > now) return 2;
+      return this._headLag(ep) > this.maxHeadLag ? 1 : 0;
+    };
+    return [...this.endpoints].sort((a, b) => tier(a) - tier(b) || this._score(a) - this._score(b));
+  }
+}
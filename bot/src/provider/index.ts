@@ -0,0 +1,2 @@
+export { MultiRpcProvider } from "./MultiRpcProvider.js";
+export type { EndpointHealth, MultiRpcProviderConfig } from "./types.js";
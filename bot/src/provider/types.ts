@@ -0,0 +1,39 @@
+/** Configuration for the MultiRpcProvider */
+export interface MultiRpcProviderConfig {
+  /** HTTP JSON-RPC endpoints, primary first (ties in health score go to the earlier URL) */
+  urls: string[];
+  /** WebSocket endpoints, primary first — PriceMonitor rotates through them on reconnect */
+  wsUrls?: string[];
+  /** Chain ID. Pins the network so endpoints never run chain detection */
+  chainId?: number;
+  /** Endpoints that must report a block number before getBlockNumber() resolves. Default: 1 */
+  quorum?: number;
+  /** Per-request timeout before failing over to the next endpoint (ms). Default: 10000 */
+  requestTimeoutMs?: number;
+  /** Consecutive failures before an endpoint is benched. Default: 3 */
+  maxConsecutiveFailures?: number;
+  /** How long a benched endpoint is skipped (ms). Default: 30000 */
+  cooldownMs?: number;
+  /** Blocks behind the best known head before an endpoint is deprioritized. Default: 3 */
+  maxHeadLag?: number;
+}
+
+/** Point-in-time health of one RPC endpoint */
+export interface EndpointHealth {
+  /** Endpoint host (the full URL may embed an API key) */
+  host: string;
+  /** Exponentially weighted response latency (ms). 0 until the first response */
+  latencyMs: number;
+  /** Exponentially weighted failure rate, 0..1 */
+  errorRate: number;
+  /** Last block number reported by the endpoint (-1 if unknown) */
+  headBlock: number;
+  /** Blocks behind the highest head reported by any endpoint */
+  headLag: number;
+  /** Failures since the last successful response */
+  consecutiveFailures: number;
+  /** Whether the endpoint is benched after repeated failures */
+  benched: boolean;
+  /** Routing score — lower is better */
+  score: number;
+}
@@ -1,4 +1,5 @@
 import type { ArbitrageOpportunity } from "./detector/types.js";
+import { toEth } from "./detector/TokenValuation.js";
 
 export interface ScanStats {
   pollCount: number;
@@ -11,18 +12,20 @@ export interface ScanStats {
 
 /**
  * Format a detailed opportunity report for console output.
- * Shows token pair, pools, spread, profit breakdown, and execute/skip decision.
+ * Shows token pair, pools, spread (or the cycle's spot return), profit
+ * breakdown, and execute/skip decision. Amounts are in the path's base
+ * token; when that is not ETH, profits are also shown in ETH (and USD).
  */
 export function formatOpportunityReport(
   opp: ArbitrageOpportunity,
   dryRun: boolean,
 ): string {
-  const { priceDelta, costs, path } = opp;
-  const buyLabel = priceDelta.buyPool.pool.label;
-  const sellLabel = priceDelta.sellPool.pool.label;
-  const buyPrice = priceDelta.buyPool.price;
-  const sellPrice = priceDelta.sellPool.price;
-  const spread = priceDelta.deltaPercent;
+  const { priceDelta, cycle, costs, path, valuation } = opp;
+  // ETH equivalent of a base-token amount, when the base token is not ETH
+  const inEth = (amount: number): string =>
+    valuation && valuation.ethPerBase !== 1 ? ` (${toEth(opp, amount).toFixed(6)} ETH)` : "";
+  // Gas costs are always in ETH; label them when the rest of the report is not
+  const gasUnit = valuation && valuation.ethPerBase !== 1 ? " ETH" : "";
 
   const profitable = opp.netProfit > 0;
   let decision: string;
@@ -38,12 +41,26 @@ export function formatOpportunityReport(
     `  OPPORTUNITY DETECTED`,
     `${"=".repeat(60)}`,
     `  Path:         ${path.label}`,
-    `  Buy pool:     ${buyLabel} @ ${buyPrice.toFixed(4)}`,
-    `  Sell pool:    ${sellLabel} @ ${sellPrice.toFixed(4)}`,
-    `  Spread:       ${spread.toFixed(2)}%`,
+  ];
+  if (priceDelta) {
+    lines.push(
+      `  Buy pool:     ${priceDelta.buyPool.pool.label} @ ${priceDelta.buyPool.price.toFixed(4)}`,
+      `  Sell pool:    ${priceDelta.sellPool.pool.label} @ ${priceDelta.sellPool.price.toFixed(4)}`,
+      `  Spread:       ${priceDelta.deltaPercent.toFixed(2)}%`,
+    );
+  } else if (cycle) {
+    lines.push(
+      `  Cycle:        ${cycle.edges.length} hops`,
+      `  Spot return:  ${((cycle.rate - 1) * 100).toFixed(2)}% (after trading fees)`,
+    );
+  }
+  lines.push(
     `  Block:        ${opp.blockNumber}`,
     `${"─".repeat(60)}`,
-  ];
+  );
+  if (valuation && valuation.ethPerBase !== 1) {
+    lines.push(`  Base token:   ${valuation.baseToken} @ ${valuation.ethPerBase.toPrecision(6)} ETH`);
+  }
 
   // Show input amount with optimization context
   if (opp.optimizationResult) {
@@ -61,18 +78,31 @@ export function formatOpportunityReport(
   }
 
   lines.push(
-    `  Gross profit: ${opp.grossProfit.toFixed(6)}`,
+    `  Gross profit: ${opp.grossProfit.toFixed(6)}${inEth(opp.grossProfit)}`,
     `  Costs:`,
-    `    Flash loan fee: ${costs.flashLoanFee.toFixed(6)}`,
-    `    Gas cost:       ${costs.gasCost.toFixed(6)}`,
+    `    Flash loan fee: ${costs.flashLoanFee.toFixed(6)}${
+      opp.flashLoan ? ` (${opp.flashLoan.provider}, ${(opp.flashLoan.feeRate * 100).toFixed(3)}%)` : ""
+    }`,
+    `    Gas cost:       ${costs.gasCostEth.toFixed(6)}${gasUnit}`,
   );
-  if (costs.l1DataFee !== undefined && costs.l1DataFee > 0) {
-    lines.push(`    L1 data fee:    ${costs.l1DataFee.toFixed(6)}`);
+  if (costs.l1DataFeeEth !== undefined && costs.l1DataFeeEth > 0) {
+    lines.push(`    L1 data fee:    ${costs.l1DataFeeEth.toFixed(6)}${gasUnit}`);
   }
   lines.push(
     `    Slippage:       ${costs.slippageCost.toFixed(6)}`,
     `    Total costs:    ${costs.totalCost.toFixed(6)}`,
-    `  Net profit:   ${opp.netProfit.toFixed(6)} (${opp.netProfitPercent.toFixed(3)}%)`,
+    `  Net profit:   ${opp.netProfit.toFixed(6)} (${opp.netProfitPercent.toFixed(3)}%)${inEth(opp.netProfit)}`,
+  );
+  if (valuation?.netProfitUsd !== undefined) {
+    lines.push(`  Net (USD):    $${valuation.netProfitUsd.toFixed(2)}`);
+  }
+  if (opp.policy) {
+    lines.push(`  Policy:`);
+    for (const verdict of opp.policy) {
+      lines.push(`    ${verdict.rule}: ${verdict.outcome} (${verdict.detail})`);
+    }
+  }
+  lines.push(
     `${"─".repeat(60)}`,
     `  Decision:     ${decision}`,
     `${"=".repeat(60)}`,
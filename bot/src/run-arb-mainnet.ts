@@ -8,6 +8,9 @@
  *
  * Environment Variables:
  * - RPC_URL: Arbitrum One RPC endpoint (required)
+ * - FALLBACK_RPC_URL: Comma-separated backup RPC endpoints (failover, health-ranked routing)
+ * - FALLBACK_WS_URL: Comma-separated backup WebSocket endpoints (tried in turn on reconnect)
+ * - RPC_QUORUM: Endpoints that must agree on the block number before acting (default: 1)
  * - BOT_PRIVATE_KEY: Bot wallet private key for signing transactions (required for shadow/live modes)
  * - EXECUTOR_ADDRESS: FlashloanExecutor contract address (required for shadow/live modes)
  * - ADAPTER_UNISWAP_V2: UniswapV2Adapter contract address
@@ -17,16 +20,29 @@
  * - ADAPTER_CAMELOT_V2: CamelotV2Adapter contract address (reuses UniswapV2Adapter with Camelot router)
  * - ADAPTER_CAMELOT_V3: CamelotV3Adapter contract address
  * - ADAPTER_TRADERJOE_LB: TraderJoeLBAdapter contract address
+ * - ADAPTER_CURVE_STABLESWAP: CurveStableSwapAdapter contract address
+ * - ADAPTER_BALANCER_V2: BalancerV2Adapter contract address
+ * - ADAPTER_UNISWAP_V4: UniswapV4Adapter contract address
+ * - EVENT_DRIVEN: "true" to update pools from Sync/Swap logs over WS_URL instead of polling every block
+ * - POOL_DISCOVERY: "true" to discover additional pools from DEX factories at runtime
+ * - VERIFY_POOLS: Startup check of pool definitions on-chain — "disable" (default) drops mismatched pools,
+ *   "strict" refuses to start, "off" skips it (standalone: pnpm verify-pools)
+ * - QUOTE_VERIFY: "true" to quote each opportunity through the DEX quoters before emitting it
  * - LOG_LEVEL: Logging level (debug, info, warn, error)
  */
 import "dotenv/config";
-import { JsonRpcProvider, Wallet } from "ethers";
-import { loadChainConfig } from "./config/index.js";
+import { Wallet } from "ethers";
+import { loadChainConfig, parseUrlList } from "./config/index.js";
 import { FlashloanBot, BOT_VERSION } from "./index.js";
 import { estimateArbitrumGas, gasComponentsToEth } from "./gas/index.js";
-import type { ArbitrageOpportunity } from "./detector/types.js";
-import type { PriceSnapshot, PriceDelta } from "./monitor/types.js";
+import type { ArbitrageCycle, ArbitrageOpportunity } from "./detector/types.js";
+import { cycleLabel } from "./detector/cycles.js";
+import { toEth } from "./detector/TokenValuation.js";
+import { QuoteVerifier, quotersFromDexes } from "./detector/QuoteVerifier.js";
+import type { GapEvent, LiquidityViability, PriceSnapshot, PriceDelta, ReorgEvent } from "./monitor/types.js";
 import { TradeStore } from "./dashboard/TradeStore.js";
+import { PoolDiscovery, factoriesFromDexes } from "./discovery/index.js";
+import type { PoolDefinition } from "./config/types.js";
 import type { TradeOutcome } from "./dashboard/types.js";
 
 // ---------------------------------------------------------------------------
@@ -61,12 +77,6 @@ const stats: Stats = {
   startTime: Date.now(),
 };
 
-// ---------------------------------------------------------------------------
-// TJ LB stale-bin tracking: pool address → { activeId, count }
-// ---------------------------------------------------------------------------
-const lbBinTracker = new Map<string, { activeId: number; count: number }>();
-const STALE_BIN_THRESHOLD = 5;
-
 // ---------------------------------------------------------------------------
 // Logging helpers
 // ---------------------------------------------------------------------------
@@ -159,19 +169,8 @@ async function main(): Promise<void> {
       process.exit(1);
     }
 
-    const provider = new JsonRpcProvider(chain.rpcUrl);
-    wallet = new Wallet(privateKey, provider);
-
-    console.log(c.cyan(`  Wallet:   ${wallet.address}`));
-    console.log(c.cyan(`  Balance:  (checking...)`));
-
-    const balance = await provider.getBalance(wallet.address);
-    const balanceEth = Number(balance) / 1e18;
-    console.log(c.cyan(`            ${balanceEth.toFixed(6)} ETH\n`));
-
-    if (balanceEth < 0.01) {
-      console.warn(c.yellow(`[WARN] Low wallet balance (${balanceEth.toFixed(6)} ETH). Ensure you have enough ETH for gas.`));
-    }
+    // Connected to the bot's shared MultiRpcProvider once the bot is built
+    wallet = new Wallet(privateKey);
 
     // Guard: EXECUTOR_ADDRESS must be set for shadow/live mode
     const executorAddr = process.env.EXECUTOR_ADDRESS;
@@ -196,10 +195,15 @@ async function main(): Promise<void> {
       camelot_v2: process.env.ADAPTER_CAMELOT_V2 ?? "0x0000000000000000000000000000000000000000",
       camelot_v3: process.env.ADAPTER_CAMELOT_V3 ?? "0x0000000000000000000000000000000000000000",
       traderjoe_lb: process.env.ADAPTER_TRADERJOE_LB ?? "0x0000000000000000000000000000000000000000",
+      curve_stableswap: process.env.ADAPTER_CURVE_STABLESWAP ?? "0x0000000000000000000000000000000000000000",
+      balancer_v2: process.env.ADAPTER_BALANCER_V2 ?? "0x0000000000000000000000000000000000000000",
+      uniswap_v4: process.env.ADAPTER_UNISWAP_V4 ?? "0x0000000000000000000000000000000000000000",
     },
     flashLoanProviders: {
       aave_v3: chain.protocols.aaveV3Pool,
       balancer: chain.protocols.balancerVault,
+      uniswap_v3: chain.dexes.uniswapV3?.factory,
+      dydx: chain.protocols.dydxSoloMargin,
     },
   } : undefined;
 
@@ -207,17 +211,46 @@ async function main(): Promise<void> {
   // This avoids the default config path that hardcodes Ethereum/Sepolia values.
   const bot = new FlashloanBot(
     {
-      network: { rpcUrl: chain.rpcUrl, chainId: chain.chainId, wsUrl: process.env.WS_URL },
+      network: {
+        rpcUrl: chain.rpcUrl,
+        chainId: chain.chainId,
+        wsUrl: process.env.WS_URL,
+        fallbackRpcUrls: parseUrlList(chain.fallbackRpcUrl),
+        fallbackWsUrls: parseUrlList(process.env.FALLBACK_WS_URL),
+        rpcQuorum: process.env.RPC_QUORUM ? parseInt(process.env.RPC_QUORUM, 10) : undefined,
+      },
       pools: chain.pools,
-      monitor: chain.monitor,
+      monitor: { ...chain.monitor, eventDriven: process.env.EVENT_DRIVEN === "true" },
       detector: chain.detector,
       logLevel: (process.env.LOG_LEVEL as "debug" | "info" | "warn" | "error") ?? "debug",
+      poolVerification: {
+        mode: (process.env.VERIFY_POOLS as "off" | "disable" | "strict" | undefined) ?? "disable",
+        factories: factoriesFromDexes(chain.dexes),
+      },
     },
     dryRun,
     executionConfig,
     tradeStore,
   );
 
+  if (bot.provider.endpointCount > 1) {
+    const hosts = bot.provider.getEndpointHealth().map((h) => h.host).join(", ");
+    console.log(c.cyan(`  RPCs:     ${hosts} (quorum ${bot.provider.quorum})`));
+  }
+
+  if (wallet) {
+    console.log(c.cyan(`  Wallet:   ${wallet.address}`));
+    console.log(c.cyan(`  Balance:  (checking...)`));
+
+    const balance = await bot.provider.getBalance(wallet.address);
+    const balanceEth = Number(balance) / 1e18;
+    console.log(c.cyan(`            ${balanceEth.toFixed(6)} ETH\n`));
+
+    if (balanceEth < 0.01) {
+      console.warn(c.yellow(`[WARN] Low wallet balance (${balanceEth.toFixed(6)} ETH). Ensure you have enough ETH for gas.`));
+    }
+  }
+
   // ---- Inject Arbitrum gas estimator ----
   // Uses NodeInterface precompile at 0xC8 for accurate L1+L2 cost breakdown.
   // In dry-run mode (no executor deployed), use static estimates silently.
@@ -244,8 +277,7 @@ async function main(): Promise<void> {
     const dummyData = "0x" + "00".repeat(estimatedCalldataSize);
 
     try {
-      const provider = new JsonRpcProvider(chain.rpcUrl);
-      const components = await estimateArbitrumGas(provider, executorAddr, dummyData);
+      const components = await estimateArbitrumGas(bot.provider, executorAddr, dummyData);
       const ethCosts = gasComponentsToEth(components);
       return { gasCost: ethCosts.l2CostEth, l1DataFee: ethCosts.l1CostEth };
     } catch (err) {
@@ -262,6 +294,9 @@ async function main(): Promise<void> {
   };
 
   bot.detector.setGasEstimator(arbGasEstimator);
+  if (process.env.QUOTE_VERIFY === "true") {
+    bot.detector.setQuoteVerifier(new QuoteVerifier({ provider: bot.provider, quoters: quotersFromDexes(chain.dexes) }));
+  }
 
   // ---- Event listeners ----
 
@@ -281,24 +316,15 @@ async function main(): Promise<void> {
           `block=${snapshot.blockNumber}${binSuffix}`,
       ),
     );
+  });
 
-    // Track TJ LB bin staleness
-    if (snapshot.pool.dex === "traderjoe_lb" && snapshot.activeId !== undefined) {
-      const key = snapshot.pool.poolAddress.toLowerCase();
-      const prev = lbBinTracker.get(key);
-      if (prev && prev.activeId === snapshot.activeId) {
-        prev.count++;
-        if (prev.count === STALE_BIN_THRESHOLD) {
-          console.warn(
-            c.yellow(
-              `[${ts()}] [WARN] Stale bin: ${snapshot.pool.label} binId=${snapshot.activeId} unchanged for ${prev.count} cycles`,
-            ),
-          );
-        }
-      } else {
-        lbBinTracker.set(key, { activeId: snapshot.activeId, count: 1 });
-      }
-    }
+  // TJ LB stale bins (the chain's staleBin risk rule rejects paths through them)
+  bot.detector.policy.on("staleBin", (_pool: string, label: string, activeId: number, unchangedSeconds: number, rule: string) => {
+    console.warn(
+      c.yellow(
+        `[${ts()}] [WARN] Stale bin: ${label} binId=${activeId} unchanged for ${unchangedSeconds.toFixed(0)}s (rule "${rule}")`,
+      ),
+    );
   });
 
   // Opportunities found (green = would execute, yellow = unprofitable)
@@ -313,11 +339,34 @@ async function main(): Promise<void> {
     for (let i = 0; i < opp.path.steps.length; i++) {
       const step = opp.path.steps[i];
       let feeRate: string;
-      if (step.dex === "traderjoe_lb") {
+      if (step.dex === "traderjoe_lb" && step.lbFee !== undefined) {
+        // LB: live base + variable fee with 1e18 precision
+        feeRate = `${(Number(step.lbFee) / 1e16).toFixed(3)}% (LB)`;
+      } else if (step.dex === "traderjoe_lb") {
         // LB: feeTier is binStep in basis points (15 = 0.15%)
         // Show with 50% buffer indicator matching getSwapFeeRate() logic
         const basePct = (step.feeTier ?? 0) / 100; // bps to percent
         feeRate = `${basePct.toFixed(2)}% (LB, +50% buffer)`;
+      } else if (step.dex === "curve_stableswap") {
+        // Curve: live fee() with 1e10 precision (4 bps when not read)
+        const pct = step.stableSwap ? Number(step.stableSwap.fee) / 1e8 : 0.04;
+        feeRate = `${pct.toFixed(2)}% (Curve)`;
+      } else if (step.dex === "balancer_v2") {
+        // Balancer: live getSwapFeePercentage() with 1e18 precision (0.3% when not read)
+        const pct = step.balancer ? Number(step.balancer.swapFee) / 1e16 : 0.3;
+        feeRate = `${pct.toFixed(2)}% (Balancer)`;
+      } else if (step.dex === "uniswap_v4") {
+        // V4: live lpFee from slot0 in hundredths of a bip (dynamic-fee pools have no static tier)
+        const fee = step.lpFee ?? step.feeTier;
+        feeRate = fee !== undefined && fee !== 0x800000 ? `${(fee / 10000).toFixed(2)}% (V4)` : "0.30% (V4 dynamic)";
+      } else if (step.camelotV2) {
+        // Camelot V2: live fee of the input token over 100000
+        const { pair, zeroForOne } = step.camelotV2;
+        const pct = (zeroForOne ? pair.token0FeePercent : pair.token1FeePercent) / 1000;
+        feeRate = `${pct.toFixed(3)}% (Camelot${pair.stableSwap ? " stable" : ""})`;
+      } else if (step.lpFee !== undefined) {
+        // Camelot V3 / Ramses V3: live fee in hundredths of a bip
+        feeRate = `${(step.lpFee / 10000).toFixed(3)}% (live)`;
       } else if (step.feeTier !== undefined) {
         // V3: feeTier in hundredths of a bip (500 = 0.05%, 3000 = 0.3%)
         feeRate = `${(step.feeTier / 10000).toFixed(2)}%`;
@@ -325,17 +374,31 @@ async function main(): Promise<void> {
         // V2: standard 0.3%
         feeRate = "0.30% (V2)";
       }
-      const direction = i === 0 ? "Buy" : "Sell";
+      const direction = opp.cycle ? `Hop ${i + 1}` : i === 0 ? "Buy" : "Sell";
       console.log(col(`  ${direction} fee:   ${feeRate} on ${step.dex}`));
     }
     const combinedFee = opp.path.steps.reduce((sum, s) => {
       let rate: number;
       if (s.dex === "traderjoe_lb") {
-        // LB: feeTier is binStep in bps, with 50% buffer
-        rate = ((s.feeTier ?? 0) / 10_000) * 1.5;
-      } else if (s.feeTier !== undefined) {
-        // V3: feeTier in hundredths of a bip
-        rate = s.feeTier / 1_000_000;
+        // LB: live fee with 1e18 precision, else binStep in bps with 50% buffer
+        rate = s.lbFee !== undefined ? Number(s.lbFee) / 1e18 : ((s.feeTier ?? 0) / 10_000) * 1.5;
+      } else if (s.dex === "curve_stableswap") {
+        // Curve: live fee() with 1e10 precision
+        rate = s.stableSwap ? Number(s.stableSwap.fee) / 1e10 : 0.0004;
+      } else if (s.dex === "balancer_v2") {
+        // Balancer: live getSwapFeePercentage() with 1e18 precision
+        rate = s.balancer ? Number(s.balancer.swapFee) / 1e18 : 0.003;
+      } else if (s.dex === "uniswap_v4") {
+        // V4: live lpFee, else the PoolKey fee
+        const fee = s.lpFee ?? s.feeTier;
+        rate = fee !== undefined && fee !== 0x800000 ? fee / 1_000_000 : 0.003;
+      } else if (s.camelotV2) {
+        // Camelot V2: live fee of the input token over 100000
+        const { pair, zeroForOne } = s.camelotV2;
+        rate = (zeroForOne ? pair.token0FeePercent : pair.token1FeePercent) / 100_000;
+      } else if (s.feeTier !== undefined || s.lpFee !== undefined) {
+        // V3: live fee (Camelot V3 / Ramses V3), else feeTier, in hundredths of a bip
+        rate = (s.lpFee ?? s.feeTier!) / 1_000_000;
       } else {
         // V2: standard 0.3%
         rate = 0.003;
@@ -343,16 +406,26 @@ async function main(): Promise<void> {
       return sum + rate;
     }, 0);
     console.log(col(`  Cost floor: ~${(combinedFee * 100).toFixed(2)}% (trading fees only)`));
-    console.log(col(`  Input:      ${opp.inputAmount} ETH`));
-    console.log(col(`  Gross:      ${opp.grossProfit.toFixed(8)} ETH`));
-    console.log(col(`  Gas (L2):   ${opp.costs.gasCost.toFixed(8)} ETH`));
-    if (opp.costs.l1DataFee !== undefined) {
-      console.log(col(`  L1 data fee:${opp.costs.l1DataFee.toFixed(8)} ETH`));
+    if (opp.valuation && opp.valuation.ethPerBase !== 1) {
+      console.log(col(`  Base token: ${opp.valuation.baseToken} @ ${opp.valuation.ethPerBase.toPrecision(6)} ETH (input ${opp.inputAmount.toFixed(4)})`));
+    }
+    console.log(col(`  Input:      ${toEth(opp, opp.inputAmount)} ETH`));
+    console.log(col(`  Gross:      ${toEth(opp, opp.grossProfit).toFixed(8)} ETH`));
+    console.log(col(`  Gas (L2):   ${opp.costs.gasCostEth.toFixed(8)} ETH`));
+    if (opp.costs.l1DataFeeEth !== undefined) {
+      console.log(col(`  L1 data fee:${opp.costs.l1DataFeeEth.toFixed(8)} ETH`));
+    }
+    console.log(col(`  Flash fee:  ${toEth(opp, opp.costs.flashLoanFee).toFixed(8)} ETH${opp.flashLoan ? ` (${opp.flashLoan.provider})` : ""}`));
+    console.log(col(`  Slippage:   ${toEth(opp, opp.costs.slippageCost).toFixed(8)} ETH`));
+    console.log(col(`  Total cost: ${toEth(opp, opp.costs.totalCost).toFixed(8)} ETH`));
+    console.log(col(`  Net profit: ${toEth(opp, opp.netProfit).toFixed(8)} ETH (${opp.netProfitPercent.toFixed(4)}%)`));
+    if (opp.valuation?.netProfitUsd !== undefined) {
+      console.log(col(`  Net (USD):  $${opp.valuation.netProfitUsd.toFixed(2)} at $${opp.valuation.usdPerEth!.toFixed(2)}/ETH`));
+    }
+    if (opp.quote) {
+      console.log(col(`  Quoted out: ${toEth(opp, opp.quote.quotedOutput).toFixed(8)} ETH (modeled ${toEth(opp, opp.quote.modeledOutput).toFixed(8)}, block ${opp.quote.blockNumber})`));
+      console.log(col(`  Quoted net: ${toEth(opp, opp.quote.quotedNetProfit).toFixed(8)} ETH`));
     }
-    console.log(col(`  Flash fee:  ${opp.costs.flashLoanFee.toFixed(8)} ETH`));
-    console.log(col(`  Slippage:   ${opp.costs.slippageCost.toFixed(8)} ETH`));
-    console.log(col(`  Total cost: ${opp.costs.totalCost.toFixed(8)} ETH`));
-    console.log(col(`  Net profit: ${opp.netProfit.toFixed(8)} ETH (${opp.netProfitPercent.toFixed(4)}%)`));
     console.log(col(`  Block:      ${opp.blockNumber}`));
     const decision = profitable
       ? (liveMode ? "EXECUTE (live)" : shadowMode ? "SIMULATE (shadow)" : "WOULD EXECUTE (dry-run)")
@@ -362,11 +435,14 @@ async function main(): Promise<void> {
   });
 
   // Opportunities rejected (red — clearly not profitable)
-  bot.detector.on("opportunityRejected", (reason: string, delta: PriceDelta) => {
+  bot.detector.on("opportunityRejected", (reason: string, delta: PriceDelta | undefined, cycle?: ArbitrageCycle) => {
     stats.opportunitiesRejected++;
+    const subject = delta
+      ? `pair=${delta.pair} delta=${delta.deltaPercent.toFixed(4)}%`
+      : `cycle=${cycleLabel(cycle!)}`;
     console.log(
       c.red(
-        `[${ts()}] [REJECTED] ${reason} | pair=${delta.pair} delta=${delta.deltaPercent.toFixed(4)}%`,
+        `[${ts()}] [REJECTED] ${reason} | ${subject}`,
       ),
     );
   });
@@ -381,6 +457,22 @@ async function main(): Promise<void> {
     console.warn(c.yellow(`[${ts()}] [STALE] Pool marked stale: ${pool.label}`));
   });
 
+  bot.monitor.on("reorg", (reorg: ReorgEvent) => {
+    console.warn(c.yellow(`[${ts()}] [REORG] Blocks ${reorg.fromBlock}-${reorg.toBlock} orphaned — snapshots dropped`));
+  });
+
+  bot.monitor.on("gap", (gap: GapEvent) => {
+    console.warn(c.yellow(`[${ts()}] [GAP] Blocks ${gap.fromBlock}-${gap.toBlock} missed while disconnected — ${gap.backfill === "logs" ? "pool logs replayed" : "all pools re-read"}`));
+  });
+
+  bot.monitor.on("lowLiquidity", (v: LiquidityViability) => {
+    console.warn(c.yellow(`[${ts()}] [LIQUIDITY] ${v.pool.label} non-viable: ${v.liquidityWeth.toFixed(2)} WETH (min: ${v.minLiquidityWeth})`));
+  });
+
+  bot.monitor.on("liquidityRestored", (v: LiquidityViability) => {
+    console.log(c.green(`[${ts()}] [LIQUIDITY] ${v.pool.label} viable again: ${v.liquidityWeth.toFixed(2)} WETH`));
+  });
+
   bot.detector.on("error", (err: unknown) => {
     stats.errors++;
     console.error(c.red(`[${ts()}] [ERROR] Detector: ${err instanceof Error ? err.message : String(err)}`));
@@ -401,6 +493,27 @@ async function main(): Promise<void> {
     }
   }, 300_000); // Every 5 minutes
 
+  // ---- Pool discovery (opt-in) ----
+  // Reads factories in chain.dexes for every pair of chain.tokens, then watches
+  // PairCreated/PoolCreated logs. Pools above the liquidity floor are added live.
+  let discovery: PoolDiscovery | undefined;
+  if (process.env.POOL_DISCOVERY === "true") {
+    discovery = new PoolDiscovery({
+      provider: bot.provider,
+      dexes: chain.dexes,
+      tokens: chain.tokens,
+      knownPools: chain.pools.map((p) => p.poolAddress),
+    });
+    discovery.on("poolDiscovered", (pool: PoolDefinition) => {
+      bot.monitor.addPools([pool]);
+      console.log(c.magenta(`[${ts()}] [DISCOVERY] Added ${pool.label} (${pool.poolAddress})`));
+    });
+    discovery.on("error", (err: Error) => {
+      stats.errors++;
+      console.error(c.red(`[${ts()}] [ERROR] Discovery: ${err.message}`));
+    });
+  }
+
   // ---- Graceful shutdown ----
   let shuttingDown = false;
   const shutdown = async (): Promise<void> => {
@@ -410,6 +523,7 @@ async function main(): Promise<void> {
     console.log(c.bold(`\n[${ts()}] [SHUTDOWN] Stopping Arbitrum One monitor...`));
     clearInterval(priceStatsInterval);
     clearInterval(tradeStatsInterval);
+    discovery?.stop();
     await bot.stop();
 
     // Display final session stats
@@ -431,6 +545,9 @@ async function main(): Promise<void> {
 
   // ---- Start ----
   await bot.start();
+  if (discovery) {
+    await discovery.start();
+  }
 
   // Warn if no pools configured (expected initially — requires on-chain discovery)
   if (chain.pools.length === 0) {
@@ -1,9 +1,10 @@
 import "dotenv/config";
-import { JsonRpcProvider } from "ethers";
 import { loadChainConfig } from "./config/index.js";
 import { FlashloanBot, BOT_VERSION } from "./index.js";
 import { estimateArbitrumGas, gasComponentsToEth } from "./gas/index.js";
-import type { ArbitrageOpportunity } from "./detector/types.js";
+import type { ArbitrageCycle, ArbitrageOpportunity } from "./detector/types.js";
+import { cycleLabel } from "./detector/cycles.js";
+import { toEth } from "./detector/TokenValuation.js";
 import type { PriceSnapshot, PriceDelta } from "./monitor/types.js";
 
 // ---------------------------------------------------------------------------
@@ -107,8 +108,7 @@ async function main(): Promise<void> {
     const flashloanExecutor = chain.protocols.aaveV3Pool;
 
     try {
-      const provider = new JsonRpcProvider(chain.rpcUrl);
-      const components = await estimateArbitrumGas(provider, flashloanExecutor, dummyData);
+      const components = await estimateArbitrumGas(bot.provider, flashloanExecutor, dummyData);
       const ethCosts = gasComponentsToEth(components);
       return { gasCost: ethCosts.l2CostEth, l1DataFee: ethCosts.l1CostEth };
     } catch (err) {
@@ -144,16 +144,16 @@ async function main(): Promise<void> {
     const tag = profitable ? "OPPORTUNITY" : "OPPORTUNITY (unprofitable)";
     console.log(col(`[${ts()}] [${tag}] ================================`));
     console.log(col(`  Path:       ${opp.path.label}`));
-    console.log(col(`  Input:      ${opp.inputAmount} ETH`));
-    console.log(col(`  Gross:      ${opp.grossProfit.toFixed(8)} ETH`));
-    console.log(col(`  Gas (L2):   ${opp.costs.gasCost.toFixed(8)} ETH`));
-    if (opp.costs.l1DataFee !== undefined) {
-      console.log(col(`  L1 data fee:${opp.costs.l1DataFee.toFixed(8)} ETH`));
+    console.log(col(`  Input:      ${toEth(opp, opp.inputAmount)} ETH`));
+    console.log(col(`  Gross:      ${toEth(opp, opp.grossProfit).toFixed(8)} ETH`));
+    console.log(col(`  Gas (L2):   ${opp.costs.gasCostEth.toFixed(8)} ETH`));
+    if (opp.costs.l1DataFeeEth !== undefined) {
+      console.log(col(`  L1 data fee:${opp.costs.l1DataFeeEth.toFixed(8)} ETH`));
     }
-    console.log(col(`  Flash fee:  ${opp.costs.flashLoanFee.toFixed(8)} ETH`));
-    console.log(col(`  Slippage:   ${opp.costs.slippageCost.toFixed(8)} ETH`));
-    console.log(col(`  Total cost: ${opp.costs.totalCost.toFixed(8)} ETH`));
-    console.log(col(`  Net profit: ${opp.netProfit.toFixed(8)} ETH (${opp.netProfitPercent.toFixed(4)}%)`));
+    console.log(col(`  Flash fee:  ${toEth(opp, opp.costs.flashLoanFee).toFixed(8)} ETH`));
+    console.log(col(`  Slippage:   ${toEth(opp, opp.costs.slippageCost).toFixed(8)} ETH`));
+    console.log(col(`  Total cost: ${toEth(opp, opp.costs.totalCost).toFixed(8)} ETH`));
+    console.log(col(`  Net profit: ${toEth(opp, opp.netProfit).toFixed(8)} ETH (${opp.netProfitPercent.toFixed(4)}%)`));
     console.log(col(`  Block:      ${opp.blockNumber}`));
     const decision = profitable ? "WOULD EXECUTE (dry-run)" : "SKIP (costs exceed profit)";
     console.log(col(`  [${decision}]`));
@@ -161,11 +161,14 @@ async function main(): Promise<void> {
   });
 
   // Opportunities rejected (dim — noise)
-  bot.detector.on("opportunityRejected", (reason: string, delta: PriceDelta) => {
+  bot.detector.on("opportunityRejected", (reason: string, delta: PriceDelta | undefined, cycle?: ArbitrageCycle) => {
     stats.opportunitiesRejected++;
+    const subject = delta
+      ? `pair=${delta.pair} delta=${delta.deltaPercent.toFixed(4)}%`
+      : `cycle=${cycleLabel(cycle!)}`;
     console.log(
       c.dim(
-        `[${ts()}] [REJECTED] ${reason} | pair=${delta.pair} delta=${delta.deltaPercent.toFixed(4)}%`,
+        `[${ts()}] [REJECTED] ${reason} | ${subject}`,
       ),
     );
   });
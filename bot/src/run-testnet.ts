@@ -4,7 +4,9 @@ import { resolve } from "node:path";
 import { FlashloanBot, BOT_VERSION } from "./index.js";
 import { SEPOLIA_TOKENS, SEPOLIA_MONITOR, SEPOLIA_DETECTOR } from "./config/index.js";
 import type { PoolDefinition } from "./config/index.js";
-import type { ArbitrageOpportunity } from "./detector/types.js";
+import type { ArbitrageCycle, ArbitrageOpportunity } from "./detector/types.js";
+import { cycleLabel } from "./detector/cycles.js";
+import { toEth } from "./detector/TokenValuation.js";
 import type { PriceSnapshot, PriceDelta } from "./monitor/types.js";
 
 // ---------------------------------------------------------------------------
@@ -105,22 +107,25 @@ async function main(): Promise<void> {
     stats.opportunitiesFound++;
     console.log(`[${ts()}] [OPPORTUNITY] ================================`);
     console.log(`  Path:       ${opp.path.label}`);
-    console.log(`  Input:      ${opp.inputAmount} ETH`);
-    console.log(`  Gross:      ${opp.grossProfit.toFixed(8)} ETH`);
-    console.log(`  Gas cost:   ${opp.costs.gasCost.toFixed(8)} ETH`);
-    console.log(`  Flash fee:  ${opp.costs.flashLoanFee.toFixed(8)} ETH`);
-    console.log(`  Slippage:   ${opp.costs.slippageCost.toFixed(8)} ETH`);
-    console.log(`  Net profit: ${opp.netProfit.toFixed(8)} ETH (${opp.netProfitPercent.toFixed(4)}%)`);
+    console.log(`  Input:      ${toEth(opp, opp.inputAmount)} ETH`);
+    console.log(`  Gross:      ${toEth(opp, opp.grossProfit).toFixed(8)} ETH`);
+    console.log(`  Gas cost:   ${opp.costs.gasCostEth.toFixed(8)} ETH`);
+    console.log(`  Flash fee:  ${toEth(opp, opp.costs.flashLoanFee).toFixed(8)} ETH`);
+    console.log(`  Slippage:   ${toEth(opp, opp.costs.slippageCost).toFixed(8)} ETH`);
+    console.log(`  Net profit: ${toEth(opp, opp.netProfit).toFixed(8)} ETH (${opp.netProfitPercent.toFixed(4)}%)`);
     console.log(`  Block:      ${opp.blockNumber}`);
     console.log(`  [REPORT-ONLY] No transaction sent`);
     console.log(`================================================`);
   });
 
   // Opportunities rejected
-  bot.detector.on("opportunityRejected", (reason: string, delta: PriceDelta) => {
+  bot.detector.on("opportunityRejected", (reason: string, delta: PriceDelta | undefined, cycle?: ArbitrageCycle) => {
     stats.opportunitiesRejected++;
+    const subject = delta
+      ? `pair=${delta.pair} delta=${delta.deltaPercent.toFixed(4)}%`
+      : `cycle=${cycleLabel(cycle!)}`;
     console.log(
-      `[${ts()}] [REJECTED] ${reason} | pair=${delta.pair} delta=${delta.deltaPercent.toFixed(4)}%`,
+      `[${ts()}] [REJECTED] ${reason} | ${subject}`,
     );
   });
 
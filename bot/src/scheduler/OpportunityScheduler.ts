@@ -0,0 +1,263 @@
+import { EventEmitter } from "node:events";
+import type { ArbitrageOpportunity } from "../detector/types.js";
+import { toEth } from "../detector/TokenValuation.js";
+import { poolStateKey } from "../monitor/poolEvents.js";
+import type {
+  OpportunityConflict,
+  OpportunityExecutor,
+  OpportunitySchedulerConfig,
+  ScheduleResult,
+} from "./types.js";
+
+/** Pools (by poolStateKey) and tokens (lowercase) an opportunity touches */
+interface Footprint {
+  pools: Set<string>;
+  tokens: Set<string>;
+}
+
+function footprint(opportunity: ArbitrageOpportunity): Footprint {
+  const pools = new Set<string>();
+  const tokens = new Set<string>();
+  for (const step of opportunity.path.steps) {
+    pools.add(poolStateKey(step));
+    tokens.add(step.tokenIn.toLowerCase());
+    tokens.add(step.tokenOut.toLowerCase());
+  }
+  return { pools, tokens };
+}
+
+/** Block an opportunity is batched by: its detection pass's, else its own */
+function batchBlock(opportunity: ArbitrageOpportunity): number {
+  return opportunity.detectionBlock ?? opportunity.blockNumber;
+}
+
+/**
+ * Highest-weight set of vertices no two of which share an edge, by branch
+ * and bound: vertices are taken in descending weight, and a branch is cut
+ * once even every remaining vertex could not beat the best set found.
+ */
+function maxWeightIndependentSet(weights: number[], edges: Set<number>[]): number[] {
+  const order = weights.map((_, i) => i).sort((a, b) => weights[b] - weights[a]);
+  // remaining[k] = total positive weight of order[k..]
+  const remaining = new Array<number>(order.length + 1).fill(0);
+  for (let k = order.length - 1; k >= 0; k--) {
+    remaining[k] = remaining[k + 1] + Math.max(weights[order[k]], 0);
+  }
+
+  let best: number[] = [];
+  let bestWeight = 0;
+  const chosen: number[] = [];
+
+  const search = (k: number, weight: number): void => {
+    if (weight > bestWeight) {
+      bestWeight = weight;
+      best = [...chosen];
+    }
+    if (k === order.length || weight + remaining[k] <= bestWeight) return;
+
+    const v = order[k];
+    if (weights[v] > 0 && chosen.every((u) => !edges[v].has(u))) {
+      chosen.push(v);
+      search(k + 1, weight + weights[v]);
+      chosen.pop();
+    }
+    search(k + 1, weight);
+  };
+  search(0, 0);
+
+  return best;
+}
+
+/** Most profitable first, skipping any vertex that conflicts with one already taken */
+function greedyIndependentSet(weights: number[], edges: Set<number>[]): number[] {
+  const chosen: number[] = [];
+  const order = weights.map((_, i) => i).sort((a, b) => weights[b] - weights[a]);
+  for (const v of order) {
+    if (weights[v] > 0 && chosen.every((u) => !edges[v].has(u))) chosen.push(v);
+  }
+  return chosen;
+}
+
+/**
+ * Schedules same-block opportunities so they do not collide on-chain.
+ *
+ * Opportunities are collected per block (for `collectionWindowMs`, or until
+ * one from a newer block arrives). The block is the monitor's detection
+ * pass's (`detectionBlock`), so one pass's opportunities share a batch even
+ * when their pools' snapshots were read at different blocks. The batch is then turned into a conflict
+ * graph — two opportunities conflict when they swap through the same pool,
+ * or trade the same token other than the configured `sharedTokens` — and
+ * the non-conflicting subset with the highest total expected profit (in
+ * ETH) is queued for execution, most profitable first. Every other
+ * opportunity is dropped with a reason naming the scheduled opportunity it
+ * conflicts with and what they share.
+ *
+ * Queued opportunities run one at a time through the executor, so each
+ * submission sees the nonce the previous one left behind. Each reaches the
+ * executor with `scheduleWaitMs` set to how long it was held collecting its
+ * batch (at most `collectionWindowMs`), which the staleness check leaves
+ * out. Time queued behind earlier executions still counts as staleness.
+ */
+export class OpportunityScheduler extends EventEmitter {
+  readonly config: Required<OpportunitySchedulerConfig>;
+  private readonly execute: OpportunityExecutor;
+  private readonly sharedTokens: Set<string>;
+  private pending: ArbitrageOpportunity[] = [];
+  private pendingBlock: number | undefined;
+  private lastScheduledBlock = -1;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private readonly queue: ArbitrageOpportunity[] = [];
+  private readonly submittedAt = new WeakMap<ArbitrageOpportunity, number>();
+  private draining: Promise<void> | undefined;
+
+  constructor(execute: OpportunityExecutor, config: OpportunitySchedulerConfig = {}) {
+    super();
+    this.execute = execute;
+    this.config = {
+      collectionWindowMs: config.collectionWindowMs ?? 100,
+      sharedTokens: config.sharedTokens ?? [],
+      maxExactBatch: config.maxExactBatch ?? 24,
+    };
+    this.sharedTokens = new Set(this.config.sharedTokens.map((t) => t.toLowerCase()));
+  }
+
+  /** Opportunities waiting for execution */
+  get queueLength(): number {
+    return this.queue.length;
+  }
+
+  /** Add an opportunity to its block's batch */
+  submit(opportunity: ArbitrageOpportunity): void {
+    const block = batchBlock(opportunity);
+    if (block <= this.lastScheduledBlock) {
+      this.emit("dropped", opportunity, `Late: block ${this.lastScheduledBlock} was already scheduled`);
+      return;
+    }
+    if (this.pendingBlock !== undefined && block < this.pendingBlock) {
+      this.emit("dropped", opportunity, `Late: block ${this.pendingBlock} is already being collected`);
+      return;
+    }
+
+    // A newer block closes the current batch
+    if (this.pendingBlock !== undefined && block > this.pendingBlock) this.flush();
+
+    this.pending.push(opportunity);
+    this.submittedAt.set(opportunity, Date.now());
+    this.pendingBlock = block;
+    this.timer ??= setTimeout(() => this.flush(), this.config.collectionWindowMs);
+  }
+
+  /** Schedule the collected batch now: queue the chosen opportunities and drop the rest */
+  flush(): ScheduleResult | undefined {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    const batch = this.pending;
+    if (batch.length === 0) return undefined;
+    this.pending = [];
+    this.pendingBlock = undefined;
+
+    const result = this.schedule(batch);
+    this.lastScheduledBlock = result.blockNumber;
+    for (const { opportunity, reason } of result.dropped) {
+      this.emit("dropped", opportunity, reason);
+    }
+    for (const opportunity of result.scheduled) {
+      this.queue.push(opportunity);
+      this.emit("scheduled", opportunity);
+    }
+    this.drain();
+    return result;
+  }
+
+  /**
+   * Pick the non-conflicting subset of one block's opportunities with the
+   * highest total expected profit. Does not queue anything.
+   */
+  schedule(opportunities: ArbitrageOpportunity[]): ScheduleResult {
+    const footprints = opportunities.map(footprint);
+    const weights = opportunities.map((o) => toEth(o, o.netProfit));
+    const edges = opportunities.map(() => new Set<number>());
+    for (let i = 0; i < opportunities.length; i++) {
+      for (let j = i + 1; j < opportunities.length; j++) {
+        if (this.findConflict(footprints[i], footprints[j])) {
+          edges[i].add(j);
+          edges[j].add(i);
+        }
+      }
+    }
+
+    const chosen = opportunities.length <= this.config.maxExactBatch
+      ? maxWeightIndependentSet(weights, edges)
+      : greedyIndependentSet(weights, edges);
+    chosen.sort((a, b) => weights[b] - weights[a]);
+    const chosenSet = new Set(chosen);
+
+    const dropped = opportunities.flatMap((opportunity, i) => {
+      if (chosenSet.has(i)) return [];
+      const rival = chosen.find((c) => edges[i].has(c));
+      if (rival === undefined) {
+        return [{ opportunity, reason: "No expected profit" }];
+      }
+      const conflict = this.findConflict(footprints[i], footprints[rival])!;
+      return [{
+        opportunity,
+        reason: `Conflicts with ${opportunities[rival].id} (shared ${conflict.kind} ${conflict.address}), `
+          + `which is part of a more profitable schedule`,
+      }];
+    });
+
+    return {
+      blockNumber: Math.max(...opportunities.map(batchBlock)),
+      scheduled: chosen.map((i) => opportunities[i]),
+      dropped,
+      totalProfitEth: chosen.reduce((sum, i) => sum + weights[i], 0),
+    };
+  }
+
+  /** Resolves once every queued opportunity has run */
+  async whenIdle(): Promise<void> {
+    while (this.draining) await this.draining;
+  }
+
+  /** Discard the collected batch and everything not yet running */
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending = [];
+    this.pendingBlock = undefined;
+    this.queue.length = 0;
+  }
+
+  /** First pool, else first non-shared token, that two opportunities both touch */
+  private findConflict(a: Footprint, b: Footprint): OpportunityConflict | undefined {
+    for (const pool of a.pools) {
+      if (b.pools.has(pool)) return { kind: "pool", address: pool };
+    }
+    for (const token of a.tokens) {
+      if (b.tokens.has(token) && !this.sharedTokens.has(token)) return { kind: "token", address: token };
+    }
+    return undefined;
+  }
+
+  /** Start working through the queue unless already doing so */
+  private drain(): void {
+    if (this.draining || this.queue.length === 0) return;
+    this.draining = this.runQueue().finally(() => {
+      this.draining = undefined;
+    });
+  }
+
+  /** Run queued opportunities one at a time, each stamped with how long its batch was collected */
+  private async runQueue(): Promise<void> {
+    let next: ArbitrageOpportunity | undefined;
+    while ((next = this.queue.shift())) {
+      try {
+        const waitedMs = Date.now() - (this.submittedAt.get(next) ?? Date.now());
+        const scheduleWaitMs = Math.min(waitedMs, this.config.collectionWindowMs);
+        await this.execute({ ...next, scheduleWaitMs });
+      } catch (err) {
+        this.emit("error", err instanceof Error ? err : new Error(String(err)), next);
+      }
+    }
+  }
+}
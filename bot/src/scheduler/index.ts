@@ -0,0 +1,8 @@
+export { OpportunityScheduler } from "./OpportunityScheduler.js";
+export type {
+  OpportunityConflict,
+  OpportunityExecutor,
+  OpportunitySchedulerConfig,
+  OpportunitySchedulerEvents,
+  ScheduleResult,
+} from "./types.js";
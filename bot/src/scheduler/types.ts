@@ -0,0 +1,47 @@
+import type { ArbitrageOpportunity } from "../detector/types.js";
+
+/** Runs one scheduled opportunity (simulate, build and submit, or just report) */
+export type OpportunityExecutor = (opportunity: ArbitrageOpportunity) => Promise<void>;
+
+/** What two opportunities both touch, making them unsafe to execute in the same block */
+export interface OpportunityConflict {
+  /** "pool" when both swap through the same pool, "token" when both trade the same token */
+  kind: "pool" | "token";
+  /** Pool address (Uniswap V4: PoolId) or token address (lowercase) */
+  address: string;
+}
+
+/** Outcome of scheduling one block's opportunities */
+export interface ScheduleResult {
+  /** Block the opportunities were detected in (their detection pass's, see ArbitrageOpportunity.detectionBlock) */
+  blockNumber: number;
+  /** Non-conflicting opportunities with the highest total expected profit, most profitable first */
+  scheduled: ArbitrageOpportunity[];
+  /** Opportunities left out, with why */
+  dropped: Array<{ opportunity: ArbitrageOpportunity; reason: string }>;
+  /** Total expected net profit of the scheduled opportunities, in ETH */
+  totalProfitEth: number;
+}
+
+/** Configuration for the OpportunityScheduler */
+export interface OpportunitySchedulerConfig {
+  /** How long to collect a block's opportunities before scheduling them, in ms.
+   *  An opportunity from a newer block schedules the current one at once. Default: 100 */
+  collectionWindowMs?: number;
+  /** Tokens opportunities may share without conflicting (e.g. WETH, which nearly every path
+   *  borrows and repays). Pools are never shared. Default: none */
+  sharedTokens?: string[];
+  /** Largest batch searched exhaustively for the best subset; bigger batches are
+   *  scheduled greedily by profit. Default: 24 */
+  maxExactBatch?: number;
+}
+
+/** Events emitted by OpportunityScheduler */
+export interface OpportunitySchedulerEvents {
+  /** An opportunity was queued for execution */
+  scheduled: (opportunity: ArbitrageOpportunity) => void;
+  /** An opportunity was left out of its block's schedule */
+  dropped: (opportunity: ArbitrageOpportunity, reason: string) => void;
+  /** The executor threw while running a queued opportunity */
+  error: (error: Error, opportunity: ArbitrageOpportunity) => void;
+}
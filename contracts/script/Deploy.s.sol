@@ -8,6 +8,9 @@ import {ProfitValidator} from "../src/safety/ProfitValidator.sol";
 import {UniswapV2Adapter} from "../src/adapters/UniswapV2Adapter.sol";
 import {UniswapV3Adapter} from "../src/adapters/UniswapV3Adapter.sol";
 import {TraderJoeLBAdapter} from "../src/adapters/TraderJoeLBAdapter.sol";
+import {CurveStableSwapAdapter} from "../src/adapters/CurveStableSwapAdapter.sol";
+import {BalancerV2Adapter} from "../src/adapters/BalancerV2Adapter.sol";
+import {UniswapV4Adapter} from "../src/adapters/UniswapV4Adapter.sol";
 
 /// @title Deploy
 /// @notice Production deployment script for the flashloan arbitrage system.
@@ -32,6 +35,13 @@ import {TraderJoeLBAdapter} from "../src/adapters/TraderJoeLBAdapter.sol";
 ///   SUSHISWAP_V3_ROUTER   - SushiSwap V3 SwapRouter address (deploys UniswapV3Adapter with Sushi V3 router)
 ///   SUSHISWAP_V3_QUOTER   - SushiSwap V3 QuoterV2 address
 ///   TRADERJOE_LB_ROUTER   - Trader Joe LBRouter V2.1 address
+///   DEPLOY_CURVE_ADAPTER  - Deploy CurveStableSwapAdapter (true/false, default false; needs no router)
+///   DEPLOY_BALANCER_ADAPTER - Deploy BalancerV2Adapter (true/false, default false; swaps via BALANCER_VAULT)
+///   UNISWAP_V4_POOL_MANAGER - Uniswap V4 PoolManager address (deploys UniswapV4Adapter)
+///
+/// Optional environment variables (for additional flash loan providers):
+///   UNISWAP_V3_FACTORY    - Uniswap V3 Factory address (enables flash() from its pools)
+///   DYDX_SOLO_MARGIN      - dYdX SoloMargin address (enables operate() flash loans)
 ///
 /// Optional environment variables (with defaults):
 ///   MIN_PROFIT_WEI        - Minimum profit threshold (default: 0.01 ether)
@@ -56,6 +66,12 @@ contract Deploy is Script {
         address sushiswapV3Router;
         address sushiswapV3Quoter;
         address traderjoeLBRouter;
+        bool deployCurveAdapter;
+        bool deployBalancerAdapter;
+        address uniswapV4PoolManager;
+        // Optional additional flash loan providers (zero address = disabled)
+        address uniswapV3Factory;
+        address dydxSoloMargin;
     }
 
     struct DeploymentConfig {
@@ -76,6 +92,9 @@ contract Deploy is Script {
         UniswapV2Adapter sushiswapV2Adapter;
         UniswapV3Adapter sushiswapV3Adapter;
         TraderJoeLBAdapter traderjoeLBAdapter;
+        CurveStableSwapAdapter curveStableSwapAdapter;
+        BalancerV2Adapter balancerV2Adapter;
+        UniswapV4Adapter uniswapV4Adapter;
     }
 
     // ══════════════════════════════════════════════════════════════════════════════
@@ -128,7 +147,12 @@ contract Deploy is Script {
             sushiswapV2Router: vm.envOr("SUSHISWAP_V2_ROUTER", address(0)),
             sushiswapV3Router: vm.envOr("SUSHISWAP_V3_ROUTER", address(0)),
             sushiswapV3Quoter: vm.envOr("SUSHISWAP_V3_QUOTER", address(0)),
-            traderjoeLBRouter: vm.envOr("TRADERJOE_LB_ROUTER", address(0))
+            traderjoeLBRouter: vm.envOr("TRADERJOE_LB_ROUTER", address(0)),
+            deployCurveAdapter: vm.envOr("DEPLOY_CURVE_ADAPTER", false),
+            deployBalancerAdapter: vm.envOr("DEPLOY_BALANCER_ADAPTER", false),
+            uniswapV4PoolManager: vm.envOr("UNISWAP_V4_POOL_MANAGER", address(0)),
+            uniswapV3Factory: vm.envOr("UNISWAP_V3_FACTORY", address(0)),
+            dydxSoloMargin: vm.envOr("DYDX_SOLO_MARGIN", address(0))
         });
 
         return config;
@@ -187,6 +211,16 @@ contract Deploy is Script {
         );
         console2.log(unicode"✓ FlashloanExecutor deployed:", address(executor));
 
+        if (chain.uniswapV3Factory != address(0)) {
+            executor.setUniswapV3Factory(chain.uniswapV3Factory);
+            console2.log(unicode"✓ Uniswap V3 flash loans enabled:", chain.uniswapV3Factory);
+        }
+
+        if (chain.dydxSoloMargin != address(0)) {
+            executor.setDydxSoloMargin(chain.dydxSoloMargin);
+            console2.log(unicode"✓ dYdX flash loans enabled:", chain.dydxSoloMargin);
+        }
+
         console2.log(unicode"\n━━━ Step 3: Deploy Core DEX Adapters ━━━");
 
         // Uniswap V2: optional (not deployed on Arbitrum)
@@ -233,6 +267,33 @@ contract Deploy is Script {
             console2.log(unicode"⊘ TraderJoeLBAdapter skipped (TRADERJOE_LB_ROUTER not set)");
         }
 
+        // Curve StableSwap: pool and coin indices come from extraData, no router needed
+        CurveStableSwapAdapter curveStableSwapAdapter;
+        if (chain.deployCurveAdapter) {
+            curveStableSwapAdapter = new CurveStableSwapAdapter();
+            console2.log(unicode"✓ CurveStableSwapAdapter deployed:", address(curveStableSwapAdapter));
+        } else {
+            console2.log(unicode"⊘ CurveStableSwapAdapter skipped (DEPLOY_CURVE_ADAPTER not set)");
+        }
+
+        // Balancer V2: swaps through the same Vault used for flash loans
+        BalancerV2Adapter balancerV2Adapter;
+        if (chain.deployBalancerAdapter) {
+            balancerV2Adapter = new BalancerV2Adapter(chain.balancerVault);
+            console2.log(unicode"✓ BalancerV2Adapter deployed:", address(balancerV2Adapter));
+        } else {
+            console2.log(unicode"⊘ BalancerV2Adapter skipped (DEPLOY_BALANCER_ADAPTER not set)");
+        }
+
+        // Uniswap V4: every pool lives in the singleton PoolManager
+        UniswapV4Adapter uniswapV4Adapter;
+        if (chain.uniswapV4PoolManager != address(0)) {
+            uniswapV4Adapter = new UniswapV4Adapter(chain.uniswapV4PoolManager);
+            console2.log(unicode"✓ UniswapV4Adapter deployed:", address(uniswapV4Adapter));
+        } else {
+            console2.log(unicode"⊘ UniswapV4Adapter skipped (UNISWAP_V4_POOL_MANAGER not set)");
+        }
+
         console2.log(unicode"\n━━━ Step 4: Register Adapters ━━━");
 
         if (address(uniswapV2Adapter) != address(0)) {
@@ -258,6 +319,21 @@ contract Deploy is Script {
             console2.log(unicode"✓ Registered TraderJoeLBAdapter");
         }
 
+        if (address(curveStableSwapAdapter) != address(0)) {
+            executor.registerAdapter(address(curveStableSwapAdapter));
+            console2.log(unicode"✓ Registered CurveStableSwapAdapter");
+        }
+
+        if (address(balancerV2Adapter) != address(0)) {
+            executor.registerAdapter(address(balancerV2Adapter));
+            console2.log(unicode"✓ Registered BalancerV2Adapter");
+        }
+
+        if (address(uniswapV4Adapter) != address(0)) {
+            executor.registerAdapter(address(uniswapV4Adapter));
+            console2.log(unicode"✓ Registered UniswapV4Adapter");
+        }
+
         console2.log(unicode"\n━━━ Step 5: Verify Configuration ━━━");
 
         require(executor.owner() == deployer, "Deploy: Executor owner mismatch");
@@ -267,6 +343,8 @@ contract Deploy is Script {
             require(executor.approvedAdapters(address(uniswapV2Adapter)), "Deploy: V2 adapter not approved");
         }
         require(executor.approvedAdapters(address(uniswapV3Adapter)), "Deploy: V3 adapter not approved");
+        require(executor.uniswapV3Factory() == chain.uniswapV3Factory, "Deploy: V3 factory mismatch");
+        require(executor.dydxSoloMargin() == chain.dydxSoloMargin, "Deploy: dYdX SoloMargin mismatch");
         require(!executor.paused(), "Deploy: Executor should not be paused");
         console2.log(unicode"✓ All configuration checks passed");
 
@@ -278,7 +356,10 @@ contract Deploy is Script {
             uniswapV3Adapter: uniswapV3Adapter,
             sushiswapV2Adapter: sushiswapV2Adapter,
             sushiswapV3Adapter: sushiswapV3Adapter,
-            traderjoeLBAdapter: traderjoeLBAdapter
+            traderjoeLBAdapter: traderjoeLBAdapter,
+            curveStableSwapAdapter: curveStableSwapAdapter,
+            balancerV2Adapter: balancerV2Adapter,
+            uniswapV4Adapter: uniswapV4Adapter
         });
     }
 
@@ -369,6 +450,15 @@ contract Deploy is Script {
         if (address(contracts.traderjoeLBAdapter) != address(0)) {
             console2.log("  TraderJoeLBAdapter: ", address(contracts.traderjoeLBAdapter));
         }
+        if (address(contracts.curveStableSwapAdapter) != address(0)) {
+            console2.log("  CurveStableSwapAdapter:", address(contracts.curveStableSwapAdapter));
+        }
+        if (address(contracts.balancerV2Adapter) != address(0)) {
+            console2.log("  BalancerV2Adapter:  ", address(contracts.balancerV2Adapter));
+        }
+        if (address(contracts.uniswapV4Adapter) != address(0)) {
+            console2.log("  UniswapV4Adapter:   ", address(contracts.uniswapV4Adapter));
+        }
         console2.log("");
         console2.log("Next Steps:");
         console2.log("  1. Verify contracts on explorer (if --verify failed):");
@@ -412,7 +502,10 @@ contract Deploy is Script {
             '    "UniswapV3Adapter": "', vm.toString(address(contracts.uniswapV3Adapter)), '",\n',
             '    "SushiSwapV2Adapter": "', vm.toString(address(contracts.sushiswapV2Adapter)), '",\n',
             '    "SushiSwapV3Adapter": "', vm.toString(address(contracts.sushiswapV3Adapter)), '",\n',
-            '    "TraderJoeLBAdapter": "', vm.toString(address(contracts.traderjoeLBAdapter)), '"\n',
+            '    "TraderJoeLBAdapter": "', vm.toString(address(contracts.traderjoeLBAdapter)), '",\n',
+            '    "CurveStableSwapAdapter": "', vm.toString(address(contracts.curveStableSwapAdapter)), '",\n',
+            '    "BalancerV2Adapter": "', vm.toString(address(contracts.balancerV2Adapter)), '",\n',
+            '    "UniswapV4Adapter": "', vm.toString(address(contracts.uniswapV4Adapter)), '"\n',
             '  },\n'
         );
 
@@ -5,8 +5,50 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {FlashloanReceiver} from "./FlashloanReceiver.sol";
 import {IFlashloanExecutor} from "./interfaces/IFlashloanExecutor.sol";
+import {IFlashloanReceiver} from "./interfaces/IFlashloanReceiver.sol";
 import {IDEXAdapter} from "./interfaces/IDEXAdapter.sol";
 
+/// @notice Minimal Uniswap V3 factory interface.
+interface IUniswapV3Factory {
+    function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool);
+}
+
+/// @notice Minimal Uniswap V3 pool interface for flash loans.
+interface IUniswapV3FlashPool {
+    function token0() external view returns (address);
+    function token1() external view returns (address);
+    function flash(address recipient, uint256 amount0, uint256 amount1, bytes calldata data) external;
+}
+
+/// @notice Minimal dYdX SoloMargin interface for flash loans.
+interface ISoloMargin {
+    enum ActionType { Deposit, Withdraw, Transfer, Buy, Sell, Trade, Liquidate, Vaporize, Call }
+    enum AssetDenomination { Wei, Par }
+    enum AssetReference { Delta, Target }
+
+    struct AssetAmount {
+        bool sign;
+        AssetDenomination denomination;
+        AssetReference ref;
+        uint256 value;
+    }
+
+    struct ActionArgs {
+        ActionType actionType;
+        uint256 accountId;
+        AssetAmount amount;
+        uint256 primaryMarketId;
+        uint256 secondaryMarketId;
+        address otherAddress;
+        uint256 otherAccountId;
+        bytes data;
+    }
+
+    function getNumMarkets() external view returns (uint256);
+    function getMarketTokenAddress(uint256 marketId) external view returns (address);
+    function operate(IFlashloanReceiver.AccountInfo[] calldata accounts, ActionArgs[] calldata actions) external;
+}
+
 /// @title FlashloanExecutor
 /// @notice Main contract that orchestrates flash loan arbitrage execution.
 /// @dev Inherits FlashloanReceiver for flash loan callbacks, implements
@@ -47,6 +89,12 @@ contract FlashloanExecutor is FlashloanReceiver, IFlashloanExecutor {
     /// @dev Temporary storage for the flash loan token address.
     address private _pendingToken;
 
+    /// @notice Uniswap V3 factory whose pools may fund flash loans (address(0) disables them).
+    address public uniswapV3Factory;
+
+    /// @notice dYdX SoloMargin that may fund flash loans (address(0) disables it).
+    address public dydxSoloMargin;
+
     // ──────────────────────────────────────────────
     // Additional Errors
     // ──────────────────────────────────────────────
@@ -57,6 +105,9 @@ contract FlashloanExecutor is FlashloanReceiver, IFlashloanExecutor {
     /// @notice The flash loan provider is not supported.
     error UnsupportedFlashLoanProvider(address provider);
 
+    /// @notice The flash loan provider cannot lend the token.
+    error UnsupportedFlashLoanToken(address provider, address token);
+
     // ──────────────────────────────────────────────
     // Additional Events
     // ──────────────────────────────────────────────
@@ -67,6 +118,12 @@ contract FlashloanExecutor is FlashloanReceiver, IFlashloanExecutor {
     /// @notice Emitted when the contract is unpaused.
     event Unpaused(address indexed account);
 
+    /// @notice Emitted when the Uniswap V3 factory for flash loans is updated.
+    event UniswapV3FactoryUpdated(address indexed oldFactory, address indexed newFactory);
+
+    /// @notice Emitted when the dYdX SoloMargin for flash loans is updated.
+    event DydxSoloMarginUpdated(address indexed oldSoloMargin, address indexed newSoloMargin);
+
     // ──────────────────────────────────────────────
     // Modifiers
     // ──────────────────────────────────────────────
@@ -138,8 +195,8 @@ contract FlashloanExecutor is FlashloanReceiver, IFlashloanExecutor {
         }
         _pendingToken = flashLoanToken;
 
-        // Set flash loan active flag (guards uniswapV3FlashCallback / callFunction)
-        _setFlashLoanActive(true);
+        // Mark the flash loan active (guards uniswapV3FlashCallback / callFunction)
+        _setFlashLender(flashLoanProvider);
 
         // Route to the appropriate flash loan provider
         bytes memory params = ""; // Steps are stored in contract storage
@@ -147,12 +204,16 @@ contract FlashloanExecutor is FlashloanReceiver, IFlashloanExecutor {
             _requestBalancerFlashLoan(flashLoanProvider, flashLoanToken, flashLoanAmount, params);
         } else if (flashLoanProvider == aavePool) {
             _requestAaveFlashLoan(flashLoanProvider, flashLoanToken, flashLoanAmount, params);
+        } else if (flashLoanProvider == dydxSoloMargin) {
+            _requestDydxFlashLoan(flashLoanProvider, flashLoanToken, flashLoanAmount);
+        } else if (_isUniswapV3Pool(flashLoanProvider)) {
+            _requestUniswapV3FlashLoan(flashLoanProvider, flashLoanToken, flashLoanAmount);
         } else {
             revert UnsupportedFlashLoanProvider(flashLoanProvider);
         }
 
-        // Clear flash loan active flag after completion
-        _setFlashLoanActive(false);
+        // Clear the active flash loan after completion
+        _setFlashLender(address(0));
     }
 
     /// @dev Request a flash loan from Aave V3 Pool.
@@ -219,6 +280,92 @@ contract FlashloanExecutor is FlashloanReceiver, IFlashloanExecutor {
         }
     }
 
+    /// @dev Request a flash loan from a Uniswap V3 pool. The pool calls
+    ///      uniswapV3FlashCallback, which repays amount + fee.
+    function _requestUniswapV3FlashLoan(address pool, address asset, uint256 amount) internal {
+        bool isToken0 = IUniswapV3FlashPool(pool).token0() == asset;
+        if (!isToken0 && IUniswapV3FlashPool(pool).token1() != asset) {
+            revert UnsupportedFlashLoanToken(pool, asset);
+        }
+
+        IUniswapV3FlashPool(pool).flash(
+            address(this),
+            isToken0 ? amount : 0,
+            isToken0 ? 0 : amount,
+            abi.encode(asset, amount)
+        );
+    }
+
+    /// @dev Request a flash loan from dYdX SoloMargin: one operation that
+    ///      withdraws the asset, calls callFunction, and deposits amount + 2 wei back.
+    function _requestDydxFlashLoan(address soloMargin, address asset, uint256 amount) internal {
+        uint256 marketId = _dydxMarketId(soloMargin, asset);
+
+        IFlashloanReceiver.AccountInfo[] memory accounts = new IFlashloanReceiver.AccountInfo[](1);
+        accounts[0] = IFlashloanReceiver.AccountInfo({owner: address(this), number: 1});
+
+        ISoloMargin.ActionArgs[] memory actions = new ISoloMargin.ActionArgs[](3);
+        actions[0] = _dydxAction(ISoloMargin.ActionType.Withdraw, marketId, false, amount, "");
+        actions[1] = _dydxAction(ISoloMargin.ActionType.Call, 0, false, 0, abi.encode(asset, amount));
+        actions[2] = _dydxAction(ISoloMargin.ActionType.Deposit, marketId, true, amount + DYDX_FLASH_LOAN_FEE, "");
+
+        ISoloMargin(soloMargin).operate(accounts, actions);
+    }
+
+    /// @dev The SoloMargin market lending `token`.
+    function _dydxMarketId(address soloMargin, address token) internal view returns (uint256) {
+        uint256 numMarkets = ISoloMargin(soloMargin).getNumMarkets();
+        for (uint256 i = 0; i < numMarkets;) {
+            if (ISoloMargin(soloMargin).getMarketTokenAddress(i) == token) return i;
+            unchecked { ++i; }
+        }
+        revert UnsupportedFlashLoanToken(soloMargin, token);
+    }
+
+    /// @dev A SoloMargin action on account 0, in wei of the market's token.
+    function _dydxAction(
+        ISoloMargin.ActionType actionType,
+        uint256 marketId,
+        bool sign,
+        uint256 value,
+        bytes memory data
+    ) internal view returns (ISoloMargin.ActionArgs memory) {
+        return ISoloMargin.ActionArgs({
+            actionType: actionType,
+            accountId: 0,
+            amount: ISoloMargin.AssetAmount({
+                sign: sign,
+                denomination: ISoloMargin.AssetDenomination.Wei,
+                ref: ISoloMargin.AssetReference.Delta,
+                value: value
+            }),
+            primaryMarketId: marketId,
+            secondaryMarketId: 0,
+            otherAddress: address(this),
+            otherAccountId: 0,
+            data: data
+        });
+    }
+
+    /// @dev Whether `pool` is a pool deployed by the configured Uniswap V3 factory.
+    ///      Its callback repays whatever fee it reports, so only factory pools may lend.
+    function _isUniswapV3Pool(address pool) internal view returns (bool) {
+        address factory = uniswapV3Factory;
+        if (factory == address(0) || pool.code.length == 0) return false;
+
+        (bool ok0, bytes memory token0) = pool.staticcall(abi.encodeWithSignature("token0()"));
+        (bool ok1, bytes memory token1) = pool.staticcall(abi.encodeWithSignature("token1()"));
+        (bool okFee, bytes memory fee) = pool.staticcall(abi.encodeWithSignature("fee()"));
+        if (!ok0 || !ok1 || !okFee || token0.length < 32 || token1.length < 32 || fee.length < 32) {
+            return false;
+        }
+
+        address deployed = IUniswapV3Factory(factory).getPool(
+            abi.decode(token0, (address)), abi.decode(token1, (address)), abi.decode(fee, (uint24))
+        );
+        return deployed == pool;
+    }
+
     // ──────────────────────────────────────────────
     // Flash Loan Callback Implementation
     // ──────────────────────────────────────────────
@@ -322,6 +469,22 @@ contract FlashloanExecutor is FlashloanReceiver, IFlashloanExecutor {
         emit MinProfitUpdated(old, newMinProfit);
     }
 
+    /// @notice Set the Uniswap V3 factory whose pools may fund flash loans (owner only).
+    /// @param newFactory The factory address, or address(0) to disable Uniswap V3 flash loans
+    function setUniswapV3Factory(address newFactory) external onlyOwner {
+        address old = uniswapV3Factory;
+        uniswapV3Factory = newFactory;
+        emit UniswapV3FactoryUpdated(old, newFactory);
+    }
+
+    /// @notice Set the dYdX SoloMargin that may fund flash loans (owner only).
+    /// @param newSoloMargin The SoloMargin address, or address(0) to disable dYdX flash loans
+    function setDydxSoloMargin(address newSoloMargin) external onlyOwner {
+        address old = dydxSoloMargin;
+        dydxSoloMargin = newSoloMargin;
+        emit DydxSoloMarginUpdated(old, newSoloMargin);
+    }
+
     /// @notice Pause all arbitrage execution (owner only).
     function pause() external onlyOwner {
         paused = true;
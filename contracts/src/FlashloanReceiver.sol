@@ -9,7 +9,7 @@ import {IFlashloanReceiver} from "./interfaces/IFlashloanReceiver.sol";
 
 /// @title FlashloanReceiver
 /// @notice Abstract base contract implementing flash loan callbacks for Aave V3,
-///         Balancer, and Uniswap V3. Provides access control, reentrancy protection,
+///         Balancer, Uniswap V3 and dYdX. Provides access control, reentrancy protection,
 ///         and emergency withdrawal capabilities.
 /// @dev Inherit this contract and implement `_executeArbitrage` to define swap logic.
 abstract contract FlashloanReceiver is IFlashloanReceiver, Ownable, ReentrancyGuard {
@@ -63,9 +63,13 @@ abstract contract FlashloanReceiver is IFlashloanReceiver, Ownable, ReentrancyGu
     /// @notice The Balancer Vault address authorized to call receiveFlashLoan.
     address public immutable balancerVault;
 
-    /// @dev Flag set to true only while a flash loan is actively being processed.
-    ///      Used to guard callbacks that cannot validate msg.sender against a known address.
-    bool private _flashLoanActive;
+    /// @notice Fee dYdX SoloMargin takes back on top of a flash loan (in wei of the asset).
+    uint256 internal constant DYDX_FLASH_LOAN_FEE = 2;
+
+    /// @dev The provider lending to this contract, set only while a flash loan is
+    ///      being processed. Uniswap V3 pools and dYdX have no fixed address here,
+    ///      so their callbacks are validated against it.
+    address private _flashLender;
 
     // ──────────────────────────────────────────────
     // Constructor
@@ -130,22 +134,32 @@ abstract contract FlashloanReceiver is IFlashloanReceiver, Ownable, ReentrancyGu
     }
 
     /// @inheritdoc IFlashloanReceiver
-    function uniswapV3FlashCallback(uint256, uint256, bytes calldata data) external nonReentrant {
-        // Guard: only callable during an active flash loan initiated by this contract.
-        if (!_flashLoanActive) revert NoActiveFlashLoan();
+    function uniswapV3FlashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external nonReentrant {
+        _checkFlashLender();
+        (address asset, uint256 amount) = abi.decode(data, (address, uint256));
+
+        // Only the borrowed token carries a fee; the other is zero
+        uint256 fee = fee0 + fee1;
+        emit FlashLoanReceived(msg.sender, asset, amount, fee);
+
         _executeArbitrage(data);
+
+        // Repay the pool: it checks its balance grew by the fee before returning
+        IERC20(asset).safeTransfer(msg.sender, amount + fee);
     }
 
     /// @inheritdoc IFlashloanReceiver
-    function callFunction(
-        address,
-        address,
-        uint256,
-        bytes calldata data
-    ) external nonReentrant {
-        // Guard: only callable during an active flash loan initiated by this contract.
-        if (!_flashLoanActive) revert NoActiveFlashLoan();
+    function callFunction(address sender, AccountInfo calldata, bytes calldata data) external nonReentrant {
+        _checkFlashLender();
+        if (sender != address(this)) revert UnauthorizedInitiator(sender);
+        (address asset, uint256 amount) = abi.decode(data, (address, uint256));
+
+        emit FlashLoanReceived(msg.sender, asset, amount, DYDX_FLASH_LOAN_FEE);
+
         _executeArbitrage(data);
+
+        // Approve SoloMargin to pull the loan + fee in the Deposit action that follows
+        IERC20(asset).safeIncreaseAllowance(msg.sender, amount + DYDX_FLASH_LOAN_FEE);
     }
 
     // ──────────────────────────────────────────────
@@ -156,10 +170,18 @@ abstract contract FlashloanReceiver is IFlashloanReceiver, Ownable, ReentrancyGu
     /// @param params Encoded swap parameters
     function _executeArbitrage(bytes calldata params) internal virtual;
 
-    /// @dev Set the flash loan active flag. Call before initiating a flash loan
-    ///      to allow callbacks that cannot validate msg.sender (Uniswap V3, dYdX).
-    function _setFlashLoanActive(bool active) internal {
-        _flashLoanActive = active;
+    /// @dev Set the provider a flash loan is being requested from, or address(0)
+    ///      once it completes. Only that provider may call uniswapV3FlashCallback
+    ///      or callFunction in between.
+    function _setFlashLender(address lender) internal {
+        _flashLender = lender;
+    }
+
+    /// @dev Revert unless a flash loan is active and msg.sender is its lender.
+    function _checkFlashLender() private view {
+        address lender = _flashLender;
+        if (lender == address(0)) revert NoActiveFlashLoan();
+        if (msg.sender != lender) revert UnauthorizedCaller(msg.sender, lender);
     }
 
     // ──────────────────────────────────────────────
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IDEXAdapter} from "../interfaces/IDEXAdapter.sol";
+
+/// @notice Minimal Balancer V2 Vault interface (single swaps)
+interface IBalancerVault {
+    enum SwapKind {
+        GIVEN_IN,
+        GIVEN_OUT
+    }
+
+    struct SingleSwap {
+        bytes32 poolId;
+        SwapKind kind;
+        address assetIn;
+        address assetOut;
+        uint256 amount;
+        bytes userData;
+    }
+
+    struct FundManagement {
+        address sender;
+        bool fromInternalBalance;
+        address payable recipient;
+        bool toInternalBalance;
+    }
+
+    function swap(SingleSwap memory singleSwap, FundManagement memory funds, uint256 limit, uint256 deadline)
+        external
+        payable
+        returns (uint256 amountCalculated);
+}
+
+/// @title BalancerV2Adapter
+/// @notice DEX adapter for Balancer V2 weighted and stable pools.
+/// @dev Implements IDEXAdapter by calling `swap` on the Vault, which holds every
+///      pool's tokens and identifies pools by ID.
+///
+///      extraData encoding:
+///      - abi.encode(bytes32 poolId)
+///
+///      The Vault pulls the input from this adapter and pays the output straight
+///      to the caller.
+contract BalancerV2Adapter is IDEXAdapter {
+    using SafeERC20 for IERC20;
+
+    /// @notice extraData did not name a pool.
+    error InvalidPool();
+
+    /// @notice The Balancer V2 Vault
+    IBalancerVault public immutable vault;
+
+    /// @notice Deadline offset added to block.timestamp for swap calls
+    uint256 public constant DEADLINE_OFFSET = 300; // 5 minutes
+
+    /// @param _vault The Balancer V2 Vault address (all chains: 0xBA12222222228d8Ba445958a75a0704d566BF2C8)
+    constructor(address _vault) {
+        if (_vault == address(0)) revert InvalidToken();
+        vault = IBalancerVault(_vault);
+    }
+
+    /// @inheritdoc IDEXAdapter
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 amountOutMin,
+        bytes calldata extraData
+    ) external returns (uint256 amountOut) {
+        if (tokenIn == address(0) || tokenOut == address(0)) revert InvalidToken();
+        if (amountIn == 0) revert ZeroAmountIn();
+
+        bytes32 poolId = abi.decode(extraData, (bytes32));
+        if (poolId == bytes32(0)) revert InvalidPool();
+
+        // Pull tokens from caller
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+
+        // Approve Vault (it pulls the input itself)
+        IERC20(tokenIn).safeIncreaseAllowance(address(vault), amountIn);
+
+        amountOut = vault.swap(
+            IBalancerVault.SingleSwap({
+                poolId: poolId,
+                kind: IBalancerVault.SwapKind.GIVEN_IN,
+                assetIn: tokenIn,
+                assetOut: tokenOut,
+                amount: amountIn,
+                userData: ""
+            }),
+            IBalancerVault.FundManagement({
+                sender: address(this),
+                fromInternalBalance: false,
+                recipient: payable(msg.sender),
+                toInternalBalance: false
+            }),
+            amountOutMin,
+            block.timestamp + DEADLINE_OFFSET
+        );
+
+        if (amountOut == 0) revert ZeroAmountOut();
+        if (amountOut < amountOutMin) revert SlippageExceeded(amountOut, amountOutMin);
+
+        emit SwapExecuted(tokenIn, tokenOut, amountIn, amountOut);
+    }
+
+    /// @inheritdoc IDEXAdapter
+    /// @dev The Vault only quotes through queryBatchSwap, which is not a view function.
+    ///      Return 0 to signal "quote off-chain" — the bot simulates weighted/stable math.
+    function getAmountOut(address, address, uint256, bytes calldata) external pure returns (uint256) {
+        return 0;
+    }
+}
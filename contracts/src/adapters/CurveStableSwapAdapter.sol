@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IDEXAdapter} from "../interfaces/IDEXAdapter.sol";
+
+/// @notice Minimal Curve StableSwap pool interface (plain pools, int128 coin indices)
+interface ICurveStableSwap {
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external;
+    function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256);
+}
+
+/// @title CurveStableSwapAdapter
+/// @notice DEX adapter for Curve StableSwap pools.
+/// @dev Implements IDEXAdapter by calling `exchange` on the pool directly — there is
+///      no router, so the pool and coin indices travel in extraData.
+///
+///      extraData encoding:
+///      - abi.encode(address pool, int128 i, int128 j)
+///        i = Curve index of tokenIn, j = Curve index of tokenOut
+///
+///      Older pools (e.g. 3pool) return nothing from `exchange`, so the output is
+///      measured as this adapter's tokenOut balance change.
+contract CurveStableSwapAdapter is IDEXAdapter {
+    using SafeERC20 for IERC20;
+
+    /// @notice extraData did not name a pool.
+    error InvalidPool();
+
+    /// @inheritdoc IDEXAdapter
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 amountOutMin,
+        bytes calldata extraData
+    ) external returns (uint256 amountOut) {
+        if (tokenIn == address(0) || tokenOut == address(0)) revert InvalidToken();
+        if (amountIn == 0) revert ZeroAmountIn();
+
+        (address pool, int128 i, int128 j) = _decode(extraData);
+
+        // Pull tokens from caller
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+
+        // Approve pool (Curve pools pull the input themselves)
+        IERC20(tokenIn).safeIncreaseAllowance(pool, amountIn);
+
+        uint256 balanceBefore = IERC20(tokenOut).balanceOf(address(this));
+        ICurveStableSwap(pool).exchange(i, j, amountIn, amountOutMin);
+        amountOut = IERC20(tokenOut).balanceOf(address(this)) - balanceBefore;
+
+        if (amountOut == 0) revert ZeroAmountOut();
+        if (amountOut < amountOutMin) revert SlippageExceeded(amountOut, amountOutMin);
+
+        // Output lands on the adapter — forward it to the caller
+        IERC20(tokenOut).safeTransfer(msg.sender, amountOut);
+
+        emit SwapExecuted(tokenIn, tokenOut, amountIn, amountOut);
+    }
+
+    /// @inheritdoc IDEXAdapter
+    function getAmountOut(address tokenIn, address tokenOut, uint256 amountIn, bytes calldata extraData)
+        external
+        view
+        returns (uint256 amountOut)
+    {
+        if (tokenIn == address(0) || tokenOut == address(0)) revert InvalidToken();
+        if (amountIn == 0) revert ZeroAmountIn();
+
+        (address pool, int128 i, int128 j) = _decode(extraData);
+        amountOut = ICurveStableSwap(pool).get_dy(i, j, amountIn);
+    }
+
+    /// @dev Decode and validate the pool and coin indices from extraData.
+    function _decode(bytes calldata extraData) internal pure returns (address pool, int128 i, int128 j) {
+        (pool, i, j) = abi.decode(extraData, (address, int128, int128));
+        if (pool == address(0)) revert InvalidPool();
+    }
+}
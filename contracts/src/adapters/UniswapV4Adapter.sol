@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IDEXAdapter} from "../interfaces/IDEXAdapter.sol";
+
+/// @notice Minimal Uniswap V4 PoolManager interface (flash accounting)
+interface IPoolManager {
+    struct PoolKey {
+        address currency0;
+        address currency1;
+        uint24 fee;
+        int24 tickSpacing;
+        address hooks;
+    }
+
+    struct SwapParams {
+        bool zeroForOne;
+        int256 amountSpecified;
+        uint160 sqrtPriceLimitX96;
+    }
+
+    function unlock(bytes calldata data) external returns (bytes memory);
+    function swap(PoolKey memory key, SwapParams memory params, bytes calldata hookData)
+        external
+        returns (int256 swapDelta);
+    function sync(address currency) external;
+    function settle() external payable returns (uint256 paid);
+    function take(address currency, address to, uint256 amount) external;
+}
+
+/// @notice Callback the PoolManager invokes on the unlocker
+interface IUnlockCallback {
+    function unlockCallback(bytes calldata data) external returns (bytes memory);
+}
+
+/// @title UniswapV4Adapter
+/// @notice DEX adapter for Uniswap V4 pools.
+/// @dev Implements IDEXAdapter by unlocking the singleton PoolManager, swapping,
+///      then settling the input and taking the output inside the callback.
+///
+///      extraData encoding:
+///      - abi.encode(PoolKey(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks))
+///        fee is the PoolKey fee (0x800000 for dynamic-fee pools)
+///
+///      Native ETH pools (currency0 == address(0)) are not supported. Exact-input
+///      swaps run to a full fill; an input the pool cannot absorb reverts.
+contract UniswapV4Adapter is IDEXAdapter, IUnlockCallback {
+    using SafeERC20 for IERC20;
+
+    /// @notice The PoolKey in extraData does not hold tokenIn and tokenOut.
+    error InvalidPoolKey();
+
+    /// @notice unlockCallback was called by someone other than the PoolManager.
+    error NotPoolManager();
+
+    /// @notice The pool filled only part of the input.
+    error PartialFill(uint256 amountIn, uint256 amountPaid);
+
+    /// @notice The Uniswap V4 PoolManager
+    IPoolManager public immutable poolManager;
+
+    /// @dev TickMath.MIN_SQRT_PRICE + 1 and MAX_SQRT_PRICE - 1: no price limit
+    uint160 internal constant MIN_PRICE_LIMIT = 4295128740;
+    uint160 internal constant MAX_PRICE_LIMIT = 1461446703485210103287273052203988822378723970341;
+
+    /// @param _poolManager The Uniswap V4 PoolManager address
+    constructor(address _poolManager) {
+        if (_poolManager == address(0)) revert InvalidToken();
+        poolManager = IPoolManager(_poolManager);
+    }
+
+    /// @inheritdoc IDEXAdapter
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 amountOutMin,
+        bytes calldata extraData
+    ) external returns (uint256 amountOut) {
+        if (tokenIn == address(0) || tokenOut == address(0)) revert InvalidToken();
+        if (amountIn == 0) revert ZeroAmountIn();
+
+        IPoolManager.PoolKey memory key = abi.decode(extraData, (IPoolManager.PoolKey));
+        bool zeroForOne = tokenIn == key.currency0;
+        if (zeroForOne ? tokenOut != key.currency1 : (tokenIn != key.currency1 || tokenOut != key.currency0)) {
+            revert InvalidPoolKey();
+        }
+
+        // Pull tokens from caller — they are paid to the PoolManager during settlement
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+
+        bytes memory result = poolManager.unlock(abi.encode(key, zeroForOne, amountIn, msg.sender));
+        amountOut = abi.decode(result, (uint256));
+
+        if (amountOut == 0) revert ZeroAmountOut();
+        if (amountOut < amountOutMin) revert SlippageExceeded(amountOut, amountOutMin);
+
+        emit SwapExecuted(tokenIn, tokenOut, amountIn, amountOut);
+    }
+
+    /// @inheritdoc IUnlockCallback
+    function unlockCallback(bytes calldata data) external returns (bytes memory) {
+        if (msg.sender != address(poolManager)) revert NotPoolManager();
+
+        (IPoolManager.PoolKey memory key, bool zeroForOne, uint256 amountIn, address recipient) =
+            abi.decode(data, (IPoolManager.PoolKey, bool, uint256, address));
+
+        // Negative amountSpecified = exact input
+        int256 delta = poolManager.swap(
+            key,
+            IPoolManager.SwapParams({
+                zeroForOne: zeroForOne,
+                amountSpecified: -int256(amountIn),
+                sqrtPriceLimitX96: zeroForOne ? MIN_PRICE_LIMIT : MAX_PRICE_LIMIT
+            }),
+            ""
+        );
+
+        // BalanceDelta packs amount0 in the upper 128 bits and amount1 in the lower;
+        // negative = owed by us, positive = owed to us
+        int128 amount0 = int128(delta >> 128);
+        int128 amount1 = int128(delta);
+        uint256 amountPaid = uint256(uint128(-(zeroForOne ? amount0 : amount1)));
+        uint256 amountOut = uint256(uint128(zeroForOne ? amount1 : amount0));
+        if (amountPaid != amountIn) revert PartialFill(amountIn, amountPaid);
+
+        // Settle the input, then take the output straight to the caller
+        address currencyIn = zeroForOne ? key.currency0 : key.currency1;
+        address currencyOut = zeroForOne ? key.currency1 : key.currency0;
+        poolManager.sync(currencyIn);
+        IERC20(currencyIn).safeTransfer(address(poolManager), amountPaid);
+        poolManager.settle();
+        if (amountOut > 0) poolManager.take(currencyOut, recipient, amountOut);
+
+        return abi.encode(amountOut);
+    }
+
+    /// @inheritdoc IDEXAdapter
+    /// @dev V4 quotes come from V4Quoter, which reverts to return data and is not a view function.
+    ///      Return 0 to signal "quote off-chain" — the bot simulates from StateView reads.
+    function getAmountOut(address, address, uint256, bytes calldata) external pure returns (uint256) {
+        return 0;
+    }
+}
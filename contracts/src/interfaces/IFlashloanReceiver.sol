@@ -6,6 +6,14 @@ pragma solidity ^0.8.24;
 /// @dev The FlashloanReceiver base contract implements these callbacks.
 ///      Each callback corresponds to a specific flash loan provider's expected interface.
 interface IFlashloanReceiver {
+    /// @notice dYdX Account.Info: identifies a SoloMargin account
+    /// @param owner The account owner address
+    /// @param number The account number
+    struct AccountInfo {
+        address owner;
+        uint256 number;
+    }
+
     /// @notice Aave V3 flash loan callback
     /// @dev Called by the Aave Pool after transferring the flash-borrowed assets
     /// @param asset The address of the flash-borrowed asset
@@ -36,19 +44,19 @@ interface IFlashloanReceiver {
     ) external;
 
     /// @notice Uniswap V3 flash callback
-    /// @dev Called by a Uniswap V3 pool after a flash loan
+    /// @dev Called by a Uniswap V3 pool after transferring the flash-borrowed token.
+    /// The borrower must transfer the amount plus fee back before returning.
     /// @param fee0 The fee amount in token0 owed to the pool
     /// @param fee1 The fee amount in token1 owed to the pool
-    /// @param data Encoded parameters passed from the initiator
+    /// @param data Encoded parameters passed from the initiator: abi.encode(asset, amount)
     function uniswapV3FlashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external;
 
-    /// @notice dYdX flash loan callback
-    /// @dev Called by dYdX SoloMargin after transferring the flash-borrowed assets.
-    /// The borrower must repay the exact amount (dYdX charges no fee).
-    /// @param sender The address that initiated the flash loan operation
-    /// @param accountOwner The dYdX account owner address
-    /// @param accountNumber The dYdX account number
-    /// @param data Encoded parameters passed from the initiator
-    function callFunction(address sender, address accountOwner, uint256 accountNumber, bytes calldata data)
-        external;
+    /// @notice dYdX flash loan callback (ICallee)
+    /// @dev Called by dYdX SoloMargin for the Call action, between the Withdraw that
+    /// lends the asset and the Deposit that takes it back. The borrower must approve
+    /// SoloMargin for the amount plus 2 wei.
+    /// @param sender The address that called SoloMargin.operate
+    /// @param accountInfo The dYdX account the operation acts on
+    /// @param data Encoded parameters passed from the initiator: abi.encode(asset, amount)
+    function callFunction(address sender, AccountInfo calldata accountInfo, bytes calldata data) external;
 }
@@ -6,6 +6,7 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {FlashloanExecutor} from "../../src/FlashloanExecutor.sol";
 import {FlashloanReceiver} from "../../src/FlashloanReceiver.sol";
 import {IFlashloanExecutor} from "../../src/interfaces/IFlashloanExecutor.sol";
+import {IFlashloanReceiver} from "../../src/interfaces/IFlashloanReceiver.sol";
 import {CircuitBreaker} from "../../src/safety/CircuitBreaker.sol";
 
 // ---------------------------------------------------------------
@@ -154,9 +155,9 @@ contract TestableReceiver is FlashloanReceiver {
         arbitrageCalled = true;
     }
 
-    /// @dev Expose _setFlashLoanActive for testing
-    function setFlashLoanActiveForTest(bool active) external {
-        _setFlashLoanActive(active);
+    /// @dev Expose _setFlashLender for testing
+    function setFlashLenderForTest(address lender) external {
+        _setFlashLender(lender);
     }
 }
 
@@ -278,11 +279,12 @@ contract CircuitBreakerAccessControlTest is Test {
 }
 
 /// @title Security Audit Tests - Finding F-02: Flash Loan Callback Guard
-/// @notice Tests that uniswapV3FlashCallback and callFunction are guarded by the _flashLoanActive flag.
+/// @notice Tests that uniswapV3FlashCallback and callFunction are guarded by the active flash lender.
 ///         Previously, anyone could call these callbacks at any time. While the profit check
 ///         would prevent fund loss, this was a code smell and defense-in-depth gap.
 contract FlashLoanCallbackGuardTest is Test {
     TestableReceiver internal receiver;
+    SecurityMockToken internal token;
     address internal owner = makeAddr("owner");
     address internal aavePool = makeAddr("aavePool");
     address internal balancerVault = makeAddr("balancerVault");
@@ -290,6 +292,7 @@ contract FlashLoanCallbackGuardTest is Test {
 
     function setUp() public {
         receiver = new TestableReceiver(aavePool, balancerVault, owner);
+        token = new SecurityMockToken();
     }
 
     /// @notice F-02a: uniswapV3FlashCallback reverts when no flash loan is active
@@ -303,20 +306,22 @@ contract FlashLoanCallbackGuardTest is Test {
     function test_revertWhen_callFunctionWithoutActiveFlashLoan() public {
         vm.prank(attacker);
         vm.expectRevert(FlashloanReceiver.NoActiveFlashLoan.selector);
-        receiver.callFunction(address(0), address(0), 0, "");
+        receiver.callFunction(address(0), IFlashloanReceiver.AccountInfo(address(0), 0), "");
     }
 
     /// @notice F-02c: uniswapV3FlashCallback works when flash loan IS active
     function test_uniswapV3CallbackWorksWhenFlashLoanActive() public {
-        receiver.setFlashLoanActiveForTest(true);
-        receiver.uniswapV3FlashCallback(0, 0, "test");
+        receiver.setFlashLenderForTest(address(this));
+        receiver.uniswapV3FlashCallback(0, 0, abi.encode(address(token), 0));
         assertTrue(receiver.arbitrageCalled(), "Callback should succeed when flash loan is active");
     }
 
     /// @notice F-02d: callFunction works when flash loan IS active
     function test_callFunctionWorksWhenFlashLoanActive() public {
-        receiver.setFlashLoanActiveForTest(true);
-        receiver.callFunction(address(0), address(0), 0, "test");
+        receiver.setFlashLenderForTest(address(this));
+        receiver.callFunction(
+            address(receiver), IFlashloanReceiver.AccountInfo(address(receiver), 1), abi.encode(address(token), 0)
+        );
         assertTrue(receiver.arbitrageCalled(), "Callback should succeed when flash loan is active");
     }
 
@@ -326,6 +331,16 @@ contract FlashLoanCallbackGuardTest is Test {
         vm.expectRevert(FlashloanReceiver.NoActiveFlashLoan.selector);
         receiver.uniswapV3FlashCallback(0, 0, "");
     }
+
+    /// @notice F-02f: only the active lender may call back, even mid-loan
+    function test_revertWhen_callbackFromOtherThanActiveLender() public {
+        receiver.setFlashLenderForTest(address(this));
+        vm.prank(attacker);
+        vm.expectRevert(
+            abi.encodeWithSelector(FlashloanReceiver.UnauthorizedCaller.selector, attacker, address(this))
+        );
+        receiver.uniswapV3FlashCallback(0, 0, abi.encode(address(token), 0));
+    }
 }
 
 /// @title Security Audit Tests - Finding F-03: Residual Allowance Cleanup
@@ -558,7 +573,7 @@ contract ReentrantEmergencyOwner {
 }
 
 /// @title Security Audit Tests - Finding F-06: Flash Loan Active Flag Lifecycle
-/// @notice Tests that the _flashLoanActive flag is properly set and cleared during execution.
+/// @notice Tests that the active flash lender is properly set and cleared during execution.
 contract FlashLoanActiveFlagTest is Test {
     FlashloanExecutor internal executor;
     SecurityMockToken internal token;
@@ -586,7 +601,7 @@ contract FlashLoanActiveFlagTest is Test {
         executor.registerAdapter(address(adapter));
     }
 
-    /// @notice F-06a: uniswapV3FlashCallback reverts after a successful arbitrage (flag cleared)
+    /// @notice F-06a: uniswapV3FlashCallback reverts after a successful arbitrage (lender cleared)
     function test_callbackFailsAfterArbitrageComplete() public {
         // Execute a successful arbitrage
         uint256 premium = (LOAN_AMOUNT * 5) / 10_000;
@@ -614,7 +629,7 @@ contract FlashLoanActiveFlagTest is Test {
         executor.uniswapV3FlashCallback(0, 0, "");
     }
 
-    /// @notice F-06b: callFunction reverts after a successful arbitrage (flag cleared)
+    /// @notice F-06b: callFunction reverts after a successful arbitrage (lender cleared)
     function test_callFunctionFailsAfterArbitrageComplete() public {
         uint256 premium = (LOAN_AMOUNT * 5) / 10_000;
         uint256 returnAmount = LOAN_AMOUNT + premium + MIN_PROFIT + 1 ether;
@@ -637,6 +652,6 @@ contract FlashLoanActiveFlagTest is Test {
 
         vm.prank(attacker);
         vm.expectRevert(FlashloanReceiver.NoActiveFlashLoan.selector);
-        executor.callFunction(address(0), address(0), 0, "");
+        executor.callFunction(address(0), IFlashloanReceiver.AccountInfo(address(0), 0), "");
     }
 }
@@ -3,9 +3,10 @@ pragma solidity ^0.8.24;
 
 import {Test} from "forge-std/Test.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import {FlashloanExecutor} from "../../src/FlashloanExecutor.sol";
+import {FlashloanExecutor, ISoloMargin} from "../../src/FlashloanExecutor.sol";
 import {FlashloanReceiver} from "../../src/FlashloanReceiver.sol";
 import {IFlashloanExecutor} from "../../src/interfaces/IFlashloanExecutor.sol";
+import {IFlashloanReceiver} from "../../src/interfaces/IFlashloanReceiver.sol";
 
 // ---------------------------------------------------------------
 // Mock ERC20 Token (with approve/transferFrom support for SafeERC20)
@@ -168,6 +169,94 @@ contract MockBalancerVault {
     }
 }
 
+// ---------------------------------------------------------------
+// Mock Uniswap V3 Factory and Pool
+// ---------------------------------------------------------------
+
+/// @dev Simulates UniswapV3Factory.getPool for the pools registered with it.
+contract MockUniswapV3Factory {
+    mapping(address => mapping(address => mapping(uint24 => address))) public getPool;
+
+    function setPool(address tokenA, address tokenB, uint24 fee, address pool) external {
+        getPool[tokenA][tokenB][fee] = pool;
+        getPool[tokenB][tokenA][fee] = pool;
+    }
+}
+
+/// @dev Simulates UniswapV3Pool.flash: sends the tokens, calls
+///      uniswapV3FlashCallback on the caller, then checks that its balances
+///      grew by the fees.
+contract MockUniswapV3Pool {
+    address public token0;
+    address public token1;
+    uint24 public fee;
+
+    constructor(address _token0, address _token1, uint24 _fee) {
+        token0 = _token0;
+        token1 = _token1;
+        fee = _fee;
+    }
+
+    function flash(address recipient, uint256 amount0, uint256 amount1, bytes calldata data) external {
+        uint256 fee0 = (amount0 * fee + 1e6 - 1) / 1e6;
+        uint256 fee1 = (amount1 * fee + 1e6 - 1) / 1e6;
+        uint256 balance0Before = MockToken(token0).balanceOf(address(this));
+        uint256 balance1Before = MockToken(token1).balanceOf(address(this));
+
+        if (amount0 > 0) MockToken(token0).transfer(recipient, amount0);
+        if (amount1 > 0) MockToken(token1).transfer(recipient, amount1);
+
+        FlashloanExecutor(payable(msg.sender)).uniswapV3FlashCallback(fee0, fee1, data);
+
+        require(MockToken(token0).balanceOf(address(this)) >= balance0Before + fee0, "F0");
+        require(MockToken(token1).balanceOf(address(this)) >= balance1Before + fee1, "F1");
+    }
+}
+
+// ---------------------------------------------------------------
+// Mock dYdX SoloMargin
+// ---------------------------------------------------------------
+
+/// @dev Simulates SoloMargin.operate for Withdraw, Call and Deposit actions
+///      in wei: sends withdrawals, calls callFunction, pulls deposits.
+contract MockSoloMargin {
+    address[] internal _markets;
+
+    function addMarket(address token) external {
+        _markets.push(token);
+    }
+
+    function getNumMarkets() external view returns (uint256) {
+        return _markets.length;
+    }
+
+    function getMarketTokenAddress(uint256 marketId) external view returns (address) {
+        return _markets[marketId];
+    }
+
+    function operate(
+        IFlashloanReceiver.AccountInfo[] calldata accounts,
+        ISoloMargin.ActionArgs[] calldata actions
+    ) external {
+        for (uint256 i = 0; i < actions.length; i++) {
+            ISoloMargin.ActionArgs calldata action = actions[i];
+            if (action.actionType == ISoloMargin.ActionType.Withdraw) {
+                MockToken(_markets[action.primaryMarketId]).transfer(action.otherAddress, action.amount.value);
+            } else if (action.actionType == ISoloMargin.ActionType.Call) {
+                IFlashloanReceiver(action.otherAddress).callFunction(
+                    msg.sender, accounts[action.accountId], action.data
+                );
+            } else if (action.actionType == ISoloMargin.ActionType.Deposit) {
+                MockToken(_markets[action.primaryMarketId]).transferFrom(
+                    action.otherAddress, address(this), action.amount.value
+                );
+            } else {
+                revert("MockSoloMargin: unsupported action");
+            }
+        }
+    }
+}
+
 // ---------------------------------------------------------------
 // FlashloanExecutorTest
 // ---------------------------------------------------------------
@@ -951,6 +1040,139 @@ contract FlashloanExecutorTest is Test {
         vm.stopPrank();
     }
 
+    // ---------------------------------------------------------------
+    // Uniswap V3 and dYdX Flash Loan Provider Tests
+    // ---------------------------------------------------------------
+
+    function test_executeArbitrage_uniswapV3Provider() public {
+        MockUniswapV3Pool pool = _deployUniswapV3Pool(address(token), address(tokenB));
+        uint256 fee = (LOAN_AMOUNT * 500) / 1e6;
+        _setupProfitableSwapFrom(address(pool), adapter1, LOAN_AMOUNT, fee);
+
+        IFlashloanExecutor.SwapStep[] memory steps = _singleSwapStep(adapter1);
+
+        vm.prank(owner);
+        executor.executeArbitrage(address(pool), address(token), LOAN_AMOUNT, steps);
+
+        // The pool got the loan back plus its 0.05% fee; the executor keeps the rest
+        assertEq(token.balanceOf(address(pool)), LOAN_AMOUNT + fee);
+        assertEq(token.balanceOf(address(executor)), MIN_PROFIT + 0.01 ether);
+    }
+
+    function test_executeArbitrage_uniswapV3BorrowsToken1() public {
+        MockUniswapV3Pool pool = _deployUniswapV3Pool(address(tokenB), address(token));
+        uint256 fee = (LOAN_AMOUNT * 500) / 1e6;
+        _setupProfitableSwapFrom(address(pool), adapter1, LOAN_AMOUNT, fee);
+
+        IFlashloanExecutor.SwapStep[] memory steps = _singleSwapStep(adapter1);
+
+        vm.prank(owner);
+        executor.executeArbitrage(address(pool), address(token), LOAN_AMOUNT, steps);
+
+        assertEq(token.balanceOf(address(pool)), LOAN_AMOUNT + fee);
+    }
+
+    function test_revertWhen_uniswapV3PoolNotFromFactory() public {
+        _deployUniswapV3Pool(address(token), address(tokenB));
+        // Same tokens and fee, but not the pool the factory deployed
+        MockUniswapV3Pool impostor = new MockUniswapV3Pool(address(token), address(tokenB), 500);
+
+        IFlashloanExecutor.SwapStep[] memory steps = _singleSwapStep(adapter1);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(FlashloanExecutor.UnsupportedFlashLoanProvider.selector, address(impostor))
+        );
+        executor.executeArbitrage(address(impostor), address(token), LOAN_AMOUNT, steps);
+    }
+
+    function test_revertWhen_uniswapV3FactoryNotSet() public {
+        MockUniswapV3Pool pool = _deployUniswapV3Pool(address(token), address(tokenB));
+        vm.prank(owner);
+        executor.setUniswapV3Factory(address(0));
+
+        IFlashloanExecutor.SwapStep[] memory steps = _singleSwapStep(adapter1);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(FlashloanExecutor.UnsupportedFlashLoanProvider.selector, address(pool))
+        );
+        executor.executeArbitrage(address(pool), address(token), LOAN_AMOUNT, steps);
+    }
+
+    function test_revertWhen_uniswapV3PoolLacksToken() public {
+        MockToken tokenC = new MockToken();
+        MockUniswapV3Pool pool = _deployUniswapV3Pool(address(tokenB), address(tokenC));
+
+        IFlashloanExecutor.SwapStep[] memory steps = _singleSwapStep(adapter1);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                FlashloanExecutor.UnsupportedFlashLoanToken.selector, address(pool), address(token)
+            )
+        );
+        executor.executeArbitrage(address(pool), address(token), LOAN_AMOUNT, steps);
+    }
+
+    function test_executeArbitrage_dydxProvider() public {
+        MockSoloMargin soloMargin = _deploySoloMargin();
+        _setupProfitableSwapFrom(address(soloMargin), adapter1, LOAN_AMOUNT, 2);
+
+        IFlashloanExecutor.SwapStep[] memory steps = _singleSwapStep(adapter1);
+
+        vm.prank(owner);
+        executor.executeArbitrage(address(soloMargin), address(token), LOAN_AMOUNT, steps);
+
+        // SoloMargin took back the loan plus 2 wei
+        assertEq(token.balanceOf(address(soloMargin)), LOAN_AMOUNT + 2);
+        assertEq(token.balanceOf(address(executor)), MIN_PROFIT + 0.01 ether);
+        assertEq(token.allowance(address(executor), address(soloMargin)), 0);
+    }
+
+    function test_revertWhen_dydxHasNoMarketForToken() public {
+        MockSoloMargin soloMargin = new MockSoloMargin();
+        soloMargin.addMarket(address(tokenB));
+        vm.prank(owner);
+        executor.setDydxSoloMargin(address(soloMargin));
+
+        IFlashloanExecutor.SwapStep[] memory steps = _singleSwapStep(adapter1);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                FlashloanExecutor.UnsupportedFlashLoanToken.selector, address(soloMargin), address(token)
+            )
+        );
+        executor.executeArbitrage(address(soloMargin), address(token), LOAN_AMOUNT, steps);
+    }
+
+    function test_setUniswapV3FactoryAndDydxSoloMargin() public {
+        address factory = makeAddr("factory");
+        address soloMargin = makeAddr("soloMargin");
+
+        vm.startPrank(owner);
+        vm.expectEmit(true, true, false, false);
+        emit FlashloanExecutor.UniswapV3FactoryUpdated(address(0), factory);
+        executor.setUniswapV3Factory(factory);
+        vm.expectEmit(true, true, false, false);
+        emit FlashloanExecutor.DydxSoloMarginUpdated(address(0), soloMargin);
+        executor.setDydxSoloMargin(soloMargin);
+        vm.stopPrank();
+
+        assertEq(executor.uniswapV3Factory(), factory);
+        assertEq(executor.dydxSoloMargin(), soloMargin);
+    }
+
+    function test_revertWhen_setFlashLoanProvidersByNonOwner() public {
+        vm.startPrank(attacker);
+        vm.expectRevert();
+        executor.setUniswapV3Factory(attacker);
+        vm.expectRevert();
+        executor.setDydxSoloMargin(attacker);
+        vm.stopPrank();
+    }
+
     // ---------------------------------------------------------------
     // Helpers
     // ---------------------------------------------------------------
@@ -985,6 +1207,35 @@ contract FlashloanExecutorTest is Test {
         token.mint(address(balancerVault), amount);
     }
 
+    /// @dev Set up a profitable single-hop swap funded by `lender`, which charges `fee`.
+    function _setupProfitableSwapFrom(address lender, MockAdapter adapter, uint256 amount, uint256 fee) internal {
+        uint256 returnAmount = amount + fee + MIN_PROFIT + 0.01 ether; // guarantee profit
+
+        adapter.setMultiplier(returnAmount, amount);
+        token.mint(address(adapter), returnAmount);
+        token.mint(lender, amount);
+    }
+
+    /// @dev Deploy a 0.05% Uniswap V3 pool through a mock factory the executor trusts.
+    function _deployUniswapV3Pool(address token0, address token1) internal returns (MockUniswapV3Pool pool) {
+        MockUniswapV3Factory factory = new MockUniswapV3Factory();
+        pool = new MockUniswapV3Pool(token0, token1, 500);
+        factory.setPool(token0, token1, 500, address(pool));
+
+        vm.prank(owner);
+        executor.setUniswapV3Factory(address(factory));
+    }
+
+    /// @dev Deploy a SoloMargin lending tokenB (market 0) and token (market 1), trusted by the executor.
+    function _deploySoloMargin() internal returns (MockSoloMargin soloMargin) {
+        soloMargin = new MockSoloMargin();
+        soloMargin.addMarket(address(tokenB));
+        soloMargin.addMarket(address(token));
+
+        vm.prank(owner);
+        executor.setDydxSoloMargin(address(soloMargin));
+    }
+
     /// @dev Create a single swap step: token -> token through the given adapter
     function _singleSwapStep(MockAdapter adapter) internal view returns (IFlashloanExecutor.SwapStep[] memory) {
         IFlashloanExecutor.SwapStep[] memory steps = new IFlashloanExecutor.SwapStep[](1);
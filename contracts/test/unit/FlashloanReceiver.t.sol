@@ -4,6 +4,7 @@ pragma solidity ^0.8.24;
 import {Test} from "forge-std/Test.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {FlashloanReceiver} from "../../src/FlashloanReceiver.sol";
+import {IFlashloanReceiver} from "../../src/interfaces/IFlashloanReceiver.sol";
 
 /// @dev Concrete implementation for testing the abstract FlashloanReceiver.
 contract TestReceiver is FlashloanReceiver {
@@ -19,9 +20,9 @@ contract TestReceiver is FlashloanReceiver {
         lastParams = params;
     }
 
-    /// @dev Expose _setFlashLoanActive for testing callback guards.
-    function setFlashLoanActive(bool active) external {
-        _setFlashLoanActive(active);
+    /// @dev Expose _setFlashLender for testing callback guards.
+    function setFlashLender(address lender) external {
+        _setFlashLender(lender);
     }
 }
 
@@ -217,56 +218,91 @@ contract FlashloanReceiverTest is Test {
     // Uniswap V3 Flash Callback Tests
     // ──────────────────────────────────────────────
 
-    function test_uniswapV3FlashCallback_callsArbitrageWhenActive() public {
-        bytes memory data = abi.encode("uni-v3-test");
-        // Set flash loan active flag (simulates being inside a flash loan flow)
-        receiver.setFlashLoanActive(true);
-        receiver.uniswapV3FlashCallback(0, 0, data);
+    function test_uniswapV3FlashCallback_repaysPoolWithFee() public {
+        address pool = makeAddr("uniswapV3Pool");
+        uint256 amount = 100 ether;
+        uint256 fee = 0.05 ether;
+        bytes memory data = abi.encode(address(token), amount);
+        token.mint(address(receiver), amount + fee);
+
+        // Set the active lender (simulates being inside a flash loan flow)
+        receiver.setFlashLender(pool);
+        vm.prank(pool);
+        receiver.uniswapV3FlashCallback(fee, 0, data);
 
         assertTrue(receiver.arbitrageCalled());
         assertEq(receiver.lastParams(), data);
+        assertEq(token.balanceOf(pool), amount + fee);
+        assertEq(token.balanceOf(address(receiver)), 0);
     }
 
     function test_revertWhen_uniswapV3FlashCallbackNotActive() public {
-        bytes memory data = abi.encode("uni-v3-test");
+        bytes memory data = abi.encode(address(token), 1 ether);
         // Flash loan not active -- should revert
         vm.expectRevert(FlashloanReceiver.NoActiveFlashLoan.selector);
         receiver.uniswapV3FlashCallback(0, 0, data);
     }
 
     function test_revertWhen_uniswapV3FlashCallbackByAttackerNotActive() public {
-        bytes memory data = abi.encode("attack");
+        bytes memory data = abi.encode(address(token), 1 ether);
         vm.prank(attacker);
         vm.expectRevert(FlashloanReceiver.NoActiveFlashLoan.selector);
         receiver.uniswapV3FlashCallback(0, 0, data);
     }
 
+    function test_revertWhen_uniswapV3FlashCallbackByOtherThanLender() public {
+        address pool = makeAddr("uniswapV3Pool");
+        receiver.setFlashLender(pool);
+
+        vm.prank(attacker);
+        vm.expectRevert(abi.encodeWithSelector(FlashloanReceiver.UnauthorizedCaller.selector, attacker, pool));
+        receiver.uniswapV3FlashCallback(0, 0, abi.encode(address(token), 1 ether));
+    }
+
     // ──────────────────────────────────────────────
     // dYdX callFunction Tests
     // ──────────────────────────────────────────────
 
-    function test_callFunction_callsArbitrageWhenActive() public {
-        bytes memory data = abi.encode("dydx-test");
-        // Set flash loan active flag (simulates being inside a flash loan flow)
-        receiver.setFlashLoanActive(true);
-        receiver.callFunction(address(this), address(this), 0, data);
+    function test_callFunction_approvesRepaymentWithFee() public {
+        address soloMargin = makeAddr("soloMargin");
+        uint256 amount = 100 ether;
+        bytes memory data = abi.encode(address(token), amount);
+
+        // Set the active lender (simulates being inside a flash loan flow)
+        receiver.setFlashLender(soloMargin);
+        vm.prank(soloMargin);
+        receiver.callFunction(address(receiver), _account(), data);
 
         assertTrue(receiver.arbitrageCalled());
         assertEq(receiver.lastParams(), data);
+        assertEq(token.allowance(address(receiver), soloMargin), amount + 2);
     }
 
     function test_revertWhen_callFunctionNotActive() public {
-        bytes memory data = abi.encode("dydx-test");
+        bytes memory data = abi.encode(address(token), 1 ether);
         // Flash loan not active -- should revert
         vm.expectRevert(FlashloanReceiver.NoActiveFlashLoan.selector);
-        receiver.callFunction(address(this), address(this), 0, data);
+        receiver.callFunction(address(receiver), _account(), data);
     }
 
     function test_revertWhen_callFunctionByAttackerNotActive() public {
-        bytes memory data = abi.encode("attack");
+        bytes memory data = abi.encode(address(token), 1 ether);
         vm.prank(attacker);
         vm.expectRevert(FlashloanReceiver.NoActiveFlashLoan.selector);
-        receiver.callFunction(address(this), address(this), 0, data);
+        receiver.callFunction(address(receiver), _account(), data);
+    }
+
+    function test_revertWhen_callFunctionOperationNotInitiatedByReceiver() public {
+        address soloMargin = makeAddr("soloMargin");
+        receiver.setFlashLender(soloMargin);
+
+        vm.prank(soloMargin);
+        vm.expectRevert(abi.encodeWithSelector(FlashloanReceiver.UnauthorizedInitiator.selector, attacker));
+        receiver.callFunction(attacker, _account(), abi.encode(address(token), 1 ether));
+    }
+
+    function _account() internal view returns (IFlashloanReceiver.AccountInfo memory) {
+        return IFlashloanReceiver.AccountInfo({owner: address(receiver), number: 1});
     }
 
     // ──────────────────────────────────────────────
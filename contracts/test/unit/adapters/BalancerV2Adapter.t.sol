@@ -0,0 +1,169 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IDEXAdapter} from "../../../src/interfaces/IDEXAdapter.sol";
+import {BalancerV2Adapter, IBalancerVault} from "../../../src/adapters/BalancerV2Adapter.sol";
+
+/// @dev Minimal ERC20 mock for adapter tests.
+contract MockToken is IERC20 {
+    string public name;
+    string public symbol;
+    uint8 public decimals = 18;
+    uint256 public totalSupply;
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+    }
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+        totalSupply += amount;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "ERC20: transfer exceeds balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+        emit Approval(msg.sender, spender, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        require(allowance[from][msg.sender] >= amount, "ERC20: insufficient allowance");
+        require(balanceOf[from] >= amount, "ERC20: transfer exceeds balance");
+        if (allowance[from][msg.sender] != type(uint256).max) {
+            allowance[from][msg.sender] -= amount;
+        }
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(from, to, amount);
+        return true;
+    }
+}
+
+/// @dev Mock Balancer Vault: pulls assetIn from the sender and mints assetOut to the
+///      recipient at a configurable rate, enforcing `limit` like the real Vault.
+contract MockBalancerVault {
+    /// @dev Output rate as basis points (10000 = 1:1). Set per-test.
+    uint256 public outputRate = 9970; // 99.70% (simulates 0.3% fee)
+
+    bytes32 public lastPoolId;
+
+    function setOutputRate(uint256 _rate) external {
+        outputRate = _rate;
+    }
+
+    function swap(
+        IBalancerVault.SingleSwap memory singleSwap,
+        IBalancerVault.FundManagement memory funds,
+        uint256 limit,
+        uint256 deadline
+    ) external payable returns (uint256 amountCalculated) {
+        require(block.timestamp <= deadline, "BAL#508");
+        lastPoolId = singleSwap.poolId;
+        MockToken(singleSwap.assetIn).transferFrom(funds.sender, address(this), singleSwap.amount);
+        amountCalculated = (singleSwap.amount * outputRate) / 10_000;
+        require(amountCalculated >= limit, "BAL#507");
+        MockToken(singleSwap.assetOut).mint(funds.recipient, amountCalculated);
+    }
+}
+
+/// @title BalancerV2AdapterTest
+/// @notice Unit tests for BalancerV2Adapter DEX adapter.
+contract BalancerV2AdapterTest is Test {
+    BalancerV2Adapter internal adapter;
+    MockBalancerVault internal vault;
+    MockToken internal weth;
+    MockToken internal usdc;
+
+    address internal caller = makeAddr("caller");
+
+    bytes32 internal constant POOL_ID = 0x96646936b91d6b9d7d0c47c496afbf3d6ec7b6f8000200000000000000000019;
+    uint256 internal constant SWAP_AMOUNT = 10 ether;
+
+    function setUp() public {
+        weth = new MockToken("Wrapped Ether", "WETH");
+        usdc = new MockToken("USD Coin", "USDC");
+        vault = new MockBalancerVault();
+        adapter = new BalancerV2Adapter(address(vault));
+
+        weth.mint(caller, SWAP_AMOUNT);
+        vm.prank(caller);
+        weth.approve(address(adapter), type(uint256).max);
+    }
+
+    function test_constructor_revertWhen_zeroVault() public {
+        vm.expectRevert(IDEXAdapter.InvalidToken.selector);
+        new BalancerV2Adapter(address(0));
+    }
+
+    function test_swap_paysOutputToCaller() public {
+        vm.prank(caller);
+        uint256 amountOut = adapter.swap(address(weth), address(usdc), SWAP_AMOUNT, 0, abi.encode(POOL_ID));
+
+        assertEq(amountOut, (SWAP_AMOUNT * 9970) / 10_000);
+        assertEq(usdc.balanceOf(caller), amountOut);
+        assertEq(usdc.balanceOf(address(adapter)), 0);
+        assertEq(weth.balanceOf(address(vault)), SWAP_AMOUNT);
+        assertEq(vault.lastPoolId(), POOL_ID);
+    }
+
+    function test_swap_emitsSwapExecuted() public {
+        uint256 expectedOut = (SWAP_AMOUNT * 9970) / 10_000;
+
+        vm.expectEmit(true, true, false, true, address(adapter));
+        emit IDEXAdapter.SwapExecuted(address(weth), address(usdc), SWAP_AMOUNT, expectedOut);
+
+        vm.prank(caller);
+        adapter.swap(address(weth), address(usdc), SWAP_AMOUNT, 0, abi.encode(POOL_ID));
+    }
+
+    function test_revertWhen_swapZeroAmountIn() public {
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.ZeroAmountIn.selector);
+        adapter.swap(address(weth), address(usdc), 0, 0, abi.encode(POOL_ID));
+    }
+
+    function test_revertWhen_swapZeroTokenOut() public {
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.InvalidToken.selector);
+        adapter.swap(address(weth), address(0), SWAP_AMOUNT, 0, abi.encode(POOL_ID));
+    }
+
+    function test_revertWhen_swapZeroPoolId() public {
+        vm.prank(caller);
+        vm.expectRevert(BalancerV2Adapter.InvalidPool.selector);
+        adapter.swap(address(weth), address(usdc), SWAP_AMOUNT, 0, abi.encode(bytes32(0)));
+    }
+
+    function test_revertWhen_swapReturnsZeroOutput() public {
+        vault.setOutputRate(0);
+
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.ZeroAmountOut.selector);
+        adapter.swap(address(weth), address(usdc), SWAP_AMOUNT, 0, abi.encode(POOL_ID));
+    }
+
+    function test_revertWhen_slippageExceeded() public {
+        // The mock Vault enforces the limit itself, as Balancer does
+        vm.prank(caller);
+        vm.expectRevert();
+        adapter.swap(address(weth), address(usdc), SWAP_AMOUNT, SWAP_AMOUNT, abi.encode(POOL_ID));
+    }
+
+    function test_getAmountOut_returnsZero() public view {
+        uint256 quote = adapter.getAmountOut(address(weth), address(usdc), SWAP_AMOUNT, abi.encode(POOL_ID));
+        assertEq(quote, 0, "Balancer adapter quotes off-chain");
+    }
+}
@@ -0,0 +1,172 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IDEXAdapter} from "../../../src/interfaces/IDEXAdapter.sol";
+import {CurveStableSwapAdapter, ICurveStableSwap} from "../../../src/adapters/CurveStableSwapAdapter.sol";
+
+/// @dev Minimal ERC20 mock for adapter tests.
+contract MockToken is IERC20 {
+    string public name;
+    string public symbol;
+    uint8 public decimals = 18;
+    uint256 public totalSupply;
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+    }
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+        totalSupply += amount;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "ERC20: transfer exceeds balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+        emit Approval(msg.sender, spender, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        require(allowance[from][msg.sender] >= amount, "ERC20: insufficient allowance");
+        require(balanceOf[from] >= amount, "ERC20: transfer exceeds balance");
+        if (allowance[from][msg.sender] != type(uint256).max) {
+            allowance[from][msg.sender] -= amount;
+        }
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(from, to, amount);
+        return true;
+    }
+}
+
+/// @dev Mock Curve pool: pulls coin i from the sender and mints coin j at a configurable rate.
+///      Like 3pool, `exchange` returns nothing.
+contract MockCurvePool is ICurveStableSwap {
+    address[] public coins;
+
+    /// @dev Output rate as basis points (10000 = 1:1). Set per-test.
+    uint256 public outputRate = 9996; // 99.96% (simulates 4 bps fee)
+
+    constructor(address[] memory _coins) {
+        coins = _coins;
+    }
+
+    function setOutputRate(uint256 _rate) external {
+        outputRate = _rate;
+    }
+
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external {
+        MockToken(coins[uint256(int256(i))]).transferFrom(msg.sender, address(this), dx);
+        uint256 dy = (dx * outputRate) / 10_000;
+        require(dy >= min_dy, "Exchange resulted in fewer coins than expected");
+        MockToken(coins[uint256(int256(j))]).mint(msg.sender, dy);
+    }
+
+    function get_dy(int128, int128, uint256 dx) external view returns (uint256) {
+        return (dx * outputRate) / 10_000;
+    }
+}
+
+/// @title CurveStableSwapAdapterTest
+/// @notice Unit tests for CurveStableSwapAdapter DEX adapter.
+contract CurveStableSwapAdapterTest is Test {
+    CurveStableSwapAdapter internal adapter;
+    MockCurvePool internal pool;
+    MockToken internal usdc;
+    MockToken internal usdt;
+
+    address internal caller = makeAddr("caller");
+
+    uint256 internal constant SWAP_AMOUNT = 10_000 ether;
+
+    function setUp() public {
+        usdc = new MockToken("USD Coin", "USDC");
+        usdt = new MockToken("Tether", "USDT");
+
+        address[] memory coins = new address[](2);
+        coins[0] = address(usdc);
+        coins[1] = address(usdt);
+        pool = new MockCurvePool(coins);
+
+        adapter = new CurveStableSwapAdapter();
+
+        usdc.mint(caller, SWAP_AMOUNT);
+        vm.prank(caller);
+        usdc.approve(address(adapter), type(uint256).max);
+    }
+
+    function _extraData(int128 i, int128 j) internal view returns (bytes memory) {
+        return abi.encode(address(pool), i, j);
+    }
+
+    function test_swap_forwardsOutputToCaller() public {
+        vm.prank(caller);
+        uint256 amountOut = adapter.swap(address(usdc), address(usdt), SWAP_AMOUNT, 0, _extraData(0, 1));
+
+        assertEq(amountOut, (SWAP_AMOUNT * 9996) / 10_000);
+        assertEq(usdt.balanceOf(caller), amountOut);
+        assertEq(usdt.balanceOf(address(adapter)), 0);
+        assertEq(usdc.balanceOf(address(pool)), SWAP_AMOUNT);
+    }
+
+    function test_swap_emitsSwapExecuted() public {
+        uint256 expectedOut = (SWAP_AMOUNT * 9996) / 10_000;
+
+        vm.expectEmit(true, true, false, true, address(adapter));
+        emit IDEXAdapter.SwapExecuted(address(usdc), address(usdt), SWAP_AMOUNT, expectedOut);
+
+        vm.prank(caller);
+        adapter.swap(address(usdc), address(usdt), SWAP_AMOUNT, 0, _extraData(0, 1));
+    }
+
+    function test_revertWhen_swapZeroAmountIn() public {
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.ZeroAmountIn.selector);
+        adapter.swap(address(usdc), address(usdt), 0, 0, _extraData(0, 1));
+    }
+
+    function test_revertWhen_swapZeroTokenIn() public {
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.InvalidToken.selector);
+        adapter.swap(address(0), address(usdt), SWAP_AMOUNT, 0, _extraData(0, 1));
+    }
+
+    function test_revertWhen_swapZeroPool() public {
+        vm.prank(caller);
+        vm.expectRevert(CurveStableSwapAdapter.InvalidPool.selector);
+        adapter.swap(address(usdc), address(usdt), SWAP_AMOUNT, 0, abi.encode(address(0), int128(0), int128(1)));
+    }
+
+    function test_revertWhen_swapReturnsZeroOutput() public {
+        pool.setOutputRate(0);
+
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.ZeroAmountOut.selector);
+        adapter.swap(address(usdc), address(usdt), SWAP_AMOUNT, 0, _extraData(0, 1));
+    }
+
+    function test_revertWhen_slippageExceeded() public {
+        // The mock pool enforces min_dy itself, as Curve pools do
+        vm.prank(caller);
+        vm.expectRevert();
+        adapter.swap(address(usdc), address(usdt), SWAP_AMOUNT, SWAP_AMOUNT, _extraData(0, 1));
+    }
+
+    function test_getAmountOut_quotesFromPool() public view {
+        uint256 quote = adapter.getAmountOut(address(usdc), address(usdt), SWAP_AMOUNT, _extraData(0, 1));
+        assertEq(quote, (SWAP_AMOUNT * 9996) / 10_000);
+    }
+}
@@ -0,0 +1,250 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IDEXAdapter} from "../../../src/interfaces/IDEXAdapter.sol";
+import {UniswapV4Adapter, IPoolManager, IUnlockCallback} from "../../../src/adapters/UniswapV4Adapter.sol";
+
+/// @dev Minimal ERC20 mock for adapter tests.
+contract MockToken is IERC20 {
+    string public name;
+    string public symbol;
+    uint8 public decimals = 18;
+    uint256 public totalSupply;
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+    }
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+        totalSupply += amount;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "ERC20: transfer exceeds balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+        emit Approval(msg.sender, spender, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        require(allowance[from][msg.sender] >= amount, "ERC20: insufficient allowance");
+        require(balanceOf[from] >= amount, "ERC20: transfer exceeds balance");
+        if (allowance[from][msg.sender] != type(uint256).max) {
+            allowance[from][msg.sender] -= amount;
+        }
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(from, to, amount);
+        return true;
+    }
+}
+
+/// @dev Mock PoolManager with V4 flash accounting: swap records deltas, sync/settle
+///      pay the input, take mints the output, and unlock reverts unless the input
+///      was settled in full.
+contract MockPoolManager {
+    /// @dev Output rate as basis points (10000 = 1:1). Set per-test.
+    uint256 public outputRate = 9970; // 99.70% (simulates 0.3% fee)
+
+    /// @dev Input the pool absorbs as basis points of amountSpecified (partial fills).
+    uint256 public fillRate = 10_000;
+
+    IPoolManager.PoolKey public lastKey;
+    address internal syncedCurrency;
+    uint256 internal syncedBalance;
+    uint256 internal owed;
+    uint256 internal paid;
+
+    function setOutputRate(uint256 _rate) external {
+        outputRate = _rate;
+    }
+
+    function setFillRate(uint256 _rate) external {
+        fillRate = _rate;
+    }
+
+    function unlock(bytes calldata data) external returns (bytes memory result) {
+        owed = 0;
+        paid = 0;
+        result = IUnlockCallback(msg.sender).unlockCallback(data);
+        require(paid == owed, "CurrencyNotSettled");
+    }
+
+    function swap(IPoolManager.PoolKey memory key, IPoolManager.SwapParams memory params, bytes calldata)
+        external
+        returns (int256)
+    {
+        lastKey = key;
+        uint256 amountIn = (uint256(-params.amountSpecified) * fillRate) / 10_000;
+        uint256 amountOut = (amountIn * outputRate) / 10_000;
+        owed = amountIn;
+        int128 inDelta = -int128(int256(amountIn));
+        int128 outDelta = int128(int256(amountOut));
+        return params.zeroForOne ? _toBalanceDelta(inDelta, outDelta) : _toBalanceDelta(outDelta, inDelta);
+    }
+
+    function sync(address currency) external {
+        syncedCurrency = currency;
+        syncedBalance = IERC20(currency).balanceOf(address(this));
+    }
+
+    function settle() external payable returns (uint256 amount) {
+        amount = IERC20(syncedCurrency).balanceOf(address(this)) - syncedBalance;
+        paid += amount;
+    }
+
+    function take(address currency, address to, uint256 amount) external {
+        MockToken(currency).mint(to, amount);
+    }
+
+    function _toBalanceDelta(int128 amount0, int128 amount1) internal pure returns (int256) {
+        return int256((uint256(int256(amount0)) << 128) | uint256(uint128(amount1)));
+    }
+}
+
+/// @title UniswapV4AdapterTest
+/// @notice Unit tests for UniswapV4Adapter DEX adapter.
+contract UniswapV4AdapterTest is Test {
+    UniswapV4Adapter internal adapter;
+    MockPoolManager internal poolManager;
+    MockToken internal tokenA;
+    MockToken internal tokenB;
+    address internal currency0;
+    address internal currency1;
+
+    address internal caller = makeAddr("caller");
+
+    uint256 internal constant SWAP_AMOUNT = 10 ether;
+    uint24 internal constant DYNAMIC_FEE_FLAG = 0x800000;
+
+    function setUp() public {
+        tokenA = new MockToken("Token A", "TKA");
+        tokenB = new MockToken("Token B", "TKB");
+        (currency0, currency1) = address(tokenA) < address(tokenB)
+            ? (address(tokenA), address(tokenB))
+            : (address(tokenB), address(tokenA));
+
+        poolManager = new MockPoolManager();
+        adapter = new UniswapV4Adapter(address(poolManager));
+
+        MockToken(currency0).mint(caller, SWAP_AMOUNT);
+        MockToken(currency1).mint(caller, SWAP_AMOUNT);
+        vm.startPrank(caller);
+        IERC20(currency0).approve(address(adapter), type(uint256).max);
+        IERC20(currency1).approve(address(adapter), type(uint256).max);
+        vm.stopPrank();
+    }
+
+    function _extraData(uint24 fee, address hooks) internal view returns (bytes memory) {
+        return abi.encode(IPoolManager.PoolKey(currency0, currency1, fee, 60, hooks));
+    }
+
+    function test_constructor_revertWhen_zeroPoolManager() public {
+        vm.expectRevert(IDEXAdapter.InvalidToken.selector);
+        new UniswapV4Adapter(address(0));
+    }
+
+    function test_swap_zeroForOne() public {
+        vm.prank(caller);
+        uint256 amountOut = adapter.swap(currency0, currency1, SWAP_AMOUNT, 0, _extraData(3000, address(0)));
+
+        assertEq(amountOut, (SWAP_AMOUNT * 9970) / 10_000);
+        assertEq(IERC20(currency1).balanceOf(caller), SWAP_AMOUNT + amountOut);
+        assertEq(IERC20(currency0).balanceOf(address(poolManager)), SWAP_AMOUNT);
+        assertEq(IERC20(currency0).balanceOf(address(adapter)), 0);
+    }
+
+    function test_swap_oneForZero() public {
+        vm.prank(caller);
+        uint256 amountOut = adapter.swap(currency1, currency0, SWAP_AMOUNT, 0, _extraData(3000, address(0)));
+
+        assertEq(amountOut, (SWAP_AMOUNT * 9970) / 10_000);
+        assertEq(IERC20(currency0).balanceOf(caller), SWAP_AMOUNT + amountOut);
+        assertEq(IERC20(currency1).balanceOf(address(poolManager)), SWAP_AMOUNT);
+    }
+
+    function test_swap_passesDynamicFeeAndHooksInPoolKey() public {
+        address hooks = makeAddr("hooks");
+
+        vm.prank(caller);
+        adapter.swap(currency0, currency1, SWAP_AMOUNT, 0, _extraData(DYNAMIC_FEE_FLAG, hooks));
+
+        (,, uint24 fee, int24 tickSpacing, address keyHooks) = poolManager.lastKey();
+        assertEq(fee, DYNAMIC_FEE_FLAG);
+        assertEq(tickSpacing, 60);
+        assertEq(keyHooks, hooks);
+    }
+
+    function test_swap_emitsSwapExecuted() public {
+        uint256 expectedOut = (SWAP_AMOUNT * 9970) / 10_000;
+
+        vm.expectEmit(true, true, false, true, address(adapter));
+        emit IDEXAdapter.SwapExecuted(currency0, currency1, SWAP_AMOUNT, expectedOut);
+
+        vm.prank(caller);
+        adapter.swap(currency0, currency1, SWAP_AMOUNT, 0, _extraData(3000, address(0)));
+    }
+
+    function test_revertWhen_swapZeroAmountIn() public {
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.ZeroAmountIn.selector);
+        adapter.swap(currency0, currency1, 0, 0, _extraData(3000, address(0)));
+    }
+
+    function test_revertWhen_swapTokensNotInPoolKey() public {
+        address other = address(new MockToken("Other", "OTH"));
+
+        vm.prank(caller);
+        vm.expectRevert(UniswapV4Adapter.InvalidPoolKey.selector);
+        adapter.swap(currency0, other, SWAP_AMOUNT, 0, _extraData(3000, address(0)));
+    }
+
+    function test_revertWhen_partialFill() public {
+        poolManager.setFillRate(5_000);
+
+        vm.prank(caller);
+        vm.expectRevert(
+            abi.encodeWithSelector(UniswapV4Adapter.PartialFill.selector, SWAP_AMOUNT, SWAP_AMOUNT / 2)
+        );
+        adapter.swap(currency0, currency1, SWAP_AMOUNT, 0, _extraData(3000, address(0)));
+    }
+
+    function test_revertWhen_swapReturnsZeroOutput() public {
+        poolManager.setOutputRate(0);
+
+        vm.prank(caller);
+        vm.expectRevert(IDEXAdapter.ZeroAmountOut.selector);
+        adapter.swap(currency0, currency1, SWAP_AMOUNT, 0, _extraData(3000, address(0)));
+    }
+
+    function test_revertWhen_slippageExceeded() public {
+        uint256 expectedOut = (SWAP_AMOUNT * 9970) / 10_000;
+
+        vm.prank(caller);
+        vm.expectRevert(abi.encodeWithSelector(IDEXAdapter.SlippageExceeded.selector, expectedOut, SWAP_AMOUNT));
+        adapter.swap(currency0, currency1, SWAP_AMOUNT, SWAP_AMOUNT, _extraData(3000, address(0)));
+    }
+
+    function test_revertWhen_unlockCallbackNotFromPoolManager() public {
+        vm.expectRevert(UniswapV4Adapter.NotPoolManager.selector);
+        adapter.unlockCallback("");
+    }
+
+    function test_getAmountOut_returnsZero() public view {
+        uint256 quote = adapter.getAmountOut(currency0, currency1, SWAP_AMOUNT, _extraData(3000, address(0)));
+        assertEq(quote, 0, "V4 adapter quotes off-chain");
+    }
+}